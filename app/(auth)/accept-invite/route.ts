@@ -0,0 +1,50 @@
+import { createClient } from "@/src/lib/supabase/server";
+import { NextResponse } from "next/server";
+import {
+  acceptInvitation,
+  readInvitationToken,
+} from "@/app/actions/teams/actions";
+
+export async function GET(request: Request) {
+  // Entry point for clinic invitation links. Signed-in users join the clinic
+  // immediately; everyone else is sent to sign up with the invitation attached.
+  const requestUrl = new URL(request.url);
+  const token = requestUrl.searchParams.get("token");
+  const origin = requestUrl.origin;
+
+  const invitation = token ? await readInvitationToken(token) : null;
+
+  if (!token || !invitation) {
+    const searchParams = new URLSearchParams();
+    searchParams.set("error", "This invitation link is invalid or has expired");
+    return NextResponse.redirect(`${origin}/sign-in?${searchParams.toString()}`);
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    const searchParams = new URLSearchParams();
+    searchParams.set("invite_token", token);
+    searchParams.set("email", invitation.email);
+    searchParams.set(
+      "message",
+      `Create an account to join ${invitation.clinicName}`
+    );
+    return NextResponse.redirect(`${origin}/sign-up?${searchParams.toString()}`);
+  }
+
+  const result = await acceptInvitation(token);
+
+  if (!result.success) {
+    const searchParams = new URLSearchParams();
+    searchParams.set("error", result.error || "Failed to accept invitation");
+    return NextResponse.redirect(
+      `${origin}/dashboard/teams?${searchParams.toString()}`
+    );
+  }
+
+  return NextResponse.redirect(`${origin}/dashboard/teams`);
+}
@@ -1,5 +1,6 @@
 import { createClient } from "@/src/lib/supabase/server";
 import { NextResponse } from "next/server";
+import { acceptInvitation } from "@/app/actions/teams/actions";
 
 export async function GET(request: Request) {
   // The `/auth/callback` route is required for the server-side auth flow implemented
@@ -8,12 +9,26 @@ export async function GET(request: Request) {
   const code = requestUrl.searchParams.get("code");
   const origin = requestUrl.origin;
   const redirectTo = requestUrl.searchParams.get("redirect_to")?.toString();
+  const inviteToken = requestUrl.searchParams.get("invite_token");
 
   if (code) {
     const supabase = await createClient();
     await supabase.auth.exchangeCodeForSession(code);
   }
 
+  // Users who signed up from an invitation join the inviting clinic
+  if (inviteToken) {
+    const result = await acceptInvitation(inviteToken);
+    if (!result.success) {
+      const searchParams = new URLSearchParams();
+      searchParams.set("error", result.error || "Failed to accept invitation");
+      return NextResponse.redirect(
+        `${origin}/dashboard/teams?${searchParams.toString()}`
+      );
+    }
+    return NextResponse.redirect(`${origin}/dashboard/teams`);
+  }
+
   if (redirectTo) {
     return NextResponse.redirect(`${origin}${redirectTo}`);
   }
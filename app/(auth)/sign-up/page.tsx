@@ -10,10 +10,15 @@ import { AlertCircle } from "lucide-react";
 export default async function SignUp({
   searchParams,
 }: {
-  searchParams: { error?: string; message?: string };
+  searchParams: {
+    error?: string;
+    message?: string;
+    invite_token?: string;
+    email?: string;
+  };
 }) {
   // Convert searchParams to regular variables to avoid the dynamic API issue
-  const { error, message } = searchParams;
+  const { error, message, invite_token, email } = searchParams;
 
   return (
     <div className="flex min-h-screen flex-col items-center justify-center py-12 sm:px-6 lg:px-8">
@@ -39,6 +44,9 @@ export default async function SignUp({
           )}
 
           <form className="space-y-6" action={signUp}>
+            {invite_token && (
+              <input type="hidden" name="invite_token" value={invite_token} />
+            )}
             <div>
               <Label htmlFor="email">Email address</Label>
               <div className="mt-2">
@@ -47,6 +55,7 @@ export default async function SignUp({
                   name="email"
                   type="email"
                   autoComplete="email"
+                  defaultValue={email}
                   required
                 />
               </div>
@@ -92,7 +101,13 @@ export default async function SignUp({
           <p className="mt-6 text-center text-sm text-muted-foreground">
             Already have an account?{" "}
             <Link
-              href="/sign-in"
+              href={
+                invite_token
+                  ? `/sign-in?redirect_to=${encodeURIComponent(
+                      `/accept-invite?token=${invite_token}`
+                    )}`
+                  : "/sign-in"
+              }
               className="font-medium text-primary hover:text-primary/80"
             >
               Sign in
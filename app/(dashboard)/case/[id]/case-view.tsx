@@ -1,7 +1,9 @@
 "use client";
 
+import { useMemo, useState } from "react";
 import { formatDistanceToNow } from "date-fns";
 import { Badge } from "@/src/components/ui/badge";
+import { Button } from "@/src/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/src/components/ui/card";
 import { ScrollArea } from "@/src/components/ui/scroll-area";
 import {
@@ -12,7 +14,15 @@ import {
   Clock,
   Eye,
   Stethoscope,
+  Send,
 } from "lucide-react";
+import { groupLineages } from "@/src/lib/generation-lineage";
+import type { GenerationSource } from "@/app/actions/types";
+import { GenerationHistory } from "./generation-history";
+import { StructuredNoteView } from "@/src/features/notes/components/structured-note-view";
+import { noteSectionsOf } from "@/src/lib/notes/structured-note";
+import { PdfActions } from "@/src/features/exports/components/pdf-actions";
+import { PimsSendDialog } from "@/src/features/exports/components/pims-send-dialog";
 
 interface CaseData {
   id: string;
@@ -33,10 +43,8 @@ interface CaseData {
   }>;
   soap_notes: Array<{
     id: string;
-    subjective: string | null;
-    objective: string | null;
-    assessment: string | null;
-    plan: string | null;
+    title: string;
+    sections: unknown;
     created_at: string;
   }>;
   generations: Array<{
@@ -44,6 +52,8 @@ interface CaseData {
     prompt: string | null;
     content: string | null;
     created_at: string;
+    parent_id: string | null;
+    source: GenerationSource;
   }>;
 }
 
@@ -104,6 +114,14 @@ export function CaseView({ caseData }: CaseViewProps) {
     generations,
   } = caseData;
 
+  // Only the latest version of each generation is listed; earlier versions
+  // are in its history
+  const generationLineages = useMemo(
+    () => groupLineages(generations),
+    [generations]
+  );
+  const [isPimsOpen, setIsPimsOpen] = useState(false);
+
   return (
     <div className="space-y-6">
       {/* Case Header */}
@@ -156,6 +174,20 @@ export function CaseView({ caseData }: CaseViewProps) {
                   })}
                 </div>
               )}
+              {(soap_notes.length > 0 || generations.length > 0) && (
+                <>
+                  <PdfActions caseId={id} label="Case summary PDF" />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs text-muted-foreground"
+                    onClick={() => setIsPimsOpen(true)}
+                  >
+                    <Send className="h-3 w-3 mr-1" />
+                    Send to PIMS
+                  </Button>
+                </>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -185,8 +217,8 @@ export function CaseView({ caseData }: CaseViewProps) {
               </h3>
               <div className="space-y-1 text-sm">
                 <p>Transcriptions: {transcriptions.length}</p>
-                <p>SOAP Notes: {soap_notes.length}</p>
-                <p>AI Generations: {generations.length}</p>
+                <p>Notes: {soap_notes.length}</p>
+                <p>AI Generations: {generationLineages.length}</p>
               </div>
             </div>
           </div>
@@ -232,13 +264,13 @@ export function CaseView({ caseData }: CaseViewProps) {
         </Card>
       )}
 
-      {/* SOAP Notes Section */}
+      {/* Notes Section */}
       {soap_notes.length > 0 && (
         <Card>
           <CardHeader>
             <CardTitle className="text-lg flex items-center gap-2">
               <ClipboardCheck className="h-5 w-5" />
-              SOAP Notes ({soap_notes.length})
+              Notes ({soap_notes.length})
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -249,7 +281,9 @@ export function CaseView({ caseData }: CaseViewProps) {
                   className="border rounded-lg p-4 bg-muted/20"
                 >
                   <div className="flex justify-between items-center mb-4">
-                    <Badge variant="secondary">SOAP Note {index + 1}</Badge>
+                    <Badge variant="secondary">
+                      {note.title} {index + 1}
+                    </Badge>
                     <span className="text-xs text-muted-foreground">
                       {formatDistanceToNow(new Date(note.created_at), {
                         addSuffix: true,
@@ -257,47 +291,15 @@ export function CaseView({ caseData }: CaseViewProps) {
                     </span>
                   </div>
 
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                      <h4 className="font-medium text-sm mb-2">
-                        <Badge className="mr-2">S</Badge>
-                        Subjective
-                      </h4>
-                      <p className="text-sm text-muted-foreground">
-                        {note.subjective || "No subjective data"}
-                      </p>
-                    </div>
-
-                    <div>
-                      <h4 className="font-medium text-sm mb-2">
-                        <Badge className="mr-2">O</Badge>
-                        Objective
-                      </h4>
-                      <p className="text-sm text-muted-foreground">
-                        {note.objective || "No objective data"}
-                      </p>
-                    </div>
-
-                    <div>
-                      <h4 className="font-medium text-sm mb-2">
-                        <Badge className="mr-2">A</Badge>
-                        Assessment
-                      </h4>
-                      <p className="text-sm text-muted-foreground">
-                        {note.assessment || "No assessment data"}
-                      </p>
-                    </div>
-
-                    <div>
-                      <h4 className="font-medium text-sm mb-2">
-                        <Badge className="mr-2">P</Badge>
-                        Plan
-                      </h4>
-                      <p className="text-sm text-muted-foreground">
-                        {note.plan || "No plan data"}
-                      </p>
-                    </div>
-                  </div>
+                  <StructuredNoteView
+                    sections={noteSectionsOf(note.sections)}
+                    actions={
+                      <PdfActions
+                        caseId={id}
+                        document={{ type: "soap_note", id: note.id }}
+                      />
+                    }
+                  />
                 </div>
               ))}
             </div>
@@ -311,43 +313,60 @@ export function CaseView({ caseData }: CaseViewProps) {
           <CardHeader>
             <CardTitle className="text-lg flex items-center gap-2">
               <FileText className="h-5 w-5" />
-              AI Generations ({generations.length})
+              AI Generations ({generationLineages.length})
             </CardTitle>
           </CardHeader>
           <CardContent>
             <ScrollArea className="h-[400px]">
               <div className="space-y-4">
-                {generations.map((generation, index) => (
-                  <div
-                    key={generation.id}
-                    className="border rounded-lg p-4 bg-muted/20"
-                  >
-                    <div className="flex justify-between items-center mb-2">
-                      <Badge variant="secondary">Generation {index + 1}</Badge>
-                      <span className="text-xs text-muted-foreground">
-                        {formatDistanceToNow(new Date(generation.created_at), {
-                          addSuffix: true,
-                        })}
-                      </span>
-                    </div>
+                {generationLineages.map((versions, index) => {
+                  const generation = versions[versions.length - 1];
+                  return (
+                    <div
+                      key={generation.id}
+                      className="border rounded-lg p-4 bg-muted/20"
+                    >
+                      <div className="flex justify-between items-center mb-2">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary">Generation {index + 1}</Badge>
+                          {versions.length > 1 && (
+                            <Badge variant="outline">
+                              Version {versions.length} · {generation.source}
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(new Date(generation.created_at), {
+                              addSuffix: true,
+                            })}
+                          </span>
+                          <PdfActions
+                            caseId={id}
+                            document={{ type: "generation", id: generation.id }}
+                          />
+                          <GenerationHistory generationId={generation.id} />
+                        </div>
+                      </div>
+
+                      {generation.prompt && (
+                        <div className="mb-3">
+                          <h4 className="font-medium text-sm mb-1">Prompt:</h4>
+                          <p className="text-sm bg-muted p-2 rounded">
+                            {generation.prompt}
+                          </p>
+                        </div>
+                      )}
 
-                    {generation.prompt && (
-                      <div className="mb-3">
-                        <h4 className="font-medium text-sm mb-1">Prompt:</h4>
-                        <p className="text-sm bg-muted p-2 rounded">
-                          {generation.prompt}
+                      <div>
+                        <h4 className="font-medium text-sm mb-1">Content:</h4>
+                        <p className="text-sm whitespace-pre-wrap">
+                          {generation.content || "No content available"}
                         </p>
                       </div>
-                    )}
-
-                    <div>
-                      <h4 className="font-medium text-sm mb-1">Content:</h4>
-                      <p className="text-sm whitespace-pre-wrap">
-                        {generation.content || "No content available"}
-                      </p>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </ScrollArea>
           </CardContent>
@@ -371,6 +390,12 @@ export function CaseView({ caseData }: CaseViewProps) {
             </CardContent>
           </Card>
         )}
+
+      <PimsSendDialog
+        open={isPimsOpen}
+        onOpenChange={setIsPimsOpen}
+        caseId={id}
+      />
     </div>
   );
 }
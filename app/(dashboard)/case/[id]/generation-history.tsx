@@ -0,0 +1,396 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { History, Loader2, Pencil, RotateCcw, Sparkles } from "lucide-react";
+import { Badge } from "@/src/components/ui/badge";
+import { Button } from "@/src/components/ui/button";
+import { Label } from "@/src/components/ui/label";
+import { ScrollArea } from "@/src/components/ui/scroll-area";
+import { Textarea } from "@/src/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/src/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import {
+  editGeneration,
+  getGenerationHistory,
+  getTemplates,
+  regenerateGeneration,
+  restoreGeneration,
+} from "@/app/actions";
+import type {
+  GenerationSource,
+  GenerationVersion,
+  Template,
+} from "@/app/actions/types";
+import {
+  formatStructuredContent,
+  templateOutputSchema,
+} from "@/src/lib/templates/schema";
+import { cn } from "@/src/lib/utils";
+import { TextDiffView } from "@/src/components/shared/text-diff-view";
+
+const SOURCE_LABELS: Record<GenerationSource, string> = {
+  generated: "Generated",
+  regenerated: "Regenerated",
+  edited: "Edited",
+  restored: "Restored",
+};
+
+interface GenerationHistoryProps {
+  // Any version of the generation; the whole lineage is shown
+  generationId: string;
+}
+
+/**
+ * Parses structured content saved as JSON, or null for free text
+ */
+function parseStructured(content: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Content of a version as compared in the diff: structured content is
+ * written out one field per line
+ */
+function versionText(version: GenerationVersion) {
+  const content = version.content || "";
+  const schema = version.templates ? templateOutputSchema(version.templates) : null;
+  const structured = schema ? parseStructured(content) : null;
+
+  return schema && structured
+    ? formatStructuredContent(schema, structured)
+    : content;
+}
+
+/**
+ * Content of a version as it is edited: structured content stays JSON so the
+ * fields keep their names
+ */
+function editableText(version: GenerationVersion) {
+  const content = version.content || "";
+  const structured = parseStructured(content);
+  return structured ? JSON.stringify(structured, null, 2) : content;
+}
+
+/**
+ * History panel for a generation
+ * Lists its versions, compares any two side by side and saves new versions
+ * by editing, restoring or regenerating with another template
+ */
+export function GenerationHistory({ generationId }: GenerationHistoryProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [versions, setVersions] = useState<GenerationVersion[]>([]);
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState<string | null>(null);
+  const [regenerateTemplateId, setRegenerateTemplateId] = useState<string>("");
+
+  // Loads the lineage, selecting the latest version against the one before
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getGenerationHistory(generationId);
+      if (!result.success || !result.versions) {
+        throw new Error(result.error || "Failed to load history");
+      }
+
+      const loaded = result.versions;
+      const latest = loaded[loaded.length - 1];
+      setVersions(loaded);
+      setSelectedId(latest?.id ?? null);
+      setCompareId(
+        latest?.parent_id && loaded.some((v) => v.id === latest.parent_id)
+          ? latest.parent_id
+          : (loaded[loaded.length - 2]?.id ?? null)
+      );
+      setEditContent(null);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to load history"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [generationId]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    loadHistory();
+    getTemplates().then((result) => {
+      if (result.success && result.templates) {
+        setTemplates(result.templates as Template[]);
+      }
+    });
+  }, [open, loadHistory]);
+
+  const selected = versions.find((v) => v.id === selectedId) || null;
+  const compared = versions.find((v) => v.id === compareId) || null;
+  const latest = versions[versions.length - 1];
+
+  // Runs an action that saves a new version, then shows it
+  const saveVersion = async (
+    action: () => Promise<{ success: boolean; error?: string }>,
+    message: string
+  ) => {
+    setIsSaving(true);
+    try {
+      const result = await action();
+      if (!result.success) {
+        throw new Error(result.error || "Failed to save version");
+      }
+
+      toast.success(message);
+      await loadHistory();
+      router.refresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save version"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSelect = (version: GenerationVersion) => {
+    setSelectedId(version.id);
+    setEditContent(null);
+    if (compareId === version.id) {
+      setCompareId(version.parent_id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <History className="h-4 w-4 mr-1" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-5xl bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Generation history</DialogTitle>
+          <DialogDescription>
+            Compare versions, restore an earlier one or regenerate from it.
+            Every change is kept as a new version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && versions.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-4">
+            <ScrollArea className="h-[480px] pr-2">
+              <div className="space-y-2">
+                {[...versions].reverse().map((version) => (
+                  <button
+                    key={version.id}
+                    type="button"
+                    onClick={() => handleSelect(version)}
+                    className={cn(
+                      "w-full text-left border rounded-lg p-3 space-y-1 hover:bg-muted/50",
+                      version.id === selectedId && "border-primary bg-muted/50"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm">
+                        Version {version.version}
+                      </span>
+                      <Badge variant="secondary">
+                        {SOURCE_LABELS[version.source]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {version.templates?.name || "No template"}
+                      {version.template_version
+                        ? ` v${version.template_version}`
+                        : ""}
+                      {version.model ? ` · ${version.model}` : ""}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(version.created_at), {
+                        addSuffix: true,
+                      })}
+                      {version.id === latest?.id ? " · current" : ""}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="space-y-4 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Label className="text-sm">Compare with</Label>
+                  <Select
+                    value={compareId || ""}
+                    onValueChange={(value) => setCompareId(value)}
+                  >
+                    <SelectTrigger className="w-[200px]">
+                      <SelectValue placeholder="Choose a version" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions
+                        .filter((v) => v.id !== selected.id)
+                        .map((v) => (
+                          <SelectItem key={v.id} value={v.id}>
+                            Version {v.version} ({SOURCE_LABELS[v.source]})
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {editContent !== null ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={editContent}
+                      onChange={(e) => setEditContent(e.target.value)}
+                      className="min-h-[320px] font-mono text-sm"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => setEditContent(null)}
+                        disabled={isSaving}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        disabled={isSaving || !editContent.trim()}
+                        onClick={() =>
+                          saveVersion(
+                            () => editGeneration(selected.id, editContent),
+                            "Saved your edits as a new version"
+                          )
+                        }
+                      >
+                        {isSaving && (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        )}
+                        Save as new version
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <ScrollArea className="h-[320px]">
+                    {compared ? (
+                      <TextDiffView
+                        before={versionText(compared)}
+                        after={versionText(selected)}
+                        beforeLabel={`Version ${compared.version}`}
+                        afterLabel={`Version ${selected.version}`}
+                      />
+                    ) : (
+                      <p className="text-sm whitespace-pre-wrap">
+                        {versionText(selected) || "No content available"}
+                      </p>
+                    )}
+                  </ScrollArea>
+                )}
+
+                {editContent === null && (
+                  <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isSaving || selected.id === latest?.id}
+                      onClick={() =>
+                        saveVersion(
+                          () => restoreGeneration(selected.id),
+                          `Restored version ${selected.version}`
+                        )
+                      }
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isSaving}
+                      onClick={() => setEditContent(editableText(selected))}
+                    >
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    <div className="flex items-center gap-2 ml-auto">
+                      <Select
+                        value={regenerateTemplateId || selected.template_id || ""}
+                        onValueChange={setRegenerateTemplateId}
+                      >
+                        <SelectTrigger className="w-[200px] h-9">
+                          <SelectValue placeholder="Template" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {templates.map((template) => (
+                            <SelectItem key={template.id} value={template.id}>
+                              {template.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        disabled={
+                          isSaving ||
+                          !(regenerateTemplateId || selected.template_id)
+                        }
+                        onClick={() =>
+                          saveVersion(
+                            () =>
+                              regenerateGeneration(
+                                selected.id,
+                                regenerateTemplateId || undefined
+                              ),
+                            "Generated a new version"
+                          )
+                        }
+                      >
+                        {isSaving ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <Sparkles className="h-4 w-4 mr-1" />
+                        )}
+                        Regenerate
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,12 @@ import { X, FileText, Copy, CheckCircle } from "lucide-react";
 import Link from "next/link";
 import { useState } from "react";
 import { AppointmentData, CaseAction } from "@/store/use-case-store";
+import {
+  noteFromStoredContent,
+  noteSectionText,
+  noteSectionsOf,
+  type NoteSection,
+} from "@/src/lib/notes/structured-note";
 
 interface AppointmentSidebarProps {
   appointment: AppointmentData;
@@ -22,49 +28,6 @@ export function AppointmentSidebar({
 }: AppointmentSidebarProps) {
   const [copiedId, setCopiedId] = useState<string | null>(null);
 
-  // Helper function to parse SOAP notes that might be stored as JSON strings
-  function parseSoapNotes(action: CaseAction) {
-    if (action.type !== "soap" || !action.content.soap)
-      return action.content.soap;
-
-    const soap = action.content.soap;
-
-    // If the plan field contains a JSON string with SOAP structure, parse it
-    if (
-      typeof soap.plan === "string" &&
-      (soap.plan.includes('"subjective":') ||
-        soap.plan.includes('"objective":') ||
-        soap.plan.includes('"assessment":') ||
-        soap.plan.includes('"plan":'))
-    ) {
-      try {
-        const parsedPlan = JSON.parse(soap.plan);
-
-        // If it has SOAP structure, use it
-        if (
-          parsedPlan &&
-          typeof parsedPlan === "object" &&
-          (parsedPlan.subjective ||
-            parsedPlan.objective ||
-            parsedPlan.assessment ||
-            parsedPlan.plan)
-        ) {
-          return {
-            subjective: parsedPlan.subjective || soap.subjective || "",
-            objective: parsedPlan.objective || soap.objective || "",
-            assessment: parsedPlan.assessment || soap.assessment || "",
-            plan: parsedPlan.plan || "",
-          };
-        }
-      } catch (e) {
-        console.error("Failed to parse SOAP JSON from plan field:", e);
-      }
-    }
-
-    // Return the original SOAP if parsing failed or wasn't needed
-    return soap;
-  }
-
   // Helper function to truncate text
   function truncateText(text: string, maxLength: number): string {
     if (!text) return "";
@@ -91,23 +54,13 @@ export function AppointmentSidebar({
     }
   }
 
-  // Function to copy individual SOAP section to clipboard
-  const copySoapSection = async (
-    action: CaseAction,
-    section: "subjective" | "objective" | "assessment" | "plan"
-  ) => {
-    if (action.type !== "soap" || !action.content.soap) return;
-
-    const soap = parseSoapNotes(action);
-    if (!soap) return;
-
-    const sectionContent = soap[section] || "N/A";
-    const sectionTitle = section.charAt(0).toUpperCase() + section.slice(1);
-    const textToCopy = `${sectionTitle}: ${sectionContent}`;
+  // Function to copy an individual note section to clipboard
+  const copyNoteSection = async (action: CaseAction, section: NoteSection) => {
+    const textToCopy = `${section.title}: ${noteSectionText(section) || "N/A"}`;
 
     try {
       await navigator.clipboard.writeText(textToCopy);
-      setCopiedId(`${action.id}-${section}`);
+      setCopiedId(`${action.id}-${section.key}`);
       setTimeout(() => setCopiedId(null), 2000); // Reset after 2 seconds
     } catch (err) {
       console.error("Failed to copy text: ", err);
@@ -115,60 +68,32 @@ export function AppointmentSidebar({
   };
 
   // Convert rawData to case actions format for display
-  const soapActions: CaseAction[] = [];
-  
+  const noteActions: CaseAction[] = [];
+
   if (appointment.rawData?.soap_notes) {
-    appointment.rawData.soap_notes.forEach((soapNote: any) => {
-      soapActions.push({
+    appointment.rawData.soap_notes.forEach((soapNote) => {
+      noteActions.push({
         id: soapNote.id,
-        type: "soap",
+        type: "note",
         content: {
-          soap: {
-            subjective: soapNote.subjective || "",
-            objective: soapNote.objective || "",
-            assessment: soapNote.assessment || "",
-            plan: soapNote.plan || "",
+          note: {
+            title: soapNote.title,
+            templateId: soapNote.template_id,
+            sections: noteSectionsOf(soapNote.sections),
           },
         },
         timestamp: new Date(soapNote.created_at).getTime(),
       });
     });
   }
-  
-  if (appointment.rawData?.generations) {
-    appointment.rawData.generations.forEach((generation: any) => {
-      let soapContent;
-      try {
-        const parsed = JSON.parse(generation.content || "{}");
-        if (parsed.subjective || parsed.objective || parsed.assessment || parsed.plan) {
-          soapContent = {
-            subjective: parsed.subjective || "",
-            objective: parsed.objective || "",
-            assessment: parsed.assessment || "",
-            plan: parsed.plan || "",
-          };
-        } else {
-          soapContent = {
-            subjective: `Generated content from template`,
-            objective: "",
-            assessment: "",
-            plan: generation.content || "",
-          };
-        }
-      } catch (e) {
-        soapContent = {
-          subjective: `Generated content`,
-          objective: "",
-          assessment: "",
-          plan: generation.content || "",
-        };
-      }
 
-      soapActions.push({
+  if (appointment.rawData?.generations) {
+    appointment.rawData.generations.forEach((generation) => {
+      noteActions.push({
         id: generation.id,
-        type: "soap",
+        type: "note",
         content: {
-          soap: soapContent,
+          note: noteFromStoredContent(generation.content, "Generated note"),
         },
         timestamp: new Date(generation.created_at).getTime(),
       });
@@ -254,35 +179,15 @@ export function AppointmentSidebar({
                 </div>
               </div>
 
-              {soapActions.length > 0 && (
+              {noteActions.length > 0 && (
                 <div>
                   <h3 className="text-sm font-medium text-muted-foreground bg-muted/30 py-2 px-3 rounded-t-lg flex items-center">
                     <FileText className="h-4 w-4 mr-2" />
-                    SOAP Notes
+                    Notes
                   </h3>
                   <div className="space-y-3 border border-border p-3 rounded-b-lg bg-card">
-                    {soapActions.map((action) => {
-                      const parsedSoap = parseSoapNotes(action);
-
-                      // Determine if this is a SOAP note or another template type
-                      const isSoapFormat =
-                        parsedSoap &&
-                        parsedSoap.subjective &&
-                        parsedSoap.objective &&
-                        parsedSoap.assessment &&
-                        parsedSoap.plan &&
-                        !parsedSoap.subjective.startsWith(
-                          "Generated using template:"
-                        );
-
-                      // Get template name from content if available
-                      const templateName = parsedSoap?.subjective?.startsWith(
-                        "Generated using template:"
-                      )
-                        ? parsedSoap.subjective
-                            .replace("Generated using template:", "")
-                            .trim()
-                        : "SOAP Notes";
+                    {noteActions.map((action) => {
+                      const note = action.content.note;
 
                       return (
                         <div
@@ -293,7 +198,7 @@ export function AppointmentSidebar({
                             <div className="flex items-center">
                               <FileText className="h-4 w-4 mr-2 text-muted-foreground" />
                               <span className="text-sm font-medium text-foreground">
-                                {templateName}
+                                {note?.title}
                               </span>
                             </div>
                             <div className="flex items-center gap-2">
@@ -308,154 +213,37 @@ export function AppointmentSidebar({
                             </div>
                           </div>
 
-                          {action.content.soap && (
-                            <div className="p-3">
-                              {isSoapFormat ? (
-                                <div className="text-sm text-foreground">
-                                  {/* Compact tabbed layout for SOAP notes */}
-                                  <div className="border border-border rounded-lg overflow-hidden">
-                                    {/* SOAP sections in separate boxes */}
-                                    <div className="space-y-3 p-3">
-                                      <div className="border border-border rounded-lg overflow-hidden">
-                                        <div className="flex items-center justify-between bg-muted/30 px-3 py-2">
-                                          <h4 className="text-foreground flex items-center text-xs font-medium">
-                                            <div className="bg-info text-info-foreground mr-2 h-4 w-4 rounded flex items-center justify-center text-[10px]">
-                                              S
-                                            </div>
-                                            Subjective
-                                          </h4>
-                                          <button
-                                            onClick={() =>
-                                              copySoapSection(
-                                                action,
-                                                "subjective"
-                                              )
-                                            }
-                                            className="text-muted-foreground hover:text-foreground transition-colors"
-                                            title="Copy Subjective"
-                                          >
-                                            {copiedId ===
-                                            `${action.id}-subjective` ? (
-                                              <CheckCircle className="h-4 w-4" />
-                                            ) : (
-                                              <Copy className="h-4 w-4" />
-                                            )}
-                                          </button>
-                                        </div>
-                                        <div className="p-3 text-xs bg-muted/10">
-                                          {truncateText(
-                                            parsedSoap?.subjective || "",
-                                            300
-                                          )}
-                                        </div>
-                                      </div>
-
-                                      <div className="border border-border rounded-lg overflow-hidden">
-                                        <div className="flex items-center justify-between bg-muted/30 px-3 py-2">
-                                          <h4 className="text-foreground flex items-center text-xs font-medium">
-                                            <div className="bg-success text-success-foreground mr-2 h-4 w-4 rounded flex items-center justify-center text-[10px]">
-                                              O
-                                            </div>
-                                            Objective
-                                          </h4>
-                                          <button
-                                            onClick={() =>
-                                              copySoapSection(
-                                                action,
-                                                "objective"
-                                              )
-                                            }
-                                            className="text-muted-foreground hover:text-foreground transition-colors"
-                                            title="Copy Objective"
-                                          >
-                                            {copiedId ===
-                                            `${action.id}-objective` ? (
-                                              <CheckCircle className="h-4 w-4" />
-                                            ) : (
-                                              <Copy className="h-4 w-4" />
-                                            )}
-                                          </button>
-                                        </div>
-                                        <div className="p-3 text-xs bg-muted/10">
-                                          {truncateText(
-                                            parsedSoap?.objective || "",
-                                            300
-                                          )}
-                                        </div>
-                                      </div>
-
-                                      <div className="border border-border rounded-lg overflow-hidden">
-                                        <div className="flex items-center justify-between bg-muted/30 px-3 py-2">
-                                          <h4 className="text-foreground flex items-center text-xs font-medium">
-                                            <div className="bg-primary text-primary-foreground mr-2 h-4 w-4 rounded flex items-center justify-center text-[10px]">
-                                              A
-                                            </div>
-                                            Assessment
-                                          </h4>
-                                          <button
-                                            onClick={() =>
-                                              copySoapSection(
-                                                action,
-                                                "assessment"
-                                              )
-                                            }
-                                            className="text-muted-foreground hover:text-foreground transition-colors"
-                                            title="Copy Assessment"
-                                          >
-                                            {copiedId ===
-                                            `${action.id}-assessment` ? (
-                                              <CheckCircle className="h-4 w-4" />
-                                            ) : (
-                                              <Copy className="h-4 w-4" />
-                                            )}
-                                          </button>
-                                        </div>
-                                        <div className="p-3 text-xs bg-muted/10">
-                                          {truncateText(
-                                            parsedSoap?.assessment || "",
-                                            300
-                                          )}
-                                        </div>
-                                      </div>
-
-                                      <div className="border border-border rounded-lg overflow-hidden">
-                                        <div className="flex items-center justify-between bg-muted/30 px-3 py-2">
-                                          <h4 className="text-foreground flex items-center text-xs font-medium">
-                                            <div className="bg-warning text-warning-foreground mr-2 h-4 w-4 rounded flex items-center justify-center text-[10px]">
-                                              P
-                                            </div>
-                                            Plan
-                                          </h4>
-                                          <button
-                                            onClick={() =>
-                                              copySoapSection(action, "plan")
-                                            }
-                                            className="text-muted-foreground hover:text-foreground transition-colors"
-                                            title="Copy Plan"
-                                          >
-                                            {copiedId ===
-                                            `${action.id}-plan` ? (
-                                              <CheckCircle className="h-4 w-4" />
-                                            ) : (
-                                              <Copy className="h-4 w-4" />
-                                            )}
-                                          </button>
-                                        </div>
-                                        <div className="p-3 text-xs bg-muted/10">
-                                          {truncateText(
-                                            parsedSoap?.plan || "",
-                                            300
-                                          )}
-                                        </div>
-                                      </div>
-                                    </div>
+                          {note && (
+                            <div className="space-y-3 p-3 text-sm text-foreground">
+                              {note.sections.map((section) => (
+                                <div
+                                  key={section.key}
+                                  className="border border-border rounded-lg overflow-hidden"
+                                >
+                                  <div className="flex items-center justify-between bg-muted/30 px-3 py-2">
+                                    <h4 className="text-foreground text-xs font-medium">
+                                      {section.title}
+                                    </h4>
+                                    <button
+                                      onClick={() =>
+                                        copyNoteSection(action, section)
+                                      }
+                                      className="text-muted-foreground hover:text-foreground transition-colors"
+                                      title={`Copy ${section.title}`}
+                                    >
+                                      {copiedId ===
+                                      `${action.id}-${section.key}` ? (
+                                        <CheckCircle className="h-4 w-4" />
+                                      ) : (
+                                        <Copy className="h-4 w-4" />
+                                      )}
+                                    </button>
+                                  </div>
+                                  <div className="p-3 text-xs bg-muted/10 whitespace-pre-wrap">
+                                    {truncateText(noteSectionText(section), 300)}
                                   </div>
                                 </div>
-                              ) : (
-                                <div className="text-xs text-foreground">
-                                  {truncateText(parsedSoap?.plan || "", 200)}
-                                </div>
-                              )}
+                              ))}
                             </div>
                           )}
                         </div>
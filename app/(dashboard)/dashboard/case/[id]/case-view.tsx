@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { formatDistanceToNow } from "date-fns";
 import { Badge } from "@/src/components/ui/badge";
 import { Button } from "@/src/components/ui/button";
@@ -8,7 +8,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/src/components/ui/ca
 import { ScrollArea } from "@/src/components/ui/scroll-area";
 import { FileText, Copy, CheckCircle, ClipboardCheck } from "lucide-react";
 import { useAppointment } from "@/hooks/use-appointment";
-import { MarkdownRenderer } from "@/src/components/ui/markdown";
+import { RecordingPlayer } from "@/src/features/audio/components/recording-player";
+import { TranscriptConversation } from "@/src/features/transcripts/components/transcript-conversation";
+import { StructuredNoteView } from "@/src/features/notes/components/structured-note-view";
+import { noteSectionsOf } from "@/src/lib/notes/structured-note";
+import type {
+  SpeakerLabels,
+  TranscriptSegment,
+  TranscriptionStatus,
+} from "@/app/actions/types";
 
 interface CaseViewProps {
   appointmentId: string;
@@ -18,44 +26,24 @@ interface CaseViewProps {
 interface SoapNote {
   id: string;
   created_at: string;
-  subjective: string;
-  objective: string;
-  assessment: string;
-  plan: string;
+  title: string;
+  sections: unknown;
 }
 
 interface Transcription {
   id: string;
   created_at: string;
   transcript: string;
+  audio_file_id: string | null;
+  processing_status: TranscriptionStatus;
+  segments: TranscriptSegment[];
+  speaker_labels: SpeakerLabels;
 }
 
 export function CaseView({ appointmentId }: CaseViewProps) {
   const [copiedId, setCopiedId] = useState<string | null>(null);
-  const [expandedSoapSections, setExpandedSoapSections] = useState<
-    Record<string, Record<string, boolean>>
-  >({});
   const { appointment, isLoading, error } = useAppointment(appointmentId);
 
-  // Initialize expanded state for SOAP sections when appointment loads
-  useEffect(() => {
-    if (appointment && appointment.rawData?.soap_notes) {
-      const soapNotes = appointment.rawData.soap_notes || [];
-
-      const initialExpandedState: Record<string, Record<string, boolean>> = {};
-      soapNotes.forEach((note: SoapNote) => {
-        initialExpandedState[note.id] = {
-          subjective: true,
-          objective: true,
-          assessment: true,
-          plan: true,
-        };
-      });
-
-      setExpandedSoapSections(initialExpandedState);
-    }
-  }, [appointment]);
-
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64 text-card-foreground">
@@ -190,6 +178,13 @@ export function CaseView({ appointmentId }: CaseViewProps) {
                           <Badge className="bg-blue-700/50 text-blue-100 border-0">
                             Transcript
                           </Badge>
+                          {transcription.processing_status === "failed" ? (
+                            <Badge variant="destructive">Failed</Badge>
+                          ) : (
+                            transcription.processing_status !== "completed" && (
+                              <Badge variant="secondary">Transcribing</Badge>
+                            )
+                          )}
                           <span className="text-xs text-muted-foreground">
                             {formatDistanceToNow(
                               new Date(transcription.created_at),
@@ -218,10 +213,23 @@ export function CaseView({ appointmentId }: CaseViewProps) {
                         </Button>
                       </div>
                     </CardHeader>
-                    <CardContent className="p-4 pt-2">
-                      <p className="text-sm text-card-foreground whitespace-pre-wrap">
-                        {transcription.transcript}
-                      </p>
+                    <CardContent className="p-4 pt-2 space-y-3">
+                      {transcription.segments?.length > 0 ? (
+                        <TranscriptConversation
+                          transcriptionId={transcription.id}
+                          segments={transcription.segments}
+                          speakerLabels={transcription.speaker_labels || {}}
+                        />
+                      ) : (
+                        <p className="text-sm text-card-foreground whitespace-pre-wrap">
+                          {transcription.transcript}
+                        </p>
+                      )}
+                      {transcription.audio_file_id && (
+                        <RecordingPlayer
+                          audioFileId={transcription.audio_file_id}
+                        />
+                      )}
                     </CardContent>
                   </Card>
                 ))}
@@ -239,61 +247,14 @@ export function CaseView({ appointmentId }: CaseViewProps) {
         </CardContent>
       </Card>
 
-      {/* SOAP Notes Section */}
+      {/* Notes Section */}
       <Card className="bg-card border-border shadow-md">
         <CardHeader className="p-6 pb-4">
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg font-medium text-card-foreground flex items-center">
               <ClipboardCheck className="h-5 w-5 mr-2 text-muted-foreground" />
-              SOAP Notes
+              Notes
             </CardTitle>
-            <div className="flex items-center gap-2">
-              {soapNotes.length > 0 && (
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => {
-                    // Toggle all sections for all SOAP notes
-                    const allExpanded = soapNotes.every((note) => {
-                      const sections = expandedSoapSections[note.id];
-                      return (
-                        sections &&
-                        sections.subjective &&
-                        sections.objective &&
-                        sections.assessment &&
-                        sections.plan
-                      );
-                    });
-
-                    const newExpandedState = { ...expandedSoapSections };
-                    soapNotes.forEach((note) => {
-                      newExpandedState[note.id] = {
-                        subjective: !allExpanded,
-                        objective: !allExpanded,
-                        assessment: !allExpanded,
-                        plan: !allExpanded,
-                      };
-                    });
-
-                    setExpandedSoapSections(newExpandedState);
-                  }}
-                  className="h-8 px-3 text-sm text-muted-foreground hover:text-foreground hover:bg-muted/50"
-                >
-                  {soapNotes.every((note) => {
-                    const sections = expandedSoapSections[note.id];
-                    return (
-                      sections &&
-                      sections.subjective &&
-                      sections.objective &&
-                      sections.assessment &&
-                      sections.plan
-                    );
-                  })
-                    ? "Collapse All"
-                    : "Expand All"}
-                </Button>
-              )}
-            </div>
           </div>
         </CardHeader>
         <CardContent className="p-6">
@@ -308,11 +269,8 @@ export function CaseView({ appointmentId }: CaseViewProps) {
                     <div className="flex justify-between items-center w-full">
                       <div className="flex items-center gap-2 flex-1">
                         <span className="text-card-foreground font-medium">
-                          SOAP Note {index + 1}
+                          {note.title} {index + 1}
                         </span>
-                        <Badge className="bg-green-700/50 text-green-100 border-0">
-                          SOAP
-                        </Badge>
                         <span className="text-xs text-muted-foreground ml-1">
                           {formatDistanceToNow(new Date(note.created_at), {
                             addSuffix: true,
@@ -323,125 +281,9 @@ export function CaseView({ appointmentId }: CaseViewProps) {
                   </CardHeader>
 
                   <CardContent className="p-4">
-                    <div className="space-y-3">
-                      {/* Subjective Section */}
-                      <div className="border border-muted/30 rounded-lg overflow-hidden">
-                        <div
-                          className="flex items-center justify-between bg-muted/40 px-3 py-2 cursor-pointer"
-                          onClick={() => {
-                            setExpandedSoapSections((prev) => ({
-                              ...prev,
-                              [note.id]: {
-                                ...prev[note.id],
-                                subjective: !prev[note.id]?.subjective,
-                              },
-                            }));
-                          }}
-                        >
-                          <h4 className="text-muted-foreground flex items-center text-sm font-medium">
-                            <Badge className="bg-muted text-muted-foreground mr-2 h-5 w-5 flex items-center justify-center p-0">
-                              S
-                            </Badge>
-                            Subjective
-                          </h4>
-                        </div>
-                        {expandedSoapSections[note.id]?.subjective && (
-                          <div className="p-3 bg-card">
-                            <MarkdownRenderer
-                              content={note.subjective || "No subjective data"}
-                            />
-                          </div>
-                        )}
-                      </div>
-
-                      {/* Objective Section */}
-                      <div className="border border-muted/30 rounded-lg overflow-hidden">
-                        <div
-                          className="flex items-center justify-between bg-muted/40 px-3 py-2 cursor-pointer"
-                          onClick={() => {
-                            setExpandedSoapSections((prev) => ({
-                              ...prev,
-                              [note.id]: {
-                                ...prev[note.id],
-                                objective: !prev[note.id]?.objective,
-                              },
-                            }));
-                          }}
-                        >
-                          <h4 className="text-muted-foreground flex items-center text-sm font-medium">
-                            <Badge className="bg-success text-success-foreground mr-2 h-5 w-5 flex items-center justify-center p-0">
-                              O
-                            </Badge>
-                            Objective
-                          </h4>
-                        </div>
-                        {expandedSoapSections[note.id]?.objective && (
-                          <div className="p-3 bg-card">
-                            <MarkdownRenderer
-                              content={note.objective || "No objective data"}
-                            />
-                          </div>
-                        )}
-                      </div>
-
-                      {/* Assessment Section */}
-                      <div className="border border-muted/30 rounded-lg overflow-hidden">
-                        <div
-                          className="flex items-center justify-between bg-muted/40 px-3 py-2 cursor-pointer"
-                          onClick={() => {
-                            setExpandedSoapSections((prev) => ({
-                              ...prev,
-                              [note.id]: {
-                                ...prev[note.id],
-                                assessment: !prev[note.id]?.assessment,
-                              },
-                            }));
-                          }}
-                        >
-                          <h4 className="text-muted-foreground flex items-center text-sm font-medium">
-                            <Badge className="bg-info text-info-foreground mr-2 h-5 w-5 flex items-center justify-center p-0">
-                              A
-                            </Badge>
-                            Assessment
-                          </h4>
-                        </div>
-                        {expandedSoapSections[note.id]?.assessment && (
-                          <div className="p-3 bg-card">
-                            <MarkdownRenderer content={note.assessment} />
-                          </div>
-                        )}
-                      </div>
-
-                      {/* Plan Section */}
-                      <div className="border border-muted/30 rounded-lg overflow-hidden">
-                        <div
-                          className="flex items-center justify-between bg-muted/40 px-3 py-2 cursor-pointer"
-                          onClick={() => {
-                            setExpandedSoapSections((prev) => ({
-                              ...prev,
-                              [note.id]: {
-                                ...prev[note.id],
-                                plan: !prev[note.id]?.plan,
-                              },
-                            }));
-                          }}
-                        >
-                          <h4 className="text-muted-foreground flex items-center text-sm font-medium">
-                            <Badge className="bg-warning text-warning-foreground mr-2 h-5 w-5 flex items-center justify-center p-0">
-                              P
-                            </Badge>
-                            Plan
-                          </h4>
-                        </div>
-                        {expandedSoapSections[note.id]?.plan && (
-                          <div className="p-3 bg-card">
-                            <MarkdownRenderer
-                              content={note.plan || "No plan data"}
-                            />
-                          </div>
-                        )}
-                      </div>
-                    </div>
+                    <StructuredNoteView
+                      sections={noteSectionsOf(note.sections)}
+                    />
                   </CardContent>
                 </Card>
               ))}
@@ -449,9 +291,9 @@ export function CaseView({ appointmentId }: CaseViewProps) {
           ) : (
             <div className="flex flex-col items-center justify-center py-8 text-center">
               <ClipboardCheck className="h-12 w-12 text-muted-foreground mb-4" />
-              <h3 className="text-lg font-medium mb-2">No SOAP Notes</h3>
+              <h3 className="text-lg font-medium mb-2">No Notes</h3>
               <p className="text-sm text-muted-foreground max-w-xs">
-                There are no SOAP notes available for this case.
+                There are no notes available for this case.
               </p>
             </div>
           )}
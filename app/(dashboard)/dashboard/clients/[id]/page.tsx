@@ -0,0 +1,15 @@
+import { ClientDetail } from "@/src/features/clients/components/client-detail";
+
+interface ClientPageProps {
+  params: {
+    id: string;
+  };
+}
+
+export default function ClientPage({ params }: ClientPageProps) {
+  return (
+    <div className="flex flex-col space-y-6 py-6 bg-background">
+      <ClientDetail clientId={params.id} />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { ClientsList } from "@/src/features/clients/components/clients-list";
+
+export default function ClientsPage() {
+  return (
+    <div className="flex flex-col space-y-6 py-6 bg-background">
+      <ClientsList />
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { BookOpen, Calendar, FileText, PawPrint, Home, Search, FolderOpen } from "lucide-react";
+import { BookOpen, Calendar, FileText, PawPrint, Home, Search, FolderOpen, Users, Settings, Building2, Plug, Webhook, KeyRound } from "lucide-react";
 import { signOut } from "@/app/actions";
 
 import {
@@ -48,6 +48,14 @@ function NavMain() {
             </Link>
           </SidebarMenuButton>
         </SidebarMenuItem>
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild>
+            <Link href="/dashboard/clients">
+              <Users />
+              Clients
+            </Link>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
         <SidebarMenuItem>
           <SidebarMenuButton asChild>
             <Link href="/app/dashboard/appointments">
@@ -72,6 +80,46 @@ function NavMain() {
             </Link>
           </SidebarMenuButton>
         </SidebarMenuItem>
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild>
+            <Link href="/dashboard/settings/clinic">
+              <Building2 />
+              Clinic Settings
+            </Link>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild>
+            <Link href="/dashboard/settings/pims">
+              <Plug />
+              PIMS Integrations
+            </Link>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild>
+            <Link href="/dashboard/settings/webhooks">
+              <Webhook />
+              Webhooks
+            </Link>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild>
+            <Link href="/dashboard/settings/api-tokens">
+              <KeyRound />
+              API Tokens
+            </Link>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild>
+            <Link href="/dashboard/settings/transcription">
+              <Settings />
+              Transcription Settings
+            </Link>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
       </SidebarMenu>
     </SidebarGroup>
   );
@@ -5,8 +5,12 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useState } from "react";
 import { useToast } from "@/src/components/ui/use-toast";
-import { SoapResponse, useCaseStore } from "@/store/use-case-store";
+import { useCaseStore } from "@/store/use-case-store";
 import { createCase, generateSoapNotes } from "@/app/actions";
+import {
+  noteFromGeneration,
+  type StructuredNote,
+} from "@/src/lib/notes/structured-note";
 
 // Case form schema
 export const caseFormSchema = z.object({
@@ -23,10 +27,10 @@ export const caseFormSchema = z.object({
 
 export type CaseFormValues = z.infer<typeof caseFormSchema>;
 
-// Interface for SOAP editor state
+// Interface for note editor state
 export interface SoapEditorState {
   isOpen: boolean;
-  soapNotes: SoapResponse | null;
+  soapNotes: StructuredNote | null;
   transcript: string;
   actionId: string | null;
 }
@@ -129,7 +133,7 @@ export function useCaseForm(onCaseCreated?: (caseId: number) => void) {
   };
 
   // Function to handle SOAP notes updates from the editor
-  const handleSoapUpdate = (updatedSoap: SoapResponse) => {
+  const handleSoapUpdate = (updatedSoap: StructuredNote) => {
     if (soapEditorState.actionId) {
       // Update the case action with the new SOAP notes
       const actionToUpdate = caseActions.find(
@@ -141,7 +145,7 @@ export function useCaseForm(onCaseCreated?: (caseId: number) => void) {
           ...actionToUpdate,
           content: {
             ...actionToUpdate.content,
-            soap: updatedSoap,
+            note: updatedSoap,
           },
         };
 
@@ -196,28 +200,15 @@ export function useCaseForm(onCaseCreated?: (caseId: number) => void) {
         // Pass array of transcriptions to the server action
         const result = await generateSoapNotes(transcriptions, templateData);
 
-        if (result.success && result.soapNotes) {
+        if (result.success && result.template) {
           // Create a combined transcript for reference in the soap note
           const combinedTranscript = transcriptions.join("\n\n---\n\n");
 
-          // Cast the soapNotes to the expected SoapResponse type
-          const soapResponse: SoapResponse =
-            typeof result.soapNotes === "object" && result.soapNotes !== null
-              ? {
-                  subjective: result.soapNotes.subjective || "",
-                  objective: result.soapNotes.objective || "",
-                  assessment: result.soapNotes.assessment || "",
-                  plan: result.soapNotes.plan || "",
-                }
-              : {
-                  subjective: "",
-                  objective: "",
-                  assessment: "",
-                  plan:
-                    typeof result.soapNotes === "string"
-                      ? result.soapNotes
-                      : "",
-                };
+          // Sections come from the template the notes were generated with
+          const soapResponse = noteFromGeneration(
+            result.template,
+            result.content
+          );
 
           // Generate a unique ID for the new action
           const actionId = crypto.randomUUID();
@@ -225,10 +216,10 @@ export function useCaseForm(onCaseCreated?: (caseId: number) => void) {
           // Add the SOAP notes as a case action
           addCaseAction({
             id: actionId,
-            type: "soap",
+            type: "note",
             content: {
               transcript: combinedTranscript,
-              soap: soapResponse,
+              note: soapResponse,
             },
             timestamp: Date.now(),
           });
@@ -271,13 +262,13 @@ export function useCaseForm(onCaseCreated?: (caseId: number) => void) {
   // Function to open the SOAP editor for an existing SOAP action
   const openSoapEditor = (actionId: string) => {
     const soapAction = caseActions.find(
-      (action) => action.id === actionId && action.type === "soap"
+      (action) => action.id === actionId && action.type === "note"
     );
 
-    if (soapAction && soapAction.content.soap) {
+    if (soapAction && soapAction.content.note) {
       setSoapEditorState({
         isOpen: true,
-        soapNotes: soapAction.content.soap,
+        soapNotes: soapAction.content.note,
         transcript: soapAction.content.transcript || "",
         actionId: soapAction.id,
       });
@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { FileAudio, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+} from "@/src/components/ui/card";
+import { Badge } from "@/src/components/ui/badge";
+import { Button } from "@/src/components/ui/button";
+import { Progress } from "@/src/components/ui/progress";
+import {
+  completeAudioUpload,
+  createAudioFile,
+  getTranscription,
+  transcribeAudioFile,
+} from "@/app/actions";
+import type { TranscriptionStatus } from "@/app/actions/types";
+import { uploadRecording } from "@/src/lib/audio-upload";
+import { AUDIO_MAX_FILE_SIZE } from "@/src/lib/constants";
+import { useCaseStore } from "@/src/store/use-case-store";
+
+// How often a queued or processing transcription is checked
+const POLL_INTERVAL_MS = 3000;
+
+type UploadJobStatus = "uploading" | TranscriptionStatus;
+
+interface UploadJob {
+  id: string;
+  filename: string;
+  status: UploadJobStatus;
+  progress: number;
+  error?: string;
+}
+
+const STATUS_LABELS: Record<UploadJobStatus, string> = {
+  uploading: "Uploading",
+  queued: "Queued",
+  processing: "Transcribing",
+  completed: "Transcribed",
+  failed: "Failed",
+};
+
+/**
+ * Reads a recording's duration in seconds from its metadata
+ * Resolves to 0 when the browser cannot tell (e.g. some webm files)
+ */
+function readDuration(file: File): Promise<number> {
+  return new Promise((resolve) => {
+    const audio = document.createElement("audio");
+    const url = URL.createObjectURL(file);
+    const done = (duration: number) => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(duration) ? duration : 0);
+    };
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () => done(audio.duration);
+    audio.onerror = () => done(0);
+    audio.src = url;
+  });
+}
+
+export function AudioUploadCard() {
+  const { currentCaseId, addCaseAction } = useCaseStore();
+  const [jobs, setJobs] = useState<UploadJob[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pollTimers = useRef<Record<string, NodeJS.Timeout>>({});
+
+  // Stop polling when leaving the page
+  useEffect(() => {
+    const timers = pollTimers.current;
+    return () => {
+      Object.values(timers).forEach(clearTimeout);
+    };
+  }, []);
+
+  const updateJob = (jobId: string, update: Partial<UploadJob>) => {
+    setJobs((current) =>
+      current.map((job) => (job.id === jobId ? { ...job, ...update } : job))
+    );
+  };
+
+  // Poll a transcription until it completes, then add it to the case actions
+  const pollTranscription = (jobId: string, transcriptionId: string) => {
+    pollTimers.current[jobId] = setTimeout(async () => {
+      const result = await getTranscription(transcriptionId);
+      if (!result.success || !result.transcription) {
+        updateJob(jobId, { status: "failed", error: result.error });
+        return;
+      }
+
+      const transcription = result.transcription;
+      updateJob(jobId, {
+        status: transcription.processing_status,
+        error: transcription.processing_error || undefined,
+      });
+
+      if (transcription.processing_status === "completed") {
+        addCaseAction({
+          id: transcription.id,
+          type: "recording",
+          content: {
+            transcript: transcription.transcript || "",
+            audioFileId: transcription.audio_file_id || undefined,
+            segments: transcription.segments,
+            speakerLabels: transcription.speaker_labels,
+          },
+          timestamp: new Date(transcription.created_at).getTime(),
+        });
+        toast.success("Recording transcribed");
+      } else if (transcription.processing_status === "failed") {
+        toast.error("Transcription failed", {
+          description: transcription.processing_error || undefined,
+        });
+      } else {
+        pollTranscription(jobId, transcriptionId);
+      }
+    }, POLL_INTERVAL_MS);
+  };
+
+  const handleFile = async (file: File) => {
+    if (!currentCaseId) return;
+
+    if (file.size > AUDIO_MAX_FILE_SIZE) {
+      toast.error("Recording is too large", {
+        description: "Recordings must be 50 MB or smaller.",
+      });
+      return;
+    }
+
+    const jobId = crypto.randomUUID();
+    setJobs((current) => [
+      { id: jobId, filename: file.name, status: "uploading", progress: 0 },
+      ...current,
+    ]);
+
+    try {
+      const created = await createAudioFile({
+        filename: file.name,
+        format: file.type || "audio/mpeg",
+        duration: await readDuration(file),
+        file_size: file.size,
+      });
+
+      if (!created.success || !created.audioFile) {
+        throw new Error(created.error || "Failed to save recording");
+      }
+
+      const audioFile = created.audioFile;
+      try {
+        await uploadRecording(file, audioFile.file_path, (progress) =>
+          updateJob(jobId, { progress })
+        );
+      } catch (error) {
+        await completeAudioUpload(audioFile.id, false);
+        throw error;
+      }
+      await completeAudioUpload(audioFile.id);
+
+      const queued = await transcribeAudioFile(currentCaseId, audioFile.id);
+      if (!queued.success || !queued.transcription) {
+        throw new Error(queued.error || "Failed to start transcription");
+      }
+
+      updateJob(jobId, { status: "queued", progress: 1 });
+      pollTranscription(jobId, queued.transcription.id);
+    } catch (error) {
+      console.error("Failed to upload recording:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to upload recording";
+      updateJob(jobId, { status: "failed", error: message });
+      toast.error("Failed to upload recording", { description: message });
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    files.forEach(handleFile);
+    // Allow the same file to be picked again
+    e.target.value = "";
+  };
+
+  return (
+    <Card className="bg-card border-border shadow-md rounded-xl overflow-hidden">
+      <CardHeader className="border-b border-border bg-muted/20">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-card-foreground flex items-center">
+            <FileAudio className="h-5 w-5 mr-2 text-card-foreground inline" />
+            Upload Recording
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!currentCaseId}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Choose File
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            multiple
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="p-6">
+        {!currentCaseId ? (
+          <p className="text-sm text-muted-foreground">
+            Save the case before uploading a recording from a phone or
+            dictation device.
+          </p>
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Upload a recording from a phone or dictation device and it will be
+            transcribed with each speaker labelled.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {jobs.map((job) => (
+              <div key={job.id} className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-card-foreground truncate">
+                    {job.filename}
+                  </span>
+                  <Badge
+                    variant={job.status === "failed" ? "destructive" : "secondary"}
+                    className="flex items-center gap-1 shrink-0"
+                  >
+                    {(job.status === "queued" ||
+                      job.status === "processing") && (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    )}
+                    {STATUS_LABELS[job.status]}
+                  </Badge>
+                </div>
+                {job.status === "uploading" && (
+                  <Progress value={job.progress * 100} className="h-1" />
+                )}
+                {job.error && (
+                  <p className="text-xs text-destructive">{job.error}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
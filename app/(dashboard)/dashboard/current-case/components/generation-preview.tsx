@@ -0,0 +1,72 @@
+"use client";
+
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/src/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/src/components/ui/card";
+import { useTranscriptionStore } from "@/src/store/use-transcription-store";
+import type { TemplateSchema } from "@/src/lib/templates/schema";
+
+interface GenerationPreviewProps {
+  templateName: string;
+  // Output schema of the template; free-text templates have none
+  schema: TemplateSchema | null;
+  // Partial object received so far for templates with a schema
+  partialContent: Record<string, unknown> | null;
+  onCancel: () => void;
+}
+
+/**
+ * Shows a generation as it streams in
+ * Templates with an output schema fill in one section per field; free-text
+ * templates show the streamed text
+ */
+export function GenerationPreview({
+  templateName,
+  schema,
+  partialContent,
+  onCancel,
+}: GenerationPreviewProps) {
+  const streamingContent = useTranscriptionStore(
+    (state) => state.streamingContent
+  );
+
+  return (
+    <Card className="bg-muted/20 border-muted/30 w-full">
+      <CardHeader className="p-4 pb-2 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base font-medium flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Generating {templateName}
+        </CardTitle>
+        <Button size="sm" variant="outline" onClick={onCancel}>
+          <X className="h-4 w-4 mr-1" />
+          Cancel
+        </Button>
+      </CardHeader>
+      <CardContent className="p-4 pt-2 space-y-3">
+        {schema ? (
+          Object.entries(schema.properties).map(([name, field]) => {
+            const value = partialContent?.[name];
+            return (
+              <div key={name}>
+                <h4 className="text-sm font-medium text-card-foreground">
+                  {field.title || name}
+                </h4>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                  {value === undefined || value === null
+                    ? "…"
+                    : typeof value === "string"
+                      ? value
+                      : JSON.stringify(value, null, 2)}
+                </p>
+              </div>
+            );
+          })
+        ) : (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+            {streamingContent || "…"}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
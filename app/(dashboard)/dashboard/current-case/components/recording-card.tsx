@@ -6,22 +6,32 @@ import {
   CardTitle,
   CardContent,
 } from "@/src/components/ui/card";
-import { Mic, MicOff } from "lucide-react";
+import { Mic, MicOff, Wifi, WifiOff } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
 import {
+  ConnectionHealth,
   LiveTranscriptionEvent,
   useDeepgram,
 } from "@/src/providers/DeepgramContextProvider";
 import {
   MicrophoneEvents,
   MicrophoneState,
+  RecordedAudio,
   useMicrophone,
 } from "@/src/providers/MicrophoneContextProvider";
 import { LiveTranscriptionEvents, SOCKET_STATES } from "@deepgram/sdk";
-import { DEEPGRAM_CONFIG } from "@/src/lib/constants";
+import { useTranscriptionSettings } from "@/src/hooks/use-transcription-settings";
 import { useTranscriptionStore } from "@/src/store/use-transcription-store";
 import { Button } from "@/src/components/ui/button";
 import { useCaseStore } from "@/src/store/use-case-store";
+import { uploadRecording } from "@/src/lib/audio-upload";
+import {
+  appendSegments,
+  segmentsFromWords,
+} from "@/src/lib/transcription/segments";
+import type { TranscriptSegment } from "@/src/lib/transcription/types";
+import { completeAudioUpload, createAudioFile } from "@/app/actions";
+import { toast } from "sonner";
 
 export function RecordingCard() {
   // State for continuous transcript
@@ -35,6 +45,8 @@ export function RecordingCard() {
   const finalTranscriptRef = useRef<string>("");
   const interimTranscriptRef = useRef<string>("");
   const lastProcessedTextRef = useRef<string>("");
+  // Speaker segments built from the words of each final result
+  const segmentsRef = useRef<TranscriptSegment[]>([]);
 
   // Using store for sharing transcript with other components
   const { setStreamingContent, setIsRecording: setStoreIsRecording } =
@@ -49,17 +61,28 @@ export function RecordingCard() {
   } = useCaseStore();
 
   // Deepgram and microphone setup
-  const { connection, connectToDeepgram, connectionState } = useDeepgram();
+  const {
+    connection,
+    connectToDeepgram,
+    disconnectFromDeepgram,
+    sendAudio,
+    connectionState,
+    connectionHealth,
+    bufferedChunks,
+  } = useDeepgram();
   const {
     setupMicrophone,
     microphone,
     startMicrophone,
     stopMicrophone,
+    finishRecording,
     microphoneState,
   } = useMicrophone();
+  const { isLoading: isSettingsLoading, getLiveOptions } =
+    useTranscriptionSettings();
 
-  // References for intervals and timeouts
-  const keepAliveInterval = useRef<NodeJS.Timeout | null>(null);
+  // Progress of the recording currently uploading, null when idle
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
 
   // Initialize microphone on component mount
   useEffect(() => {
@@ -73,9 +96,11 @@ export function RecordingCard() {
     console.log(
       `Microphone state: ${microphoneState !== null ? MicrophoneState[microphoneState] : "null"}`
     );
-    if (microphoneState === MicrophoneState.Ready) {
-      console.log("Connecting to Deepgram with config:", DEEPGRAM_CONFIG);
-      connectToDeepgram(DEEPGRAM_CONFIG);
+    // Wait for the user's transcription settings before opening the socket
+    if (microphoneState === MicrophoneState.Ready && !isSettingsLoading) {
+      const options = getLiveOptions();
+      console.log("Connecting to Deepgram with config:", options);
+      connectToDeepgram(options);
     }
 
     // Update microphone state in case store
@@ -83,7 +108,7 @@ export function RecordingCard() {
       setMicrophoneState(microphoneState);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [microphoneState]);
+  }, [microphoneState, isSettingsLoading]);
 
   // Update connection state in case store
   useEffect(() => {
@@ -160,6 +185,12 @@ export function RecordingCard() {
           }
         }
 
+        // Keep the diarized words as speaker segments
+        segmentsRef.current = appendSegments(
+          segmentsRef.current,
+          segmentsFromWords(data.channel?.alternatives?.[0]?.words ?? [])
+        );
+
         // Clear interim transcript since we have a final result
         interimTranscriptRef.current = "";
         setInterimTranscript("");
@@ -205,13 +236,10 @@ export function RecordingCard() {
   }, [connection, connectionState, setStreamingContent, setTranscriptText]);
 
   // Set up microphone audio data handling separately
+  // Audio keeps flowing while the connection drops; the provider buffers it
+  // and replays it once reconnected
   useEffect(() => {
-    if (
-      !microphone ||
-      !connection ||
-      connectionState !== SOCKET_STATES.open ||
-      !isRecording
-    ) {
+    if (!microphone || !isRecording) {
       return;
     }
 
@@ -219,8 +247,7 @@ export function RecordingCard() {
     const onData = (e: BlobEvent) => {
       // Prevent empty packets from being sent (iOS Safari fix)
       if (e.data.size > 0) {
-        console.log(`Sending audio packet: ${e.data.size} bytes`);
-        connection.send(e.data);
+        sendAudio(e.data);
       }
     };
 
@@ -231,31 +258,7 @@ export function RecordingCard() {
     return () => {
       microphone.removeEventListener(MicrophoneEvents.DataAvailable, onData);
     };
-  }, [microphone, connection, connectionState, isRecording]);
-
-  // Keep the connection alive
-  useEffect(() => {
-    if (!connection) return;
-
-    if (connectionState === SOCKET_STATES.open) {
-      connection.keepAlive();
-
-      keepAliveInterval.current = setInterval(() => {
-        connection.keepAlive();
-      }, 10000);
-    } else {
-      if (keepAliveInterval.current) {
-        clearInterval(keepAliveInterval.current);
-      }
-    }
-
-    return () => {
-      if (keepAliveInterval.current) {
-        clearInterval(keepAliveInterval.current);
-      }
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [connectionState]);
+  }, [microphone, isRecording, sendAudio]);
 
   // Function to toggle recording
   const toggleRecording = () => {
@@ -269,6 +272,7 @@ export function RecordingCard() {
   // Function to clear transcript
   const handleClearTranscript = () => {
     finalTranscriptRef.current = "";
+    segmentsRef.current = [];
     interimTranscriptRef.current = "";
     setContinuousTranscript("");
     setInterimTranscript("");
@@ -276,20 +280,61 @@ export function RecordingCard() {
     setTranscriptText("");
   };
 
+  // Create the audio_files row for a recording and upload it in the background
+  // Returns the row id so the transcript can be linked before the upload finishes
+  const persistRecording = async (recording: RecordedAudio) => {
+    const result = await createAudioFile({
+      filename: `recording-${new Date().toISOString()}`,
+      format: recording.mimeType,
+      duration: recording.duration,
+      file_size: recording.blob.size,
+      sample_rate: recording.sampleRate,
+      channels: recording.channels,
+      bit_rate: recording.bitRate,
+    });
+
+    if (!result.success || !result.audioFile) {
+      toast.error("Failed to save recording", { description: result.error });
+      return undefined;
+    }
+
+    const audioFile = result.audioFile;
+    setUploadProgress(0);
+
+    uploadRecording(recording.blob, audioFile.file_path, setUploadProgress)
+      .then(() => completeAudioUpload(audioFile.id))
+      .catch(async (error) => {
+        console.error("Failed to upload recording:", error);
+        await completeAudioUpload(audioFile.id, false);
+        toast.error("Failed to upload recording", {
+          description: "The transcript was saved without its audio.",
+        });
+      })
+      .finally(() => setUploadProgress(null));
+
+    return audioFile.id;
+  };
+
   // Function to save transcript as a case action
-  const handleSaveTranscript = () => {
+  const handleSaveTranscript = async () => {
     if (finalTranscriptRef.current.trim()) {
-      // If still recording, stop the microphone first
-      if (isRecording) {
-        stopMicrophone();
-      }
-
-      // Save the transcript to the case store
-      setTranscriptText(finalTranscriptRef.current);
-      handleRecordingFinished();
+      const transcript = finalTranscriptRef.current;
+      const segments = segmentsRef.current;
 
       // Clear the transcript after saving
       handleClearTranscript();
+
+      // Finishing the recording restarts the audio stream, so the live
+      // connection is reopened once the microphone is ready again
+      disconnectFromDeepgram();
+      const recording = await finishRecording();
+      const audioFileId = recording
+        ? await persistRecording(recording)
+        : undefined;
+
+      // Save the transcript to the case store
+      setTranscriptText(transcript);
+      handleRecordingFinished({ audioFileId, segments });
     }
   };
 
@@ -302,6 +347,10 @@ export function RecordingCard() {
               <Mic className="h-5 w-5 mr-2 text-card-foreground inline" />
               Voice Recording
             </CardTitle>
+            <ConnectionIndicator
+              health={connectionHealth}
+              bufferedChunks={bufferedChunks}
+            />
           </div>
         </CardHeader>
         <CardContent className="p-6">
@@ -310,7 +359,7 @@ export function RecordingCard() {
             <div className="mb-6 flex justify-center">
               <button
                 onClick={toggleRecording}
-                disabled={connectionState !== SOCKET_STATES.open}
+                disabled={!isRecording && connectionState !== SOCKET_STATES.open}
                 className={`flex items-center justify-center w-24 h-24 rounded-full transition-all duration-300 ${
                   isRecording
                     ? "bg-red-500 hover:bg-red-600"
@@ -354,6 +403,13 @@ export function RecordingCard() {
                 </div>
               )}
 
+              {/* Upload progress for the last saved recording */}
+              {uploadProgress !== null && (
+                <div className="mt-2 text-xs text-muted-foreground">
+                  Uploading recording... {Math.round(uploadProgress * 100)}%
+                </div>
+              )}
+
               {/* Save and Clear buttons for transcript */}
               {continuousTranscript.trim() && (
                 <div className="mt-4 flex justify-end items-center gap-4">
@@ -378,3 +434,57 @@ export function RecordingCard() {
     </div>
   );
 }
+
+const CONNECTION_HEALTH_DISPLAY: Record<
+  ConnectionHealth,
+  { label: string; dotClassName: string }
+> = {
+  connected: { label: "Connected", dotClassName: "bg-green-500" },
+  connecting: {
+    label: "Connecting...",
+    dotClassName: "bg-amber-500 animate-pulse",
+  },
+  reconnecting: {
+    label: "Reconnecting...",
+    dotClassName: "bg-amber-500 animate-pulse",
+  },
+  offline: { label: "Offline", dotClassName: "bg-red-500" },
+  disconnected: { label: "Disconnected", dotClassName: "bg-gray-400" },
+};
+
+/**
+ * Health of the live transcription connection
+ * While reconnecting or offline the microphone keeps recording locally
+ */
+function ConnectionIndicator({
+  health,
+  bufferedChunks,
+}: {
+  health: ConnectionHealth;
+  bufferedChunks: number;
+}) {
+  const { label, dotClassName } = CONNECTION_HEALTH_DISPLAY[health];
+  const isBuffering =
+    bufferedChunks > 0 && (health === "reconnecting" || health === "offline");
+
+  return (
+    <div
+      className="flex items-center gap-2 text-xs text-muted-foreground"
+      role="status"
+      aria-live="polite"
+    >
+      {health === "offline" || health === "disconnected" ? (
+        <WifiOff className="h-3.5 w-3.5" />
+      ) : (
+        <Wifi className="h-3.5 w-3.5" />
+      )}
+      <span className={`h-2 w-2 rounded-full ${dotClassName}`} />
+      <span>
+        {label}
+        {/* Chunks are 250ms each */}
+        {isBuffering &&
+          ` · ${Math.round(bufferedChunks / 4)}s recorded locally`}
+      </span>
+    </div>
+  );
+}
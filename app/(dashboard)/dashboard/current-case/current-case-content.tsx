@@ -10,7 +10,7 @@ import {
   createCase,
   updateCase,
   getCase,
-  generateContentFromTemplate,
+  getCaseClient,
 } from "@/app/actions";
 import { caseFormSchema } from "./case-form";
 import { ClientSideDate } from "./client-side-dates";
@@ -56,16 +56,11 @@ import {
   Trash2,
   ChevronDown,
   ChevronUp,
-  Copy,
   Edit,
-  ChevronsUp,
-  ChevronsDown,
   Stethoscope,
   Mail,
 } from "lucide-react";
 import { Progress } from "@/src/components/ui/progress";
-import { SoapNotesEditor } from "@/src/components/ui/soap-notes-editor";
-import { MarkdownRenderer } from "@/src/components/ui/markdown";
 import { simpleSendEmail } from "@/app/actions";
 import {
   Dialog,
@@ -78,14 +73,47 @@ import {
 import { getEmailTemplates, ensureDefaultTemplates } from "@/app/actions";
 import { Checkbox } from "@/src/components/ui/checkbox";
 import { RecordingCard } from "./components/recording-card";
+import { AudioUploadCard } from "./components/audio-upload-card";
+import { GenerationPreview } from "./components/generation-preview";
+import {
+  templateOutputSchema,
+  type TemplateFieldError,
+  type TemplateSchema,
+} from "@/src/lib/templates/schema";
+import {
+  noteFromGeneration,
+  noteFromStoredContent,
+  noteToHtml,
+  type StructuredNote,
+} from "@/src/lib/notes/structured-note";
+import { escapeHtml } from "@/src/lib/templates/variables";
+import { StructuredNoteView } from "@/src/features/notes/components/structured-note-view";
+import { PdfActions } from "@/src/features/exports/components/pdf-actions";
+import { StructuredNoteEditor } from "@/src/features/notes/components/structured-note-editor";
+import {
+  streamGeneration,
+  type GenerationStreamRequest,
+} from "@/src/lib/generation-stream";
+import { useTranscriptionStore } from "@/src/store/use-transcription-store";
+import type { Template } from "@/app/actions/types";
 
 type FormValues = z.infer<typeof caseFormSchema>;
 
-interface SoapResponse {
-  subjective: string;
-  objective: string;
-  assessment: string;
-  plan: string;
+// Error message for a failed generation, listing fields that did not match
+// the template's output schema
+function generationErrorMessage(result: {
+  error?: string;
+  fieldErrors?: TemplateFieldError[];
+}) {
+  const message = result.error || "Failed to generate content from template";
+  if (!result.fieldErrors || result.fieldErrors.length === 0) {
+    return message;
+  }
+
+  const fields = result.fieldErrors.map((e) =>
+    e.path ? `${e.path}: ${e.message}` : e.message
+  );
+  return `${message} (${fields.join("; ")})`;
 }
 
 export function CurrentCaseContent() {
@@ -95,13 +123,10 @@ export function CurrentCaseContent() {
   const [savedCaseData, setSavedCaseData] = useState<FormValues | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
-  // Add state for expanded transcripts and SOAP sections
+  // Add state for expanded transcripts
   const [expandedTranscripts, setExpandedTranscripts] = useState<
     Record<string, boolean>
   >({});
-  const [expandedSoapSections, setExpandedSoapSections] = useState<
-    Record<string, Record<string, boolean>>
-  >({});
   const [expandedSoaps, setExpandedSoaps] = useState<Record<string, boolean>>(
     {}
   );
@@ -117,44 +142,9 @@ export function CurrentCaseContent() {
   // Access case store
   const { caseActions: actions, currentCaseId } = useCaseStore();
 
-  // Initialize SOAP section states when actions change
-  useEffect(() => {
-    // Initialize section states for any new SOAP actions
-    actions.forEach((action) => {
-      if (
-        action.type === "soap" &&
-        action.content.soap &&
-        !expandedSoapSections[action.id]
-      ) {
-        setExpandedSoapSections((prev) => ({
-          ...prev,
-          [action.id]: {
-            subjective: true,
-            objective: true,
-            assessment: true,
-            plan: true,
-          },
-        }));
-      }
-    });
-  }, [actions, expandedSoapSections]);
-
-  // Function to toggle all sections for a SOAP note
-  const toggleAllSections = (actionId: string, expand: boolean) => {
-    setExpandedSoapSections((prev) => ({
-      ...prev,
-      [actionId]: {
-        subjective: expand,
-        objective: expand,
-        assessment: expand,
-        plan: expand,
-      },
-    }));
-  };
-
-  // Function to handle editing SOAP notes
+  // Function to handle editing notes
   const handleEditSoap = (action: CaseAction) => {
-    if (action.type === "soap" && action.content.soap) {
+    if (action.type === "note" && action.content.note) {
       setEditingSoapId(action.id);
       setEditingSoapData({
         action,
@@ -188,8 +178,8 @@ export function CurrentCaseContent() {
     setEditingSoapData(null);
   };
 
-  // Function to update SOAP notes when edited
-  const handleUpdateSoapNotes = (updatedSoap: SoapResponse) => {
+  // Function to update notes when edited
+  const handleUpdateSoapNotes = (updatedNote: StructuredNote) => {
     if (editingSoapId && editingSoapData) {
       const action = editingSoapData.action;
 
@@ -198,27 +188,16 @@ export function CurrentCaseContent() {
         ...action,
         content: {
           ...action.content,
-          soap: updatedSoap,
+          note: updatedNote,
         },
       });
 
-      // Make sure the sections remain expanded after editing
-      setExpandedSoapSections((prev) => ({
-        ...prev,
-        [editingSoapId]: {
-          subjective: true,
-          objective: true,
-          assessment: true,
-          plan: true,
-        },
-      }));
-
       // Close the editor
       handleCloseSoapEditor();
 
       // Update local state
       toast({
-        title: "SOAP notes updated",
+        title: "Note updated",
         description: "Your changes have been saved",
       });
     }
@@ -292,7 +271,7 @@ export function CurrentCaseContent() {
           type: action.type,
           content: {
             transcript: action.content.transcript,
-            soap: action.content.soap,
+            note: action.content.note,
           },
           timestamp: action.timestamp,
         })),
@@ -351,7 +330,7 @@ export function CurrentCaseContent() {
           type: action.type,
           content: {
             transcript: action.content.transcript,
-            soap: action.content.soap,
+            note: action.content.note,
           },
           timestamp: action.timestamp,
         })),
@@ -395,11 +374,25 @@ export function CurrentCaseContent() {
 
   // State for template selector
   const [selectedTemplateId, setSelectedTemplateId] = useState<string>("");
-  const [availableTemplates, setAvailableTemplates] = useState<
-    Array<{ id: number; name: string; type: string }>
-  >([]);
+  const [availableTemplates, setAvailableTemplates] = useState<Template[]>([]);
   const [isLoadingTemplates, setIsLoadingTemplates] = useState(false);
 
+  // Generation currently streaming into the preview
+  const [streamingPreview, setStreamingPreview] = useState<{
+    templateName: string;
+    schema: TemplateSchema | null;
+    partialContent: Record<string, unknown> | null;
+  } | null>(null);
+  const setStreamingContent = useTranscriptionStore(
+    (state) => state.setStreamingContent
+  );
+  const generationAbortRef = useRef<AbortController | null>(null);
+
+  // Stop streaming if the page is left mid-generation
+  useEffect(() => {
+    return () => generationAbortRef.current?.abort();
+  }, []);
+
   // Fetch available templates on mount
   const fetchTemplates = async () => {
     setIsLoadingTemplates(true);
@@ -431,6 +424,89 @@ export function CurrentCaseContent() {
     fetchTemplates();
   }, []);
 
+  // Streams a generation into the preview and adds it as a case action once
+  // it completes; cancelling aborts the request and the upstream model call
+  const streamTemplateGeneration = async (
+    transcriptions: GenerationStreamRequest["transcriptions"],
+    transcript: string
+  ) => {
+    // Use a default template ID if none is selected (1 is usually the default SOAP template)
+    const templateIdToUse = selectedTemplateId || "1";
+    const template = availableTemplates.find(
+      (t) => t.id.toString() === templateIdToUse
+    );
+    const schema = template ? templateOutputSchema(template) : null;
+
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setStreamingContent("");
+    setStreamingPreview({
+      templateName: template?.name || "content",
+      schema,
+      partialContent: null,
+    });
+
+    try {
+      const result = await streamGeneration(
+        { templateId: templateIdToUse, transcriptions },
+        {
+          signal: controller.signal,
+          onText: setStreamingContent,
+          onObject: (partialContent) =>
+            setStreamingPreview((preview) =>
+              preview ? { ...preview, partialContent } : preview
+            ),
+        }
+      );
+
+      if (result.type === "error") {
+        throw new Error(generationErrorMessage(result));
+      }
+
+      // Sections come from the template the content was generated with
+      const content = result.content;
+      const note = template
+        ? noteFromGeneration(template, content)
+        : noteFromStoredContent(
+            typeof content === "string" ? content : JSON.stringify(content),
+            "Generated note"
+          );
+
+      useCaseStore.getState().addCaseAction({
+        id: crypto.randomUUID(),
+        type: "note",
+        content: { transcript, note },
+        timestamp: Date.now(),
+      });
+    } finally {
+      generationAbortRef.current = null;
+      setStreamingPreview(null);
+      setStreamingContent("");
+    }
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  const handleGenerationError = (error: unknown) => {
+    if (error instanceof Error && error.name === "AbortError") {
+      toast({
+        title: "Generation cancelled",
+        description: "Nothing was added to the case.",
+      });
+      return;
+    }
+
+    console.error("Error generating content from template:", error);
+    toast({
+      title: "Error",
+      description:
+        error instanceof Error ? error.message : "Failed to generate content",
+      variant: "destructive",
+    });
+  };
+
   // Handle generating content from a template for a specific recording
   const handleGenerateFromTemplate = async (
     actionId: string,
@@ -438,84 +514,22 @@ export function CurrentCaseContent() {
   ) => {
     if (isGeneratingSoap) return;
 
-    // Making template selection optional
-    // if (!selectedTemplateId) {
-    //   toast({
-    //     title: "No Template Selected",
-    //     description: "Please select a template first.",
-    //     variant: "destructive",
-    //   });
-    //   return;
-    // }
-
     setIsGeneratingSoap(true);
     try {
-      // Call the server action to generate content from the template
-      // Use a default template ID if none is selected (1 is usually the default SOAP template)
-      const templateIdToUse = selectedTemplateId || "1";
-      const result = await generateContentFromTemplate([transcript], {
-        templateId: templateIdToUse,
-      });
-
-      if (result.success && result.content) {
-        if (
-          result.template.type === "soap_notes" &&
-          typeof result.content === "object"
-        ) {
-          // Create SOAP action with full SOAP structure
-          const soapAction: CaseAction = {
-            id: crypto.randomUUID(),
-            type: "soap",
-            content: {
-              transcript: transcript,
-              soap: {
-                subjective: result.content.subjective || "",
-                objective: result.content.objective || "",
-                assessment: result.content.assessment || "",
-                plan: result.content.plan || "",
-              },
-            },
-            timestamp: Date.now(),
-          };
-
-          // Add the new action
-          useCaseStore.getState().addCaseAction(soapAction);
-        } else {
-          // For other template types, create a simpler action
-          const generatedAction: CaseAction = {
-            id: crypto.randomUUID(),
-            type: "soap",
-            content: {
-              transcript: transcript,
-              soap: {
-                subjective: `Generated using template: ${result.template.name}`,
-                // Store the template type in objective field for display
-                objective: `${result.template.type}`,
-                assessment: "",
-                plan:
-                  typeof result.content === "string"
-                    ? result.content
-                    : JSON.stringify(result.content, null, 2),
-              },
-            },
-            timestamp: Date.now(),
-          };
-
-          // Add the new action
-          useCaseStore.getState().addCaseAction(generatedAction);
-        }
-      } else {
-        throw new Error(
-          result.error || "Failed to generate content from template"
-        );
-      }
+      const recording = actions.find((action) => action.id === actionId);
+      await streamTemplateGeneration(
+        [
+          {
+            id: recording?.id,
+            transcript,
+            segments: recording?.content.segments,
+            speakerLabels: recording?.content.speakerLabels,
+          },
+        ],
+        transcript
+      );
     } catch (error) {
-      console.error("Error generating content from template:", error);
-      toast({
-        title: "Error",
-        description: "Failed to generate content",
-        variant: "destructive",
-      });
+      handleGenerationError(error);
     } finally {
       setIsGeneratingSoap(false);
 
@@ -530,40 +544,26 @@ export function CurrentCaseContent() {
 
     if (selectedRecordingIds.length === 0 || isGeneratingSoap) return;
 
-    // Making template selection optional
-    // if (!selectedTemplateId) {
-    //   toast({
-    //     title: "No Template Selected",
-    //     description: "Please select a template first.",
-    //     variant: "destructive",
-    //   });
-    //   return;
-    // }
-
     setIsGeneratingSoap(true);
     try {
       // Get all the selected recordings
       const selectedRecordings = actions.filter(
         (action) =>
           action.type === "recording" &&
-          selectedRecordingIds.includes(action.id)
+          selectedRecordingIds.includes(action.id) &&
+          action.content.transcript?.trim()
       );
 
-      // Sort recordings by timestamp to ensure chronological order
-      selectedRecordings.sort((a, b) => a.timestamp - b.timestamp);
-
-      // Extract transcripts from the selected recordings
-      const transcripts = selectedRecordings
-        .map((action) => action.content.transcript || "")
-        .filter((transcript) => transcript.trim() !== "");
-
-      if (transcripts.length === 0) {
+      if (selectedRecordings.length === 0) {
         throw new Error("No valid transcripts selected");
       }
 
+      // Sort recordings by timestamp to ensure chronological order
+      selectedRecordings.sort((a, b) => a.timestamp - b.timestamp);
+
       // Log the number of transcripts being processed
       console.log(
-        `Processing ${transcripts.length} transcripts for content generation`
+        `Processing ${selectedRecordings.length} transcripts for content generation`
       );
 
       // Create a combined transcript with clear separation between selections
@@ -574,76 +574,17 @@ export function CurrentCaseContent() {
         )
         .join("\n\n---\n\n");
 
-      // Call the server action to generate content from the template
-      // Use a default template ID if none is selected (1 is usually the default SOAP template)
-      const templateIdToUse = selectedTemplateId || "1";
-      const result = await generateContentFromTemplate(transcripts, {
-        templateId: templateIdToUse,
-      });
-
-      if (result.success && result.content) {
-        if (
-          result.template.type === "soap_notes" &&
-          typeof result.content === "object"
-        ) {
-          // Create SOAP action with full SOAP structure
-          const soapAction: CaseAction = {
-            id: crypto.randomUUID(),
-            type: "soap",
-            content: {
-              transcript: combinedTranscript,
-              soap: {
-                subjective: result.content.subjective || "",
-                objective: result.content.objective || "",
-                assessment: result.content.assessment || "",
-                plan: result.content.plan || "",
-              },
-            },
-            timestamp: Date.now(),
-          };
-
-          // Add the new action
-          useCaseStore.getState().addCaseAction(soapAction);
-        } else {
-          // For other template types, create a simpler action
-          const generatedAction: CaseAction = {
-            id: crypto.randomUUID(),
-            type: "soap",
-            content: {
-              transcript: combinedTranscript,
-              soap: {
-                subjective: `Generated using template: ${result.template.name}`,
-                // Store the template type in objective field for display
-                objective: `${result.template.type}`,
-                assessment: "",
-                plan:
-                  typeof result.content === "string"
-                    ? result.content
-                    : JSON.stringify(result.content, null, 2),
-              },
-            },
-            timestamp: Date.now(),
-          };
-
-          // Add the new action
-          useCaseStore.getState().addCaseAction(generatedAction);
-        }
-      } else {
-        throw new Error(
-          result.error || "Failed to generate content from template"
-        );
-      }
-    } catch (error) {
-      console.error(
-        "Error generating content from multiple transcripts:",
-        error
+      await streamTemplateGeneration(
+        selectedRecordings.map((recording) => ({
+          id: recording.id,
+          transcript: recording.content.transcript || "",
+          segments: recording.content.segments,
+          speakerLabels: recording.content.speakerLabels,
+        })),
+        combinedTranscript
       );
-      toast({
-        title: "Error",
-        description:
-          error instanceof Error ? error.message : "Failed to generate content",
-        variant: "destructive",
-      });
+    } catch (error) {
+      handleGenerationError(error);
     } finally {
       setIsGeneratingSoap(false);
 
@@ -670,6 +611,26 @@ export function CurrentCaseContent() {
   const [emailTo, setEmailTo] = useState("");
   const [emailFrom, setEmailFrom] = useState("no-reply@odisai.net");
   const [isSendingEmail, setIsSendingEmail] = useState(false);
+  const [ownerEmail, setOwnerEmail] = useState("");
+
+  // Look up the patient owner's email so staff don't have to retype it
+  useEffect(() => {
+    const loadOwnerEmail = async () => {
+      if (!currentCaseId) {
+        setOwnerEmail("");
+        return;
+      }
+
+      const result = await getCaseClient(currentCaseId);
+      if (result.success && result.client?.email && result.client.email_opt_in) {
+        setOwnerEmail(result.client.email);
+      } else {
+        setOwnerEmail("");
+      }
+    };
+
+    loadOwnerEmail();
+  }, [currentCaseId]);
 
   // No longer needed as templates are loaded on component mount
 
@@ -677,11 +638,17 @@ export function CurrentCaseContent() {
   const handleEmailClick = () => {
     // Ensure the default email is set
     setEmailFrom("no-reply@odisai.net");
+    // Default the recipient to the owner's email on file
+    if (!emailTo && ownerEmail) {
+      setEmailTo(ownerEmail);
+    }
     setShowEmailDialog(true);
   };
 
   const handleSendEmail = async () => {
-    if (!selectedActionId || !emailTo || !emailFrom) {
+    const recipient = emailTo || ownerEmail;
+
+    if (!selectedActionId || !recipient || !emailFrom) {
       toast({
         title: "Missing Information",
         description: "Please fill in all email fields",
@@ -721,8 +688,8 @@ export function CurrentCaseContent() {
 <pre style="background-color: #f5f5f5; padding: 10px; border-radius: 5px;">${selectedAction.content.transcript}</pre>`;
         }
       }
-      // If the selected action is a SOAP note or other generated content
-      else if (selectedAction.type === "soap") {
+      // If the selected action is a generated note
+      else if (selectedAction.type === "note") {
         subject = `OdisAI: ${savedCaseData?.name || "Case"} - Notes`;
 
         // First add the transcript if available
@@ -732,43 +699,18 @@ export function CurrentCaseContent() {
 <hr>`;
         }
 
-        // Then add the SOAP note content with formatting
-        if (selectedAction.content.soap) {
-          const soap = selectedAction.content.soap;
-
-          emailContent += `<h2>Generated Notes (${new Date(selectedAction.timestamp).toLocaleString()})</h2>`;
-
-          // For standard SOAP notes
-          if (
-            soap.subjective.trim() &&
-            soap.objective.trim() &&
-            soap.assessment.trim() &&
-            soap.plan.trim() &&
-            !soap.subjective.startsWith("Generated using template:")
-          ) {
-            emailContent += `<h3>Subjective</h3>
-<div>${soap.subjective}</div>
+        // Then add each section of the note
+        if (selectedAction.content.note) {
+          const note = selectedAction.content.note;
 
-<h3>Objective</h3>
-<div>${soap.objective}</div>
-
-<h3>Assessment</h3>
-<div>${soap.assessment}</div>
-
-<h3>Plan</h3>
-<div>${soap.plan}</div>`;
-          }
-          // For other template-based content
-          else if (soap.plan.trim()) {
-            // Use the plan field to store the content for non-SOAP templates
-            emailContent += `<div>${soap.plan}</div>`;
-          }
+          emailContent += `<h2>${escapeHtml(note.title)} (${new Date(selectedAction.timestamp).toLocaleString()})</h2>
+${noteToHtml(note.sections)}`;
         }
       }
 
       // Send the email with direct content
       const result = await simpleSendEmail(
-        emailTo,
+        recipient,
         subject,
         emailContent,
         emailFrom
@@ -1216,6 +1158,8 @@ export function CurrentCaseContent() {
 
         <RecordingCard />
 
+        <AudioUploadCard />
+
         {/* Case Actions Section */}
         <Card className="bg-card border-border shadow-md rounded-xl overflow-hidden">
           <CardHeader className="border-b border-border bg-muted/20">
@@ -1240,7 +1184,7 @@ export function CurrentCaseContent() {
                       // Check for SOAP notes
                       const selectedSoapCount = selectedSoapIds.length;
                       const soapCount = actions.filter(
-                        (action) => action.type === "soap"
+                        (action) => action.type === "note"
                       ).length;
 
                       // If any recordings or SOAP notes are selected, clear all selections
@@ -1266,7 +1210,7 @@ export function CurrentCaseContent() {
 
                         // Select all SOAP notes
                         const soapIds = actions
-                          .filter((action) => action.type === "soap")
+                          .filter((action) => action.type === "note")
                           .map((action) => action.id);
                         setSelectedSoapIds(soapIds);
 
@@ -1505,86 +1449,29 @@ export function CurrentCaseContent() {
                     <h3 className="text-lg font-medium text-card-foreground border-b border-muted/30 pb-2">
                       Generations
                     </h3>
-                    {actions.filter((action) => action.type === "soap").length >
+                    {streamingPreview && (
+                      <GenerationPreview
+                        templateName={streamingPreview.templateName}
+                        schema={streamingPreview.schema}
+                        partialContent={streamingPreview.partialContent}
+                        onCancel={handleCancelGeneration}
+                      />
+                    )}
+                    {actions.filter((action) => action.type === "note").length >
                     0 ? (
                       actions
                         .filter(
                           (action) =>
-                            action.type === "soap" && action.content.soap
+                            action.type === "note" && action.content.note
                         )
                         .map((action: CaseAction, index) => {
+                          const note = action.content.note!;
                           const isSoapSelected = selectedSoapIds.includes(
                             action.id
                           );
                           const isSoapExpanded =
                             expandedSoaps[action.id] || false;
 
-                          // Try to parse the SOAP note from plan if it's a string containing JSON
-                          let parsedSoap = action.content.soap;
-
-                          // Check if plan field contains JSON structure with SOAP fields
-                          if (
-                            action.content.soap?.plan &&
-                            typeof action.content.soap.plan === "string"
-                          ) {
-                            try {
-                              // Check if the plan looks like it contains JSON
-                              if (
-                                action.content.soap.plan.includes(
-                                  '"subjective":'
-                                ) ||
-                                action.content.soap.plan.includes(
-                                  '"objective":'
-                                ) ||
-                                action.content.soap.plan.includes(
-                                  '"assessment":'
-                                ) ||
-                                action.content.soap.plan.includes('"plan":')
-                              ) {
-                                const parsedPlan = JSON.parse(
-                                  action.content.soap.plan
-                                );
-
-                                // If it successfully parsed and has SOAP structure, use it
-                                if (
-                                  parsedPlan &&
-                                  typeof parsedPlan === "object" &&
-                                  (parsedPlan.subjective ||
-                                    parsedPlan.objective ||
-                                    parsedPlan.assessment ||
-                                    parsedPlan.plan)
-                                ) {
-                                  parsedSoap = parsedPlan;
-                                }
-                              }
-                            } catch (e) {
-                              console.error(
-                                "Failed to parse SOAP JSON from plan field:",
-                                e
-                              );
-                            }
-                          }
-
-                          // Determine if this is a SOAP note or another template type
-                          const isSoapFormat =
-                            parsedSoap &&
-                            parsedSoap.subjective &&
-                            parsedSoap.objective &&
-                            parsedSoap.assessment &&
-                            parsedSoap.plan &&
-                            !parsedSoap.subjective.startsWith(
-                              "Generated using template:"
-                            );
-
-                          // Get template name from content if available
-                          const templateName =
-                            parsedSoap?.subjective?.startsWith(
-                              "Generated using template:"
-                            )
-                              ? parsedSoap.subjective
-                                  .replace("Generated using template:", "")
-                                  .trim()
-                              : "SOAP Notes";
                           return (
                             <Card
                               key={action.id}
@@ -1605,14 +1492,12 @@ export function CurrentCaseContent() {
                                       className="text-card-foreground font-medium cursor-pointer"
                                       onClick={(e) => e.stopPropagation()}
                                     >
-                                      {templateName} {index + 1}
+                                      {note.title} {index + 1}
                                     </label>
-                                    <Badge
-                                      className={`${isSoapFormat ? "bg-green-700/50 text-green-100" : "bg-purple-700/50 text-purple-100"} border-0`}
-                                    >
-                                      {isSoapFormat
-                                        ? "SOAP"
-                                        : parsedSoap?.objective || "Template"}
+                                    <Badge className="bg-green-700/50 text-green-100 border-0">
+                                      {note.sections.length === 1
+                                        ? "Text"
+                                        : `${note.sections.length} sections`}
                                     </Badge>
                                     <span className="text-xs text-muted-foreground ml-1">
                                       <ClientSideDate
@@ -1654,394 +1539,33 @@ export function CurrentCaseContent() {
                               </CardHeader>
                               {isSoapExpanded && (
                                 <CardContent className="p-4">
-                                  {action.content.soap &&
-                                    (isSoapFormat ? (
-                                      <div className="space-y-3">
-                                        <div className="flex items-center justify-end gap-1 mb-2">
-                                          <Button
-                                            variant="ghost"
-                                            size="sm"
-                                            onClick={() => {
-                                              // Check if all sections are currently expanded
-                                              const allExpanded = Object.values(
-                                                expandedSoapSections[
-                                                  action.id
-                                                ] || {}
-                                              ).every((expanded) => expanded);
-                                              // Toggle to opposite state
-                                              toggleAllSections(
-                                                action.id,
-                                                !allExpanded
-                                              );
+                                  <StructuredNoteView
+                                    sections={note.sections}
+                                    actions={
+                                      <>
+                                        {currentCaseId && (
+                                          <PdfActions
+                                            caseId={currentCaseId}
+                                            document={{
+                                              type: "soap_note",
+                                              id: action.id,
                                             }}
-                                            className="h-7 px-2 text-xs text-muted-foreground hover:text-muted-foreground hover:bg-muted/20"
-                                            title={
-                                              Object.values(
-                                                expandedSoapSections[
-                                                  action.id
-                                                ] || {}
-                                              ).every((expanded) => expanded)
-                                                ? "Collapse all sections"
-                                                : "Expand all sections"
-                                            }
-                                          >
-                                            {Object.values(
-                                              expandedSoapSections[action.id] ||
-                                                {}
-                                            ).every((expanded) => expanded) ? (
-                                              <>
-                                                <ChevronsUp className="h-3 w-3 mr-1" />
-                                                Collapse
-                                              </>
-                                            ) : (
-                                              <>
-                                                <ChevronsDown className="h-3 w-3 mr-1" />
-                                                Expand
-                                              </>
-                                            )}
-                                          </Button>
-                                          <Button
-                                            variant="ghost"
-                                            size="sm"
-                                            onClick={() =>
-                                              handleEditSoap(action)
-                                            }
-                                            className="h-7 px-2 text-xs text-muted-foreground hover:text-muted-foreground hover:bg-muted/20"
-                                            title="Edit SOAP notes"
-                                          >
-                                            <Edit className="h-3 w-3 mr-1" />
-                                            Edit
-                                          </Button>
-                                        </div>
-
-                                        {/* Subjective */}
-                                        <div className="border border-muted/30 rounded-lg overflow-hidden w-full">
-                                          <div
-                                            className="flex items-center justify-between bg-muted/40 px-3 py-2 cursor-pointer"
-                                            onClick={(e) => {
-                                              e.stopPropagation();
-                                              setExpandedSoapSections(
-                                                (prev) => ({
-                                                  ...prev,
-                                                  [action.id]: {
-                                                    ...prev[action.id],
-                                                    subjective:
-                                                      !prev[action.id]
-                                                        .subjective,
-                                                  },
-                                                })
-                                              );
-                                            }}
-                                          >
-                                            <h4 className="text-muted-foreground flex items-center text-sm font-medium">
-                                              <Badge className="bg-muted text-muted-foreground mr-2 h-5 w-5 flex items-center justify-center p-0">
-                                                S
-                                              </Badge>
-                                              Subjective
-                                            </h4>
-                                            <div className="flex items-center">
-                                              <Button
-                                                size="sm"
-                                                variant="ghost"
-                                                className="h-6 text-xs text-muted-foreground"
-                                                onClick={(e) => {
-                                                  e.stopPropagation();
-                                                  navigator.clipboard.writeText(
-                                                    `## Subjective\n${parsedSoap?.subjective || ""}`
-                                                  );
-                                                  toast({
-                                                    title: "Copied",
-                                                    description:
-                                                      "Subjective section copied to clipboard",
-                                                  });
-                                                }}
-                                              >
-                                                <Copy className="h-3 w-3 mr-1" />
-                                                Copy
-                                              </Button>
-                                              <Button
-                                                variant="ghost"
-                                                size="sm"
-                                                className="h-6 w-6 p-0 text-card-foreground"
-                                              >
-                                                {expandedSoapSections[action.id]
-                                                  .subjective ? (
-                                                  <ChevronUp className="h-4 w-4" />
-                                                ) : (
-                                                  <ChevronDown className="h-4 w-4" />
-                                                )}
-                                              </Button>
-                                            </div>
-                                          </div>
-                                          {expandedSoapSections[action.id]
-                                            .subjective && (
-                                            <div className="p-3 text-muted-foreground text-sm">
-                                              <MarkdownRenderer
-                                                content={
-                                                  parsedSoap?.subjective || ""
-                                                }
-                                                className="text-muted-foreground"
-                                              />
-                                            </div>
-                                          )}
-                                        </div>
-
-                                        {/* Objective */}
-                                        <div className="border border-muted/30 rounded-lg overflow-hidden w-full">
-                                          <div
-                                            className="flex items-center justify-between bg-muted/40 px-3 py-2 cursor-pointer"
-                                            onClick={(e) => {
-                                              e.stopPropagation();
-                                              setExpandedSoapSections(
-                                                (prev) => ({
-                                                  ...prev,
-                                                  [action.id]: {
-                                                    ...prev[action.id],
-                                                    objective:
-                                                      !prev[action.id]
-                                                        .objective,
-                                                  },
-                                                })
-                                              );
-                                            }}
-                                          >
-                                            <h4 className="text-muted-foreground flex items-center text-sm font-medium">
-                                              <Badge className="bg-green-600 text-white mr-2 h-5 w-5 flex items-center justify-center p-0">
-                                                O
-                                              </Badge>
-                                              Objective
-                                            </h4>
-                                            <div className="flex items-center">
-                                              <Button
-                                                size="sm"
-                                                variant="ghost"
-                                                className="h-6 text-xs text-muted-foreground"
-                                                onClick={(e) => {
-                                                  e.stopPropagation();
-                                                  navigator.clipboard.writeText(
-                                                    `## Objective\n${parsedSoap?.objective || ""}`
-                                                  );
-                                                  toast({
-                                                    title: "Copied",
-                                                    description:
-                                                      "Objective section copied to clipboard",
-                                                  });
-                                                }}
-                                              >
-                                                <Copy className="h-3 w-3 mr-1" />
-                                                Copy
-                                              </Button>
-                                              <Button
-                                                variant="ghost"
-                                                size="sm"
-                                                className="h-6 w-6 p-0 text-card-foreground"
-                                              >
-                                                {expandedSoapSections[action.id]
-                                                  .objective ? (
-                                                  <ChevronUp className="h-4 w-4" />
-                                                ) : (
-                                                  <ChevronDown className="h-4 w-4" />
-                                                )}
-                                              </Button>
-                                            </div>
-                                          </div>
-                                          {expandedSoapSections[action.id]
-                                            .objective && (
-                                            <div className="p-3 text-muted-foreground text-sm">
-                                              <MarkdownRenderer
-                                                content={
-                                                  parsedSoap?.objective || ""
-                                                }
-                                                className="text-muted-foreground"
-                                              />
-                                            </div>
-                                          )}
-                                        </div>
-
-                                        {/* Assessment */}
-                                        <div className="border border-muted/30 rounded-lg overflow-hidden w-full">
-                                          <div
-                                            className="flex items-center justify-between bg-muted/40 px-3 py-2 cursor-pointer"
-                                            onClick={(e) => {
-                                              e.stopPropagation();
-                                              setExpandedSoapSections(
-                                                (prev) => ({
-                                                  ...prev,
-                                                  [action.id]: {
-                                                    ...prev[action.id],
-                                                    assessment:
-                                                      !prev[action.id]
-                                                        .assessment,
-                                                  },
-                                                })
-                                              );
-                                            }}
-                                          >
-                                            <h4 className="text-muted-foreground flex items-center text-sm font-medium">
-                                              <Badge className="bg-purple-600 text-white mr-2 h-5 w-5 flex items-center justify-center p-0">
-                                                A
-                                              </Badge>
-                                              Assessment
-                                            </h4>
-                                            <div className="flex items-center">
-                                              <Button
-                                                size="sm"
-                                                variant="ghost"
-                                                className="h-6 text-xs text-muted-foreground"
-                                                onClick={(e) => {
-                                                  e.stopPropagation();
-                                                  navigator.clipboard.writeText(
-                                                    `## Assessment\n${parsedSoap?.assessment || ""}`
-                                                  );
-                                                  toast({
-                                                    title: "Copied",
-                                                    description:
-                                                      "Assessment section copied to clipboard",
-                                                  });
-                                                }}
-                                              >
-                                                <Copy className="h-3 w-3 mr-1" />
-                                                Copy
-                                              </Button>
-                                              <Button
-                                                variant="ghost"
-                                                size="sm"
-                                                className="h-6 w-6 p-0 text-card-foreground"
-                                              >
-                                                {expandedSoapSections[action.id]
-                                                  .assessment ? (
-                                                  <ChevronUp className="h-4 w-4" />
-                                                ) : (
-                                                  <ChevronDown className="h-4 w-4" />
-                                                )}
-                                              </Button>
-                                            </div>
-                                          </div>
-                                          {expandedSoapSections[action.id]
-                                            .assessment && (
-                                            <div className="p-3 text-muted-foreground text-sm">
-                                              <MarkdownRenderer
-                                                content={
-                                                  parsedSoap?.assessment || ""
-                                                }
-                                                className="text-muted-foreground"
-                                              />
-                                            </div>
-                                          )}
-                                        </div>
-
-                                        {/* Plan */}
-                                        <div className="border border-muted/30 rounded-lg overflow-hidden w-full">
-                                          <div
-                                            className="flex items-center justify-between bg-muted/40 px-3 py-2 cursor-pointer"
-                                            onClick={(e) => {
-                                              e.stopPropagation();
-                                              setExpandedSoapSections(
-                                                (prev) => ({
-                                                  ...prev,
-                                                  [action.id]: {
-                                                    ...prev[action.id],
-                                                    plan: !prev[action.id].plan,
-                                                  },
-                                                })
-                                              );
-                                            }}
-                                          >
-                                            <h4 className="text-muted-foreground flex items-center text-sm font-medium">
-                                              <Badge className="bg-amber-600 text-white mr-2 h-5 w-5 flex items-center justify-center p-0">
-                                                P
-                                              </Badge>
-                                              Plan
-                                            </h4>
-                                            <div className="flex items-center">
-                                              <Button
-                                                size="sm"
-                                                variant="ghost"
-                                                className="h-6 text-xs text-muted-foreground"
-                                                onClick={(e) => {
-                                                  e.stopPropagation();
-                                                  navigator.clipboard.writeText(
-                                                    `## Plan\n${parsedSoap?.plan || ""}`
-                                                  );
-                                                  toast({
-                                                    title: "Copied",
-                                                    description:
-                                                      "Plan section copied to clipboard",
-                                                  });
-                                                }}
-                                              >
-                                                <Copy className="h-3 w-3 mr-1" />
-                                                Copy
-                                              </Button>
-                                              <Button
-                                                variant="ghost"
-                                                size="sm"
-                                                className="h-6 w-6 p-0 text-card-foreground"
-                                              >
-                                                {expandedSoapSections[action.id]
-                                                  .plan ? (
-                                                  <ChevronUp className="h-4 w-4" />
-                                                ) : (
-                                                  <ChevronDown className="h-4 w-4" />
-                                                )}
-                                              </Button>
-                                            </div>
-                                          </div>
-                                          {expandedSoapSections[action.id]
-                                            .plan && (
-                                            <div className="p-3 text-muted-foreground text-sm">
-                                              <MarkdownRenderer
-                                                content={parsedSoap?.plan || ""}
-                                                className="text-muted-foreground"
-                                              />
-                                            </div>
-                                          )}
-                                        </div>
-                                      </div>
-                                    ) : (
-                                      <div className="space-y-3">
-                                        <div className="flex items-center justify-end gap-1 mb-2">
-                                          <Button
-                                            size="sm"
-                                            variant="ghost"
-                                            className="h-6 text-xs text-muted-foreground"
-                                            onClick={() => {
-                                              navigator.clipboard.writeText(
-                                                parsedSoap?.plan || ""
-                                              );
-                                              toast({
-                                                title: "Copied",
-                                                description:
-                                                  "Content copied to clipboard",
-                                              });
-                                            }}
-                                          >
-                                            <Copy className="h-3 w-3 mr-1" />
-                                            Copy
-                                          </Button>
-                                          <Button
-                                            variant="ghost"
-                                            size="sm"
-                                            onClick={() =>
-                                              handleEditSoap(action)
-                                            }
-                                            className="h-6 text-xs text-muted-foreground"
-                                            title="Edit content"
-                                          >
-                                            <Edit className="h-3 w-3 mr-1" />
-                                            Edit
-                                          </Button>
-                                        </div>
-                                        <div className="border border-muted/30 rounded-lg overflow-hidden">
-                                          <div className="p-3 text-muted-foreground text-sm">
-                                            <MarkdownRenderer
-                                              content={parsedSoap?.plan || ""}
-                                              className="text-muted-foreground"
-                                            />
-                                          </div>
-                                        </div>
-                                      </div>
-                                    ))}
+                                            defaultRecipient={ownerEmail}
+                                          />
+                                        )}
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => handleEditSoap(action)}
+                                          className="h-7 px-2 text-xs text-muted-foreground hover:text-muted-foreground hover:bg-muted/20"
+                                          title="Edit note"
+                                        >
+                                          <Edit className="h-3 w-3 mr-1" />
+                                          Edit
+                                        </Button>
+                                      </>
+                                    }
+                                  />
                                 </CardContent>
                               )}
                             </Card>
@@ -2154,7 +1678,7 @@ export function CurrentCaseContent() {
                         transcripts,{" "}
                         <span className="font-medium">
                           {
-                            actions.filter((action) => action.type === "soap")
+                            actions.filter((action) => action.type === "note")
                               .length
                           }
                         </span>{" "}
@@ -2173,7 +1697,7 @@ export function CurrentCaseContent() {
                     </div>
                     <div className="mt-3">
                       <div className="flex items-center">
-                        {actions.filter((action) => action.type === "soap")
+                        {actions.filter((action) => action.type === "note")
                           .length > 0 ? (
                           <>
                             <span className="text-2xl font-bold text-card-foreground">
@@ -2182,7 +1706,7 @@ export function CurrentCaseContent() {
                             <Badge className="ml-2 bg-success/40 text-success-foreground border-muted/30">
                               {
                                 actions.filter(
-                                  (action) => action.type === "soap"
+                                  (action) => action.type === "note"
                                 ).length
                               }{" "}
                               generated
@@ -2201,7 +1725,7 @@ export function CurrentCaseContent() {
                       </div>
                       <Progress
                         value={
-                          actions.filter((action) => action.type === "soap")
+                          actions.filter((action) => action.type === "note")
                             .length > 0
                             ? 100
                             : 0
@@ -2217,14 +1741,13 @@ export function CurrentCaseContent() {
         )}
       </div>
 
-      {/* SOAP Notes Editor Modal */}
+      {/* Note Editor Modal */}
       {editingSoapId && editingSoapData && (
-        <SoapNotesEditor
-          soapNotes={editingSoapData.action.content.soap!}
+        <StructuredNoteEditor
+          note={editingSoapData.action.content.note!}
           transcript={editingSoapData.transcript}
           onClose={handleCloseSoapEditor}
-          onUpdate={handleUpdateSoapNotes}
-          actionId={editingSoapId}
+          onSave={handleUpdateSoapNotes}
         />
       )}
 
@@ -2280,7 +1803,7 @@ export function CurrentCaseContent() {
                 type="email"
                 value={emailTo}
                 onChange={(e) => setEmailTo(e.target.value)}
-                placeholder="owner@example.com"
+                placeholder={ownerEmail || "owner@example.com"}
                 className="bg-muted/20 border-input text-foreground placeholder:text-muted-foreground focus-visible:ring-ring"
               />
             </div>
@@ -2299,7 +1822,7 @@ export function CurrentCaseContent() {
             <Button
               type="submit"
               onClick={handleSendEmail}
-              disabled={isSendingEmail || !emailTo}
+              disabled={isSendingEmail || !(emailTo || ownerEmail)}
               className="bg-primary hover:bg-primary/90 text-primary-foreground"
             >
               {isSendingEmail ? (
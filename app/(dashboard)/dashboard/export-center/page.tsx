@@ -1,143 +1,9 @@
-import { Button } from "@/src/components/ui/button"
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/src/components/ui/card"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/src/components/ui/table"
-import { CheckCircle, Download, Mail, Edit, Clock } from "lucide-react"
+import { ExportCenter } from "@/src/features/exports/components/export-center";
 
-export default function ExportCenter() {
+export default function ExportCenterPage() {
   return (
-    <div className="space-y-6">
-      <div className="flex items-center justify-between">
-        <h1 className="text-2xl font-bold">Export Center</h1>
-      </div>
-
-      <div className="grid grid-cols-2 gap-6">
-        <Card>
-          <CardHeader>
-            <CardTitle>For Review</CardTitle>
-            <CardDescription>Documents pending edits or approval</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Document</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                <TableRow>
-                  <TableCell>Fluffy's SOAP Note</TableCell>
-                  <TableCell className="flex items-center">
-                    <Clock className="mr-2 h-4 w-4 text-yellow-500" />
-                    Pending Review
-                  </TableCell>
-                  <TableCell>
-                    <Button variant="ghost" size="sm">
-                      <Edit className="mr-2 h-4 w-4" />
-                      Edit
-                    </Button>
-                  </TableCell>
-                </TableRow>
-                <TableRow>
-                  <TableCell>Max's Discharge Summary</TableCell>
-                  <TableCell className="flex items-center">
-                    <Clock className="mr-2 h-4 w-4 text-yellow-500" />
-                    Pending Review
-                  </TableCell>
-                  <TableCell>
-                    <Button variant="ghost" size="sm">
-                      <Edit className="mr-2 h-4 w-4" />
-                      Edit
-                    </Button>
-                  </TableCell>
-                </TableRow>
-              </TableBody>
-            </Table>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader>
-            <CardTitle>Ready to Export</CardTitle>
-            <CardDescription>Approved documents ready for export</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Document</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                <TableRow>
-                  <TableCell>Buddy's Vaccination Record</TableCell>
-                  <TableCell className="flex items-center">
-                    <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
-                    Approved
-                  </TableCell>
-                  <TableCell>
-                    <Button variant="ghost" size="sm">
-                      <Mail className="mr-2 h-4 w-4" />
-                      Send Email
-                    </Button>
-                    <Button variant="ghost" size="sm">
-                      <Download className="mr-2 h-4 w-4" />
-                      Download
-                    </Button>
-                  </TableCell>
-                </TableRow>
-              </TableBody>
-            </Table>
-          </CardContent>
-        </Card>
-      </div>
-
-      <Card>
-        <CardHeader>
-          <CardTitle>Export History</CardTitle>
-          <CardDescription>Previously sent or downloaded documents</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Document</TableHead>
-                <TableHead>Exported On</TableHead>
-                <TableHead>Method</TableHead>
-                <TableHead>Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              <TableRow>
-                <TableCell>Luna's Annual Checkup Summary</TableCell>
-                <TableCell>2023-06-10</TableCell>
-                <TableCell>Email</TableCell>
-                <TableCell>
-                  <Button variant="ghost" size="sm">
-                    <Download className="mr-2 h-4 w-4" />
-                    Download
-                  </Button>
-                </TableCell>
-              </TableRow>
-              <TableRow>
-                <TableCell>Charlie's Surgery Report</TableCell>
-                <TableCell>2023-06-05</TableCell>
-                <TableCell>Download</TableCell>
-                <TableCell>
-                  <Button variant="ghost" size="sm">
-                    <Download className="mr-2 h-4 w-4" />
-                    Download
-                  </Button>
-                </TableCell>
-              </TableRow>
-            </TableBody>
-          </Table>
-        </CardContent>
-      </Card>
+    <div className="flex flex-col space-y-6 py-6 bg-background">
+      <ExportCenter />
     </div>
-  )
+  );
 }
-
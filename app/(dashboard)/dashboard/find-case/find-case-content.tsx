@@ -30,7 +30,7 @@ import {
   PopoverTrigger,
 } from "@/src/components/ui/popover";
 import { Calendar } from "@/src/components/ui/calendar";
-import { format } from "date-fns";
+import { addDays, format } from "date-fns";
 import {
   Search,
   Filter,
@@ -187,7 +187,10 @@ export function FindCaseContent() {
         status: statusArray.length > 0 ? statusArray : undefined,
         type: typeArray.length > 0 ? typeArray : undefined,
         dateFrom: dateFromValue ? dateFromValue.toISOString() : undefined,
-        dateTo: dateToValue ? dateToValue.toISOString() : undefined,
+        // Up to the start of the day after the last day picked
+        dateTo: dateToValue
+          ? addDays(dateToValue, 1).toISOString()
+          : undefined,
         sortBy,
         sortOrder: sortOrder as "asc" | "desc",
         page,
@@ -30,7 +30,7 @@ import {
   PopoverTrigger,
 } from "@/src/components/ui/popover";
 import { Calendar } from "@/src/components/ui/calendar";
-import { format } from "date-fns";
+import { addDays, format } from "date-fns";
 import {
   Search,
   Filter,
@@ -179,7 +179,10 @@ export default function FindCase() {
         params.append("assignedToId", filters.assignedToId);
       if (filters.dateFrom)
         params.append("dateFrom", filters.dateFrom.toISOString());
-      if (filters.dateTo) params.append("dateTo", filters.dateTo.toISOString());
+      // The picker gives the start of the last day; the search ends at the
+      // start of the next one, so cases on the last day are included
+      if (filters.dateTo)
+        params.append("dateTo", addDays(filters.dateTo, 1).toISOString());
       params.append("sortBy", filters.sortBy);
       params.append("sortOrder", filters.sortOrder);
       params.append("page", filters.page.toString());
@@ -187,8 +190,9 @@ export default function FindCase() {
 
       // Special handling for tabs
       if (activeTab === "my") {
-        // For "My Cases" tab - filter by current user
-        params.append("assignedToId", "currentUser");
+        // For "My Cases" tab - filter by current user, whatever assignee
+        // filter is set
+        params.set("assignedToId", "currentUser");
       } else if (activeTab === "draft") {
         // For "Draft" tab - show only draft status
         params.delete("status"); // Clear any existing status filters
@@ -0,0 +1,13 @@
+import { ApiTokens } from "@/src/features/settings/components/api-tokens"
+
+export default function ApiTokenSettings() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">API Tokens</h1>
+      </div>
+
+      <ApiTokens />
+    </div>
+  )
+}
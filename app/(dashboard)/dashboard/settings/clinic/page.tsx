@@ -0,0 +1,13 @@
+import { ClinicSettingsForm } from "@/src/features/settings/components/clinic-settings-form"
+
+export default function ClinicSettings() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Clinic Settings</h1>
+      </div>
+
+      <ClinicSettingsForm />
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import { PimsConnections } from "@/src/features/settings/components/pims-connections"
+
+export default function PimsSettings() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">PIMS Integrations</h1>
+      </div>
+
+      <PimsConnections />
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import { TranscriptionSettingsForm } from "@/src/features/settings/components/transcription-settings-form"
+
+export default function TranscriptionSettings() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Transcription Settings</h1>
+      </div>
+
+      <TranscriptionSettingsForm />
+    </div>
+  )
+}
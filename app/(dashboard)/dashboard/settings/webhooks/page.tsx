@@ -0,0 +1,13 @@
+import { WebhookSubscriptions } from "@/src/features/settings/components/webhook-subscriptions"
+
+export default function WebhookSettings() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Webhooks</h1>
+      </div>
+
+      <WebhookSubscriptions />
+    </div>
+  )
+}
@@ -19,6 +19,8 @@ import { Badge } from "@/src/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
 import { ScrollArea } from "@/src/components/ui/scroll-area";
 import { MarkdownRenderer } from "@/src/components/ui/markdown";
+import { StructuredNoteView } from "@/src/features/notes/components/structured-note-view";
+import { noteSectionsOf } from "@/src/lib/notes/structured-note";
 
 interface CaseWrapperProps {
   appointmentId?: string;
@@ -29,10 +31,6 @@ export function CaseWrapper({ appointmentId }: CaseWrapperProps) {
   const { loadAppointmentData, reset } = useCaseStore();
   const searchParams = useSearchParams();
   const isFromAppointments = searchParams.get("from") === "appointments";
-  const [expandedSoapSections, setExpandedSoapSections] = useState<
-    Record<string, Record<string, boolean>>
-  >({});
-
   // If an appointmentId is provided, we're in view/edit mode for an existing case
   // If not, we're in creation mode for a new case
   const {
@@ -50,26 +48,6 @@ export function CaseWrapper({ appointmentId }: CaseWrapperProps) {
         // Load the appointment data into the case store
         loadAppointmentData(appointment);
         setIsLoading(false);
-
-        // Initialize expanded state for SOAP sections
-        if (appointment.rawData?.soap_notes) {
-          const soapNotes = appointment.rawData.soap_notes || [];
-          const initialExpandedState: Record<
-            string,
-            Record<string, boolean>
-          > = {};
-
-          soapNotes.forEach((note) => {
-            initialExpandedState[note.id] = {
-              subjective: true,
-              objective: true,
-              assessment: true,
-              plan: true,
-            };
-          });
-
-          setExpandedSoapSections(initialExpandedState);
-        }
       }
     } else {
       // We're creating a new case, reset the store
@@ -220,60 +198,15 @@ export function CaseWrapper({ appointmentId }: CaseWrapperProps) {
         </Card>
       )}
 
-      {/* SOAP Notes Section */}
+      {/* Notes Section */}
       {soapNotes.length > 0 && (
         <Card className="bg-card border-border shadow-md">
           <CardHeader className="p-6 pb-4">
             <div className="flex items-center justify-between">
               <CardTitle className="text-lg font-medium text-card-foreground flex items-center">
                 <ClipboardCheck className="h-5 w-5 mr-2 text-muted-foreground" />
-                SOAP Notes
+                Notes
               </CardTitle>
-              <div className="flex items-center gap-2">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => {
-                    // Toggle all sections for all SOAP notes
-                    const allExpanded = soapNotes.every((note) => {
-                      const sections = expandedSoapSections[note.id];
-                      return (
-                        sections &&
-                        sections.subjective &&
-                        sections.objective &&
-                        sections.assessment &&
-                        sections.plan
-                      );
-                    });
-
-                    const newExpandedState = { ...expandedSoapSections };
-                    soapNotes.forEach((note) => {
-                      newExpandedState[note.id] = {
-                        subjective: !allExpanded,
-                        objective: !allExpanded,
-                        assessment: !allExpanded,
-                        plan: !allExpanded,
-                      };
-                    });
-
-                    setExpandedSoapSections(newExpandedState);
-                  }}
-                  className="h-8 px-3 text-sm text-muted-foreground hover:text-foreground hover:bg-muted/50"
-                >
-                  {soapNotes.every((note) => {
-                    const sections = expandedSoapSections[note.id];
-                    return (
-                      sections &&
-                      sections.subjective &&
-                      sections.objective &&
-                      sections.assessment &&
-                      sections.plan
-                    );
-                  })
-                    ? "Collapse All"
-                    : "Expand All"}
-                </Button>
-              </div>
             </div>
           </CardHeader>
           <CardContent className="p-6">
@@ -287,11 +220,8 @@ export function CaseWrapper({ appointmentId }: CaseWrapperProps) {
                     <div className="flex justify-between items-center w-full">
                       <div className="flex items-center gap-2 flex-1">
                         <span className="text-card-foreground font-medium">
-                          SOAP Note {index + 1}
+                          {note.title} {index + 1}
                         </span>
-                        <Badge className="bg-green-700/50 text-green-100 border-0">
-                          SOAP
-                        </Badge>
                         <span className="text-xs text-muted-foreground ml-1">
                           {formatDistanceToNow(new Date(note.created_at), {
                             addSuffix: true,
@@ -302,127 +232,9 @@ export function CaseWrapper({ appointmentId }: CaseWrapperProps) {
                   </CardHeader>
 
                   <CardContent className="p-4">
-                    <div className="space-y-3">
-                      {/* Subjective Section */}
-                      <div className="border border-muted/30 rounded-lg overflow-hidden">
-                        <div
-                          className="flex items-center justify-between bg-muted/40 px-3 py-2 cursor-pointer"
-                          onClick={() => {
-                            setExpandedSoapSections((prev) => ({
-                              ...prev,
-                              [note.id]: {
-                                ...prev[note.id],
-                                subjective: !prev[note.id]?.subjective,
-                              },
-                            }));
-                          }}
-                        >
-                          <h4 className="text-muted-foreground flex items-center text-sm font-medium">
-                            <Badge className="bg-muted text-muted-foreground mr-2 h-5 w-5 flex items-center justify-center p-0">
-                              S
-                            </Badge>
-                            Subjective
-                          </h4>
-                        </div>
-                        {expandedSoapSections[note.id]?.subjective && (
-                          <div className="p-3 bg-card">
-                            <MarkdownRenderer
-                              content={note.subjective || "No subjective data"}
-                            />
-                          </div>
-                        )}
-                      </div>
-
-                      {/* Objective Section */}
-                      <div className="border border-muted/30 rounded-lg overflow-hidden">
-                        <div
-                          className="flex items-center justify-between bg-muted/40 px-3 py-2 cursor-pointer"
-                          onClick={() => {
-                            setExpandedSoapSections((prev) => ({
-                              ...prev,
-                              [note.id]: {
-                                ...prev[note.id],
-                                objective: !prev[note.id]?.objective,
-                              },
-                            }));
-                          }}
-                        >
-                          <h4 className="text-muted-foreground flex items-center text-sm font-medium">
-                            <Badge className="bg-success text-success-foreground mr-2 h-5 w-5 flex items-center justify-center p-0">
-                              O
-                            </Badge>
-                            Objective
-                          </h4>
-                        </div>
-                        {expandedSoapSections[note.id]?.objective && (
-                          <div className="p-3 bg-card">
-                            <MarkdownRenderer
-                              content={note.objective || "No objective data"}
-                            />
-                          </div>
-                        )}
-                      </div>
-
-                      {/* Assessment Section */}
-                      <div className="border border-muted/30 rounded-lg overflow-hidden">
-                        <div
-                          className="flex items-center justify-between bg-muted/40 px-3 py-2 cursor-pointer"
-                          onClick={() => {
-                            setExpandedSoapSections((prev) => ({
-                              ...prev,
-                              [note.id]: {
-                                ...prev[note.id],
-                                assessment: !prev[note.id]?.assessment,
-                              },
-                            }));
-                          }}
-                        >
-                          <h4 className="text-muted-foreground flex items-center text-sm font-medium">
-                            <Badge className="bg-info text-info-foreground mr-2 h-5 w-5 flex items-center justify-center p-0">
-                              A
-                            </Badge>
-                            Assessment
-                          </h4>
-                        </div>
-                        {expandedSoapSections[note.id]?.assessment && (
-                          <div className="p-3 bg-card">
-                            <MarkdownRenderer
-                              content={note.assessment || "No assessment data"}
-                            />
-                          </div>
-                        )}
-                      </div>
-
-                      {/* Plan Section */}
-                      <div className="border border-muted/30 rounded-lg overflow-hidden">
-                        <div
-                          className="flex items-center justify-between bg-muted/40 px-3 py-2 cursor-pointer"
-                          onClick={() => {
-                            setExpandedSoapSections((prev) => ({
-                              ...prev,
-                              [note.id]: {
-                                ...prev[note.id],
-                                plan: !prev[note.id]?.plan,
-                              },
-                            }));
-                          }}
-                        >
-                          <h4 className="text-muted-foreground flex items-center text-sm font-medium">
-                            <Badge className="bg-warning text-warning-foreground mr-2 h-5 w-5 flex items-center justify-center p-0">
-                              P
-                            </Badge>
-                            Plan
-                          </h4>
-                        </div>
-                        {expandedSoapSections[note.id]?.plan && (
-                          <div className="p-3 bg-card">
-                            <MarkdownRenderer
-                              content={note.plan || "No plan data"}
-                            />
-                          </div>
-                        )}
-                      </div>
-                    </div>
+                    <StructuredNoteView
+                      sections={noteSectionsOf(note.sections)}
+                    />
                   </CardContent>
                 </Card>
               ))}
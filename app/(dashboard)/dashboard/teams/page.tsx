@@ -1,155 +1,28 @@
-import { Button } from "@/src/components/ui/button"
-import { Input } from "@/src/components/ui/input"
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/src/components/ui/card"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/src/components/ui/table"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/src/components/ui/select"
-import { UserPlus, Mail, Edit } from "lucide-react"
+import { Alert, AlertDescription } from "@/src/components/ui/alert"
+import { AlertCircle } from "lucide-react"
+import { TeamManagement } from "@/src/features/teams/components/team-management"
+
+export default function Teams({
+  searchParams,
+}: {
+  searchParams: { error?: string }
+}) {
+  const { error } = searchParams
 
-export default function Teams() {
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold">Teams</h1>
-        <Button>
-          <UserPlus className="mr-2 h-4 w-4" />
-          Invite New Member
-        </Button>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Clinic Team Members</CardTitle>
-          <CardDescription>Manage your clinic's team and their roles</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Name</TableHead>
-                <TableHead>Email</TableHead>
-                <TableHead>Role</TableHead>
-                <TableHead>Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              <TableRow>
-                <TableCell>Dr. Emily Smith</TableCell>
-                <TableCell>emily.smith@vetclinic.com</TableCell>
-                <TableCell>
-                  <Select defaultValue="admin">
-                    <SelectTrigger className="w-[180px]">
-                      <SelectValue placeholder="Select role" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="admin">Admin</SelectItem>
-                      <SelectItem value="editor">Editor</SelectItem>
-                      <SelectItem value="viewer">Viewer</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </TableCell>
-                <TableCell>
-                  <Button variant="ghost" size="sm">
-                    <Mail className="mr-2 h-4 w-4" />
-                    Email
-                  </Button>
-                  <Button variant="ghost" size="sm">
-                    <Edit className="mr-2 h-4 w-4" />
-                    Edit
-                  </Button>
-                </TableCell>
-              </TableRow>
-              <TableRow>
-                <TableCell>Dr. Michael Johnson</TableCell>
-                <TableCell>michael.johnson@vetclinic.com</TableCell>
-                <TableCell>
-                  <Select defaultValue="editor">
-                    <SelectTrigger className="w-[180px]">
-                      <SelectValue placeholder="Select role" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="admin">Admin</SelectItem>
-                      <SelectItem value="editor">Editor</SelectItem>
-                      <SelectItem value="viewer">Viewer</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </TableCell>
-                <TableCell>
-                  <Button variant="ghost" size="sm">
-                    <Mail className="mr-2 h-4 w-4" />
-                    Email
-                  </Button>
-                  <Button variant="ghost" size="sm">
-                    <Edit className="mr-2 h-4 w-4" />
-                    Edit
-                  </Button>
-                </TableCell>
-              </TableRow>
-              <TableRow>
-                <TableCell>Sarah Thompson</TableCell>
-                <TableCell>sarah.thompson@vetclinic.com</TableCell>
-                <TableCell>
-                  <Select defaultValue="viewer">
-                    <SelectTrigger className="w-[180px]">
-                      <SelectValue placeholder="Select role" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="admin">Admin</SelectItem>
-                      <SelectItem value="editor">Editor</SelectItem>
-                      <SelectItem value="viewer">Viewer</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </TableCell>
-                <TableCell>
-                  <Button variant="ghost" size="sm">
-                    <Mail className="mr-2 h-4 w-4" />
-                    Email
-                  </Button>
-                  <Button variant="ghost" size="sm">
-                    <Edit className="mr-2 h-4 w-4" />
-                    Edit
-                  </Button>
-                </TableCell>
-              </TableRow>
-            </TableBody>
-          </Table>
-        </CardContent>
-      </Card>
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Invite New Team Member</CardTitle>
-          <CardDescription>Send an invitation to a new team member</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <form className="space-y-4">
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <label htmlFor="name">Name</label>
-                <Input id="name" placeholder="Enter name" />
-              </div>
-              <div className="space-y-2">
-                <label htmlFor="email">Email</label>
-                <Input id="email" type="email" placeholder="Enter email" />
-              </div>
-            </div>
-            <div className="space-y-2">
-              <label htmlFor="role">Role</label>
-              <Select>
-                <SelectTrigger id="role">
-                  <SelectValue placeholder="Select role" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="admin">Admin</SelectItem>
-                  <SelectItem value="editor">Editor</SelectItem>
-                  <SelectItem value="viewer">Viewer</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <Button type="submit">Send Invitation</Button>
-          </form>
-        </CardContent>
-      </Card>
+      <TeamManagement />
     </div>
   )
 }
-
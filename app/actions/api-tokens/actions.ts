@@ -0,0 +1,154 @@
+"use server";
+
+/**
+ * Personal access token server actions
+ * Members create tokens for the REST API in their active clinic, scoped to
+ * what a script needs, and revoke them. A token acts as its user: it can
+ * never do more in the clinic than the user can in the app.
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { requireClinicContext } from "../common/clinic";
+import { personalAccessTokenSchema } from "../common/validation";
+import { generateAccessToken } from "@/src/lib/api/tokens";
+import type { PersonalAccessToken, PersonalAccessTokenInput } from "../types";
+import type { Tables } from "@/database.types";
+
+const SETTINGS_PATH = "/dashboard/settings/api-tokens";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A token without its hash, for the browser
+function toPersonalAccessToken({
+  token_hash: _tokenHash,
+  ...row
+}: Tables<"personal_access_tokens">): PersonalAccessToken {
+  return row;
+}
+
+/**
+ * Gets the user's access tokens for the active clinic, newest first
+ */
+export async function getPersonalAccessTokens() {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: tokens, error } = await supabase
+      .from("personal_access_tokens")
+      .select("*")
+      .eq("user_id", context.userId)
+      .eq("clinic_id", context.clinicId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      success: true,
+      tokens: (tokens || []).map(toPersonalAccessToken),
+    };
+  } catch (error) {
+    console.error("Failed to get access tokens:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to get access tokens",
+    };
+  }
+}
+
+/**
+ * Creates an access token for the active clinic
+ * The token is returned only this once; just its hash is stored
+ */
+export async function createPersonalAccessToken(
+  input: PersonalAccessTokenInput
+) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const parsed = personalAccessTokenSchema.parse(input);
+    const { token, tokenHash, tokenPrefix } = generateAccessToken();
+
+    const supabase = await createClient();
+    const { data: created, error } = await supabase
+      .from("personal_access_tokens")
+      .insert({
+        user_id: context.userId,
+        clinic_id: context.clinicId,
+        name: parsed.name,
+        token_prefix: tokenPrefix,
+        token_hash: tokenHash,
+        scopes: Array.from(new Set(parsed.scopes)),
+        expires_at: parsed.expiresInDays
+          ? new Date(Date.now() + parsed.expiresInDays * DAY_MS).toISOString()
+          : null,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    revalidatePath(SETTINGS_PATH);
+
+    return {
+      success: true,
+      token: toPersonalAccessToken(created),
+      secret: token,
+    };
+  } catch (error) {
+    console.error("Failed to create access token:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to create access token",
+    };
+  }
+}
+
+/**
+ * Revokes one of the user's access tokens; requests with it fail from now on
+ */
+export async function revokePersonalAccessToken(tokenId: string) {
+  try {
+    // Resolve the user's active clinic
+    await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: revoked, error } = await supabase.rpc(
+      "revoke_personal_access_token",
+      { token_id: tokenId }
+    );
+
+    if (error) {
+      throw error;
+    }
+    if (!revoked) {
+      throw new Error("Access token not found or unauthorized");
+    }
+
+    revalidatePath(SETTINGS_PATH);
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("Failed to revoke access token:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to revoke access token",
+    };
+  }
+}
@@ -7,6 +7,7 @@
 
 import { createClient } from "@/src/lib/supabase/server";
 import { Tables, Database } from "@/database.types";
+import { caseVisibilityFilter, getClinicContext } from "../common/clinic";
 
 /**
  * Debug function to list all cases in the database
@@ -17,19 +18,20 @@ export async function debugListAllCases() {
     console.log("*** DEBUG: Listing all cases for current user ***");
     const supabase = await createClient();
     
-    // Get current user
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    // Resolve the user's active clinic
+    const context = await getClinicContext();
     
-    if (authError || !user) {
-      console.error("Authentication failed:", authError);
+    if (!context) {
+      console.error("Authentication failed: no signed-in user");
       return [];
     }
 
-    // Get all cases for the user sorted by id
+    // Get all cases visible to the user in their clinic sorted by id
     const { data: cases, error } = await supabase
       .from("cases")
       .select("*")
-      .eq("user_id", user.id)
+      .eq("clinic_id", context.clinicId)
+      .or(caseVisibilityFilter(context))
       .order("id", { ascending: false })
       .limit(20);
 
@@ -56,13 +58,11 @@ interface AppointmentQueryResult {
   status: Database["public"]["Enums"]["CaseStatus"] | null;
   created_at: string | null;
   updated_at: string | null;
-  patients:
-    | {
-        id: string;
-        name: string | null;
-        owner_name: string | null;
-      }[]
-    | null;
+  patients: {
+    id: string;
+    name: string | null;
+    owner_name: string | null;
+  } | null;
   transcriptions: { id: string }[] | null;
   soap_notes: { id: string }[] | null;
   generations: { id: string }[] | null;
@@ -133,11 +133,11 @@ export async function getAppointments({
     });
     const supabase = await createClient();
     
-    // Get current user
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    // Resolve the user's active clinic
+    const context = await getClinicContext();
     
-    if (authError || !user) {
-      console.error("Authentication failed:", authError);
+    if (!context) {
+      console.error("Authentication failed: no signed-in user");
       return {
         appointments: [],
         totalCount: 0,
@@ -150,7 +150,7 @@ export async function getAppointments({
     const from = page * pageSize;
     const to = from + pageSize - 1;
 
-    // First, build the query to fetch cases with related patient data, filtered by user
+    // First, build the query to fetch cases with related patient data, scoped to the active clinic
     let query = supabase
       .from("cases")
       .select(
@@ -178,7 +178,8 @@ export async function getAppointments({
         )
       `
       )
-      .eq("user_id", user.id)
+      .eq("clinic_id", context.clinicId)
+      .or(caseVisibilityFilter(context))
       .order("created_at", { ascending: false });
 
     // Add console log to debug the query
@@ -235,11 +236,12 @@ export async function getAppointments({
       console.log("Sample case data:", JSON.stringify(casesData[0], null, 2));
     }
 
-    // Get total count for pagination (filtered by user)
+    // Get total count for pagination (scoped to the active clinic)
     const { count: totalCount, error: countError } = await supabase
       .from("cases")
       .select("id", { count: "exact", head: true })
-      .eq("user_id", user.id);
+      .eq("clinic_id", context.clinicId)
+      .or(caseVisibilityFilter(context));
 
     if (countError) {
       console.error("Error getting count:", countError);
@@ -282,11 +284,8 @@ export async function getAppointments({
       appointments = casesData
         .map((caseItem) => {
           try {
-            // Get the first patient from the patients array
-            const patient =
-              caseItem.patients && caseItem.patients.length > 0
-                ? caseItem.patients[0]
-                : null;
+            // Each case references a single patient
+            const patient = caseItem.patients;
 
             // Format the date and time from created_at
             const dateTime = caseItem.created_at
@@ -377,28 +376,36 @@ export async function getAppointmentById(id: string) {
     console.log("Server action: getAppointmentById called for ID:", id);
     const supabase = await createClient();
     
-    // Get current user
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    // Resolve the user's active clinic
+    const context = await getClinicContext();
     
-    if (authError || !user) {
-      console.error("Authentication failed:", authError);
+    if (!context) {
+      console.error("Authentication failed: no signed-in user");
       throw new Error("You must be logged in to view appointments");
     }
 
     // Define the return type for the query
     type CaseWithRelations = Tables<"cases"> & {
-      patients: Array<Pick<Tables<"patients">, "id" | "name" | "owner_name">>;
+      patients: Pick<Tables<"patients">, "id" | "name" | "owner_name"> | null;
       transcriptions: Array<
-        Pick<Tables<"transcriptions">, "id" | "transcript" | "created_at">
+        Pick<
+          Tables<"transcriptions">,
+          | "id"
+          | "transcript"
+          | "created_at"
+          | "audio_file_id"
+          | "processing_status"
+          | "segments"
+          | "speaker_labels"
+        >
       >;
       soap_notes: Array<
         Pick<
           Tables<"soap_notes">,
           | "id"
-          | "subjective"
-          | "objective"
-          | "assessment"
-          | "plan"
+          | "title"
+          | "template_id"
+          | "sections"
           | "created_at"
           | "updated_at"
         >
@@ -408,7 +415,7 @@ export async function getAppointmentById(id: string) {
       >;
     };
 
-    // Query the case with the given ID, including related data (filtered by user)
+    // Query the case with the given ID, including related data (scoped to the active clinic)
     const { data: caseData, error: caseError } = await supabase
       .from("cases")
       .select(
@@ -428,14 +435,17 @@ export async function getAppointmentById(id: string) {
         transcriptions (
           id,
           transcript,
-          created_at
+          created_at,
+          audio_file_id,
+          processing_status,
+          segments,
+          speaker_labels
         ),
         soap_notes (
           id,
-          subjective,
-          objective,
-          assessment,
-          plan,
+          title,
+          template_id,
+          sections,
           created_at,
           updated_at
         ),
@@ -448,7 +458,8 @@ export async function getAppointmentById(id: string) {
       `
       )
       .eq("id", id)
-      .eq("user_id", user.id)
+      .eq("clinic_id", context.clinicId)
+      .or(caseVisibilityFilter(context))
       .single();
 
     if (caseError) {
@@ -471,10 +482,11 @@ export async function getAppointmentById(id: string) {
 
     // Format the appointment data
     const dateTime = new Date(typedCaseData.created_at ?? new Date());
-    const patient =
-      typedCaseData.patients && typedCaseData.patients.length > 0
-        ? typedCaseData.patients[0]
-        : { id: null, name: "Unknown Patient", owner_name: "Unknown Owner" };
+    const patient = typedCaseData.patients || {
+      id: null,
+      name: "Unknown Patient",
+      owner_name: "Unknown Owner",
+    };
 
     // Get user data (provider) from patient's owner_name
     const doctorName = patient.owner_name || "Unassigned";
@@ -565,15 +577,15 @@ export async function getUpcomingAppointments() {
   const supabase = await createClient();
 
   try {
-    // Get current user
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    // Resolve the user's active clinic
+    const context = await getClinicContext();
     
-    if (authError || !user) {
-      console.error("Authentication failed:", authError);
+    if (!context) {
+      console.error("Authentication failed: no signed-in user");
       return [];
     }
     
-    // Query the cases table for upcoming appointments with related patient data (filtered by user)
+    // Query the cases table for upcoming appointments with related patient data (scoped to the active clinic)
     const { data: casesData, error: casesError } = await supabase
       .from("cases")
       .select(
@@ -589,7 +601,8 @@ export async function getUpcomingAppointments() {
         )
       `
       )
-      .eq("user_id", user.id)
+      .eq("clinic_id", context.clinicId)
+      .or(caseVisibilityFilter(context))
       .order("created_at", { ascending: true })
       .limit(5);
 
@@ -604,16 +617,13 @@ export async function getUpcomingAppointments() {
         id: string;
         type: Database["public"]["Enums"]["CaseType"] | null;
         created_at: string | null;
-        patients:
-          | {
-              id: string;
-              name: string | null;
-              owner_name: string | null;
-            }[]
-          | null;
+        patients: {
+          id: string;
+          name: string | null;
+          owner_name: string | null;
+        } | null;
       }) => {
-        const patient =
-          item.patients && item.patients.length > 0 ? item.patients[0] : null;
+        const patient = item.patients;
 
         const dateTime = new Date(item.created_at || new Date());
 
@@ -0,0 +1,186 @@
+"use server";
+
+/**
+ * Audio recording server actions
+ * Tracks raw consult recordings uploaded to storage and serves them back for playback
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { requireClinicContext } from "../common/clinic";
+import { audioFileSchema } from "../common/validation";
+import { TablesInsert } from "@/database.types";
+import { AUDIO_BUCKET } from "@/src/lib/constants";
+import type { AudioFile, AudioFileInput } from "../types";
+
+// Signed playback links stay valid for an hour
+const PLAYBACK_URL_TTL_SECONDS = 60 * 60;
+
+// Subtypes whose usual file extension differs from the MIME subtype
+const FORMAT_EXTENSIONS: Record<string, string> = {
+  mpeg: "mp3",
+  mp4: "m4a",
+  "x-m4a": "m4a",
+  "x-wav": "wav",
+};
+
+/**
+ * File extension for a recording's MIME type, e.g. "audio/webm;codecs=opus" -> "webm"
+ */
+function extensionForFormat(format: string) {
+  const subtype = format.split(";")[0].split("/")[1] || "webm";
+  return FORMAT_EXTENSIONS[subtype] || subtype;
+}
+
+/**
+ * Create the audio_files row for a recording before it is uploaded
+ * Returns the storage path the client should upload the audio to
+ */
+export async function createAudioFile(audioData: AudioFileInput) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const parsedData = audioFileSchema.parse(audioData);
+
+    // Recordings are stored under their clinic so storage access follows membership
+    const id = crypto.randomUUID();
+    const filePath = `${context.clinicId}/${id}.${extensionForFormat(parsedData.format)}`;
+
+    const insertData: TablesInsert<"audio_files"> = {
+      ...parsedData,
+      id,
+      file_path: filePath,
+      clinic_id: context.clinicId,
+      uploaded_by: context.userId,
+      upload_status: "pending",
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+
+    const supabase = await createClient();
+    const { data: audioFile, error } = await supabase
+      .from("audio_files")
+      .insert(insertData)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      success: true,
+      audioFile: audioFile as AudioFile,
+    };
+  } catch (error) {
+    console.error("Failed to create audio file:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to create audio file",
+    };
+  }
+}
+
+/**
+ * Record the outcome of a recording's upload
+ */
+export async function completeAudioUpload(
+  audioFileId: string,
+  succeeded: boolean = true
+) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: audioFile, error } = await supabase
+      .from("audio_files")
+      .update({
+        upload_status: succeeded ? "uploaded" : "failed",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", audioFileId)
+      .eq("clinic_id", context.clinicId)
+      .select("*, transcriptions!audio_files_transcription_id_fkey(case_id)")
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const { transcriptions, ...audioRecord } = audioFile;
+    if (transcriptions?.case_id) {
+      revalidatePath(`/dashboard/case/${transcriptions.case_id}`);
+    }
+
+    return {
+      success: true,
+      audioFile: audioRecord as AudioFile,
+    };
+  } catch (error) {
+    console.error("Failed to complete audio upload:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to complete audio upload",
+    };
+  }
+}
+
+/**
+ * Get a short-lived signed URL for playing back a recording
+ * Access follows the case of the recording's transcription
+ */
+export async function getAudioPlaybackUrl(audioFileId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: audioFile, error } = await supabase
+      .from("audio_files")
+      .select("*")
+      .eq("id", audioFileId)
+      .eq("clinic_id", context.clinicId)
+      .single();
+
+    if (error || !audioFile) {
+      throw new Error("Recording not found or unauthorized");
+    }
+
+    if (audioFile.upload_status !== "uploaded") {
+      throw new Error(
+        audioFile.upload_status === "failed"
+          ? "This recording failed to upload"
+          : "This recording is still uploading"
+      );
+    }
+
+    const { data: signedUrl, error: urlError } = await supabase.storage
+      .from(AUDIO_BUCKET)
+      .createSignedUrl(audioFile.file_path, PLAYBACK_URL_TTL_SECONDS);
+
+    if (urlError || !signedUrl) {
+      throw urlError || new Error("Failed to sign recording URL");
+    }
+
+    return {
+      success: true,
+      url: signedUrl.signedUrl,
+      audioFile: audioFile as AudioFile,
+    };
+  } catch (error) {
+    console.error("Failed to get audio playback URL:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to get audio playback URL",
+    };
+  }
+}
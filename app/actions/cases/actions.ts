@@ -8,16 +8,104 @@
 import { createClient } from "@/src/lib/supabase/server";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
-import { Enums, TablesUpdate, TablesInsert } from "@/database.types";
+import { Enums, Json, Tables, TablesUpdate, TablesInsert } from "@/database.types";
 import {
   updateCaseSchema,
+  caseSearchSchema,
   ClientCaseAction,
   CreateCaseInput,
 } from "../common/validation";
 import { caseActionSchema } from "../common/validation";
+import {
+  caseVisibilityFilter,
+  getClinicContext,
+  requireCaseAccess,
+} from "../common/clinic";
+import { emitWebhookEvent, toWebhookCase } from "../webhooks/emit";
+import { clinicMemberNames } from "../exports/documents";
+import type {
+  CaseSearchParams,
+  CaseSearchResult,
+  CaseSearchStatus,
+  ClinicContext,
+  PaginationMeta,
+} from "../types";
+
+// Columns of the case_search view that the Find Case sort options map to
+const CASE_SEARCH_SORT_COLUMNS = {
+  dateTime: "created_at",
+  updatedAt: "updated_at",
+  name: "patient_name",
+} as const;
+
+// PostgREST filter for each Find Case status. Drafts are ongoing cases with
+// nothing recorded yet; once a transcription exists the case is in progress.
+const CASE_SEARCH_STATUS_FILTERS: Record<CaseSearchStatus, string> = {
+  draft: "and(or(status.eq.ongoing,status.is.null),transcription_count.eq.0)",
+  in_progress:
+    "and(or(status.eq.ongoing,status.is.null),transcription_count.gt.0)",
+  completed: "status.in.(completed,reviewed)",
+};
+
+/**
+ * Escapes LIKE wildcards so ilike compares a value case-insensitively but
+ * otherwise exactly
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
 
 /**
- * Creates a new case with a patient
+ * Creates a client for the owner of a patient created with a case, so the
+ * patient is linked to a client record
+ * The case form only has the owner's name, which does not identify a person:
+ * an existing client with the same name may be someone else, so one is never
+ * reused. Returns null when there is no owner name or the client cannot be
+ * saved.
+ */
+async function createOwnerClient(
+  clinicId: string,
+  ownerName: string
+): Promise<string | null> {
+  const name = ownerName.trim();
+  if (!name) {
+    return null;
+  }
+
+  const supabase = await createClient();
+  const { data: newClient, error } = await supabase
+    .from("clients")
+    .insert({
+      clinic_id: clinicId,
+      name,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Failed to create client:", error);
+    return null;
+  }
+
+  console.log(`Created new client with ID: ${newClient.id}`);
+  revalidatePath("/dashboard/clients");
+  return newClient.id;
+}
+
+/**
+ * Derives the Find Case status for a row of the case_search view
+ */
+function toCaseSearchStatus(row: Tables<"case_search">): CaseSearchStatus {
+  if (row.status === "completed" || row.status === "reviewed") {
+    return "completed";
+  }
+  return (row.transcription_count || 0) > 0 ? "in_progress" : "draft";
+}
+
+/**
+ * Creates a new case for a new or existing patient
  * Used in the current-case form component
  */
 export async function createCase(data: CreateCaseInput) {
@@ -27,26 +115,91 @@ export async function createCase(data: CreateCaseInput) {
       "====================== CASE CREATION START ======================"
     );
 
-    // Create Supabase client and get current user
+    // Create Supabase client and resolve the user's active clinic
     const supabase = await createClient();
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    const context = await getClinicContext();
 
-    if (authError || !user) {
-      console.error("Authentication failed:", authError);
+    if (!context) {
+      console.error("Authentication failed: no signed-in user");
       return {
         success: false,
         error: "You must be logged in to create a case",
       };
     }
 
-    console.log("Supabase client created, user authenticated:", user.id);
+    console.log(
+      `Supabase client created, user ${context.userId} in clinic ${context.clinicId}`
+    );
+
+    // First, resolve the patient: an explicitly selected one, an existing
+    // patient with the same name and owner, or a new record
+    let patient: Tables<"patients"> | null = null;
+
+    if (data.patientId) {
+      const { data: existingPatient, error: patientError } = await supabase
+        .from("patients")
+        .select("*")
+        .eq("id", data.patientId)
+        .eq("clinic_id", context.clinicId)
+        .single();
+
+      if (patientError || !existingPatient) {
+        return {
+          success: false,
+          error: "Patient not found",
+        };
+      }
+      patient = existingPatient;
+    } else {
+      const { data: matchingPatients } = await supabase
+        .from("patients")
+        .select("*")
+        .eq("clinic_id", context.clinicId)
+        .ilike("name", escapeLikePattern(data.name))
+        .ilike("owner_name", escapeLikePattern(data.assignedTo))
+        .limit(2);
+
+      // Only reuse an unambiguous match; anything else gets a new record
+      if (matchingPatients && matchingPatients.length === 1) {
+        patient = matchingPatients[0];
+        console.log(`Reusing existing patient with ID: ${patient.id}`);
+      } else {
+        const patientData: TablesInsert<"patients"> = {
+          name: data.name,
+          owner_name: data.assignedTo,
+          client_id: await createOwnerClient(
+            context.clinicId,
+            data.assignedTo
+          ),
+          clinic_id: context.clinicId,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        };
+
+        const { data: newPatient, error: patientError } = await supabase
+          .from("patients")
+          .insert(patientData)
+          .select()
+          .single();
+
+        if (patientError) {
+          console.error("Failed to create patient:", patientError);
+          // Don't return error here, the case can still be created
+        } else {
+          patient = newPatient;
+          console.log(`Created new patient with ID: ${newPatient.id}`);
+        }
+      }
+    }
 
-    // First, create the case with user_id
+    // Then, create the case with user_id, clinic_id and patient_id
     const caseData: TablesInsert<"cases"> = {
       type: data.type,
       status: data.status,
       visibility: data.visibility,
-      user_id: user.id,
+      user_id: context.userId,
+      clinic_id: context.clinicId,
+      patient_id: patient?.id || null,
       created_at: new Date(data.dateTime).toISOString(),
       updated_at: new Date().toISOString(),
     };
@@ -67,27 +220,9 @@ export async function createCase(data: CreateCaseInput) {
 
     console.log(`Created new case with ID: ${newCase.id}`);
 
-    // Then, create the patient
-    const patientData: TablesInsert<"patients"> = {
-      name: data.name,
-      owner_name: data.assignedTo,
-      case_id: newCase.id,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
-
-    const { data: newPatient, error: patientError } = await supabase
-      .from("patients")
-      .insert(patientData)
-      .select()
-      .single();
-
-    if (patientError) {
-      console.error("Failed to create patient:", patientError);
-      // Don't return error here, we still have a valid case
-    } else {
-      console.log(`Created new patient with ID: ${newPatient.id}`);
-    }
+    await emitWebhookEvent(context, "case.created", {
+      case: toWebhookCase(newCase),
+    });
 
     // Revalidate paths
     revalidatePath("/dashboard");
@@ -98,7 +233,7 @@ export async function createCase(data: CreateCaseInput) {
       success: true,
       data: {
         ...newCase,
-        patient: newPatient,
+        patient,
       },
     };
   } catch (error) {
@@ -116,34 +251,12 @@ export async function createCase(data: CreateCaseInput) {
  */
 export async function updateCase(data: z.infer<typeof updateCaseSchema>) {
   try {
-    // Authenticate the user making the request
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      throw new Error("Unauthorized");
-    }
-
     // Validate input data against the schema
     const parsedData = updateCaseSchema.parse(data);
 
-    // First, check if the case belongs to the user
-    const { data: currentCase, error: getCurrentError } = await supabase
-      .from("cases")
-      .select("user_id")
-      .eq("id", parsedData.id)
-      .eq("user_id", user.id)
-      .single();
-
-    if (getCurrentError) {
-      console.error("Failed to get current case:", getCurrentError);
-      return {
-        success: false,
-        error: getCurrentError.message,
-      };
-    }
+    // Check the case is visible to the user within their active clinic
+    const context = await requireCaseAccess(parsedData.id);
+    const supabase = await createClient();
 
     // Build update object with only the fields that were provided
     // Using TablesUpdate type for type safety
@@ -158,12 +271,20 @@ export async function updateCase(data: z.infer<typeof updateCaseSchema>) {
       updateData.visibility = parsedData.visibility as Enums<"CaseVisibility">;
     }
 
-    // Update the case data (only if it belongs to the user)
+    // The status before the update, to tell whether it changed
+    const { data: existingCase } = await supabase
+      .from("cases")
+      .select("status")
+      .eq("id", parsedData.id.toString())
+      .eq("clinic_id", context.clinicId)
+      .single();
+
+    // Update the case data (only within the active clinic)
     const { data: updatedCase, error: updateError } = await supabase
       .from("cases")
       .update(updateData)
       .eq("id", parsedData.id.toString())
-      .eq("user_id", user.id)
+      .eq("clinic_id", context.clinicId)
       .select()
       .single();
 
@@ -175,6 +296,13 @@ export async function updateCase(data: z.infer<typeof updateCaseSchema>) {
       };
     }
 
+    if (existingCase && existingCase.status !== updatedCase.status) {
+      await emitWebhookEvent(context, "case.status_changed", {
+        case: toWebhookCase(updatedCase),
+        previousStatus: existingCase.status,
+      });
+    }
+
     // Revalidate paths
     revalidatePath("/dashboard");
     revalidatePath(`/dashboard/case/${parsedData.id}`);
@@ -194,28 +322,30 @@ export async function updateCase(data: z.infer<typeof updateCaseSchema>) {
 }
 
 /**
- * Gets all cases for the current user
+ * Gets the current user's cases plus the public cases of their active clinic
  * Used in the dashboard and case list components
  */
 export async function getUserCases() {
   try {
     console.log("getUserCases called");
 
-    // Create Supabase client and get current user
+    // Create Supabase client and resolve the user's active clinic
     const supabase = await createClient();
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    const context = await getClinicContext();
 
-    if (authError || !user) {
-      console.error("Authentication failed:", authError);
+    if (!context) {
+      console.error("Authentication failed: no signed-in user");
       return {
         success: false,
         error: "You must be logged in to view cases",
       };
     }
 
-    console.log(`Fetching cases for user: ${user.id}`);
+    console.log(
+      `Fetching cases for user ${context.userId} in clinic ${context.clinicId}`
+    );
 
-    // Fetch all cases for the user with related patient data
+    // Fetch the user's own and the clinic's public cases with related patient data
     const { data: cases, error } = await supabase
       .from("cases")
       .select(
@@ -228,7 +358,8 @@ export async function getUserCases() {
         )
       `
       )
-      .eq("user_id", user.id)
+      .eq("clinic_id", context.clinicId)
+      .or(caseVisibilityFilter(context))
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -248,9 +379,11 @@ export async function getUserCases() {
       status: caseItem.status,
       visibility: caseItem.visibility,
       user_id: caseItem.user_id,
+      clinic_id: caseItem.clinic_id,
       created_at: caseItem.created_at,
       updated_at: caseItem.updated_at,
-      patient: caseItem.patients?.[0] || null,
+      patient_id: caseItem.patient_id,
+      patient: caseItem.patients || null,
     }));
 
     return {
@@ -274,20 +407,22 @@ export async function getCase(caseId: string) {
   try {
     console.log(`getCase called with ID: ${caseId}`);
 
-    // Create Supabase client and get current user
+    // Create Supabase client and resolve the user's active clinic
     const supabase = await createClient();
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    const context = await getClinicContext();
 
-    if (authError || !user) {
-      console.error("Authentication failed:", authError);
+    if (!context) {
+      console.error("Authentication failed: no signed-in user");
       return {
         success: false,
         error: "You must be logged in to view cases",
       };
     }
 
-    // Fetch the case with all related data, filtered by user_id
-    console.log(`Fetching case with ID: ${caseId} for user: ${user.id}`);
+    // Fetch the case with all related data, scoped to the active clinic
+    console.log(
+      `Fetching case with ID: ${caseId} for user ${context.userId} in clinic ${context.clinicId}`
+    );
     const { data: caseData, error } = await supabase
       .from("cases")
       .select(
@@ -305,22 +440,27 @@ export async function getCase(caseId: string) {
         ),
         soap_notes (
           id,
-          subjective,
-          objective,
-          assessment,
-          plan,
+          title,
+          template_id,
+          sections,
           created_at
         ),
         generations (
           id,
           prompt,
           content,
-          created_at
+          created_at,
+          parent_id,
+          source,
+          template_id,
+          template_version,
+          model
         )
       `
       )
       .eq("id", caseId)
-      .eq("user_id", user.id)
+      .eq("clinic_id", context.clinicId)
+      .or(caseVisibilityFilter(context))
       .single();
 
     if (error) {
@@ -348,9 +488,11 @@ export async function getCase(caseId: string) {
       status: caseData.status,
       visibility: caseData.visibility,
       user_id: caseData.user_id,
+      clinic_id: caseData.clinic_id,
       created_at: caseData.created_at,
       updated_at: caseData.updated_at,
-      patient: caseData.patients?.[0] || null,
+      patient_id: caseData.patient_id,
+      patient: caseData.patients || null,
       transcriptions: caseData.transcriptions || [],
       soap_notes: caseData.soap_notes || [],
       generations: caseData.generations || [],
@@ -378,32 +520,20 @@ export async function saveActionsToCase(
   actions: ClientCaseAction[]
 ) {
   try {
-    // Authenticate the user making the request
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      throw new Error("Unauthorized");
-    }
-
-    // Verify that the case belongs to the user
-    const { data: caseData, error: caseError } = await supabase
-      .from("cases")
-      .select("id")
-      .eq("id", caseId)
-      .eq("user_id", user.id)
-      .single();
-
-    if (caseError || !caseData) {
-      console.error("Case not found or unauthorized:", caseError);
+    // Verify that the case is accessible within the user's active clinic
+    let context: ClinicContext;
+    try {
+      context = await requireCaseAccess(caseId);
+    } catch (accessError) {
+      console.error("Case not found or unauthorized:", accessError);
       return {
         success: false,
         error: "Case not found or you don't have permission to modify it",
       };
     }
 
+    const supabase = await createClient();
+
     console.log(`Processing ${actions.length} actions for case ${caseId}`);
 
     // Validate all actions against the schema
@@ -411,6 +541,16 @@ export async function saveActionsToCase(
       caseActionSchema.parse(action)
     );
 
+    // Notes that are already stored are updated; only new ones are announced
+    const noteIds = validatedActions
+      .filter((action) => action.type === "note")
+      .map((action) => action.id);
+    const { data: storedNotes } =
+      noteIds.length > 0
+        ? await supabase.from("soap_notes").select("id").in("id", noteIds)
+        : { data: [] };
+    const storedNoteIds = new Set((storedNotes || []).map((note) => note.id));
+
     // Begin a transaction to ensure all operations succeed or fail together
     // Note: Supabase JS client doesn't support transactions directly, so we'll use individual operations
 
@@ -419,41 +559,89 @@ export async function saveActionsToCase(
       if (action.type === "recording" && action.content?.transcript) {
         // Store recording as a transcription
         const transcriptionData: TablesInsert<"transcriptions"> = {
+          id: action.id,
           transcript: action.content.transcript,
           case_id: caseId,
+          audio_file_id: action.content.audioFileId || null,
+          segments: action.content.segments || [],
+          speaker_labels: action.content.speakerLabels || {},
           created_at: new Date(action.timestamp).toISOString(),
           updated_at: new Date().toISOString(),
         };
 
-        const { error } = await supabase
+        // Transcriptions that are already stored (loaded with the case or
+        // transcribed on the server) keep their id and are skipped
+        const { data: inserted, error } = await supabase
           .from("transcriptions")
-          .insert(transcriptionData);
+          .upsert(transcriptionData, { onConflict: "id", ignoreDuplicates: true })
+          .select("id, created_at");
 
         if (error) {
           console.error("Failed to save transcription:", error);
           throw new Error(`Failed to save transcription: ${error.message}`);
         }
-      } else if (action.type === "soap" && action.content?.soap) {
-        // Store SOAP note in the soap_notes table
+
+        // Link the uploaded recording back to its transcription
+        const transcription = inserted?.[0];
+        if (transcription && action.content.audioFileId) {
+          const { error: audioError } = await supabase
+            .from("audio_files")
+            .update({
+              transcription_id: transcription.id,
+              updated_at: new Date().toISOString(),
+            })
+            .eq("id", action.content.audioFileId);
+
+          if (audioError) {
+            console.error("Failed to link audio file:", audioError);
+          }
+        }
+
+        if (transcription) {
+          await emitWebhookEvent(context, "transcription.completed", {
+            transcription: {
+              id: transcription.id,
+              caseId,
+              audioFileId: action.content.audioFileId || null,
+              createdAt: transcription.created_at,
+            },
+          });
+        }
+      } else if (action.type === "note" && action.content?.note) {
+        // Store the structured note in the soap_notes table
+        const note = action.content.note;
         const soapNoteData: TablesInsert<"soap_notes"> = {
+          id: action.id,
           transcript: action.content.transcript || "",
-          subjective: action.content.soap.subjective,
-          objective: action.content.soap.objective,
-          assessment: action.content.soap.assessment,
-          plan: action.content.soap.plan,
+          title: note.title,
+          template_id: note.templateId,
+          sections: note.sections as Json,
           case_id: caseId,
           created_at: new Date(action.timestamp).toISOString(),
           updated_at: new Date().toISOString(),
         };
 
+        // Notes loaded with the case keep their id, so edits update them
         const { error } = await supabase
           .from("soap_notes")
-          .insert(soapNoteData);
+          .upsert(soapNoteData, { onConflict: "id" });
 
         if (error) {
           console.error("Failed to save SOAP note:", error);
           throw new Error(`Failed to save SOAP note: ${error.message}`);
         }
+
+        if (!storedNoteIds.has(action.id)) {
+          await emitWebhookEvent(context, "note.created", {
+            note: {
+              id: action.id,
+              caseId,
+              title: note.title,
+              templateId: note.templateId,
+              createdAt: new Date(action.timestamp).toISOString(),
+            },
+          });
+        }
       }
     }
 
@@ -473,3 +661,146 @@ export async function saveActionsToCase(
     };
   }
 }
+
+
+/**
+ * Searches cases in the active clinic with filtering, sorting and pagination
+ * Used by the /api/cases route backing the Find Case page
+ */
+export async function searchCases(params: CaseSearchParams) {
+  try {
+    // Create Supabase client and resolve the user's active clinic
+    const supabase = await createClient();
+    const context = await getClinicContext();
+
+    if (!context) {
+      console.error("Authentication failed: no signed-in user");
+      return {
+        success: false,
+        error: "You must be logged in to search cases",
+      };
+    }
+
+    // Validate and apply defaults to the search parameters
+    const parsed = caseSearchSchema.safeParse(params);
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: parsed.error.errors
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; "),
+      };
+    }
+    const filters = parsed.data;
+
+    // Calculate pagination (page is 1-based on the Find Case page)
+    const from = (filters.page - 1) * filters.pageSize;
+    const to = from + filters.pageSize - 1;
+
+    let query = supabase
+      .from("case_search")
+      .select("*", { count: "exact" })
+      .eq("clinic_id", context.clinicId)
+      .or(caseVisibilityFilter(context));
+
+    // "currentUser" is sent by the "My Cases" tab
+    if (filters.assignedToId) {
+      query = query.eq(
+        "user_id",
+        filters.assignedToId === "currentUser"
+          ? context.userId
+          : filters.assignedToId
+      );
+    }
+
+    if (filters.search) {
+      // Strip characters that have meaning in PostgREST filter syntax
+      const term = filters.search.replace(/[,()*%]/g, " ").trim();
+      if (term) {
+        query = query.or(
+          `patient_name.ilike.%${term}%,owner_name.ilike.%${term}%`
+        );
+      }
+    }
+
+    if (filters.status.length > 0) {
+      query = query.or(
+        filters.status
+          .map((status) => CASE_SEARCH_STATUS_FILTERS[status])
+          .join(",")
+      );
+    }
+
+    if (filters.type.length > 0) {
+      query = query.in("type", filters.type as Enums<"CaseType">[]);
+    }
+
+    // The case date is stored in created_at (see createCase); dateTo is
+    // exclusive, the start of the day after the last day searched
+    if (filters.dateFrom) {
+      query = query.gte("created_at", filters.dateFrom);
+    }
+    if (filters.dateTo) {
+      query = query.lt("created_at", filters.dateTo);
+    }
+
+    const { data: rows, count, error } = await query
+      .order(CASE_SEARCH_SORT_COLUMNS[filters.sortBy], {
+        ascending: filters.sortOrder === "asc",
+        nullsFirst: false,
+      })
+      .order("id", { ascending: true })
+      .range(from, to);
+
+    if (error) {
+      console.error("Failed to search cases:", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    // Cases are assigned to the member who created them; members who have
+    // left the clinic are shown without a name
+    const memberNames = await clinicMemberNames(context);
+
+    const data: CaseSearchResult[] = (rows || []).map((row) => ({
+      id: row.id!,
+      name: row.patient_name || "Unknown Patient",
+      dateTime: row.created_at || row.updated_at || new Date().toISOString(),
+      type: row.type || "checkup",
+      status: toCaseSearchStatus(row),
+      assignedToId: row.user_id,
+      assignedToName: row.user_id
+        ? memberNames.get(row.user_id) || null
+        : null,
+      patientId: row.patient_id,
+      patientName: row.patient_name,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      transcriptionCount: row.transcription_count || 0,
+      soapNoteCount: row.soap_note_count || 0,
+      generationCount: row.generation_count || 0,
+    }));
+
+    const total = count || 0;
+    const meta: PaginationMeta = {
+      total,
+      page: filters.page,
+      pageSize: filters.pageSize,
+      pageCount: Math.ceil(total / filters.pageSize),
+    };
+
+    return {
+      success: true,
+      data,
+      meta,
+    };
+  } catch (error) {
+    console.error("Failed to search cases:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to search cases",
+    };
+  }
+}
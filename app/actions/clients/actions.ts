@@ -0,0 +1,369 @@
+"use server";
+
+/**
+ * Client management server actions
+ * Handles pet owners, their contact details and the patients in their household
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import {
+  assertClinicRole,
+  caseVisibilityFilter,
+  requireCaseAccess,
+  requireClinicContext,
+} from "../common/clinic";
+import { clientSchema } from "../common/validation";
+import { TablesInsert, TablesUpdate } from "@/database.types";
+import type { Client, ClientInput, ClientVisit, Patient } from "../types";
+
+/**
+ * Get all clients in the active clinic with their patients
+ */
+export async function getClients(filter?: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    let query = supabase
+      .from("clients")
+      .select("*, patients(id, name, species)")
+      .eq("clinic_id", context.clinicId);
+
+    if (filter) {
+      // Strip characters that have meaning in PostgREST filter syntax
+      const term = filter.replace(/[,()*%]/g, " ").trim();
+      if (term) {
+        query = query.or(
+          `name.ilike.%${term}%,email.ilike.%${term}%,phone.ilike.%${term}%`
+        );
+      }
+    }
+
+    const { data: clients, error } = await query.order("name", {
+      ascending: true,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      success: true,
+      clients: clients as Array<
+        Client & { patients: Pick<Patient, "id" | "name" | "species">[] }
+      >,
+    };
+  } catch (error) {
+    console.error("Failed to get clients:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get clients",
+    };
+  }
+}
+
+/**
+ * Get a client with all of their patients and visits
+ * Used on the client detail page
+ */
+export async function getClientById(clientId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: client, error } = await supabase
+      .from("clients")
+      .select("*, patients(*)")
+      .eq("id", clientId)
+      .eq("clinic_id", context.clinicId)
+      .single();
+
+    if (error || !client) {
+      throw new Error("Client not found or unauthorized");
+    }
+
+    const { patients, ...clientRecord } = client;
+    const patientIds = (patients || []).map((patient) => patient.id);
+
+    // Visits are the cases of every pet in the household that the user can see
+    let visits: ClientVisit[] = [];
+    if (patientIds.length > 0) {
+      const { data: cases, error: casesError } = await supabase
+        .from("cases")
+        .select("id, type, status, created_at, patient_id")
+        .in("patient_id", patientIds)
+        .eq("clinic_id", context.clinicId)
+        .or(caseVisibilityFilter(context))
+        .order("created_at", { ascending: false });
+
+      if (casesError) {
+        throw casesError;
+      }
+
+      const patientNames = new Map(
+        (patients || []).map((patient) => [patient.id, patient.name])
+      );
+
+      visits = (cases || []).map((caseItem) => ({
+        caseId: caseItem.id,
+        patientId: caseItem.patient_id!,
+        patientName: patientNames.get(caseItem.patient_id!) || "Unknown Patient",
+        type: caseItem.type,
+        status: caseItem.status,
+        date: caseItem.created_at,
+      }));
+    }
+
+    return {
+      success: true,
+      client: clientRecord as Client,
+      patients: (patients || []) as Patient[],
+      visits,
+    };
+  } catch (error) {
+    console.error("Failed to get client:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get client",
+    };
+  }
+}
+
+/**
+ * Add a client to the active clinic
+ */
+export async function addClient(clientData: ClientInput) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const parsedData = clientSchema.parse(clientData);
+
+    const insertData: TablesInsert<"clients"> = {
+      ...(parsedData as Omit<TablesInsert<"clients">, "clinic_id">),
+      clinic_id: context.clinicId,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+
+    const supabase = await createClient();
+    const { data: client, error } = await supabase
+      .from("clients")
+      .insert(insertData)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    revalidatePath("/dashboard/clients");
+
+    return {
+      success: true,
+      client: client as Client,
+    };
+  } catch (error) {
+    console.error("Failed to add client:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to add client",
+    };
+  }
+}
+
+/**
+ * Update a client's contact details and preferences
+ * Keeps the owner name shown on their patients in sync
+ */
+export async function updateClient(
+  clientId: string,
+  clientData: Partial<ClientInput>
+) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    // Only validate and update the fields that were provided
+    const parsedData = clientSchema.partial().parse(clientData);
+
+    const updateData: TablesUpdate<"clients"> = {
+      ...(parsedData as TablesUpdate<"clients">),
+      updated_at: new Date().toISOString(),
+    };
+
+    const supabase = await createClient();
+    const { data: client, error } = await supabase
+      .from("clients")
+      .update(updateData)
+      .eq("id", clientId)
+      .eq("clinic_id", context.clinicId)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    if (parsedData.name) {
+      await supabase
+        .from("patients")
+        .update({
+          owner_name: parsedData.name,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("client_id", clientId)
+        .eq("clinic_id", context.clinicId);
+    }
+
+    revalidatePath("/dashboard/clients");
+    revalidatePath(`/dashboard/clients/${clientId}`);
+
+    return {
+      success: true,
+      client: client as Client,
+    };
+  } catch (error) {
+    console.error("Failed to update client:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update client",
+    };
+  }
+}
+
+/**
+ * Delete a client (owners and veterinarians only)
+ * Their patients are kept and simply lose the link to the client
+ */
+export async function deleteClient(clientId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner", "veterinarian"]);
+
+    const supabase = await createClient();
+    const { error } = await supabase
+      .from("clients")
+      .delete()
+      .eq("id", clientId)
+      .eq("clinic_id", context.clinicId);
+
+    if (error) {
+      throw error;
+    }
+
+    revalidatePath("/dashboard/clients");
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("Failed to delete client:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to delete client",
+    };
+  }
+}
+
+/**
+ * Link a patient to a client, or unlink it by passing null
+ */
+export async function linkPatientToClient(
+  patientId: string,
+  clientId: string | null
+) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const updateData: TablesUpdate<"patients"> = {
+      client_id: clientId,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (clientId) {
+      const { data: client, error: clientError } = await supabase
+        .from("clients")
+        .select("id, name")
+        .eq("id", clientId)
+        .eq("clinic_id", context.clinicId)
+        .single();
+
+      if (clientError || !client) {
+        throw new Error("Client not found or unauthorized");
+      }
+      updateData.owner_name = client.name;
+    }
+
+    const { data: patient, error } = await supabase
+      .from("patients")
+      .update(updateData)
+      .eq("id", patientId)
+      .eq("clinic_id", context.clinicId)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    revalidatePath("/dashboard/clients");
+    if (clientId) {
+      revalidatePath(`/dashboard/clients/${clientId}`);
+    }
+
+    return {
+      success: true,
+      patient: patient as Patient,
+    };
+  } catch (error) {
+    console.error("Failed to link patient to client:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to link patient to client",
+    };
+  }
+}
+
+/**
+ * Get the owner of a case's patient
+ * Used to default the recipient when emailing case content
+ */
+export async function getCaseClient(caseId: string) {
+  try {
+    // Verify the case is accessible within the user's active clinic
+    await requireCaseAccess(caseId);
+
+    const supabase = await createClient();
+    const { data: caseData, error } = await supabase
+      .from("cases")
+      .select("id, patients(id, clients(*))")
+      .eq("id", caseId)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      success: true,
+      client: (caseData?.patients?.clients || null) as Client | null,
+    };
+  } catch (error) {
+    console.error("Failed to get case client:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to get case client",
+    };
+  }
+}
@@ -0,0 +1,248 @@
+"use server";
+
+/**
+ * Clinic management server actions
+ * Handles listing, creating and switching between the user's clinics
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { cookies } from "next/headers";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { getCurrentUserId } from "../common/auth";
+import {
+  ACTIVE_CLINIC_COOKIE,
+  assertClinicRole,
+  requireClinicContext,
+} from "../common/clinic";
+import type { Clinic, ClinicLetterhead, ClinicRole } from "../types";
+
+const clinicNameSchema = z.string().trim().min(1).max(200);
+
+// Letterhead fields; blank values are cleared
+const clinicLetterheadSchema = z.object({
+  address: z.string().trim().max(500).nullable(),
+  phone: z.string().trim().max(50).nullable(),
+  email: z
+    .union([z.literal(""), z.string().trim().email("Invalid clinic email")])
+    .nullable(),
+});
+
+/**
+ * Get every clinic the current user belongs to, with their role in each
+ */
+export async function getClinics() {
+  try {
+    // Authenticate the user making the request
+    const userId = await getCurrentUserId();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const supabase = await createClient();
+    const { data: memberships, error } = await supabase
+      .from("clinic_members")
+      .select("role, clinics(*)")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      success: true,
+      clinics: (memberships || [])
+        .filter((m) => m.clinics)
+        .map((m) => ({
+          ...(m.clinics as Clinic),
+          role: m.role as ClinicRole,
+        })),
+    };
+  } catch (error) {
+    console.error("Failed to get clinics:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get clinics",
+    };
+  }
+}
+
+/**
+ * Get the clinic the current user is working in
+ */
+export async function getActiveClinic() {
+  try {
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: clinic, error } = await supabase
+      .from("clinics")
+      .select("*")
+      .eq("id", context.clinicId)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      success: true,
+      clinic: clinic as Clinic,
+      role: context.role,
+    };
+  } catch (error) {
+    console.error("Failed to get active clinic:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to get active clinic",
+    };
+  }
+}
+
+/**
+ * Switch the active clinic for subsequent requests
+ */
+export async function setActiveClinic(clinicId: string) {
+  try {
+    // Authenticate the user making the request
+    const userId = await getCurrentUserId();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    // Only allow switching to clinics the user is a member of
+    const supabase = await createClient();
+    const { data: membership, error } = await supabase
+      .from("clinic_members")
+      .select("clinic_id")
+      .eq("clinic_id", clinicId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error || !membership) {
+      throw new Error("Clinic not found or unauthorized");
+    }
+
+    const cookieStore = await cookies();
+    cookieStore.set(ACTIVE_CLINIC_COOKIE, clinicId, {
+      path: "/",
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+    });
+
+    revalidatePath("/dashboard", "layout");
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("Failed to set active clinic:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to set active clinic",
+    };
+  }
+}
+
+/**
+ * Create a new clinic owned by the current user and switch to it
+ */
+export async function createClinic(name: string) {
+  try {
+    // Authenticate the user making the request
+    const userId = await getCurrentUserId();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const clinicName = clinicNameSchema.parse(name);
+
+    const supabase = await createClient();
+    const { data: clinic, error } = await supabase.rpc("create_clinic", {
+      clinic_name: clinicName,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const cookieStore = await cookies();
+    cookieStore.set(ACTIVE_CLINIC_COOKIE, clinic.id, {
+      path: "/",
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+    });
+
+    revalidatePath("/dashboard", "layout");
+
+    return {
+      success: true,
+      clinic: clinic as Clinic,
+    };
+  } catch (error) {
+    console.error("Failed to create clinic:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to create clinic",
+    };
+  }
+}
+
+/**
+ * Rename the active clinic and optionally update its letterhead (owners only)
+ */
+export async function updateClinic(
+  name: string,
+  letterhead?: ClinicLetterhead
+) {
+  try {
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const clinicName = clinicNameSchema.parse(name);
+    const contact = letterhead
+      ? clinicLetterheadSchema.parse(letterhead)
+      : undefined;
+
+    const supabase = await createClient();
+    const { data: clinic, error } = await supabase
+      .from("clinics")
+      .update({
+        name: clinicName,
+        ...(contact && {
+          address: contact.address || null,
+          phone: contact.phone || null,
+          email: contact.email || null,
+        }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", context.clinicId)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    revalidatePath("/dashboard", "layout");
+
+    return {
+      success: true,
+      clinic: clinic as Clinic,
+    };
+  } catch (error) {
+    console.error("Failed to update clinic:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update clinic",
+    };
+  }
+}
@@ -7,6 +7,7 @@
 
 import { createClient } from "@/src/lib/supabase/server";
 import { redirect } from "next/navigation";
+import { getApiSession } from "@/src/lib/api/session";
 
 /**
  * Sign in with email and password
@@ -44,19 +45,33 @@ export async function signIn(formData: FormData) {
 export async function signUp(formData: FormData) {
   const email = formData.get("email") as string;
   const password = formData.get("password") as string;
+  const inviteToken = formData.get("invite_token") as string;
   const supabase = await createClient();
 
+  // Carry a clinic invitation through email confirmation so it is accepted on callback
+  const callbackUrl = new URL(
+    "/auth/callback",
+    process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000"
+  );
+  if (inviteToken) {
+    callbackUrl.searchParams.set("invite_token", inviteToken);
+  }
+
   const { error } = await supabase.auth.signUp({
     email,
     password,
     options: {
-      emailRedirectTo: `${process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000"}/auth/callback`,
+      emailRedirectTo: callbackUrl.toString(),
     },
   });
 
   if (error) {
     const searchParams = new URLSearchParams();
     searchParams.set("error", error.message);
+    if (inviteToken) {
+      searchParams.set("invite_token", inviteToken);
+      searchParams.set("email", email);
+    }
     return redirect(`/sign-up?${searchParams.toString()}`);
   }
 
@@ -126,6 +141,12 @@ export async function updatePassword(formData: FormData) {
  * Used by other server actions to verify authentication
  */
 export async function getCurrentUserId(): Promise<string | null> {
+  // REST API requests act as the user of their access token
+  const apiSession = getApiSession();
+  if (apiSession) {
+    return apiSession.userId;
+  }
+
   const supabase = await createClient();
   const {
     data: { user },
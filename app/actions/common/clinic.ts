@@ -0,0 +1,158 @@
+/**
+ * Clinic scoping helpers shared by server actions
+ * This file does NOT have "use server" directive: these helpers are only
+ * called from other server code and must not be exposed as actions
+ */
+
+import { cookies } from "next/headers";
+import { createClient } from "@/src/lib/supabase/server";
+import { getApiSession } from "@/src/lib/api/session";
+import type { ClinicContext, ClinicRole } from "../types";
+
+// Cookie holding the clinic the user last switched to
+export const ACTIVE_CLINIC_COOKIE = "odis_active_clinic";
+
+// Name given to the clinic created for users who do not belong to one yet
+const DEFAULT_CLINIC_NAME = "My Clinic";
+
+/**
+ * Resolves the signed-in user's active clinic
+ * Uses the active clinic cookie when the user is still a member of it,
+ * otherwise their oldest membership. Users without any clinic get a
+ * personal one so that every case has a tenant.
+ * REST API requests use the clinic of their access token, as long as its
+ * user is still a member of it.
+ */
+export async function getClinicContext(): Promise<ClinicContext | null> {
+  const supabase = await createClient();
+
+  const apiSession = getApiSession();
+  if (apiSession) {
+    const { data: membership, error } = await supabase
+      .from("clinic_members")
+      .select("role")
+      .eq("clinic_id", apiSession.clinicId)
+      .eq("user_id", apiSession.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return membership
+      ? {
+          userId: apiSession.userId,
+          clinicId: apiSession.clinicId,
+          role: membership.role,
+        }
+      : null;
+  }
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return null;
+  }
+
+  const { data: memberships, error } = await supabase
+    .from("clinic_members")
+    .select("clinic_id, role")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  if (!memberships || memberships.length === 0) {
+    // Parallel first requests share one personal clinic: the function
+    // creates it only if the user still has no membership
+    const { data: ensured, error: ensureError } = await supabase.rpc(
+      "ensure_personal_clinic",
+      { clinic_name: DEFAULT_CLINIC_NAME }
+    );
+    const membership = ensured?.[0];
+
+    if (ensureError || !membership) {
+      throw ensureError || new Error("Failed to create clinic");
+    }
+
+    return {
+      userId: user.id,
+      clinicId: membership.clinic_id,
+      role: membership.role,
+    };
+  }
+
+  const cookieStore = await cookies();
+  const preferredClinicId = cookieStore.get(ACTIVE_CLINIC_COOKIE)?.value;
+  const membership =
+    memberships.find((m) => m.clinic_id === preferredClinicId) ||
+    memberships[0];
+
+  return {
+    userId: user.id,
+    clinicId: membership.clinic_id,
+    role: membership.role,
+  };
+}
+
+/**
+ * Same as getClinicContext but throws when nobody is signed in
+ */
+export async function requireClinicContext(): Promise<ClinicContext> {
+  const context = await getClinicContext();
+
+  if (!context) {
+    throw new Error("Unauthorized");
+  }
+
+  return context;
+}
+
+/**
+ * Throws unless the active member has one of the given roles
+ */
+export function assertClinicRole(
+  context: ClinicContext,
+  roles: ClinicRole[]
+): void {
+  if (!roles.includes(context.role)) {
+    throw new Error("You do not have permission to perform this action");
+  }
+}
+
+/**
+ * PostgREST filter matching cases the member can see within their clinic:
+ * their own cases plus any case marked public. Combine with
+ * .eq("clinic_id", context.clinicId).
+ */
+export function caseVisibilityFilter(context: ClinicContext): string {
+  return `user_id.eq.${context.userId},visibility.eq.public`;
+}
+
+/**
+ * Verifies the case exists in the active clinic and is visible to the member
+ */
+export async function requireCaseAccess(
+  caseId: string
+): Promise<ClinicContext> {
+  const context = await requireClinicContext();
+
+  const supabase = await createClient();
+  const { data: caseData, error } = await supabase
+    .from("cases")
+    .select("id")
+    .eq("id", caseId)
+    .eq("clinic_id", context.clinicId)
+    .or(caseVisibilityFilter(context))
+    .maybeSingle();
+
+  if (error || !caseData) {
+    throw new Error("Case not found or unauthorized");
+  }
+
+  return context;
+}
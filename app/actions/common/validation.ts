@@ -4,6 +4,22 @@
 
 import { z } from "zod";
 import { Constants, Enums } from "@/database.types";
+import type {
+  SpeakerLabels,
+  TranscriptSegment,
+} from "@/src/lib/transcription/types";
+import {
+  ENDPOINTING_MS_RANGE,
+  MAX_KEYTERMS,
+  TRANSCRIPTION_LANGUAGES,
+  TRANSCRIPTION_MODELS,
+  UTTERANCE_END_MS_RANGE,
+} from "@/src/lib/transcription/settings";
+import {
+  structuredNoteSchema,
+  type StructuredNote,
+} from "@/src/lib/notes/structured-note";
+import { MAX_EXPORT_DOCUMENTS } from "@/src/lib/exports/documents";
 
 /**
  * Schema for creating a new case that maps to our database structure
@@ -12,6 +28,7 @@ export const createCaseSchema = z.object({
   name: z.string().min(1),
   dateTime: z.string().min(1),
   assignedTo: z.string(),
+  patientId: z.string().uuid().optional(),
   type: z.enum(
     Constants.public.Enums.CaseType as unknown as [string, ...string[]]
   ),
@@ -30,7 +47,7 @@ export const createCaseSchema = z.object({
  */
 export const updateCaseSchema = z.object({
   id: z.string().uuid(),
-  name: z.string().min(1),
+  name: z.string().min(1).optional(),
   status: z
     .enum(Constants.public.Enums.CaseStatus as unknown as [string, ...string[]])
     .optional(),
@@ -41,22 +58,384 @@ export const updateCaseSchema = z.object({
     .optional(),
 });
 
+/**
+ * Schema for the Find Case search query string
+ * Values arrive as strings (or repeated keys for arrays) so numbers are coerced
+ */
+export const caseSearchSchema = z.object({
+  search: z.string().trim().optional(),
+  status: z.array(z.enum(["draft", "in_progress", "completed"])).default([]),
+  type: z
+    .array(
+      z.enum(Constants.public.Enums.CaseType as unknown as [string, ...string[]])
+    )
+    .default([]),
+  assignedToId: z.string().optional(),
+  dateFrom: z.string().datetime({ offset: true }).optional(),
+  dateTo: z.string().datetime({ offset: true }).optional(),
+  sortBy: z.enum(["dateTime", "updatedAt", "name"]).default("dateTime"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+/**
+ * Schema for creating or updating a patient
+ */
+export const patientSchema = z.object({
+  name: z.string().trim().min(1),
+  owner_name: z.string().trim(),
+  client_id: z.string().uuid().nullish(),
+  species: z.string().trim().nullish(),
+  breed: z.string().trim().nullish(),
+  sex: z
+    .enum(Constants.public.Enums.PatientSex as unknown as [string, ...string[]])
+    .optional(),
+  neuter_status: z
+    .enum(
+      Constants.public.Enums.NeuterStatus as unknown as [string, ...string[]]
+    )
+    .optional(),
+  date_of_birth: z.string().date().nullish(),
+  microchip_number: z.string().trim().nullish(),
+  allergies: z.array(z.string().trim().min(1)).optional(),
+});
+
+/**
+ * Schema for creating or updating a client (pet owner)
+ */
+export const clientSchema = z.object({
+  name: z.string().trim().min(1),
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email()
+    .nullish()
+    .or(z.literal("").transform(() => null)),
+  phone: z.string().trim().nullish(),
+  address_line1: z.string().trim().nullish(),
+  address_line2: z.string().trim().nullish(),
+  city: z.string().trim().nullish(),
+  region: z.string().trim().nullish(),
+  postal_code: z.string().trim().nullish(),
+  country: z.string().trim().nullish(),
+  preferred_contact_method: z
+    .enum(
+      Constants.public.Enums.ContactMethod as unknown as [string, ...string[]]
+    )
+    .optional(),
+  email_opt_in: z.boolean().optional(),
+  sms_opt_in: z.boolean().optional(),
+  notes: z.string().trim().nullish(),
+});
+
+/**
+ * Schema for patient search parameters
+ */
+export const patientSearchSchema = z.object({
+  search: z.string().trim().optional(),
+  species: z.string().trim().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Schema for recording a patient weight
+ */
+export const patientWeightSchema = z.object({
+  weightKg: z.number().positive().max(9999),
+  recordedAt: z.string().datetime({ offset: true }).optional(),
+  caseId: z.string().uuid().optional(),
+});
+
+/**
+ * Schema for the metadata of a recording before it is uploaded
+ */
+export const audioFileSchema = z.object({
+  filename: z.string().trim().min(1),
+  format: z.string().trim().min(1),
+  duration: z.number().min(0),
+  file_size: z.number().int().min(0),
+  sample_rate: z.number().int().positive().nullish(),
+  channels: z.number().int().positive().nullish(),
+  bit_rate: z.number().int().positive().nullish(),
+});
+
+/**
+ * Schema for one speaker segment of a transcript
+ */
+export const transcriptSegmentSchema = z.object({
+  speaker: z.number().int().min(0).nullable(),
+  start: z.number().min(0),
+  end: z.number().min(0),
+  text: z.string(),
+  confidence: z.number().min(0).max(1).nullable(),
+});
+
+/**
+ * Schema for speaker display names, keyed by speaker number
+ */
+export const speakerLabelsSchema = z.record(
+  z.string().regex(/^\d+$/),
+  z.string().trim().max(40)
+);
+
+/**
+ * Schema for a clinic or personal transcription settings profile
+ * Null fields inherit from the clinic profile and then the defaults
+ */
+export const transcriptionSettingsSchema = z.object({
+  model: z
+    .enum(
+      TRANSCRIPTION_MODELS.map((m) => m.value) as unknown as [
+        string,
+        ...string[],
+      ]
+    )
+    .nullable()
+    .optional(),
+  language: z
+    .enum(
+      TRANSCRIPTION_LANGUAGES.map((l) => l.value) as unknown as [
+        string,
+        ...string[],
+      ]
+    )
+    .nullable()
+    .optional(),
+  diarize: z.boolean().nullable().optional(),
+  numerals: z.boolean().nullable().optional(),
+  smart_format: z.boolean().nullable().optional(),
+  filler_words: z.boolean().nullable().optional(),
+  keyterms: z
+    .array(z.string().trim().min(1).max(100))
+    .max(MAX_KEYTERMS)
+    .optional(),
+  utterance_end_ms: z
+    .number()
+    .int()
+    .min(UTTERANCE_END_MS_RANGE.min)
+    .max(UTTERANCE_END_MS_RANGE.max)
+    .nullable()
+    .optional(),
+  endpointing_ms: z
+    .number()
+    .int()
+    .min(ENDPOINTING_MS_RANGE.min)
+    .max(ENDPOINTING_MS_RANGE.max)
+    .nullable()
+    .optional(),
+});
+
+/**
+ * Schema for a streaming generation request
+ */
+export const generationStreamSchema = z.object({
+  templateId: z.string().min(1),
+  caseId: z.string().uuid().optional(),
+  transcriptions: z
+    .array(
+      z.union([
+        z.string(),
+        z.object({
+          id: z.string().uuid().optional(),
+          transcript: z.string(),
+          segments: z.array(transcriptSegmentSchema).optional(),
+          speakerLabels: speakerLabelsSchema.optional(),
+        }),
+      ])
+    )
+    .min(1),
+});
+
+/**
+ * Schema for hand-edited generation content
+ */
+export const generationEditSchema = z.object({
+  content: z.string().trim().min(1, "Content cannot be empty"),
+});
+
+/**
+ * Schema for running an unsaved template against a sample transcript
+ */
+export const templateTrialSchema = z.object({
+  transcript: z
+    .string()
+    .trim()
+    .min(1, "Paste a sample transcript")
+    .max(50000, "The sample transcript is too long"),
+  template: z.object({
+    name: z.string().nullable().optional(),
+    type: z.string().nullable().optional(),
+    description: z.string().nullable().optional(),
+    prompt: z.string().trim().min(1, "The template needs a prompt"),
+    provider: z.string().nullable().optional(),
+    model: z.string().nullable().optional(),
+    output_schema: z.unknown().optional(),
+  }),
+});
+
+/**
+ * Schema for a reference to a generation or note
+ */
+const documentRefSchema = z.object({
+  type: z.enum(["generation", "soap_note"]),
+  id: z.string().uuid(),
+});
+
+/**
+ * Schema for the documents picked in the Export Center
+ */
+const documentRefsSchema = z
+  .array(documentRefSchema)
+  .min(1, "Select at least one document")
+  .max(MAX_EXPORT_DOCUMENTS, `Select at most ${MAX_EXPORT_DOCUMENTS} documents`);
+
+/**
+ * Schema for approving or rejecting documents; rejections need a comment
+ */
+export const documentReviewSchema = z
+  .object({
+    documents: documentRefsSchema,
+    decision: z.enum(Constants.public.Enums.ReviewDecision),
+    comment: z.string().trim().max(2000).optional(),
+  })
+  .refine((review) => review.decision !== "rejected" || !!review.comment, {
+    message: "Add a comment explaining the rejection",
+    path: ["comment"],
+  });
+
+/**
+ * Schema for exporting approved documents
+ */
+export const documentExportSchema = z
+  .object({
+    documents: documentRefsSchema,
+    // PDFs are made per case with getCasePdf
+    format: z.enum(Constants.public.Enums.ExportFormat).exclude(["pdf"]),
+    destination: z.enum(Constants.public.Enums.ExportDestination),
+    recipient: z.string().trim().email("Invalid recipient email address").optional(),
+  })
+  .refine((request) => request.destination !== "email" || !!request.recipient, {
+    message: "Enter the email address to send the export to",
+    path: ["recipient"],
+  });
+
+/**
+ * Schema for a PDF of one document of a case, or of the whole case when no
+ * document is given
+ */
+export const casePdfSchema = z.object({
+  caseId: z.string().uuid(),
+  document: documentRefSchema.optional(),
+});
+
+/**
+ * Schema for emailing a case PDF
+ */
+export const casePdfEmailSchema = casePdfSchema.extend({
+  recipient: z.string().trim().email("Invalid recipient email address"),
+});
+
+/**
+ * Schema for a PIMS connection; the mapping is checked against the adapter's
+ * fields when it is saved
+ */
+export const pimsConnectionSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  adapter: z.enum(Constants.public.Enums.PimsAdapter),
+  endpointUrl: z
+    .string()
+    .trim()
+    .url("Invalid endpoint URL")
+    .regex(/^https?:\/\//, "The endpoint must be an http or https URL"),
+  authHeader: z.string().trim().max(2000).nullable().optional(),
+  mapping: z.record(z.string().max(500)),
+  enabled: z.boolean(),
+});
+
+/**
+ * Schema for sending documents to a PIMS: picked documents, or the approved
+ * documents of one case
+ */
+export const pimsSendSchema = z
+  .object({
+    connectionId: z.string().uuid(),
+    documents: documentRefsSchema.optional(),
+    caseId: z.string().uuid().optional(),
+  })
+  .refine((request) => !!request.documents !== !!request.caseId, {
+    message: "Send either documents or a case",
+    path: ["documents"],
+  });
+
+/**
+ * Schema for a webhook subscription
+ */
+export const webhookSubscriptionSchema = z.object({
+  id: z.string().uuid().optional(),
+  url: z
+    .string()
+    .trim()
+    .url("Invalid endpoint URL")
+    .regex(/^https?:\/\//, "The endpoint must be an http or https URL"),
+  description: z.string().trim().max(200).nullable().optional(),
+  events: z
+    .array(z.enum(Constants.public.Enums.WebhookEvent))
+    .min(1, "Pick at least one event"),
+  enabled: z.boolean(),
+});
+
+/**
+ * Schema for creating a personal access token
+ */
+export const personalAccessTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z
+    .array(z.enum(Constants.public.Enums.ApiTokenScope))
+    .min(1, "Pick at least one scope"),
+  // Days until the token expires; tokens without one never expire
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+/**
+ * Schema for a transcript added to a case through the REST API
+ */
+export const apiTranscriptionSchema = z.object({
+  transcript: z.string().trim().min(1, "Transcript cannot be empty"),
+});
+
+/**
+ * Schema for a note created through the REST API
+ */
+export const apiSoapNoteSchema = z.object({
+  transcript: z.string().optional(),
+  note: structuredNoteSchema,
+});
+
+/**
+ * Schema for content generated for a case through the REST API
+ * Without transcription ids every transcript of the case is used
+ */
+export const apiGenerationSchema = z.object({
+  templateId: z.string().min(1),
+  transcriptionIds: z.array(z.string().uuid()).min(1).optional(),
+});
+
 /**
  * Schema for case actions sent from the client
  */
 export const caseActionSchema = z.object({
   id: z.string().uuid(),
-  type: z.enum(["recording", "soap", "unknown"]),
+  type: z.enum(["recording", "note", "unknown"]),
   content: z.object({
     transcript: z.string().optional(),
-    soap: z
-      .object({
-        subjective: z.string(),
-        objective: z.string(),
-        assessment: z.string(),
-        plan: z.string(),
-      })
-      .optional(),
+    audioFileId: z.string().uuid().optional(),
+    segments: z.array(transcriptSegmentSchema).optional(),
+    speakerLabels: speakerLabelsSchema.optional(),
+    note: structuredNoteSchema.optional(),
   }),
   timestamp: z.number(),
 });
@@ -66,15 +445,13 @@ export const caseActionSchema = z.object({
  */
 export interface ClientCaseAction {
   id: string;
-  type: "recording" | "soap" | "unknown";
+  type: "recording" | "note" | "unknown";
   content: {
     transcript?: string;
-    soap?: {
-      subjective: string;
-      objective: string;
-      assessment: string;
-      plan: string;
-    };
+    audioFileId?: string;
+    segments?: TranscriptSegment[];
+    speakerLabels?: SpeakerLabels;
+    note?: StructuredNote;
   };
   timestamp: number;
 }
@@ -87,6 +464,7 @@ export interface CreateCaseInput {
   name: string;
   dateTime: string;
   assignedTo: string;
+  patientId?: string;
   type: Enums<"CaseType">;
   status?: Enums<"CaseStatus">;
   visibility?: Enums<"CaseVisibility">;
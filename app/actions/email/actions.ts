@@ -8,23 +8,29 @@
 import { getCurrentUserId } from "../common/auth";
 import { sendEmail } from "./service";
 import { getTemplateById } from "../templates/actions";
+import { resolveCaseVariables } from "../templates/variables";
 import { EmailResponse } from "../types";
 import { isValidEmail } from "@/src/lib/email";
+import { renderTemplate } from "@/src/lib/templates/variables";
 
 /**
  * Sends an email using a template
+ * The template's variables are filled in from the case, when one is given,
+ * and then from templateData; values are HTML-escaped in the body
  */
 export async function sendEmailWithTemplate({
   to,
   from,
   templateId,
   templateData,
+  caseId,
   replyTo,
 }: {
   to: string | string[];
   from?: string;
   templateId: string;
   templateData?: Record<string, any>;
+  caseId?: string;
   replyTo?: string;
 }): Promise<EmailResponse> {
   try {
@@ -59,18 +65,15 @@ export async function sendEmailWithTemplate({
       throw new Error("Template is not an email template");
     }
 
-    // Process template content with variables
-    let content = template.content || "";
-    let subject = template.name || "No Subject";
-
-    // Replace template variables (simple implementation)
-    if (templateData) {
-      Object.entries(templateData).forEach(([key, value]) => {
-        const regex = new RegExp(`{{\\s*${key}\\s*}}`, "g");
-        content = content.replace(regex, String(value));
-        subject = subject.replace(regex, String(value));
-      });
-    }
+    // Fill in the template's variables
+    const variables = {
+      ...(caseId ? await resolveCaseVariables(caseId) : {}),
+      ...templateData,
+    };
+    const content = renderTemplate(template.content || "", variables, {
+      html: true,
+    });
+    const subject = renderTemplate(template.name || "No Subject", variables);
 
     // Send the email
     return sendEmail({
@@ -38,6 +38,7 @@ export async function sendEmail({
   html,
   text,
   replyTo,
+  attachments,
 }: {
   to: string | string[];
   from?: string;
@@ -45,6 +46,8 @@ export async function sendEmail({
   html?: string;
   text?: string;
   replyTo?: string;
+  // Files attached to the email; string content is base64
+  attachments?: Array<{ filename: string; content: Buffer | string }>;
 }): Promise<EmailResponse> {
   try {
     // Authenticate the user making the request
@@ -93,6 +96,10 @@ export async function sendEmail({
       emailOptions.reply_to = replyTo;
     }
 
+    if (attachments && attachments.length > 0) {
+      emailOptions.attachments = attachments;
+    }
+
     // Send the email
     const result = await resend.emails.send(emailOptions);
 
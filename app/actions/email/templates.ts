@@ -4,21 +4,18 @@
  * Email template helpers and defaults
  */
 
-import { getCurrentUserId } from "../common/auth";
+import { requireClinicContext } from "../common/clinic";
 import { createClient } from "@/src/lib/supabase/server";
 import { EMAIL_CONFIG } from "@/src/lib/email";
 import { EmailResponse } from "../types";
 
 /**
- * Creates default email templates if they don't exist
+ * Creates default email templates for the active clinic if they don't exist
  */
 export async function ensureDefaultEmailTemplates(): Promise<EmailResponse> {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
 
     const supabase = await createClient();
     
@@ -39,6 +36,7 @@ export async function ensureDefaultEmailTemplates(): Promise<EmailResponse> {
         `,
         prompt: "",
         model: "",
+        clinic_id: context.clinicId,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       },
@@ -59,6 +57,7 @@ export async function ensureDefaultEmailTemplates(): Promise<EmailResponse> {
         `,
         prompt: "",
         model: "",
+        clinic_id: context.clinicId,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       },
@@ -82,6 +81,7 @@ export async function ensureDefaultEmailTemplates(): Promise<EmailResponse> {
         `,
         prompt: "",
         model: "",
+        clinic_id: context.clinicId,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       },
@@ -104,19 +104,22 @@ export async function ensureDefaultEmailTemplates(): Promise<EmailResponse> {
         `,
         prompt: "",
         model: "",
+        clinic_id: context.clinicId,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       },
     ];
 
-    // Check if templates exist
+    // Check if templates exist, either built-in or in the clinic
     for (const template of defaultTemplates) {
       const { data: existingTemplate } = await supabase
         .from("templates")
         .select("id")
         .eq("key", template.key)
         .eq("type", "email")
-        .single();
+        .or(`clinic_id.is.null,clinic_id.eq.${context.clinicId}`)
+        .limit(1)
+        .maybeSingle();
 
       // If template doesn't exist, create it
       if (!existingTemplate) {
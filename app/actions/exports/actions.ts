@@ -0,0 +1,336 @@
+"use server";
+
+/**
+ * Export Center server actions
+ * Generations and notes are approved before they leave the clinic. The
+ * review queue holds documents without a review or with a rejected one, the
+ * ready queue approved documents, and every export is logged.
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { assertClinicRole, requireClinicContext } from "../common/clinic";
+import {
+  documentExportSchema,
+  documentReviewSchema,
+} from "../common/validation";
+import { sendEmail } from "../email/service";
+import {
+  clinicMemberNames,
+  loadClinicDocuments,
+  loadExportQueuePage,
+} from "./documents";
+import { emitWebhookEvent } from "../webhooks/emit";
+import { documentKey, renderExport } from "@/src/lib/exports/documents";
+import type {
+  ClinicRole,
+  DocumentRef,
+  ExportDestination,
+  ExportFormat,
+  ExportHistoryEntry,
+  ExportQueue,
+  ExportQueueCursor,
+  ReviewDecision,
+  ReviewDocument,
+} from "../types";
+
+// Exports shown in the history, newest first
+const HISTORY_LIMIT = 200;
+
+// Documents loaded at a time in each queue
+const QUEUE_PAGE_SIZE = 50;
+
+// Roles that may approve or reject documents
+const REVIEWER_ROLES: ClinicRole[] = ["owner", "veterinarian"];
+
+/**
+ * Gets the first page of the documents awaiting review and of the approved
+ * documents, and whether the member may review them
+ */
+export async function getExportQueues() {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const [review, ready] = await Promise.all([
+      loadExportQueuePage(context, "review", QUEUE_PAGE_SIZE),
+      loadExportQueuePage(context, "ready", QUEUE_PAGE_SIZE),
+    ]);
+
+    return {
+      success: true,
+      review,
+      ready,
+      canReview: REVIEWER_ROLES.includes(context.role),
+    };
+  } catch (error) {
+    console.error("Failed to get export queues:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to get export queues",
+    };
+  }
+}
+
+/**
+ * Gets the next page of one queue, after the cursor of the previous page
+ */
+export async function getExportQueuePage(
+  queue: ExportQueue,
+  cursor: ExportQueueCursor
+) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const page = await loadExportQueuePage(
+      context,
+      queue,
+      QUEUE_PAGE_SIZE,
+      cursor
+    );
+
+    return {
+      success: true,
+      page,
+    };
+  } catch (error) {
+    console.error("Failed to get export queue:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to get export queue",
+    };
+  }
+}
+
+/**
+ * Approves or rejects documents across any number of cases
+ * Reviewing a document again replaces its earlier decision
+ */
+export async function reviewDocuments(input: {
+  documents: DocumentRef[];
+  decision: ReviewDecision;
+  comment?: string;
+}) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+    assertClinicRole(context, REVIEWER_ROLES);
+
+    const parsed = documentReviewSchema.parse(input);
+    const documents = await loadClinicDocuments(context, {
+      refs: parsed.documents,
+    });
+    if (documents.length !== parsed.documents.length) {
+      throw new Error("Document not found or unauthorized");
+    }
+
+    const reviewedAt = new Date().toISOString();
+    const rows = documents.map((document) => ({
+      clinic_id: context.clinicId,
+      case_id: document.caseId,
+      generation_id: document.type === "generation" ? document.id : null,
+      soap_note_id: document.type === "soap_note" ? document.id : null,
+      decision: parsed.decision,
+      comment: parsed.comment || null,
+      reviewed_by: context.userId,
+      reviewed_at: reviewedAt,
+    }));
+
+    // Each kind of document has its own unique column to upsert on
+    const supabase = await createClient();
+    for (const column of ["generation_id", "soap_note_id"] as const) {
+      const batch = rows.filter((row) => row[column] !== null);
+      if (batch.length === 0) {
+        continue;
+      }
+
+      const { error } = await supabase
+        .from("document_reviews")
+        .upsert(batch, { onConflict: column });
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    // Notes that were not approved before are announced to webhooks
+    if (parsed.decision === "approved") {
+      for (const document of documents) {
+        if (
+          document.type !== "soap_note" ||
+          document.review?.decision === "approved"
+        ) {
+          continue;
+        }
+        await emitWebhookEvent(context, "note.approved", {
+          note: {
+            id: document.id,
+            caseId: document.caseId,
+            title: document.title,
+          },
+          review: {
+            reviewedBy: context.userId,
+            reviewedAt,
+            comment: parsed.comment || null,
+          },
+        });
+      }
+    }
+
+    revalidatePath("/dashboard/export-center");
+
+    return {
+      success: true,
+      reviewed: documents.length,
+    };
+  } catch (error) {
+    console.error("Failed to review documents:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to review documents",
+    };
+  }
+}
+
+/**
+ * Exports approved documents as one file, either returned for download or
+ * emailed to a recipient, and logs the export
+ */
+export async function exportDocuments(input: {
+  documents: DocumentRef[];
+  format: ExportFormat;
+  destination: ExportDestination;
+  recipient?: string;
+}) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const parsed = documentExportSchema.parse(input);
+    const loaded = await loadClinicDocuments(context, {
+      refs: parsed.documents,
+    });
+    if (loaded.length !== parsed.documents.length) {
+      throw new Error("Document not found or unauthorized");
+    }
+
+    const notApproved = loaded.filter(
+      (document) => document.review?.decision !== "approved"
+    );
+    if (notApproved.length > 0) {
+      throw new Error(
+        `Only approved documents can be exported: ${notApproved.map((document) => document.title).join(", ")}`
+      );
+    }
+
+    // Keep the order the documents were picked in
+    const byKey = new Map(
+      loaded.map((document) => [documentKey(document), document])
+    );
+    const documents = parsed.documents.map(
+      (ref) => byKey.get(documentKey(ref)) as ReviewDocument
+    );
+    const file = renderExport(documents, parsed.format);
+
+    if (parsed.destination === "email") {
+      const subject =
+        documents.length === 1
+          ? documents[0].title
+          : `${documents.length} exported documents`;
+      const emailResult = await sendEmail({
+        to: parsed.recipient!,
+        subject,
+        ...(parsed.format === "html"
+          ? { html: file.content }
+          : { text: file.content }),
+      });
+
+      if (!emailResult.success) {
+        throw new Error(emailResult.error || "Failed to send export email");
+      }
+    }
+
+    // Log one row per document; documents exported together share a batch
+    const supabase = await createClient();
+    const batchId = crypto.randomUUID();
+    const { error } = await supabase.from("document_exports").insert(
+      documents.map((document) => ({
+        clinic_id: context.clinicId,
+        batch_id: batchId,
+        case_id: document.caseId,
+        generation_id: document.type === "generation" ? document.id : null,
+        soap_note_id: document.type === "soap_note" ? document.id : null,
+        document_title: document.title,
+        format: parsed.format,
+        destination: parsed.destination,
+        recipient: parsed.destination === "email" ? parsed.recipient : null,
+        exported_by: context.userId,
+      }))
+    );
+
+    if (error) {
+      throw error;
+    }
+
+    revalidatePath("/dashboard/export-center");
+
+    return {
+      success: true,
+      exported: documents.length,
+      file: parsed.destination === "download" ? file : null,
+    };
+  } catch (error) {
+    console.error("Failed to export documents:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to export documents",
+    };
+  }
+}
+
+/**
+ * Gets the clinic's most recent exports with who made them
+ */
+export async function getExportHistory() {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const [{ data: exports, error }, names] = await Promise.all([
+      supabase
+        .from("document_exports")
+        .select("*")
+        .eq("clinic_id", context.clinicId)
+        .order("created_at", { ascending: false })
+        .limit(HISTORY_LIMIT),
+      clinicMemberNames(context),
+    ]);
+
+    if (error) {
+      throw error;
+    }
+
+    const history: ExportHistoryEntry[] = (exports || []).map((entry) => ({
+      ...entry,
+      exporter: entry.exported_by ? names.get(entry.exported_by) || null : null,
+    }));
+
+    return {
+      success: true,
+      history,
+    };
+  } catch (error) {
+    console.error("Failed to get export history:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to get export history",
+    };
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Documents for review and export
+ * This file does NOT have "use server" directive: these helpers are only
+ * called from other server code and must not be exposed as actions
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { caseVisibilityFilter } from "../common/clinic";
+import { groupLineages } from "@/src/lib/generation-lineage";
+import {
+  noteFromStoredContent,
+  noteSectionsOf,
+} from "@/src/lib/notes/structured-note";
+import { documentKey } from "@/src/lib/exports/documents";
+import type {
+  ClinicContext,
+  DocumentRef,
+  ExportQueue,
+  ExportQueueCursor,
+  ExportQueuePage,
+  ReviewDocument,
+} from "../types";
+
+/**
+ * Names of the active clinic's members, keyed by user id
+ */
+export async function clinicMemberNames(
+  context: ClinicContext
+): Promise<Map<string, string>> {
+  const supabase = await createClient();
+  const { data: members, error } = await supabase.rpc("get_clinic_members", {
+    target_clinic: context.clinicId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return new Map(
+    (members || []).map((member) => [
+      member.user_id,
+      member.name || member.email,
+    ])
+  );
+}
+
+/**
+ * Loads generations and notes of the cases the member can access in the
+ * active clinic, with their reviews: the given documents, or those of one case
+ * For a case only the latest version of each generation is returned, since
+ * editing a generation saves a new version that needs its own review
+ */
+export async function loadClinicDocuments(
+  context: ClinicContext,
+  filter: { refs: DocumentRef[]; caseId?: string } | { caseId: string }
+): Promise<ReviewDocument[]> {
+  const refs = "refs" in filter ? filter.refs : undefined;
+  const { caseId } = filter;
+  if (refs?.length === 0) {
+    return [];
+  }
+
+  const supabase = await createClient();
+  const generationIds = refs
+    ?.filter((ref) => ref.type === "generation")
+    .map((ref) => ref.id);
+  const noteIds = refs
+    ?.filter((ref) => ref.type === "soap_note")
+    .map((ref) => ref.id);
+
+  let generationsQuery = supabase
+    .from("generations")
+    .select(
+      "id, case_id, parent_id, content, created_at, templates(name), cases!inner(id, type, user_id, clinic_id, visibility, patients(name))"
+    )
+    .eq("cases.clinic_id", context.clinicId)
+    .or(caseVisibilityFilter(context), { referencedTable: "cases" })
+    .order("created_at", { ascending: true });
+  let notesQuery = supabase
+    .from("soap_notes")
+    .select(
+      "id, case_id, title, sections, created_at, cases!inner(id, type, user_id, clinic_id, visibility, patients(name))"
+    )
+    .eq("cases.clinic_id", context.clinicId)
+    .or(caseVisibilityFilter(context), { referencedTable: "cases" })
+    .order("created_at", { ascending: false });
+  let reviewsQuery = supabase
+    .from("document_reviews")
+    .select("*")
+    .eq("clinic_id", context.clinicId);
+
+  if (generationIds && noteIds) {
+    generationsQuery = generationsQuery.in("id", generationIds);
+    notesQuery = notesQuery.in("id", noteIds);
+    reviewsQuery = reviewsQuery.or(
+      [
+        generationIds.length > 0 && `generation_id.in.(${generationIds})`,
+        noteIds.length > 0 && `soap_note_id.in.(${noteIds})`,
+      ]
+        .filter(Boolean)
+        .join(",")
+    );
+  }
+  if (caseId) {
+    generationsQuery = generationsQuery.eq("case_id", caseId);
+    notesQuery = notesQuery.eq("case_id", caseId);
+    reviewsQuery = reviewsQuery.eq("case_id", caseId);
+  }
+
+  const [generationsResult, notesResult, reviewsResult, names] =
+    await Promise.all([
+      generationIds?.length === 0 ? null : generationsQuery,
+      noteIds?.length === 0 ? null : notesQuery,
+      reviewsQuery,
+      clinicMemberNames(context),
+    ]);
+
+  if (generationsResult?.error) {
+    throw generationsResult.error;
+  }
+  if (notesResult?.error) {
+    throw notesResult.error;
+  }
+  if (reviewsResult.error) {
+    throw reviewsResult.error;
+  }
+
+  const reviews = new Map(
+    (reviewsResult.data || []).map((review) => [
+      documentKey(
+        review.generation_id
+          ? { type: "generation", id: review.generation_id }
+          : { type: "soap_note", id: review.soap_note_id! }
+      ),
+      review,
+    ])
+  );
+  const reviewOf = (ref: DocumentRef) => {
+    const review = reviews.get(documentKey(ref));
+    return review
+      ? {
+          decision: review.decision,
+          comment: review.comment,
+          reviewer: review.reviewed_by
+            ? names.get(review.reviewed_by) || null
+            : null,
+          reviewedAt: review.reviewed_at,
+        }
+      : null;
+  };
+
+  const allGenerations = generationsResult?.data || [];
+  const generations = refs
+    ? allGenerations
+    : groupLineages(allGenerations).map(
+        (versions) => versions[versions.length - 1]
+      );
+
+  const generationDocuments: ReviewDocument[] = generations.map(
+    (generation) => {
+      const title = generation.templates?.name || "Generated document";
+      return {
+        type: "generation",
+        id: generation.id,
+        caseId: generation.cases.id,
+        title,
+        visitType: generation.cases.type,
+        patientName: generation.cases.patients?.name ?? null,
+        createdAt: generation.created_at,
+        sections: noteFromStoredContent(generation.content, title).sections,
+        review: reviewOf({ type: "generation", id: generation.id }),
+      };
+    }
+  );
+
+  const noteDocuments: ReviewDocument[] = (notesResult?.data || []).map(
+    (note) => ({
+      type: "soap_note",
+      id: note.id,
+      caseId: note.cases.id,
+      title: note.title,
+      visitType: note.cases.type,
+      patientName: note.cases.patients?.name ?? null,
+      createdAt: note.created_at,
+      sections: noteSectionsOf(note.sections),
+      review: reviewOf({ type: "soap_note", id: note.id }),
+    })
+  );
+
+  return [...generationDocuments, ...noteDocuments].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+/**
+ * Loads a page of an Export Center queue, newest first
+ * The export_queue view picks the documents and their queue in SQL, so only
+ * the documents on the page are loaded with their content
+ */
+export async function loadExportQueuePage(
+  context: ClinicContext,
+  queue: ExportQueue,
+  limit: number,
+  cursor?: ExportQueueCursor
+): Promise<ExportQueuePage> {
+  const supabase = await createClient();
+  let query = supabase
+    .from("export_queue")
+    .select("document_type, document_id, created_at")
+    .eq("clinic_id", context.clinicId)
+    .eq("queue", queue)
+    .order("created_at", { ascending: false })
+    .order("document_id", { ascending: false })
+    .limit(limit + 1);
+
+  // Documents created at the same time as the cursor are ordered by id
+  if (cursor) {
+    query = query.or(
+      `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",document_id.lt.${cursor.id})`
+    );
+  }
+
+  const { data: rows, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  const page = (rows || []).slice(0, limit);
+  const last = page[page.length - 1];
+  const refs = page.map((row) => ({
+    type: row.document_type as DocumentRef["type"],
+    id: row.document_id!,
+  }));
+
+  const documents = await loadClinicDocuments(context, { refs });
+  const byKey = new Map(
+    documents.map((document) => [documentKey(document), document])
+  );
+
+  return {
+    // Documents deleted since the page was listed are left out
+    documents: refs.flatMap((ref) => byKey.get(documentKey(ref)) ?? []),
+    nextCursor:
+      (rows || []).length > limit && last
+        ? { createdAt: last.created_at!, id: last.document_id! }
+        : null,
+  };
+}
@@ -0,0 +1,232 @@
+"use server";
+
+/**
+ * PDF server actions
+ * Renders a note, a generation or a whole case summary as a PDF on the
+ * clinic's letterhead, for download or as an email attachment. A single
+ * document must be approved first; a case summary marks the documents that
+ * are not as drafts. Every PDF is logged in the export history.
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { requireCaseAccess } from "../common/clinic";
+import { casePdfEmailSchema, casePdfSchema } from "../common/validation";
+import { sendEmail } from "../email/service";
+import { resolveCaseVariables } from "../templates/variables";
+import { loadClinicDocuments } from "./documents";
+import { renderClinicalPdf } from "@/src/lib/pdf/clinical-document";
+import { escapeHtml } from "@/src/lib/templates/variables";
+import type {
+  ClinicContext,
+  DocumentRef,
+  ExportDestination,
+  ReviewDocument,
+} from "../types";
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+/**
+ * File name part, e.g. "Rex's SOAP Note" -> "rex-s-soap-note"
+ */
+function fileNamePart(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Renders the PDF for one document of a case, or for every document of the
+ * case (the latest version of each generation) as a case summary
+ */
+async function buildCasePdf(caseId: string, document?: DocumentRef) {
+  const context = await requireCaseAccess(caseId);
+
+  const supabase = await createClient();
+  const [variables, clinicResult, documents] = await Promise.all([
+    resolveCaseVariables(caseId),
+    supabase
+      .from("clinics")
+      .select("name, address, phone, email")
+      .eq("id", context.clinicId)
+      .single(),
+    loadClinicDocuments(context, document ? { refs: [document] } : { caseId }),
+  ]);
+
+  if (clinicResult.error) {
+    throw clinicResult.error;
+  }
+
+  const caseDocuments = documents
+    .filter((d) => d.caseId === caseId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  if (document && caseDocuments.length === 0) {
+    throw new Error("Document not found or unauthorized");
+  }
+  if (caseDocuments.length === 0) {
+    throw new Error("This case has no notes or generated documents yet");
+  }
+  if (document && caseDocuments[0].review?.decision !== "approved") {
+    throw new Error(
+      `Only approved documents can be exported: ${caseDocuments[0].title}`
+    );
+  }
+
+  const clinic = clinicResult.data;
+  const title = document ? caseDocuments[0].title : "Case Summary";
+  const content = renderClinicalPdf({
+    letterhead: {
+      clinicName: clinic.name,
+      address: clinic.address,
+      phone: clinic.phone,
+      email: clinic.email,
+    },
+    title,
+    header: [
+      { label: "Patient", value: variables.patientName },
+      { label: "Species", value: variables.species },
+      { label: "Age", value: variables.patientAge },
+      { label: "Weight", value: variables.patientWeight },
+      { label: "Owner", value: variables.ownerName },
+      { label: "Clinician", value: variables.clinicianName },
+      { label: "Visit type", value: variables.visitType },
+      { label: "Visit date", value: variables.visitDate },
+    ],
+    documents: caseDocuments.map((d) => ({
+      title: d.title,
+      sections: d.sections,
+      approval:
+        d.review?.decision === "approved"
+          ? `Approved${d.review.reviewer ? ` by ${d.review.reviewer}` : ""} on ${formatDate(new Date(d.review.reviewedAt))}`
+          : "Draft: not yet approved",
+    })),
+    signature: {
+      name: variables.clinicianName,
+      date: formatDate(new Date()),
+    },
+  });
+
+  const filename = `${[variables.patientName, title]
+    .filter(Boolean)
+    .map((part) => fileNamePart(part!))
+    .join("-")}.pdf`;
+
+  return {
+    context,
+    documents: caseDocuments,
+    filename,
+    title,
+    patientName: variables.patientName,
+    content,
+  };
+}
+
+/**
+ * Logs the documents of a PDF in the export history; a case summary's
+ * documents share a batch
+ */
+async function logPdfExport(
+  context: ClinicContext,
+  documents: ReviewDocument[],
+  destination: ExportDestination,
+  recipient?: string
+) {
+  const supabase = await createClient();
+  const batchId = crypto.randomUUID();
+  const { error } = await supabase.from("document_exports").insert(
+    documents.map((document) => ({
+      clinic_id: context.clinicId,
+      batch_id: batchId,
+      case_id: document.caseId,
+      generation_id: document.type === "generation" ? document.id : null,
+      soap_note_id: document.type === "soap_note" ? document.id : null,
+      document_title: document.title,
+      format: "pdf" as const,
+      destination,
+      recipient: recipient || null,
+      exported_by: context.userId,
+    }))
+  );
+
+  if (error) {
+    throw error;
+  }
+
+  revalidatePath("/dashboard/export-center");
+}
+
+/**
+ * Gets a PDF of a document of the case, or of the whole case
+ * The file is returned base64 encoded for the browser to save
+ */
+export async function getCasePdf(request: {
+  caseId: string;
+  document?: DocumentRef;
+}) {
+  try {
+    const parsed = casePdfSchema.parse(request);
+    const pdf = await buildCasePdf(parsed.caseId, parsed.document);
+    await logPdfExport(pdf.context, pdf.documents, "download");
+
+    return {
+      success: true,
+      file: {
+        filename: pdf.filename,
+        mimeType: "application/pdf",
+        content: pdf.content.toString("base64"),
+      },
+    };
+  } catch (error) {
+    console.error("Failed to create PDF:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to create PDF",
+    };
+  }
+}
+
+/**
+ * Emails a PDF of a document of the case, or of the whole case, as an
+ * attachment
+ */
+export async function emailCasePdf(request: {
+  caseId: string;
+  document?: DocumentRef;
+  recipient: string;
+}) {
+  try {
+    const parsed = casePdfEmailSchema.parse(request);
+    const pdf = await buildCasePdf(parsed.caseId, parsed.document);
+
+    const subject = pdf.patientName
+      ? `${pdf.title} for ${pdf.patientName}`
+      : pdf.title;
+    const result = await sendEmail({
+      to: parsed.recipient,
+      subject,
+      html: `<p>Please find the ${escapeHtml(subject)} attached.</p>`,
+      attachments: [{ filename: pdf.filename, content: pdf.content }],
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to send email");
+    }
+    await logPdfExport(pdf.context, pdf.documents, "email", parsed.recipient);
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("Failed to email PDF:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to email PDF",
+    };
+  }
+}
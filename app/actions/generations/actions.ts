@@ -7,20 +7,101 @@
 
 import { createClient } from "@/src/lib/supabase/server";
 import { generateObject, generateText } from "ai";
-import { openai } from "@ai-sdk/openai";
 import { getCurrentUserId } from "../common/auth";
 import { Tables } from "@/database.types";
 import { revalidatePath } from "next/cache";
 import { getTemplateById } from "../templates/actions";
 import { simpleSendEmail } from "../email/service";
+import { requireCaseAccess, requireClinicContext } from "../common/clinic";
+import { templateTrialSchema } from "../common/validation";
+import {
+  formatFieldErrors,
+  templateOutputSchema,
+  templateSchemaDefinition,
+  toZodSchema,
+  type TemplateFieldError,
+} from "@/src/lib/templates/schema";
+import { isLlmProviderId } from "@/src/lib/llm/catalog";
+import { resolveTemplateModel, templateLanguageModel } from "@/src/lib/llm";
+import { resolveCaseVariables } from "../templates/variables";
+import { emitWebhookEvent } from "../webhooks/emit";
+import {
+  exampleVariableValues,
+  findVariableErrors,
+  type TemplateVariableValues,
+} from "@/src/lib/templates/variables";
+import {
+  buildTemplatePrompt,
+  outputFieldErrors,
+  renderTemplatePrompt,
+  transcriptionIdsOf,
+} from "./prompt";
+import type {
+  GenerationLineage,
+  GenerationSource,
+  Template,
+  TranscriptInput,
+} from "../types";
+
+// Template fields needed to generate content
+type TemplateRunInput = Pick<
+  Template,
+  "name" | "type" | "description" | "prompt" | "provider" | "model" | "output_schema"
+>;
+
+/**
+ * Runs a template's prompt over the transcripts with its language model
+ * Returns the content, or the field errors when structured output did not
+ * match the template's schema
+ */
+async function runTemplate(
+  template: TemplateRunInput,
+  transcriptions: string | Array<string | TranscriptInput>,
+  variables: TemplateVariableValues
+): Promise<
+  | { content: string | Record<string, unknown> }
+  | { fieldErrors: TemplateFieldError[] }
+> {
+  const outputSchema = templateOutputSchema(template);
+  const prompt = buildTemplatePrompt(template, transcriptions, variables);
+  const model = templateLanguageModel(template);
+
+  if (!outputSchema) {
+    // Templates without an output schema produce free text
+    const { text } = await generateText({
+      model,
+      prompt,
+    });
+    return { content: text };
+  }
+
+  // Structured templates are generated against their output schema; the
+  // SDK validates the model's output and fails rather than guessing
+  try {
+    const { object } = await generateObject({
+      model,
+      schema: toZodSchema(outputSchema),
+      schemaName: "template_output",
+      schemaDescription: template.description || template.name || undefined,
+      prompt,
+    });
+    return { content: object as Record<string, unknown> };
+  } catch (error) {
+    const fieldErrors = outputFieldErrors(error);
+    if (!fieldErrors) {
+      throw error;
+    }
+    return { fieldErrors };
+  }
+}
 
 /**
  * Generates structured output from transcriptions using AI based on a template
  * Used in the SOAP note generation component
  */
 export async function generateContentFromTemplate(
-  transcriptions: string | string[],
-  templateData: { templateId: string; caseId?: string }
+  transcriptions: string | Array<string | TranscriptInput>,
+  templateData: { templateId: string; caseId?: string } & GenerationLineage
 ) {
   try {
     // Authenticate the user making the request
@@ -30,21 +111,11 @@ export async function generateContentFromTemplate(
       throw new Error("Unauthorized");
     }
 
-    // Normalize transcriptions to an array
-    const transcriptionArray = Array.isArray(transcriptions)
-      ? transcriptions
-      : [transcriptions];
-
     // Log for debugging purposes
     console.log(
-      `Server received ${transcriptionArray.length} transcripts for template generation`
+      `Server received ${Array.isArray(transcriptions) ? transcriptions.length : 1} transcripts for template generation`
     );
 
-    // Combine multiple transcriptions with clear separators
-    const combinedTranscription = transcriptionArray
-      .map((t, i) => `Recording ${i + 1}:\n${t}`)
-      .join("\n\n---\n\n");
-
     // Fetch the template
     const result = await getTemplateById(templateData.templateId);
     if (!result.success || !result.template) {
@@ -55,131 +126,54 @@ export async function generateContentFromTemplate(
     const template = result.template;
     console.log(`Using template: ${template.name} (${template.type})`);
 
-    let generatedContent: any;
-
-    // Handle different template types based on the template.type field
-    if (template.type === "soap") {
-      // For SOAP notes, we still need the structure but we'll use a simpler approach
-      const { text } = await generateText({
-        model: openai(template.model || "gpt-4"),
-        prompt: `${template.prompt || ""}
-        
-        Transcript:
-        ${combinedTranscription}
-        
-        Generate a SOAP note with the following sections:
-        - Subjective: Patient history and symptoms as reported
-        - Objective: Clinical findings and observations
-        - Assessment: Diagnosis and clinical reasoning
-        - Plan: Treatment plan and follow-up instructions
-        
-        Format your response as a JSON object with the keys: subjective, objective, assessment, and plan.
-        Example format:
-        {
-          "subjective": "...",
-          "objective": "...",
-          "assessment": "...",
-          "plan": "..."
-        }`,
-      });
-
-      // Try to parse the response as JSON
-      try {
-        generatedContent = JSON.parse(text);
-      } catch (error) {
-        console.warn("Could not parse SOAP response as JSON:", error);
-        // If parsing fails, create a structured object with the text in the plan field
-        generatedContent = {
-          subjective: "See generated content below",
-          objective: "See generated content below",
-          assessment: "See generated content below",
-          plan: text,
-        };
-      }
-    } else if (template.type === "structured") {
-      // For structured templates, use a text-based approach
-      const fields = template.content
-        ? template.content.split(",").map((f) => f.trim())
-        : [];
-
-      if (fields.length > 0) {
-        const { text } = await generateText({
-          model: openai(template.model || "gpt-4"),
-          prompt: `${template.prompt || ""}
-          
-          Transcript:
-          ${combinedTranscription}
-          
-          Generate content with the following fields: ${fields.join(", ")}
-          
-          Format your response as a JSON object with these keys: ${fields.join(", ")}
-          Example format:
-          {
-            ${fields.map((field) => `"${field}": "..."`).join(",\n            ")}
-          }`,
-        });
-
-        // Try to parse the response as JSON
-        try {
-          generatedContent = JSON.parse(text);
-        } catch (error) {
-          console.warn("Could not parse structured response as JSON:", error);
-          // If parsing fails, return the raw text
-          generatedContent = text;
-        }
-      } else {
-        // Fallback to text generation if no fields are specified
-        const { text } = await generateText({
-          model: openai(template.model || "gpt-4"),
-          prompt: `${template.prompt || ""}
-          
-          Transcript:
-          ${combinedTranscription}`,
-        });
-        generatedContent = text;
-      }
-    } else {
-      // For all other template types, just generate text
-      const { text } = await generateText({
-        model: openai(template.model || "gpt-4"),
-        prompt: `${template.prompt || ""}
-        
-        Transcript:
-        ${combinedTranscription}`,
-      });
-      generatedContent = text;
+    // The prompt's variables come from the case; resolving them also
+    // verifies the case is accessible within the user's active clinic
+    const variables = templateData.caseId
+      ? await resolveCaseVariables(templateData.caseId)
+      : {};
+
+    const generated = await runTemplate(template, transcriptions, variables);
+    if ("fieldErrors" in generated) {
+      console.warn(
+        "Generated content did not match the template:",
+        generated.fieldErrors
+      );
+      return {
+        success: false,
+        error: "The generated content did not match the template's fields",
+        fieldErrors: generated.fieldErrors,
+      };
     }
+    const generatedContent = generated.content;
 
     // Save the generation to the database if a case ID was provided
+    let generation: Tables<"generations"> | undefined;
     if (templateData.caseId) {
-      // Verify the case belongs to the user before saving
-      const supabase = await createClient();
-      const { data: caseData, error: caseError } = await supabase
-        .from("cases")
-        .select("id")
-        .eq("id", templateData.caseId)
-        .eq("user_id", userId)
-        .single();
-
-      if (caseError || !caseData) {
-        throw new Error("Case not found or unauthorized");
-      }
-
-      await saveGeneration({
+      const saved = await saveGeneration({
         caseId: templateData.caseId,
         templateId: templateData.templateId,
-        prompt: template.prompt || "",
+        prompt: renderTemplatePrompt(template, variables),
         content:
           typeof generatedContent === "string"
             ? generatedContent
             : JSON.stringify(generatedContent),
+        templateVersion: template.version,
+        transcriptionIds: transcriptionIdsOf(transcriptions),
+        ...resolveTemplateModel(template),
+        parentId: templateData.parentId,
+        source: templateData.source,
       });
+      if (!saved.success) {
+        throw new Error(saved.error);
+      }
+      generation = saved.generation;
     }
 
     return {
       success: true,
       content: generatedContent,
       template: template,
+      generation,
     };
   } catch (error) {
     console.error("Failed to generate content from template:", error);
@@ -193,39 +187,129 @@ export async function generateContentFromTemplate(
   }
 }
 
+/**
+ * Runs a template as it is being edited against a sample transcript
+ * Used by the template editor's "try it" panel; nothing is saved
+ */
+export async function tryTemplate(
+  templateData: Partial<TemplateRunInput>,
+  transcript: string
+) {
+  try {
+    // Resolve the user's active clinic
+    await requireClinicContext();
+
+    const { template, transcript: sample } = templateTrialSchema.parse({
+      template: templateData,
+      transcript,
+    });
+
+    let outputSchema: Template["output_schema"] = null;
+    if (template.output_schema) {
+      const parsed = templateSchemaDefinition.safeParse(template.output_schema);
+      if (!parsed.success) {
+        return {
+          success: false,
+          error: "The template's fields are not valid",
+          fieldErrors: formatFieldErrors(parsed.error),
+        };
+      }
+      outputSchema = parsed.data;
+    }
+
+    if (template.provider && !isLlmProviderId(template.provider)) {
+      throw new Error(`Unknown LLM provider: ${template.provider}`);
+    }
+
+    const variableErrors = findVariableErrors(template.prompt, "generation");
+    if (variableErrors.length > 0) {
+      throw new Error(`Invalid prompt: ${variableErrors.join("; ")}`);
+    }
+
+    const generated = await runTemplate(
+      {
+        name: template.name ?? null,
+        type: template.type ?? null,
+        description: template.description ?? null,
+        prompt: template.prompt,
+        provider: template.provider ?? null,
+        model: template.model ?? null,
+        output_schema: outputSchema,
+      },
+      sample,
+      // Without a case, variables show their catalogue examples
+      exampleVariableValues()
+    );
+
+    if ("fieldErrors" in generated) {
+      return {
+        success: false,
+        error: "The generated content did not match the template's fields",
+        fieldErrors: generated.fieldErrors,
+      };
+    }
+
+    return {
+      success: true,
+      content: generated.content,
+    };
+  } catch (error) {
+    console.error("Failed to try template:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to try template",
+    };
+  }
+}
+
 /**
  * Saves a generation to the database
+ * Lineage fields record what the content was made from; parentId and source
+ * are given when it is a new version of an existing generation
  */
 export async function saveGeneration({
   caseId,
   templateId,
   prompt,
   content,
+  templateVersion,
+  templateVersionId,
+  transcriptionIds,
+  provider,
+  model,
+  parentId,
+  source,
 }: {
   caseId: string;
-  templateId: string;
+  templateId: string | null;
   prompt: string;
   content: string;
+  templateVersion?: number | null;
+  // Looked up from the template and version number when not given
+  templateVersionId?: string | null;
+  transcriptionIds?: string[];
+  provider?: string | null;
+  model?: string | null;
+  parentId?: string | null;
+  source?: GenerationSource;
 }) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
+    // Verify the case is accessible within the user's active clinic
+    const context = await requireCaseAccess(caseId);
 
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
-
-    // Verify the case belongs to the user
     const supabase = await createClient();
-    const { data: caseData, error: caseError } = await supabase
-      .from("cases")
-      .select("id")
-      .eq("id", caseId)
-      .eq("user_id", userId)
-      .single();
+    const userId = await getCurrentUserId();
 
-    if (caseError || !caseData) {
-      throw new Error("Case not found or unauthorized");
+    // Record the exact template version the content was made with
+    let versionId = templateVersionId ?? null;
+    if (templateVersionId === undefined && templateId && templateVersion) {
+      const { data: version } = await supabase
+        .from("template_versions")
+        .select("id")
+        .eq("template_id", templateId)
+        .eq("version", templateVersion)
+        .maybeSingle();
+      versionId = version?.id ?? null;
     }
 
     // Create the generation
@@ -236,6 +320,14 @@ export async function saveGeneration({
         template_id: templateId,
         prompt: prompt,
         content: content,
+        template_version: templateVersion ?? null,
+        template_version_id: versionId,
+        transcription_ids: transcriptionIds || [],
+        provider: provider ?? null,
+        model: model ?? null,
+        parent_id: parentId ?? null,
+        source: source || "generated",
+        created_by: userId,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
@@ -246,6 +338,17 @@ export async function saveGeneration({
       throw error;
     }
 
+    await emitWebhookEvent(context, "generation.created", {
+      generation: {
+        id: generation.id,
+        caseId,
+        templateId: generation.template_id,
+        parentId: generation.parent_id,
+        source: generation.source,
+        createdAt: generation.created_at,
+      },
+    });
+
     // Revalidate paths
     revalidatePath(`/dashboard/case/${caseId}`);
 
@@ -268,25 +371,10 @@ export async function saveGeneration({
  */
 export async function getGenerationsForCase(caseId: string) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
+    // Verify the case is accessible within the user's active clinic
+    await requireCaseAccess(caseId);
 
-    // Verify the case belongs to the user
     const supabase = await createClient();
-    const { data: caseData, error: caseError } = await supabase
-      .from("cases")
-      .select("id")
-      .eq("id", caseId)
-      .eq("user_id", userId)
-      .single();
-
-    if (caseError || !caseData) {
-      throw new Error("Case not found or unauthorized");
-    }
 
     // Get all generations for the case
     const { data: generations, error } = await supabase
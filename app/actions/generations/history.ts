@@ -0,0 +1,241 @@
+"use server";
+
+/**
+ * Generation history server actions
+ * Generations are never changed in place: editing, restoring or regenerating
+ * saves a new version that points at the one it came from
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { requireCaseAccess } from "../common/clinic";
+import { generationEditSchema } from "../common/validation";
+import { lineageOf } from "@/src/lib/generation-lineage";
+import { generateContentFromTemplate, saveGeneration } from "./actions";
+import type {
+  Generation,
+  GenerationVersion,
+  SpeakerLabels,
+  TranscriptInput,
+  TranscriptSegment,
+} from "../types";
+
+/**
+ * Loads a generation after checking its case is accessible
+ */
+async function getAccessibleGeneration(generationId: string) {
+  const supabase = await createClient();
+  const { data: generation, error } = await supabase
+    .from("generations")
+    .select("*")
+    .eq("id", generationId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!generation || !generation.case_id) {
+    throw new Error("Generation not found");
+  }
+
+  // Verify the case is accessible within the user's active clinic
+  await requireCaseAccess(generation.case_id);
+
+  return generation as Generation & { case_id: string };
+}
+
+/**
+ * Saves a new version of a generation with the same inputs and new content
+ */
+function saveVersion(
+  parent: Generation & { case_id: string },
+  content: string,
+  source: "edited" | "restored"
+) {
+  return saveGeneration({
+    caseId: parent.case_id,
+    templateId: parent.template_id,
+    prompt: parent.prompt || "",
+    content,
+    templateVersion: parent.template_version,
+    templateVersionId: parent.template_version_id,
+    transcriptionIds: parent.transcription_ids,
+    provider: parent.provider,
+    model: parent.model,
+    parentId: parent.id,
+    source,
+  });
+}
+
+/**
+ * Gets every version of the generation's lineage, oldest first
+ * Used by the history panel on the case view
+ */
+export async function getGenerationHistory(generationId: string) {
+  try {
+    const generation = await getAccessibleGeneration(generationId);
+
+    // Lineages are small, so the case's generations are grouped here
+    const supabase = await createClient();
+    const { data: generations, error } = await supabase
+      .from("generations")
+      .select("*, templates(id, name, type, output_schema)")
+      .eq("case_id", generation.case_id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    const versions: GenerationVersion[] = lineageOf(
+      generations as Array<Omit<GenerationVersion, "version">>,
+      generationId
+    ).map((version, index) => ({ ...version, version: index + 1 }));
+
+    return {
+      success: true,
+      versions,
+    };
+  } catch (error) {
+    console.error("Failed to get generation history:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to get generation history",
+    };
+  }
+}
+
+/**
+ * Saves hand-edited content as a new version of a generation
+ */
+export async function editGeneration(generationId: string, content: string) {
+  try {
+    const parent = await getAccessibleGeneration(generationId);
+    const parsed = generationEditSchema.parse({ content });
+
+    const result = await saveVersion(parent, parsed.content, "edited");
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    revalidatePath(`/case/${parent.case_id}`);
+
+    return {
+      success: true,
+      generation: result.generation,
+    };
+  } catch (error) {
+    console.error("Failed to edit generation:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to edit generation",
+    };
+  }
+}
+
+/**
+ * Makes an earlier version current again by saving its content as the
+ * newest version
+ */
+export async function restoreGeneration(generationId: string) {
+  try {
+    const parent = await getAccessibleGeneration(generationId);
+
+    const result = await saveVersion(parent, parent.content || "", "restored");
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    revalidatePath(`/case/${parent.case_id}`);
+
+    return {
+      success: true,
+      generation: result.generation,
+    };
+  } catch (error) {
+    console.error("Failed to restore generation:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to restore generation",
+    };
+  }
+}
+
+/**
+ * Generates a new version from the transcripts a version was made from,
+ * optionally with a different template
+ * Generations saved before transcripts were recorded use all of the case's
+ * transcripts
+ */
+export async function regenerateGeneration(
+  generationId: string,
+  templateId?: string
+) {
+  try {
+    const parent = await getAccessibleGeneration(generationId);
+    const targetTemplateId = templateId || parent.template_id;
+
+    if (!targetTemplateId) {
+      throw new Error("Choose a template to regenerate with");
+    }
+
+    const supabase = await createClient();
+    let query = supabase
+      .from("transcriptions")
+      .select("id, transcript, segments, speaker_labels, created_at")
+      .eq("case_id", parent.case_id)
+      .not("transcript", "is", null)
+      .order("created_at", { ascending: true });
+
+    if (parent.transcription_ids.length > 0) {
+      query = query.in("id", parent.transcription_ids);
+    }
+
+    const { data: transcriptions, error } = await query;
+    if (error) {
+      throw error;
+    }
+    if (!transcriptions || transcriptions.length === 0) {
+      throw new Error("The transcripts for this generation are no longer available");
+    }
+
+    const inputs: TranscriptInput[] = transcriptions.map((t) => ({
+      id: t.id,
+      transcript: t.transcript || "",
+      segments: (t.segments as TranscriptSegment[] | null) || undefined,
+      speakerLabels: (t.speaker_labels as SpeakerLabels | null) || undefined,
+    }));
+
+    const result = await generateContentFromTemplate(inputs, {
+      templateId: targetTemplateId,
+      caseId: parent.case_id,
+      parentId: parent.id,
+      source: "regenerated",
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    revalidatePath(`/case/${parent.case_id}`);
+
+    return {
+      success: true,
+      generation: result.generation,
+    };
+  } catch (error) {
+    console.error("Failed to regenerate generation:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to regenerate generation",
+    };
+  }
+}
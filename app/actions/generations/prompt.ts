@@ -0,0 +1,108 @@
+/**
+ * Prompt building shared by the generation action and the streaming route
+ * This file does NOT have "use server" directive: these helpers are only
+ * called from other server code and must not be exposed as actions
+ */
+
+import { NoObjectGeneratedError, TypeValidationError } from "ai";
+import { ZodError } from "zod";
+import { formatSegments } from "@/src/lib/transcription/segments";
+import {
+  formatFieldErrors,
+  type TemplateFieldError,
+} from "@/src/lib/templates/schema";
+import {
+  renderTemplate,
+  type TemplateVariableValues,
+} from "@/src/lib/templates/variables";
+import type { Template, TranscriptInput } from "../types";
+
+/**
+ * Text of a transcript as it is given to the model
+ */
+function transcriptForPrompt(transcription: string | TranscriptInput) {
+  if (typeof transcription === "string") {
+    return transcription;
+  }
+
+  if (transcription.segments && transcription.segments.length > 0) {
+    return formatSegments(transcription.segments, transcription.speakerLabels);
+  }
+
+  return transcription.transcript;
+}
+
+/**
+ * Template's prompt with its variables filled in
+ * Variables without a value are written as "not recorded" so the model does
+ * not mistake a blank for missing text
+ */
+export function renderTemplatePrompt(
+  template: Pick<Template, "prompt">,
+  variables: TemplateVariableValues = {}
+) {
+  return renderTemplate(template.prompt || "", variables, {
+    fallback: "not recorded",
+  });
+}
+
+/**
+ * Builds the prompt for a template from one or more transcripts
+ */
+export function buildTemplatePrompt(
+  template: Pick<Template, "prompt">,
+  transcriptions: string | Array<string | TranscriptInput>,
+  variables: TemplateVariableValues = {}
+) {
+  // Normalize transcriptions to an array
+  const transcriptionArray = Array.isArray(transcriptions)
+    ? transcriptions
+    : [transcriptions];
+
+  // Combine multiple transcriptions with clear separators; diarized
+  // transcripts are written as a conversation using the speaker names
+  const combinedTranscription = transcriptionArray
+    .map((t, i) => `Recording ${i + 1}:\n${transcriptForPrompt(t)}`)
+    .join("\n\n---\n\n");
+
+  return `${renderTemplatePrompt(template, variables)}
+
+Transcript:
+${combinedTranscription}`;
+}
+
+/**
+ * Ids of the saved transcriptions among the transcripts, in order
+ */
+export function transcriptionIdsOf(
+  transcriptions: string | Array<string | TranscriptInput>
+): string[] {
+  return (Array.isArray(transcriptions) ? transcriptions : [])
+    .map((t) => (typeof t === "string" ? undefined : t.id))
+    .filter((id): id is string => Boolean(id));
+}
+
+/**
+ * Field-level errors when the model's output failed schema validation,
+ * or null for any other kind of failure
+ */
+export function outputFieldErrors(
+  error: unknown
+): TemplateFieldError[] | null {
+  if (!NoObjectGeneratedError.isInstance(error)) {
+    return null;
+  }
+
+  const cause = error.cause;
+  if (TypeValidationError.isInstance(cause) && cause.cause instanceof ZodError) {
+    return formatFieldErrors(cause.cause);
+  }
+
+  // The model returned something that was not JSON at all
+  return [
+    {
+      path: "",
+      message: cause instanceof Error ? cause.message : error.message,
+    },
+  ];
+}
@@ -11,9 +11,28 @@ import type {
   CreateCaseInput,
   Case,
   Template,
+  TemplateInsert,
+  TemplateImportResolution,
   CaseStatus,
   CaseType,
   PaginationMeta,
+  ClinicRole,
+  ClinicLetterhead,
+  ClientInput,
+  PatientInput,
+  AudioFileInput,
+  SpeakerLabels,
+  TranscriptInput,
+  TranscriptionSettingsProfile,
+  DocumentRef,
+  ReviewDecision,
+  ExportFormat,
+  ExportDestination,
+  ExportQueue,
+  ExportQueueCursor,
+  PimsConnectionInput,
+  WebhookSubscriptionInput,
+  PersonalAccessTokenInput,
 } from "./types";
 
 // Import all actions statically
@@ -34,6 +53,58 @@ import {
   saveActionsToCase as casesSaveActionsToCase,
 } from "./cases/actions";
 
+import {
+  getClinics as clinicsGetClinics,
+  getActiveClinic as clinicsGetActiveClinic,
+  setActiveClinic as clinicsSetActiveClinic,
+  createClinic as clinicsCreateClinic,
+  updateClinic as clinicsUpdateClinic,
+} from "./clinics/actions";
+
+import {
+  getTeamMembers as teamsGetTeamMembers,
+  updateMemberRole as teamsUpdateMemberRole,
+  removeMember as teamsRemoveMember,
+  getPendingInvitations as teamsGetPendingInvitations,
+  inviteMember as teamsInviteMember,
+  revokeInvitation as teamsRevokeInvitation,
+  acceptInvitation as teamsAcceptInvitation,
+} from "./teams/actions";
+
+import {
+  getClients as clientsGetClients,
+  getClientById as clientsGetClientById,
+  addClient as clientsAddClient,
+  updateClient as clientsUpdateClient,
+  deleteClient as clientsDeleteClient,
+  linkPatientToClient as clientsLinkPatientToClient,
+  getCaseClient as clientsGetCaseClient,
+} from "./clients/actions";
+
+import {
+  getPatients as patientsGetPatients,
+  createPatient as patientsCreatePatient,
+} from "./patients/actions";
+
+import {
+  createAudioFile as audioCreateAudioFile,
+  completeAudioUpload as audioCompleteAudioUpload,
+  getAudioPlaybackUrl as audioGetAudioPlaybackUrl,
+} from "./audio/actions";
+
+import {
+  transcribeAudioFile as transcriptionsTranscribeAudioFile,
+  getTranscription as transcriptionsGetTranscription,
+  updateSpeakerLabels as transcriptionsUpdateSpeakerLabels,
+} from "./transcriptions/actions";
+
+import {
+  getTranscriptionSettings as transcriptionSettingsGet,
+  updateClinicTranscriptionSettings as transcriptionSettingsUpdateClinic,
+  updateUserTranscriptionSettings as transcriptionSettingsUpdateUser,
+  resetUserTranscriptionSettings as transcriptionSettingsResetUser,
+} from "./transcriptions/settings";
+
 import {
   getAppointments as appointmentsGetAppointments,
   getAppointmentById as appointmentsGetAppointmentById,
@@ -43,8 +114,16 @@ import {
 
 import {
   generateContentFromTemplate as generationsGenerateContentFromTemplate,
+  tryTemplate as generationsTryTemplate,
 } from "./generations/actions";
 
+import {
+  getGenerationHistory as generationsGetHistory,
+  editGeneration as generationsEdit,
+  restoreGeneration as generationsRestore,
+  regenerateGeneration as generationsRegenerate,
+} from "./generations/history";
+
 import {
   simpleSendEmail as emailSimpleSendEmail,
 } from "./email/service.ts";
@@ -65,12 +144,61 @@ import {
 import {
   getEmailTemplates as templatesGetEmailTemplates,
   getTemplates as templatesGetTemplates,
-  ensureDefaultTemplates as templatesEnsureDefaultTemplates,
   createTemplate as templatesCreateTemplate,
   updateTemplate as templatesUpdateTemplate,
   deleteTemplate as templatesDeleteTemplate,
 } from "./templates/actions";
 
+import {
+  getTemplateVersions as templateVersionsGetTemplateVersions,
+  saveTemplateDraft as templateVersionsSaveTemplateDraft,
+  publishTemplateVersion as templateVersionsPublishTemplateVersion,
+  rollbackTemplate as templateVersionsRollbackTemplate,
+} from "./templates/versions";
+
+import {
+  exportTemplates as templateTransferExportTemplates,
+  previewTemplateImport as templateTransferPreviewTemplateImport,
+  importTemplates as templateTransferImportTemplates,
+  ensureDefaultTemplates as templatesEnsureDefaultTemplates,
+} from "./templates/transfer";
+
+import {
+  getExportQueues as exportsGetExportQueues,
+  getExportQueuePage as exportsGetExportQueuePage,
+  reviewDocuments as exportsReviewDocuments,
+  exportDocuments as exportsExportDocuments,
+  getExportHistory as exportsGetExportHistory,
+} from "./exports/actions";
+
+import {
+  getCasePdf as pdfGetCasePdf,
+  emailCasePdf as pdfEmailCasePdf,
+} from "./exports/pdf";
+
+import {
+  getPimsConnections as pimsGetPimsConnections,
+  savePimsConnection as pimsSavePimsConnection,
+  deletePimsConnection as pimsDeletePimsConnection,
+  testPimsConnection as pimsTestPimsConnection,
+  sendToPims as pimsSendToPims,
+  getPimsExportLog as pimsGetPimsExportLog,
+  getPimsExportRequest as pimsGetPimsExportRequest,
+} from "./pims/actions";
+import {
+  getWebhookSubscriptions as webhooksGetWebhookSubscriptions,
+  saveWebhookSubscription as webhooksSaveWebhookSubscription,
+  rotateWebhookSecret as webhooksRotateWebhookSecret,
+  deleteWebhookSubscription as webhooksDeleteWebhookSubscription,
+  getWebhookDeliveries as webhooksGetWebhookDeliveries,
+  redeliverWebhook as webhooksRedeliverWebhook,
+} from "./webhooks/actions";
+import {
+  getPersonalAccessTokens as apiTokensGetPersonalAccessTokens,
+  createPersonalAccessToken as apiTokensCreatePersonalAccessToken,
+  revokePersonalAccessToken as apiTokensRevokePersonalAccessToken,
+} from "./api-tokens/actions";
+
 // Auth actions
 export async function signIn(formData: FormData) {
   return authSignIn(formData);
@@ -122,6 +250,160 @@ export async function saveActionsToCase(
   return casesSaveActionsToCase(caseId, actions);
 }
 
+// Clinic actions
+export async function getClinics() {
+  return clinicsGetClinics();
+}
+
+export async function getActiveClinic() {
+  return clinicsGetActiveClinic();
+}
+
+export async function setActiveClinic(clinicId: string) {
+  return clinicsSetActiveClinic(clinicId);
+}
+
+export async function createClinic(name: string) {
+  return clinicsCreateClinic(name);
+}
+
+export async function updateClinic(
+  name: string,
+  letterhead?: ClinicLetterhead
+) {
+  return clinicsUpdateClinic(name, letterhead);
+}
+
+// Team actions
+export async function getTeamMembers() {
+  return teamsGetTeamMembers();
+}
+
+export async function updateMemberRole(memberId: string, role: ClinicRole) {
+  return teamsUpdateMemberRole(memberId, role);
+}
+
+export async function removeMember(memberId: string) {
+  return teamsRemoveMember(memberId);
+}
+
+export async function getPendingInvitations() {
+  return teamsGetPendingInvitations();
+}
+
+export async function inviteMember(input: {
+  email: string;
+  name?: string;
+  role: ClinicRole;
+}) {
+  return teamsInviteMember(input);
+}
+
+export async function revokeInvitation(invitationId: string) {
+  return teamsRevokeInvitation(invitationId);
+}
+
+export async function acceptInvitation(token: string) {
+  return teamsAcceptInvitation(token);
+}
+
+// Client actions
+export async function getClients(filter?: string) {
+  return clientsGetClients(filter);
+}
+
+export async function getClientById(clientId: string) {
+  return clientsGetClientById(clientId);
+}
+
+export async function addClient(clientData: ClientInput) {
+  return clientsAddClient(clientData);
+}
+
+export async function updateClient(
+  clientId: string,
+  clientData: Partial<ClientInput>
+) {
+  return clientsUpdateClient(clientId, clientData);
+}
+
+export async function deleteClient(clientId: string) {
+  return clientsDeleteClient(clientId);
+}
+
+export async function linkPatientToClient(
+  patientId: string,
+  clientId: string | null
+) {
+  return clientsLinkPatientToClient(patientId, clientId);
+}
+
+export async function getCaseClient(caseId: string) {
+  return clientsGetCaseClient(caseId);
+}
+
+// Patient actions
+export async function getPatients(filter?: string) {
+  return patientsGetPatients(filter);
+}
+
+export async function createPatient(patientData: PatientInput) {
+  return patientsCreatePatient(patientData);
+}
+
+// Audio actions
+export async function createAudioFile(audioData: AudioFileInput) {
+  return audioCreateAudioFile(audioData);
+}
+
+export async function completeAudioUpload(
+  audioFileId: string,
+  succeeded?: boolean
+) {
+  return audioCompleteAudioUpload(audioFileId, succeeded);
+}
+
+export async function getAudioPlaybackUrl(audioFileId: string) {
+  return audioGetAudioPlaybackUrl(audioFileId);
+}
+
+// Transcription actions
+export async function transcribeAudioFile(caseId: string, audioFileId: string) {
+  return transcriptionsTranscribeAudioFile(caseId, audioFileId);
+}
+
+export async function getTranscription(transcriptionId: string) {
+  return transcriptionsGetTranscription(transcriptionId);
+}
+
+export async function updateSpeakerLabels(
+  transcriptionId: string,
+  speakerLabels: SpeakerLabels
+) {
+  return transcriptionsUpdateSpeakerLabels(transcriptionId, speakerLabels);
+}
+
+// Transcription settings actions
+export async function getTranscriptionSettings() {
+  return transcriptionSettingsGet();
+}
+
+export async function updateClinicTranscriptionSettings(
+  profile: TranscriptionSettingsProfile
+) {
+  return transcriptionSettingsUpdateClinic(profile);
+}
+
+export async function updateUserTranscriptionSettings(
+  profile: TranscriptionSettingsProfile
+) {
+  return transcriptionSettingsUpdateUser(profile);
+}
+
+export async function resetUserTranscriptionSettings() {
+  return transcriptionSettingsResetUser();
+}
+
 // Appointment actions
 export async function getAppointments(params: {
   page?: number;
@@ -148,12 +430,38 @@ export async function debugListAllCases() {
 
 // Generation actions
 export async function generateContentFromTemplate(
-  transcriptions: string | string[],
+  transcriptions: string | Array<string | TranscriptInput>,
   templateData: { templateId: string; caseId: string }
 ) {
   return generationsGenerateContentFromTemplate(transcriptions, templateData);
 }
 
+export async function tryTemplate(
+  templateData: Partial<Template>,
+  transcript: string
+) {
+  return generationsTryTemplate(templateData, transcript);
+}
+
+export async function getGenerationHistory(generationId: string) {
+  return generationsGetHistory(generationId);
+}
+
+export async function editGeneration(generationId: string, content: string) {
+  return generationsEdit(generationId, content);
+}
+
+export async function restoreGeneration(generationId: string) {
+  return generationsRestore(generationId);
+}
+
+export async function regenerateGeneration(
+  generationId: string,
+  templateId?: string
+) {
+  return generationsRegenerate(generationId, templateId);
+}
+
 // Email actions
 export async function simpleSendEmail(
   to: string,
@@ -169,6 +477,7 @@ export async function sendEmailWithTemplate(params: {
   from?: string;
   templateId: string;
   templateData?: Record<string, any>;
+  caseId?: string;
   replyTo?: string;
 }) {
   return emailSendWithTemplate(params);
@@ -207,23 +516,187 @@ export async function ensureDefaultTemplates() {
   return templatesEnsureDefaultTemplates();
 }
 
-export async function createTemplate(
-  data: Omit<Template, "id" | "created_at" | "updated_at">
-) {
+export async function createTemplate(data: TemplateInsert) {
   return templatesCreateTemplate(data);
 }
 
-export async function updateTemplate(id: string, data: Partial<Template>) {
-  return templatesUpdateTemplate(id, data);
+export async function updateTemplate(
+  id: string,
+  data: Partial<Template>,
+  options?: { changelog?: string; publish?: boolean }
+) {
+  return templatesUpdateTemplate(id, data, options);
 }
 
 export async function deleteTemplate(id: string) {
   return templatesDeleteTemplate(id);
 }
 
+// Template version actions
+export async function getTemplateVersions(templateId: string) {
+  return templateVersionsGetTemplateVersions(templateId);
+}
+
+export async function saveTemplateDraft(
+  templateId: string,
+  data: Partial<Template>,
+  changelog?: string
+) {
+  return templateVersionsSaveTemplateDraft(templateId, data, changelog);
+}
+
+export async function publishTemplateVersion(versionId: string) {
+  return templateVersionsPublishTemplateVersion(versionId);
+}
+
+export async function rollbackTemplate(templateId: string, versionId: string) {
+  return templateVersionsRollbackTemplate(templateId, versionId);
+}
+
+// Template import and export actions
+export async function exportTemplates(templateIds: string[]) {
+  return templateTransferExportTemplates(templateIds);
+}
+
+export async function previewTemplateImport(file: unknown) {
+  return templateTransferPreviewTemplateImport(file);
+}
+
+export async function importTemplates(
+  file: unknown,
+  resolutions?: Record<string, TemplateImportResolution>,
+  source?: string
+) {
+  return templateTransferImportTemplates(file, resolutions, source);
+}
+
+// Export Center actions
+export async function getExportQueues() {
+  return exportsGetExportQueues();
+}
+
+export async function getExportQueuePage(
+  queue: ExportQueue,
+  cursor: ExportQueueCursor
+) {
+  return exportsGetExportQueuePage(queue, cursor);
+}
+
+export async function reviewDocuments(input: {
+  documents: DocumentRef[];
+  decision: ReviewDecision;
+  comment?: string;
+}) {
+  return exportsReviewDocuments(input);
+}
+
+export async function exportDocuments(input: {
+  documents: DocumentRef[];
+  format: ExportFormat;
+  destination: ExportDestination;
+  recipient?: string;
+}) {
+  return exportsExportDocuments(input);
+}
+
+export async function getExportHistory() {
+  return exportsGetExportHistory();
+}
+
+// PDF actions
+export async function getCasePdf(request: {
+  caseId: string;
+  document?: DocumentRef;
+}) {
+  return pdfGetCasePdf(request);
+}
+
+export async function emailCasePdf(request: {
+  caseId: string;
+  document?: DocumentRef;
+  recipient: string;
+}) {
+  return pdfEmailCasePdf(request);
+}
+
+// PIMS actions
+export async function getPimsConnections() {
+  return pimsGetPimsConnections();
+}
+
+export async function savePimsConnection(input: PimsConnectionInput) {
+  return pimsSavePimsConnection(input);
+}
+
+export async function deletePimsConnection(connectionId: string) {
+  return pimsDeletePimsConnection(connectionId);
+}
+
+export async function testPimsConnection(connectionId: string) {
+  return pimsTestPimsConnection(connectionId);
+}
+
+export async function sendToPims(request: {
+  connectionId: string;
+  documents?: DocumentRef[];
+  caseId?: string;
+}) {
+  return pimsSendToPims(request);
+}
+
+export async function getPimsExportLog() {
+  return pimsGetPimsExportLog();
+}
+
+export async function getPimsExportRequest(entryId: string) {
+  return pimsGetPimsExportRequest(entryId);
+}
+
+// Webhook actions
+export async function getWebhookSubscriptions() {
+  return webhooksGetWebhookSubscriptions();
+}
+
+export async function saveWebhookSubscription(
+  input: WebhookSubscriptionInput
+) {
+  return webhooksSaveWebhookSubscription(input);
+}
+
+export async function rotateWebhookSecret(subscriptionId: string) {
+  return webhooksRotateWebhookSecret(subscriptionId);
+}
+
+export async function deleteWebhookSubscription(subscriptionId: string) {
+  return webhooksDeleteWebhookSubscription(subscriptionId);
+}
+
+export async function getWebhookDeliveries() {
+  return webhooksGetWebhookDeliveries();
+}
+
+export async function redeliverWebhook(deliveryId: string) {
+  return webhooksRedeliverWebhook(deliveryId);
+}
+
+// Personal access token actions
+export async function getPersonalAccessTokens() {
+  return apiTokensGetPersonalAccessTokens();
+}
+
+export async function createPersonalAccessToken(
+  input: PersonalAccessTokenInput
+) {
+  return apiTokensCreatePersonalAccessToken(input);
+}
+
+export async function revokePersonalAccessToken(tokenId: string) {
+  return apiTokensRevokePersonalAccessToken(tokenId);
+}
+
 // Diagnose actions (use generations for SOAP notes)
 export async function generateSoapNotes(
-  transcriptions: string | string[],
+  transcriptions: string | Array<string | TranscriptInput>,
   templateData: { templateId: string; caseId: string }
 ) {
   return generationsGenerateContentFromTemplate(transcriptions, templateData);
@@ -2,43 +2,62 @@
 
 /**
  * Patient management server actions
- * Handles creating, reading, updating, and deleting patients
+ * Handles patient records, weight history, search, merging duplicates and
+ * the per-patient medical timeline
  */
 
 import { createClient } from "@/src/lib/supabase/server";
 import { revalidatePath } from "next/cache";
-import { getCurrentUserId } from "../common/auth";
-import { Tables } from "@/database.types";
+import {
+  assertClinicRole,
+  caseVisibilityFilter,
+  requireCaseAccess,
+  requireClinicContext,
+} from "../common/clinic";
+import {
+  patientSchema,
+  patientSearchSchema,
+  patientWeightSchema,
+} from "../common/validation";
+import { Tables, TablesInsert, TablesUpdate } from "@/database.types";
+import { noteSectionsOf } from "@/src/lib/notes/structured-note";
+import type {
+  Client,
+  PaginationMeta,
+  Patient,
+  PatientInput,
+  PatientSearchParams,
+  PatientSummary,
+  PatientTimelineEvent,
+  PatientWeight,
+} from "../types";
 
 /**
- * Get all patients with optional filtering
+ * Get all patients in the active clinic with optional name filtering
  */
 export async function getPatients(filter?: string) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
 
     // Initialize Supabase client
     const supabase = await createClient();
-    
-    // Start building the query - join with cases to filter by user_id
+
+    // Start building the query - patients are shared across the clinic
     let query = supabase
       .from("patients")
-      .select("*, cases!inner(id, type, status, created_at, user_id)")
-      .eq("cases.user_id", userId);
-    
+      .select("*")
+      .eq("clinic_id", context.clinicId);
+
     // Apply filter if provided
     if (filter) {
       query = query.ilike("name", `%${filter}%`);
     }
-    
+
     // Execute query with ordering
-    const { data: patients, error } = await query
-      .order("created_at", { ascending: false });
+    const { data: patients, error } = await query.order("name", {
+      ascending: true,
+    });
 
     if (error) {
       throw error;
@@ -46,7 +65,7 @@ export async function getPatients(filter?: string) {
 
     return {
       success: true,
-      patients,
+      patients: patients as Patient[],
     };
   } catch (error) {
     console.error("Failed to get patients:", error);
@@ -58,24 +77,104 @@ export async function getPatients(filter?: string) {
 }
 
 /**
- * Get a patient by ID
+ * Search patients by name, owner or microchip with pagination
  */
-export async function getPatientById(patientId: string) {
+export async function searchPatients(params: PatientSearchParams = {}) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    // Validate and apply defaults to the search parameters
+    const filters = patientSearchSchema.parse(params);
+
+    const from = (filters.page - 1) * filters.pageSize;
+    const to = from + filters.pageSize - 1;
+
+    const supabase = await createClient();
+    let query = supabase
+      .from("patients")
+      .select("*, cases(count), patient_weights(weight_kg, recorded_at)", {
+        count: "exact",
+      })
+      .eq("clinic_id", context.clinicId);
 
-    if (!userId) {
-      throw new Error("Unauthorized");
+    if (filters.search) {
+      // Strip characters that have meaning in PostgREST filter syntax
+      const term = filters.search.replace(/[,()*%]/g, " ").trim();
+      if (term) {
+        query = query.or(
+          `name.ilike.%${term}%,owner_name.ilike.%${term}%,microchip_number.ilike.%${term}%`
+        );
+      }
     }
 
-    // Get the patient with case information - verify it belongs to user's cases
+    if (filters.species) {
+      query = query.ilike("species", filters.species);
+    }
+
+    const { data: rows, count, error } = await query
+      .order("name", { ascending: true })
+      .order("id", { ascending: true })
+      .order("recorded_at", {
+        referencedTable: "patient_weights",
+        ascending: false,
+      })
+      .limit(1, { referencedTable: "patient_weights" })
+      .range(from, to);
+
+    if (error) {
+      throw error;
+    }
+
+    const data: PatientSummary[] = (rows || []).map(
+      ({ cases, patient_weights, ...patient }) => ({
+        ...patient,
+        caseCount: cases?.[0]?.count || 0,
+        latestWeightKg: patient_weights?.[0]?.weight_kg ?? null,
+      })
+    );
+
+    const total = count || 0;
+    const meta: PaginationMeta = {
+      total,
+      page: filters.page,
+      pageSize: filters.pageSize,
+      pageCount: Math.ceil(total / filters.pageSize),
+    };
+
+    return {
+      success: true,
+      data,
+      meta,
+    };
+  } catch (error) {
+    console.error("Failed to search patients:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to search patients",
+    };
+  }
+}
+
+/**
+ * Get a patient by ID with their weight history
+ */
+export async function getPatientById(patientId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
     const supabase = await createClient();
     const { data: patient, error } = await supabase
       .from("patients")
-      .select("*, cases!inner(id, type, status, created_at, user_id)")
+      .select("*, patient_weights(*), clients(*)")
       .eq("id", patientId)
-      .eq("cases.user_id", userId)
+      .eq("clinic_id", context.clinicId)
+      .order("recorded_at", {
+        referencedTable: "patient_weights",
+        ascending: false,
+      })
       .single();
 
     if (error) {
@@ -84,7 +183,10 @@ export async function getPatientById(patientId: string) {
 
     return {
       success: true,
-      patient,
+      patient: patient as Patient & {
+        patient_weights: PatientWeight[];
+        clients: Client | null;
+      },
     };
   } catch (error) {
     console.error("Failed to get patient:", error);
@@ -96,48 +198,93 @@ export async function getPatientById(patientId: string) {
 }
 
 /**
- * Update patient information
+ * Create a new patient in the active clinic
  */
-export async function updatePatient(
-  patientId: string,
-  patientData: {
-    name?: string;
-    owner_name?: string;
-  }
-) {
+export async function createPatient(patientData: PatientInput) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
 
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
+    const parsedData = patientSchema.parse(patientData);
+
+    const insertData: TablesInsert<"patients"> = {
+      ...(parsedData as Omit<TablesInsert<"patients">, "clinic_id">),
+      clinic_id: context.clinicId,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
 
-    // Get the patient first to find the case_id for revalidation
+    // Patients linked to a client take the owner name from the client record
     const supabase = await createClient();
-    const { data: existingPatient, error: getError } = await supabase
+    if (parsedData.client_id) {
+      insertData.owner_name = await getClientName(
+        parsedData.client_id,
+        context.clinicId
+      );
+    }
+
+    // Create the patient
+    const { data: patient, error } = await supabase
       .from("patients")
-      .select("case_id")
-      .eq("id", patientId)
+      .insert(insertData)
+      .select()
       .single();
 
-    if (getError) {
-      throw getError;
+    if (error) {
+      throw error;
     }
 
-    // Build update object with only the fields that were provided
-    const updateData: Record<string, any> = {
+    // Revalidate paths
+    revalidatePath("/dashboard");
+    revalidatePath("/dashboard/appointments");
+
+    return {
+      success: true,
+      patient: patient as Patient,
+    };
+  } catch (error) {
+    console.error("Failed to create patient:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to create patient",
+    };
+  }
+}
+
+/**
+ * Update patient information
+ */
+export async function updatePatient(
+  patientId: string,
+  patientData: Partial<PatientInput>
+) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    // Only validate and update the fields that were provided
+    const parsedData = patientSchema.partial().parse(patientData);
+
+    const updateData: TablesUpdate<"patients"> = {
+      ...(parsedData as TablesUpdate<"patients">),
       updated_at: new Date().toISOString(),
     };
 
-    if (patientData.name !== undefined) updateData.name = patientData.name;
-    if (patientData.owner_name !== undefined) updateData.owner_name = patientData.owner_name;
+    // Patients linked to a client take the owner name from the client record
+    const supabase = await createClient();
+    if (parsedData.client_id) {
+      updateData.owner_name = await getClientName(
+        parsedData.client_id,
+        context.clinicId
+      );
+    }
 
-    // Update the patient
+    // Update the patient (only within the active clinic)
     const { data: patient, error } = await supabase
       .from("patients")
       .update(updateData)
       .eq("id", patientId)
+      .eq("clinic_id", context.clinicId)
       .select()
       .single();
 
@@ -146,15 +293,13 @@ export async function updatePatient(
     }
 
     // Revalidate paths
-    if (existingPatient?.case_id) {
-      revalidatePath(`/dashboard/case/${existingPatient.case_id}`);
-    }
+    revalidatePath(`/dashboard/patients/${patientId}`);
     revalidatePath("/dashboard");
     revalidatePath("/dashboard/appointments");
 
     return {
       success: true,
-      patient: patient as Tables<"patients">,
+      patient: patient as Patient,
     };
   } catch (error) {
     console.error("Failed to update patient:", error);
@@ -166,35 +311,43 @@ export async function updatePatient(
 }
 
 /**
- * Create a new patient and optionally link to a case
+ * Record a weight reading for a patient, optionally tied to a case
  */
-export async function createPatient({
-  name,
-  owner_name,
-  case_id,
-}: {
-  name: string;
-  owner_name: string;
-  case_id?: string;
-}) {
+export async function recordPatientWeight(
+  patientId: string,
+  weight: { weightKg: number; recordedAt?: string; caseId?: string }
+) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
 
-    if (!userId) {
-      throw new Error("Unauthorized");
+    const parsedWeight = patientWeightSchema.parse(weight);
+
+    // Readings taken during a visit must belong to an accessible case
+    if (parsedWeight.caseId) {
+      await requireCaseAccess(parsedWeight.caseId);
     }
 
-    // Create the patient
     const supabase = await createClient();
-    const { data: patient, error } = await supabase
+    const { data: patient, error: getError } = await supabase
       .from("patients")
+      .select("id")
+      .eq("id", patientId)
+      .eq("clinic_id", context.clinicId)
+      .single();
+
+    if (getError || !patient) {
+      throw new Error("Patient not found or unauthorized");
+    }
+
+    const { data: patientWeight, error } = await supabase
+      .from("patient_weights")
       .insert({
-        name,
-        owner_name,
-        case_id: case_id || null,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
+        patient_id: patientId,
+        case_id: parsedWeight.caseId || null,
+        weight_kg: parsedWeight.weightKg,
+        recorded_at: parsedWeight.recordedAt || new Date().toISOString(),
+        recorded_by: context.userId,
       })
       .select()
       .single();
@@ -204,21 +357,269 @@ export async function createPatient({
     }
 
     // Revalidate paths
-    if (case_id) {
-      revalidatePath(`/dashboard/case/${case_id}`);
+    revalidatePath(`/dashboard/patients/${patientId}`);
+    if (parsedWeight.caseId) {
+      revalidatePath(`/dashboard/case/${parsedWeight.caseId}`);
     }
+
+    return {
+      success: true,
+      weight: patientWeight as PatientWeight,
+    };
+  } catch (error) {
+    console.error("Failed to record patient weight:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to record patient weight",
+    };
+  }
+}
+
+/**
+ * Find likely duplicate patients in the active clinic
+ * Patients are grouped by microchip number, or by name and owner when no microchip is set
+ */
+export async function findDuplicatePatients() {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: patients, error } = await supabase
+      .from("patients")
+      .select("*")
+      .eq("clinic_id", context.clinicId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    const groups = new Map<string, Patient[]>();
+    for (const patient of (patients || []) as Patient[]) {
+      const key = patient.microchip_number
+        ? `chip:${patient.microchip_number.trim().toLowerCase()}`
+        : `name:${patient.name.trim().toLowerCase()}|${patient.owner_name
+            .trim()
+            .toLowerCase()}`;
+      groups.set(key, [...(groups.get(key) || []), patient]);
+    }
+
+    return {
+      success: true,
+      duplicates: Array.from(groups.values()).filter(
+        (group) => group.length > 1
+      ),
+    };
+  } catch (error) {
+    console.error("Failed to find duplicate patients:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to find duplicate patients",
+    };
+  }
+}
+
+/**
+ * Merge duplicate patients into a single record (owners and veterinarians only)
+ * Cases and weight history move to the target; the duplicates are deleted
+ */
+export async function mergePatients(
+  targetPatientId: string,
+  duplicatePatientIds: string[]
+) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner", "veterinarian"]);
+
+    if (duplicatePatientIds.length === 0) {
+      throw new Error("Select at least one duplicate patient to merge");
+    }
+
+    // Make sure every patient involved belongs to the active clinic
+    const supabase = await createClient();
+    const patientIds = [targetPatientId, ...duplicatePatientIds];
+    const { data: patients, error: getError } = await supabase
+      .from("patients")
+      .select("id")
+      .in("id", patientIds)
+      .eq("clinic_id", context.clinicId);
+
+    if (getError) {
+      throw getError;
+    }
+
+    if ((patients || []).length !== new Set(patientIds).size) {
+      throw new Error("Patient not found or unauthorized");
+    }
+
+    const { data: patient, error } = await supabase.rpc("merge_patients", {
+      target_patient: targetPatientId,
+      duplicate_patients: duplicatePatientIds,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    // Revalidate paths
+    revalidatePath(`/dashboard/patients/${targetPatientId}`);
     revalidatePath("/dashboard");
     revalidatePath("/dashboard/appointments");
 
     return {
       success: true,
-      patient: patient as Tables<"patients">,
+      patient: patient as Patient,
     };
   } catch (error) {
-    console.error("Failed to create patient:", error);
+    console.error("Failed to merge patients:", error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : "Failed to create patient",
+      error: error instanceof Error ? error.message : "Failed to merge patients",
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Build a patient's medical timeline from all of their visible cases,
+ * transcriptions, SOAP notes and weight readings, newest first
+ */
+export async function getPatientTimeline(patientId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: patient, error: patientError } = await supabase
+      .from("patients")
+      .select("*, patient_weights(*)")
+      .eq("id", patientId)
+      .eq("clinic_id", context.clinicId)
+      .single();
+
+    if (patientError || !patient) {
+      throw new Error("Patient not found or unauthorized");
+    }
+
+    // Only include cases the user can see within the clinic
+    const { data: cases, error: casesError } = await supabase
+      .from("cases")
+      .select(
+        `
+        id,
+        type,
+        status,
+        created_at,
+        transcriptions (
+          id,
+          transcript,
+          created_at
+        ),
+        soap_notes (
+          id,
+          title,
+          sections,
+          created_at
+        )
+      `
+      )
+      .eq("patient_id", patientId)
+      .eq("clinic_id", context.clinicId)
+      .or(caseVisibilityFilter(context));
+
+    if (casesError) {
+      throw casesError;
+    }
+
+    const events: PatientTimelineEvent[] = [];
+
+    for (const caseItem of cases || []) {
+      events.push({
+        type: "case",
+        date: caseItem.created_at || patient.created_at,
+        caseId: caseItem.id,
+        caseType: caseItem.type,
+        status: caseItem.status,
+      });
+
+      for (const transcription of caseItem.transcriptions || []) {
+        events.push({
+          type: "transcription",
+          date: transcription.created_at,
+          caseId: caseItem.id,
+          transcriptionId: transcription.id,
+          transcript: transcription.transcript,
+        });
+      }
+
+      for (const soapNote of caseItem.soap_notes || []) {
+        events.push({
+          type: "soap_note",
+          date: soapNote.created_at,
+          caseId: caseItem.id,
+          soapNoteId: soapNote.id,
+          title: soapNote.title,
+          sections: noteSectionsOf(soapNote.sections),
+        });
+      }
+    }
+
+    for (const weight of patient.patient_weights || []) {
+      events.push({
+        type: "weight",
+        date: weight.recorded_at,
+        caseId: weight.case_id,
+        weightId: weight.id,
+        weightKg: weight.weight_kg,
+      });
+    }
+
+    events.sort(
+      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+    );
+
+    const { patient_weights, ...patientRecord } = patient;
+
+    return {
+      success: true,
+      patient: patientRecord as Patient,
+      weights: patient_weights as Tables<"patient_weights">[],
+      timeline: events,
+    };
+  } catch (error) {
+    console.error("Failed to get patient timeline:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to get patient timeline",
+    };
+  }
+}
+
+/**
+ * Looks up a client's name within the clinic, throwing if it is not accessible
+ */
+async function getClientName(clientId: string, clinicId: string) {
+  const supabase = await createClient();
+  const { data: client, error } = await supabase
+    .from("clients")
+    .select("name")
+    .eq("id", clientId)
+    .eq("clinic_id", clinicId)
+    .single();
+
+  if (error || !client) {
+    throw new Error("Client not found or unauthorized");
+  }
+
+  return client.name;
+}
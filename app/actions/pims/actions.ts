@@ -0,0 +1,563 @@
+"use server";
+
+/**
+ * PIMS export server actions
+ * Owners connect practice-management systems; members send approved
+ * documents to them from the Export Center or the case view. Every message
+ * is audited, delivered or not.
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { createAdminClient } from "@/src/lib/supabase/admin";
+import { revalidatePath } from "next/cache";
+import { assertClinicRole, requireClinicContext } from "../common/clinic";
+import { pimsConnectionSchema, pimsSendSchema } from "../common/validation";
+import { clinicMemberNames, loadClinicDocuments } from "../exports/documents";
+import { loadPimsPayload } from "./payload";
+import {
+  deliverPimsMessage,
+  getPimsAdapter,
+  resolvePimsMapping,
+  samplePimsPayload,
+  type PimsExportPayload,
+} from "@/src/lib/pims";
+import { assertPublicUrl } from "@/src/lib/public-url";
+import type {
+  ClinicContext,
+  DocumentRef,
+  PimsConnection,
+  PimsConnectionInput,
+  PimsExportLogEntry,
+  ReviewDocument,
+} from "../types";
+import type { Tables } from "@/database.types";
+
+const SETTINGS_PATH = "/dashboard/settings/pims";
+
+// Audit entries shown in settings, newest first
+const LOG_LIMIT = 200;
+
+// Audit columns listed in settings; the message is loaded on its own
+const LOG_COLUMNS =
+  "id, clinic_id, connection_id, connection_name, adapter, case_id, documents, is_test, status, response_status, response_body, error, duration_ms, exported_by, created_at";
+
+type PimsConnectionRow = Tables<"pims_connections">;
+
+// A connection for the browser; its credentials are never included
+function toPimsConnection(
+  row: PimsConnectionRow,
+  hasAuthHeader: boolean
+): PimsConnection {
+  return {
+    ...row,
+    mapping: resolvePimsMapping(row.adapter, row.mapping),
+    hasAuthHeader,
+  };
+}
+
+/**
+ * Reads a connection's authorization header for delivery
+ * Members cannot see credentials, so they are read with the service role;
+ * only call this for a connection loaded with the member's own client
+ */
+async function loadAuthHeader(connection: PimsConnectionRow) {
+  const { data: credentials, error } = await createAdminClient()
+    .from("pims_connection_credentials")
+    .select("auth_header")
+    .eq("connection_id", connection.id)
+    .eq("clinic_id", connection.clinic_id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return credentials?.auth_header ?? null;
+}
+
+async function loadConnection(context: ClinicContext, connectionId: string) {
+  const supabase = await createClient();
+  const { data: connection, error } = await supabase
+    .from("pims_connections")
+    .select("*")
+    .eq("id", connectionId)
+    .eq("clinic_id", context.clinicId)
+    .single();
+
+  if (error || !connection) {
+    throw new Error("PIMS connection not found or unauthorized");
+  }
+  return connection;
+}
+
+/**
+ * Builds and delivers the messages for a case, logging each one
+ * Returns how many were delivered and the errors of the others
+ */
+async function sendPayload(
+  context: ClinicContext,
+  connection: PimsConnectionRow,
+  payload: PimsExportPayload,
+  options: { caseId: string | null; isTest: boolean }
+) {
+  const adapter = getPimsAdapter(connection.adapter);
+  const messages = adapter.buildMessages(
+    payload,
+    resolvePimsMapping(connection.adapter, connection.mapping)
+  );
+  const titles = new Map(
+    payload.documents.map((document) => [
+      `${document.type}:${document.id}`,
+      document.title,
+    ])
+  );
+
+  const authHeader = await loadAuthHeader(connection);
+  const supabase = await createClient();
+  let delivered = 0;
+  const errors: string[] = [];
+
+  // One at a time, so the PIMS receives documents in order
+  for (const message of messages) {
+    const delivery = await deliverPimsMessage(
+      adapter,
+      {
+        endpointUrl: connection.endpoint_url,
+        authHeader,
+      },
+      message
+    );
+
+    const { error } = await supabase.from("pims_exports").insert({
+      clinic_id: context.clinicId,
+      connection_id: connection.id,
+      connection_name: connection.name,
+      adapter: connection.adapter,
+      case_id: options.caseId,
+      documents: message.documents.map((ref) => ({
+        ...ref,
+        title: titles.get(`${ref.type}:${ref.id}`) || null,
+      })),
+      is_test: options.isTest,
+      status: delivery.delivered ? "delivered" : "failed",
+      request_body: message.body,
+      response_status: delivery.status,
+      response_body: delivery.responseBody,
+      error: delivery.error,
+      duration_ms: delivery.durationMs,
+      exported_by: context.userId,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    if (delivery.delivered) {
+      delivered++;
+    } else {
+      errors.push(delivery.error || "Delivery failed");
+    }
+  }
+
+  return { delivered, errors };
+}
+
+/**
+ * Gets the clinic's PIMS connections and whether the member may manage them
+ */
+export async function getPimsConnections() {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    // Only owners can see which connections have credentials
+    const supabase = await createClient();
+    const [connectionsResult, credentialsResult] = await Promise.all([
+      supabase
+        .from("pims_connections")
+        .select("*")
+        .eq("clinic_id", context.clinicId)
+        .order("name", { ascending: true }),
+      supabase
+        .from("pims_connection_credentials")
+        .select("connection_id")
+        .eq("clinic_id", context.clinicId),
+    ]);
+
+    if (connectionsResult.error) {
+      throw connectionsResult.error;
+    }
+    if (credentialsResult.error) {
+      throw credentialsResult.error;
+    }
+
+    const withCredentials = new Set(
+      (credentialsResult.data || []).map((row) => row.connection_id)
+    );
+
+    return {
+      success: true,
+      connections: (connectionsResult.data || []).map((connection) =>
+        toPimsConnection(connection, withCredentials.has(connection.id))
+      ),
+      canManage: context.role === "owner",
+    };
+  } catch (error) {
+    console.error("Failed to get PIMS connections:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to get PIMS connections",
+    };
+  }
+}
+
+/**
+ * Creates or updates a PIMS connection
+ * Only clinic owners can manage connections
+ */
+export async function savePimsConnection(input: PimsConnectionInput) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const parsed = pimsConnectionSchema.parse(input);
+    await assertPublicUrl(parsed.endpointUrl);
+    const values = {
+      name: parsed.name,
+      adapter: parsed.adapter,
+      endpoint_url: parsed.endpointUrl,
+      mapping: resolvePimsMapping(parsed.adapter, parsed.mapping),
+      enabled: parsed.enabled,
+    };
+
+    const supabase = await createClient();
+    const { data: connection, error } = parsed.id
+      ? await supabase
+          .from("pims_connections")
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq("id", parsed.id)
+          .eq("clinic_id", context.clinicId)
+          .select("*")
+          .single()
+      : await supabase
+          .from("pims_connections")
+          .insert({
+            ...values,
+            clinic_id: context.clinicId,
+            created_by: context.userId,
+          })
+          .select("*")
+          .single();
+
+    if (error) {
+      throw error;
+    }
+
+    // The header is left unchanged unless a new one is entered or it is
+    // removed
+    if (parsed.authHeader) {
+      const { error: credentialsError } = await supabase
+        .from("pims_connection_credentials")
+        .upsert({
+          connection_id: connection.id,
+          clinic_id: context.clinicId,
+          auth_header: parsed.authHeader,
+          updated_at: new Date().toISOString(),
+        });
+
+      if (credentialsError) {
+        throw credentialsError;
+      }
+    } else if (parsed.authHeader !== undefined) {
+      const { error: credentialsError } = await supabase
+        .from("pims_connection_credentials")
+        .delete()
+        .eq("connection_id", connection.id);
+
+      if (credentialsError) {
+        throw credentialsError;
+      }
+    }
+
+    let hasAuthHeader = !!parsed.authHeader;
+    if (parsed.authHeader === undefined) {
+      const { data: credentials } = await supabase
+        .from("pims_connection_credentials")
+        .select("connection_id")
+        .eq("connection_id", connection.id)
+        .maybeSingle();
+      hasAuthHeader = !!credentials;
+    }
+
+    revalidatePath(SETTINGS_PATH);
+
+    return {
+      success: true,
+      connection: toPimsConnection(connection, hasAuthHeader),
+    };
+  } catch (error) {
+    console.error("Failed to save PIMS connection:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to save PIMS connection",
+    };
+  }
+}
+
+/**
+ * Deletes a PIMS connection; its audit entries are kept
+ */
+export async function deletePimsConnection(connectionId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const supabase = await createClient();
+    const { error } = await supabase
+      .from("pims_connections")
+      .delete()
+      .eq("id", connectionId)
+      .eq("clinic_id", context.clinicId);
+
+    if (error) {
+      throw error;
+    }
+
+    revalidatePath(SETTINGS_PATH);
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("Failed to delete PIMS connection:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to delete PIMS connection",
+    };
+  }
+}
+
+/**
+ * Sends a made-up case through a connection to check the endpoint and
+ * mapping; the test is logged like any other export
+ */
+export async function testPimsConnection(connectionId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const connection = await loadConnection(context, connectionId);
+    const supabase = await createClient();
+    const { data: clinic, error } = await supabase
+      .from("clinics")
+      .select("id, name")
+      .eq("id", context.clinicId)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const result = await sendPayload(
+      context,
+      connection,
+      samplePimsPayload(clinic),
+      { caseId: null, isTest: true }
+    );
+
+    revalidatePath(SETTINGS_PATH);
+
+    return {
+      success: true,
+      delivered: result.errors.length === 0,
+      error: result.errors[0],
+    };
+  } catch (error) {
+    console.error("Failed to test PIMS connection:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to test PIMS connection",
+    };
+  }
+}
+
+/**
+ * Sends approved documents to a PIMS, picked in the Export Center or all
+ * approved documents of a case
+ * Documents are sent case by case; failed deliveries are reported and
+ * logged without stopping the others
+ */
+export async function sendToPims(request: {
+  connectionId: string;
+  documents?: DocumentRef[];
+  caseId?: string;
+}) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const parsed = pimsSendSchema.parse(request);
+    const connection = await loadConnection(context, parsed.connectionId);
+    if (!connection.enabled) {
+      throw new Error(`${connection.name} is disabled`);
+    }
+
+    let documents: ReviewDocument[];
+    if (parsed.documents) {
+      documents = await loadClinicDocuments(context, {
+        refs: parsed.documents,
+      });
+      if (documents.length !== parsed.documents.length) {
+        throw new Error("Document not found or unauthorized");
+      }
+      const notApproved = documents.filter(
+        (document) => document.review?.decision !== "approved"
+      );
+      if (notApproved.length > 0) {
+        throw new Error(
+          `Only approved documents can be exported: ${notApproved.map((document) => document.title).join(", ")}`
+        );
+      }
+    } else {
+      // The schema requires a case when no documents are given
+      documents = (
+        await loadClinicDocuments(context, { caseId: parsed.caseId! })
+      ).filter((document) => document.review?.decision === "approved");
+      if (documents.length === 0) {
+        throw new Error("This case has no approved documents to export");
+      }
+    }
+
+    const byCase = new Map<string, ReviewDocument[]>();
+    for (const document of documents) {
+      byCase.set(document.caseId, [
+        ...(byCase.get(document.caseId) || []),
+        document,
+      ]);
+    }
+
+    let delivered = 0;
+    const errors: string[] = [];
+    for (const [caseId, caseDocuments] of Array.from(byCase)) {
+      const payload = await loadPimsPayload(context, caseId, caseDocuments);
+      const result = await sendPayload(context, connection, payload, {
+        caseId,
+        isTest: false,
+      });
+      delivered += result.delivered;
+      errors.push(...result.errors);
+    }
+
+    revalidatePath(SETTINGS_PATH);
+
+    return {
+      success: true,
+      delivered,
+      failed: errors.length,
+      errors,
+    };
+  } catch (error) {
+    console.error("Failed to send documents to PIMS:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to send documents to PIMS",
+    };
+  }
+}
+
+/**
+ * Gets the most recent messages sent to the clinic's PIMS connections
+ */
+export async function getPimsExportLog() {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const [{ data: entries, error }, names] = await Promise.all([
+      supabase
+        .from("pims_exports")
+        .select(LOG_COLUMNS)
+        .eq("clinic_id", context.clinicId)
+        .order("created_at", { ascending: false })
+        .limit(LOG_LIMIT),
+      clinicMemberNames(context),
+    ]);
+
+    if (error) {
+      throw error;
+    }
+
+    const log: PimsExportLogEntry[] = (entries || []).map((entry) => ({
+      ...entry,
+      exporter: entry.exported_by ? names.get(entry.exported_by) || null : null,
+    }));
+
+    return {
+      success: true,
+      log,
+    };
+  } catch (error) {
+    console.error("Failed to get PIMS export log:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to get PIMS export log",
+    };
+  }
+}
+
+/**
+ * Gets the message sent in one audit entry, shown when the entry is opened
+ */
+export async function getPimsExportRequest(entryId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: entry, error } = await supabase
+      .from("pims_exports")
+      .select("request_body")
+      .eq("id", entryId)
+      .eq("clinic_id", context.clinicId)
+      .single();
+
+    if (error || !entry) {
+      throw new Error("PIMS export not found or unauthorized");
+    }
+
+    return {
+      success: true,
+      requestBody: entry.request_body,
+    };
+  } catch (error) {
+    console.error("Failed to get PIMS export request:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to get PIMS export request",
+    };
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Case data sent to practice-management systems
+ * This file does NOT have "use server" directive: these helpers are only
+ * called from other server code and must not be exposed as actions
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { clinicMemberNames } from "../exports/documents";
+import type { PimsExportPayload } from "@/src/lib/pims";
+import type { ClinicContext, ReviewDocument } from "../types";
+
+/**
+ * Builds the payload of a case in the active clinic for its approved
+ * documents; access to the case is checked when the documents are loaded
+ */
+export async function loadPimsPayload(
+  context: ClinicContext,
+  caseId: string,
+  documents: ReviewDocument[]
+): Promise<PimsExportPayload> {
+  const supabase = await createClient();
+  const [caseResult, clinicResult, names] = await Promise.all([
+    supabase
+      .from("cases")
+      .select(
+        "id, type, status, created_at, user_id, patient_id, patients(id, name, species, breed, sex, date_of_birth, microchip_number, owner_name, clients(id, name, email, phone))"
+      )
+      .eq("id", caseId)
+      .eq("clinic_id", context.clinicId)
+      .single(),
+    supabase
+      .from("clinics")
+      .select("id, name")
+      .eq("id", context.clinicId)
+      .single(),
+    clinicMemberNames(context),
+  ]);
+
+  if (caseResult.error || !caseResult.data) {
+    throw caseResult.error || new Error("Case not found");
+  }
+  if (clinicResult.error) {
+    throw clinicResult.error;
+  }
+
+  const caseData = caseResult.data;
+  const visitDate = caseData.created_at || new Date().toISOString();
+  const patient = caseData.patients;
+
+  // The weight recorded last before the visit
+  const weightResult = patient
+    ? await supabase
+        .from("patient_weights")
+        .select("weight_kg")
+        .eq("patient_id", patient.id)
+        .lte("recorded_at", visitDate)
+        .order("recorded_at", { ascending: false })
+        .limit(1)
+        .maybeSingle()
+    : null;
+
+  if (weightResult?.error) {
+    throw weightResult.error;
+  }
+
+  const client = patient?.clients;
+
+  return {
+    exportedAt: new Date().toISOString(),
+    clinic: clinicResult.data,
+    case: {
+      id: caseData.id,
+      type: caseData.type,
+      status: caseData.status,
+      visitDate,
+    },
+    clinician: caseData.user_id
+      ? {
+          id: caseData.user_id,
+          name: names.get(caseData.user_id) || null,
+        }
+      : null,
+    patient: patient
+      ? {
+          id: patient.id,
+          name: patient.name,
+          species: patient.species,
+          breed: patient.breed,
+          sex: patient.sex,
+          dateOfBirth: patient.date_of_birth,
+          microchipNumber: patient.microchip_number,
+          weightKg: weightResult?.data?.weight_kg ?? null,
+        }
+      : null,
+    owner: client
+      ? {
+          id: client.id,
+          name: client.name,
+          email: client.email,
+          phone: client.phone,
+        }
+      : patient?.owner_name
+        ? { id: null, name: patient.owner_name, email: null, phone: null }
+        : null,
+    documents: [...documents]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((document) => ({
+        type: document.type,
+        id: document.id,
+        title: document.title,
+        createdAt: document.createdAt,
+        approvedBy:
+          document.review?.decision === "approved"
+            ? document.review.reviewer
+            : null,
+        approvedAt:
+          document.review?.decision === "approved"
+            ? document.review.reviewedAt
+            : null,
+        sections: document.sections,
+      })),
+  };
+}
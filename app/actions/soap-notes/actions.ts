@@ -2,52 +2,59 @@
 
 /**
  * SOAP notes management server actions
- * Handles creating, reading, updating, and deleting SOAP notes
+ * Handles creating, reading, updating, and deleting notes. Notes are
+ * structured notes (/src/lib/notes/structured-note.ts): SOAP notes and notes
+ * from any other template share the soap_notes table.
  */
 
 import { createClient } from "@/src/lib/supabase/server";
 import { revalidatePath } from "next/cache";
-import { getCurrentUserId } from "../common/auth";
-import { Tables } from "@/database.types";
+import { Json, Tables } from "@/database.types";
+import {
+  caseVisibilityFilter,
+  requireCaseAccess,
+  requireClinicContext,
+} from "../common/clinic";
+import {
+  structuredNoteSchema,
+  type StructuredNote,
+} from "@/src/lib/notes/structured-note";
+import { formatFieldErrors } from "@/src/lib/templates/schema";
+import { emitWebhookEvent } from "../webhooks/emit";
 
 /**
- * Create a new SOAP note from a transcript or generated content
+ * Validates a note sent from the client, listing every invalid section
+ */
+function parseStructuredNote(note: unknown): StructuredNote {
+  const parsed = structuredNoteSchema.safeParse(note);
+  if (!parsed.success) {
+    const problems = formatFieldErrors(parsed.error).map((e) =>
+      e.path ? `${e.path}: ${e.message}` : e.message
+    );
+    throw new Error(`Invalid note: ${problems.join("; ")}`);
+  }
+
+  return parsed.data as StructuredNote;
+}
+
+/**
+ * Create a new note from a transcript or generated content
  */
 export async function createSoapNote({
   caseId,
   transcript = "",
-  subjective,
-  objective,
-  assessment,
-  plan,
+  note,
 }: {
   caseId: string;
   transcript?: string;
-  subjective: string;
-  objective: string;
-  assessment: string;
-  plan: string;
+  note: StructuredNote;
 }) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
+    // Verify the case is accessible within the user's active clinic
+    const context = await requireCaseAccess(caseId);
 
-    // Verify the case belongs to the user
+    const { title, templateId, sections } = parseStructuredNote(note);
     const supabase = await createClient();
-    const { data: caseData, error: caseError } = await supabase
-      .from("cases")
-      .select("id")
-      .eq("id", caseId)
-      .eq("user_id", userId)
-      .single();
-
-    if (caseError || !caseData) {
-      throw new Error("Case not found or unauthorized");
-    }
 
     // Create the SOAP note
     const { data: soapNote, error } = await supabase
@@ -55,10 +62,9 @@ export async function createSoapNote({
       .insert({
         case_id: caseId,
         transcript: transcript,
-        subjective: subjective,
-        objective: objective,
-        assessment: assessment,
-        plan: plan,
+        title,
+        template_id: templateId,
+        sections: sections as Json,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
@@ -69,6 +75,16 @@ export async function createSoapNote({
       throw error;
     }
 
+    await emitWebhookEvent(context, "note.created", {
+      note: {
+        id: soapNote.id,
+        caseId,
+        title: soapNote.title,
+        templateId: soapNote.template_id,
+        createdAt: soapNote.created_at,
+      },
+    });
+
     // Revalidate paths
     revalidatePath(`/dashboard/case/${caseId}`);
 
@@ -90,25 +106,10 @@ export async function createSoapNote({
  */
 export async function getSoapNotesForCase(caseId: string) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
+    // Verify the case is accessible within the user's active clinic
+    await requireCaseAccess(caseId);
 
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
-
-    // Verify the case belongs to the user
     const supabase = await createClient();
-    const { data: caseData, error: caseError } = await supabase
-      .from("cases")
-      .select("id")
-      .eq("id", caseId)
-      .eq("user_id", userId)
-      .single();
-
-    if (caseError || !caseData) {
-      throw new Error("Case not found or unauthorized");
-    }
 
     // Get all SOAP notes for the case
     const { data: soapNotes, error } = await supabase
@@ -139,20 +140,17 @@ export async function getSoapNotesForCase(caseId: string) {
  */
 export async function getSoapNoteById(soapNoteId: string) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
 
-    // Get the SOAP note and verify its case belongs to the user
+    // Get the SOAP note and verify its case is accessible in the clinic
     const supabase = await createClient();
     const { data: soapNote, error } = await supabase
       .from("soap_notes")
-      .select("*, cases!inner(id, user_id)")
+      .select("*, cases!inner(id, user_id, clinic_id, visibility)")
       .eq("id", soapNoteId)
-      .eq("cases.user_id", userId)
+      .eq("cases.clinic_id", context.clinicId)
+      .or(caseVisibilityFilter(context), { referencedTable: "cases" })
       .single();
 
     if (error) {
@@ -173,30 +171,17 @@ export async function getSoapNoteById(soapNoteId: string) {
 }
 
 /**
- * Update a SOAP note
+ * Update a note with its edited title and sections
  */
 export async function updateSoapNote({
   soapNoteId,
-  subjective,
-  objective,
-  assessment,
-  plan,
+  note,
 }: {
   soapNoteId: string;
-  subjective?: string;
-  objective?: string;
-  assessment?: string;
-  plan?: string;
+  note: StructuredNote;
 }) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
-
-    // Get the SOAP note to find its case_id for path revalidation
+    // Get the SOAP note to find its case_id for access checks and revalidation
     const supabase = await createClient();
     const { data: existingSoapNote, error: getError } = await supabase
       .from("soap_notes")
@@ -204,24 +189,23 @@ export async function updateSoapNote({
       .eq("id", soapNoteId)
       .single();
 
-    if (getError) {
-      throw getError;
+    if (getError || !existingSoapNote?.case_id) {
+      throw new Error("SOAP note not found or unauthorized");
     }
 
-    // Create update object with only the fields that were provided
-    const updateData: Record<string, any> = {
-      updated_at: new Date().toISOString(),
-    };
+    // Verify the case is accessible within the user's active clinic
+    await requireCaseAccess(existingSoapNote.case_id);
 
-    if (subjective !== undefined) updateData.subjective = subjective;
-    if (objective !== undefined) updateData.objective = objective;
-    if (assessment !== undefined) updateData.assessment = assessment;
-    if (plan !== undefined) updateData.plan = plan;
+    const { title, sections } = parseStructuredNote(note);
 
     // Update the SOAP note
     const { data: soapNote, error } = await supabase
       .from("soap_notes")
-      .update(updateData)
+      .update({
+        title,
+        sections: sections as Json,
+        updated_at: new Date().toISOString(),
+      })
       .eq("id", soapNoteId)
       .select()
       .single();
@@ -253,14 +237,7 @@ export async function updateSoapNote({
  */
 export async function deleteSoapNote(soapNoteId: string) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
-
-    // Get the SOAP note to find its case_id for path revalidation
+    // Get the SOAP note to find its case_id for access checks and revalidation
     const supabase = await createClient();
     const { data: existingSoapNote, error: getError } = await supabase
       .from("soap_notes")
@@ -268,10 +245,13 @@ export async function deleteSoapNote(soapNoteId: string) {
       .eq("id", soapNoteId)
       .single();
 
-    if (getError) {
-      throw getError;
+    if (getError || !existingSoapNote?.case_id) {
+      throw new Error("SOAP note not found or unauthorized");
     }
 
+    // Verify the case is accessible within the user's active clinic
+    await requireCaseAccess(existingSoapNote.case_id);
+
     // Delete the SOAP note
     const { error } = await supabase
       .from("soap_notes")
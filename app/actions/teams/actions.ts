@@ -0,0 +1,469 @@
+"use server";
+
+/**
+ * Team management server actions
+ * Handles clinic members, their roles and invitations to join the clinic
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { cookies } from "next/headers";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { Constants } from "@/database.types";
+import {
+  ACTIVE_CLINIC_COOKIE,
+  assertClinicRole,
+  requireClinicContext,
+} from "../common/clinic";
+import { sendEmail } from "../email/service";
+import { renderClinicInvitationEmail } from "@/src/lib/email-renderer";
+import {
+  createSignedToken,
+  verifySignedToken,
+  SignedTokenPayload,
+} from "@/src/lib/signed-tokens";
+import { CLINIC_ROLE_LABELS } from "@/src/lib/constants";
+import type { ClinicInvitation, ClinicRole, TeamMember } from "../types";
+
+// How long an invitation link stays valid
+const INVITATION_TTL_DAYS = 7;
+
+// Payload carried by the signed invitation token
+interface InvitationTokenPayload extends SignedTokenPayload {
+  invitationId: string;
+  clinicId: string;
+  clinicName: string;
+  email: string;
+}
+
+const clinicRoleSchema = z.enum(
+  Constants.public.Enums.ClinicRole as unknown as [ClinicRole, ...ClinicRole[]]
+);
+
+const inviteMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().trim().max(200).optional(),
+  role: clinicRoleSchema,
+});
+
+/**
+ * Get all members of the active clinic
+ */
+export async function getTeamMembers() {
+  try {
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: members, error } = await supabase.rpc("get_clinic_members", {
+      target_clinic: context.clinicId,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      success: true,
+      members: (members || []).map(
+        (member): TeamMember => ({
+          id: member.id,
+          userId: member.user_id,
+          role: member.role,
+          email: member.email,
+          name: member.name,
+          joinedAt: member.created_at,
+        })
+      ),
+      currentUserId: context.userId,
+      currentRole: context.role,
+    };
+  } catch (error) {
+    console.error("Failed to get team members:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to get team members",
+    };
+  }
+}
+
+/**
+ * Change a member's role (owners only)
+ * A clinic always keeps at least one owner
+ */
+export async function updateMemberRole(memberId: string, role: ClinicRole) {
+  try {
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const newRole = clinicRoleSchema.parse(role);
+
+    const supabase = await createClient();
+    const { data: member, error: getError } = await supabase
+      .from("clinic_members")
+      .select("id, role")
+      .eq("id", memberId)
+      .eq("clinic_id", context.clinicId)
+      .single();
+
+    if (getError || !member) {
+      throw new Error("Member not found");
+    }
+
+    if (member.role === "owner" && newRole !== "owner") {
+      await assertAnotherOwnerExists(context.clinicId, member.id);
+    }
+
+    const { data: updatedMember, error } = await supabase
+      .from("clinic_members")
+      .update({
+        role: newRole,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", memberId)
+      .eq("clinic_id", context.clinicId)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    revalidatePath("/dashboard/teams");
+
+    return {
+      success: true,
+      member: updatedMember,
+    };
+  } catch (error) {
+    console.error("Failed to update member role:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to update member role",
+    };
+  }
+}
+
+/**
+ * Remove a member from the active clinic (owners only)
+ */
+export async function removeMember(memberId: string) {
+  try {
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const supabase = await createClient();
+    const { data: member, error: getError } = await supabase
+      .from("clinic_members")
+      .select("id, role")
+      .eq("id", memberId)
+      .eq("clinic_id", context.clinicId)
+      .single();
+
+    if (getError || !member) {
+      throw new Error("Member not found");
+    }
+
+    if (member.role === "owner") {
+      await assertAnotherOwnerExists(context.clinicId, member.id);
+    }
+
+    const { error } = await supabase
+      .from("clinic_members")
+      .delete()
+      .eq("id", memberId)
+      .eq("clinic_id", context.clinicId);
+
+    if (error) {
+      throw error;
+    }
+
+    revalidatePath("/dashboard/teams");
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("Failed to remove member:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to remove member",
+    };
+  }
+}
+
+/**
+ * Get open invitations for the active clinic (owners only)
+ */
+export async function getPendingInvitations() {
+  try {
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const supabase = await createClient();
+    const { data: invitations, error } = await supabase
+      .from("clinic_invitations")
+      .select("*")
+      .eq("clinic_id", context.clinicId)
+      .is("accepted_at", null)
+      .is("revoked_at", null)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      success: true,
+      invitations: invitations as ClinicInvitation[],
+    };
+  } catch (error) {
+    console.error("Failed to get invitations:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to get invitations",
+    };
+  }
+}
+
+/**
+ * Invite someone to the active clinic by email (owners only)
+ * Any earlier open invitation for the same address is revoked and replaced
+ */
+export async function inviteMember(input: {
+  email: string;
+  name?: string;
+  role: ClinicRole;
+}) {
+  try {
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const { email, name, role } = inviteMemberSchema.parse(input);
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const { data: clinic, error: clinicError } = await supabase
+      .from("clinics")
+      .select("id, name")
+      .eq("id", context.clinicId)
+      .single();
+
+    if (clinicError || !clinic) {
+      throw new Error("Clinic not found");
+    }
+
+    // Revoke any open invitation for this address before issuing a new one
+    const now = new Date().toISOString();
+    await supabase
+      .from("clinic_invitations")
+      .update({ revoked_at: now, updated_at: now })
+      .eq("clinic_id", context.clinicId)
+      .ilike("email", email)
+      .is("accepted_at", null)
+      .is("revoked_at", null);
+
+    const expiresAt = new Date(
+      Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    const { data: invitation, error } = await supabase
+      .from("clinic_invitations")
+      .insert({
+        clinic_id: context.clinicId,
+        email,
+        name: name || null,
+        role,
+        invited_by: context.userId,
+        expires_at: expiresAt.toISOString(),
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const token = createSignedToken(
+      {
+        invitationId: invitation.id,
+        clinicId: clinic.id,
+        clinicName: clinic.name,
+        email,
+      },
+      INVITATION_TTL_DAYS * 24 * 60 * 60
+    );
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+    const inviteLink = `${siteUrl}/accept-invite?token=${encodeURIComponent(token)}`;
+
+    const html = await renderClinicInvitationEmail({
+      clinicName: clinic.name,
+      inviterName:
+        user?.user_metadata?.full_name ||
+        user?.user_metadata?.name ||
+        user?.email ||
+        "A colleague",
+      roleLabel: CLINIC_ROLE_LABELS[role],
+      inviteLink,
+      expiresInDays: INVITATION_TTL_DAYS,
+    });
+
+    const emailResult = await sendEmail({
+      to: email,
+      subject: `You've been invited to join ${clinic.name} on OdisAI`,
+      html,
+    });
+
+    if (!emailResult.success) {
+      throw new Error(emailResult.error || "Failed to send invitation email");
+    }
+
+    revalidatePath("/dashboard/teams");
+
+    return {
+      success: true,
+      invitation: invitation as ClinicInvitation,
+    };
+  } catch (error) {
+    console.error("Failed to invite member:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to invite member",
+    };
+  }
+}
+
+/**
+ * Revoke an open invitation (owners only)
+ */
+export async function revokeInvitation(invitationId: string) {
+  try {
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const now = new Date().toISOString();
+    const supabase = await createClient();
+    const { error } = await supabase
+      .from("clinic_invitations")
+      .update({ revoked_at: now, updated_at: now })
+      .eq("id", invitationId)
+      .eq("clinic_id", context.clinicId)
+      .is("accepted_at", null);
+
+    if (error) {
+      throw error;
+    }
+
+    revalidatePath("/dashboard/teams");
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("Failed to revoke invitation:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to revoke invitation",
+    };
+  }
+}
+
+/**
+ * Read an invitation token without accepting it
+ * Used to prefill the sign-up form; returns null for invalid or expired tokens
+ */
+export async function readInvitationToken(token: string) {
+  const payload = verifySignedToken<InvitationTokenPayload>(token);
+
+  if (!payload) {
+    return null;
+  }
+
+  return {
+    clinicName: payload.clinicName,
+    email: payload.email,
+  };
+}
+
+/**
+ * Accept an invitation for the signed-in user and make its clinic active
+ * Used by the accept-invite route and the auth callback after sign-up
+ */
+export async function acceptInvitation(token: string) {
+  try {
+    const payload = verifySignedToken<InvitationTokenPayload>(token);
+
+    if (!payload) {
+      throw new Error("This invitation link is invalid or has expired");
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error("Unauthorized");
+    }
+
+    const { data: clinicId, error } = await supabase.rpc(
+      "accept_clinic_invitation",
+      { invitation_id: payload.invitationId }
+    );
+
+    if (error) {
+      throw error;
+    }
+
+    const cookieStore = await cookies();
+    cookieStore.set(ACTIVE_CLINIC_COOKIE, clinicId, {
+      path: "/",
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+    });
+
+    revalidatePath("/dashboard", "layout");
+
+    return {
+      success: true,
+      clinicId,
+    };
+  } catch (error) {
+    console.error("Failed to accept invitation:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to accept invitation",
+    };
+  }
+}
+
+/**
+ * Throws if removing or demoting the given owner would leave the clinic without one
+ */
+async function assertAnotherOwnerExists(clinicId: string, memberId: string) {
+  const supabase = await createClient();
+  const { count, error } = await supabase
+    .from("clinic_members")
+    .select("id", { count: "exact", head: true })
+    .eq("clinic_id", clinicId)
+    .eq("role", "owner")
+    .neq("id", memberId);
+
+  if (error) {
+    throw error;
+  }
+
+  if (!count) {
+    throw new Error("A clinic must have at least one owner");
+  }
+}
@@ -7,28 +7,98 @@
 
 import { createClient } from "@/src/lib/supabase/server";
 import { revalidatePath } from "next/cache";
-import { getCurrentUserId } from "../common/auth";
-import { Tables, TablesInsert, TablesUpdate } from "@/database.types";
-import { TemplateInsert, TemplateUpdate } from "../types";
+import { assertClinicRole, requireClinicContext } from "../common/clinic";
+import { Json, Tables, TablesInsert } from "@/database.types";
+import { TemplateContent, TemplateInsert, TemplateUpdate } from "../types";
 import { EMAIL_CONFIG } from "@/src/lib/email";
+import {
+  formatFieldErrors,
+  templateSchemaDefinition,
+} from "@/src/lib/templates/schema";
+import {
+  DEFAULT_LLM_PROVIDER,
+  LLM_PROVIDERS,
+  isLlmProviderId,
+  type LlmProviderId,
+} from "@/src/lib/llm/catalog";
+import {
+  findVariableErrors,
+  templateVariableScope,
+} from "@/src/lib/templates/variables";
+import {
+  createTemplateVersion,
+  publishVersion,
+  templateContentOf,
+} from "./versioning";
 
 /**
- * Get all templates
+ * Validates a template's output schema, listing every invalid field
+ */
+function parseOutputSchema(schema: Json | null | undefined): Json | null {
+  if (schema === null || schema === undefined) {
+    return null;
+  }
+
+  const parsed = templateSchemaDefinition.safeParse(schema);
+  if (!parsed.success) {
+    const problems = formatFieldErrors(parsed.error).map((e) =>
+      e.path ? `${e.path}: ${e.message}` : e.message
+    );
+    throw new Error(`Invalid output schema: ${problems.join("; ")}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Validates the variables used in a template's prompt and body
+ * Email templates may also use the email variables
+ */
+function assertTemplateVariables(
+  template: Partial<Pick<TemplateContent, "type" | "prompt" | "content">>
+) {
+  const scope = templateVariableScope(template.type);
+  const problems = [
+    ...findVariableErrors(template.prompt, scope).map((e) => `prompt: ${e}`),
+    ...findVariableErrors(template.content, scope).map((e) => `content: ${e}`),
+  ];
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid template variables: ${problems.join("; ")}`);
+  }
+}
+
+/**
+ * Validates a template's language model provider id
+ */
+function parseProvider(
+  provider: string | null | undefined
+): LlmProviderId | null {
+  if (!provider) {
+    return null;
+  }
+
+  if (!isLlmProviderId(provider)) {
+    throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Get all built-in templates and those belonging to the active clinic
  */
 export async function getTemplates() {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
 
-    // Get all templates
+    // Get all templates available to the clinic
     const supabase = await createClient();
     const { data: templates, error } = await supabase
       .from("templates")
       .select("*")
+      .or(`clinic_id.is.null,clinic_id.eq.${context.clinicId}`)
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -49,16 +119,12 @@ export async function getTemplates() {
 }
 
 /**
- * Get all email templates
+ * Get all email templates available to the active clinic
  */
 export async function getEmailTemplates() {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
 
     // Get all email templates
     const supabase = await createClient();
@@ -66,6 +132,7 @@ export async function getEmailTemplates() {
       .from("templates")
       .select("*")
       .eq("type", "email")
+      .or(`clinic_id.is.null,clinic_id.eq.${context.clinicId}`)
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -90,12 +157,8 @@ export async function getEmailTemplates() {
  */
 export async function getTemplateById(templateId: string) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
 
     // Get the template
     const supabase = await createClient();
@@ -103,6 +166,7 @@ export async function getTemplateById(templateId: string) {
       .from("templates")
       .select("*")
       .eq("id", templateId)
+      .or(`clinic_id.is.null,clinic_id.eq.${context.clinicId}`)
       .single();
 
     if (error) {
@@ -123,31 +187,38 @@ export async function getTemplateById(templateId: string) {
 }
 
 /**
- * Create a new template
+ * Create a new template owned by the active clinic
  */
-export async function createTemplate(templateData: TemplateInsert) {
+export async function createTemplate(
+  templateData: TemplateInsert,
+  options: { changelog?: string } = {}
+) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
 
     // Create the template with typed data
     const supabase = await createClient();
+    const provider = parseProvider(templateData.provider);
     const insertData: TablesInsert<"templates"> = {
+      clinic_id: context.clinicId,
       name: templateData.name,
       type: templateData.type,
       content: templateData.content || null,
       prompt: templateData.prompt,
-      model: templateData.model || "gpt-4",
+      provider,
+      model:
+        templateData.model ||
+        LLM_PROVIDERS[provider || DEFAULT_LLM_PROVIDER].defaultModel,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
       key: templateData.key || null,
       description: templateData.description || null,
+      output_schema: parseOutputSchema(templateData.output_schema),
     };
 
+    assertTemplateVariables(insertData);
+
     const { data: template, error } = await supabase
       .from("templates")
       .insert(insertData)
@@ -158,12 +229,21 @@ export async function createTemplate(templateData: TemplateInsert) {
       throw error;
     }
 
+    // The initial content is published as version 1
+    const version = await createTemplateVersion({
+      templateId: template.id,
+      content: template,
+      changelog: options.changelog || "Initial version",
+      userId: context.userId,
+    });
+    const published = await publishVersion(version.id);
+
     // Revalidate paths
     revalidatePath("/dashboard/templates");
 
     return {
       success: true,
-      template: template as Tables<"templates">,
+      template: published,
     };
   } catch (error) {
     console.error("Failed to create template:", error);
@@ -175,52 +255,86 @@ export async function createTemplate(templateData: TemplateInsert) {
 }
 
 /**
- * Update a template
+ * Update one of the active clinic's templates
+ * Changes are saved as a new version, which is published right away unless
+ * it is saved as a draft. Built-in templates are read-only
  */
 export async function updateTemplate(
   templateId: string,
-  templateData: TemplateUpdate
+  templateData: TemplateUpdate,
+  options: { changelog?: string; publish?: boolean } = {}
 ) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: current, error: currentError } = await supabase
+      .from("templates")
+      .select("*")
+      .eq("id", templateId)
+      .eq("clinic_id", context.clinicId)
+      .maybeSingle();
 
-    if (!userId) {
-      throw new Error("Unauthorized");
+    if (currentError) {
+      throw currentError;
+    }
+    if (!current) {
+      throw new Error("Template not found or unauthorized");
     }
 
-    // Create update object with only the fields that were provided
-    const updateData: TablesUpdate<"templates"> = {
-      updated_at: new Date().toISOString(),
-    };
+    // Start from the published content, applying only the fields provided
+    const content: TemplateContent = templateContentOf(current);
 
-    if (templateData.name) updateData.name = templateData.name;
-    if (templateData.type) updateData.type = templateData.type;
-    if (templateData.content !== undefined) updateData.content = templateData.content;
-    if (templateData.prompt) updateData.prompt = templateData.prompt;
-    if (templateData.model) updateData.model = templateData.model;
-    if (templateData.key) updateData.key = templateData.key;
-    if (templateData.description) updateData.description = templateData.description;
+    if (templateData.name) content.name = templateData.name;
+    if (templateData.type) content.type = templateData.type;
+    if (templateData.content !== undefined) content.content = templateData.content;
+    if (templateData.prompt) content.prompt = templateData.prompt;
+    if (templateData.model) content.model = templateData.model;
+    if (templateData.provider !== undefined) {
+      content.provider = parseProvider(templateData.provider);
+    }
+    if (templateData.description !== undefined) {
+      content.description = templateData.description || null;
+    }
+    if (templateData.output_schema !== undefined) {
+      content.output_schema = parseOutputSchema(templateData.output_schema);
+    }
 
-    // Update the template
-    const supabase = await createClient();
-    const { data: template, error } = await supabase
-      .from("templates")
-      .update(updateData)
-      .eq("id", templateId)
-      .select()
-      .single();
+    assertTemplateVariables(content);
 
-    if (error) {
-      throw error;
+    // The key identifies the template rather than a version of it
+    if (templateData.key && templateData.key !== current.key) {
+      const { error: keyError } = await supabase
+        .from("templates")
+        .update({ key: templateData.key, updated_at: new Date().toISOString() })
+        .eq("id", templateId)
+        .eq("clinic_id", context.clinicId);
+
+      if (keyError) {
+        throw keyError;
+      }
     }
 
+    const version = await createTemplateVersion({
+      templateId,
+      content,
+      changelog: options.changelog,
+      userId: context.userId,
+    });
+
+    const template =
+      options.publish === false
+        ? { ...current, key: templateData.key || current.key }
+        : await publishVersion(version.id);
+
     // Revalidate paths
     revalidatePath("/dashboard/templates");
 
     return {
       success: true,
       template: template as Tables<"templates">,
+      version,
     };
   } catch (error) {
     console.error("Failed to update template:", error);
@@ -232,23 +346,21 @@ export async function updateTemplate(
 }
 
 /**
- * Delete a template
+ * Delete one of the active clinic's templates (owners and veterinarians only)
  */
 export async function deleteTemplate(templateId: string) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner", "veterinarian"]);
 
     // Delete the template
     const supabase = await createClient();
     const { error } = await supabase
       .from("templates")
       .delete()
-      .eq("id", templateId);
+      .eq("id", templateId)
+      .eq("clinic_id", context.clinicId);
 
     if (error) {
       throw error;
@@ -268,32 +380,3 @@ export async function deleteTemplate(templateId: string) {
     };
   }
 }
-
-/**
- * Ensure default templates exist
- * This will create default templates if they don't exist yet
- */
-export async function ensureDefaultTemplates() {
-  try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
-
-    // Create default templates if they don't exist yet
-    // This is a placeholder - actual implementation would create default templates
-    // based on the application's needs
-    
-    return {
-      success: true,
-    };
-  } catch (error) {
-    console.error("Failed to ensure default templates:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to ensure default templates",
-    };
-  }
-}
\ No newline at end of file
@@ -0,0 +1,318 @@
+"use server";
+
+/**
+ * Template import and export server actions
+ * Templates move between clinics as portable JSON files
+ * (/src/lib/templates/portable.ts). The built-in library is installed through
+ * the same import.
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { requireClinicContext } from "../common/clinic";
+import type { Template, TemplateImportConflict } from "../types";
+import { createTemplate, updateTemplate } from "./actions";
+import {
+  availableKey,
+  createTemplateFile,
+  templateFileSchema,
+  toPortableTemplate,
+  type PortableTemplate,
+  type TemplateFile,
+  type TemplateImportResolution,
+} from "@/src/lib/templates/portable";
+import { formatFieldErrors } from "@/src/lib/templates/schema";
+import { TEMPLATE_LIBRARY } from "@/src/lib/templates/library";
+
+/**
+ * Validates an uploaded template file, listing every problem
+ */
+function parseTemplateFile(file: unknown): TemplateFile {
+  const parsed = templateFileSchema.safeParse(file);
+  if (!parsed.success) {
+    const problems = formatFieldErrors(parsed.error).map((e) =>
+      e.path ? `${e.path}: ${e.message}` : e.message
+    );
+    throw new Error(`Invalid template file: ${problems.join("; ")}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * The active clinic's templates that have a key, by key
+ */
+async function getClinicTemplatesByKey(clinicId: string) {
+  const supabase = await createClient();
+  const { data: templates, error } = await supabase
+    .from("templates")
+    .select("id, key, name")
+    .eq("clinic_id", clinicId)
+    .not("key", "is", null);
+
+  if (error) {
+    throw error;
+  }
+
+  return new Map(
+    (templates || []).map((template) => [template.key as string, template])
+  );
+}
+
+/**
+ * Template fields of an imported template
+ */
+function templateData(template: PortableTemplate) {
+  return {
+    name: template.name,
+    type: template.type,
+    description: template.description ?? null,
+    prompt: template.prompt,
+    content: template.content ?? null,
+    provider: template.provider ?? null,
+    model: template.model ?? null,
+    output_schema: template.output_schema ?? null,
+  };
+}
+
+/**
+ * Saves the templates of a validated file in the active clinic
+ * Templates whose key is taken are skipped unless a resolution says to
+ * rename or overwrite them
+ */
+async function installTemplateFile(
+  clinicId: string,
+  file: TemplateFile,
+  resolutions: Record<string, TemplateImportResolution>,
+  source: string
+) {
+  const existing = await getClinicTemplatesByKey(clinicId);
+  const takenKeys = new Set(existing.keys());
+
+  const imported: Template[] = [];
+  let overwritten = 0;
+  let skipped = 0;
+
+  for (const template of file.templates) {
+    const changelog = template.version
+      ? `Imported from ${source} (version ${template.version})`
+      : `Imported from ${source}`;
+    const match = template.key ? existing.get(template.key) : undefined;
+    const resolution = match ? resolutions[match.key as string] || "skip" : null;
+
+    if (resolution === "skip") {
+      skipped++;
+      continue;
+    }
+
+    if (match && resolution === "overwrite") {
+      const result = await updateTemplate(match.id, templateData(template), {
+        changelog,
+      });
+      if (!result.success || !result.template) {
+        throw new Error(result.error || `Failed to overwrite ${match.name}`);
+      }
+      imported.push(result.template);
+      overwritten++;
+      continue;
+    }
+
+    // New templates, and renamed copies of ones the clinic already has
+    const key =
+      template.key && resolution === "rename"
+        ? availableKey(template.key, takenKeys)
+        : template.key || null;
+    if (key) {
+      takenKeys.add(key);
+    }
+
+    const result = await createTemplate(
+      {
+        ...templateData(template),
+        name: resolution === "rename" ? `${template.name} (imported)` : template.name,
+        key,
+      },
+      { changelog }
+    );
+    if (!result.success || !result.template) {
+      throw new Error(result.error || `Failed to import ${template.name}`);
+    }
+    imported.push(result.template);
+  }
+
+  return {
+    templates: imported,
+    created: imported.length - overwritten,
+    overwritten,
+    skipped,
+  };
+}
+
+/**
+ * Exports templates available to the clinic, built-in ones included, as a
+ * portable template file
+ */
+export async function exportTemplates(templateIds: string[]) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    if (templateIds.length === 0) {
+      throw new Error("Choose at least one template to export");
+    }
+
+    const supabase = await createClient();
+    const { data: templates, error } = await supabase
+      .from("templates")
+      .select("*")
+      .in("id", templateIds)
+      .or(`clinic_id.is.null,clinic_id.eq.${context.clinicId}`)
+      .order("name", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+    if (!templates || templates.length === 0) {
+      throw new Error("Templates not found");
+    }
+
+    return {
+      success: true,
+      file: createTemplateFile(templates.map(toPortableTemplate)),
+    };
+  } catch (error) {
+    console.error("Failed to export templates:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to export templates",
+    };
+  }
+}
+
+/**
+ * Validates a template file before importing it and lists the templates
+ * whose key the clinic already uses, so the user can choose what to do
+ * with each
+ */
+export async function previewTemplateImport(file: unknown) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const parsed = parseTemplateFile(file);
+    const existing = await getClinicTemplatesByKey(context.clinicId);
+
+    const conflicts: TemplateImportConflict[] = parsed.templates.flatMap(
+      (template) => {
+        const match = template.key ? existing.get(template.key) : undefined;
+        return match
+          ? [
+              {
+                key: template.key as string,
+                name: template.name,
+                existingId: match.id,
+                existingName: match.name,
+              },
+            ]
+          : [];
+      }
+    );
+
+    return {
+      success: true,
+      templates: parsed.templates,
+      conflicts,
+    };
+  } catch (error) {
+    console.error("Failed to read template file:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to read template file",
+    };
+  }
+}
+
+/**
+ * Imports a template file into the active clinic
+ * Resolutions are given per conflicting key; conflicts without one are
+ * skipped
+ */
+export async function importTemplates(
+  file: unknown,
+  resolutions: Record<string, TemplateImportResolution> = {},
+  source = "a template file"
+) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const parsed = parseTemplateFile(file);
+    const { templates, created, overwritten, skipped } =
+      await installTemplateFile(context.clinicId, parsed, resolutions, source);
+
+    revalidatePath("/dashboard/templates");
+
+    return {
+      success: true,
+      templates,
+      created,
+      overwritten,
+      skipped,
+    };
+  } catch (error) {
+    console.error("Failed to import templates:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to import templates",
+    };
+  }
+}
+
+/**
+ * Ensure default templates exist
+ * Clinics without any templates of their own get the template library,
+ * installed through the same path as imported files
+ */
+export async function ensureDefaultTemplates() {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { count, error } = await supabase
+      .from("templates")
+      .select("id", { count: "exact", head: true })
+      .eq("clinic_id", context.clinicId);
+
+    if (error) {
+      throw error;
+    }
+    if (count) {
+      return {
+        success: true,
+        created: 0,
+      };
+    }
+
+    const result = await installTemplateFile(
+      context.clinicId,
+      TEMPLATE_LIBRARY,
+      {},
+      "the template library"
+    );
+
+    return {
+      success: true,
+      created: result.created,
+    };
+  } catch (error) {
+    console.error("Failed to ensure default templates:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to ensure default templates",
+    };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Case context for template variables
+ * This file does NOT have "use server" directive: these helpers are only
+ * called from other server code and must not be exposed as actions
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { requireCaseAccess } from "../common/clinic";
+import type { TemplateVariableValues } from "@/src/lib/templates/variables";
+import {
+  findNoteSection,
+  noteSectionText,
+  noteSectionsOf,
+} from "@/src/lib/notes/structured-note";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Age on a date, in the unit vets use for it: days for neonates, weeks
+ * under three months, months under two years and years after that
+ */
+function formatAge(dateOfBirth: string, on: Date) {
+  const born = new Date(dateOfBirth);
+  const days = Math.floor((on.getTime() - born.getTime()) / MS_PER_DAY);
+  if (Number.isNaN(days) || days < 0) {
+    return null;
+  }
+
+  const plural = (count: number, unit: string) =>
+    `${count} ${unit}${count === 1 ? "" : "s"}`;
+
+  if (days < 14) {
+    return plural(days, "day");
+  }
+  if (days < 90) {
+    return plural(Math.floor(days / 7), "week");
+  }
+
+  const months =
+    (on.getFullYear() - born.getFullYear()) * 12 +
+    on.getMonth() -
+    born.getMonth() -
+    (on.getDate() < born.getDate() ? 1 : 0);
+  return months < 24 ? plural(months, "month") : plural(Math.floor(months / 12), "year");
+}
+
+/**
+ * Resolves the case variables of the template catalogue for a case in the
+ * active clinic; variables the case has no data for are null
+ */
+export async function resolveCaseVariables(
+  caseId: string
+): Promise<TemplateVariableValues> {
+  const context = await requireCaseAccess(caseId);
+  const supabase = await createClient();
+
+  const { data: caseData, error } = await supabase
+    .from("cases")
+    .select(
+      "id, type, created_at, user_id, patient_id, patients(name, species, breed, date_of_birth, owner_name, clients(name))"
+    )
+    .eq("id", caseId)
+    .single();
+
+  if (error || !caseData) {
+    throw error || new Error("Case not found");
+  }
+
+  const visitDate = caseData.created_at
+    ? new Date(caseData.created_at)
+    : new Date();
+  const patient = caseData.patients;
+
+  const [membersResult, weightResult, priorResult] = await Promise.all([
+    supabase.rpc("get_clinic_members", { target_clinic: context.clinicId }),
+    caseData.patient_id
+      ? supabase
+          .from("patient_weights")
+          .select("weight_kg")
+          .eq("patient_id", caseData.patient_id)
+          .lte("recorded_at", visitDate.toISOString())
+          .order("recorded_at", { ascending: false })
+          .limit(1)
+          .maybeSingle()
+      : null,
+    // The latest note with an assessment from the patient's earlier visits
+    caseData.patient_id
+      ? supabase
+          .from("soap_notes")
+          .select("sections, cases!inner(patient_id, clinic_id)")
+          .eq("cases.patient_id", caseData.patient_id)
+          .eq("cases.clinic_id", context.clinicId)
+          .neq("case_id", caseId)
+          .lt("created_at", visitDate.toISOString())
+          .contains("sections", [{ key: "assessment" }])
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle()
+      : null,
+  ]);
+
+  if (membersResult.error) {
+    throw membersResult.error;
+  }
+  if (weightResult?.error) {
+    throw weightResult.error;
+  }
+  if (priorResult?.error) {
+    throw priorResult.error;
+  }
+
+  const clinician = (membersResult.data || []).find(
+    (member) => member.user_id === caseData.user_id
+  );
+  const weight = weightResult?.data?.weight_kg;
+  const priorAssessment = priorResult?.data
+    ? findNoteSection(noteSectionsOf(priorResult.data.sections), "assessment")
+    : undefined;
+
+  return {
+    patientName: patient?.name ?? null,
+    species: patient?.species
+      ? patient.breed
+        ? `${patient.species} (${patient.breed})`
+        : patient.species
+      : null,
+    patientAge: patient?.date_of_birth
+      ? formatAge(patient.date_of_birth, visitDate)
+      : null,
+    patientWeight: weight !== undefined && weight !== null ? `${weight} kg` : null,
+    ownerName: patient?.clients?.name ?? patient?.owner_name ?? null,
+    clinicianName: clinician?.name || null,
+    visitType: caseData.type,
+    visitDate: visitDate.toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    }),
+    priorAssessment: priorAssessment ? noteSectionText(priorAssessment) : null,
+  };
+}
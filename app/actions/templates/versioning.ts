@@ -0,0 +1,90 @@
+/**
+ * Template version helpers shared by the template server actions
+ * This file does NOT have "use server" directive: these helpers are only
+ * called from other server code and must not be exposed as actions
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import type { Template, TemplateContent, TemplateVersion } from "../types";
+
+/**
+ * The versioned fields of a template or version
+ */
+export function templateContentOf(source: TemplateContent): TemplateContent {
+  return {
+    name: source.name,
+    type: source.type,
+    description: source.description,
+    content: source.content,
+    prompt: source.prompt,
+    model: source.model,
+    provider: source.provider,
+    output_schema: source.output_schema,
+  };
+}
+
+/**
+ * Saves content as the template's next version, as a draft
+ * Version numbers follow the highest saved so far, published or not
+ */
+export async function createTemplateVersion({
+  templateId,
+  content,
+  changelog,
+  userId,
+}: {
+  templateId: string;
+  content: TemplateContent;
+  changelog?: string | null;
+  userId: string;
+}): Promise<TemplateVersion> {
+  const supabase = await createClient();
+
+  const { data: latest, error: latestError } = await supabase
+    .from("template_versions")
+    .select("version")
+    .eq("template_id", templateId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) {
+    throw latestError;
+  }
+
+  const { data: version, error } = await supabase
+    .from("template_versions")
+    .insert({
+      ...templateContentOf(content),
+      template_id: templateId,
+      version: (latest?.version ?? 0) + 1,
+      status: "draft",
+      changelog: changelog?.trim() || null,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return version as TemplateVersion;
+}
+
+/**
+ * Publishes a draft version, making its content the template's
+ */
+export async function publishVersion(versionId: string): Promise<Template> {
+  const supabase = await createClient();
+  const { data: template, error } = await supabase.rpc(
+    "publish_template_version",
+    { target_version: versionId }
+  );
+
+  if (error) {
+    throw error;
+  }
+
+  return template as Template;
+}
@@ -0,0 +1,230 @@
+"use server";
+
+/**
+ * Template version server actions
+ * Versions are never changed once saved: drafts are published as they are,
+ * and rolling back publishes a copy of an earlier version
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { requireClinicContext } from "../common/clinic";
+import type {
+  ClinicContext,
+  TemplateUpdate,
+  TemplateVersion,
+  TemplateVersionEntry,
+} from "../types";
+import { updateTemplate } from "./actions";
+import {
+  createTemplateVersion,
+  publishVersion,
+  templateContentOf,
+} from "./versioning";
+
+/**
+ * Checks the template belongs to the active clinic; built-in templates
+ * cannot be versioned
+ */
+async function requireClinicTemplate(context: ClinicContext, templateId: string) {
+  const supabase = await createClient();
+  const { data: template, error } = await supabase
+    .from("templates")
+    .select("id, version")
+    .eq("id", templateId)
+    .eq("clinic_id", context.clinicId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!template) {
+    throw new Error("Template not found or unauthorized");
+  }
+
+  return template;
+}
+
+/**
+ * Loads one of a template's versions
+ */
+async function getVersion(versionId: string) {
+  const supabase = await createClient();
+  const { data: version, error } = await supabase
+    .from("template_versions")
+    .select("*")
+    .eq("id", versionId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!version) {
+    throw new Error("Template version not found");
+  }
+
+  return version as TemplateVersion;
+}
+
+/**
+ * Gets every version of a template, newest first, with the members who
+ * wrote and published them
+ */
+export async function getTemplateVersions(templateId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: template, error: templateError } = await supabase
+      .from("templates")
+      .select("id")
+      .eq("id", templateId)
+      .or(`clinic_id.is.null,clinic_id.eq.${context.clinicId}`)
+      .maybeSingle();
+
+    if (templateError) {
+      throw templateError;
+    }
+    if (!template) {
+      throw new Error("Template not found");
+    }
+
+    const [versionsResult, membersResult] = await Promise.all([
+      supabase
+        .from("template_versions")
+        .select("*")
+        .eq("template_id", templateId)
+        .order("version", { ascending: false }),
+      supabase.rpc("get_clinic_members", { target_clinic: context.clinicId }),
+    ]);
+
+    if (versionsResult.error) {
+      throw versionsResult.error;
+    }
+    if (membersResult.error) {
+      throw membersResult.error;
+    }
+
+    // Authors who have left the clinic are shown without a name
+    const names = new Map(
+      (membersResult.data || []).map((member) => [
+        member.user_id,
+        member.name || member.email,
+      ])
+    );
+    const nameOf = (userId: string | null) =>
+      (userId && names.get(userId)) || null;
+
+    const versions: TemplateVersionEntry[] = (versionsResult.data || []).map(
+      (version) => ({
+        ...version,
+        author: nameOf(version.created_by),
+        publisher: nameOf(version.published_by),
+      })
+    );
+
+    return {
+      success: true,
+      versions,
+    };
+  } catch (error) {
+    console.error("Failed to get template versions:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to get template versions",
+    };
+  }
+}
+
+/**
+ * Saves changes to a template as a draft version without publishing them
+ * Generations keep using the published version until the draft is published
+ */
+export async function saveTemplateDraft(
+  templateId: string,
+  templateData: TemplateUpdate,
+  changelog?: string
+) {
+  return updateTemplate(templateId, templateData, {
+    changelog,
+    publish: false,
+  });
+}
+
+/**
+ * Publishes a draft version, making it the one used for generation
+ */
+export async function publishTemplateVersion(versionId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const version = await getVersion(versionId);
+    await requireClinicTemplate(context, version.template_id);
+
+    const template = await publishVersion(version.id);
+
+    revalidatePath("/dashboard/templates");
+
+    return {
+      success: true,
+      template,
+    };
+  } catch (error) {
+    console.error("Failed to publish template version:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to publish template version",
+    };
+  }
+}
+
+/**
+ * Rolls a template back to an earlier version by publishing a copy of it as
+ * the newest version, so the changelog keeps everything in between
+ */
+export async function rollbackTemplate(templateId: string, versionId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+    const current = await requireClinicTemplate(context, templateId);
+
+    const target = await getVersion(versionId);
+    if (target.template_id !== templateId) {
+      throw new Error("Version does not belong to this template");
+    }
+    if (target.version === current.version) {
+      throw new Error(`Version ${target.version} is already published`);
+    }
+
+    const version = await createTemplateVersion({
+      templateId,
+      content: templateContentOf(target),
+      changelog: `Rolled back to version ${target.version}`,
+      userId: context.userId,
+    });
+    const template = await publishVersion(version.id);
+
+    revalidatePath("/dashboard/templates");
+
+    return {
+      success: true,
+      template,
+      version,
+    };
+  } catch (error) {
+    console.error("Failed to roll back template:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to roll back template",
+    };
+  }
+}
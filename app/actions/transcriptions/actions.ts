@@ -7,8 +7,46 @@
 
 import { createClient } from "@/src/lib/supabase/server";
 import { revalidatePath } from "next/cache";
-import { getCurrentUserId } from "../common/auth";
+import { after } from "next/server";
+import { z } from "zod";
 import { Tables } from "@/database.types";
+import {
+  caseVisibilityFilter,
+  requireCaseAccess,
+  requireClinicContext,
+} from "../common/clinic";
+import {
+  DEFAULT_TRANSCRIPTION_SETTINGS,
+  getTranscriber,
+  type TranscriptionSettings,
+} from "@/src/lib/transcription";
+import { AUDIO_BUCKET } from "@/src/lib/constants";
+import {
+  speakerLabelsSchema,
+  transcriptSegmentSchema,
+} from "../common/validation";
+import { getTranscriptionSettings } from "./settings";
+import { emitWebhookEvent } from "../webhooks/emit";
+import type { ClinicContext, SpeakerLabels, Transcription } from "../types";
+
+// How long the transcription provider may fetch the recording for
+const PROVIDER_URL_TTL_SECONDS = 15 * 60;
+
+/**
+ * Reads the JSON columns of a transcription row
+ * Rows transcribed without speakers, or with data the schemas reject, get no
+ * segments or labels rather than failing the request
+ */
+function toTranscription(row: Tables<"transcriptions">): Transcription {
+  const segments = z.array(transcriptSegmentSchema).safeParse(row.segments);
+  const speakerLabels = speakerLabelsSchema.safeParse(row.speaker_labels);
+
+  return {
+    ...row,
+    segments: segments.success ? segments.data : [],
+    speaker_labels: speakerLabels.success ? speakerLabels.data : {},
+  };
+}
 
 /**
  * Saves a transcription to the database
@@ -19,25 +57,10 @@ export async function saveTranscription(
   transcript: string
 ) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
+    // Verify the case is accessible within the user's active clinic
+    const context = await requireCaseAccess(caseId);
 
-    // Verify the case belongs to the user
     const supabase = await createClient();
-    const { data: caseData, error: caseError } = await supabase
-      .from("cases")
-      .select("id")
-      .eq("id", caseId)
-      .eq("user_id", userId)
-      .single();
-
-    if (caseError || !caseData) {
-      throw new Error("Case not found or unauthorized");
-    }
 
     // Create the transcription record
     const { data: transcription, error } = await supabase
@@ -55,6 +78,15 @@ export async function saveTranscription(
       throw error;
     }
 
+    await emitWebhookEvent(context, "transcription.completed", {
+      transcription: {
+        id: transcription.id,
+        caseId,
+        audioFileId: null,
+        createdAt: transcription.created_at,
+      },
+    });
+
     // Revalidate paths
     revalidatePath(`/dashboard/case/${caseId}`);
 
@@ -77,25 +109,10 @@ export async function saveTranscription(
  */
 export async function getTranscriptionsForCase(caseId: string) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
+    // Verify the case is accessible within the user's active clinic
+    await requireCaseAccess(caseId);
 
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
-
-    // Verify the case belongs to the user
     const supabase = await createClient();
-    const { data: caseData, error: caseError } = await supabase
-      .from("cases")
-      .select("id")
-      .eq("id", caseId)
-      .eq("user_id", userId)
-      .single();
-
-    if (caseError || !caseData) {
-      throw new Error("Case not found or unauthorized");
-    }
 
     // Get all transcriptions for the case
     const { data: transcriptions, error } = await supabase
@@ -130,20 +147,17 @@ export async function updateTranscription(
   transcript: string
 ) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
 
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
-
-    // Get the transcription and verify its case belongs to the user
+    // Get the transcription and verify its case is accessible in the clinic
     const supabase = await createClient();
     const { data: existingTranscription, error: getError } = await supabase
       .from("transcriptions")
-      .select("case_id, cases!inner(id, user_id)")
+      .select("case_id, cases!inner(id, user_id, clinic_id, visibility)")
       .eq("id", transcriptionId)
-      .eq("cases.user_id", userId)
+      .eq("cases.clinic_id", context.clinicId)
+      .or(caseVisibilityFilter(context), { referencedTable: "cases" })
       .single();
 
     if (getError || !existingTranscription) {
@@ -188,14 +202,7 @@ export async function updateTranscription(
  */
 export async function deleteTranscription(transcriptionId: string) {
   try {
-    // Authenticate the user making the request
-    const userId = await getCurrentUserId();
-
-    if (!userId) {
-      throw new Error("Unauthorized");
-    }
-
-    // Get the transcription to find its case_id for path revalidation
+    // Get the transcription to find its case_id for access checks and revalidation
     const supabase = await createClient();
     const { data: existingTranscription, error: getError } = await supabase
       .from("transcriptions")
@@ -203,10 +210,13 @@ export async function deleteTranscription(transcriptionId: string) {
       .eq("id", transcriptionId)
       .single();
 
-    if (getError) {
-      throw getError;
+    if (getError || !existingTranscription?.case_id) {
+      throw new Error("Transcription not found or unauthorized");
     }
 
+    // Verify the case is accessible within the user's active clinic
+    await requireCaseAccess(existingTranscription.case_id);
+
     // Delete the transcription
     const { error } = await supabase
       .from("transcriptions")
@@ -232,4 +242,252 @@ export async function deleteTranscription(transcriptionId: string) {
       error: error instanceof Error ? error.message : "Failed to delete transcription",
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Queue an uploaded recording for transcription on the server
+ * Returns the queued transcription straight away; poll getTranscription for the result
+ */
+export async function transcribeAudioFile(caseId: string, audioFileId: string) {
+  try {
+    // Verify the case is accessible within the user's active clinic
+    const context = await requireCaseAccess(caseId);
+
+    const supabase = await createClient();
+    const { data: audioFile, error: audioError } = await supabase
+      .from("audio_files")
+      .select("*")
+      .eq("id", audioFileId)
+      .eq("clinic_id", context.clinicId)
+      .single();
+
+    if (audioError || !audioFile) {
+      throw new Error("Recording not found or unauthorized");
+    }
+
+    if (audioFile.upload_status !== "uploaded") {
+      throw new Error("The recording has not finished uploading");
+    }
+
+    if (audioFile.transcription_id) {
+      throw new Error("This recording has already been transcribed");
+    }
+
+    const { data: transcription, error } = await supabase
+      .from("transcriptions")
+      .insert({
+        case_id: caseId,
+        audio_file_id: audioFile.id,
+        processing_status: "queued",
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    await supabase
+      .from("audio_files")
+      .update({
+        transcription_id: transcription.id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", audioFile.id);
+
+    // Uploads use the same transcription settings as live recording
+    const settingsResult = await getTranscriptionSettings();
+    const settings = settingsResult.settings?.active || DEFAULT_TRANSCRIPTION_SETTINGS;
+
+    // Transcribe once the response has been sent
+    after(async () => {
+      await processTranscription(context, transcription, audioFile, settings);
+    });
+
+    revalidatePath(`/dashboard/case/${caseId}`);
+
+    return {
+      success: true,
+      transcription: toTranscription(transcription),
+    };
+  } catch (error) {
+    console.error("Failed to transcribe audio file:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to transcribe audio file",
+    };
+  }
+}
+
+/**
+ * Runs a queued transcription through the configured provider
+ * Failures are recorded on the transcription rather than thrown
+ */
+async function processTranscription(
+  context: ClinicContext,
+  transcription: Tables<"transcriptions">,
+  audioFile: Tables<"audio_files">,
+  settings: TranscriptionSettings
+) {
+  const supabase = await createClient();
+
+  const setStatus = (
+    update: Partial<
+      Pick<
+        Transcription,
+        "processing_status" | "processing_error" | "transcript" | "segments"
+      >
+    >
+  ) =>
+    supabase
+      .from("transcriptions")
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq("id", transcription.id);
+
+  try {
+    await setStatus({ processing_status: "processing" });
+
+    // The provider fetches the audio itself through a short-lived signed URL
+    const { data: signedUrl, error: urlError } = await supabase.storage
+      .from(AUDIO_BUCKET)
+      .createSignedUrl(audioFile.file_path, PROVIDER_URL_TTL_SECONDS);
+
+    if (urlError || !signedUrl) {
+      throw urlError || new Error("Failed to sign recording URL");
+    }
+
+    const result = await getTranscriber().transcribe(
+      { url: signedUrl.signedUrl, mimeType: audioFile.format },
+      settings
+    );
+
+    await setStatus({
+      transcript: result.transcript,
+      segments: result.segments,
+      processing_status: "completed",
+      processing_error: null,
+    });
+
+    await emitWebhookEvent(context, "transcription.completed", {
+      transcription: {
+        id: transcription.id,
+        caseId: transcription.case_id!,
+        audioFileId: audioFile.id,
+        createdAt: transcription.created_at,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to process transcription:", error);
+    await setStatus({
+      processing_status: "failed",
+      processing_error:
+        error instanceof Error ? error.message : "Transcription failed",
+    });
+  }
+}
+
+/**
+ * Gets a single transcription
+ * Used to poll the status of a server-side transcription
+ */
+export async function getTranscription(transcriptionId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: transcription, error } = await supabase
+      .from("transcriptions")
+      .select("*, cases!inner(clinic_id)")
+      .eq("id", transcriptionId)
+      .eq("cases.clinic_id", context.clinicId)
+      .single();
+
+    if (error || !transcription) {
+      throw new Error("Transcription not found or unauthorized");
+    }
+
+    const { cases, ...transcriptionRecord } = transcription;
+
+    return {
+      success: true,
+      transcription: toTranscription(transcriptionRecord),
+    };
+  } catch (error) {
+    console.error("Failed to get transcription:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to get transcription",
+    };
+  }
+}
+
+/**
+ * Renames the speakers of a transcription, e.g. "Speaker 0" to "Vet"
+ * Blank names are dropped so the speaker falls back to its number
+ */
+export async function updateSpeakerLabels(
+  transcriptionId: string,
+  speakerLabels: SpeakerLabels
+) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const labels = Object.fromEntries(
+      Object.entries(speakerLabelsSchema.parse(speakerLabels)).filter(
+        ([, name]) => name
+      )
+    );
+
+    // Get the transcription and verify its case is accessible in the clinic
+    const supabase = await createClient();
+    const { data: existingTranscription, error: getError } = await supabase
+      .from("transcriptions")
+      .select("case_id, cases!inner(id, user_id, clinic_id, visibility)")
+      .eq("id", transcriptionId)
+      .eq("cases.clinic_id", context.clinicId)
+      .or(caseVisibilityFilter(context), { referencedTable: "cases" })
+      .single();
+
+    if (getError || !existingTranscription) {
+      throw new Error("Transcription not found or unauthorized");
+    }
+
+    const { data: transcription, error } = await supabase
+      .from("transcriptions")
+      .update({
+        speaker_labels: labels,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", transcriptionId)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    if (existingTranscription.case_id) {
+      revalidatePath(`/dashboard/case/${existingTranscription.case_id}`);
+    }
+
+    return {
+      success: true,
+      transcription: toTranscription(transcription),
+    };
+  } catch (error) {
+    console.error("Failed to update speaker labels:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to update speaker labels",
+    };
+  }
+}
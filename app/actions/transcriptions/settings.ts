@@ -0,0 +1,211 @@
+"use server";
+
+/**
+ * Transcription settings server actions
+ * Handles the clinic's transcription defaults and each member's overrides
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { assertClinicRole, requireClinicContext } from "../common/clinic";
+import { transcriptionSettingsSchema } from "../common/validation";
+import { resolveTranscriptionSettings } from "@/src/lib/transcription/settings";
+import type {
+  ClinicContext,
+  TranscriptionSettingsProfile,
+  TranscriptionSettingsRow,
+  TranscriptionSettingsState,
+} from "../types";
+
+const SETTINGS_PATH = "/dashboard/settings/transcription";
+
+/**
+ * Get the clinic and personal transcription profiles and the merged
+ * settings in effect for the current user
+ */
+export async function getTranscriptionSettings() {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: profiles, error } = await supabase
+      .from("transcription_settings")
+      .select("*")
+      .eq("clinic_id", context.clinicId)
+      .or(`user_id.is.null,user_id.eq.${context.userId}`);
+
+    if (error) {
+      throw error;
+    }
+
+    const clinic = profiles?.find((p) => p.user_id === null) || null;
+    const user = profiles?.find((p) => p.user_id === context.userId) || null;
+
+    const settings: TranscriptionSettingsState = {
+      active: resolveTranscriptionSettings(clinic, user),
+      clinic,
+      user,
+      canEditClinic: context.role === "owner",
+    };
+
+    return {
+      success: true,
+      settings,
+    };
+  } catch (error) {
+    console.error("Failed to get transcription settings:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to get transcription settings",
+    };
+  }
+}
+
+/**
+ * Update the clinic's transcription defaults
+ * Only clinic owners can change them
+ */
+export async function updateClinicTranscriptionSettings(
+  profile: TranscriptionSettingsProfile
+) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const parsedProfile = transcriptionSettingsSchema.parse(profile);
+    const saved = await saveProfile(context, null, parsedProfile);
+
+    revalidatePath(SETTINGS_PATH);
+
+    return {
+      success: true,
+      profile: saved,
+    };
+  } catch (error) {
+    console.error("Failed to update clinic transcription settings:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to update clinic transcription settings",
+    };
+  }
+}
+
+/**
+ * Update the current user's personal transcription overrides
+ */
+export async function updateUserTranscriptionSettings(
+  profile: TranscriptionSettingsProfile
+) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const parsedProfile = transcriptionSettingsSchema.parse(profile);
+    const saved = await saveProfile(context, context.userId, parsedProfile);
+
+    revalidatePath(SETTINGS_PATH);
+
+    return {
+      success: true,
+      profile: saved,
+    };
+  } catch (error) {
+    console.error("Failed to update transcription settings:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to update transcription settings",
+    };
+  }
+}
+
+/**
+ * Remove the current user's overrides so the clinic defaults apply again
+ */
+export async function resetUserTranscriptionSettings() {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { error } = await supabase
+      .from("transcription_settings")
+      .delete()
+      .eq("clinic_id", context.clinicId)
+      .eq("user_id", context.userId);
+
+    if (error) {
+      throw error;
+    }
+
+    revalidatePath(SETTINGS_PATH);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to reset transcription settings:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to reset transcription settings",
+    };
+  }
+}
+
+/**
+ * Updates the clinic (userId null) or personal profile, creating it first
+ * when it does not exist yet
+ * The unique indexes are partial, so this cannot be a single upsert
+ */
+async function saveProfile(
+  context: ClinicContext,
+  userId: string | null,
+  profile: TranscriptionSettingsProfile
+): Promise<TranscriptionSettingsRow> {
+  const supabase = await createClient();
+
+  let existingQuery = supabase
+    .from("transcription_settings")
+    .select("id")
+    .eq("clinic_id", context.clinicId);
+  existingQuery = userId
+    ? existingQuery.eq("user_id", userId)
+    : existingQuery.is("user_id", null);
+
+  const { data: existing, error: existingError } =
+    await existingQuery.maybeSingle();
+
+  if (existingError) {
+    throw existingError;
+  }
+
+  const { data: saved, error } = existing
+    ? await supabase
+        .from("transcription_settings")
+        .update({ ...profile, updated_at: new Date().toISOString() })
+        .eq("id", existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from("transcription_settings")
+        .insert({ ...profile, clinic_id: context.clinicId, user_id: userId })
+        .select()
+        .single();
+
+  if (error || !saved) {
+    throw error || new Error("Failed to save transcription settings");
+  }
+
+  return saved;
+}
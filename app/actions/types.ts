@@ -1,11 +1,50 @@
 // Export types from various action files
 // This file does NOT have "use server" directive
 import { Tables, Enums, TablesInsert, TablesUpdate } from "@/database.types";
+import type {
+  SpeakerLabels,
+  TranscriptSegment,
+} from "@/src/lib/transcription/types";
+import type {
+  TranscriptionSettings,
+  TranscriptionSettingsProfile,
+} from "@/src/lib/transcription/settings";
+import type { TemplateImportResolution } from "@/src/lib/templates/portable";
+import type { NoteSection, StructuredNote } from "@/src/lib/notes/structured-note";
+import type { DocumentRef, DocumentType } from "@/src/lib/exports/documents";
+import type { PimsAdapterId, PimsMapping } from "@/src/lib/pims/catalog";
+
+export type { SpeakerLabels, TranscriptSegment };
+export type { TranscriptionSettings, TranscriptionSettingsProfile };
+export type { TemplateImportResolution };
+export type { NoteSection, StructuredNote };
+export type { DocumentRef, DocumentType };
+export type { PimsAdapterId, PimsMapping };
 
 // Use Supabase enums directly
 export type CaseStatus = Enums<"CaseStatus">;
 export type CaseType = Enums<"CaseType">;
+// "private" cases are visible only to their creator, "public" cases to every
+// member of the case's clinic
 export type CaseVisibility = Enums<"CaseVisibility">;
+export type ClinicRole = Enums<"ClinicRole">;
+export type PatientSex = Enums<"PatientSex">;
+export type NeuterStatus = Enums<"NeuterStatus">;
+export type ContactMethod = Enums<"ContactMethod">;
+export type AudioUploadStatus = Enums<"AudioUploadStatus">;
+export type TranscriptionStatus = Enums<"TranscriptionStatus">;
+// How a generation version was produced
+export type GenerationSource = Enums<"GenerationSource">;
+// Whether a template version is still a draft or has been published
+export type TemplateVersionStatus = Enums<"TemplateVersionStatus">;
+// Sign-off decision on a generated document
+export type ReviewDecision = Enums<"ReviewDecision">;
+export type ExportFormat = Enums<"ExportFormat">;
+export type ExportDestination = Enums<"ExportDestination">;
+export type PimsExportStatus = Enums<"PimsExportStatus">;
+export type WebhookEvent = Enums<"WebhookEvent">;
+export type WebhookDeliveryStatus = Enums<"WebhookDeliveryStatus">;
+export type ApiTokenScope = Enums<"ApiTokenScope">;
 
 // Client-specific extensions and utility types
 export interface PaginationMeta {
@@ -15,6 +54,42 @@ export interface PaginationMeta {
   pageCount: number;
 }
 
+// Workflow status shown on the Find Case page, derived from CaseStatus and
+// whether anything has been recorded for the case yet
+export type CaseSearchStatus = "draft" | "in_progress" | "completed";
+
+// Query parameters accepted by the /api/cases search endpoint
+export interface CaseSearchParams {
+  search?: string;
+  status?: CaseSearchStatus[];
+  type?: CaseType[];
+  assignedToId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  sortBy?: "dateTime" | "updatedAt" | "name";
+  sortOrder?: "asc" | "desc";
+  page?: number;
+  pageSize?: number;
+}
+
+// A single row returned by the /api/cases search endpoint
+export interface CaseSearchResult {
+  id: string;
+  name: string;
+  dateTime: string;
+  type: CaseType;
+  status: CaseSearchStatus;
+  assignedToId: string | null;
+  assignedToName: string | null;
+  patientId: string | null;
+  patientName: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  transcriptionCount: number;
+  soapNoteCount: number;
+  generationCount: number;
+}
+
 // Use the generated Case type directly and extend it with client-specific fields
 export type Case = Tables<"cases">;
 
@@ -28,11 +103,322 @@ export interface ClientCase extends Tables<"cases"> {
   time?: string;
 }
 
+// Clinics and membership
+export type Clinic = Tables<"clinics">;
+// Contact details printed on the clinic's letterhead
+export type ClinicLetterhead = Pick<Clinic, "address" | "phone" | "email">;
+export type ClinicMember = Tables<"clinic_members">;
+
+export type ClinicInvitation = Tables<"clinic_invitations">;
+
+// A clinic member with the profile details shown on the Teams page
+export interface TeamMember {
+  id: string;
+  userId: string;
+  role: ClinicRole;
+  email: string;
+  name: string | null;
+  joinedAt: string;
+}
+
+// The clinic a request is operating in, resolved from the session
+export interface ClinicContext {
+  userId: string;
+  clinicId: string;
+  role: ClinicRole;
+}
+
+// Patients are shared across a clinic and referenced by their cases
+export type Patient = Tables<"patients">;
+export type PatientWeight = Tables<"patient_weights">;
+
+// Editable patient details accepted by createPatient / updatePatient
+export interface PatientInput {
+  name: string;
+  owner_name: string;
+  client_id?: string | null;
+  species?: string | null;
+  breed?: string | null;
+  sex?: PatientSex;
+  neuter_status?: NeuterStatus;
+  date_of_birth?: string | null;
+  microchip_number?: string | null;
+  allergies?: string[];
+}
+
+// Query parameters accepted by searchPatients
+export interface PatientSearchParams {
+  search?: string;
+  species?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+// A patient together with the number of cases on record
+export interface PatientSummary extends Patient {
+  caseCount: number;
+  latestWeightKg: number | null;
+}
+
+// A single entry in a patient's medical timeline, newest first
+export type PatientTimelineEvent =
+  | {
+      type: "case";
+      date: string;
+      caseId: string;
+      caseType: CaseType | null;
+      status: CaseStatus | null;
+    }
+  | {
+      type: "transcription";
+      date: string;
+      caseId: string;
+      transcriptionId: string;
+      transcript: string | null;
+    }
+  | {
+      type: "soap_note";
+      date: string;
+      caseId: string;
+      soapNoteId: string;
+      title: string;
+      sections: NoteSection[];
+    }
+  | {
+      type: "weight";
+      date: string;
+      caseId: string | null;
+      weightId: string;
+      weightKg: number;
+    };
+
+// Clients are the owners of patients; a household can have several pets
+export type Client = Tables<"clients">;
+
+// Editable client details accepted by addClient / updateClient
+export interface ClientInput {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  address_line1?: string | null;
+  address_line2?: string | null;
+  city?: string | null;
+  region?: string | null;
+  postal_code?: string | null;
+  country?: string | null;
+  preferred_contact_method?: ContactMethod;
+  email_opt_in?: boolean;
+  sms_opt_in?: boolean;
+  notes?: string | null;
+}
+
+// A case seen for one of a client's patients
+export interface ClientVisit {
+  caseId: string;
+  patientId: string;
+  patientName: string;
+  type: CaseType | null;
+  status: CaseStatus | null;
+  date: string | null;
+}
+
+// Transcripts of a case; uploaded recordings are transcribed on the server
+// and move through queued -> processing -> completed | failed
+export type Transcription = Omit<
+  Tables<"transcriptions">,
+  "segments" | "speaker_labels"
+> & {
+  segments: TranscriptSegment[];
+  speaker_labels: SpeakerLabels;
+};
+
+// A transcript passed to generateContentFromTemplate; when segments are given
+// the prompt is built as a conversation using the speaker labels
+export interface TranscriptInput {
+  // Saved transcription the transcript came from, recorded on the generation
+  id?: string;
+  transcript: string;
+  segments?: TranscriptSegment[];
+  speakerLabels?: SpeakerLabels;
+}
+
+// A stored transcription profile: the clinic's defaults when user_id is null,
+// otherwise one member's overrides
+export type TranscriptionSettingsRow = Tables<"transcription_settings">;
+
+// Profiles shown on the settings page alongside the merged result in effect
+export interface TranscriptionSettingsState {
+  active: TranscriptionSettings;
+  clinic: TranscriptionSettingsRow | null;
+  user: TranscriptionSettingsRow | null;
+  canEditClinic: boolean;
+}
+
+// Raw consult recordings kept in the "recordings" storage bucket
+export type AudioFile = Tables<"audio_files">;
+
+// Recording metadata accepted by createAudioFile before the upload starts
+export interface AudioFileInput {
+  filename: string;
+  format: string;
+  duration: number;
+  file_size: number;
+  sample_rate?: number | null;
+  channels?: number | null;
+  bit_rate?: number | null;
+}
+
+// Generated content; editing, restoring or regenerating saves a new version
+// that points at the one it came from through parent_id
+export type Generation = Tables<"generations">;
+
+// Where a new generation version comes from
+export interface GenerationLineage {
+  parentId?: string | null;
+  source?: GenerationSource;
+}
+
+// One version in the history of a generation, numbered from 1 in the order
+// the versions were made
+export type GenerationVersion = Generation & {
+  version: number;
+  templates: Pick<Template, "id" | "name" | "type" | "output_schema"> | null;
+};
+
 // Use the generated Template type directly
 export type Template = Tables<"templates">;
 export type TemplateInsert = Omit<TablesInsert<"templates">, "created_at" | "updated_at">;
 export type TemplateUpdate = Omit<TablesUpdate<"templates">, "created_at" | "updated_at">;
 
+// Template fields captured by each version
+export type TemplateContent = Pick<
+  Template,
+  | "name"
+  | "type"
+  | "description"
+  | "content"
+  | "prompt"
+  | "model"
+  | "provider"
+  | "output_schema"
+>;
+
+// An immutable revision of a template; the template row holds the content
+// of its published version
+export type TemplateVersion = Tables<"template_versions">;
+
+// A template in an import whose key one of the clinic's templates already
+// uses
+export interface TemplateImportConflict {
+  key: string;
+  name: string;
+  existingId: string;
+  existingName: string | null;
+}
+
+// A version as listed in the template's changelog
+export type TemplateVersionEntry = TemplateVersion & {
+  author: string | null;
+  publisher: string | null;
+};
+
+// Sign-off on a generation version or note; documents without one are
+// awaiting review
+export type DocumentReview = Tables<"document_reviews">;
+
+// One exported document in the export log
+export type DocumentExport = Tables<"document_exports">;
+
+// A generation (its latest version) or note as listed in the Export Center
+export interface ReviewDocument extends DocumentRef {
+  caseId: string;
+  title: string;
+  visitType: CaseType | null;
+  patientName: string | null;
+  createdAt: string;
+  sections: NoteSection[];
+  review: {
+    decision: ReviewDecision;
+    comment: string | null;
+    reviewer: string | null;
+    reviewedAt: string;
+  } | null;
+}
+
+// The Export Center queues: documents awaiting review, and approved ones
+export type ExportQueue = "review" | "ready";
+
+// Where the next page of a queue starts: after this document, newest first
+export interface ExportQueueCursor {
+  createdAt: string;
+  id: string;
+}
+
+// A page of an Export Center queue
+export interface ExportQueuePage {
+  documents: ReviewDocument[];
+  nextCursor: ExportQueueCursor | null;
+}
+
+// An export as listed in the export history
+export type ExportHistoryEntry = DocumentExport & {
+  exporter: string | null;
+};
+
+// A practice-management system the clinic exports to, without its
+// credentials
+export type PimsConnection = Omit<Tables<"pims_connections">, "mapping"> & {
+  mapping: PimsMapping;
+  hasAuthHeader: boolean;
+};
+
+// A connection as edited in settings; authHeader is kept when undefined and
+// removed when null
+export interface PimsConnectionInput {
+  id?: string;
+  name: string;
+  adapter: PimsAdapterId;
+  endpointUrl: string;
+  authHeader?: string | null;
+  mapping: PimsMapping;
+  enabled: boolean;
+}
+
+// One message sent to a PIMS, as listed in the audit log
+export type PimsExport = Tables<"pims_exports">;
+
+// The message itself is loaded when an entry is opened
+export type PimsExportLogEntry = Omit<PimsExport, "request_body"> & {
+  exporter: string | null;
+};
+
+// An endpoint subscribed to the clinic's events; its signing secret is kept
+// in webhook_subscription_secrets
+export type WebhookSubscription = Tables<"webhook_subscriptions">;
+
+export interface WebhookSubscriptionInput {
+  id?: string;
+  url: string;
+  description?: string | null;
+  events: WebhookEvent[];
+  enabled: boolean;
+}
+
+// One event sent to a subscription, as listed in the delivery log
+export type WebhookDelivery = Tables<"webhook_deliveries">;
+
+// A personal access token for the REST API, without its hash
+export type PersonalAccessToken = Omit<
+  Tables<"personal_access_tokens">,
+  "token_hash"
+>;
+
+export interface PersonalAccessTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresInDays?: number | null;
+}
+
 // Email specific types
 export interface EmailResponse {
   success: boolean;
@@ -45,6 +431,7 @@ export interface CreateCaseInput {
   name: string;
   dateTime: string;
   assignedTo: string;
+  patientId?: string;
   type: CaseType;
   status?: CaseStatus;
   visibility?: CaseVisibility;
@@ -53,15 +440,13 @@ export interface CreateCaseInput {
 
 export interface ClientCaseAction {
   id: string;
-  type: "recording" | "soap" | "unknown";
+  type: "recording" | "note" | "unknown";
   content: {
     transcript?: string;
-    soap?: {
-      subjective: string;
-      objective: string;
-      assessment: string;
-      plan: string;
-    };
+    audioFileId?: string;
+    segments?: TranscriptSegment[];
+    speakerLabels?: SpeakerLabels;
+    note?: StructuredNote;
   };
   timestamp: number;
 }
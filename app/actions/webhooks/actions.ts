@@ -0,0 +1,352 @@
+"use server";
+
+/**
+ * Webhook server actions
+ * Owners subscribe endpoints to case lifecycle events and redeliver events;
+ * members see the subscriptions and the delivery log. Events are emitted
+ * from other actions through ./emit.ts.
+ */
+
+import { createClient } from "@/src/lib/supabase/server";
+import { createAdminClient } from "@/src/lib/supabase/admin";
+import { revalidatePath } from "next/cache";
+import { assertClinicRole, requireClinicContext } from "../common/clinic";
+import { webhookSubscriptionSchema } from "../common/validation";
+import { deliverWebhook, loadWebhookSecrets } from "./emit";
+import { generateWebhookSecret } from "@/src/lib/webhooks";
+import { assertPublicUrl } from "@/src/lib/public-url";
+import type { WebhookDelivery, WebhookSubscriptionInput } from "../types";
+
+const SETTINGS_PATH = "/dashboard/settings/webhooks";
+
+// Deliveries shown in settings, newest first
+const LOG_LIMIT = 200;
+
+/**
+ * Gets the clinic's webhook subscriptions and whether the member may manage
+ * them
+ */
+export async function getWebhookSubscriptions() {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: subscriptions, error } = await supabase
+      .from("webhook_subscriptions")
+      .select("*")
+      .eq("clinic_id", context.clinicId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      success: true,
+      subscriptions: subscriptions || [],
+      canManage: context.role === "owner",
+    };
+  } catch (error) {
+    console.error("Failed to get webhook subscriptions:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to get webhook subscriptions",
+    };
+  }
+}
+
+/**
+ * Creates or updates a webhook subscription
+ * A new subscription gets a signing secret, returned only this once
+ */
+export async function saveWebhookSubscription(input: WebhookSubscriptionInput) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const parsed = webhookSubscriptionSchema.parse(input);
+    await assertPublicUrl(parsed.url);
+    const values = {
+      url: parsed.url,
+      description: parsed.description || null,
+      events: Array.from(new Set(parsed.events)),
+      enabled: parsed.enabled,
+    };
+
+    const supabase = await createClient();
+    if (parsed.id) {
+      const { data: subscription, error } = await supabase
+        .from("webhook_subscriptions")
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq("id", parsed.id)
+        .eq("clinic_id", context.clinicId)
+        .select("*")
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      revalidatePath(SETTINGS_PATH);
+
+      return {
+        success: true,
+        subscription,
+      };
+    }
+
+    const secret = generateWebhookSecret();
+    const { data: subscription, error } = await supabase
+      .from("webhook_subscriptions")
+      .insert({
+        ...values,
+        clinic_id: context.clinicId,
+        created_by: context.userId,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const { error: secretError } = await supabase
+      .from("webhook_subscription_secrets")
+      .insert({
+        subscription_id: subscription.id,
+        clinic_id: context.clinicId,
+        secret,
+      });
+
+    if (secretError) {
+      // A subscription without a secret could never deliver
+      await supabase
+        .from("webhook_subscriptions")
+        .delete()
+        .eq("id", subscription.id);
+      throw secretError;
+    }
+
+    revalidatePath(SETTINGS_PATH);
+
+    return {
+      success: true,
+      subscription,
+      secret,
+    };
+  } catch (error) {
+    console.error("Failed to save webhook subscription:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to save webhook subscription",
+    };
+  }
+}
+
+/**
+ * Replaces a subscription's signing secret; the new one is returned only
+ * this once and signs every request from now on
+ */
+export async function rotateWebhookSecret(subscriptionId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const secret = generateWebhookSecret();
+    const supabase = await createClient();
+    const { data: subscription, error } = await supabase
+      .from("webhook_subscriptions")
+      .update({ updated_at: new Date().toISOString() })
+      .eq("id", subscriptionId)
+      .eq("clinic_id", context.clinicId)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!subscription) {
+      throw new Error("Webhook subscription not found or unauthorized");
+    }
+
+    const { error: secretError } = await supabase
+      .from("webhook_subscription_secrets")
+      .upsert({
+        subscription_id: subscription.id,
+        clinic_id: context.clinicId,
+        secret,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (secretError) {
+      throw secretError;
+    }
+
+    return {
+      success: true,
+      secret,
+    };
+  } catch (error) {
+    console.error("Failed to rotate webhook secret:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to rotate webhook secret",
+    };
+  }
+}
+
+/**
+ * Deletes a webhook subscription and its deliveries
+ */
+export async function deleteWebhookSubscription(subscriptionId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const supabase = await createClient();
+    const { error } = await supabase
+      .from("webhook_subscriptions")
+      .delete()
+      .eq("id", subscriptionId)
+      .eq("clinic_id", context.clinicId);
+
+    if (error) {
+      throw error;
+    }
+
+    revalidatePath(SETTINGS_PATH);
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("Failed to delete webhook subscription:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to delete webhook subscription",
+    };
+  }
+}
+
+/**
+ * Gets the most recent webhook deliveries of the clinic
+ */
+export async function getWebhookDeliveries() {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+
+    const supabase = await createClient();
+    const { data: deliveries, error } = await supabase
+      .from("webhook_deliveries")
+      .select("*")
+      .eq("clinic_id", context.clinicId)
+      .order("created_at", { ascending: false })
+      .limit(LOG_LIMIT);
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      success: true,
+      deliveries: (deliveries || []) as WebhookDelivery[],
+    };
+  } catch (error) {
+    console.error("Failed to get webhook deliveries:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to get webhook deliveries",
+    };
+  }
+}
+
+/**
+ * Sends a delivery's event again, once, with the subscription's current URL
+ * and secret; it is logged as a new delivery of the same event
+ */
+export async function redeliverWebhook(deliveryId: string) {
+  try {
+    // Resolve the user's active clinic
+    const context = await requireClinicContext();
+    assertClinicRole(context, ["owner"]);
+
+    const supabase = await createClient();
+    const { data: original, error: deliveryError } = await supabase
+      .from("webhook_deliveries")
+      .select("*, webhook_subscriptions(url)")
+      .eq("id", deliveryId)
+      .eq("clinic_id", context.clinicId)
+      .single();
+
+    if (deliveryError || !original?.webhook_subscriptions) {
+      throw new Error("Webhook delivery not found or unauthorized");
+    }
+
+    const secret = (await loadWebhookSecrets([original.subscription_id])).get(
+      original.subscription_id
+    );
+    if (!secret) {
+      throw new Error("The subscription has no signing secret");
+    }
+
+    // Members cannot write deliveries; the original was found above with
+    // the owner's own client
+    const { data: redelivery, error } = await createAdminClient()
+      .from("webhook_deliveries")
+      .insert({
+        clinic_id: context.clinicId,
+        subscription_id: original.subscription_id,
+        event: original.event,
+        event_id: original.event_id,
+        payload: original.payload,
+        redelivery_of: original.id,
+        triggered_by: context.userId,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const delivery = await deliverWebhook(
+      redelivery,
+      { url: original.webhook_subscriptions.url, secret },
+      { retry: false }
+    );
+
+    revalidatePath(SETTINGS_PATH);
+
+    return {
+      success: true,
+      delivery: delivery as WebhookDelivery,
+    };
+  } catch (error) {
+    console.error("Failed to redeliver webhook:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to redeliver webhook",
+    };
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Emits webhook events, delivers them and retries failed deliveries
+ * This file does NOT have "use server" directive: these helpers are only
+ * called from other server code and must not be exposed as actions
+ */
+
+import { randomUUID } from "crypto";
+import { after } from "next/server";
+import { createClient } from "@/src/lib/supabase/server";
+import { createAdminClient } from "@/src/lib/supabase/admin";
+import {
+  sendWebhook,
+  webhookRetryDelay,
+  WEBHOOK_ATTEMPT_LEASE_MS,
+  WEBHOOK_MAX_ATTEMPTS,
+  type WebhookCase,
+  type WebhookEvent,
+  type WebhookEventData,
+  type WebhookPayload,
+} from "@/src/lib/webhooks";
+import type { Json, Tables } from "@/database.types";
+import type { ClinicContext } from "../types";
+
+type WebhookDeliveryRow = Tables<"webhook_deliveries">;
+
+/**
+ * A case as sent in case events
+ */
+export function toWebhookCase(row: Tables<"cases">): WebhookCase {
+  return {
+    id: row.id,
+    type: row.type,
+    status: row.status,
+    visibility: row.visibility,
+    patientId: row.patient_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Signing secrets of subscriptions, keyed by subscription id
+ * Members cannot see secrets, so they are read with the service role; only
+ * call this for subscriptions the caller is allowed to deliver to
+ */
+export async function loadWebhookSecrets(
+  subscriptionIds: string[]
+): Promise<Map<string, string>> {
+  const { data: secrets, error } = await createAdminClient()
+    .from("webhook_subscription_secrets")
+    .select("subscription_id, secret")
+    .in("subscription_id", subscriptionIds);
+
+  if (error) {
+    throw error;
+  }
+
+  return new Map(
+    (secrets || []).map((row) => [row.subscription_id, row.secret])
+  );
+}
+
+/**
+ * Sends a delivery to its subscription once and records the outcome
+ * With retries, a failed attempt stays pending until next_attempt_at, when
+ * the retry worker sends it again, until WEBHOOK_MAX_ATTEMPTS; without, the
+ * delivery fails after one attempt. Outcomes are recorded with the service
+ * role, since retries run without a signed-in user.
+ */
+export async function deliverWebhook(
+  delivery: WebhookDeliveryRow,
+  subscription: { url: string; secret: string },
+  { retry }: { retry: boolean }
+): Promise<WebhookDeliveryRow> {
+  const attempt = await sendWebhook(
+    subscription,
+    delivery.payload as unknown as WebhookPayload
+  );
+  const attempts = delivery.attempts + 1;
+  const willRetry =
+    !attempt.delivered && retry && attempts < WEBHOOK_MAX_ATTEMPTS;
+
+  const { data: updated, error } = await createAdminClient()
+    .from("webhook_deliveries")
+    .update({
+      status: attempt.delivered
+        ? "delivered"
+        : willRetry
+          ? "pending"
+          : "failed",
+      attempts,
+      next_attempt_at: willRetry
+        ? new Date(Date.now() + webhookRetryDelay(attempts)).toISOString()
+        : null,
+      response_status: attempt.status,
+      response_body: attempt.responseBody,
+      error: attempt.error,
+      duration_ms: attempt.durationMs,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", delivery.id)
+    .select("*")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return updated;
+}
+
+/**
+ * Sends the pending deliveries whose next attempt is due, oldest first
+ * Called by the scheduled worker at /api/webhooks/retry. Each delivery is
+ * claimed by moving next_attempt_at forward first, so overlapping runs never
+ * send it twice. Deliveries of disabled subscriptions, or of subscriptions
+ * in another clinic, fail.
+ */
+export async function retryDueWebhooks(limit: number) {
+  const supabase = createAdminClient();
+  const { data: due, error } = await supabase
+    .from("webhook_deliveries")
+    .select("*, webhook_subscriptions(clinic_id, url, enabled)")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+  if (!due || due.length === 0) {
+    return { attempted: 0, delivered: 0 };
+  }
+
+  const secrets = await loadWebhookSecrets(
+    Array.from(new Set(due.map((delivery) => delivery.subscription_id)))
+  );
+
+  let attempted = 0;
+  let delivered = 0;
+  for (const { webhook_subscriptions: subscription, ...delivery } of due) {
+    const { data: claimed, error: claimError } = await supabase
+      .from("webhook_deliveries")
+      .update({
+        next_attempt_at: new Date(
+          Date.now() + WEBHOOK_ATTEMPT_LEASE_MS
+        ).toISOString(),
+      })
+      .eq("id", delivery.id)
+      .eq("status", "pending")
+      .eq("next_attempt_at", delivery.next_attempt_at!)
+      .select("*")
+      .maybeSingle();
+
+    if (claimError) {
+      throw claimError;
+    }
+    // Another run got to it first
+    if (!claimed) {
+      continue;
+    }
+
+    const secret = secrets.get(delivery.subscription_id);
+    const refusal =
+      subscription?.clinic_id !== delivery.clinic_id
+        ? "The subscription belongs to another clinic"
+        : !subscription.enabled
+          ? "The subscription is disabled"
+          : !secret
+            ? "The subscription has no signing secret"
+            : null;
+    if (refusal || !subscription || !secret) {
+      await supabase
+        .from("webhook_deliveries")
+        .update({
+          status: "failed",
+          next_attempt_at: null,
+          error: refusal,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", delivery.id);
+      continue;
+    }
+
+    attempted++;
+    try {
+      const result = await deliverWebhook(
+        claimed,
+        { url: subscription.url, secret },
+        { retry: true }
+      );
+      if (result.status === "delivered") {
+        delivered++;
+      }
+    } catch (deliveryError) {
+      console.error(
+        `Failed to retry ${delivery.event} webhook:`,
+        deliveryError
+      );
+    }
+  }
+
+  return { attempted, delivered };
+}
+
+/**
+ * Emits an event to the clinic's enabled subscriptions for it
+ * Deliveries are logged right away and first sent once the response has
+ * been sent, so a slow or failing endpoint never holds up or fails the
+ * action; the retry worker sends them again if that attempt fails
+ */
+export async function emitWebhookEvent<E extends WebhookEvent>(
+  context: Pick<ClinicContext, "clinicId" | "userId">,
+  event: E,
+  data: WebhookEventData[E]
+) {
+  try {
+    const supabase = await createClient();
+    const { data: subscriptions, error } = await supabase
+      .from("webhook_subscriptions")
+      .select("id, url")
+      .eq("clinic_id", context.clinicId)
+      .eq("enabled", true)
+      .contains("events", [event]);
+
+    if (error) {
+      throw error;
+    }
+    if (!subscriptions || subscriptions.length === 0) {
+      return;
+    }
+
+    const payload: WebhookPayload<E> = {
+      id: randomUUID(),
+      type: event,
+      createdAt: new Date().toISOString(),
+      clinicId: context.clinicId,
+      data,
+    };
+
+    // Members cannot write deliveries; the payload is built here, for
+    // subscriptions the member's own client found in their clinic
+    const { data: deliveries, error: insertError } = await createAdminClient()
+      .from("webhook_deliveries")
+      .insert(
+        subscriptions.map((subscription) => ({
+          clinic_id: context.clinicId,
+          subscription_id: subscription.id,
+          event,
+          event_id: payload.id,
+          payload: payload as unknown as Json,
+          // The first attempt is made below; the retry worker only picks
+          // the delivery up if that attempt is never recorded
+          next_attempt_at: new Date(
+            Date.now() + WEBHOOK_ATTEMPT_LEASE_MS
+          ).toISOString(),
+          triggered_by: context.userId,
+        }))
+      )
+      .select("*");
+
+    if (insertError) {
+      throw insertError;
+    }
+
+    const urls = new Map(
+      subscriptions.map((subscription) => [subscription.id, subscription.url])
+    );
+    const secrets = await loadWebhookSecrets(Array.from(urls.keys()));
+
+    // The first attempt only; failed deliveries are retried by the worker,
+    // which also fails those of subscriptions without a secret
+    after(async () => {
+      await Promise.all(
+        deliveries
+          .filter((delivery) => secrets.has(delivery.subscription_id))
+          .map((delivery) =>
+            deliverWebhook(
+              delivery,
+              {
+                url: urls.get(delivery.subscription_id)!,
+                secret: secrets.get(delivery.subscription_id)!,
+              },
+              { retry: true }
+            ).catch((deliveryError) =>
+              console.error(
+                `Failed to deliver ${event} webhook:`,
+                deliveryError
+              )
+            )
+          )
+      );
+    });
+  } catch (error) {
+    // Webhooks never fail the action that emitted them
+    console.error(`Failed to emit ${event} webhook:`, error);
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/app/actions/common/auth";
+import { caseSearchSchema } from "@/app/actions/common/validation";
+import { searchCases } from "@/app/actions/cases/actions";
+
+// Search results depend on the session and current data
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * Case search used by the Find Case page
+ * Accepts search, status, type, assignedToId, dateFrom, dateTo, sortBy,
+ * sortOrder, page and pageSize; status and type may be repeated. Cases are
+ * found from dateFrom up to, but not including, dateTo.
+ */
+export async function GET(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: "You must be logged in to search cases" },
+      { status: 401 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const parsed = caseSearchSchema.safeParse({
+    search: searchParams.get("search") || undefined,
+    status: searchParams.getAll("status"),
+    type: searchParams.getAll("type"),
+    assignedToId: searchParams.get("assignedToId") || undefined,
+    dateFrom: searchParams.get("dateFrom") || undefined,
+    dateTo: searchParams.get("dateTo") || undefined,
+    sortBy: searchParams.get("sortBy") || undefined,
+    sortOrder: searchParams.get("sortOrder") || undefined,
+    page: searchParams.get("page") || undefined,
+    pageSize: searchParams.get("pageSize") || undefined,
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid search parameters",
+        issues: parsed.error.flatten().fieldErrors,
+      },
+      { status: 400 }
+    );
+  }
+
+  const result = await searchCases(
+    parsed.data as Parameters<typeof searchCases>[0]
+  );
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  const response = NextResponse.json({
+    data: result.data,
+    meta: result.meta,
+  });
+  response.headers.set("Cache-Control", "no-store, max-age=0");
+
+  return response;
+}
@@ -10,6 +10,11 @@ interface DeepgramKeyResponse {
   url?: string;
 }
 
+// Temporary keys only need to outlive the socket handshake: an open socket
+// stays open after its key expires, and the client fetches a new key for
+// every reconnect
+const TEMPORARY_KEY_TTL_SECONDS = 60;
+
 export async function GET(request: NextRequest) {
   // Check if we're in development mode - use direct API key
   if (
@@ -68,7 +73,7 @@ export async function GET(request: NextRequest) {
       await deepgram.manage.createProjectKey(project.project_id, {
         comment: "Temporary API key for web client",
         scopes: ["usage:write"],
-        time_to_live_in_seconds: 60, // 1 minute
+        time_to_live_in_seconds: TEMPORARY_KEY_TTL_SECONDS,
       });
 
     if (newKeyError) {
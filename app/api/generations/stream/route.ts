@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from "next/server";
+import { streamObject, streamText, type LanguageModelV1 } from "ai";
+import { getCurrentUserId } from "@/app/actions/common/auth";
+import { resolveCaseVariables } from "@/app/actions/templates/variables";
+import { generationStreamSchema } from "@/app/actions/common/validation";
+import { getTemplateById } from "@/app/actions/templates/actions";
+import { saveGeneration } from "@/app/actions/generations/actions";
+import {
+  buildTemplatePrompt,
+  outputFieldErrors,
+  renderTemplatePrompt,
+  transcriptionIdsOf,
+} from "@/app/actions/generations/prompt";
+import {
+  templateOutputSchema,
+  toZodSchema,
+} from "@/src/lib/templates/schema";
+import { resolveTemplateModel, templateLanguageModel } from "@/src/lib/llm";
+import type { TemplateVariableValues } from "@/src/lib/templates/variables";
+import type { GenerationStreamEvent } from "@/src/lib/generation-stream";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Streams content generated from a template as newline-delimited JSON events
+ * (see /src/lib/generation-stream.ts). Closing the request aborts the model
+ * call; the generation is only saved to the case once it completes.
+ */
+export async function POST(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: "You must be logged in to generate content" },
+      { status: 401 }
+    );
+  }
+
+  const parsed = generationStreamSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid generation request",
+        issues: parsed.error.flatten().fieldErrors,
+      },
+      { status: 400 }
+    );
+  }
+
+  const { templateId, caseId, transcriptions } = parsed.data;
+
+  let variables: TemplateVariableValues = {};
+  if (caseId) {
+    try {
+      // The prompt's variables come from the case; resolving them also
+      // verifies the case is accessible within the user's active clinic
+      variables = await resolveCaseVariables(caseId);
+    } catch {
+      return NextResponse.json(
+        { error: "Case not found or unauthorized" },
+        { status: 404 }
+      );
+    }
+  }
+
+  const templateResult = await getTemplateById(templateId);
+  if (!templateResult.success || !templateResult.template) {
+    return NextResponse.json(
+      { error: templateResult.error || "Template not found" },
+      { status: 404 }
+    );
+  }
+
+  const template = templateResult.template;
+  const outputSchema = templateOutputSchema(template);
+  const prompt = buildTemplatePrompt(template, transcriptions, variables);
+
+  let model: LanguageModelV1;
+  try {
+    model = templateLanguageModel(template);
+  } catch (error) {
+    console.error("Failed to resolve template model:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to resolve template model",
+      },
+      { status: 500 }
+    );
+  }
+
+  // Aborted when the client disconnects or cancels the stream
+  const abortController = new AbortController();
+  request.signal.addEventListener("abort", () => abortController.abort());
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: GenerationStreamEvent) =>
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+
+      try {
+        let content: string | Record<string, unknown>;
+
+        if (outputSchema) {
+          const result = streamObject({
+            model,
+            schema: toZodSchema(outputSchema),
+            schemaName: "template_output",
+            schemaDescription:
+              template.description || template.name || undefined,
+            prompt,
+            abortSignal: abortController.signal,
+          });
+
+          for await (const partial of result.partialObjectStream) {
+            send({ type: "object", content: partial as Record<string, unknown> });
+          }
+          content = (await result.object) as Record<string, unknown>;
+        } else {
+          // streamText reports failures through onError rather than throwing
+          let streamError: unknown = null;
+          const result = streamText({
+            model,
+            prompt,
+            abortSignal: abortController.signal,
+            onError: ({ error }) => {
+              streamError = error;
+            },
+          });
+
+          for await (const delta of result.textStream) {
+            send({ type: "text-delta", delta });
+          }
+          if (streamError) {
+            throw streamError;
+          }
+          content = await result.text;
+        }
+
+        let generationId: string | undefined;
+        if (caseId) {
+          const saved = await saveGeneration({
+            caseId,
+            templateId,
+            prompt: renderTemplatePrompt(template, variables),
+            content:
+              typeof content === "string" ? content : JSON.stringify(content),
+            templateVersion: template.version,
+            transcriptionIds: transcriptionIdsOf(transcriptions),
+            ...resolveTemplateModel(template),
+          });
+          // The content was generated but not kept: the client must not
+          // show it as saved
+          if (!saved.success) {
+            throw new Error(saved.error);
+          }
+          generationId = saved.generation?.id;
+        }
+
+        send({ type: "done", content, generationId });
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          // Nobody is listening any more
+          return;
+        }
+
+        console.error("Failed to stream generation:", error);
+        const fieldErrors = outputFieldErrors(error);
+        send({
+          type: "error",
+          error: fieldErrors
+            ? "The generated content did not match the template's fields"
+            : error instanceof Error
+              ? error.message
+              : "Failed to generate content from template",
+          ...(fieldErrors && { fieldErrors }),
+        });
+      } finally {
+        if (!abortController.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-store, max-age=0",
+    },
+  });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { receiveMockPimsMessage } from "@/src/lib/pims/mock";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Local PIMS for trying connections: point a connection at
+ * <app URL>/api/pims/mock and it answers FHIR bundles, HL7 messages and
+ * webhooks the way a PIMS would
+ * Only served outside production, or with PIMS_MOCK_ENDPOINT=enabled
+ */
+export async function POST(request: NextRequest) {
+  if (
+    process.env.NODE_ENV === "production" &&
+    process.env.PIMS_MOCK_ENDPOINT !== "enabled"
+  ) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const response = receiveMockPimsMessage(
+    request.headers.get("content-type") || "",
+    await request.text()
+  );
+
+  return new NextResponse(response.body, {
+    status: response.status,
+    headers: { "Content-Type": response.contentType },
+  });
+}
@@ -0,0 +1,90 @@
+import {
+  generateContentFromTemplate,
+  getGenerationsForCase,
+} from "@/app/actions/generations/actions";
+import { getTranscriptionsForCase } from "@/app/actions/transcriptions/actions";
+import { apiGenerationSchema } from "@/app/actions/common/validation";
+import type { TranscriptInput } from "@/app/actions/types";
+import type {
+  SpeakerLabels,
+  TranscriptSegment,
+} from "@/src/lib/transcription/types";
+import {
+  apiActionError,
+  apiError,
+  apiJson,
+  parseApiBody,
+  withApiToken,
+} from "@/src/lib/api/handler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Lists the content generated for a case, newest first
+ */
+export const GET = withApiToken<{ id: string }>(
+  "generations:read",
+  async (_request, { id }) => {
+    const result = await getGenerationsForCase(id);
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.generations });
+  }
+);
+
+/**
+ * Generates content from a template over the case's transcripts and saves
+ * it to the case
+ */
+export const POST = withApiToken<{ id: string }>(
+  "generations:write",
+  async (request, { id }) => {
+    const body = await parseApiBody(request, apiGenerationSchema);
+    if (!body.success) {
+      return body.response;
+    }
+
+    const transcriptions = await getTranscriptionsForCase(id);
+    if (!transcriptions.success) {
+      return apiActionError(transcriptions.error);
+    }
+
+    // Oldest first, the order they were recorded in
+    const { transcriptionIds } = body.data;
+    const selected = (transcriptions.transcriptions || [])
+      .filter((t) => t.transcript)
+      .filter((t) => !transcriptionIds || transcriptionIds.includes(t.id))
+      .reverse();
+
+    if (transcriptionIds && selected.length !== transcriptionIds.length) {
+      return apiError("Transcription not found", 404);
+    }
+    if (selected.length === 0) {
+      return apiError("This case has no transcripts to generate from", 400);
+    }
+
+    const inputs: TranscriptInput[] = selected.map((t) => ({
+      id: t.id,
+      transcript: t.transcript || "",
+      segments: (t.segments as TranscriptSegment[] | null) || undefined,
+      speakerLabels: (t.speaker_labels as SpeakerLabels | null) || undefined,
+    }));
+
+    const result = await generateContentFromTemplate(inputs, {
+      templateId: body.data.templateId,
+      caseId: id,
+    });
+    if (!result.success) {
+      if (result.fieldErrors) {
+        return apiError(result.error || "Failed to generate content", 422, {
+          fieldErrors: result.fieldErrors,
+        });
+      }
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.generation, content: result.content }, 201);
+  }
+);
@@ -0,0 +1,53 @@
+import {
+  createSoapNote,
+  getSoapNotesForCase,
+} from "@/app/actions/soap-notes/actions";
+import { apiSoapNoteSchema } from "@/app/actions/common/validation";
+import type { StructuredNote } from "@/src/lib/notes/structured-note";
+import {
+  apiActionError,
+  apiJson,
+  parseApiBody,
+  withApiToken,
+} from "@/src/lib/api/handler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Lists a case's SOAP notes
+ */
+export const GET = withApiToken<{ id: string }>(
+  "notes:read",
+  async (_request, { id }) => {
+    const result = await getSoapNotesForCase(id);
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.soapNotes });
+  }
+);
+
+/**
+ * Saves a structured note to a case
+ */
+export const POST = withApiToken<{ id: string }>(
+  "notes:write",
+  async (request, { id }) => {
+    const body = await parseApiBody(request, apiSoapNoteSchema);
+    if (!body.success) {
+      return body.response;
+    }
+
+    const result = await createSoapNote({
+      caseId: id,
+      transcript: body.data.transcript,
+      note: body.data.note as StructuredNote,
+    });
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.soapNote }, 201);
+  }
+);
@@ -0,0 +1,48 @@
+import { getCase, updateCase } from "@/app/actions/cases/actions";
+import { updateCaseSchema } from "@/app/actions/common/validation";
+import {
+  apiActionError,
+  apiJson,
+  parseApiBody,
+  withApiToken,
+} from "@/src/lib/api/handler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Gets a case with its patient, transcriptions, notes and generations
+ */
+export const GET = withApiToken<{ id: string }>(
+  "cases:read",
+  async (_request, { id }) => {
+    const result = await getCase(id);
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.data });
+  }
+);
+
+/**
+ * Changes a case's status or visibility
+ */
+export const PATCH = withApiToken<{ id: string }>(
+  "cases:write",
+  async (request, { id }) => {
+    const body = await parseApiBody(
+      request,
+      updateCaseSchema.omit({ id: true, name: true })
+    );
+    if (!body.success) {
+      return body.response;
+    }
+
+    const result = await updateCase({ ...body.data, id });
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.data });
+  }
+);
@@ -0,0 +1,48 @@
+import {
+  getTranscriptionsForCase,
+  saveTranscription,
+} from "@/app/actions/transcriptions/actions";
+import { apiTranscriptionSchema } from "@/app/actions/common/validation";
+import {
+  apiActionError,
+  apiJson,
+  parseApiBody,
+  withApiToken,
+} from "@/src/lib/api/handler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Lists a case's transcriptions, newest first
+ */
+export const GET = withApiToken<{ id: string }>(
+  "transcriptions:read",
+  async (_request, { id }) => {
+    const result = await getTranscriptionsForCase(id);
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.transcriptions });
+  }
+);
+
+/**
+ * Adds a transcript to a case, e.g. from another transcription service
+ */
+export const POST = withApiToken<{ id: string }>(
+  "transcriptions:write",
+  async (request, { id }) => {
+    const body = await parseApiBody(request, apiTranscriptionSchema);
+    if (!body.success) {
+      return body.response;
+    }
+
+    const result = await saveTranscription(id, body.data.transcript);
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.transcription }, 201);
+  }
+);
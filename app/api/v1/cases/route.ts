@@ -0,0 +1,67 @@
+import { createCase, searchCases } from "@/app/actions/cases/actions";
+import {
+  caseSearchSchema,
+  createCaseSchema,
+  type CreateCaseInput,
+} from "@/app/actions/common/validation";
+import {
+  apiActionError,
+  apiError,
+  apiJson,
+  parseApiBody,
+  withApiToken,
+} from "@/src/lib/api/handler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Searches the cases visible to the token's user
+ * Accepts the query parameters of the Find Case page (see /api/cases)
+ */
+export const GET = withApiToken("cases:read", async (request) => {
+  const searchParams = request.nextUrl.searchParams;
+  const parsed = caseSearchSchema.safeParse({
+    search: searchParams.get("search") || undefined,
+    status: searchParams.getAll("status"),
+    type: searchParams.getAll("type"),
+    assignedToId: searchParams.get("assignedToId") || undefined,
+    dateFrom: searchParams.get("dateFrom") || undefined,
+    dateTo: searchParams.get("dateTo") || undefined,
+    sortBy: searchParams.get("sortBy") || undefined,
+    sortOrder: searchParams.get("sortOrder") || undefined,
+    page: searchParams.get("page") || undefined,
+    pageSize: searchParams.get("pageSize") || undefined,
+  });
+
+  if (!parsed.success) {
+    return apiError("Invalid search parameters", 400, {
+      issues: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const result = await searchCases(
+    parsed.data as Parameters<typeof searchCases>[0]
+  );
+  if (!result.success) {
+    return apiActionError(result.error);
+  }
+
+  return apiJson({ data: result.data, meta: result.meta });
+});
+
+/**
+ * Creates a case for a new or existing patient
+ */
+export const POST = withApiToken("cases:write", async (request) => {
+  const body = await parseApiBody(request, createCaseSchema);
+  if (!body.success) {
+    return body.response;
+  }
+
+  const result = await createCase(body.data as CreateCaseInput);
+  if (!result.success) {
+    return apiActionError(result.error);
+  }
+
+  return apiJson({ data: result.data }, 201);
+});
@@ -0,0 +1,71 @@
+import {
+  deleteSoapNote,
+  getSoapNoteById,
+  updateSoapNote,
+} from "@/app/actions/soap-notes/actions";
+import { apiSoapNoteSchema } from "@/app/actions/common/validation";
+import type { StructuredNote } from "@/src/lib/notes/structured-note";
+import {
+  apiActionError,
+  apiJson,
+  parseApiBody,
+  withApiToken,
+} from "@/src/lib/api/handler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Gets a SOAP note
+ */
+export const GET = withApiToken<{ id: string }>(
+  "notes:read",
+  async (_request, { id }) => {
+    const result = await getSoapNoteById(id);
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.soapNote });
+  }
+);
+
+/**
+ * Replaces a SOAP note's title and sections
+ */
+export const PATCH = withApiToken<{ id: string }>(
+  "notes:write",
+  async (request, { id }) => {
+    const body = await parseApiBody(
+      request,
+      apiSoapNoteSchema.pick({ note: true })
+    );
+    if (!body.success) {
+      return body.response;
+    }
+
+    const result = await updateSoapNote({
+      soapNoteId: id,
+      note: body.data.note as StructuredNote,
+    });
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.soapNote });
+  }
+);
+
+/**
+ * Deletes a SOAP note
+ */
+export const DELETE = withApiToken<{ id: string }>(
+  "notes:write",
+  async (_request, { id }) => {
+    const result = await deleteSoapNote(id);
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return new Response(null, { status: 204 });
+  }
+);
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { openApiDocument } from "@/src/lib/api/openapi";
+
+/**
+ * OpenAPI description of the REST API; public so tools can fetch it
+ */
+export function GET() {
+  return NextResponse.json(openApiDocument);
+}
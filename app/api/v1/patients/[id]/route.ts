@@ -0,0 +1,46 @@
+import { getPatientById, updatePatient } from "@/app/actions/patients/actions";
+import { patientSchema } from "@/app/actions/common/validation";
+import type { PatientInput } from "@/app/actions/types";
+import {
+  apiActionError,
+  apiJson,
+  parseApiBody,
+  withApiToken,
+} from "@/src/lib/api/handler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Gets a patient with their owner and weight history
+ */
+export const GET = withApiToken<{ id: string }>(
+  "patients:read",
+  async (_request, { id }) => {
+    const result = await getPatientById(id);
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.patient });
+  }
+);
+
+/**
+ * Updates the given details of a patient
+ */
+export const PATCH = withApiToken<{ id: string }>(
+  "patients:write",
+  async (request, { id }) => {
+    const body = await parseApiBody(request, patientSchema.partial());
+    if (!body.success) {
+      return body.response;
+    }
+
+    const result = await updatePatient(id, body.data as Partial<PatientInput>);
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.patient });
+  }
+);
@@ -0,0 +1,59 @@
+import { createPatient, searchPatients } from "@/app/actions/patients/actions";
+import {
+  patientSchema,
+  patientSearchSchema,
+} from "@/app/actions/common/validation";
+import type { PatientInput } from "@/app/actions/types";
+import {
+  apiActionError,
+  apiError,
+  apiJson,
+  parseApiBody,
+  withApiToken,
+} from "@/src/lib/api/handler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Searches the clinic's patients by name, owner or microchip
+ * Accepts search, species, page and pageSize
+ */
+export const GET = withApiToken("patients:read", async (request) => {
+  const searchParams = request.nextUrl.searchParams;
+  const parsed = patientSearchSchema.safeParse({
+    search: searchParams.get("search") || undefined,
+    species: searchParams.get("species") || undefined,
+    page: searchParams.get("page") || undefined,
+    pageSize: searchParams.get("pageSize") || undefined,
+  });
+
+  if (!parsed.success) {
+    return apiError("Invalid search parameters", 400, {
+      issues: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const result = await searchPatients(parsed.data);
+  if (!result.success) {
+    return apiActionError(result.error);
+  }
+
+  return apiJson({ data: result.data, meta: result.meta });
+});
+
+/**
+ * Creates a patient in the clinic
+ */
+export const POST = withApiToken("patients:write", async (request) => {
+  const body = await parseApiBody(request, patientSchema);
+  if (!body.success) {
+    return body.response;
+  }
+
+  const result = await createPatient(body.data as PatientInput);
+  if (!result.success) {
+    return apiActionError(result.error);
+  }
+
+  return apiJson({ data: result.patient }, 201);
+});
@@ -0,0 +1,19 @@
+import { getTemplateById } from "@/app/actions/templates/actions";
+import { apiActionError, apiJson, withApiToken } from "@/src/lib/api/handler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Gets a template with its prompt and output schema
+ */
+export const GET = withApiToken<{ id: string }>(
+  "templates:read",
+  async (_request, { id }) => {
+    const result = await getTemplateById(id);
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.template });
+  }
+);
@@ -0,0 +1,16 @@
+import { getTemplates } from "@/app/actions/templates/actions";
+import { apiActionError, apiJson, withApiToken } from "@/src/lib/api/handler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Lists the built-in templates and the clinic's own
+ */
+export const GET = withApiToken("templates:read", async () => {
+  const result = await getTemplates();
+  if (!result.success) {
+    return apiActionError(result.error);
+  }
+
+  return apiJson({ data: result.templates });
+});
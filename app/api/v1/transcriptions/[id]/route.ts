@@ -0,0 +1,19 @@
+import { getTranscription } from "@/app/actions/transcriptions/actions";
+import { apiActionError, apiJson, withApiToken } from "@/src/lib/api/handler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Gets a transcription, e.g. to poll one that is still being transcribed
+ */
+export const GET = withApiToken<{ id: string }>(
+  "transcriptions:read",
+  async (_request, { id }) => {
+    const result = await getTranscription(id);
+    if (!result.success) {
+      return apiActionError(result.error);
+    }
+
+    return apiJson({ data: result.transcription });
+  }
+);
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { retryDueWebhooks } from "@/app/actions/webhooks/emit";
+
+export const dynamic = "force-dynamic";
+
+// Deliveries retried per run; the rest wait for the next run
+const BATCH_SIZE = 100;
+
+/**
+ * Retry worker for webhook deliveries: sends the pending deliveries whose
+ * next attempt is due
+ * Call it every minute from a scheduler with
+ * Authorization: Bearer <CRON_SECRET>
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await retryDueWebhooks(BATCH_SIZE);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to retry webhooks:", error);
+    return NextResponse.json(
+      { error: "Failed to retry webhooks" },
+      { status: 500 }
+    );
+  }
+}
@@ -18,6 +18,7 @@ export type Database = {
         Row: {
           bit_rate: number | null
           channels: number | null
+          clinic_id: string
           created_at: string | null
           duration: number
           file_path: string
@@ -28,10 +29,13 @@ export type Database = {
           sample_rate: number | null
           transcription_id: string | null
           updated_at: string | null
+          upload_status: Database["public"]["Enums"]["AudioUploadStatus"]
+          uploaded_by: string | null
         }
         Insert: {
           bit_rate?: number | null
           channels?: number | null
+          clinic_id: string
           created_at?: string | null
           duration: number
           file_path: string
@@ -42,10 +46,13 @@ export type Database = {
           sample_rate?: number | null
           transcription_id?: string | null
           updated_at?: string | null
+          upload_status?: Database["public"]["Enums"]["AudioUploadStatus"]
+          uploaded_by?: string | null
         }
         Update: {
           bit_rate?: number | null
           channels?: number | null
+          clinic_id?: string
           created_at?: string | null
           duration?: number
           file_path?: string
@@ -56,8 +63,17 @@ export type Database = {
           sample_rate?: number | null
           transcription_id?: string | null
           updated_at?: string | null
+          upload_status?: Database["public"]["Enums"]["AudioUploadStatus"]
+          uploaded_by?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "audio_files_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "audio_files_transcription_id_fkey"
             columns: ["transcription_id"]
@@ -69,8 +85,10 @@ export type Database = {
       }
       cases: {
         Row: {
+          clinic_id: string | null
           created_at: string | null
           id: string
+          patient_id: string | null
           status: Database["public"]["Enums"]["CaseStatus"] | null
           type: Database["public"]["Enums"]["CaseType"] | null
           updated_at: string | null
@@ -78,8 +96,10 @@ export type Database = {
           visibility: Database["public"]["Enums"]["CaseVisibility"] | null
         }
         Insert: {
+          clinic_id?: string | null
           created_at?: string | null
           id?: string
+          patient_id?: string | null
           status?: Database["public"]["Enums"]["CaseStatus"] | null
           type?: Database["public"]["Enums"]["CaseType"] | null
           updated_at?: string | null
@@ -87,42 +107,414 @@ export type Database = {
           visibility?: Database["public"]["Enums"]["CaseVisibility"] | null
         }
         Update: {
+          clinic_id?: string | null
           created_at?: string | null
           id?: string
+          patient_id?: string | null
           status?: Database["public"]["Enums"]["CaseStatus"] | null
           type?: Database["public"]["Enums"]["CaseType"] | null
           updated_at?: string | null
           user_id?: string | null
           visibility?: Database["public"]["Enums"]["CaseVisibility"] | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "cases_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cases_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clients: {
+        Row: {
+          address_line1: string | null
+          address_line2: string | null
+          city: string | null
+          clinic_id: string
+          country: string | null
+          created_at: string
+          email: string | null
+          email_opt_in: boolean
+          id: string
+          name: string
+          notes: string | null
+          phone: string | null
+          postal_code: string | null
+          preferred_contact_method: Database["public"]["Enums"]["ContactMethod"]
+          region: string | null
+          sms_opt_in: boolean
+          updated_at: string | null
+        }
+        Insert: {
+          address_line1?: string | null
+          address_line2?: string | null
+          city?: string | null
+          clinic_id: string
+          country?: string | null
+          created_at?: string
+          email?: string | null
+          email_opt_in?: boolean
+          id?: string
+          name: string
+          notes?: string | null
+          phone?: string | null
+          postal_code?: string | null
+          preferred_contact_method?: Database["public"]["Enums"]["ContactMethod"]
+          region?: string | null
+          sms_opt_in?: boolean
+          updated_at?: string | null
+        }
+        Update: {
+          address_line1?: string | null
+          address_line2?: string | null
+          city?: string | null
+          clinic_id?: string
+          country?: string | null
+          created_at?: string
+          email?: string | null
+          email_opt_in?: boolean
+          id?: string
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          postal_code?: string | null
+          preferred_contact_method?: Database["public"]["Enums"]["ContactMethod"]
+          region?: string | null
+          sms_opt_in?: boolean
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clients_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clinic_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          clinic_id: string
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          name: string | null
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["ClinicRole"]
+          updated_at: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          clinic_id: string
+          created_at?: string
+          email: string
+          expires_at: string
+          id?: string
+          invited_by?: string | null
+          name?: string | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["ClinicRole"]
+          updated_at?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          clinic_id?: string
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          name?: string | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["ClinicRole"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clinic_invitations_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clinic_members: {
+        Row: {
+          clinic_id: string
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["ClinicRole"]
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          clinic_id: string
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["ClinicRole"]
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          clinic_id?: string
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["ClinicRole"]
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clinic_members_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clinics: {
+        Row: {
+          address: string | null
+          created_at: string
+          created_by: string | null
+          email: string | null
+          id: string
+          name: string
+          phone: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          id?: string
+          name: string
+          phone?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          id?: string
+          name?: string
+          phone?: string | null
+          updated_at?: string | null
+        }
         Relationships: []
       }
+      document_exports: {
+        Row: {
+          batch_id: string
+          case_id: string | null
+          clinic_id: string
+          created_at: string
+          destination: Database["public"]["Enums"]["ExportDestination"]
+          document_title: string
+          exported_by: string | null
+          format: Database["public"]["Enums"]["ExportFormat"]
+          generation_id: string | null
+          id: string
+          recipient: string | null
+          soap_note_id: string | null
+        }
+        Insert: {
+          batch_id: string
+          case_id?: string | null
+          clinic_id: string
+          created_at?: string
+          destination: Database["public"]["Enums"]["ExportDestination"]
+          document_title: string
+          exported_by?: string | null
+          format: Database["public"]["Enums"]["ExportFormat"]
+          generation_id?: string | null
+          id?: string
+          recipient?: string | null
+          soap_note_id?: string | null
+        }
+        Update: {
+          batch_id?: string
+          case_id?: string | null
+          clinic_id?: string
+          created_at?: string
+          destination?: Database["public"]["Enums"]["ExportDestination"]
+          document_title?: string
+          exported_by?: string | null
+          format?: Database["public"]["Enums"]["ExportFormat"]
+          generation_id?: string | null
+          id?: string
+          recipient?: string | null
+          soap_note_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_exports_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_exports_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_exports_generation_id_fkey"
+            columns: ["generation_id"]
+            isOneToOne: false
+            referencedRelation: "generations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_exports_soap_note_id_fkey"
+            columns: ["soap_note_id"]
+            isOneToOne: false
+            referencedRelation: "soap_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_reviews: {
+        Row: {
+          case_id: string
+          clinic_id: string
+          comment: string | null
+          decision: Database["public"]["Enums"]["ReviewDecision"]
+          generation_id: string | null
+          id: string
+          reviewed_at: string
+          reviewed_by: string | null
+          soap_note_id: string | null
+        }
+        Insert: {
+          case_id: string
+          clinic_id: string
+          comment?: string | null
+          decision: Database["public"]["Enums"]["ReviewDecision"]
+          generation_id?: string | null
+          id?: string
+          reviewed_at?: string
+          reviewed_by?: string | null
+          soap_note_id?: string | null
+        }
+        Update: {
+          case_id?: string
+          clinic_id?: string
+          comment?: string | null
+          decision?: Database["public"]["Enums"]["ReviewDecision"]
+          generation_id?: string | null
+          id?: string
+          reviewed_at?: string
+          reviewed_by?: string | null
+          soap_note_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_reviews_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_reviews_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_reviews_generation_id_fkey"
+            columns: ["generation_id"]
+            isOneToOne: true
+            referencedRelation: "generations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_reviews_soap_note_id_fkey"
+            columns: ["soap_note_id"]
+            isOneToOne: true
+            referencedRelation: "soap_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       generations: {
         Row: {
           case_id: string | null
           content: string | null
           created_at: string
+          created_by: string | null
           id: string
+          lineage_id: string
+          model: string | null
+          parent_id: string | null
           prompt: string | null
+          provider: string | null
+          source: Database["public"]["Enums"]["GenerationSource"]
           template_id: string | null
+          template_version: number | null
+          template_version_id: string | null
+          transcription_ids: string[]
           updated_at: string | null
         }
         Insert: {
           case_id?: string | null
           content?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
+          lineage_id?: string
+          model?: string | null
+          parent_id?: string | null
           prompt?: string | null
+          provider?: string | null
+          source?: Database["public"]["Enums"]["GenerationSource"]
           template_id?: string | null
+          template_version?: number | null
+          template_version_id?: string | null
+          transcription_ids?: string[]
           updated_at?: string | null
         }
         Update: {
           case_id?: string | null
           content?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
+          lineage_id?: string
+          model?: string | null
+          parent_id?: string | null
           prompt?: string | null
+          provider?: string | null
+          source?: Database["public"]["Enums"]["GenerationSource"]
           template_id?: string | null
+          template_version?: number | null
+          template_version_id?: string | null
+          transcription_ids?: string[]
           updated_at?: string | null
         }
         Relationships: [
@@ -133,6 +525,13 @@ export type Database = {
             referencedRelation: "cases"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "generations_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "generations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "generations_template_id_fkey"
             columns: ["template_id"]
@@ -140,74 +539,366 @@ export type Database = {
             referencedRelation: "templates"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "generations_template_version_id_fkey"
+            columns: ["template_version_id"]
+            isOneToOne: false
+            referencedRelation: "template_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      patients: {
+      patient_weights: {
         Row: {
           case_id: string | null
           created_at: string
           id: string
+          patient_id: string
+          recorded_at: string
+          recorded_by: string | null
+          weight_kg: number
+        }
+        Insert: {
+          case_id?: string | null
+          created_at?: string
+          id?: string
+          patient_id: string
+          recorded_at?: string
+          recorded_by?: string | null
+          weight_kg: number
+        }
+        Update: {
+          case_id?: string | null
+          created_at?: string
+          id?: string
+          patient_id?: string
+          recorded_at?: string
+          recorded_by?: string | null
+          weight_kg?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_weights_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patient_weights_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patients: {
+        Row: {
+          allergies: string[]
+          breed: string | null
+          client_id: string | null
+          clinic_id: string
+          created_at: string
+          date_of_birth: string | null
+          id: string
+          microchip_number: string | null
           name: string
+          neuter_status: Database["public"]["Enums"]["NeuterStatus"]
           owner_name: string
+          sex: Database["public"]["Enums"]["PatientSex"]
+          species: string | null
           updated_at: string | null
         }
         Insert: {
-          case_id?: string | null
+          allergies?: string[]
+          breed?: string | null
+          client_id?: string | null
+          clinic_id: string
           created_at?: string
+          date_of_birth?: string | null
           id?: string
+          microchip_number?: string | null
           name: string
+          neuter_status?: Database["public"]["Enums"]["NeuterStatus"]
           owner_name: string
+          sex?: Database["public"]["Enums"]["PatientSex"]
+          species?: string | null
           updated_at?: string | null
         }
         Update: {
-          case_id?: string | null
+          allergies?: string[]
+          breed?: string | null
+          client_id?: string | null
+          clinic_id?: string
           created_at?: string
+          date_of_birth?: string | null
           id?: string
+          microchip_number?: string | null
           name?: string
+          neuter_status?: Database["public"]["Enums"]["NeuterStatus"]
           owner_name?: string
+          sex?: Database["public"]["Enums"]["PatientSex"]
+          species?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patients_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patients_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      personal_access_tokens: {
+        Row: {
+          clinic_id: string
+          created_at: string
+          expires_at: string | null
+          id: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          scopes: Database["public"]["Enums"]["ApiTokenScope"][]
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Insert: {
+          clinic_id: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+          scopes: Database["public"]["Enums"]["ApiTokenScope"][]
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Update: {
+          clinic_id?: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          scopes?: Database["public"]["Enums"]["ApiTokenScope"][]
+          token_hash?: string
+          token_prefix?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "personal_access_tokens_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pims_connection_credentials: {
+        Row: {
+          auth_header: string
+          clinic_id: string
+          connection_id: string
+          updated_at: string
+        }
+        Insert: {
+          auth_header: string
+          clinic_id: string
+          connection_id: string
+          updated_at?: string
+        }
+        Update: {
+          auth_header?: string
+          clinic_id?: string
+          connection_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pims_connection_credentials_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pims_connection_credentials_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: true
+            referencedRelation: "pims_connections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pims_connections: {
+        Row: {
+          adapter: Database["public"]["Enums"]["PimsAdapter"]
+          clinic_id: string
+          created_at: string
+          created_by: string | null
+          enabled: boolean
+          endpoint_url: string
+          id: string
+          mapping: Json
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          adapter: Database["public"]["Enums"]["PimsAdapter"]
+          clinic_id: string
+          created_at?: string
+          created_by?: string | null
+          enabled?: boolean
+          endpoint_url: string
+          id?: string
+          mapping?: Json
+          name: string
           updated_at?: string | null
         }
+        Update: {
+          adapter?: Database["public"]["Enums"]["PimsAdapter"]
+          clinic_id?: string
+          created_at?: string
+          created_by?: string | null
+          enabled?: boolean
+          endpoint_url?: string
+          id?: string
+          mapping?: Json
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pims_connections_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pims_exports: {
+        Row: {
+          adapter: Database["public"]["Enums"]["PimsAdapter"]
+          case_id: string | null
+          clinic_id: string
+          connection_id: string | null
+          connection_name: string
+          created_at: string
+          documents: Json
+          duration_ms: number
+          error: string | null
+          exported_by: string | null
+          id: string
+          is_test: boolean
+          request_body: string
+          response_body: string | null
+          response_status: number | null
+          status: Database["public"]["Enums"]["PimsExportStatus"]
+        }
+        Insert: {
+          adapter: Database["public"]["Enums"]["PimsAdapter"]
+          case_id?: string | null
+          clinic_id: string
+          connection_id?: string | null
+          connection_name: string
+          created_at?: string
+          documents?: Json
+          duration_ms: number
+          error?: string | null
+          exported_by?: string | null
+          id?: string
+          is_test?: boolean
+          request_body: string
+          response_body?: string | null
+          response_status?: number | null
+          status: Database["public"]["Enums"]["PimsExportStatus"]
+        }
+        Update: {
+          adapter?: Database["public"]["Enums"]["PimsAdapter"]
+          case_id?: string | null
+          clinic_id?: string
+          connection_id?: string | null
+          connection_name?: string
+          created_at?: string
+          documents?: Json
+          duration_ms?: number
+          error?: string | null
+          exported_by?: string | null
+          id?: string
+          is_test?: boolean
+          request_body?: string
+          response_body?: string | null
+          response_status?: number | null
+          status?: Database["public"]["Enums"]["PimsExportStatus"]
+        }
         Relationships: [
           {
-            foreignKeyName: "patient_case_id_fkey"
+            foreignKeyName: "pims_exports_case_id_fkey"
             columns: ["case_id"]
             isOneToOne: false
             referencedRelation: "cases"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "pims_exports_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pims_exports_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: false
+            referencedRelation: "pims_connections"
+            referencedColumns: ["id"]
+          },
         ]
       }
       soap_notes: {
         Row: {
-          assessment: string | null
           case_id: string | null
           created_at: string
           id: string
-          objective: string | null
-          plan: string | null
-          subjective: string | null
+          sections: Json
+          template_id: string | null
+          title: string
           transcript: string | null
           updated_at: string | null
         }
         Insert: {
-          assessment?: string | null
           case_id?: string | null
           created_at?: string
           id?: string
-          objective?: string | null
-          plan?: string | null
-          subjective?: string | null
+          sections?: Json
+          template_id?: string | null
+          title?: string
           transcript?: string | null
           updated_at?: string | null
         }
         Update: {
-          assessment?: string | null
           case_id?: string | null
           created_at?: string
           id?: string
-          objective?: string | null
-          plan?: string | null
-          subjective?: string | null
+          sections?: Json
+          template_id?: string | null
+          title?: string
           transcript?: string | null
           updated_at?: string | null
         }
@@ -219,40 +910,200 @@ export type Database = {
             referencedRelation: "cases"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "soap_notes_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      template_versions: {
+        Row: {
+          changelog: string | null
+          content: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          model: string | null
+          name: string | null
+          output_schema: Json | null
+          prompt: string | null
+          provider: string | null
+          published_at: string | null
+          published_by: string | null
+          status: Database["public"]["Enums"]["TemplateVersionStatus"]
+          template_id: string
+          type: string | null
+          version: number
+        }
+        Insert: {
+          changelog?: string | null
+          content?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          model?: string | null
+          name?: string | null
+          output_schema?: Json | null
+          prompt?: string | null
+          provider?: string | null
+          published_at?: string | null
+          published_by?: string | null
+          status?: Database["public"]["Enums"]["TemplateVersionStatus"]
+          template_id: string
+          type?: string | null
+          version: number
+        }
+        Update: {
+          changelog?: string | null
+          content?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          model?: string | null
+          name?: string | null
+          output_schema?: Json | null
+          prompt?: string | null
+          provider?: string | null
+          published_at?: string | null
+          published_by?: string | null
+          status?: Database["public"]["Enums"]["TemplateVersionStatus"]
+          template_id?: string
+          type?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "template_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "templates"
+            referencedColumns: ["id"]
+          },
         ]
       }
       templates: {
         Row: {
+          clinic_id: string | null
           content: string | null
           created_at: string | null
+          description: string | null
           id: string
+          key: string | null
           model: string | null
           name: string | null
+          output_schema: Json | null
           prompt: string | null
+          provider: string | null
           type: string | null
           updated_at: string | null
+          version: number
         }
         Insert: {
+          clinic_id?: string | null
           content?: string | null
           created_at?: string | null
+          description?: string | null
           id?: string
+          key?: string | null
           model?: string | null
           name?: string | null
+          output_schema?: Json | null
           prompt?: string | null
+          provider?: string | null
           type?: string | null
           updated_at?: string | null
+          version?: number
         }
         Update: {
+          clinic_id?: string | null
           content?: string | null
           created_at?: string | null
+          description?: string | null
           id?: string
+          key?: string | null
           model?: string | null
           name?: string | null
+          output_schema?: Json | null
           prompt?: string | null
+          provider?: string | null
           type?: string | null
           updated_at?: string | null
+          version?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "templates_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transcription_settings: {
+        Row: {
+          clinic_id: string
+          created_at: string
+          diarize: boolean | null
+          endpointing_ms: number | null
+          filler_words: boolean | null
+          id: string
+          keyterms: string[]
+          language: string | null
+          model: string | null
+          numerals: boolean | null
+          smart_format: boolean | null
+          updated_at: string | null
+          user_id: string | null
+          utterance_end_ms: number | null
+        }
+        Insert: {
+          clinic_id: string
+          created_at?: string
+          diarize?: boolean | null
+          endpointing_ms?: number | null
+          filler_words?: boolean | null
+          id?: string
+          keyterms?: string[]
+          language?: string | null
+          model?: string | null
+          numerals?: boolean | null
+          smart_format?: boolean | null
+          updated_at?: string | null
+          user_id?: string | null
+          utterance_end_ms?: number | null
+        }
+        Update: {
+          clinic_id?: string
+          created_at?: string
+          diarize?: boolean | null
+          endpointing_ms?: number | null
+          filler_words?: boolean | null
+          id?: string
+          keyterms?: string[]
+          language?: string | null
+          model?: string | null
+          numerals?: boolean | null
+          smart_format?: boolean | null
+          updated_at?: string | null
+          user_id?: string | null
+          utterance_end_ms?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcription_settings_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       transcriptions: {
         Row: {
@@ -260,7 +1111,10 @@ export type Database = {
           case_id: string | null
           created_at: string
           id: string
-          processing_status: string | null
+          processing_error: string | null
+          processing_status: Database["public"]["Enums"]["TranscriptionStatus"]
+          segments: Json
+          speaker_labels: Json
           transcript: string | null
           updated_at: string | null
         }
@@ -269,7 +1123,10 @@ export type Database = {
           case_id?: string | null
           created_at?: string
           id?: string
-          processing_status?: string | null
+          processing_error?: string | null
+          processing_status?: Database["public"]["Enums"]["TranscriptionStatus"]
+          segments?: Json
+          speaker_labels?: Json
           transcript?: string | null
           updated_at?: string | null
         }
@@ -278,7 +1135,10 @@ export type Database = {
           case_id?: string | null
           created_at?: string
           id?: string
-          processing_status?: string | null
+          processing_error?: string | null
+          processing_status?: Database["public"]["Enums"]["TranscriptionStatus"]
+          segments?: Json
+          speaker_labels?: Json
           transcript?: string | null
           updated_at?: string | null
         }
@@ -299,15 +1159,255 @@ export type Database = {
           },
         ]
       }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          clinic_id: string
+          created_at: string
+          duration_ms: number | null
+          error: string | null
+          event: Database["public"]["Enums"]["WebhookEvent"]
+          event_id: string
+          id: string
+          next_attempt_at: string | null
+          payload: Json
+          redelivery_of: string | null
+          response_body: string | null
+          response_status: number | null
+          status: Database["public"]["Enums"]["WebhookDeliveryStatus"]
+          subscription_id: string
+          triggered_by: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          clinic_id: string
+          created_at?: string
+          duration_ms?: number | null
+          error?: string | null
+          event: Database["public"]["Enums"]["WebhookEvent"]
+          event_id: string
+          id?: string
+          next_attempt_at?: string | null
+          payload: Json
+          redelivery_of?: string | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: Database["public"]["Enums"]["WebhookDeliveryStatus"]
+          subscription_id: string
+          triggered_by?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          clinic_id?: string
+          created_at?: string
+          duration_ms?: number | null
+          error?: string | null
+          event?: Database["public"]["Enums"]["WebhookEvent"]
+          event_id?: string
+          id?: string
+          next_attempt_at?: string | null
+          payload?: Json
+          redelivery_of?: string | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: Database["public"]["Enums"]["WebhookDeliveryStatus"]
+          subscription_id?: string
+          triggered_by?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_redelivery_of_fkey"
+            columns: ["redelivery_of"]
+            isOneToOne: false
+            referencedRelation: "webhook_deliveries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_subscription_id_fkey"
+            columns: ["subscription_id", "clinic_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_subscriptions"
+            referencedColumns: ["id", "clinic_id"]
+          },
+        ]
+      }
+      webhook_subscription_secrets: {
+        Row: {
+          clinic_id: string
+          secret: string
+          subscription_id: string
+          updated_at: string
+        }
+        Insert: {
+          clinic_id: string
+          secret: string
+          subscription_id: string
+          updated_at?: string
+        }
+        Update: {
+          clinic_id?: string
+          secret?: string
+          subscription_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_subscription_secrets_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_subscription_secrets_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: true
+            referencedRelation: "webhook_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_subscriptions: {
+        Row: {
+          clinic_id: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          enabled: boolean
+          events: Database["public"]["Enums"]["WebhookEvent"][]
+          id: string
+          updated_at: string | null
+          url: string
+        }
+        Insert: {
+          clinic_id: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          enabled?: boolean
+          events: Database["public"]["Enums"]["WebhookEvent"][]
+          id?: string
+          updated_at?: string | null
+          url: string
+        }
+        Update: {
+          clinic_id?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          enabled?: boolean
+          events?: Database["public"]["Enums"]["WebhookEvent"][]
+          id?: string
+          updated_at?: string | null
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_subscriptions_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      case_search: {
+        Row: {
+          clinic_id: string | null
+          created_at: string | null
+          generation_count: number | null
+          id: string | null
+          owner_name: string | null
+          patient_id: string | null
+          patient_name: string | null
+          soap_note_count: number | null
+          status: Database["public"]["Enums"]["CaseStatus"] | null
+          transcription_count: number | null
+          type: Database["public"]["Enums"]["CaseType"] | null
+          updated_at: string | null
+          user_id: string | null
+          visibility: Database["public"]["Enums"]["CaseVisibility"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cases_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cases_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      export_queue: {
+        Row: {
+          case_id: string | null
+          clinic_id: string | null
+          created_at: string | null
+          document_id: string | null
+          document_type: string | null
+          queue: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accept_clinic_invitation: {
+        Args: { invitation_id: string }
+        Returns: string
+      }
+      authenticate_access_token: {
+        Args: { token_hash: string }
+        Returns: {
+          clinic_id: string
+          scopes: Database["public"]["Enums"]["ApiTokenScope"][]
+          token_id: string
+          user_id: string
+        }[]
+      }
+      can_access_case: {
+        Args: { target_case: string }
+        Returns: boolean
+      }
       check_usage_limit: {
         Args: { resource: string; user_uuid: string }
         Returns: boolean
       }
+      create_clinic: {
+        Args: { clinic_name: string }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string | null
+        }
+      }
+      ensure_personal_clinic: {
+        Args: { clinic_name: string }
+        Returns: {
+          clinic_id: string
+          role: Database["public"]["Enums"]["ClinicRole"]
+        }[]
+      }
       get_current_usage: {
         Args: { user_uuid: string }
         Returns: {
@@ -317,15 +1417,82 @@ export type Database = {
           resource_type: string
         }[]
       }
+      get_clinic_members: {
+        Args: { target_clinic: string }
+        Returns: {
+          created_at: string
+          email: string
+          id: string
+          name: string
+          role: Database["public"]["Enums"]["ClinicRole"]
+          user_id: string
+        }[]
+      }
+      has_clinic_role: {
+        Args: {
+          roles: Database["public"]["Enums"]["ClinicRole"][]
+          target_clinic: string
+        }
+        Returns: boolean
+      }
+      is_clinic_member: {
+        Args: { target_clinic: string }
+        Returns: boolean
+      }
+      merge_patients: {
+        Args: { duplicate_patients: string[]; target_patient: string }
+        Returns: Database["public"]["Tables"]["patients"]["Row"]
+      }
+      publish_template_version: {
+        Args: { target_version: string }
+        Returns: Database["public"]["Tables"]["templates"]["Row"]
+      }
+      revoke_personal_access_token: {
+        Args: { token_id: string }
+        Returns: boolean
+      }
       track_usage: {
         Args: { amount?: number; resource: string; user_uuid: string }
         Returns: boolean
       }
     }
     Enums: {
+      ApiTokenScope:
+        | "cases:read"
+        | "cases:write"
+        | "patients:read"
+        | "patients:write"
+        | "transcriptions:read"
+        | "transcriptions:write"
+        | "notes:read"
+        | "notes:write"
+        | "generations:read"
+        | "generations:write"
+        | "templates:read"
+      AudioUploadStatus: "pending" | "uploaded" | "failed"
       CaseStatus: "reviewed" | "ongoing" | "completed"
       CaseType: "checkup" | "emergency" | "surgery" | "follow_up"
       CaseVisibility: "public" | "private"
+      ClinicRole: "owner" | "veterinarian" | "technician" | "front_desk"
+      ContactMethod: "email" | "phone" | "sms" | "mail"
+      ExportDestination: "download" | "email"
+      ExportFormat: "text" | "markdown" | "html" | "json" | "pdf"
+      GenerationSource: "generated" | "regenerated" | "edited" | "restored"
+      NeuterStatus: "intact" | "neutered" | "unknown"
+      PatientSex: "male" | "female" | "unknown"
+      PimsAdapter: "fhir_r4" | "hl7v2_mdm" | "webhook"
+      PimsExportStatus: "delivered" | "failed"
+      ReviewDecision: "approved" | "rejected"
+      TemplateVersionStatus: "draft" | "published"
+      TranscriptionStatus: "queued" | "processing" | "completed" | "failed"
+      WebhookDeliveryStatus: "pending" | "delivered" | "failed"
+      WebhookEvent:
+        | "case.created"
+        | "case.status_changed"
+        | "transcription.completed"
+        | "generation.created"
+        | "note.created"
+        | "note.approved"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -453,9 +1620,44 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      ApiTokenScope: [
+        "cases:read",
+        "cases:write",
+        "patients:read",
+        "patients:write",
+        "transcriptions:read",
+        "transcriptions:write",
+        "notes:read",
+        "notes:write",
+        "generations:read",
+        "generations:write",
+        "templates:read",
+      ],
+      AudioUploadStatus: ["pending", "uploaded", "failed"],
       CaseStatus: ["reviewed", "ongoing", "completed"],
       CaseType: ["checkup", "emergency", "surgery", "follow_up"],
       CaseVisibility: ["public", "private"],
+      ClinicRole: ["owner", "veterinarian", "technician", "front_desk"],
+      ContactMethod: ["email", "phone", "sms", "mail"],
+      ExportDestination: ["download", "email"],
+      ExportFormat: ["text", "markdown", "html", "json", "pdf"],
+      GenerationSource: ["generated", "regenerated", "edited", "restored"],
+      NeuterStatus: ["intact", "neutered", "unknown"],
+      PatientSex: ["male", "female", "unknown"],
+      PimsAdapter: ["fhir_r4", "hl7v2_mdm", "webhook"],
+      PimsExportStatus: ["delivered", "failed"],
+      ReviewDecision: ["approved", "rejected"],
+      TemplateVersionStatus: ["draft", "published"],
+      TranscriptionStatus: ["queued", "processing", "completed", "failed"],
+      WebhookDeliveryStatus: ["pending", "delivered", "failed"],
+      WebhookEvent: [
+        "case.created",
+        "case.status_changed",
+        "transcription.completed",
+        "generation.created",
+        "note.created",
+        "note.approved",
+      ],
     },
   },
 } as const
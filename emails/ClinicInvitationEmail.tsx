@@ -0,0 +1,47 @@
+import * as React from 'react';
+import { BaseEmail } from './components/BaseEmail';
+
+interface ClinicInvitationEmailProps {
+  clinicName: string;
+  inviterName: string;
+  roleLabel: string;
+  inviteLink: string;
+  expiresInDays: number;
+}
+
+export const ClinicInvitationEmail: React.FC<ClinicInvitationEmailProps> = ({
+  clinicName,
+  inviterName,
+  roleLabel,
+  inviteLink,
+  expiresInDays,
+}) => {
+  return (
+    <BaseEmail previewText={`You've been invited to join ${clinicName} on OdisAI`}>
+      <h2>Join {clinicName} on OdisAI</h2>
+      <p>Hello,</p>
+      <p>
+        {inviterName} has invited you to join <strong>{clinicName}</strong> as a {roleLabel}.
+      </p>
+      <p>
+        Click the button below to accept the invitation. If you don't have an OdisAI account yet,
+        you'll be asked to create one using this email address.
+      </p>
+      <a href={inviteLink} className="button">
+        Accept Invitation
+      </a>
+      <p>
+        This invitation will expire in {expiresInDays} days.
+      </p>
+      <p>
+        If you weren't expecting this invitation, you can safely ignore this email.
+      </p>
+      <p>
+        Best regards,<br />
+        The OdisAI Team
+      </p>
+    </BaseEmail>
+  );
+};
+
+export default ClinicInvitationEmail;
@@ -1,45 +1,230 @@
 import json
+import os
+import re
 import boto3
 import logging
+from botocore.exceptions import ClientError
 
 # Set up logging
 logger = logging.getLogger()
 logger.setLevel(logging.INFO)
 
-# Initialize Bedrock client
-bedrock = boto3.client('bedrock-runtime', region_name='us-east-1')
+# Initialize Bedrock client (the Lambda runtime sets AWS_REGION)
+bedrock = boto3.client('bedrock-runtime', region_name=os.environ.get('AWS_REGION', 'us-east-1'))
+
+DEFAULT_MODEL_ID = os.environ.get('BEDROCK_MODEL_ID', 'anthropic.claude-3-haiku-20240307-v1:0')
+# Models callers may request besides the default, comma separated
+ALLOWED_MODEL_IDS = {
+    model_id.strip()
+    for model_id in os.environ.get('BEDROCK_ALLOWED_MODEL_IDS', '').split(',')
+    if model_id.strip()
+} | {DEFAULT_MODEL_ID}
+DEFAULT_MAX_TOKENS = int(os.environ.get('BEDROCK_MAX_TOKENS', '4096'))
+
+# Structured output is returned through a single forced tool call
+DEFAULT_TOOL_NAME = 'template_output'
+TOOL_NAME_PATTERN = re.compile(r'^[a-zA-Z0-9_-]{1,64}$')
+
+# Bedrock errors that the caller may retry, mapped to HTTP status codes
+BEDROCK_ERROR_STATUS = {
+    'ThrottlingException': 429,
+    'ServiceQuotaExceededException': 429,
+    'ModelNotReadyException': 503,
+    'ServiceUnavailableException': 503,
+    'ModelTimeoutException': 504,
+    'ValidationException': 400,
+    'AccessDeniedException': 403,
+    'ResourceNotFoundException': 404,
+}
+
+
+class RequestError(Exception):
+    """A problem with the request body, reported to the caller as a 400"""
+
+
+def response(status_code, body):
+    return {
+        'statusCode': status_code,
+        'headers': {'Content-Type': 'application/json'},
+        'body': json.dumps(body)
+    }
+
+
+def parse_request(event):
+    """
+    Validates the /analyze payload built by the app:
+    {
+      "prompt": "...",                  # or "messages": [{"role", "content"}]
+      "system": "...",                  # optional
+      "output_schema": {...},           # optional JSON Schema of the result
+      "schema_name": "...", "schema_description": "...",
+      "model_id": "...", "max_tokens": 1024, "temperature": 0.2,
+      "stop_sequences": ["..."]
+    }
+    """
+    try:
+        body = json.loads(event.get('body') or '{}')
+    except json.JSONDecodeError:
+        raise RequestError('Body must be JSON')
+
+    if not isinstance(body, dict):
+        raise RequestError('Body must be a JSON object')
+
+    messages = body.get('messages')
+    prompt = body.get('prompt')
+    if messages is None:
+        if not isinstance(prompt, str) or not prompt.strip():
+            raise RequestError('Either prompt or messages is required')
+        messages = [{'role': 'user', 'content': prompt}]
+
+    if not isinstance(messages, list) or not messages:
+        raise RequestError('messages must be a non-empty list')
+    for message in messages:
+        if (
+            not isinstance(message, dict)
+            or message.get('role') not in ('user', 'assistant')
+            or not isinstance(message.get('content'), str)
+        ):
+            raise RequestError('Each message needs a role of user or assistant and text content')
+    if messages[0]['role'] != 'user':
+        raise RequestError('The first message must come from the user')
+
+    model_id = body.get('model_id') or DEFAULT_MODEL_ID
+    if model_id not in ALLOWED_MODEL_IDS:
+        raise RequestError(f'Model {model_id} is not allowed')
+
+    output_schema = body.get('output_schema')
+    if output_schema is not None and (
+        not isinstance(output_schema, dict) or output_schema.get('type') != 'object'
+    ):
+        raise RequestError('output_schema must be a JSON Schema object')
+
+    schema_name = body.get('schema_name') or DEFAULT_TOOL_NAME
+    if not TOOL_NAME_PATTERN.match(schema_name):
+        raise RequestError('schema_name may only use letters, numbers, underscores and hyphens')
+
+    max_tokens = body.get('max_tokens', DEFAULT_MAX_TOKENS)
+    if not isinstance(max_tokens, int) or max_tokens < 1:
+        raise RequestError('max_tokens must be a positive integer')
+
+    temperature = body.get('temperature')
+    if temperature is not None and not isinstance(temperature, (int, float)):
+        raise RequestError('temperature must be a number')
+
+    return {
+        'model_id': model_id,
+        'system': body.get('system'),
+        'messages': messages,
+        'output_schema': output_schema,
+        'schema_name': schema_name,
+        'schema_description': body.get('schema_description'),
+        'max_tokens': max_tokens,
+        'temperature': temperature,
+        'stop_sequences': body.get('stop_sequences') or [],
+    }
+
+
+def build_converse_request(request):
+    inference_config = {'maxTokens': request['max_tokens']}
+    if request['temperature'] is not None:
+        inference_config['temperature'] = request['temperature']
+    if request['stop_sequences']:
+        inference_config['stopSequences'] = request['stop_sequences']
+
+    converse_request = {
+        'modelId': request['model_id'],
+        'messages': [
+            {'role': message['role'], 'content': [{'text': message['content']}]}
+            for message in request['messages']
+        ],
+        'inferenceConfig': inference_config,
+    }
+
+    if request['system']:
+        converse_request['system'] = [{'text': request['system']}]
+
+    if request['output_schema']:
+        converse_request['toolConfig'] = {
+            'tools': [{
+                'toolSpec': {
+                    'name': request['schema_name'],
+                    'description': request['schema_description']
+                    or 'Record the content generated from the template',
+                    'inputSchema': {'json': request['output_schema']},
+                }
+            }],
+            'toolChoice': {'tool': {'name': request['schema_name']}},
+        }
+
+    return converse_request
+
+
+def extract_content(request, result):
+    """
+    Returns the generated text, or the structured content for requests with
+    an output schema
+    """
+    blocks = result.get('output', {}).get('message', {}).get('content', [])
+
+    if not request['output_schema']:
+        return ''.join(block.get('text', '') for block in blocks)
+
+    for block in blocks:
+        tool_use = block.get('toolUse')
+        if tool_use and tool_use.get('name') == request['schema_name']:
+            content = tool_use.get('input')
+            if not isinstance(content, dict):
+                break
+            missing = [
+                name for name in request['output_schema'].get('required', [])
+                if name not in content
+            ]
+            if missing:
+                raise ValueError(f"Model output is missing required fields: {', '.join(missing)}")
+            return content
+
+    raise ValueError('Model did not return structured content')
+
 
 def lambda_handler(event, context):
     """
-    Simple AI processing function
+    Generates content from a template prompt with a Bedrock model
+    Returns { content, stop_reason, usage: { input_tokens, output_tokens }, model_id }
+    where content is text, or an object matching output_schema when given
     """
     try:
-        # Get the message from the request
-        body = json.loads(event.get('body', '{}'))
-        message = body.get('message', '')
-        
-        if not message:
-            return {
-                'statusCode': 400,
-                'headers': {'Content-Type': 'application/json'},
-                'body': json.dumps({'error': 'Message is required'})
-            }
-      
-        return {
-            'statusCode': 200,
-            'headers': {
-                'Content-Type': 'application/json',
-                'Access-Control-Allow-Origin': '*'
+        request = parse_request(event)
+        result = bedrock.converse(**build_converse_request(request))
+        content = extract_content(request, result)
+
+        usage = result.get('usage', {})
+        logger.info(
+            'Generated with %s: %s input tokens, %s output tokens',
+            request['model_id'], usage.get('inputTokens'), usage.get('outputTokens')
+        )
+
+        return response(200, {
+            'content': content,
+            'stop_reason': result.get('stopReason'),
+            'usage': {
+                'input_tokens': usage.get('inputTokens', 0),
+                'output_tokens': usage.get('outputTokens', 0),
             },
-            'body': json.dumps({
-                'response': "Hello world",
-            })
-        }
-        
+            'model_id': request['model_id'],
+        })
+
+    except RequestError as e:
+        return response(400, {'error': str(e)})
+    except ClientError as e:
+        code = e.response.get('Error', {}).get('Code', '')
+        logger.error(f"Bedrock error: {code}: {str(e)}")
+        return response(BEDROCK_ERROR_STATUS.get(code, 502), {
+            'error': e.response.get('Error', {}).get('Message', 'Model request failed'),
+            'code': code,
+        })
+    except ValueError as e:
+        logger.error(f"Invalid model output: {str(e)}")
+        return response(502, {'error': str(e)})
     except Exception as e:
         logger.error(f"Error: {str(e)}")
-        return {
-            'statusCode': 500,
-            'headers': {'Content-Type': 'application/json'},
-            'body': json.dumps({'error': 'Internal server error'})
-        }
\ No newline at end of file
+        return response(500, {'error': 'Internal server error'})
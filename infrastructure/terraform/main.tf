@@ -103,7 +103,9 @@ resource "aws_lambda_function" "ai_processor" {
 
   environment {
     variables = {
-      BEDROCK_MODEL_ID = "anthropic.claude-3-haiku-20240307-v1:0"
+      BEDROCK_MODEL_ID          = "anthropic.claude-3-haiku-20240307-v1:0"
+      BEDROCK_ALLOWED_MODEL_IDS = "anthropic.claude-3-5-sonnet-20240620-v1:0"
+      BEDROCK_MAX_TOKENS        = "4096"
     }
   }
 }
@@ -129,11 +131,12 @@ resource "aws_apigatewayv2_integration" "lambda_integration" {
   integration_uri  = aws_lambda_function.ai_processor.invoke_arn
 }
 
-# Create a route
+# Create a route - callers sign requests with SigV4 (see invoke policy below)
 resource "aws_apigatewayv2_route" "analyze" {
-  api_id    = aws_apigatewayv2_api.main.id
-  route_key = "POST /analyze"
-  target    = "integrations/${aws_apigatewayv2_integration.lambda_integration.id}"
+  api_id             = aws_apigatewayv2_api.main.id
+  route_key          = "POST /analyze"
+  target             = "integrations/${aws_apigatewayv2_integration.lambda_integration.id}"
+  authorization_type = "AWS_IAM"
 }
 
 # Deploy the API
@@ -152,6 +155,23 @@ resource "aws_lambda_permission" "api_gateway" {
   source_arn    = "${aws_apigatewayv2_api.main.execution_arn}/*/*"
 }
 
+# Attach to the IAM user or role the Next.js app signs requests with
+resource "aws_iam_policy" "api_invoke" {
+  name        = "odisai-api-invoke"
+  description = "Call the OdisAI AI processor API"
+
+  policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [
+      {
+        Effect   = "Allow"
+        Action   = ["execute-api:Invoke"]
+        Resource = "${aws_apigatewayv2_api.main.execution_arn}/*/POST/analyze"
+      }
+    ]
+  })
+}
+
 #######################################
 # OUTPUTS - What you get back
 #######################################
@@ -160,6 +180,11 @@ output "api_endpoint" {
   value       = aws_apigatewayv2_stage.default.invoke_url
 }
 
+output "api_invoke_policy_arn" {
+  description = "IAM policy allowing the app to call the API"
+  value       = aws_iam_policy.api_invoke.arn
+}
+
 output "s3_bucket" {
   description = "S3 bucket for Lambda code"
   value       = aws_s3_bucket.lambda_artifacts.bucket
@@ -34,6 +34,7 @@ export async function middleware(request: NextRequest) {
     "/forgot-password",
     "/reset-password",
     "/auth/callback",
+    "/accept-invite",
     "/api/authenticate",
     "/api/deepgram/authenticate",
   ];
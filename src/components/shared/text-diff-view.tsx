@@ -0,0 +1,75 @@
+"use client";
+
+import { useMemo } from "react";
+import { cn } from "@/src/lib/utils";
+import { diffLines, type DiffRow } from "@/src/lib/text-diff";
+
+interface TextDiffViewProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const LEFT_STYLES: Record<DiffRow["type"], string> = {
+  equal: "",
+  changed: "bg-amber-50 dark:bg-amber-950/40",
+  removed: "bg-red-50 dark:bg-red-950/40",
+  added: "bg-muted/40",
+};
+
+const RIGHT_STYLES: Record<DiffRow["type"], string> = {
+  equal: "",
+  changed: "bg-amber-50 dark:bg-amber-950/40",
+  removed: "bg-muted/40",
+  added: "bg-green-50 dark:bg-green-950/40",
+};
+
+/**
+ * Two versions of a text side by side, changed lines highlighted
+ */
+export function TextDiffView({
+  before,
+  after,
+  beforeLabel,
+  afterLabel,
+}: TextDiffViewProps) {
+  const rows = useMemo(() => diffLines(before, after), [before, after]);
+  const changes = rows.filter((row) => row.type !== "equal").length;
+
+  return (
+    <div className="border rounded-lg overflow-hidden text-sm">
+      <div className="grid grid-cols-2 bg-muted/50 border-b font-medium">
+        <div className="px-3 py-2 border-r">{beforeLabel}</div>
+        <div className="px-3 py-2 flex justify-between">
+          <span>{afterLabel}</span>
+          <span className="text-xs text-muted-foreground font-normal">
+            {changes === 0
+              ? "No changes"
+              : `${changes} changed line${changes === 1 ? "" : "s"}`}
+          </span>
+        </div>
+      </div>
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-2">
+          <div
+            className={cn(
+              "px-3 py-0.5 border-r whitespace-pre-wrap break-words min-h-[1.5rem]",
+              LEFT_STYLES[row.type]
+            )}
+          >
+            {row.left}
+          </div>
+          <div
+            className={cn(
+              "px-3 py-0.5 whitespace-pre-wrap break-words min-h-[1.5rem]",
+              RIGHT_STYLES[row.type]
+            )}
+          >
+            {row.right}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import { Headphones, Loader2 } from "lucide-react";
+import { Button } from "@/src/components/ui/button";
+import { getAudioPlaybackUrl } from "@/app/actions";
+
+interface RecordingPlayerProps {
+  audioFileId: string;
+}
+
+/**
+ * Plays back the recording a transcript was taken from
+ * The signed URL is only requested once the user asks to listen
+ */
+export function RecordingPlayer({ audioFileId }: RecordingPlayerProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleListen = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await getAudioPlaybackUrl(audioFileId);
+    if (result.success && result.url) {
+      setUrl(result.url);
+    } else {
+      setError(result.error || "Recording unavailable");
+    }
+
+    setIsLoading(false);
+  };
+
+  if (url) {
+    return (
+      <audio
+        controls
+        autoPlay
+        src={url}
+        className="w-full h-10"
+        onError={() => {
+          // Signed URLs expire, so fetch a fresh one on the next attempt
+          setUrl(null);
+          setError("Playback failed, try again");
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8"
+        onClick={handleListen}
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Headphones className="h-4 w-4 mr-2" />
+        )}
+        Listen
+      </Button>
+      {error && <span className="text-xs text-destructive">{error}</span>}
+    </div>
+  );
+}
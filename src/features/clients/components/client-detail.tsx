@@ -0,0 +1,315 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Edit, Loader2, Mail, MapPin, PawPrint, Phone, Trash2 } from "lucide-react";
+
+import { Badge } from "@/src/components/ui/badge";
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/src/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/src/components/ui/table";
+import {
+  createPatient,
+  deleteClient,
+  getClientById,
+  updateClient,
+} from "@/app/actions";
+import type {
+  Client,
+  ClientInput,
+  ClientVisit,
+  Patient,
+} from "@/app/actions/types";
+import { ClientFormDialog } from "./client-form-dialog";
+
+interface ClientDetailProps {
+  clientId: string;
+}
+
+export function ClientDetail({ clientId }: ClientDetailProps) {
+  const router = useRouter();
+  const [client, setClient] = useState<Client | null>(null);
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [visits, setVisits] = useState<ClientVisit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+
+  // New pet form state
+  const [petName, setPetName] = useState("");
+  const [petSpecies, setPetSpecies] = useState("");
+  const [petBreed, setPetBreed] = useState("");
+  const [isAddingPet, setIsAddingPet] = useState(false);
+
+  const loadClient = useCallback(async () => {
+    const result = await getClientById(clientId);
+    if (result.success && result.client) {
+      setClient(result.client);
+      setPatients(result.patients || []);
+      setVisits(result.visits || []);
+    } else {
+      toast.error(result.error || "Failed to load client");
+    }
+    setIsLoading(false);
+  }, [clientId]);
+
+  useEffect(() => {
+    loadClient();
+  }, [loadClient]);
+
+  const handleUpdate = async (values: ClientInput) => {
+    const result = await updateClient(clientId, values);
+    if (!result.success) {
+      toast.error(result.error || "Failed to update client");
+      return false;
+    }
+    toast.success("Client updated");
+    loadClient();
+    return true;
+  };
+
+  const handleDelete = async () => {
+    if (!client || !confirm(`Delete ${client.name}? Their pets are kept.`)) {
+      return;
+    }
+    const result = await deleteClient(clientId);
+    if (!result.success) {
+      toast.error(result.error || "Failed to delete client");
+      return;
+    }
+    toast.success("Client deleted");
+    router.push("/dashboard/clients");
+  };
+
+  const handleAddPet = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!client) return;
+
+    setIsAddingPet(true);
+    const result = await createPatient({
+      name: petName,
+      owner_name: client.name,
+      client_id: client.id,
+      species: petSpecies || null,
+      breed: petBreed || null,
+    });
+    setIsAddingPet(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to add pet");
+      return;
+    }
+
+    toast.success(`${petName} added`);
+    setPetName("");
+    setPetSpecies("");
+    setPetBreed("");
+    loadClient();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!client) {
+    return (
+      <p className="py-12 text-center text-muted-foreground">
+        Client not found
+      </p>
+    );
+  }
+
+  const address = [
+    client.address_line1,
+    client.address_line2,
+    [client.city, client.region, client.postal_code].filter(Boolean).join(" "),
+    client.country,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>{client.name}</CardTitle>
+            <CardDescription>
+              Prefers {client.preferred_contact_method}
+              {!client.email_opt_in && " · No email updates"}
+              {client.sms_opt_in && " · Accepts text messages"}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsEditOpen(true)}>
+              <Edit className="mr-2 h-4 w-4" />
+              Edit
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleDelete}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <div className="flex items-center gap-2">
+            <Mail className="h-4 w-4 text-muted-foreground" />
+            {client.email || "No email on file"}
+          </div>
+          <div className="flex items-center gap-2">
+            <Phone className="h-4 w-4 text-muted-foreground" />
+            {client.phone || "No phone on file"}
+          </div>
+          <div className="flex items-center gap-2">
+            <MapPin className="h-4 w-4 text-muted-foreground" />
+            {address || "No address on file"}
+          </div>
+          {client.notes && (
+            <p className="pt-2 text-muted-foreground">{client.notes}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pets</CardTitle>
+          <CardDescription>Patients in this household</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {patients.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Species</TableHead>
+                  <TableHead>Breed</TableHead>
+                  <TableHead>Allergies</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {patients.map((patient) => (
+                  <TableRow key={patient.id}>
+                    <TableCell className="font-medium">
+                      <PawPrint className="mr-2 inline h-4 w-4 text-muted-foreground" />
+                      {patient.name}
+                    </TableCell>
+                    <TableCell>{patient.species || "—"}</TableCell>
+                    <TableCell>{patient.breed || "—"}</TableCell>
+                    <TableCell>
+                      {patient.allergies.length > 0
+                        ? patient.allergies.map((allergy) => (
+                            <Badge key={allergy} variant="destructive" className="mr-1">
+                              {allergy}
+                            </Badge>
+                          ))
+                        : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <form className="flex gap-2" onSubmit={handleAddPet}>
+            <Input
+              placeholder="Pet name"
+              value={petName}
+              onChange={(e) => setPetName(e.target.value)}
+              required
+            />
+            <Input
+              placeholder="Species"
+              value={petSpecies}
+              onChange={(e) => setPetSpecies(e.target.value)}
+            />
+            <Input
+              placeholder="Breed"
+              value={petBreed}
+              onChange={(e) => setPetBreed(e.target.value)}
+            />
+            <Button type="submit" disabled={isAddingPet || !petName.trim()}>
+              {isAddingPet && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Pet
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Visits</CardTitle>
+          <CardDescription>Cases for every pet in the household</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {visits.length === 0 ? (
+            <p className="py-6 text-center text-muted-foreground">
+              No visits yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Pet</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visits.map((visit) => (
+                  <TableRow key={visit.caseId}>
+                    <TableCell>
+                      <Link
+                        href={`/dashboard/case/${visit.caseId}`}
+                        className="text-primary hover:underline"
+                      >
+                        {visit.date
+                          ? new Date(visit.date).toLocaleDateString()
+                          : "—"}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{visit.patientName}</TableCell>
+                    <TableCell className="capitalize">
+                      {visit.type?.replace("_", " ") || "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="capitalize">
+                        {visit.status || "ongoing"}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ClientFormDialog
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+        client={client}
+        onSubmit={handleUpdate}
+      />
+    </div>
+  );
+}
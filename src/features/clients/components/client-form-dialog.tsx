@@ -0,0 +1,252 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import { Textarea } from "@/src/components/ui/textarea";
+import { Switch } from "@/src/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import type { Client, ClientInput, ContactMethod } from "@/app/actions/types";
+
+const CONTACT_METHOD_LABELS: Record<ContactMethod, string> = {
+  email: "Email",
+  phone: "Phone",
+  sms: "Text message",
+  mail: "Post",
+};
+
+const EMPTY_CLIENT: ClientInput = {
+  name: "",
+  email: "",
+  phone: "",
+  address_line1: "",
+  address_line2: "",
+  city: "",
+  region: "",
+  postal_code: "",
+  country: "",
+  preferred_contact_method: "email",
+  email_opt_in: true,
+  sms_opt_in: false,
+  notes: "",
+};
+
+interface ClientFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  client?: Client | null;
+  onSubmit: (values: ClientInput) => Promise<boolean>;
+}
+
+export function ClientFormDialog({
+  open,
+  onOpenChange,
+  client,
+  onSubmit,
+}: ClientFormDialogProps) {
+  const [values, setValues] = useState<ClientInput>(EMPTY_CLIENT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues(
+        client
+          ? {
+              name: client.name,
+              email: client.email || "",
+              phone: client.phone || "",
+              address_line1: client.address_line1 || "",
+              address_line2: client.address_line2 || "",
+              city: client.city || "",
+              region: client.region || "",
+              postal_code: client.postal_code || "",
+              country: client.country || "",
+              preferred_contact_method: client.preferred_contact_method,
+              email_opt_in: client.email_opt_in,
+              sms_opt_in: client.sms_opt_in,
+              notes: client.notes || "",
+            }
+          : EMPTY_CLIENT
+      );
+    }
+  }, [open, client]);
+
+  const setField = <K extends keyof ClientInput>(
+    field: K,
+    value: ClientInput[K]
+  ) => setValues((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const saved = await onSubmit(values);
+    setIsSaving(false);
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{client ? "Edit Client" : "Add Client"}</DialogTitle>
+            <DialogDescription>
+              Contact details and how the client prefers to be reached
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="client-name">Name</Label>
+              <Input
+                id="client-name"
+                value={values.name}
+                onChange={(e) => setField("name", e.target.value)}
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="client-email">Email</Label>
+                <Input
+                  id="client-email"
+                  type="email"
+                  value={values.email || ""}
+                  onChange={(e) => setField("email", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="client-phone">Phone</Label>
+                <Input
+                  id="client-phone"
+                  type="tel"
+                  value={values.phone || ""}
+                  onChange={(e) => setField("phone", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="client-address1">Address</Label>
+              <Input
+                id="client-address1"
+                placeholder="Street address"
+                value={values.address_line1 || ""}
+                onChange={(e) => setField("address_line1", e.target.value)}
+              />
+              <Input
+                id="client-address2"
+                placeholder="Apartment, suite, etc."
+                value={values.address_line2 || ""}
+                onChange={(e) => setField("address_line2", e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-4 gap-4">
+              <Input
+                placeholder="City"
+                value={values.city || ""}
+                onChange={(e) => setField("city", e.target.value)}
+              />
+              <Input
+                placeholder="State / Region"
+                value={values.region || ""}
+                onChange={(e) => setField("region", e.target.value)}
+              />
+              <Input
+                placeholder="Postal code"
+                value={values.postal_code || ""}
+                onChange={(e) => setField("postal_code", e.target.value)}
+              />
+              <Input
+                placeholder="Country"
+                value={values.country || ""}
+                onChange={(e) => setField("country", e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="client-contact-method">Preferred contact</Label>
+                <Select
+                  value={values.preferred_contact_method}
+                  onValueChange={(value) =>
+                    setField("preferred_contact_method", value as ContactMethod)
+                  }
+                >
+                  <SelectTrigger id="client-contact-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CONTACT_METHOD_LABELS).map(
+                      ([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="client-email-opt-in"
+                  checked={values.email_opt_in}
+                  onCheckedChange={(checked) => setField("email_opt_in", checked)}
+                />
+                <Label htmlFor="client-email-opt-in">Email updates</Label>
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="client-sms-opt-in"
+                  checked={values.sms_opt_in}
+                  onCheckedChange={(checked) => setField("sms_opt_in", checked)}
+                />
+                <Label htmlFor="client-sms-opt-in">Text messages</Label>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="client-notes">Notes</Label>
+              <Textarea
+                id="client-notes"
+                value={values.notes || ""}
+                onChange={(e) => setField("notes", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !values.name.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
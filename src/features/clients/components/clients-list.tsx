@@ -0,0 +1,140 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Loader2, Search, UserPlus } from "lucide-react";
+
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/src/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/src/components/ui/table";
+import { addClient, getClients } from "@/app/actions";
+import type { Client, ClientInput, Patient } from "@/app/actions/types";
+import { ClientFormDialog } from "./client-form-dialog";
+
+type ClientWithPatients = Client & {
+  patients: Pick<Patient, "id" | "name" | "species">[];
+};
+
+export function ClientsList() {
+  const [clients, setClients] = useState<ClientWithPatients[]>([]);
+  const [search, setSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const loadClients = useCallback(async (filter: string) => {
+    setIsLoading(true);
+    const result = await getClients(filter || undefined);
+    if (result.success) {
+      setClients(result.clients || []);
+    } else {
+      toast.error(result.error || "Failed to load clients");
+    }
+    setIsLoading(false);
+  }, []);
+
+  // Debounce searches while typing
+  useEffect(() => {
+    const timeout = setTimeout(() => loadClients(search), 300);
+    return () => clearTimeout(timeout);
+  }, [search, loadClients]);
+
+  const handleAddClient = async (values: ClientInput) => {
+    const result = await addClient(values);
+    if (!result.success) {
+      toast.error(result.error || "Failed to add client");
+      return false;
+    }
+    toast.success(`${values.name} added`);
+    loadClients(search);
+    return true;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Clients</CardTitle>
+          <CardDescription>Pet owners and their households</CardDescription>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)}>
+          <UserPlus className="mr-2 h-4 w-4" />
+          Add Client
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by name, email or phone"
+            className="pl-8"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : clients.length === 0 ? (
+          <p className="py-12 text-center text-muted-foreground">
+            No clients found
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Pets</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {clients.map((client) => (
+                <TableRow key={client.id}>
+                  <TableCell>
+                    <Link
+                      href={`/dashboard/clients/${client.id}`}
+                      className="font-medium text-primary hover:underline"
+                    >
+                      {client.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{client.email || "—"}</TableCell>
+                  <TableCell>{client.phone || "—"}</TableCell>
+                  <TableCell>
+                    {client.patients.length > 0
+                      ? client.patients.map((patient) => patient.name).join(", ")
+                      : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ClientFormDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onSubmit={handleAddClient}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { CheckCircle, Clock, Eye, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/src/components/ui/button";
+import { Checkbox } from "@/src/components/ui/checkbox";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/src/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/src/components/ui/table";
+import { documentKey } from "@/src/lib/exports/documents";
+import type { ReviewDocument } from "@/app/actions/types";
+
+interface DocumentQueueProps {
+  title: string;
+  description: string;
+  documents: ReviewDocument[];
+  isLoading: boolean;
+  emptyMessage: string;
+  // Keys (see documentKey) of the selected documents
+  selected: string[];
+  onSelectedChange: (selected: string[]) => void;
+  onView: (document: ReviewDocument) => void;
+  // Buttons acting on the selection
+  actions?: ReactNode;
+  // Loads the next page; omitted when every document is shown
+  onLoadMore?: () => void;
+  isLoadingMore?: boolean;
+}
+
+function ReviewStatus({ document }: { document: ReviewDocument }) {
+  switch (document.review?.decision) {
+    case "approved":
+      return (
+        <span
+          className="flex items-center"
+          title={
+            document.review.reviewer
+              ? `Approved by ${document.review.reviewer}`
+              : undefined
+          }
+        >
+          <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
+          Approved
+        </span>
+      );
+    case "rejected":
+      return (
+        <div className="space-y-1">
+          <span className="flex items-center">
+            <XCircle className="mr-2 h-4 w-4 text-red-500" />
+            Changes requested
+          </span>
+          <p className="text-xs text-muted-foreground">
+            {document.review.reviewer && `${document.review.reviewer}: `}
+            {document.review.comment}
+          </p>
+        </div>
+      );
+    default:
+      return (
+        <span className="flex items-center">
+          <Clock className="mr-2 h-4 w-4 text-yellow-500" />
+          Pending Review
+        </span>
+      );
+  }
+}
+
+/**
+ * A queue of documents in the Export Center with a selection for bulk actions
+ */
+export function DocumentQueue({
+  title,
+  description,
+  documents,
+  isLoading,
+  emptyMessage,
+  selected,
+  onSelectedChange,
+  onView,
+  actions,
+  onLoadMore,
+  isLoadingMore,
+}: DocumentQueueProps) {
+  const allSelected =
+    documents.length > 0 && selected.length === documents.length;
+
+  const toggle = (key: string, checked: boolean) =>
+    onSelectedChange(
+      checked ? [...selected, key] : selected.filter((k) => k !== key)
+    );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </div>
+        {actions && <div className="flex gap-2">{actions}</div>}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : documents.length === 0 ? (
+          <p className="py-12 text-center text-muted-foreground">
+            {emptyMessage}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) =>
+                      onSelectedChange(
+                        checked ? documents.map((d) => documentKey(d)) : []
+                      )
+                    }
+                    aria-label="Select all documents"
+                  />
+                </TableHead>
+                <TableHead>Document</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.map((document) => {
+                const key = documentKey(document);
+                return (
+                  <TableRow key={key}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.includes(key)}
+                        onCheckedChange={(checked) =>
+                          toggle(key, checked === true)
+                        }
+                        aria-label={`Select ${document.title}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">
+                        {document.patientName
+                          ? `${document.patientName}'s ${document.title}`
+                          : document.title}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(document.createdAt).toLocaleDateString()}
+                        {document.visitType && ` · ${document.visitType}`}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <ReviewStatus document={document} />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="View document"
+                        onClick={() => onView(document)}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+        {!isLoading && onLoadMore && (
+          <div className="flex justify-center pt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isLoadingMore}
+              onClick={onLoadMore}
+            >
+              {isLoadingMore && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Load more
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
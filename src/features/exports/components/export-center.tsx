@@ -0,0 +1,416 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { CheckCircle, Download, Loader2, Send, XCircle } from "lucide-react";
+
+import { Button } from "@/src/components/ui/button";
+import { Label } from "@/src/components/ui/label";
+import { Textarea } from "@/src/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/src/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/src/components/ui/table";
+import {
+  exportDocuments,
+  getExportHistory,
+  getExportQueuePage,
+  getExportQueues,
+  reviewDocuments,
+} from "@/app/actions";
+import type {
+  DocumentRef,
+  ExportHistoryEntry,
+  ExportQueue,
+  ExportQueueCursor,
+  ReviewDocument,
+} from "@/app/actions/types";
+import { EXPORT_FORMATS, documentKey } from "@/src/lib/exports/documents";
+import { StructuredNoteView } from "@/src/features/notes/components/structured-note-view";
+import { DocumentQueue } from "./document-queue";
+import { ExportDialog, type ExportOptions } from "./export-dialog";
+import { PimsSendDialog } from "./pims-send-dialog";
+
+/**
+ * Saves an exported file through the browser
+ */
+function downloadExport(file: {
+  filename: string;
+  mimeType: string;
+  content: string;
+}) {
+  const url = URL.createObjectURL(
+    new Blob([file.content], { type: file.mimeType })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * The selected documents of a queue as references for the actions
+ */
+function selectedRefs(
+  documents: ReviewDocument[],
+  selected: string[]
+): DocumentRef[] {
+  return documents
+    .filter((document) => selected.includes(documentKey(document)))
+    .map(({ type, id }) => ({ type, id }));
+}
+
+export function ExportCenter() {
+  const [reviewQueue, setReviewQueue] = useState<ReviewDocument[]>([]);
+  const [readyQueue, setReadyQueue] = useState<ReviewDocument[]>([]);
+  // Where the next page of each queue starts; null once it is fully loaded
+  const [cursors, setCursors] = useState<
+    Record<ExportQueue, ExportQueueCursor | null>
+  >({ review: null, ready: null });
+  const [loadingMore, setLoadingMore] = useState<ExportQueue | null>(null);
+  const [history, setHistory] = useState<ExportHistoryEntry[]>([]);
+  const [canReview, setCanReview] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviewSelection, setReviewSelection] = useState<string[]>([]);
+  const [readySelection, setReadySelection] = useState<string[]>([]);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [isRejectOpen, setIsRejectOpen] = useState(false);
+  const [rejectComment, setRejectComment] = useState("");
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isPimsOpen, setIsPimsOpen] = useState(false);
+  const [viewing, setViewing] = useState<ReviewDocument | null>(null);
+
+  const loadExportCenter = useCallback(async () => {
+    setIsLoading(true);
+    const [queuesResult, historyResult] = await Promise.all([
+      getExportQueues(),
+      getExportHistory(),
+    ]);
+
+    if (queuesResult.success) {
+      setReviewQueue(queuesResult.review?.documents || []);
+      setReadyQueue(queuesResult.ready?.documents || []);
+      setCursors({
+        review: queuesResult.review?.nextCursor || null,
+        ready: queuesResult.ready?.nextCursor || null,
+      });
+      setCanReview(!!queuesResult.canReview);
+    } else {
+      toast.error(queuesResult.error || "Failed to load documents");
+    }
+    if (historyResult.success) {
+      setHistory(historyResult.history || []);
+    } else {
+      toast.error(historyResult.error || "Failed to load export history");
+    }
+
+    // Documents may have moved between queues
+    setReviewSelection([]);
+    setReadySelection([]);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadExportCenter();
+  }, [loadExportCenter]);
+
+  const loadMore = async (queue: ExportQueue) => {
+    const cursor = cursors[queue];
+    if (!cursor) {
+      return;
+    }
+
+    setLoadingMore(queue);
+    const result = await getExportQueuePage(queue, cursor);
+    setLoadingMore(null);
+
+    if (!result.success || !result.page) {
+      toast.error(result.error || "Failed to load documents");
+      return;
+    }
+    const { documents, nextCursor } = result.page;
+    const setQueue = queue === "review" ? setReviewQueue : setReadyQueue;
+    setQueue((current) => [...current, ...documents]);
+    setCursors((current) => ({ ...current, [queue]: nextCursor }));
+  };
+
+  const handleReview = async (
+    documents: DocumentRef[],
+    decision: "approved" | "rejected",
+    comment?: string
+  ) => {
+    setIsReviewing(true);
+    const result = await reviewDocuments({ documents, decision, comment });
+    setIsReviewing(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to review documents");
+      return false;
+    }
+    const count = result.reviewed || documents.length;
+    toast.success(
+      `${count} document${count === 1 ? "" : "s"} ${decision === "approved" ? "approved" : "sent back for changes"}`
+    );
+    loadExportCenter();
+    return true;
+  };
+
+  const handleReject = async () => {
+    const rejected = await handleReview(
+      selectedRefs(reviewQueue, reviewSelection),
+      "rejected",
+      rejectComment.trim()
+    );
+    if (rejected) {
+      setIsRejectOpen(false);
+      setRejectComment("");
+    }
+  };
+
+  const handleExport = async (options: ExportOptions) => {
+    const result = await exportDocuments({
+      documents: selectedRefs(readyQueue, readySelection),
+      ...options,
+    });
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to export documents");
+      return false;
+    }
+    if (result.file) {
+      downloadExport(result.file);
+    }
+    toast.success(
+      options.destination === "email"
+        ? `Export sent to ${options.recipient}`
+        : "Export downloaded"
+    );
+    loadExportCenter();
+    return true;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Export Center</h1>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 xl:grid-cols-2">
+        <DocumentQueue
+          title="For Review"
+          description="Documents awaiting approval or changes"
+          documents={reviewQueue}
+          isLoading={isLoading}
+          emptyMessage="Nothing to review"
+          selected={reviewSelection}
+          onSelectedChange={setReviewSelection}
+          onView={setViewing}
+          onLoadMore={cursors.review ? () => loadMore("review") : undefined}
+          isLoadingMore={loadingMore === "review"}
+          actions={
+            canReview && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={reviewSelection.length === 0 || isReviewing}
+                  onClick={() => setIsRejectOpen(true)}
+                >
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Reject
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={reviewSelection.length === 0 || isReviewing}
+                  onClick={() =>
+                    handleReview(
+                      selectedRefs(reviewQueue, reviewSelection),
+                      "approved"
+                    )
+                  }
+                >
+                  {isReviewing ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <CheckCircle className="mr-2 h-4 w-4" />
+                  )}
+                  Approve
+                </Button>
+              </>
+            )
+          }
+        />
+
+        <DocumentQueue
+          title="Ready to Export"
+          description="Approved documents ready for export"
+          documents={readyQueue}
+          isLoading={isLoading}
+          emptyMessage="No approved documents"
+          selected={readySelection}
+          onSelectedChange={setReadySelection}
+          onView={setViewing}
+          onLoadMore={cursors.ready ? () => loadMore("ready") : undefined}
+          isLoadingMore={loadingMore === "ready"}
+          actions={
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={readySelection.length === 0}
+                onClick={() => setIsPimsOpen(true)}
+              >
+                <Send className="mr-2 h-4 w-4" />
+                Send to PIMS
+              </Button>
+              <Button
+                size="sm"
+                disabled={readySelection.length === 0}
+                onClick={() => setIsExportOpen(true)}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </>
+          }
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Export History</CardTitle>
+          <CardDescription>
+            Every document exported from the clinic
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : history.length === 0 ? (
+            <p className="py-12 text-center text-muted-foreground">
+              Nothing has been exported yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Document</TableHead>
+                  <TableHead>Exported</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Format</TableHead>
+                  <TableHead>Destination</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">
+                      {entry.document_title}
+                    </TableCell>
+                    <TableCell>
+                      {new Date(entry.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>{entry.exporter || "Former member"}</TableCell>
+                    <TableCell>
+                      {EXPORT_FORMATS.find((f) => f.value === entry.format)
+                        ?.label || entry.format.toUpperCase()}
+                    </TableCell>
+                    <TableCell>
+                      {entry.destination === "email"
+                        ? `Email to ${entry.recipient}`
+                        : "Download"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isRejectOpen} onOpenChange={setIsRejectOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reject Documents</DialogTitle>
+            <DialogDescription>
+              Explain what needs to change. The comment is shown with each
+              rejected document.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-comment">Comment</Label>
+            <Textarea
+              id="reject-comment"
+              value={rejectComment}
+              onChange={(e) => setRejectComment(e.target.value)}
+              className="min-h-[100px]"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRejectOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectComment.trim() || isReviewing}
+              onClick={handleReject}
+            >
+              {isReviewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reject {reviewSelection.length} document
+              {reviewSelection.length === 1 ? "" : "s"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        count={readySelection.length}
+        onExport={handleExport}
+      />
+
+      <PimsSendDialog
+        open={isPimsOpen}
+        onOpenChange={setIsPimsOpen}
+        documents={selectedRefs(readyQueue, readySelection)}
+      />
+
+      <Dialog open={!!viewing} onOpenChange={() => setViewing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewing?.title}</DialogTitle>
+            <DialogDescription>
+              {[viewing?.patientName, viewing?.visitType]
+                .filter(Boolean)
+                .join(" · ")}
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && <StructuredNoteView sections={viewing.sections} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Download, Loader2, Mail } from "lucide-react";
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/src/components/ui/radio-group";
+import { EXPORT_FORMATS } from "@/src/lib/exports/documents";
+import type { ExportDestination, ExportFormat } from "@/app/actions/types";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  destination: ExportDestination;
+  recipient?: string;
+}
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  count: number;
+  // Resolves to whether the export went through
+  onExport: (options: ExportOptions) => Promise<boolean>;
+}
+
+/**
+ * Picks the format and destination for exporting the selected documents
+ */
+export function ExportDialog({
+  open,
+  onOpenChange,
+  count,
+  onExport,
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("text");
+  const [destination, setDestination] = useState<ExportDestination>("download");
+  const [recipient, setRecipient] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setIsExporting(false);
+    }
+  }, [open]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    const exported = await onExport({
+      format,
+      destination,
+      recipient: destination === "email" ? recipient.trim() : undefined,
+    });
+    setIsExporting(false);
+    if (exported) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Documents</DialogTitle>
+          <DialogDescription>
+            Export {count} approved document{count === 1 ? "" : "s"} as one
+            file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-format">Format</Label>
+            <Select
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+            >
+              <SelectTrigger id="export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMATS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Destination</Label>
+            <RadioGroup
+              value={destination}
+              onValueChange={(value) =>
+                setDestination(value as ExportDestination)
+              }
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="download" id="export-download" />
+                <Label htmlFor="export-download" className="font-normal">
+                  Download
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="email" id="export-email" />
+                <Label htmlFor="export-email" className="font-normal">
+                  Email
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          {destination === "email" && (
+            <div className="space-y-2">
+              <Label htmlFor="export-recipient">Recipient</Label>
+              <Input
+                id="export-recipient"
+                type="email"
+                placeholder="name@example.com"
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={
+              isExporting || (destination === "email" && !recipient.trim())
+            }
+          >
+            {isExporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : destination === "email" ? (
+              <Mail className="mr-2 h-4 w-4" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
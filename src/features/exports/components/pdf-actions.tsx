@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Download, FileDown, Loader2, Mail } from "lucide-react";
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/src/components/ui/dropdown-menu";
+import { emailCasePdf, getCasePdf } from "@/app/actions";
+import type { DocumentRef } from "@/app/actions/types";
+
+interface PdfActionsProps {
+  caseId: string;
+  // The document to render; the whole case when omitted
+  document?: DocumentRef;
+  // Recipient suggested when emailing, e.g. the owner's email on file
+  defaultRecipient?: string;
+  label?: string;
+}
+
+/**
+ * Saves a base64 encoded PDF through the browser
+ */
+function downloadPdf(file: {
+  filename: string;
+  mimeType: string;
+  content: string;
+}) {
+  const bytes = Uint8Array.from(atob(file.content), (char) =>
+    char.charCodeAt(0)
+  );
+  const url = URL.createObjectURL(new Blob([bytes], { type: file.mimeType }));
+  const link = window.document.createElement("a");
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads or emails a PDF of a case document or of the whole case
+ */
+export function PdfActions({
+  caseId,
+  document,
+  defaultRecipient,
+  label = "PDF",
+}: PdfActionsProps) {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isEmailOpen, setIsEmailOpen] = useState(false);
+  const [recipient, setRecipient] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    const result = await getCasePdf({ caseId, document });
+    setIsDownloading(false);
+
+    if (!result.success || !result.file) {
+      toast.error(result.error || "Failed to create PDF");
+      return;
+    }
+    downloadPdf(result.file);
+  };
+
+  const handleEmail = async () => {
+    setIsSending(true);
+    const result = await emailCasePdf({
+      caseId,
+      document,
+      recipient: recipient.trim(),
+    });
+    setIsSending(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to email PDF");
+      return;
+    }
+    toast.success(`PDF sent to ${recipient.trim()}`);
+    setIsEmailOpen(false);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs text-muted-foreground"
+            disabled={isDownloading}
+            onClick={(e) => e.stopPropagation()}
+          >
+            {isDownloading ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <FileDown className="h-3 w-3 mr-1" />
+            )}
+            {label}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={handleDownload}>
+            <Download className="h-4 w-4 mr-2" />
+            Download PDF
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => {
+              setRecipient(defaultRecipient || "");
+              setIsEmailOpen(true);
+            }}
+          >
+            <Mail className="h-4 w-4 mr-2" />
+            Email PDF
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isEmailOpen} onOpenChange={setIsEmailOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Email PDF</DialogTitle>
+            <DialogDescription>
+              The PDF is sent as an attachment.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="pdf-recipient">To Email</Label>
+            <Input
+              id="pdf-recipient"
+              type="email"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              placeholder="owner@example.com"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEmailOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleEmail}
+              disabled={isSending || !recipient.trim()}
+            >
+              {isSending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Mail className="h-4 w-4 mr-2" />
+              )}
+              Send
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
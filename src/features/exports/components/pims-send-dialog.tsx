@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Send } from "lucide-react";
+import { Button } from "@/src/components/ui/button";
+import { Label } from "@/src/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import { getPimsConnections, sendToPims } from "@/app/actions";
+import type { DocumentRef, PimsConnection } from "@/app/actions/types";
+import { PIMS_ADAPTERS } from "@/src/lib/pims/catalog";
+
+interface PimsSendDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The documents to send, or the case whose approved documents are sent
+  documents?: DocumentRef[];
+  caseId?: string;
+  onSent?: () => void;
+}
+
+/**
+ * Picks a PIMS connection and sends approved documents to it
+ */
+export function PimsSendDialog({
+  open,
+  onOpenChange,
+  documents,
+  caseId,
+  onSent,
+}: PimsSendDialogProps) {
+  const [connections, setConnections] = useState<PimsConnection[]>([]);
+  const [connectionId, setConnectionId] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const loadConnections = async () => {
+      setIsLoading(true);
+      const result = await getPimsConnections();
+      setIsLoading(false);
+
+      if (!result.success) {
+        toast.error(result.error || "Failed to load PIMS connections");
+        return;
+      }
+      const enabled = (result.connections || []).filter((c) => c.enabled);
+      setConnections(enabled);
+      setConnectionId(enabled[0]?.id || "");
+    };
+
+    setIsSending(false);
+    loadConnections();
+  }, [open]);
+
+  const handleSend = async () => {
+    setIsSending(true);
+    const result = await sendToPims({ connectionId, documents, caseId });
+    setIsSending(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to send documents to PIMS");
+      return;
+    }
+
+    const name = connections.find((c) => c.id === connectionId)?.name;
+    if (result.failed) {
+      toast.error(
+        `${result.failed} message${result.failed === 1 ? "" : "s"} to ${name} failed: ${result.errors?.[0]}`
+      );
+    } else {
+      toast.success(`Sent to ${name}`);
+      onOpenChange(false);
+    }
+    onSent?.();
+  };
+
+  const count = documents?.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Send to PIMS</DialogTitle>
+          <DialogDescription>
+            {count
+              ? `Send ${count} approved document${count === 1 ? "" : "s"} to a practice-management system.`
+              : "Send the case's approved documents to a practice-management system."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : connections.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No PIMS connections are set up. Clinic owners can add one under PIMS
+            Integrations.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="pims-connection">Connection</Label>
+            <Select value={connectionId} onValueChange={setConnectionId}>
+              <SelectTrigger id="pims-connection">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {connections.map((connection) => (
+                  <SelectItem key={connection.id} value={connection.id}>
+                    {`${connection.name} (${PIMS_ADAPTERS[connection.adapter].label})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={isSending || !connectionId}>
+            {isSending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
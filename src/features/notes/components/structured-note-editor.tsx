@@ -0,0 +1,293 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Plus, Save, Trash2, X } from "lucide-react";
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import { Switch } from "@/src/components/ui/switch";
+import { Textarea } from "@/src/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import {
+  structuredNoteSchema,
+  type StructuredNote,
+} from "@/src/lib/notes/structured-note";
+import {
+  formatFieldErrors,
+  type TemplateFieldSchema,
+} from "@/src/lib/templates/schema";
+
+interface StructuredNoteEditorProps {
+  note: StructuredNote;
+  // Shown for reference while editing
+  transcript?: string;
+  onClose: () => void;
+  onSave: (note: StructuredNote) => void;
+}
+
+// Value a new list item starts with
+function emptyValue(field: TemplateFieldSchema): unknown {
+  switch (field.type) {
+    case "string":
+      return field.enum ? null : "";
+    case "array":
+      return [];
+    case "object":
+      return Object.fromEntries(
+        Object.entries(field.properties).map(([name, property]) => [
+          name,
+          emptyValue(property),
+        ])
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * Edits a structured note section by section
+ * Each section gets the input its field type calls for
+ */
+export function StructuredNoteEditor({
+  note,
+  transcript,
+  onClose,
+  onSave,
+}: StructuredNoteEditorProps) {
+  const [edited, setEdited] = useState<StructuredNote>(note);
+
+  const updateSection = (key: string, value: unknown) =>
+    setEdited((prev) => ({
+      ...prev,
+      sections: prev.sections.map((section) =>
+        section.key === key ? { ...section, value } : section
+      ),
+    }));
+
+  const handleSave = () => {
+    const parsed = structuredNoteSchema.safeParse(edited);
+    if (!parsed.success) {
+      const [first] = formatFieldErrors(parsed.error);
+      toast.error(
+        first.path ? `${first.path}: ${first.message}` : first.message
+      );
+      return;
+    }
+    onSave(parsed.data as StructuredNote);
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={() => onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-card-foreground">
+            Edit {note.title}
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Edit each section of the note.
+          </DialogDescription>
+        </DialogHeader>
+
+        {transcript && (
+          <div>
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">
+              Original Transcript
+            </h3>
+            <div className="bg-muted/20 border border-muted/30 rounded-lg p-3 text-muted-foreground text-sm max-h-[150px] overflow-y-auto">
+              {transcript}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="note-title">Title</Label>
+          <Input
+            id="note-title"
+            value={edited.title}
+            onChange={(e) =>
+              setEdited((prev) => ({ ...prev, title: e.target.value }))
+            }
+          />
+        </div>
+
+        <div className="space-y-4">
+          {edited.sections.map((section) => (
+            <div
+              key={section.key}
+              className="space-y-2 border border-muted/30 rounded-lg p-3"
+            >
+              <Label htmlFor={`note-${section.key}`} className="font-medium">
+                {section.title}
+              </Label>
+              {section.field.description && (
+                <p className="text-xs text-muted-foreground">
+                  {section.field.description}
+                </p>
+              )}
+              <FieldEditor
+                id={`note-${section.key}`}
+                field={section.field}
+                value={section.value}
+                onChange={(value) => updateSection(section.key, value)}
+                // Free text gets the room a single-section note needs
+                large={edited.sections.length === 1}
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            <X className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function FieldEditor({
+  id,
+  field,
+  value,
+  onChange,
+  large,
+}: {
+  id: string;
+  field: TemplateFieldSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  large?: boolean;
+}) {
+  switch (field.type) {
+    case "string":
+      return field.enum ? (
+        <Select
+          value={typeof value === "string" ? value : undefined}
+          onValueChange={onChange}
+        >
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Select..." />
+          </SelectTrigger>
+          <SelectContent>
+            {field.enum.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Textarea
+          id={id}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          className={large ? "min-h-[400px]" : "min-h-[100px]"}
+        />
+      );
+    case "number":
+    case "integer":
+      return (
+        <Input
+          id={id}
+          type="number"
+          step={field.type === "integer" ? 1 : "any"}
+          min={field.minimum}
+          max={field.maximum}
+          value={typeof value === "number" ? value : ""}
+          onChange={(e) =>
+            onChange(e.target.value === "" ? null : Number(e.target.value))
+          }
+        />
+      );
+    case "boolean":
+      return (
+        <Switch
+          id={id}
+          checked={value === true}
+          onCheckedChange={(checked) => onChange(checked)}
+        />
+      );
+    case "array": {
+      const items = Array.isArray(value) ? value : [];
+      return (
+        <div className="space-y-2">
+          {items.map((item, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <div className="flex-1">
+                <FieldEditor
+                  id={`${id}-${index}`}
+                  field={field.items}
+                  value={item}
+                  onChange={(next) =>
+                    onChange(items.map((v, i) => (i === index ? next : v)))
+                  }
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Remove item"
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...items, emptyValue(field.items)])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add item
+          </Button>
+        </div>
+      );
+    }
+    case "object": {
+      const values =
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)
+          : {};
+      return (
+        <div className="space-y-3 border-l-2 border-muted pl-3">
+          {Object.entries(field.properties).map(([name, property]) => (
+            <div key={name} className="space-y-1">
+              <Label htmlFor={`${id}-${name}`} className="text-xs">
+                {property.title || name}
+              </Label>
+              <FieldEditor
+                id={`${id}-${name}`}
+                field={property}
+                value={values[name] ?? null}
+                onChange={(next) => onChange({ ...values, [name]: next })}
+              />
+            </div>
+          ))}
+        </div>
+      );
+    }
+  }
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { toast } from "sonner";
+import {
+  ChevronDown,
+  ChevronUp,
+  ChevronsDown,
+  ChevronsUp,
+  Copy,
+} from "lucide-react";
+import { Button } from "@/src/components/ui/button";
+import { MarkdownRenderer } from "@/src/components/ui/markdown";
+import {
+  isEmptyNoteValue,
+  noteSectionText,
+  type NoteSection,
+} from "@/src/lib/notes/structured-note";
+import type { TemplateFieldSchema } from "@/src/lib/templates/schema";
+
+interface StructuredNoteViewProps {
+  sections: NoteSection[];
+  // Extra buttons shown next to expand/collapse, e.g. an edit button
+  actions?: ReactNode;
+}
+
+/**
+ * Renders a structured note one section at a time
+ * Sections can be collapsed and copied individually
+ */
+export function StructuredNoteView({
+  sections,
+  actions,
+}: StructuredNoteViewProps) {
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const allExpanded = sections.every((section) => !collapsed[section.key]);
+
+  const toggleAll = () =>
+    setCollapsed(
+      allExpanded
+        ? Object.fromEntries(sections.map((section) => [section.key, true]))
+        : {}
+    );
+
+  const copySection = (section: NoteSection) => {
+    navigator.clipboard.writeText(
+      `## ${section.title}\n${noteSectionText(section)}`
+    );
+    toast.success(`${section.title} copied to clipboard`);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-end gap-1">
+        {sections.length > 1 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={toggleAll}
+            className="h-7 px-2 text-xs text-muted-foreground"
+            title={allExpanded ? "Collapse all sections" : "Expand all sections"}
+          >
+            {allExpanded ? (
+              <ChevronsUp className="h-3 w-3 mr-1" />
+            ) : (
+              <ChevronsDown className="h-3 w-3 mr-1" />
+            )}
+            {allExpanded ? "Collapse" : "Expand"}
+          </Button>
+        )}
+        {actions}
+      </div>
+
+      {sections.map((section) => {
+        const isExpanded = !collapsed[section.key];
+        return (
+          <div
+            key={section.key}
+            className="border border-muted/30 rounded-lg overflow-hidden w-full"
+          >
+            <div
+              className="flex items-center justify-between bg-muted/40 px-3 py-2 cursor-pointer"
+              onClick={() =>
+                setCollapsed((prev) => ({
+                  ...prev,
+                  [section.key]: isExpanded,
+                }))
+              }
+            >
+              <h4
+                className="text-muted-foreground text-sm font-medium"
+                title={section.field.description}
+              >
+                {section.title}
+              </h4>
+              <div className="flex items-center">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 text-xs text-muted-foreground"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    copySection(section);
+                  }}
+                >
+                  <Copy className="h-3 w-3 mr-1" />
+                  Copy
+                </Button>
+                {isExpanded ? (
+                  <ChevronUp className="h-4 w-4 text-card-foreground" />
+                ) : (
+                  <ChevronDown className="h-4 w-4 text-card-foreground" />
+                )}
+              </div>
+            </div>
+            {isExpanded && (
+              <div className="p-3 text-muted-foreground text-sm">
+                <NoteValue field={section.field} value={section.value} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function NoteValue({
+  field,
+  value,
+}: {
+  field: TemplateFieldSchema;
+  value: unknown;
+}) {
+  if (isEmptyNoteValue(value)) {
+    return <p className="italic text-muted-foreground/70">Not recorded</p>;
+  }
+
+  switch (field.type) {
+    case "string":
+      return (
+        <MarkdownRenderer
+          content={String(value)}
+          className="text-muted-foreground"
+        />
+      );
+    case "number":
+    case "integer":
+      return <p>{String(value)}</p>;
+    case "boolean":
+      return <p>{value ? "Yes" : "No"}</p>;
+    case "array":
+      return (
+        <ul className="list-disc space-y-1 pl-5">
+          {(value as unknown[]).map((item, index) => (
+            <li key={index}>
+              <NoteValue field={field.items} value={item} />
+            </li>
+          ))}
+        </ul>
+      );
+    case "object":
+      return (
+        <dl className="space-y-2">
+          {Object.entries(field.properties).map(([name, property]) => (
+            <div key={name}>
+              <dt className="text-xs font-medium uppercase tracking-wide text-muted-foreground/80">
+                {property.title || name}
+              </dt>
+              <dd>
+                <NoteValue
+                  field={property}
+                  value={(value as Record<string, unknown>)[name]}
+                />
+              </dd>
+            </div>
+          ))}
+        </dl>
+      );
+  }
+}
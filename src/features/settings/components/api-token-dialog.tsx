@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/src/components/ui/button";
+import { Checkbox } from "@/src/components/ui/checkbox";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import { createPersonalAccessToken } from "@/app/actions";
+import type { ApiTokenScope } from "@/app/actions/types";
+import {
+  API_TOKEN_SCOPES,
+  API_TOKEN_SCOPE_CATALOG,
+} from "@/src/lib/api/scopes";
+
+// Lifetimes offered for new tokens, in days; "never" does not expire
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+interface ApiTokenDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called with the token, which is only available right after creation
+  onCreated: (token: string) => void;
+}
+
+/**
+ * Creates a personal access token: its name, scopes and lifetime
+ */
+export function ApiTokenDialog({
+  open,
+  onOpenChange,
+  onCreated,
+}: ApiTokenDialogProps) {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [expiry, setExpiry] = useState("90");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setName("");
+    setScopes([]);
+    setExpiry("90");
+    setIsSaving(false);
+  }, [open]);
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(
+      checked ? [...scopes, scope] : scopes.filter((item) => item !== scope)
+    );
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    const result = await createPersonalAccessToken({
+      name: name.trim(),
+      // Kept in catalogue order
+      scopes: API_TOKEN_SCOPES.filter((scope) => scopes.includes(scope)),
+      expiresInDays: expiry === "never" ? null : Number(expiry),
+    });
+    setIsSaving(false);
+
+    if (!result.success || !result.secret) {
+      toast.error(result.error || "Failed to create access token");
+      return;
+    }
+    onOpenChange(false);
+    onCreated(result.secret);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Access Token</DialogTitle>
+          <DialogDescription>
+            The token can do what you can in this clinic, limited to the scopes
+            you pick.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-token-name">Name</Label>
+            <Input
+              id="api-token-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="What uses this token"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="api-token-expiry">Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger id="api-token-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">Scopes</h3>
+            {API_TOKEN_SCOPES.map((scope) => (
+              <div key={scope} className="flex items-start gap-3">
+                <Checkbox
+                  id={`api-token-scope-${scope}`}
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) =>
+                    toggleScope(scope, checked === true)
+                  }
+                />
+                <div className="space-y-0.5">
+                  <Label htmlFor={`api-token-scope-${scope}`}>
+                    {API_TOKEN_SCOPE_CATALOG[scope].label}{" "}
+                    <code className="text-xs text-muted-foreground">
+                      {scope}
+                    </code>
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    {API_TOKEN_SCOPE_CATALOG[scope].description}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={isSaving || !name.trim() || scopes.length === 0}
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Token
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
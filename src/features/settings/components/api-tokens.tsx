@@ -0,0 +1,270 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Copy, ExternalLink, Loader2, Plus, Trash2 } from "lucide-react";
+
+import { Badge } from "@/src/components/ui/badge";
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/src/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/src/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/src/components/ui/table";
+import {
+  getPersonalAccessTokens,
+  revokePersonalAccessToken,
+} from "@/app/actions";
+import type { PersonalAccessToken } from "@/app/actions/types";
+import { API_TOKEN_SCOPE_CATALOG } from "@/src/lib/api/scopes";
+import { ApiTokenDialog } from "./api-token-dialog";
+
+const OPENAPI_PATH = "/api/v1/openapi.json";
+
+function TokenStatus({ token }: { token: PersonalAccessToken }) {
+  if (token.revoked_at) {
+    return <Badge variant="destructive">Revoked</Badge>;
+  }
+  if (token.expires_at && new Date(token.expires_at) <= new Date()) {
+    return <Badge variant="outline">Expired</Badge>;
+  }
+  return <Badge variant="secondary">Active</Badge>;
+}
+
+const formatDate = (value: string | null, fallback: string) =>
+  value ? new Date(value).toLocaleDateString() : fallback;
+
+/**
+ * The user's personal access tokens for the REST API in the active clinic
+ */
+export function ApiTokens() {
+  const [tokens, setTokens] = useState<PersonalAccessToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreatorOpen, setIsCreatorOpen] = useState(false);
+  const [revoking, setRevoking] = useState<PersonalAccessToken | null>(null);
+  // A token shown once after it is created
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getPersonalAccessTokens();
+
+    if (result.success) {
+      setTokens(result.tokens || []);
+    } else {
+      toast.error(result.error || "Failed to load access tokens");
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const handleCreated = (token: string) => {
+    setSecret(token);
+    loadTokens();
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) {
+      return;
+    }
+    const result = await revokePersonalAccessToken(revoking.id);
+    setRevoking(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to revoke access token");
+      return;
+    }
+    toast.success("Access token revoked");
+    loadTokens();
+  };
+
+  const copySecret = async () => {
+    if (secret) {
+      await navigator.clipboard.writeText(secret);
+      toast.success("Token copied");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Personal Access Tokens</CardTitle>
+            <CardDescription>
+              Tokens let scripts and other systems use the REST API as you, in
+              this clinic. See the{" "}
+              <a
+                href={OPENAPI_PATH}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-flex items-center gap-1 underline"
+              >
+                OpenAPI description
+                <ExternalLink className="h-3 w-3" />
+              </a>{" "}
+              for the endpoints.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setIsCreatorOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Token
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : tokens.length === 0 ? (
+            <p className="py-12 text-center text-muted-foreground">
+              No access tokens yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead>Last used</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[1%]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tokens.map((token) => (
+                  <TableRow key={token.id}>
+                    <TableCell>
+                      <p className="font-medium">{token.name}</p>
+                      <code className="text-xs text-muted-foreground">
+                        {token.token_prefix}…
+                      </code>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {token.scopes.map((scope) => (
+                          <Badge
+                            key={scope}
+                            variant="outline"
+                            title={API_TOKEN_SCOPE_CATALOG[scope].label}
+                          >
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(token.last_used_at, "Never")}
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(token.expires_at, "Never")}
+                    </TableCell>
+                    <TableCell>
+                      <TokenStatus token={token} />
+                    </TableCell>
+                    <TableCell>
+                      {!token.revoked_at && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Revoke token"
+                          onClick={() => setRevoking(token)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ApiTokenDialog
+        open={isCreatorOpen}
+        onOpenChange={setIsCreatorOpen}
+        onCreated={handleCreated}
+      />
+
+      <AlertDialog
+        open={revoking !== null}
+        onOpenChange={(open) => !open && setRevoking(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke this token?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests made with {revoking?.name} are refused from now on. This
+              cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+              onClick={handleRevoke}
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!secret} onOpenChange={() => setSecret(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Access token</DialogTitle>
+            <DialogDescription>
+              Send it as Authorization: Bearer &lt;token&gt;. Copy it now: it is
+              not shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input value={secret || ""} readOnly className="font-mono" />
+            <Button variant="outline" size="icon" onClick={copySecret}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
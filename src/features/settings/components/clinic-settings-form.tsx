@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import { Textarea } from "@/src/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/src/components/ui/card";
+import { getActiveClinic, updateClinic } from "@/app/actions";
+
+/**
+ * The active clinic's name and the letterhead printed on PDF documents
+ * Only owners can make changes
+ */
+export function ClinicSettingsForm() {
+  const [name, setName] = useState("");
+  const [address, setAddress] = useState("");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [canEdit, setCanEdit] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadClinic = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getActiveClinic();
+    if (result.success && result.clinic) {
+      setName(result.clinic.name);
+      setAddress(result.clinic.address || "");
+      setPhone(result.clinic.phone || "");
+      setEmail(result.clinic.email || "");
+      setCanEdit(result.role === "owner");
+    } else {
+      toast.error(result.error || "Failed to load clinic");
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadClinic();
+  }, [loadClinic]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await updateClinic(name, {
+      address: address || null,
+      phone: phone || null,
+      email: email || null,
+    });
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to update clinic");
+      return;
+    }
+    toast.success("Clinic settings saved");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Letterhead</CardTitle>
+        <CardDescription>
+          Printed at the top of PDF notes and case summaries
+          {!canEdit && ". Only clinic owners can change it."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="clinic-name">Clinic name</Label>
+          <Input
+            id="clinic-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={!canEdit}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="clinic-address">Address</Label>
+          <Textarea
+            id="clinic-address"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder={"123 Main Street\nSpringfield, IL 62701"}
+            disabled={!canEdit}
+          />
+        </div>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="clinic-phone">Phone</Label>
+            <Input
+              id="clinic-phone"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              disabled={!canEdit}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="clinic-email">Email</Label>
+            <Input
+              id="clinic-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={!canEdit}
+            />
+          </div>
+        </div>
+      </CardContent>
+      {canEdit && (
+        <CardFooter className="justify-end">
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
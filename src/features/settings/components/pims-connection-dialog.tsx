@@ -0,0 +1,282 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import { Switch } from "@/src/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import { savePimsConnection } from "@/app/actions";
+import type {
+  PimsAdapterId,
+  PimsConnection,
+  PimsMapping,
+} from "@/app/actions/types";
+import {
+  PIMS_ADAPTERS,
+  PIMS_ADAPTER_IDS,
+  resolvePimsMapping,
+} from "@/src/lib/pims/catalog";
+
+interface PimsConnectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The connection to edit; a new one when null
+  connection: PimsConnection | null;
+  onSaved: () => void;
+}
+
+/**
+ * Creates or edits a PIMS connection: adapter, endpoint, credentials and
+ * the adapter's field mapping
+ */
+export function PimsConnectionDialog({
+  open,
+  onOpenChange,
+  connection,
+  onSaved,
+}: PimsConnectionDialogProps) {
+  const [name, setName] = useState("");
+  const [adapter, setAdapter] = useState<PimsAdapterId>("fhir_r4");
+  const [endpointUrl, setEndpointUrl] = useState("");
+  // Undefined keeps the saved header; empty removes it
+  const [authHeader, setAuthHeader] = useState<string | undefined>();
+  const [mapping, setMapping] = useState<PimsMapping>(
+    resolvePimsMapping("fhir_r4", {})
+  );
+  const [enabled, setEnabled] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setName(connection?.name || "");
+    setAdapter(connection?.adapter || "fhir_r4");
+    setEndpointUrl(connection?.endpoint_url || "");
+    setAuthHeader(connection ? undefined : "");
+    setMapping(connection?.mapping || resolvePimsMapping("fhir_r4", {}));
+    setEnabled(connection?.enabled ?? true);
+    setIsSaving(false);
+  }, [open, connection]);
+
+  const handleAdapterChange = (value: PimsAdapterId) => {
+    setAdapter(value);
+    setMapping(resolvePimsMapping(value, {}));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await savePimsConnection({
+      id: connection?.id,
+      name: name.trim(),
+      adapter,
+      endpointUrl: endpointUrl.trim(),
+      authHeader: authHeader === undefined ? undefined : authHeader || null,
+      mapping,
+      enabled,
+    });
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to save PIMS connection");
+      return;
+    }
+    toast.success(`${name.trim()} saved`);
+    onOpenChange(false);
+    onSaved();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {connection ? `Edit ${connection.name}` : "New PIMS Connection"}
+          </DialogTitle>
+          <DialogDescription>
+            Approved documents are posted to the endpoint in the adapter&apos;s
+            format.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="pims-name">Name</Label>
+              <Input
+                id="pims-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Practice management"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pims-adapter">Adapter</Label>
+              <Select
+                value={adapter}
+                onValueChange={(value) =>
+                  handleAdapterChange(value as PimsAdapterId)
+                }
+              >
+                <SelectTrigger id="pims-adapter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PIMS_ADAPTER_IDS.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {PIMS_ADAPTERS[id].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {PIMS_ADAPTERS[adapter].description}
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="pims-endpoint">Endpoint URL</Label>
+            <div className="flex gap-2">
+              <Input
+                id="pims-endpoint"
+                value={endpointUrl}
+                onChange={(e) => setEndpointUrl(e.target.value)}
+                placeholder="https://pims.example.com/fhir"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() =>
+                  setEndpointUrl(`${window.location.origin}/api/pims/mock`)
+                }
+              >
+                Use mock PIMS
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pims-auth">Authorization header</Label>
+            {authHeader === undefined ? (
+              <div className="flex items-center gap-2">
+                <p className="flex-1 text-sm text-muted-foreground">
+                  {connection?.hasAuthHeader
+                    ? "A header is saved and sent with every message."
+                    : "No header is sent."}
+                </p>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setAuthHeader("")}
+                >
+                  {connection?.hasAuthHeader ? "Replace" : "Add"}
+                </Button>
+              </div>
+            ) : (
+              <Input
+                id="pims-auth"
+                type="password"
+                value={authHeader}
+                onChange={(e) => setAuthHeader(e.target.value)}
+                placeholder="Bearer ..."
+                autoComplete="off"
+              />
+            )}
+          </div>
+
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <Label htmlFor="pims-enabled">Enabled</Label>
+              <p className="text-sm text-muted-foreground">
+                Disabled connections are not offered for exports
+              </p>
+            </div>
+            <Switch
+              id="pims-enabled"
+              checked={enabled}
+              onCheckedChange={setEnabled}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">Field mapping</h3>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              {PIMS_ADAPTERS[adapter].mappingFields.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`pims-mapping-${field.key}`}>
+                    {field.label}
+                  </Label>
+                  {field.options ? (
+                    <Select
+                      value={mapping[field.key]}
+                      onValueChange={(value) =>
+                        setMapping({ ...mapping, [field.key]: value })
+                      }
+                    >
+                      <SelectTrigger id={`pims-mapping-${field.key}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {field.options.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      id={`pims-mapping-${field.key}`}
+                      value={mapping[field.key] ?? ""}
+                      onChange={(e) =>
+                        setMapping({ ...mapping, [field.key]: e.target.value })
+                      }
+                      placeholder={field.defaultValue}
+                    />
+                  )}
+                  {field.description && (
+                    <p className="text-xs text-muted-foreground">
+                      {field.description}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !name.trim() || !endpointUrl.trim()}
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
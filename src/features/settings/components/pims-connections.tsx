@@ -0,0 +1,400 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Pencil, Plus, Plug, Trash2 } from "lucide-react";
+
+import { Badge } from "@/src/components/ui/badge";
+import { Button } from "@/src/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/src/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/src/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/src/components/ui/table";
+import {
+  deletePimsConnection,
+  getPimsConnections,
+  getPimsExportLog,
+  getPimsExportRequest,
+  testPimsConnection,
+} from "@/app/actions";
+import type { PimsConnection, PimsExportLogEntry } from "@/app/actions/types";
+import { PIMS_ADAPTERS } from "@/src/lib/pims/catalog";
+import { PimsConnectionDialog } from "./pims-connection-dialog";
+
+// Titles of the documents an audit entry carried
+function documentTitles(entry: PimsExportLogEntry) {
+  const documents = Array.isArray(entry.documents)
+    ? (entry.documents as Array<{ title?: string | null }>)
+    : [];
+  return documents.map((document) => document.title || "Deleted document");
+}
+
+/**
+ * The clinic's PIMS connections and the audit of every message sent to them
+ * Only owners can add, change, test or delete connections
+ */
+export function PimsConnections() {
+  const [connections, setConnections] = useState<PimsConnection[]>([]);
+  const [log, setLog] = useState<PimsExportLogEntry[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<PimsConnection | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [deleting, setDeleting] = useState<PimsConnection | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<PimsExportLogEntry | null>(null);
+  // The message of the entry being viewed, loaded when it is opened
+  const [requestBody, setRequestBody] = useState<string | null>(null);
+
+  const loadConnections = useCallback(async () => {
+    setIsLoading(true);
+    const [connectionsResult, logResult] = await Promise.all([
+      getPimsConnections(),
+      getPimsExportLog(),
+    ]);
+
+    if (connectionsResult.success) {
+      setConnections(connectionsResult.connections || []);
+      setCanManage(!!connectionsResult.canManage);
+    } else {
+      toast.error(connectionsResult.error || "Failed to load PIMS connections");
+    }
+    if (logResult.success) {
+      setLog(logResult.log || []);
+    } else {
+      toast.error(logResult.error || "Failed to load PIMS export log");
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadConnections();
+  }, [loadConnections]);
+
+  const viewEntry = async (entry: PimsExportLogEntry) => {
+    setViewing(entry);
+    setRequestBody(null);
+
+    const result = await getPimsExportRequest(entry.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to load the message");
+      return;
+    }
+    setRequestBody(result.requestBody ?? "");
+  };
+
+  const handleTest = async (connection: PimsConnection) => {
+    setTestingId(connection.id);
+    const result = await testPimsConnection(connection.id);
+    setTestingId(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to test PIMS connection");
+      return;
+    }
+    if (result.delivered) {
+      toast.success(`${connection.name} accepted the test message`);
+    } else {
+      toast.error(`${connection.name}: ${result.error}`);
+    }
+    loadConnections();
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) {
+      return;
+    }
+    const result = await deletePimsConnection(deleting.id);
+    setDeleting(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to delete PIMS connection");
+      return;
+    }
+    toast.success("PIMS connection deleted");
+    loadConnections();
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Connections</CardTitle>
+            <CardDescription>
+              Practice-management systems approved documents are sent to
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button
+              size="sm"
+              onClick={() => {
+                setEditing(null);
+                setIsEditorOpen(true);
+              }}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Connection
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : connections.length === 0 ? (
+            <p className="py-12 text-center text-muted-foreground">
+              No PIMS connections yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Adapter</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canManage && <TableHead className="w-[1%]" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {connections.map((connection) => (
+                  <TableRow key={connection.id}>
+                    <TableCell className="font-medium">
+                      {connection.name}
+                    </TableCell>
+                    <TableCell>
+                      {PIMS_ADAPTERS[connection.adapter].label}
+                    </TableCell>
+                    <TableCell className="max-w-[280px] truncate text-muted-foreground">
+                      {connection.endpoint_url}
+                    </TableCell>
+                    <TableCell>
+                      {connection.enabled ? (
+                        <Badge variant="secondary">Enabled</Badge>
+                      ) : (
+                        <Badge variant="outline">Disabled</Badge>
+                      )}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={testingId !== null}
+                            onClick={() => handleTest(connection)}
+                          >
+                            {testingId === connection.id ? (
+                              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Plug className="mr-1 h-4 w-4" />
+                            )}
+                            Test
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Edit connection"
+                            onClick={() => {
+                              setEditing(connection);
+                              setIsEditorOpen(true);
+                            }}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete connection"
+                            onClick={() => setDeleting(connection)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Export Log</CardTitle>
+          <CardDescription>
+            Every message sent to a PIMS, with the answer it got
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : log.length === 0 ? (
+            <p className="py-12 text-center text-muted-foreground">
+              Nothing has been sent yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Connection</TableHead>
+                  <TableHead>Documents</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[1%]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {log.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>
+                      {new Date(entry.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>{entry.connection_name}</TableCell>
+                    <TableCell>
+                      {entry.is_test
+                        ? "Test message"
+                        : documentTitles(entry).join(", ")}
+                    </TableCell>
+                    <TableCell>{entry.exporter || "Former member"}</TableCell>
+                    <TableCell>
+                      {entry.status === "delivered" ? (
+                        <Badge variant="secondary">Delivered</Badge>
+                      ) : (
+                        <Badge variant="destructive">Failed</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => viewEntry(entry)}
+                      >
+                        View
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PimsConnectionDialog
+        open={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        connection={editing}
+        onSaved={loadConnections}
+      />
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Documents can no longer be sent to this PIMS. Its entries in the
+              export log are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+              onClick={handleDelete}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!viewing} onOpenChange={() => setViewing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewing?.connection_name}</DialogTitle>
+            <DialogDescription>
+              {viewing &&
+                [
+                  PIMS_ADAPTERS[viewing.adapter].label,
+                  new Date(viewing.created_at).toLocaleString(),
+                  viewing.response_status !== null
+                    ? `HTTP ${viewing.response_status}`
+                    : null,
+                  `${viewing.duration_ms} ms`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && (
+            <div className="space-y-4">
+              {viewing.error && (
+                <p className="text-sm text-destructive">{viewing.error}</p>
+              )}
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Request</h3>
+                {requestBody === null ? (
+                  <div className="flex items-center justify-center py-6">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : (
+                  <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+                    {requestBody.replace(/\r(?!\n)/g, "\n")}
+                  </pre>
+                )}
+              </div>
+              {viewing.response_body !== null && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium">Response</h3>
+                  <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+                    {viewing.response_body.replace(/\r(?!\n)/g, "\n") ||
+                      "(empty)"}
+                  </pre>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,463 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import { Textarea } from "@/src/components/ui/textarea";
+import { Badge } from "@/src/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/src/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import {
+  getTranscriptionSettings,
+  resetUserTranscriptionSettings,
+  updateClinicTranscriptionSettings,
+  updateUserTranscriptionSettings,
+} from "@/app/actions";
+import type {
+  TranscriptionSettings,
+  TranscriptionSettingsProfile,
+  TranscriptionSettingsRow,
+  TranscriptionSettingsState,
+} from "@/app/actions/types";
+import {
+  DEFAULT_TRANSCRIPTION_SETTINGS,
+  ENDPOINTING_MS_RANGE,
+  MAX_KEYTERMS,
+  TRANSCRIPTION_LANGUAGES,
+  TRANSCRIPTION_MODELS,
+  UTTERANCE_END_MS_RANGE,
+  parseKeyterms,
+  resolveTranscriptionSettings,
+} from "@/src/lib/transcription/settings";
+
+// Select value standing in for a null (inherited) field
+const INHERIT = "inherit";
+
+const TOGGLES = [
+  {
+    key: "diarize",
+    label: "Speaker diarization",
+    description: "Separate the conversation by speaker",
+  },
+  {
+    key: "numerals",
+    label: "Numerals",
+    description: "Write numbers as digits, e.g. doses and weights",
+  },
+  {
+    key: "smart_format",
+    label: "Smart formatting",
+    description: "Punctuation, paragraphs and formatted dates",
+  },
+  {
+    key: "filler_words",
+    label: "Filler words",
+    description: "Keep words such as \"um\" and \"uh\"",
+  },
+] as const;
+
+// Editable copy of a profile; numbers and keyterms are kept as typed text
+interface ProfileDraft {
+  model: string;
+  language: string;
+  diarize: string;
+  numerals: string;
+  smart_format: string;
+  filler_words: string;
+  keyterms: string;
+  utterance_end_ms: string;
+  endpointing_ms: string;
+}
+
+function toDraft(row: TranscriptionSettingsRow | null): ProfileDraft {
+  const toggle = (value: boolean | null | undefined) =>
+    value === null || value === undefined ? INHERIT : String(value);
+
+  return {
+    model: row?.model || INHERIT,
+    language: row?.language || INHERIT,
+    diarize: toggle(row?.diarize),
+    numerals: toggle(row?.numerals),
+    smart_format: toggle(row?.smart_format),
+    filler_words: toggle(row?.filler_words),
+    keyterms: (row?.keyterms || []).join("\n"),
+    utterance_end_ms: row?.utterance_end_ms?.toString() || "",
+    endpointing_ms: row?.endpointing_ms?.toString() || "",
+  };
+}
+
+function fromDraft(draft: ProfileDraft): TranscriptionSettingsProfile {
+  const option = (value: string) => (value === INHERIT ? null : value);
+  const toggle = (value: string) => (value === INHERIT ? null : value === "true");
+  const number = (value: string) =>
+    value.trim() === "" ? null : Number(value.trim());
+
+  return {
+    model: option(draft.model),
+    language: option(draft.language),
+    diarize: toggle(draft.diarize),
+    numerals: toggle(draft.numerals),
+    smart_format: toggle(draft.smart_format),
+    filler_words: toggle(draft.filler_words),
+    keyterms: parseKeyterms(draft.keyterms),
+    utterance_end_ms: number(draft.utterance_end_ms),
+    endpointing_ms: number(draft.endpointing_ms),
+  };
+}
+
+function optionLabel(
+  options: ReadonlyArray<{ value: string; label: string }>,
+  value: string
+) {
+  return options.find((o) => o.value === value)?.label || value;
+}
+
+interface ProfileEditorProps {
+  title: string;
+  description: string;
+  row: TranscriptionSettingsRow | null;
+  // Settings a null field falls back to
+  inherited: TranscriptionSettings;
+  inheritLabel: string;
+  disabled?: boolean;
+  onSave: (profile: TranscriptionSettingsProfile) => Promise<boolean>;
+  onReset?: () => Promise<void>;
+}
+
+function ProfileEditor({
+  title,
+  description,
+  row,
+  inherited,
+  inheritLabel,
+  disabled,
+  onSave,
+  onReset,
+}: ProfileEditorProps) {
+  const [draft, setDraft] = useState<ProfileDraft>(() => toDraft(row));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(toDraft(row));
+  }, [row]);
+
+  const update = (key: keyof ProfileDraft, value: string) =>
+    setDraft((current) => ({ ...current, [key]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const saved = await onSave(fromDraft(draft));
+    setIsSaving(false);
+    if (saved) {
+      toast.success(`${title} saved`);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!onReset) return;
+    setIsSaving(true);
+    await onReset();
+    setIsSaving(false);
+  };
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Model</Label>
+              <Select
+                value={draft.model}
+                onValueChange={(value) => update("model", value)}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={INHERIT}>
+                    {inheritLabel} (
+                    {optionLabel(TRANSCRIPTION_MODELS, inherited.model)})
+                  </SelectItem>
+                  {TRANSCRIPTION_MODELS.map((model) => (
+                    <SelectItem key={model.value} value={model.value}>
+                      {model.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select
+                value={draft.language}
+                onValueChange={(value) => update("language", value)}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={INHERIT}>
+                    {inheritLabel} (
+                    {optionLabel(TRANSCRIPTION_LANGUAGES, inherited.language)})
+                  </SelectItem>
+                  {TRANSCRIPTION_LANGUAGES.map((language) => (
+                    <SelectItem key={language.value} value={language.value}>
+                      {language.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {TOGGLES.map((toggle) => (
+              <div key={toggle.key} className="space-y-2">
+                <Label>{toggle.label}</Label>
+                <Select
+                  value={draft[toggle.key]}
+                  onValueChange={(value) => update(toggle.key, value)}
+                  disabled={disabled}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={INHERIT}>
+                      {inheritLabel} ({inherited[toggle.key] ? "On" : "Off"})
+                    </SelectItem>
+                    <SelectItem value="true">On</SelectItem>
+                    <SelectItem value="false">Off</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {toggle.description}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`${title}-utterance-end`}>
+                Utterance end (ms)
+              </Label>
+              <Input
+                id={`${title}-utterance-end`}
+                type="number"
+                min={UTTERANCE_END_MS_RANGE.min}
+                max={UTTERANCE_END_MS_RANGE.max}
+                step={100}
+                placeholder={`${inheritLabel}: ${inherited.utterance_end_ms}`}
+                value={draft.utterance_end_ms}
+                onChange={(e) => update("utterance_end_ms", e.target.value)}
+                disabled={disabled}
+              />
+              <p className="text-xs text-muted-foreground">
+                Silence that ends a speaker's turn
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${title}-endpointing`}>Endpointing (ms)</Label>
+              <Input
+                id={`${title}-endpointing`}
+                type="number"
+                min={ENDPOINTING_MS_RANGE.min}
+                max={ENDPOINTING_MS_RANGE.max}
+                step={10}
+                placeholder={`${inheritLabel}: ${inherited.endpointing_ms ?? "Deepgram default"}`}
+                value={draft.endpointing_ms}
+                onChange={(e) => update("endpointing_ms", e.target.value)}
+                disabled={disabled}
+              />
+              <p className="text-xs text-muted-foreground">
+                Pause before live text is finalized
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`${title}-keyterms`}>Vocabulary</Label>
+            <Textarea
+              id={`${title}-keyterms`}
+              rows={4}
+              placeholder="Drug names, breeds and other terms, one per line"
+              value={draft.keyterms}
+              onChange={(e) => update("keyterms", e.target.value)}
+              disabled={disabled}
+            />
+            <p className="text-xs text-muted-foreground">
+              Up to {MAX_KEYTERMS} terms, added to any terms from the clinic
+            </p>
+          </div>
+        </CardContent>
+        {!disabled && (
+          <CardFooter className="flex justify-end gap-2">
+            {onReset && row && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleReset}
+                disabled={isSaving}
+              >
+                Use clinic defaults
+              </Button>
+            )}
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </CardFooter>
+        )}
+      </form>
+    </Card>
+  );
+}
+
+export function TranscriptionSettingsForm() {
+  const [state, setState] = useState<TranscriptionSettingsState | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSettings = useCallback(async () => {
+    const result = await getTranscriptionSettings();
+    if (!result.success || !result.settings) {
+      toast.error(result.error || "Failed to load transcription settings");
+      setIsLoading(false);
+      return;
+    }
+
+    setState(result.settings);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const handleSaveClinic = async (profile: TranscriptionSettingsProfile) => {
+    const result = await updateClinicTranscriptionSettings(profile);
+    if (!result.success) {
+      toast.error(result.error || "Failed to save clinic settings");
+      return false;
+    }
+    await loadSettings();
+    return true;
+  };
+
+  const handleSaveUser = async (profile: TranscriptionSettingsProfile) => {
+    const result = await updateUserTranscriptionSettings(profile);
+    if (!result.success) {
+      toast.error(result.error || "Failed to save your settings");
+      return false;
+    }
+    await loadSettings();
+    return true;
+  };
+
+  const handleResetUser = async () => {
+    const result = await resetUserTranscriptionSettings();
+    if (!result.success) {
+      toast.error(result.error || "Failed to reset your settings");
+      return;
+    }
+    toast.success("Your settings now follow the clinic defaults");
+    await loadSettings();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!state) {
+    return null;
+  }
+
+  const { active } = state;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>In effect</CardTitle>
+          <CardDescription>
+            Used for live recording and uploaded recordings
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-2">
+          <Badge variant="secondary">
+            {optionLabel(TRANSCRIPTION_MODELS, active.model)}
+          </Badge>
+          <Badge variant="secondary">
+            {optionLabel(TRANSCRIPTION_LANGUAGES, active.language)}
+          </Badge>
+          {TOGGLES.filter((toggle) => active[toggle.key]).map((toggle) => (
+            <Badge key={toggle.key} variant="secondary">
+              {toggle.label}
+            </Badge>
+          ))}
+          <Badge variant="secondary">
+            Utterance end {active.utterance_end_ms} ms
+          </Badge>
+          {active.keyterms.length > 0 && (
+            <Badge variant="secondary">
+              {active.keyterms.length} vocabulary terms
+            </Badge>
+          )}
+        </CardContent>
+      </Card>
+
+      <ProfileEditor
+        title="My settings"
+        description="Overrides for your own recordings; leave a field on the clinic default to follow the clinic"
+        row={state.user}
+        inherited={resolveTranscriptionSettings(state.clinic)}
+        inheritLabel="Clinic default"
+        onSave={handleSaveUser}
+        onReset={handleResetUser}
+      />
+
+      <ProfileEditor
+        title="Clinic defaults"
+        description={
+          state.canEditClinic
+            ? "Defaults for everyone in the clinic"
+            : "Defaults for everyone in the clinic, managed by clinic owners"
+        }
+        row={state.clinic}
+        inherited={DEFAULT_TRANSCRIPTION_SETTINGS}
+        inheritLabel="Default"
+        disabled={!state.canEditClinic}
+        onSave={handleSaveClinic}
+      />
+    </div>
+  );
+}
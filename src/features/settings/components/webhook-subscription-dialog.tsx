@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/src/components/ui/button";
+import { Checkbox } from "@/src/components/ui/checkbox";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import { Switch } from "@/src/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import { saveWebhookSubscription } from "@/app/actions";
+import type { WebhookEvent, WebhookSubscription } from "@/app/actions/types";
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_CATALOG,
+} from "@/src/lib/webhooks/catalog";
+
+interface WebhookSubscriptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The subscription to edit; a new one when null
+  subscription: WebhookSubscription | null;
+  // Called with the signing secret when a subscription is created
+  onSaved: (secret?: string) => void;
+}
+
+/**
+ * Creates or edits a webhook subscription: its endpoint and the events sent
+ * to it
+ */
+export function WebhookSubscriptionDialog({
+  open,
+  onOpenChange,
+  subscription,
+  onSaved,
+}: WebhookSubscriptionDialogProps) {
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setUrl(subscription?.url || "");
+    setDescription(subscription?.description || "");
+    setEvents(subscription?.events || []);
+    setEnabled(subscription?.enabled ?? true);
+    setIsSaving(false);
+  }, [open, subscription]);
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents(
+      checked ? [...events, event] : events.filter((item) => item !== event)
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await saveWebhookSubscription({
+      id: subscription?.id,
+      url: url.trim(),
+      description: description.trim() || null,
+      // Kept in catalogue order
+      events: WEBHOOK_EVENTS.filter((event) => events.includes(event)),
+      enabled,
+    });
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to save webhook subscription");
+      return;
+    }
+    toast.success("Webhook subscription saved");
+    onOpenChange(false);
+    onSaved(result.secret);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {subscription ? "Edit Webhook" : "New Webhook"}
+          </DialogTitle>
+          <DialogDescription>
+            The events you pick are posted to the endpoint as signed JSON.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">Endpoint URL</Label>
+            <Input
+              id="webhook-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/webhooks/odisai"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="webhook-description">Description</Label>
+            <Input
+              id="webhook-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What receives these events"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">Events</h3>
+            {WEBHOOK_EVENTS.map((event) => (
+              <div key={event} className="flex items-start gap-3">
+                <Checkbox
+                  id={`webhook-event-${event}`}
+                  checked={events.includes(event)}
+                  onCheckedChange={(checked) =>
+                    toggleEvent(event, checked === true)
+                  }
+                />
+                <div className="space-y-0.5">
+                  <Label htmlFor={`webhook-event-${event}`}>
+                    {WEBHOOK_EVENT_CATALOG[event].label}{" "}
+                    <code className="text-xs text-muted-foreground">
+                      {event}
+                    </code>
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    {WEBHOOK_EVENT_CATALOG[event].description}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <Label htmlFor="webhook-enabled">Enabled</Label>
+              <p className="text-sm text-muted-foreground">
+                Disabled webhooks are not sent new events
+              </p>
+            </div>
+            <Switch
+              id="webhook-enabled"
+              checked={enabled}
+              onCheckedChange={setEnabled}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !url.trim() || events.length === 0}
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
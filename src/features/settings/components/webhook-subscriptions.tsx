@@ -0,0 +1,517 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Copy,
+  KeyRound,
+  Loader2,
+  Pencil,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  Trash2,
+} from "lucide-react";
+
+import { Badge } from "@/src/components/ui/badge";
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/src/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/src/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/src/components/ui/table";
+import {
+  deleteWebhookSubscription,
+  getWebhookDeliveries,
+  getWebhookSubscriptions,
+  redeliverWebhook,
+  rotateWebhookSecret,
+} from "@/app/actions";
+import type { WebhookDelivery, WebhookSubscription } from "@/app/actions/types";
+import { WEBHOOK_EVENT_CATALOG } from "@/src/lib/webhooks/catalog";
+import { WebhookSubscriptionDialog } from "./webhook-subscription-dialog";
+
+function DeliveryStatus({ delivery }: { delivery: WebhookDelivery }) {
+  if (delivery.status === "delivered") {
+    return <Badge variant="secondary">Delivered</Badge>;
+  }
+  if (delivery.status === "pending") {
+    return <Badge variant="outline">Retrying</Badge>;
+  }
+  return <Badge variant="destructive">Failed</Badge>;
+}
+
+/**
+ * The clinic's webhook subscriptions and the log of every delivery
+ * Only owners can add, change or delete subscriptions and redeliver events
+ */
+export function WebhookSubscriptions() {
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<WebhookSubscription | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [deleting, setDeleting] = useState<WebhookSubscription | null>(null);
+  const [rotating, setRotating] = useState<WebhookSubscription | null>(null);
+  // A secret shown once after it is created or rotated
+  const [secret, setSecret] = useState<string | null>(null);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<WebhookDelivery | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    const result = await getWebhookDeliveries();
+    if (result.success) {
+      setDeliveries(result.deliveries || []);
+    } else {
+      toast.error(result.error || "Failed to load webhook deliveries");
+    }
+  }, []);
+
+  const loadSubscriptions = useCallback(async () => {
+    setIsLoading(true);
+    const [subscriptionsResult] = await Promise.all([
+      getWebhookSubscriptions(),
+      loadDeliveries(),
+    ]);
+
+    if (subscriptionsResult.success) {
+      setSubscriptions(subscriptionsResult.subscriptions || []);
+      setCanManage(!!subscriptionsResult.canManage);
+    } else {
+      toast.error(
+        subscriptionsResult.error || "Failed to load webhook subscriptions"
+      );
+    }
+    setIsLoading(false);
+  }, [loadDeliveries]);
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, [loadSubscriptions]);
+
+  const subscriptionUrl = (subscriptionId: string) =>
+    subscriptions.find((subscription) => subscription.id === subscriptionId)
+      ?.url || "Deleted webhook";
+
+  const handleSaved = (newSecret?: string) => {
+    if (newSecret) {
+      setSecret(newSecret);
+    }
+    loadSubscriptions();
+  };
+
+  const handleRotate = async () => {
+    if (!rotating) {
+      return;
+    }
+    const result = await rotateWebhookSecret(rotating.id);
+    setRotating(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to rotate webhook secret");
+      return;
+    }
+    setSecret(result.secret || null);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) {
+      return;
+    }
+    const result = await deleteWebhookSubscription(deleting.id);
+    setDeleting(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to delete webhook subscription");
+      return;
+    }
+    toast.success("Webhook deleted");
+    loadSubscriptions();
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery.id);
+    const result = await redeliverWebhook(delivery.id);
+    setRedeliveringId(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to redeliver webhook");
+      return;
+    }
+    if (result.delivery?.status === "delivered") {
+      toast.success(`Redelivered ${delivery.event}`);
+    } else {
+      toast.error(`Redelivery failed: ${result.delivery?.error}`);
+    }
+    loadDeliveries();
+  };
+
+  const copySecret = async () => {
+    if (secret) {
+      await navigator.clipboard.writeText(secret);
+      toast.success("Secret copied");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Endpoints</CardTitle>
+            <CardDescription>
+              Where case events are posted, signed with each endpoint&apos;s
+              secret
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button
+              size="sm"
+              onClick={() => {
+                setEditing(null);
+                setIsEditorOpen(true);
+              }}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Webhook
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : subscriptions.length === 0 ? (
+            <p className="py-12 text-center text-muted-foreground">
+              No webhooks yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canManage && <TableHead className="w-[1%]" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {subscriptions.map((subscription) => (
+                  <TableRow key={subscription.id}>
+                    <TableCell className="max-w-[280px]">
+                      <p className="truncate font-medium">{subscription.url}</p>
+                      {subscription.description && (
+                        <p className="truncate text-sm text-muted-foreground">
+                          {subscription.description}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {subscription.events.map((event) => (
+                          <Badge
+                            key={event}
+                            variant="outline"
+                            title={WEBHOOK_EVENT_CATALOG[event].label}
+                          >
+                            {event}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {subscription.enabled ? (
+                        <Badge variant="secondary">Enabled</Badge>
+                      ) : (
+                        <Badge variant="outline">Disabled</Badge>
+                      )}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Rotate signing secret"
+                            onClick={() => setRotating(subscription)}
+                          >
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Edit webhook"
+                            onClick={() => {
+                              setEditing(subscription);
+                              setIsEditorOpen(true);
+                            }}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete webhook"
+                            onClick={() => setDeleting(subscription)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Deliveries</CardTitle>
+            <CardDescription>
+              Every event sent to an endpoint, with its latest response. Failed
+              deliveries are retried with increasing delays.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadDeliveries}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : deliveries.length === 0 ? (
+            <p className="py-12 text-center text-muted-foreground">
+              No events have been sent yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[1%]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell>
+                      {new Date(delivery.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <code className="text-xs">{delivery.event}</code>
+                      {delivery.redelivery_of && (
+                        <p className="text-xs text-muted-foreground">
+                          Redelivery
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-[220px] truncate text-muted-foreground">
+                      {subscriptionUrl(delivery.subscription_id)}
+                    </TableCell>
+                    <TableCell>
+                      {delivery.response_status !== null
+                        ? `HTTP ${delivery.response_status}`
+                        : delivery.attempts > 0
+                          ? "No response"
+                          : "-"}
+                    </TableCell>
+                    <TableCell>{delivery.attempts}</TableCell>
+                    <TableCell>
+                      <DeliveryStatus delivery={delivery} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setViewing(delivery)}
+                        >
+                          View
+                        </Button>
+                        {canManage && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Redeliver"
+                            disabled={redeliveringId !== null}
+                            onClick={() => handleRedeliver(delivery)}
+                          >
+                            {redeliveringId === delivery.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <RotateCcw className="h-4 w-4" />
+                            )}
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <WebhookSubscriptionDialog
+        open={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        subscription={editing}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this webhook?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.url} will no longer receive events, and its deliveries
+              are removed from the log.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+              onClick={handleDelete}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={rotating !== null}
+        onOpenChange={(open) => !open && setRotating(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Rotate the signing secret?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests to {rotating?.url} are signed with a new secret right
+              away. Signatures made with the old secret stop verifying.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRotate}>Rotate</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!secret} onOpenChange={() => setSecret(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Signing secret</DialogTitle>
+            <DialogDescription>
+              Verify the X-OdisAI-Signature header of every request with this
+              secret. Copy it now: it is not shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input value={secret || ""} readOnly className="font-mono" />
+            <Button variant="outline" size="icon" onClick={copySecret}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewing} onOpenChange={() => setViewing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewing?.event}</DialogTitle>
+            <DialogDescription>
+              {viewing &&
+                [
+                  subscriptionUrl(viewing.subscription_id),
+                  new Date(viewing.created_at).toLocaleString(),
+                  `${viewing.attempts} attempt${viewing.attempts === 1 ? "" : "s"}`,
+                  viewing.next_attempt_at
+                    ? `next at ${new Date(viewing.next_attempt_at).toLocaleTimeString()}`
+                    : null,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && (
+            <div className="space-y-4">
+              {viewing.error && (
+                <p className="text-sm text-destructive">{viewing.error}</p>
+              )}
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Payload</h3>
+                <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+                  {JSON.stringify(viewing.payload, null, 2)}
+                </pre>
+              </div>
+              {viewing.response_body !== null && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium">
+                    Response
+                    {viewing.response_status !== null &&
+                      ` (HTTP ${viewing.response_status}, ${viewing.duration_ms} ms)`}
+                  </h3>
+                  <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+                    {viewing.response_body || "(empty)"}
+                  </pre>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
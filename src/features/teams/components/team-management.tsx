@@ -0,0 +1,350 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Trash2, UserPlus, X } from "lucide-react";
+
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import { Badge } from "@/src/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/src/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/src/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import {
+  getPendingInvitations,
+  getTeamMembers,
+  inviteMember,
+  removeMember,
+  revokeInvitation,
+  updateMemberRole,
+} from "@/app/actions";
+import type {
+  ClinicInvitation,
+  ClinicRole,
+  TeamMember,
+} from "@/app/actions/types";
+import { CLINIC_ROLE_LABELS } from "@/src/lib/constants";
+
+const ROLE_OPTIONS = Object.entries(CLINIC_ROLE_LABELS) as Array<
+  [ClinicRole, string]
+>;
+
+export function TeamManagement() {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invitations, setInvitations] = useState<ClinicInvitation[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [currentRole, setCurrentRole] = useState<ClinicRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Invite form state
+  const [inviteName, setInviteName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<ClinicRole>("veterinarian");
+  const [isInviting, setIsInviting] = useState(false);
+
+  const isOwner = currentRole === "owner";
+
+  const loadTeam = useCallback(async () => {
+    const membersResult = await getTeamMembers();
+    if (!membersResult.success) {
+      toast.error(membersResult.error || "Failed to load team members");
+      setIsLoading(false);
+      return;
+    }
+
+    setMembers(membersResult.members || []);
+    setCurrentUserId(membersResult.currentUserId || null);
+    setCurrentRole(membersResult.currentRole || null);
+
+    // Only owners can see outstanding invitations
+    if (membersResult.currentRole === "owner") {
+      const invitationsResult = await getPendingInvitations();
+      if (invitationsResult.success) {
+        setInvitations(invitationsResult.invitations || []);
+      }
+    }
+
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  const handleRoleChange = async (member: TeamMember, role: ClinicRole) => {
+    const result = await updateMemberRole(member.id, role);
+    if (!result.success) {
+      toast.error(result.error || "Failed to update role");
+      return;
+    }
+    toast.success(`${member.name || member.email} is now ${CLINIC_ROLE_LABELS[role]}`);
+    loadTeam();
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    if (!confirm(`Remove ${member.name || member.email} from the clinic?`)) {
+      return;
+    }
+    const result = await removeMember(member.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to remove member");
+      return;
+    }
+    toast.success("Member removed");
+    loadTeam();
+  };
+
+  const handleRevoke = async (invitation: ClinicInvitation) => {
+    const result = await revokeInvitation(invitation.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to revoke invitation");
+      return;
+    }
+    toast.success(`Invitation to ${invitation.email} revoked`);
+    loadTeam();
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    const result = await inviteMember({
+      email: inviteEmail,
+      name: inviteName || undefined,
+      role: inviteRole,
+    });
+    setIsInviting(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to send invitation");
+      return;
+    }
+
+    toast.success(`Invitation sent to ${inviteEmail}`);
+    setInviteName("");
+    setInviteEmail("");
+    setInviteRole("veterinarian");
+    loadTeam();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Clinic Team Members</CardTitle>
+          <CardDescription>
+            Manage your clinic's team and their roles
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                {isOwner && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map((member) => (
+                <TableRow key={member.id}>
+                  <TableCell>
+                    {member.name || "—"}
+                    {member.userId === currentUserId && (
+                      <Badge variant="secondary" className="ml-2">
+                        You
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{member.email}</TableCell>
+                  <TableCell>
+                    {isOwner ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) =>
+                          handleRoleChange(member, value as ClinicRole)
+                        }
+                      >
+                        <SelectTrigger className="w-[180px]">
+                          <SelectValue placeholder="Select role" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLE_OPTIONS.map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      CLINIC_ROLE_LABELS[member.role]
+                    )}
+                  </TableCell>
+                  {isOwner && (
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemove(member)}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Remove
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {isOwner && invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending Invitations</CardTitle>
+            <CardDescription>
+              Invitations that have not been accepted yet
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => {
+                  const isExpired =
+                    new Date(invitation.expires_at).getTime() < Date.now();
+                  return (
+                    <TableRow key={invitation.id}>
+                      <TableCell>
+                        {invitation.name
+                          ? `${invitation.name} (${invitation.email})`
+                          : invitation.email}
+                      </TableCell>
+                      <TableCell>{CLINIC_ROLE_LABELS[invitation.role]}</TableCell>
+                      <TableCell>
+                        {isExpired ? (
+                          <Badge variant="destructive">Expired</Badge>
+                        ) : (
+                          new Date(invitation.expires_at).toLocaleDateString()
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRevoke(invitation)}
+                        >
+                          <X className="mr-2 h-4 w-4" />
+                          Revoke
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {isOwner && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invite New Team Member</CardTitle>
+            <CardDescription>
+              Send an invitation to a new team member
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form className="space-y-4" onSubmit={handleInvite}>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name</Label>
+                  <Input
+                    id="name"
+                    placeholder="Enter name"
+                    value={inviteName}
+                    onChange={(e) => setInviteName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="Enter email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="role">Role</Label>
+                <Select
+                  value={inviteRole}
+                  onValueChange={(value) => setInviteRole(value as ClinicRole)}
+                >
+                  <SelectTrigger id="role">
+                    <SelectValue placeholder="Select role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLE_OPTIONS.map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" disabled={isInviting}>
+                {isInviting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <UserPlus className="mr-2 h-4 w-4" />
+                )}
+                Send Invitation
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
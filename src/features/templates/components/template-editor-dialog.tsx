@@ -0,0 +1,465 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import { ScrollArea } from "@/src/components/ui/scroll-area";
+import { Textarea } from "@/src/components/ui/textarea";
+import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "@/src/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import type { Json } from "@/database.types";
+import type { Template, TemplateInsert } from "@/app/actions/types";
+import {
+  DEFAULT_LLM_PROVIDER,
+  LLM_PROVIDERS,
+  LLM_PROVIDER_IDS,
+  isLlmProviderId,
+} from "@/src/lib/llm/catalog";
+import { TEMPLATE_TYPES } from "@/src/lib/templates/catalog";
+import {
+  toFieldDrafts,
+  toTemplateSchema,
+  type FieldDraft,
+} from "@/src/lib/templates/field-drafts";
+import {
+  formatFieldErrors,
+  templateSchemaDefinition,
+  type TemplateFieldError,
+  type TemplateSchema,
+} from "@/src/lib/templates/schema";
+import {
+  findVariableErrors,
+  templateVariableScope,
+} from "@/src/lib/templates/variables";
+import { TemplateFieldsBuilder } from "./template-fields-builder";
+import { TemplateTryPanel } from "./template-try-panel";
+import { TemplateVariablesPanel } from "./template-variables-panel";
+
+// Select value standing in for "no provider chosen"
+const DEFAULT_PROVIDER_VALUE = "default";
+
+interface TemplateFormValues {
+  name: string;
+  type: string;
+  key: string;
+  description: string;
+  prompt: string;
+  content: string;
+  provider: string | null;
+  model: string;
+}
+
+const EMPTY_TEMPLATE: TemplateFormValues = {
+  name: "",
+  type: "soap",
+  key: "",
+  description: "",
+  prompt: "",
+  content: "",
+  provider: null,
+  model: "",
+};
+
+export interface TemplateSaveOptions {
+  // Note for the template's changelog
+  changelog?: string;
+  // Existing templates only: false saves a draft version
+  publish?: boolean;
+}
+
+interface TemplateEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edited template; a new one is created without it
+  template?: Template | null;
+  onSubmit: (
+    values: TemplateInsert,
+    options: TemplateSaveOptions
+  ) => Promise<boolean>;
+}
+
+/**
+ * Placeholder problems shown under a text field
+ */
+function VariableErrors({ errors }: { errors: string[] }) {
+  if (errors.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="text-sm text-destructive space-y-1">
+      {errors.map((error) => (
+        <li key={error}>{error}</li>
+      ))}
+    </ul>
+  );
+}
+
+export function TemplateEditorDialog({
+  open,
+  onOpenChange,
+  template,
+  onSubmit,
+}: TemplateEditorDialogProps) {
+  const [values, setValues] = useState<TemplateFormValues>(EMPTY_TEMPLATE);
+  const [fields, setFields] = useState<FieldDraft[]>([]);
+  const [changelog, setChangelog] = useState("");
+  const [tab, setTab] = useState("details");
+  const [fieldErrors, setFieldErrors] = useState<TemplateFieldError[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  // Text field that clicked variables are added to
+  const [variableTarget, setVariableTarget] = useState<"prompt" | "content">(
+    "prompt"
+  );
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues(
+        template
+          ? {
+              name: template.name || "",
+              type: template.type || "",
+              key: template.key || "",
+              description: template.description || "",
+              prompt: template.prompt || "",
+              content: template.content || "",
+              provider: template.provider,
+              model: template.model || "",
+            }
+          : EMPTY_TEMPLATE
+      );
+      setFields(
+        toFieldDrafts((template?.output_schema as TemplateSchema | null) ?? null)
+      );
+      setChangelog("");
+      setTab("details");
+      setFieldErrors([]);
+      setVariableTarget("prompt");
+    }
+  }, [open, template]);
+
+  const setField = <K extends keyof TemplateFormValues>(
+    field: K,
+    value: TemplateFormValues[K]
+  ) => setValues((prev) => ({ ...prev, [field]: value }));
+
+  const provider = isLlmProviderId(values.provider)
+    ? values.provider
+    : DEFAULT_LLM_PROVIDER;
+  const models = LLM_PROVIDERS[provider].models;
+  const model = values.model || LLM_PROVIDERS[provider].defaultModel;
+
+  // Placeholders are checked with the rules the server applies on save
+  const variableScope = templateVariableScope(values.type);
+  const promptErrors = findVariableErrors(values.prompt, variableScope);
+  const contentErrors = findVariableErrors(values.content, variableScope);
+
+  const insertVariable = (name: string) =>
+    setValues((prev) => ({
+      ...prev,
+      [variableTarget]: `${prev[variableTarget]}{{ ${name} }}`,
+    }));
+
+  // The template as it would be saved, for the try-it panel
+  const draft = useMemo(
+    () => ({
+      name: values.name,
+      type: values.type,
+      description: values.description,
+      prompt: values.prompt,
+      provider: values.provider,
+      model,
+      output_schema: toTemplateSchema(fields) as Json | null,
+    }),
+    [values, model, fields]
+  );
+
+  const handleSubmit = async (publish: boolean) => {
+    // The builder's fields are checked with the rules the server applies
+    const schema = toTemplateSchema(fields);
+    if (schema) {
+      const parsed = templateSchemaDefinition.safeParse(schema);
+      if (!parsed.success) {
+        setFieldErrors(formatFieldErrors(parsed.error));
+        setTab("fields");
+        return;
+      }
+    }
+    setFieldErrors([]);
+
+    if (promptErrors.length > 0 || contentErrors.length > 0) {
+      setTab("prompt");
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onSubmit(
+      {
+        name: values.name.trim(),
+        type: values.type,
+        key: values.key.trim() || null,
+        description: values.description.trim() || null,
+        prompt: values.prompt,
+        content: values.content || null,
+        provider: values.provider,
+        model,
+        output_schema: schema as Json | null,
+      },
+      { changelog: changelog.trim() || undefined, publish }
+    );
+    setIsSaving(false);
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  const canSave = Boolean(values.name.trim() && values.prompt.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSubmit(true);
+          }}
+        >
+          <DialogHeader>
+            <DialogTitle>{template ? "Edit Template" : "New Template"}</DialogTitle>
+            <DialogDescription>
+              The prompt and fields the model uses to write notes from a
+              transcript
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs value={tab} onValueChange={setTab} className="py-4">
+            <TabsList>
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="prompt">Prompt</TabsTrigger>
+              <TabsTrigger value="fields">
+                Fields{fields.length > 0 ? ` (${fields.length})` : ""}
+              </TabsTrigger>
+              <TabsTrigger value="try">Try it</TabsTrigger>
+            </TabsList>
+
+            <ScrollArea className="h-[480px] pr-3 mt-4">
+              <TabsContent value="details" className="grid gap-4 mt-0">
+                <div className="space-y-2">
+                  <Label htmlFor="template-name">Name</Label>
+                  <Input
+                    id="template-name"
+                    value={values.name}
+                    onChange={(e) => setField("name", e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="template-type">Type</Label>
+                    <Select
+                      value={values.type}
+                      onValueChange={(value) => setField("type", value)}
+                    >
+                      <SelectTrigger id="template-type">
+                        <SelectValue placeholder="Choose a type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(TEMPLATE_TYPES).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                        {values.type && !(values.type in TEMPLATE_TYPES) && (
+                          <SelectItem value={values.type}>{values.type}</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-key">Key</Label>
+                    <Input
+                      id="template-key"
+                      value={values.key}
+                      placeholder="e.g. dental_soap"
+                      onChange={(e) => setField("key", e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-description">Description</Label>
+                  <Textarea
+                    id="template-description"
+                    value={values.description}
+                    onChange={(e) => setField("description", e.target.value)}
+                    rows={3}
+                  />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="prompt" className="grid gap-4 mt-0">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="template-provider">Provider</Label>
+                    <Select
+                      value={values.provider || DEFAULT_PROVIDER_VALUE}
+                      onValueChange={(value) =>
+                        setValues((prev) => ({
+                          ...prev,
+                          provider: value === DEFAULT_PROVIDER_VALUE ? null : value,
+                          // Models are named by the provider
+                          model: "",
+                        }))
+                      }
+                    >
+                      <SelectTrigger id="template-provider">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_PROVIDER_VALUE}>
+                          Default ({LLM_PROVIDERS[DEFAULT_LLM_PROVIDER].label})
+                        </SelectItem>
+                        {LLM_PROVIDER_IDS.map((id) => (
+                          <SelectItem key={id} value={id}>
+                            {LLM_PROVIDERS[id].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-model">Model</Label>
+                    <Select
+                      value={model}
+                      onValueChange={(value) => setField("model", value)}
+                    >
+                      <SelectTrigger id="template-model">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {models.map((m) => (
+                          <SelectItem key={m} value={m}>
+                            {m}
+                          </SelectItem>
+                        ))}
+                        {!models.includes(model) && (
+                          <SelectItem value={model}>{model}</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-prompt">Prompt</Label>
+                  <Textarea
+                    id="template-prompt"
+                    value={values.prompt}
+                    onChange={(e) => setField("prompt", e.target.value)}
+                    onFocus={() => setVariableTarget("prompt")}
+                    placeholder="Instructions for the model. The visit transcript is added after the prompt."
+                    className="min-h-[220px] font-mono text-sm"
+                    required
+                  />
+                  <VariableErrors errors={promptErrors} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-content">Body</Label>
+                  <Textarea
+                    id="template-content"
+                    value={values.content}
+                    onChange={(e) => setField("content", e.target.value)}
+                    onFocus={() => setVariableTarget("content")}
+                    placeholder="Email templates only: the message sent, with {{variables}} filled in"
+                    className="min-h-[120px] font-mono text-sm"
+                  />
+                  <VariableErrors errors={contentErrors} />
+                </div>
+                <TemplateVariablesPanel
+                  scope={variableScope}
+                  onInsert={insertVariable}
+                />
+              </TabsContent>
+
+              <TabsContent value="fields" className="space-y-4 mt-0">
+                {fieldErrors.length > 0 && (
+                  <ul className="text-sm text-destructive space-y-1">
+                    {fieldErrors.map((error, index) => (
+                      <li key={index}>
+                        {error.path ? `${error.path}: ` : ""}
+                        {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <TemplateFieldsBuilder fields={fields} onChange={setFields} />
+              </TabsContent>
+
+              <TabsContent value="try" className="mt-0">
+                <TemplateTryPanel template={draft} />
+              </TabsContent>
+            </ScrollArea>
+          </Tabs>
+
+          {template && (
+            <div className="space-y-2 pb-4">
+              <Label htmlFor="template-changelog">What changed</Label>
+              <Input
+                id="template-changelog"
+                value={changelog}
+                placeholder="Shown in the template's version history"
+                onChange={(e) => setChangelog(e.target.value)}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            {template && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleSubmit(false)}
+                disabled={isSaving || !canSave}
+              >
+                Save draft
+              </Button>
+            )}
+            <Button type="submit" disabled={isSaving || !canSave}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {template ? "Publish" : "Create Template"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
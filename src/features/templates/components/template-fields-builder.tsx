@@ -0,0 +1,299 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import { Switch } from "@/src/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import {
+  FIELD_TYPE_LABELS,
+  newFieldDraft,
+  type FieldDraft,
+  type FieldDraftType,
+  type ListItemType,
+} from "@/src/lib/templates/field-drafts";
+import { cn } from "@/src/lib/utils";
+
+interface TemplateFieldsBuilderProps {
+  fields: FieldDraft[];
+  onChange: (fields: FieldDraft[]) => void;
+  disabled?: boolean;
+}
+
+// Sections below this depth only offer plain fields
+const MAX_BUILDER_DEPTH = 3;
+
+/**
+ * Builder for the fields a template's output must fill in
+ * Without any fields the template produces free text
+ */
+export function TemplateFieldsBuilder({
+  fields,
+  onChange,
+  disabled,
+}: TemplateFieldsBuilderProps) {
+  return (
+    <FieldList fields={fields} onChange={onChange} disabled={disabled} depth={0} />
+  );
+}
+
+function FieldList({
+  fields,
+  onChange,
+  disabled,
+  depth,
+}: TemplateFieldsBuilderProps & { depth: number }) {
+  const update = (index: number, changes: Partial<FieldDraft>) =>
+    onChange(
+      fields.map((field, i) => (i === index ? { ...field, ...changes } : field))
+    );
+
+  const move = (index: number, offset: number) => {
+    const next = [...fields];
+    const [field] = next.splice(index, 1);
+    next.splice(index + offset, 0, field);
+    onChange(next);
+  };
+
+  return (
+    <div className={cn("space-y-3", depth > 0 && "border-l pl-4")}>
+      {fields.length === 0 && depth === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No fields: the template produces free text. Add fields to have the
+          model fill in each one separately.
+        </p>
+      )}
+
+      {fields.map((field, index) => (
+        <FieldRow
+          key={field.id}
+          field={field}
+          depth={depth}
+          disabled={disabled}
+          onChange={(changes) => update(index, changes)}
+          onRemove={() => onChange(fields.filter((_, i) => i !== index))}
+          onMoveUp={index > 0 ? () => move(index, -1) : undefined}
+          onMoveDown={
+            index < fields.length - 1 ? () => move(index, 1) : undefined
+          }
+        />
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={disabled}
+        onClick={() => onChange([...fields, newFieldDraft()])}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        {depth === 0 ? "Add field" : "Add field to section"}
+      </Button>
+    </div>
+  );
+}
+
+interface FieldRowProps {
+  field: FieldDraft;
+  depth: number;
+  disabled?: boolean;
+  onChange: (changes: Partial<FieldDraft>) => void;
+  onRemove: () => void;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+}
+
+function FieldRow({
+  field,
+  depth,
+  disabled,
+  onChange,
+  onRemove,
+  onMoveUp,
+  onMoveDown,
+}: FieldRowProps) {
+  const canNest = depth < MAX_BUILDER_DEPTH;
+  const types = (Object.keys(FIELD_TYPE_LABELS) as FieldDraftType[]).filter(
+    (type) => canNest || type !== "section"
+  );
+  const itemTypes = types.filter((type) => type !== "list") as ListItemType[];
+
+  // Options and child fields apply to the field itself or to its list items
+  const shape = field.type === "list" ? field.itemType : field.type;
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_160px_auto] gap-2 items-end">
+        <div className="space-y-1">
+          <Label className="text-xs">Name</Label>
+          <Input
+            value={field.name}
+            placeholder="chief_complaint"
+            disabled={disabled}
+            onChange={(e) => onChange({ name: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Title</Label>
+          <Input
+            value={field.title}
+            placeholder="Chief complaint"
+            disabled={disabled}
+            onChange={(e) => onChange({ title: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Type</Label>
+          <Select
+            value={field.type}
+            disabled={disabled}
+            onValueChange={(value) => onChange({ type: value as FieldDraftType })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {types.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {FIELD_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            disabled={disabled || !onMoveUp}
+            onClick={onMoveUp}
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            disabled={disabled || !onMoveDown}
+            onClick={onMoveDown}
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            disabled={disabled}
+            onClick={onRemove}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-2 items-center">
+        <Input
+          value={field.description}
+          placeholder="Instructions for the model (optional)"
+          disabled={disabled}
+          onChange={(e) => onChange({ description: e.target.value })}
+        />
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`${field.id}-required`}
+            checked={field.required}
+            disabled={disabled}
+            onCheckedChange={(checked) => onChange({ required: checked })}
+          />
+          <Label htmlFor={`${field.id}-required`} className="text-xs">
+            Required
+          </Label>
+        </div>
+      </div>
+
+      {field.type === "list" && (
+        <div className="flex items-center gap-2">
+          <Label className="text-xs">Each entry is</Label>
+          <Select
+            value={field.itemType}
+            disabled={disabled}
+            onValueChange={(value) =>
+              onChange({ itemType: value as ListItemType })
+            }
+          >
+            <SelectTrigger className="w-[160px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {itemTypes.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {FIELD_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {shape === "choice" && (
+        <div className="space-y-1">
+          <Label className="text-xs">Options, separated by commas</Label>
+          <Input
+            value={field.options.join(", ")}
+            placeholder="routine, urgent, emergency"
+            disabled={disabled}
+            onChange={(e) =>
+              onChange({
+                options: e.target.value.split(",").map((o) => o.trimStart()),
+              })
+            }
+          />
+        </div>
+      )}
+
+      {(shape === "number" || shape === "integer") && (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="number"
+            value={field.minimum ?? ""}
+            placeholder="Minimum (optional)"
+            disabled={disabled}
+            onChange={(e) =>
+              onChange({
+                minimum: e.target.value === "" ? undefined : Number(e.target.value),
+              })
+            }
+          />
+          <Input
+            type="number"
+            value={field.maximum ?? ""}
+            placeholder="Maximum (optional)"
+            disabled={disabled}
+            onChange={(e) =>
+              onChange({
+                maximum: e.target.value === "" ? undefined : Number(e.target.value),
+              })
+            }
+          />
+        </div>
+      )}
+
+      {shape === "section" && (
+        <FieldList
+          fields={field.fields}
+          onChange={(fields) => onChange({ fields })}
+          disabled={disabled}
+          depth={depth + 1}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { AlertTriangle, FileUp, Loader2 } from "lucide-react";
+
+import { Badge } from "@/src/components/ui/badge";
+import { Button } from "@/src/components/ui/button";
+import { Checkbox } from "@/src/components/ui/checkbox";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import { ScrollArea } from "@/src/components/ui/scroll-area";
+import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "@/src/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/src/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import { importTemplates, previewTemplateImport } from "@/app/actions";
+import type {
+  TemplateImportConflict,
+  TemplateImportResolution,
+} from "@/app/actions/types";
+import { templateTypeLabel } from "@/src/lib/templates/catalog";
+import { TEMPLATE_LIBRARY } from "@/src/lib/templates/library";
+import {
+  createTemplateFile,
+  type PortableTemplate,
+} from "@/src/lib/templates/portable";
+
+const RESOLUTION_LABELS: Record<TemplateImportResolution, string> = {
+  rename: "Import as a copy",
+  overwrite: "Overwrite existing",
+  skip: "Skip",
+};
+
+// A file checked by the server and waiting for the user to confirm
+interface PendingImport {
+  file: unknown;
+  source: string;
+  templates: PortableTemplate[];
+  conflicts: TemplateImportConflict[];
+}
+
+interface TemplateImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+/**
+ * Imports templates from a file or the built-in library
+ * Files are checked before anything is saved; templates whose key the
+ * clinic already uses can be imported as a copy, overwrite the existing
+ * template or be skipped
+ */
+export function TemplateImportDialog({
+  open,
+  onOpenChange,
+  onImported,
+}: TemplateImportDialogProps) {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [resolutions, setResolutions] = useState<
+    Record<string, TemplateImportResolution>
+  >({});
+  const [libraryKeys, setLibraryKeys] = useState<string[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Start over whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setPending(null);
+      setResolutions({});
+      setLibraryKeys([]);
+    }
+  }, [open]);
+
+  const checkFile = async (file: unknown, source: string) => {
+    setIsChecking(true);
+    try {
+      const result = await previewTemplateImport(file);
+      if (!result.success || !result.templates) {
+        throw new Error(result.error || "Failed to read template file");
+      }
+
+      const conflicts = result.conflicts || [];
+      setPending({ file, source, templates: result.templates, conflicts });
+      setResolutions(
+        Object.fromEntries(conflicts.map((c) => [c.key, "rename" as const]))
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to read template file"
+      );
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const upload = e.target.files?.[0];
+    e.target.value = "";
+    if (!upload) return;
+
+    let file: unknown;
+    try {
+      file = JSON.parse(await upload.text());
+    } catch {
+      toast.error(`${upload.name} is not a JSON file`);
+      return;
+    }
+    await checkFile(file, upload.name);
+  };
+
+  const handleLibrary = () =>
+    checkFile(
+      createTemplateFile(
+        TEMPLATE_LIBRARY.templates.filter(
+          (t) => t.key && libraryKeys.includes(t.key)
+        )
+      ),
+      "the template library"
+    );
+
+  const handleImport = async () => {
+    if (!pending) return;
+
+    setIsImporting(true);
+    const result = await importTemplates(
+      pending.file,
+      resolutions,
+      pending.source
+    );
+    setIsImporting(false);
+
+    if (!result.success || !result.templates) {
+      toast.error(result.error || "Failed to import templates");
+      return;
+    }
+
+    const parts = [
+      `${result.created} imported`,
+      result.overwritten ? `${result.overwritten} overwritten` : null,
+      result.skipped ? `${result.skipped} skipped` : null,
+    ].filter(Boolean);
+    toast.success(`Templates: ${parts.join(", ")}`);
+    onImported();
+    onOpenChange(false);
+  };
+
+  const conflictFor = (template: PortableTemplate) =>
+    pending?.conflicts.find((c) => c.key === template.key);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Templates</DialogTitle>
+          <DialogDescription>
+            Add templates shared by another clinic or from the template library
+          </DialogDescription>
+        </DialogHeader>
+
+        {pending ? (
+          <div className="space-y-4 py-2">
+            <p className="text-sm text-muted-foreground">
+              {pending.templates.length} template
+              {pending.templates.length === 1 ? "" : "s"} in {pending.source}
+              {pending.conflicts.length > 0 &&
+                `; ${pending.conflicts.length} already exist in your clinic`}
+            </p>
+            <ScrollArea className="h-[360px] pr-3">
+              <div className="space-y-2">
+                {pending.templates.map((template, index) => {
+                  const conflict = conflictFor(template);
+                  return (
+                    <div
+                      key={template.key || index}
+                      className="border rounded-lg p-3 flex flex-wrap items-center gap-3"
+                    >
+                      <div className="flex-1 min-w-[200px] space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-sm">
+                            {template.name}
+                          </span>
+                          {template.version && (
+                            <Badge variant="secondary">v{template.version}</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {templateTypeLabel(template.type)}
+                          {template.key ? ` · ${template.key}` : ""}
+                        </p>
+                        {conflict && (
+                          <p className="text-xs text-amber-600 flex items-center gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            Same key as {conflict.existingName || "an existing template"}
+                          </p>
+                        )}
+                      </div>
+                      {conflict && (
+                        <Select
+                          value={resolutions[conflict.key]}
+                          onValueChange={(value) =>
+                            setResolutions((prev) => ({
+                              ...prev,
+                              [conflict.key]: value as TemplateImportResolution,
+                            }))
+                          }
+                        >
+                          <SelectTrigger className="w-[180px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(RESOLUTION_LABELS).map(
+                              ([value, label]) => (
+                                <SelectItem key={value} value={value}>
+                                  {label}
+                                </SelectItem>
+                              )
+                            )}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </div>
+        ) : (
+          <Tabs defaultValue="file" className="py-2">
+            <TabsList>
+              <TabsTrigger value="file">From a file</TabsTrigger>
+              <TabsTrigger value="library">Template library</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="file" className="space-y-2 pt-2">
+              <Label htmlFor="template-import-file">Template file</Label>
+              <Input
+                id="template-import-file"
+                type="file"
+                accept="application/json,.json"
+                disabled={isChecking}
+                onChange={handleFile}
+              />
+              <p className="text-xs text-muted-foreground">
+                A .json file exported from the Templates page
+              </p>
+            </TabsContent>
+
+            <TabsContent value="library" className="space-y-3 pt-2">
+              <ScrollArea className="h-[300px] pr-3">
+                <div className="space-y-2">
+                  {TEMPLATE_LIBRARY.templates.map((template) => {
+                    const key = template.key as string;
+                    return (
+                      <label
+                        key={key}
+                        className="border rounded-lg p-3 flex items-start gap-3 cursor-pointer hover:bg-muted/50"
+                      >
+                        <Checkbox
+                          checked={libraryKeys.includes(key)}
+                          onCheckedChange={(checked) =>
+                            setLibraryKeys((prev) =>
+                              checked
+                                ? [...prev, key]
+                                : prev.filter((k) => k !== key)
+                            )
+                          }
+                        />
+                        <div className="space-y-1">
+                          <p className="font-medium text-sm">{template.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {template.description}
+                          </p>
+                        </div>
+                      </label>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={isChecking || libraryKeys.length === 0}
+                  onClick={handleLibrary}
+                >
+                  {isChecking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Review {libraryKeys.length || ""} template
+                  {libraryKeys.length === 1 ? "" : "s"}
+                </Button>
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+
+        <DialogFooter>
+          {pending ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => setPending(null)}
+                disabled={isImporting}
+              >
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={isImporting}>
+                {isImporting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <FileUp className="mr-2 h-4 w-4" />
+                )}
+                Import
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { FlaskConical, Loader2 } from "lucide-react";
+import { Button } from "@/src/components/ui/button";
+import { Label } from "@/src/components/ui/label";
+import { ScrollArea } from "@/src/components/ui/scroll-area";
+import { Textarea } from "@/src/components/ui/textarea";
+import { tryTemplate } from "@/app/actions";
+import type { Template } from "@/app/actions/types";
+import {
+  formatStructuredContent,
+  templateOutputSchema,
+  type TemplateFieldError,
+} from "@/src/lib/templates/schema";
+
+interface TemplateTryPanelProps {
+  // The template as it is being edited, saved or not
+  template: Partial<Template>;
+}
+
+/**
+ * Runs the template being edited against a pasted sample transcript
+ * Nothing is saved, so prompts and fields can be tried before publishing
+ */
+export function TemplateTryPanel({ template }: TemplateTryPanelProps) {
+  const [transcript, setTranscript] = useState("");
+  const [output, setOutput] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<TemplateFieldError[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setFieldErrors([]);
+    try {
+      const result = await tryTemplate(template, transcript);
+      if (!result.success) {
+        setFieldErrors(result.fieldErrors || []);
+        throw new Error(result.error || "Failed to run template");
+      }
+
+      // Structured output is shown the way it reads on a case
+      const { content = "" } = result;
+      const schema = templateOutputSchema({
+        type: template.type ?? null,
+        output_schema: template.output_schema,
+      });
+      setOutput(
+        typeof content === "string" || !schema
+          ? String(content)
+          : formatStructuredContent(schema, content)
+      );
+    } catch (error) {
+      setOutput(null);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to run template"
+      );
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="template-try-transcript">Sample transcript</Label>
+        <Textarea
+          id="template-try-transcript"
+          value={transcript}
+          onChange={(e) => setTranscript(e.target.value)}
+          placeholder="Paste a transcript from a visit to see what the template produces"
+          className="min-h-[160px]"
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          onClick={handleRun}
+          disabled={isRunning || !transcript.trim() || !template.prompt?.trim()}
+        >
+          {isRunning ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <FlaskConical className="h-4 w-4 mr-1" />
+          )}
+          Try it
+        </Button>
+      </div>
+
+      {fieldErrors.length > 0 && (
+        <ul className="text-sm text-destructive space-y-1">
+          {fieldErrors.map((error, index) => (
+            <li key={index}>
+              {error.path ? `${error.path}: ` : ""}
+              {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {output !== null && (
+        <ScrollArea className="h-[240px] border rounded-lg p-3">
+          <p className="text-sm whitespace-pre-wrap">
+            {output || "The template produced no content"}
+          </p>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
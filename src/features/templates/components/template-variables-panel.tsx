@@ -0,0 +1,49 @@
+"use client";
+
+import { Badge } from "@/src/components/ui/badge";
+import {
+  TEMPLATE_VARIABLES,
+  variablesForScope,
+  type TemplateVariableName,
+  type TemplateVariableScope,
+} from "@/src/lib/templates/variables";
+
+interface TemplateVariablesPanelProps {
+  scope: TemplateVariableScope;
+  onInsert: (name: TemplateVariableName) => void;
+}
+
+/**
+ * Variables a template can use, from the catalogue
+ * Clicking a variable inserts its placeholder
+ */
+export function TemplateVariablesPanel({
+  scope,
+  onInsert,
+}: TemplateVariablesPanelProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Variables are filled in from the case when the template is used
+        {scope === "email" ? " or given when the email is sent" : ""}; click
+        one to add it
+      </p>
+      <div className="flex flex-wrap gap-1.5">
+        {variablesForScope(scope).map((name) => {
+          const variable = TEMPLATE_VARIABLES[name];
+          return (
+            <Badge
+              key={name}
+              variant="outline"
+              className="cursor-pointer font-mono font-normal hover:bg-muted"
+              title={`${variable.label}: ${variable.description}, e.g. ${variable.example}`}
+              onClick={() => onInsert(name)}
+            >
+              {`{{ ${name} }}`}
+            </Badge>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { GitCompare, History, Loader2, RotateCcw, Upload } from "lucide-react";
+import { Badge } from "@/src/components/ui/badge";
+import { Button } from "@/src/components/ui/button";
+import { Label } from "@/src/components/ui/label";
+import { ScrollArea } from "@/src/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/src/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import {
+  getTemplateVersions,
+  publishTemplateVersion,
+  rollbackTemplate,
+} from "@/app/actions";
+import type { Template, TemplateVersionEntry } from "@/app/actions/types";
+import { cn } from "@/src/lib/utils";
+import { TextDiffView } from "@/src/components/shared/text-diff-view";
+
+interface TemplateVersionsProps {
+  template: Template;
+  // Called after a version is published, so the list shows the new content
+  onChange?: () => void;
+}
+
+// Fields compared between versions, as they are shown in the diff
+const VERSION_FIELDS: Array<{
+  label: string;
+  text: (version: TemplateVersionEntry) => string;
+}> = [
+  { label: "Name", text: (v) => v.name || "" },
+  { label: "Type", text: (v) => v.type || "" },
+  { label: "Description", text: (v) => v.description || "" },
+  {
+    label: "Model",
+    text: (v) => [v.provider || "default provider", v.model].filter(Boolean).join(" · "),
+  },
+  { label: "Prompt", text: (v) => v.prompt || "" },
+  { label: "Content", text: (v) => v.content || "" },
+  {
+    label: "Output schema",
+    text: (v) => (v.output_schema ? JSON.stringify(v.output_schema, null, 2) : ""),
+  },
+];
+
+/**
+ * Versions panel for a template
+ * Lists its changelog, compares any two versions field by field, publishes
+ * drafts and rolls back to earlier versions. Built-in templates are read-only
+ */
+export function TemplateVersions({ template, onChange }: TemplateVersionsProps) {
+  const [open, setOpen] = useState(false);
+  const [versions, setVersions] = useState<TemplateVersionEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [publishedVersion, setPublishedVersion] = useState(template.version);
+
+  const editable = template.clinic_id !== null;
+
+  // Loads the versions, selecting the newest against the published one
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getTemplateVersions(template.id);
+      if (!result.success || !result.versions) {
+        throw new Error(result.error || "Failed to load versions");
+      }
+
+      const loaded = result.versions;
+      const newest = loaded[0];
+      const published = loaded.find((v) => v.version === publishedVersion);
+      setVersions(loaded);
+      setSelectedId(newest?.id ?? null);
+      setCompareId(
+        published && published.id !== newest?.id
+          ? published.id
+          : (loaded[1]?.id ?? null)
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to load versions"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [template.id, publishedVersion]);
+
+  useEffect(() => {
+    if (open) {
+      loadVersions();
+    }
+  }, [open, loadVersions]);
+
+  useEffect(() => {
+    setPublishedVersion(template.version);
+  }, [template.version]);
+
+  const selected = versions.find((v) => v.id === selectedId) || null;
+  const compared = versions.find((v) => v.id === compareId) || null;
+
+  // Runs an action that publishes a version, then shows the new state
+  const runAction = async (
+    action: () => Promise<{
+      success: boolean;
+      error?: string;
+      template?: Template;
+    }>,
+    message: string
+  ) => {
+    setIsSaving(true);
+    try {
+      const result = await action();
+      if (!result.success) {
+        throw new Error(result.error || "Failed to update template");
+      }
+
+      toast.success(message);
+      if (result.template) {
+        setPublishedVersion(result.template.version);
+      }
+      onChange?.();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update template"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSelect = (version: TemplateVersionEntry) => {
+    setSelectedId(version.id);
+    if (compareId === version.id) {
+      setCompareId(null);
+    }
+  };
+
+  const changedFields =
+    selected && compared
+      ? VERSION_FIELDS.filter(
+          (field) => field.text(compared) !== field.text(selected)
+        )
+      : [];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <History className="h-4 w-4 mr-1" />
+          Versions
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-5xl bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>{template.name} versions</DialogTitle>
+          <DialogDescription>
+            Every change is saved as a new version. Generations use the
+            published version and record which one they were made with.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && versions.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[240px_1fr] gap-4">
+            <ScrollArea className="h-[480px] pr-2">
+              <div className="space-y-2">
+                {versions.map((version) => (
+                  <button
+                    key={version.id}
+                    type="button"
+                    onClick={() => handleSelect(version)}
+                    className={cn(
+                      "w-full text-left border rounded-lg p-3 space-y-1 hover:bg-muted/50",
+                      version.id === selectedId && "border-primary bg-muted/50"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm">
+                        Version {version.version}
+                      </span>
+                      {version.version === publishedVersion ? (
+                        <Badge>Live</Badge>
+                      ) : (
+                        <Badge variant="secondary">
+                          {version.status === "draft" ? "Draft" : "Published"}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs line-clamp-2">
+                      {version.changelog || "No changelog"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {version.author || "Unknown author"} ·{" "}
+                      {formatDistanceToNow(new Date(version.created_at), {
+                        addSuffix: true,
+                      })}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="space-y-4 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <GitCompare className="h-4 w-4 text-muted-foreground" />
+                  <Label className="text-sm">Compare with</Label>
+                  <Select
+                    value={compareId || ""}
+                    onValueChange={(value) => setCompareId(value)}
+                  >
+                    <SelectTrigger className="w-[200px]">
+                      <SelectValue placeholder="Choose a version" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions
+                        .filter((v) => v.id !== selected.id)
+                        .map((v) => (
+                          <SelectItem key={v.id} value={v.id}>
+                            Version {v.version}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  {selected.published_at && (
+                    <span className="text-xs text-muted-foreground ml-auto">
+                      Published{" "}
+                      {formatDistanceToNow(new Date(selected.published_at), {
+                        addSuffix: true,
+                      })}
+                      {selected.publisher ? ` by ${selected.publisher}` : ""}
+                    </span>
+                  )}
+                </div>
+
+                <ScrollArea className="h-[360px]">
+                  {compared ? (
+                    changedFields.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        Versions {compared.version} and {selected.version} are
+                        the same
+                      </p>
+                    ) : (
+                      <div className="space-y-4">
+                        {changedFields.map((field) => (
+                          <div key={field.label} className="space-y-1">
+                            <p className="text-sm font-medium">{field.label}</p>
+                            <TextDiffView
+                              before={field.text(compared)}
+                              after={field.text(selected)}
+                              beforeLabel={`Version ${compared.version}`}
+                              afterLabel={`Version ${selected.version}`}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )
+                  ) : (
+                    <div className="space-y-3">
+                      {VERSION_FIELDS.filter((field) => field.text(selected)).map(
+                        (field) => (
+                          <div key={field.label} className="space-y-1">
+                            <p className="text-sm font-medium">{field.label}</p>
+                            <p className="text-sm whitespace-pre-wrap text-muted-foreground">
+                              {field.text(selected)}
+                            </p>
+                          </div>
+                        )
+                      )}
+                    </div>
+                  )}
+                </ScrollArea>
+
+                {editable && (
+                  <div className="flex flex-wrap items-center justify-end gap-2 border-t pt-4">
+                    {selected.status === "draft" ? (
+                      <Button
+                        size="sm"
+                        disabled={isSaving}
+                        onClick={() =>
+                          runAction(
+                            () => publishTemplateVersion(selected.id),
+                            `Published version ${selected.version}`
+                          )
+                        }
+                      >
+                        {isSaving ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <Upload className="h-4 w-4 mr-1" />
+                        )}
+                        Publish
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={
+                          isSaving || selected.version === publishedVersion
+                        }
+                        onClick={() =>
+                          runAction(
+                            () => rollbackTemplate(template.id, selected.id),
+                            `Rolled back to version ${selected.version}`
+                          )
+                        }
+                      >
+                        {isSaving ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                        )}
+                        Roll back to this version
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,23 +1,364 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Copy,
+  Download,
+  FileUp,
+  Pencil,
+  Plus,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { Badge } from "@/src/components/ui/badge";
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
 import {
   Card,
   CardContent,
+  CardDescription,
+  CardFooter,
   CardHeader,
   CardTitle,
 } from "@/src/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/src/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import {
+  createTemplate,
+  deleteTemplate,
+  ensureDefaultTemplates,
+  exportTemplates,
+  getTemplates,
+  updateTemplate,
+} from "@/app/actions";
+import type { Template, TemplateInsert } from "@/app/actions/types";
+import { templateTypeLabel } from "@/src/lib/templates/catalog";
+import type { TemplateFile } from "@/src/lib/templates/portable";
+import { TemplatesListSkeleton } from "./templates-list-skeleton";
+import { TemplateVersions } from "./template-versions";
+import {
+  TemplateEditorDialog,
+  type TemplateSaveOptions,
+} from "./template-editor-dialog";
+import { TemplateImportDialog } from "./template-import-dialog";
+
+// Select value for "every type"
+const ALL_TYPES = "all";
+
+/**
+ * Saves a template file through the browser
+ */
+function downloadTemplateFile(file: TemplateFile, name: string) {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(file, null, 2)], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${name}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * File name for exported templates, e.g. "dental-procedure"
+ */
+function fileNameFor(text: string) {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "templates"
+  );
+}
 
 export function TemplatesList() {
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [typeFilter, setTypeFilter] = useState(ALL_TYPES);
+  const [search, setSearch] = useState("");
+  const [editing, setEditing] = useState<Template | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [deleting, setDeleting] = useState<Template | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  const loadTemplates = useCallback(async () => {
+    const result = await getTemplates();
+    if (result.success) {
+      setTemplates(result.templates || []);
+    } else {
+      toast.error(result.error || "Failed to load templates");
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    ensureDefaultTemplates().then(loadTemplates);
+  }, [loadTemplates]);
+
+  const types = Array.from(
+    new Set(templates.map((t) => t.type).filter((t): t is string => Boolean(t)))
+  ).sort();
+
+  const query = search.trim().toLowerCase();
+  const visible = templates.filter(
+    (template) =>
+      (typeFilter === ALL_TYPES || template.type === typeFilter) &&
+      (!query ||
+        [template.name, template.description, template.key].some((text) =>
+          text?.toLowerCase().includes(query)
+        ))
+  );
+
+  const openEditor = (template: Template | null) => {
+    setEditing(template);
+    setIsEditorOpen(true);
+  };
+
+  const handleSave = async (
+    values: TemplateInsert,
+    options: TemplateSaveOptions
+  ) => {
+    const result = editing
+      ? await updateTemplate(editing.id, values, options)
+      : await createTemplate(values);
+    if (!result.success) {
+      toast.error(result.error || "Failed to save template");
+      return false;
+    }
+
+    toast.success(
+      !editing
+        ? `${values.name} created`
+        : options.publish === false
+          ? "Draft saved; publish it from the template's versions"
+          : `${values.name} published`
+    );
+    loadTemplates();
+    return true;
+  };
+
+  const handleDuplicate = async (template: Template) => {
+    const result = await createTemplate({
+      name: `${template.name} (copy)`,
+      type: template.type,
+      description: template.description,
+      content: template.content,
+      prompt: template.prompt,
+      provider: template.provider,
+      model: template.model,
+      output_schema: template.output_schema,
+    });
+    if (!result.success || !result.template) {
+      toast.error(result.error || "Failed to duplicate template");
+      return;
+    }
+
+    toast.success(`Created ${result.template.name}`);
+    loadTemplates();
+  };
+
+  const handleExport = async (selected: Template[]) => {
+    const result = await exportTemplates(selected.map((t) => t.id));
+    if (!result.success || !result.file) {
+      toast.error(result.error || "Failed to export templates");
+      return;
+    }
+
+    downloadTemplateFile(
+      result.file,
+      selected.length === 1
+        ? fileNameFor(selected[0].name || "template")
+        : "templates"
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    const result = await deleteTemplate(deleting.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to delete template");
+    } else {
+      toast.success(`${deleting.name} deleted`);
+      loadTemplates();
+    }
+    setDeleting(null);
+  };
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      <Card>
-        <CardHeader>
-          <CardTitle>Templates</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <p className="text-muted-foreground">
-            Template management coming soon...
-          </p>
-        </CardContent>
-      </Card>
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row gap-3 md:items-center">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search templates"
+            className="pl-8"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="md:w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TYPES}>All types</SelectItem>
+            {types.map((type) => (
+              <SelectItem key={type} value={type}>
+                {templateTypeLabel(type)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          disabled={visible.length === 0}
+          onClick={() => handleExport(visible)}
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Export{visible.length < templates.length ? ` ${visible.length}` : " All"}
+        </Button>
+        <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+          <FileUp className="mr-2 h-4 w-4" />
+          Import
+        </Button>
+        <Button onClick={() => openEditor(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Template
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <TemplatesListSkeleton />
+      ) : visible.length === 0 ? (
+        <p className="py-12 text-center text-muted-foreground">
+          {templates.length === 0 ? "No templates yet" : "No templates found"}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {visible.map((template) => {
+            const isBuiltIn = template.clinic_id === null;
+
+            return (
+              <Card key={template.id} className="flex flex-col">
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle className="text-base">{template.name}</CardTitle>
+                    <Badge variant="secondary">v{template.version}</Badge>
+                  </div>
+                  <CardDescription>
+                    {templateTypeLabel(template.type)}
+                    {isBuiltIn ? " · Built-in" : ""}
+                    {template.key ? ` · ${template.key}` : ""}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex-1 space-y-2">
+                  <p className="text-sm text-muted-foreground line-clamp-3">
+                    {template.description || "No description"}
+                  </p>
+                  {template.model && (
+                    <p className="text-xs text-muted-foreground">
+                      {template.model}
+                    </p>
+                  )}
+                </CardContent>
+                <CardFooter className="flex flex-wrap gap-2">
+                  {!isBuiltIn && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => openEditor(template)}
+                    >
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDuplicate(template)}
+                  >
+                    <Copy className="h-4 w-4 mr-1" />
+                    Duplicate
+                  </Button>
+                  <TemplateVersions template={template} onChange={loadTemplates} />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleExport([template])}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  {!isBuiltIn && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="ml-auto"
+                      onClick={() => setDeleting(template)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </CardFooter>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <TemplateEditorDialog
+        open={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        template={editing}
+        onSubmit={handleSave}
+      />
+
+      <TemplateImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImported={loadTemplates}
+      />
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The template and its version history will be deleted. Notes
+              already generated with it are deleted too. This action cannot be
+              undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+              onClick={handleDelete}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,163 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Pencil } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { updateSpeakerLabels } from "@/app/actions";
+import { speakerName } from "@/src/lib/transcription/segments";
+import type {
+  SpeakerLabels,
+  TranscriptSegment,
+} from "@/src/lib/transcription/types";
+
+// Names offered when renaming a speaker
+const SUGGESTED_SPEAKER_NAMES = ["Vet", "Owner", "Technician"];
+
+// Colours cycle through speakers so turns are easy to tell apart
+const SPEAKER_COLORS = [
+  "text-blue-500",
+  "text-emerald-500",
+  "text-amber-500",
+  "text-purple-500",
+];
+
+interface TranscriptConversationProps {
+  transcriptionId: string;
+  segments: TranscriptSegment[];
+  speakerLabels: SpeakerLabels;
+}
+
+function formatTimestamp(seconds: number) {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * A diarized transcript shown as a speaker-labelled conversation
+ * Speakers can be renamed, e.g. "Speaker 0" to "Vet"
+ */
+export function TranscriptConversation({
+  transcriptionId,
+  segments,
+  speakerLabels,
+}: TranscriptConversationProps) {
+  const [labels, setLabels] = useState<SpeakerLabels>(speakerLabels);
+  const [draftLabels, setDraftLabels] = useState<SpeakerLabels>(speakerLabels);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const speakers = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          segments
+            .map((segment) => segment.speaker)
+            .filter((speaker): speaker is number => speaker !== null)
+        )
+      ).sort((a, b) => a - b),
+    [segments]
+  );
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await updateSpeakerLabels(transcriptionId, draftLabels);
+    setIsSaving(false);
+
+    if (result.success && result.transcription) {
+      setLabels(result.transcription.speaker_labels);
+      setIsRenaming(false);
+      toast.success("Speakers renamed");
+    } else {
+      toast.error("Failed to rename speakers", { description: result.error });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {speakers.length > 0 && (
+        <div className="flex justify-end">
+          {isRenaming ? (
+            <div className="w-full space-y-2 rounded-lg border border-muted/30 p-3">
+              {speakers.map((speaker) => (
+                <div key={speaker} className="flex items-center gap-2">
+                  <span className="w-24 shrink-0 text-xs text-muted-foreground">
+                    Speaker {speaker}
+                  </span>
+                  <Input
+                    className="h-8"
+                    list={`speaker-names-${transcriptionId}`}
+                    placeholder={`Speaker ${speaker}`}
+                    value={draftLabels[String(speaker)] || ""}
+                    onChange={(e) =>
+                      setDraftLabels((current) => ({
+                        ...current,
+                        [String(speaker)]: e.target.value,
+                      }))
+                    }
+                  />
+                </div>
+              ))}
+              <datalist id={`speaker-names-${transcriptionId}`}>
+                {SUGGESTED_SPEAKER_NAMES.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setDraftLabels(labels);
+                    setIsRenaming(false);
+                  }}
+                >
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                  {isSaving ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs text-muted-foreground"
+              onClick={() => setIsRenaming(true)}
+            >
+              <Pencil className="h-3 w-3 mr-1" />
+              Rename speakers
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {segments.map((segment, index) => (
+          <div key={`${segment.start}-${index}`} className="text-sm">
+            <div className="flex items-baseline gap-2">
+              <span
+                className={`font-medium ${
+                  segment.speaker === null
+                    ? "text-muted-foreground"
+                    : SPEAKER_COLORS[segment.speaker % SPEAKER_COLORS.length]
+                }`}
+              >
+                {speakerName(segment.speaker, labels)}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {formatTimestamp(segment.start)}
+              </span>
+            </div>
+            <p className="text-card-foreground whitespace-pre-wrap">
+              {segment.text}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { getTranscriptionSettings } from "@/app/actions";
+import { useCallback, useEffect, useState } from "react";
+import type { LiveSchema } from "@deepgram/sdk";
+import {
+  DEFAULT_TRANSCRIPTION_SETTINGS,
+  toLiveOptions,
+  type TranscriptionSettings,
+} from "@/src/lib/transcription/settings";
+
+/**
+ * Loads the transcription settings in effect for the current user
+ * Falls back to the built-in defaults until the profile has loaded or when
+ * it cannot be read, so recording is never blocked on settings
+ */
+export function useTranscriptionSettings() {
+  const [settings, setSettings] = useState<TranscriptionSettings>(
+    DEFAULT_TRANSCRIPTION_SETTINGS
+  );
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchSettings() {
+      try {
+        const result = await getTranscriptionSettings();
+
+        if (cancelled) return;
+
+        if (result.success && result.settings) {
+          setSettings(result.settings.active);
+        } else {
+          console.error("Failed to load transcription settings:", result.error);
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    fetchSettings();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Options for a live Deepgram connection
+  const getLiveOptions = useCallback(
+    (): LiveSchema => toLiveOptions(settings),
+    [settings]
+  );
+
+  return { settings, isLoading, getLiveOptions };
+}
@@ -11,7 +11,12 @@ import {
   MicrophoneState,
 } from "@/context/MicrophoneContextProvider";
 import { LiveSchema } from "@deepgram/sdk";
-import { DEEPGRAM_CONFIG } from "@/lib/constants";
+import { useTranscriptionSettings } from "@/hooks/use-transcription-settings";
+import {
+  appendSegments,
+  segmentsFromWords,
+} from "@/src/lib/transcription/segments";
+import type { TranscriptSegment } from "@/src/lib/transcription/types";
 
 interface UseTranscriptionOptions {
   onTranscriptUpdate?: (
@@ -34,6 +39,8 @@ export function useTranscription(options?: UseTranscriptionOptions) {
   const finalTranscriptRef = useRef<string>("");
   const interimTranscriptRef = useRef<string>("");
   const speakerSegmentsRef = useRef<Record<string, string>>({});
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const segmentsRef = useRef<TranscriptSegment[]>([]);
   const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const lastMessageIdRef = useRef<string>("");
 
@@ -53,10 +60,12 @@ export function useTranscription(options?: UseTranscriptionOptions) {
     microphoneState,
   } = useMicrophone();
 
-  // Get optimized Deepgram settings for veterinary use case
+  const { getLiveOptions } = useTranscriptionSettings();
+
+  // Deepgram options from the active clinic or personal transcription profile
   const getDeepgramSettings = useCallback((): LiveSchema => {
-    return DEEPGRAM_CONFIG;
-  }, []);
+    return getLiveOptions();
+  }, [getLiveOptions]);
 
   // Set up transcription listener with improved handling for speaker diarization
   useEffect(() => {
@@ -100,36 +109,14 @@ export function useTranscription(options?: UseTranscriptionOptions) {
       // Extract and process word-level information with speaker diarization
       const words = data.channel?.alternatives?.[0]?.words || [];
 
-      // Log diarization data
-      if (words.length > 0) {
-        console.log("===== Speaker Diarization Data =====");
-
-        // Group words by speaker for better visualization
-        const speakerUtterances: Record<string, string[]> = {};
-
-        words.forEach((word) => {
-          const speakerKey =
-            word.speaker !== undefined
-              ? `speaker_${word.speaker}`
-              : "unknown_speaker";
-
-          if (!speakerUtterances[speakerKey]) {
-            speakerUtterances[speakerKey] = [];
-          }
-
-          speakerUtterances[speakerKey].push(word.word);
-
-          console.log(
-            `Word: "${word.word}", Speaker: ${word.speaker}, Confidence: ${word.confidence?.toFixed(2)}, Time: ${word.start}s - ${word.end}s`
-          );
-        });
-
-        // Log grouped utterances by speaker
-        console.log("\n===== Speaker Utterances =====");
-        Object.entries(speakerUtterances).forEach(([speaker, utterances]) => {
-          console.log(`${speaker}: "${utterances.join(" ")}"`);
-        });
-        console.log("================================");
+      // Keep final words as timed speaker segments so they can be saved
+      // with the transcript
+      if (isFinal && words.length > 0) {
+        segmentsRef.current = appendSegments(
+          segmentsRef.current,
+          segmentsFromWords(words)
+        );
+        setSegments(segmentsRef.current);
       }
 
       // Process speaker segments from word-level data
@@ -345,9 +332,11 @@ export function useTranscription(options?: UseTranscriptionOptions) {
       // Reset transcript and speaker data
       setTranscript("");
       setSpeakerSegments({});
+      setSegments([]);
       finalTranscriptRef.current = "";
       interimTranscriptRef.current = "";
       speakerSegmentsRef.current = {};
+      segmentsRef.current = [];
       setElapsedTime(0);
 
       // Set up microphone if needed
@@ -418,6 +407,7 @@ export function useTranscription(options?: UseTranscriptionOptions) {
       return {
         transcript: finalTranscriptRef.current,
         speakerSegments: speakerSegmentsRef.current,
+        segments: segmentsRef.current,
       };
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err));
@@ -438,12 +428,14 @@ export function useTranscription(options?: UseTranscriptionOptions) {
     setIsLoading(false);
     setTranscript("");
     setSpeakerSegments({});
+    setSegments([]);
     setError(null);
     setElapsedTime(0);
 
     finalTranscriptRef.current = "";
     interimTranscriptRef.current = "";
     speakerSegmentsRef.current = {};
+    segmentsRef.current = [];
 
     if (timerIntervalRef.current) {
       clearInterval(timerIntervalRef.current);
@@ -463,6 +455,7 @@ export function useTranscription(options?: UseTranscriptionOptions) {
     isLoading,
     transcript,
     speakerSegments,
+    segments,
     error,
     elapsedTime,
     formattedTime: formatTime(elapsedTime),
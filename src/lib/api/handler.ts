@@ -0,0 +1,175 @@
+/**
+ * Request handling shared by the /api/v1 REST API routes
+ * Server-only: authenticates personal access tokens
+ *
+ * Routes do no authorization of their own beyond the token's scopes: they
+ * call the same server actions as the app, which run as the token's user in
+ * the token's clinic (see ./session.ts), so clinic membership, case
+ * visibility and row level security are checked exactly as they are there.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import type { z } from "zod";
+import type { Database } from "@/database.types";
+import { runWithApiSession, type ApiSession } from "./session";
+import type { ApiTokenScope } from "./scopes";
+import {
+  createSessionAccessToken,
+  hashAccessToken,
+  isAccessToken,
+} from "./tokens";
+
+type RouteParams = Record<string, string>;
+
+type ApiRouteHandler<P extends RouteParams> = (
+  request: NextRequest,
+  params: P
+) => Promise<Response>;
+
+/**
+ * A JSON response that is never cached
+ */
+export function apiJson(body: unknown, status = 200) {
+  const response = NextResponse.json(body, { status });
+  response.headers.set("Cache-Control", "no-store, max-age=0");
+  return response;
+}
+
+/**
+ * An error response: { "error": message } plus any details
+ */
+export function apiError(
+  message: string,
+  status: number,
+  details?: Record<string, unknown>
+) {
+  return apiJson({ error: message, ...details }, status);
+}
+
+/**
+ * Turns the error of a failed server action into a response
+ * Actions report missing records as "... not found" and refused access as
+ * "Unauthorized" or a permission message; anything else is a server error
+ */
+export function apiActionError(error: string | undefined) {
+  const message = error || "Something went wrong";
+
+  // Lookups with .single() that match nothing, or ids that are not uuids,
+  // fail in PostgREST before an action can say the record was not found
+  if (
+    /not found|coerce the result to a single JSON object|invalid input syntax for type uuid/i.test(
+      message
+    )
+  ) {
+    return apiError(message, 404);
+  }
+  if (/unauthorized|permission|logged in/i.test(message)) {
+    return apiError(message, 403);
+  }
+  return apiError(message, 500);
+}
+
+/**
+ * Reads and validates a JSON request body
+ */
+export async function parseApiBody<T extends z.ZodTypeAny>(
+  request: NextRequest,
+  schema: T
+): Promise<
+  { success: true; data: z.infer<T> } | { success: false; response: Response }
+> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      success: false,
+      response: apiError("The request body must be JSON", 400),
+    };
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return {
+      success: false,
+      response: apiError("Invalid request body", 400, {
+        issues: parsed.error.flatten().fieldErrors,
+      }),
+    };
+  }
+
+  return { success: true, data: parsed.data };
+}
+
+/**
+ * Looks up the personal access token in the Authorization header
+ */
+async function authenticate(request: NextRequest): Promise<ApiSession | null> {
+  const match = request.headers
+    .get("authorization")
+    ?.match(/^Bearer\s+(\S+)$/i);
+  const token = match?.[1];
+
+  if (!token || !isAccessToken(token)) {
+    return null;
+  }
+
+  // There is no session yet: the lookup runs as anon through a security
+  // definer function that only returns tokens that are still valid
+  const supabase = createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  );
+  const { data, error } = await supabase.rpc("authenticate_access_token", {
+    token_hash: hashAccessToken(token),
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const row = data?.[0];
+  if (!row) {
+    return null;
+  }
+
+  return {
+    tokenId: row.token_id,
+    userId: row.user_id,
+    clinicId: row.clinic_id,
+    scopes: row.scopes,
+    accessToken: createSessionAccessToken(row.user_id),
+  };
+}
+
+/**
+ * Wraps a route handler so it only runs for a personal access token with
+ * the given scope, as the token's user
+ */
+export function withApiToken<P extends RouteParams = RouteParams>(
+  scope: ApiTokenScope,
+  handler: ApiRouteHandler<P>
+) {
+  return async (request: NextRequest, context: { params: Promise<P> }) => {
+    try {
+      const session = await authenticate(request);
+
+      if (!session) {
+        return apiError("A valid personal access token is required", 401, {
+          hint: "Send it as: Authorization: Bearer <token>",
+        });
+      }
+      if (!session.scopes.includes(scope)) {
+        return apiError(`This token does not have the ${scope} scope`, 403);
+      }
+
+      const params = ((await context?.params) || {}) as P;
+      return await runWithApiSession(session, () => handler(request, params));
+    } catch (error) {
+      console.error("Failed to handle API request:", error);
+      return apiError("Something went wrong", 500);
+    }
+  };
+}
@@ -0,0 +1,618 @@
+/**
+ * OpenAPI description of the /api/v1 REST API, served at
+ * /api/v1/openapi.json
+ * Enum values come from the database types so the document stays in step
+ * with the schema; keep operations in step with the routes in app/api/v1.
+ */
+
+import { Constants } from "@/database.types";
+import { API_TOKEN_SCOPE_CATALOG, type ApiTokenScope } from "./scopes";
+
+type Schema = Record<string, unknown>;
+
+const Enums = Constants.public.Enums;
+
+const ref = (name: string): Schema => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+const nullable = (type: string, extra: Schema = {}): Schema => ({
+  type: [type, "null"],
+  ...extra,
+});
+
+const idParameter = (description: string) => ({
+  name: "id",
+  in: "path",
+  required: true,
+  description,
+  schema: { type: "string", format: "uuid" },
+});
+
+const queryParameter = (name: string, schema: Schema, description: string) => ({
+  name,
+  in: "query",
+  required: false,
+  description,
+  schema,
+});
+
+const jsonBody = (schema: Schema) => ({
+  required: true,
+  content: { "application/json": { schema } },
+});
+
+const dataResponse = (description: string, data: Schema, meta = false) => ({
+  description,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        required: meta ? ["data", "meta"] : ["data"],
+        properties: meta ? { data, meta: ref("PaginationMeta") } : { data },
+      },
+    },
+  },
+});
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: ref("Error") } },
+});
+
+/**
+ * An operation with the responses every route can give
+ */
+function operation(
+  scope: ApiTokenScope,
+  summary: string,
+  responses: Record<string, unknown>,
+  extra: Schema = {}
+) {
+  return {
+    summary,
+    description: `Requires the \`${scope}\` scope.`,
+    security: [{ personalAccessToken: [] }],
+    ...extra,
+    responses: {
+      ...responses,
+      "400": errorResponse("Invalid parameters or request body"),
+      "401": errorResponse("Missing, invalid, expired or revoked token"),
+      "403": errorResponse(
+        "The token lacks the scope, or its user may not do this"
+      ),
+      "404": errorResponse("Not found, or not visible to the token's user"),
+    },
+  };
+}
+
+const schemas: Record<string, Schema> = {
+  Error: {
+    type: "object",
+    required: ["error"],
+    properties: {
+      error: { type: "string" },
+      issues: {
+        type: "object",
+        description: "Messages for each invalid field",
+        additionalProperties: { type: "array", items: { type: "string" } },
+      },
+    },
+  },
+  PaginationMeta: {
+    type: "object",
+    properties: {
+      total: { type: "integer" },
+      page: { type: "integer" },
+      pageSize: { type: "integer" },
+      pageCount: { type: "integer" },
+    },
+  },
+  Case: {
+    type: "object",
+    properties: {
+      id: { type: "string", format: "uuid" },
+      clinic_id: nullable("string", { format: "uuid" }),
+      user_id: nullable("string", { format: "uuid" }),
+      patient_id: nullable("string", { format: "uuid" }),
+      type: nullable("string", { enum: [...Enums.CaseType, null] }),
+      status: nullable("string", { enum: [...Enums.CaseStatus, null] }),
+      visibility: nullable("string", {
+        enum: [...Enums.CaseVisibility, null],
+      }),
+      created_at: nullable("string", { format: "date-time" }),
+      updated_at: nullable("string", { format: "date-time" }),
+    },
+  },
+  CaseInput: {
+    type: "object",
+    required: ["name", "dateTime", "assignedTo", "type"],
+    properties: {
+      name: {
+        type: "string",
+        description: "Patient name; used to find or create the patient",
+      },
+      dateTime: { type: "string", format: "date-time" },
+      assignedTo: { type: "string", description: "Owner name" },
+      patientId: {
+        type: "string",
+        format: "uuid",
+        description: "Existing patient; name and assignedTo are then ignored",
+      },
+      type: { type: "string", enum: Enums.CaseType },
+      status: { type: "string", enum: Enums.CaseStatus, default: "ongoing" },
+      visibility: {
+        type: "string",
+        enum: Enums.CaseVisibility,
+        default: "private",
+      },
+    },
+  },
+  CaseUpdate: {
+    type: "object",
+    properties: {
+      status: { type: "string", enum: Enums.CaseStatus },
+      visibility: { type: "string", enum: Enums.CaseVisibility },
+    },
+  },
+  Patient: {
+    type: "object",
+    properties: {
+      id: { type: "string", format: "uuid" },
+      clinic_id: { type: "string", format: "uuid" },
+      client_id: nullable("string", { format: "uuid" }),
+      name: { type: "string" },
+      owner_name: { type: "string" },
+      species: nullable("string"),
+      breed: nullable("string"),
+      sex: { type: "string", enum: Enums.PatientSex },
+      neuter_status: { type: "string", enum: Enums.NeuterStatus },
+      date_of_birth: nullable("string", { format: "date" }),
+      microchip_number: nullable("string"),
+      allergies: { type: "array", items: { type: "string" } },
+      created_at: { type: "string", format: "date-time" },
+      updated_at: nullable("string", { format: "date-time" }),
+    },
+  },
+  PatientInput: {
+    type: "object",
+    required: ["name", "owner_name"],
+    properties: {
+      name: { type: "string" },
+      owner_name: { type: "string" },
+      client_id: nullable("string", { format: "uuid" }),
+      species: nullable("string"),
+      breed: nullable("string"),
+      sex: { type: "string", enum: Enums.PatientSex },
+      neuter_status: { type: "string", enum: Enums.NeuterStatus },
+      date_of_birth: nullable("string", { format: "date" }),
+      microchip_number: nullable("string"),
+      allergies: { type: "array", items: { type: "string" } },
+    },
+  },
+  Transcription: {
+    type: "object",
+    properties: {
+      id: { type: "string", format: "uuid" },
+      case_id: nullable("string", { format: "uuid" }),
+      audio_file_id: nullable("string", { format: "uuid" }),
+      transcript: nullable("string"),
+      segments: {
+        type: "array",
+        description: "Timed utterances with their speaker",
+        items: { type: "object" },
+      },
+      speaker_labels: {
+        type: "object",
+        description: "Names given to speakers, by speaker number",
+      },
+      processing_status: { type: "string", enum: Enums.TranscriptionStatus },
+      processing_error: nullable("string"),
+      created_at: { type: "string", format: "date-time" },
+      updated_at: nullable("string", { format: "date-time" }),
+    },
+  },
+  StructuredNote: {
+    type: "object",
+    description:
+      "A note made of typed sections; SOAP notes have the subjective, objective, assessment and plan sections",
+    required: ["title", "templateId", "sections"],
+    properties: {
+      title: { type: "string" },
+      templateId: nullable("string"),
+      sections: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["key", "title", "field", "value"],
+          properties: {
+            key: { type: "string" },
+            title: { type: "string" },
+            field: {
+              type: "object",
+              description: "Field definition, as in a template's output schema",
+            },
+            value: { description: "Value matching the field, or null" },
+          },
+        },
+      },
+    },
+  },
+  SoapNote: {
+    type: "object",
+    properties: {
+      id: { type: "string", format: "uuid" },
+      case_id: nullable("string", { format: "uuid" }),
+      title: { type: "string" },
+      template_id: nullable("string"),
+      sections: { type: "array", items: { type: "object" } },
+      transcript: nullable("string"),
+      created_at: { type: "string", format: "date-time" },
+      updated_at: nullable("string", { format: "date-time" }),
+    },
+  },
+  Generation: {
+    type: "object",
+    properties: {
+      id: { type: "string", format: "uuid" },
+      case_id: nullable("string", { format: "uuid" }),
+      template_id: nullable("string"),
+      template_version: nullable("integer"),
+      content: nullable("string", {
+        description: "Generated text, or JSON for structured templates",
+      }),
+      prompt: nullable("string"),
+      provider: nullable("string"),
+      model: nullable("string"),
+      source: { type: "string", enum: Enums.GenerationSource },
+      parent_id: nullable("string", { format: "uuid" }),
+      transcription_ids: {
+        type: "array",
+        items: { type: "string", format: "uuid" },
+      },
+      created_at: { type: "string", format: "date-time" },
+    },
+  },
+  Template: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      clinic_id: nullable("string", {
+        format: "uuid",
+        description: "Null for built-in templates",
+      }),
+      name: nullable("string"),
+      type: nullable("string"),
+      description: nullable("string"),
+      prompt: nullable("string"),
+      output_schema: {
+        type: ["object", "null"],
+        description: "Fields of structured output; null for free text",
+      },
+      provider: nullable("string"),
+      model: nullable("string"),
+      version: { type: "integer" },
+    },
+  },
+};
+
+const scopeList = Object.entries(API_TOKEN_SCOPE_CATALOG)
+  .map(([scope, { description }]) => `- \`${scope}\`: ${description}`)
+  .join("\n");
+
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "OdisAI API",
+    version: "1.0.0",
+    description: [
+      "Cases, patients, transcriptions, SOAP notes, generations and templates of one clinic.",
+      "",
+      "Authenticate with a personal access token created in Settings > API Tokens, sent as `Authorization: Bearer <token>`. A token acts as the user who created it in the clinic it was created for: it sees and changes exactly what that user can in the app, limited to its scopes.",
+      "",
+      "Scopes:",
+      scopeList,
+    ].join("\n"),
+  },
+  servers: [{ url: "/api/v1" }],
+  components: {
+    securitySchemes: {
+      personalAccessToken: {
+        type: "http",
+        scheme: "bearer",
+        description: "A personal access token, odis_pat_…",
+      },
+    },
+    schemas,
+  },
+  paths: {
+    "/cases": {
+      get: operation(
+        "cases:read",
+        "Search cases",
+        {
+          "200": dataResponse(
+            "Matching cases",
+            { type: "array", items: ref("Case") },
+            true
+          ),
+        },
+        {
+          parameters: [
+            queryParameter(
+              "search",
+              { type: "string" },
+              "Patient, owner or case text"
+            ),
+            queryParameter(
+              "status",
+              {
+                type: "array",
+                items: {
+                  type: "string",
+                  enum: ["draft", "in_progress", "completed"],
+                },
+              },
+              "Repeat for several"
+            ),
+            queryParameter(
+              "type",
+              {
+                type: "array",
+                items: { type: "string", enum: Enums.CaseType },
+              },
+              "Repeat for several"
+            ),
+            queryParameter("assignedToId", { type: "string" }, "Case owner"),
+            queryParameter(
+              "dateFrom",
+              { type: "string", format: "date-time" },
+              "Earliest case date"
+            ),
+            queryParameter(
+              "dateTo",
+              { type: "string", format: "date-time" },
+              "Cases before this time (exclusive); for a whole last day, pass the start of the next day"
+            ),
+            queryParameter(
+              "sortBy",
+              { type: "string", enum: ["dateTime", "updatedAt", "name"] },
+              "Defaults to dateTime"
+            ),
+            queryParameter(
+              "sortOrder",
+              { type: "string", enum: ["asc", "desc"] },
+              "Defaults to desc"
+            ),
+            queryParameter("page", { type: "integer", minimum: 1 }, "From 1"),
+            queryParameter(
+              "pageSize",
+              { type: "integer", minimum: 1, maximum: 100 },
+              "Defaults to 10"
+            ),
+          ],
+        }
+      ),
+      post: operation(
+        "cases:write",
+        "Create a case",
+        { "201": dataResponse("The new case", ref("Case")) },
+        { requestBody: jsonBody(ref("CaseInput")) }
+      ),
+    },
+    "/cases/{id}": {
+      parameters: [idParameter("Case id")],
+      get: operation("cases:read", "Get a case", {
+        "200": dataResponse(
+          "The case with its patient, transcriptions, notes and generations",
+          ref("Case")
+        ),
+      }),
+      patch: operation(
+        "cases:write",
+        "Update a case's status or visibility",
+        { "200": dataResponse("The updated case", ref("Case")) },
+        { requestBody: jsonBody(ref("CaseUpdate")) }
+      ),
+    },
+    "/cases/{id}/transcriptions": {
+      parameters: [idParameter("Case id")],
+      get: operation("transcriptions:read", "List a case's transcriptions", {
+        "200": dataResponse("Transcriptions, newest first", {
+          type: "array",
+          items: ref("Transcription"),
+        }),
+      }),
+      post: operation(
+        "transcriptions:write",
+        "Add a transcript to a case",
+        { "201": dataResponse("The new transcription", ref("Transcription")) },
+        {
+          requestBody: jsonBody({
+            type: "object",
+            required: ["transcript"],
+            properties: { transcript: { type: "string" } },
+          }),
+        }
+      ),
+    },
+    "/cases/{id}/notes": {
+      parameters: [idParameter("Case id")],
+      get: operation("notes:read", "List a case's SOAP notes", {
+        "200": dataResponse("SOAP notes", {
+          type: "array",
+          items: ref("SoapNote"),
+        }),
+      }),
+      post: operation(
+        "notes:write",
+        "Save a note to a case",
+        { "201": dataResponse("The new note", ref("SoapNote")) },
+        {
+          requestBody: jsonBody({
+            type: "object",
+            required: ["note"],
+            properties: {
+              transcript: {
+                type: "string",
+                description: "Transcript the note was written from",
+              },
+              note: ref("StructuredNote"),
+            },
+          }),
+        }
+      ),
+    },
+    "/cases/{id}/generations": {
+      parameters: [idParameter("Case id")],
+      get: operation("generations:read", "List a case's generations", {
+        "200": dataResponse("Generations, newest first", {
+          type: "array",
+          items: ref("Generation"),
+        }),
+      }),
+      post: operation(
+        "generations:write",
+        "Generate content from a template",
+        {
+          "201": {
+            description: "The saved generation and its content",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: ref("Generation"),
+                    content: {
+                      description:
+                        "Text, or an object matching the template's output schema",
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "422": errorResponse(
+            "The generated content did not match the template's fields"
+          ),
+        },
+        {
+          requestBody: jsonBody({
+            type: "object",
+            required: ["templateId"],
+            properties: {
+              templateId: { type: "string" },
+              transcriptionIds: {
+                type: "array",
+                items: { type: "string", format: "uuid" },
+                description:
+                  "Transcriptions to generate from; all of the case's by default",
+              },
+            },
+          }),
+        }
+      ),
+    },
+    "/transcriptions/{id}": {
+      parameters: [idParameter("Transcription id")],
+      get: operation("transcriptions:read", "Get a transcription", {
+        "200": dataResponse("The transcription", ref("Transcription")),
+      }),
+    },
+    "/notes/{id}": {
+      parameters: [idParameter("SOAP note id")],
+      get: operation("notes:read", "Get a SOAP note", {
+        "200": dataResponse("The note", ref("SoapNote")),
+      }),
+      patch: operation(
+        "notes:write",
+        "Replace a SOAP note's title and sections",
+        { "200": dataResponse("The updated note", ref("SoapNote")) },
+        {
+          requestBody: jsonBody({
+            type: "object",
+            required: ["note"],
+            properties: { note: ref("StructuredNote") },
+          }),
+        }
+      ),
+      delete: operation("notes:write", "Delete a SOAP note", {
+        "204": { description: "The note was deleted" },
+      }),
+    },
+    "/patients": {
+      get: operation(
+        "patients:read",
+        "Search patients",
+        {
+          "200": dataResponse(
+            "Matching patients",
+            { type: "array", items: ref("Patient") },
+            true
+          ),
+        },
+        {
+          parameters: [
+            queryParameter(
+              "search",
+              { type: "string" },
+              "Name, owner or microchip number"
+            ),
+            queryParameter("species", { type: "string" }, "Exact species"),
+            queryParameter("page", { type: "integer", minimum: 1 }, "From 1"),
+            queryParameter(
+              "pageSize",
+              { type: "integer", minimum: 1, maximum: 100 },
+              "Defaults to 20"
+            ),
+          ],
+        }
+      ),
+      post: operation(
+        "patients:write",
+        "Create a patient",
+        { "201": dataResponse("The new patient", ref("Patient")) },
+        { requestBody: jsonBody(ref("PatientInput")) }
+      ),
+    },
+    "/patients/{id}": {
+      parameters: [idParameter("Patient id")],
+      get: operation("patients:read", "Get a patient", {
+        "200": dataResponse(
+          "The patient with their owner and weight history",
+          ref("Patient")
+        ),
+      }),
+      patch: operation(
+        "patients:write",
+        "Update a patient",
+        { "200": dataResponse("The updated patient", ref("Patient")) },
+        {
+          requestBody: jsonBody({
+            ...ref("PatientInput"),
+            description: "Only the fields to change",
+          }),
+        }
+      ),
+    },
+    "/templates": {
+      get: operation("templates:read", "List templates", {
+        "200": dataResponse("Built-in templates and the clinic's own", {
+          type: "array",
+          items: ref("Template"),
+        }),
+      }),
+    },
+    "/templates/{id}": {
+      parameters: [
+        {
+          ...idParameter("Template id"),
+          schema: { type: "string" },
+        },
+      ],
+      get: operation("templates:read", "Get a template", {
+        "200": dataResponse("The template", ref("Template")),
+      }),
+    },
+  },
+};
@@ -0,0 +1,61 @@
+/**
+ * Scopes personal access tokens are granted for the /api/v1 REST API
+ * Safe to import from client components: the scope catalogue only. Tokens
+ * and request handling live in ./tokens.ts and ./handler.ts.
+ */
+
+import { Constants, type Enums } from "@/database.types";
+
+export type ApiTokenScope = Enums<"ApiTokenScope">;
+
+export const API_TOKEN_SCOPES = Constants.public.Enums.ApiTokenScope;
+
+export const API_TOKEN_SCOPE_CATALOG: Record<
+  ApiTokenScope,
+  { label: string; description: string }
+> = {
+  "cases:read": {
+    label: "Read cases",
+    description: "Search and view cases",
+  },
+  "cases:write": {
+    label: "Write cases",
+    description: "Create cases and change their status and visibility",
+  },
+  "patients:read": {
+    label: "Read patients",
+    description: "Search and view patients",
+  },
+  "patients:write": {
+    label: "Write patients",
+    description: "Create and update patients",
+  },
+  "transcriptions:read": {
+    label: "Read transcriptions",
+    description: "View the transcriptions of cases",
+  },
+  "transcriptions:write": {
+    label: "Write transcriptions",
+    description: "Add transcripts to cases",
+  },
+  "notes:read": {
+    label: "Read SOAP notes",
+    description: "View the SOAP notes of cases",
+  },
+  "notes:write": {
+    label: "Write SOAP notes",
+    description: "Create, update and delete SOAP notes",
+  },
+  "generations:read": {
+    label: "Read generations",
+    description: "View content generated for cases",
+  },
+  "generations:write": {
+    label: "Write generations",
+    description: "Generate content from templates for cases",
+  },
+  "templates:read": {
+    label: "Read templates",
+    description: "List and view the templates available to you",
+  },
+};
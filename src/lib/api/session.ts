@@ -0,0 +1,34 @@
+/**
+ * The personal access token session of the current API request
+ * Server-only: set by the /api/v1 handler for the duration of a request and
+ * read by the Supabase client and the clinic helpers, so server actions
+ * called from the API act as the token's user in the token's clinic
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { ApiTokenScope } from "./scopes";
+
+export type ApiSession = {
+  tokenId: string;
+  userId: string;
+  clinicId: string;
+  scopes: ApiTokenScope[];
+  // Supabase access token of the user, valid for this request only
+  accessToken: string;
+};
+
+const storage = new AsyncLocalStorage<ApiSession>();
+
+/**
+ * Runs the callback with the session as the current API session
+ */
+export function runWithApiSession<T>(session: ApiSession, callback: () => T) {
+  return storage.run(session, callback);
+}
+
+/**
+ * Gets the current API session, or undefined outside API requests
+ */
+export function getApiSession(): ApiSession | undefined {
+  return storage.getStore();
+}
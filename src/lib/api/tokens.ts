@@ -0,0 +1,84 @@
+/**
+ * Personal access tokens and the sessions they open
+ * Server-only: sessions are signed with the Supabase project's JWT secret
+ *
+ * A token is "odis_pat_" followed by random characters. Only its SHA-256
+ * hash is stored. For each API request the token is exchanged for a
+ * Supabase access token of its user that expires after a few minutes, so
+ * the request runs under the same row level security as the app.
+ */
+
+import { createHash, createHmac, randomBytes } from "crypto";
+
+const TOKEN_PREFIX = "odis_pat_";
+
+// Characters of a token shown in settings to tell tokens apart
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 4;
+
+// Lifetime of the Supabase session opened for one API request
+const SESSION_LIFETIME_SECONDS = 5 * 60;
+
+/**
+ * Gets the Supabase project's JWT secret
+ */
+function getJwtSecret(): string {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error("SUPABASE_JWT_SECRET environment variable is not set");
+  }
+  return secret;
+}
+
+/**
+ * Creates a token with the hash to store and the prefix to display
+ */
+export function generateAccessToken(): {
+  token: string;
+  tokenHash: string;
+  tokenPrefix: string;
+} {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return {
+    token,
+    tokenHash: hashAccessToken(token),
+    tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+  };
+}
+
+/**
+ * Hashes a token the way it is stored
+ */
+export function hashAccessToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Whether a string looks like a personal access token, so that other bearer
+ * tokens are turned away before a database lookup
+ */
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(TOKEN_PREFIX) && token.length > TOKEN_PREFIX.length;
+}
+
+/**
+ * Signs a short-lived Supabase access token for the user
+ */
+export function createSessionAccessToken(userId: string): string {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  const header = encode({ alg: "HS256", typ: "JWT" });
+  const payload = encode({
+    sub: userId,
+    role: "authenticated",
+    aud: "authenticated",
+    iat: issuedAt,
+    exp: issuedAt + SESSION_LIFETIME_SECONDS,
+  });
+  const signature = createHmac("sha256", getJwtSecret())
+    .update(`${header}.${payload}`)
+    .digest("base64url");
+
+  return `${header}.${payload}.${signature}`;
+}
@@ -0,0 +1,59 @@
+import * as tus from "tus-js-client";
+import { createClient } from "@/src/lib/supabase/client";
+import { AUDIO_BUCKET, AUDIO_UPLOAD_CHUNK_SIZE } from "@/src/lib/constants";
+
+/**
+ * Resumable upload of a recording to the private recordings bucket
+ *
+ * Uses Supabase's TUS endpoint so a dropped connection resumes from the last
+ * uploaded chunk instead of starting again; progress is reported as a
+ * fraction between 0 and 1.
+ */
+export async function uploadRecording(
+  blob: Blob,
+  filePath: string,
+  onProgress?: (fraction: number) => void
+): Promise<void> {
+  const supabase = createClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error("You must be signed in to upload recordings");
+  }
+
+  return new Promise((resolve, reject) => {
+    const upload = new tus.Upload(blob, {
+      endpoint: `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`,
+      retryDelays: [0, 1000, 3000, 5000, 10000],
+      headers: {
+        authorization: `Bearer ${session.access_token}`,
+        apikey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      },
+      uploadDataDuringCreation: true,
+      // Lets a retried upload of the same file pick up where it left off
+      removeFingerprintOnSuccess: true,
+      metadata: {
+        bucketName: AUDIO_BUCKET,
+        objectName: filePath,
+        contentType: blob.type || "audio/webm",
+        cacheControl: "3600",
+      },
+      chunkSize: AUDIO_UPLOAD_CHUNK_SIZE,
+      onError: reject,
+      onProgress: (bytesUploaded, bytesTotal) => {
+        onProgress?.(bytesTotal > 0 ? bytesUploaded / bytesTotal : 0);
+      },
+      onSuccess: () => resolve(),
+    });
+
+    // Resume a previous attempt for this file if one was interrupted
+    upload.findPreviousUploads().then((previousUploads) => {
+      if (previousUploads.length > 0) {
+        upload.resumeFromPreviousUpload(previousUploads[0]);
+      }
+      upload.start();
+    }, reject);
+  });
+}
@@ -45,10 +45,19 @@
 //   endpointing: 200,
 // };
 
-export const DEEPGRAM_CONFIG = {
-  model: "nova-3",
-  interim_results: true,
-  smart_format: true,
-  filler_words: true,
-  utterance_end_ms: 3000,
-};
+export const CLINIC_ROLE_LABELS = {
+  owner: "Owner",
+  veterinarian: "Veterinarian",
+  technician: "Technician",
+  front_desk: "Front Desk",
+} as const;
+
+// Private storage bucket holding raw consult recordings
+export const AUDIO_BUCKET = "recordings";
+
+// Matches the bucket's file size limit
+export const AUDIO_MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+// Recordings are uploaded in 6 MB chunks, the size Supabase's resumable
+// upload endpoint expects
+export const AUDIO_UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
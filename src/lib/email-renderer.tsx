@@ -1,6 +1,7 @@
 import { ReactElement } from "react";
 import WelcomeEmail from "@/emails/WelcomeEmail";
 import PasswordResetEmail from "@/emails/PasswordResetEmail";
+import ClinicInvitationEmail from "@/emails/ClinicInvitationEmail";
 // Import the React Email render function instead of react-dom/server
 import { render } from "@react-email/components";
 
@@ -30,6 +31,35 @@ export async function renderPasswordResetEmail({
   return renderEmailToString(emailComponent);
 }
 
+/**
+ * Renders the Clinic Invitation Email template
+ */
+export async function renderClinicInvitationEmail({
+  clinicName,
+  inviterName,
+  roleLabel,
+  inviteLink,
+  expiresInDays,
+}: {
+  clinicName: string;
+  inviterName: string;
+  roleLabel: string;
+  inviteLink: string;
+  expiresInDays: number;
+}): Promise<string> {
+  // Create the email component
+  const emailComponent = (
+    <ClinicInvitationEmail
+      clinicName={clinicName}
+      inviterName={inviterName}
+      roleLabel={roleLabel}
+      inviteLink={inviteLink}
+      expiresInDays={expiresInDays}
+    />
+  );
+  return renderEmailToString(emailComponent);
+}
+
 /**
  * Helper function to render React element to HTML string
  * Using @react-email/components render function which is compatible with Next.js Server Components
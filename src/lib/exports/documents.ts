@@ -0,0 +1,138 @@
+/**
+ * Document exports
+ * Safe to import from client components: the Export Center lists the formats
+ * and the server renders the exported file with the same helpers
+ *
+ * Generations and notes are exported as structured notes (see
+ * /src/lib/notes/structured-note.ts). Documents exported together are
+ * combined into a single file, one document after another.
+ */
+
+import {
+  noteToHtml,
+  noteToText,
+  type NoteSection,
+} from "@/src/lib/notes/structured-note";
+import { escapeHtml } from "@/src/lib/templates/variables";
+
+// The two kinds of document that go through review and export
+export type DocumentType = "generation" | "soap_note";
+
+export type DocumentRef = {
+  type: DocumentType;
+  id: string;
+};
+
+export type ExportFormatValue = "text" | "markdown" | "html" | "json";
+
+// A document as it is written to an export
+export type ExportableDocument = {
+  title: string;
+  visitType: string | null;
+  patientName: string | null;
+  createdAt: string;
+  sections: NoteSection[];
+};
+
+export const EXPORT_FORMATS: Array<{
+  value: ExportFormatValue;
+  label: string;
+  extension: string;
+  mimeType: string;
+}> = [
+  {
+    value: "text",
+    label: "Plain text",
+    extension: "txt",
+    mimeType: "text/plain",
+  },
+  {
+    value: "markdown",
+    label: "Markdown",
+    extension: "md",
+    mimeType: "text/markdown",
+  },
+  { value: "html", label: "HTML", extension: "html", mimeType: "text/html" },
+  {
+    value: "json",
+    label: "JSON",
+    extension: "json",
+    mimeType: "application/json",
+  },
+];
+
+// Most documents one export may contain
+export const MAX_EXPORT_DOCUMENTS = 100;
+
+export function documentKey(ref: DocumentRef) {
+  return `${ref.type}:${ref.id}`;
+}
+
+function documentSubtitle(document: ExportableDocument) {
+  return [
+    document.patientName,
+    document.visitType,
+    new Date(document.createdAt).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    }),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/**
+ * Renders documents into one file in the given format
+ */
+export function renderExport(
+  documents: ExportableDocument[],
+  format: ExportFormatValue,
+  exportedAt: Date = new Date()
+): { filename: string; mimeType: string; content: string } {
+  const { extension, mimeType } =
+    EXPORT_FORMATS.find((f) => f.value === format) || EXPORT_FORMATS[0];
+  const filename = `export-${exportedAt.toISOString().slice(0, 10)}.${extension}`;
+
+  let content: string;
+  switch (format) {
+    case "json":
+      content = JSON.stringify(
+        documents.map((document) => ({
+          title: document.title,
+          visitType: document.visitType,
+          patient: document.patientName,
+          createdAt: document.createdAt,
+          sections: document.sections.map((section) => ({
+            key: section.key,
+            title: section.title,
+            value: section.value,
+          })),
+        })),
+        null,
+        2
+      );
+      break;
+    case "html":
+      content = [
+        "<!DOCTYPE html>",
+        '<html><head><meta charset="utf-8"><title>Export</title></head><body>',
+        ...documents.map(
+          (document) =>
+            `<article>\n<h2>${escapeHtml(document.title)}</h2>\n<p>${escapeHtml(documentSubtitle(document))}</p>\n${noteToHtml(document.sections)}\n</article>`
+        ),
+        "</body></html>",
+      ].join("\n");
+      break;
+    default:
+      // Markdown and plain text share the note's Markdown-style text
+      content = documents
+        .map(
+          (document) =>
+            `# ${document.title}\n${documentSubtitle(document)}\n\n${noteToText(document.sections)}`
+        )
+        .join("\n\n---\n\n");
+  }
+
+  return { filename, mimeType, content };
+}
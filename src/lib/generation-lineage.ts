@@ -0,0 +1,57 @@
+/**
+ * Generation versions
+ * Safe to import from client components. Each edit, restore or regeneration
+ * of a generation is saved as a new row pointing at the version it came from
+ * (parent_id); a lineage is a first version and everything derived from it.
+ */
+
+type LineageNode = {
+  id: string;
+  parent_id: string | null;
+  created_at: string;
+};
+
+/**
+ * Groups generations into lineages, each ordered from the first version to
+ * the latest; lineages with the most recent change come first
+ */
+export function groupLineages<T extends LineageNode>(generations: T[]): T[][] {
+  const byId = new Map(generations.map((g) => [g.id, g]));
+
+  // A parent that was deleted or belongs elsewhere starts a new lineage
+  const rootOf = (generation: T) => {
+    const seen = new Set<string>();
+    let current = generation;
+    while (current.parent_id && byId.has(current.parent_id) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.parent_id)!;
+    }
+    return current.id;
+  };
+
+  const lineages = new Map<string, T[]>();
+  for (const generation of generations) {
+    const root = rootOf(generation);
+    lineages.set(root, [...(lineages.get(root) || []), generation]);
+  }
+
+  const byCreated = (a: T, b: T) => a.created_at.localeCompare(b.created_at);
+  return Array.from(lineages.values())
+    .map((versions) => versions.sort(byCreated))
+    .sort((a, b) => byCreated(b[b.length - 1], a[a.length - 1]));
+}
+
+/**
+ * Versions of the lineage a generation belongs to, or an empty list when the
+ * generation is not among them
+ */
+export function lineageOf<T extends LineageNode>(
+  generations: T[],
+  generationId: string
+): T[] {
+  return (
+    groupLineages(generations).find((versions) =>
+      versions.some((g) => g.id === generationId)
+    ) || []
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * Client for the streaming generation route
+ * The route answers with newline-delimited JSON events: text deltas for
+ * free-text templates, growing partial objects for templates with an output
+ * schema, then a single "done" or "error" event.
+ */
+
+import type { TemplateFieldError } from "@/src/lib/templates/schema";
+import type {
+  SpeakerLabels,
+  TranscriptSegment,
+} from "@/src/lib/transcription/types";
+
+export const GENERATION_STREAM_URL = "/api/generations/stream";
+
+export type GenerationStreamEvent =
+  | { type: "text-delta"; delta: string }
+  | { type: "object"; content: Record<string, unknown> }
+  | {
+      type: "done";
+      content: string | Record<string, unknown>;
+      generationId?: string;
+    }
+  | { type: "error"; error: string; fieldErrors?: TemplateFieldError[] };
+
+export interface GenerationStreamRequest {
+  templateId: string;
+  caseId?: string;
+  transcriptions: Array<
+    | string
+    | {
+        // Saved transcription the transcript came from
+        id?: string;
+        transcript: string;
+        segments?: TranscriptSegment[];
+        speakerLabels?: SpeakerLabels;
+      }
+  >;
+}
+
+interface StreamGenerationOptions {
+  signal?: AbortSignal;
+  // Called with the full text generated so far
+  onText?: (text: string) => void;
+  // Called with the partial object generated so far
+  onObject?: (content: Record<string, unknown>) => void;
+}
+
+/**
+ * Streams a generation, reporting progress through the callbacks
+ * Resolves with the final "done" or "error" event; aborting the signal
+ * cancels the request and the upstream model call and rejects with an
+ * AbortError
+ */
+export async function streamGeneration(
+  request: GenerationStreamRequest,
+  { signal, onText, onObject }: StreamGenerationOptions = {}
+): Promise<Extract<GenerationStreamEvent, { type: "done" | "error" }>> {
+  const response = await fetch(GENERATION_STREAM_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    return {
+      type: "error",
+      error: body?.error || `Generation failed (${response.status})`,
+    };
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  let text = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffered += value;
+    const lines = buffered.split("\n");
+    buffered = lines.pop() || "";
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      const event = JSON.parse(line) as GenerationStreamEvent;
+      switch (event.type) {
+        case "text-delta":
+          text += event.delta;
+          onText?.(text);
+          break;
+        case "object":
+          onObject?.(event.content);
+          break;
+        case "done":
+        case "error":
+          return event;
+      }
+    }
+  }
+
+  return { type: "error", error: "The generation ended unexpectedly" };
+}
@@ -0,0 +1,22 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LlmProvider } from "./types";
+
+const ANTHROPIC_BASE_URL = "https://api.anthropic.com/v1/";
+
+/**
+ * Anthropic Claude models through Anthropic's OpenAI-compatible endpoint
+ */
+export function createAnthropicProvider(apiKey: string): LlmProvider {
+  const anthropic = createOpenAI({
+    name: "anthropic",
+    baseURL: ANTHROPIC_BASE_URL,
+    apiKey,
+    // The endpoint implements the chat API but not OpenAI-only extensions
+    compatibility: "compatible",
+  });
+
+  return {
+    id: "anthropic",
+    languageModel: (modelId) => anthropic(modelId),
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Client for the AI processor Lambda's /analyze route
+ * (infrastructure/lambda/lambda_function.py)
+ * Server-only: requests are signed with the app's AWS credentials
+ */
+
+import { signRequest, type AwsCredentials } from "./sigv4";
+import type { LlmMessage } from "./types";
+
+// Body of POST /analyze; either prompt or messages is required
+export interface AnalyzeRequest {
+  prompt?: string;
+  messages?: LlmMessage[];
+  system?: string;
+  // JSON Schema of the structured content to return instead of text
+  output_schema?: Record<string, unknown>;
+  schema_name?: string;
+  schema_description?: string;
+  // Defaults to the Lambda's BEDROCK_MODEL_ID
+  model_id?: string;
+  max_tokens?: number;
+  temperature?: number;
+  stop_sequences?: string[];
+}
+
+export interface AnalyzeResponse {
+  // Text, or an object matching output_schema when one was sent
+  content: string | Record<string, unknown>;
+  // Bedrock stop reason, e.g. "end_turn", "tool_use" or "max_tokens"
+  stop_reason: string | null;
+  usage: { input_tokens: number; output_tokens: number };
+  model_id: string;
+}
+
+export interface BedrockClient {
+  analyze(
+    request: AnalyzeRequest,
+    options?: { signal?: AbortSignal }
+  ): Promise<AnalyzeResponse>;
+}
+
+interface BedrockClientOptions {
+  // API Gateway endpoint, e.g. https://abc123.execute-api.us-east-1.amazonaws.com
+  endpoint: string;
+  // Requests are sent unsigned without credentials, e.g. to a local Lambda
+  credentials?: AwsCredentials;
+  // Defaults to the region in the endpoint's host name
+  region?: string;
+}
+
+// Backoff between attempts; a request is tried once more than there are delays
+const RETRY_DELAYS_MS = [500, 1500, 4000];
+// Longest Retry-After the client will honour
+const MAX_RETRY_AFTER_MS = 10_000;
+// Throttled, failing or unavailable upstream
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * Reads the endpoint and credentials from the environment
+ * (BEDROCK_API_URL and the standard AWS_* variables)
+ */
+export function bedrockClientOptionsFromEnv(): BedrockClientOptions {
+  if (!process.env.BEDROCK_API_URL) {
+    throw new Error("BEDROCK_API_URL environment variable is not set");
+  }
+
+  const { AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_SESSION_TOKEN } =
+    process.env;
+
+  return {
+    endpoint: process.env.BEDROCK_API_URL,
+    region: process.env.AWS_REGION || undefined,
+    credentials:
+      AWS_ACCESS_KEY_ID && AWS_SECRET_ACCESS_KEY
+        ? {
+            accessKeyId: AWS_ACCESS_KEY_ID,
+            secretAccessKey: AWS_SECRET_ACCESS_KEY,
+            sessionToken: AWS_SESSION_TOKEN || undefined,
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Creates a client that signs each request with SigV4 and retries throttled
+ * and failed requests with backoff
+ */
+export function createBedrockClient({
+  endpoint,
+  credentials,
+  region,
+}: BedrockClientOptions): BedrockClient {
+  const url = `${endpoint.replace(/\/+$/, "")}/analyze`;
+  const signingRegion =
+    region ||
+    new URL(url).hostname.match(/\.execute-api\.([a-z0-9-]+)\.amazonaws\.com$/)?.[1] ||
+    "us-east-1";
+
+  const send = (body: string, signal?: AbortSignal) => {
+    const headers = { "content-type": "application/json" };
+
+    return fetch(url, {
+      method: "POST",
+      // Signed per attempt, the signature includes the time
+      headers: credentials
+        ? signRequest({
+            method: "POST",
+            url,
+            headers,
+            body,
+            region: signingRegion,
+            service: "execute-api",
+            credentials,
+          })
+        : headers,
+      body,
+      signal,
+    });
+  };
+
+  return {
+    async analyze(request, { signal } = {}) {
+      const body = JSON.stringify(request);
+
+      for (let attempt = 0; ; attempt++) {
+        const canRetry = attempt < RETRY_DELAYS_MS.length;
+        let response: Response;
+
+        try {
+          response = await send(body, signal);
+        } catch (error) {
+          // Network failures are retried, cancellation is not
+          if (signal?.aborted || !canRetry) {
+            throw error;
+          }
+          await sleep(RETRY_DELAYS_MS[attempt], signal);
+          continue;
+        }
+
+        if (response.ok) {
+          return (await response.json()) as AnalyzeResponse;
+        }
+
+        if (canRetry && RETRYABLE_STATUSES.has(response.status)) {
+          await sleep(
+            retryAfterMs(response) ?? RETRY_DELAYS_MS[attempt],
+            signal
+          );
+          continue;
+        }
+
+        const detail = await response.json().catch(() => null);
+        throw new Error(
+          `Bedrock request failed (${response.status})${
+            detail?.error ? `: ${detail.error}` : ""
+          }`
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Delay requested by a Retry-After header given in seconds, if any
+ */
+function retryAfterMs(response: Response): number | null {
+  const seconds = Number(response.headers.get("retry-after"));
+  return Number.isFinite(seconds) && seconds > 0
+    ? Math.min(seconds * 1000, MAX_RETRY_AFTER_MS)
+    : null;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
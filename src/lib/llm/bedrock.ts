@@ -0,0 +1,99 @@
+import type {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1StreamPart,
+} from "ai";
+import type { AnalyzeRequest, BedrockClient } from "./bedrock-client";
+import { flattenPrompt } from "./prompt";
+import type { LlmProvider } from "./types";
+
+/**
+ * AWS Bedrock models behind the AI processor Lambda
+ * (infrastructure/terraform), reached through its API Gateway endpoint. The
+ * Lambda answers in one piece, so streaming delivers the content at once.
+ */
+export function createBedrockProvider(client: BedrockClient): LlmProvider {
+  return {
+    id: "bedrock",
+    languageModel: (modelId) => createBedrockModel(client, modelId),
+  };
+}
+
+function createBedrockModel(
+  client: BedrockClient,
+  modelId: string
+): LanguageModelV1 {
+  const generate = async (options: LanguageModelV1CallOptions) => {
+    const { mode } = options;
+    if (mode.type === "object-tool") {
+      throw new Error("Bedrock models do not support tool calls");
+    }
+
+    const { system, messages } = flattenPrompt(options.prompt);
+    const request: AnalyzeRequest = {
+      model_id: modelId,
+      system,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      stop_sequences: options.stopSequences,
+      // The Lambda returns structured content through a forced tool call
+      ...(mode.type === "object-json" && {
+        output_schema: mode.schema,
+        schema_name: mode.name,
+        schema_description: mode.description,
+      }),
+    };
+
+    const result = await client.analyze(request, {
+      signal: options.abortSignal,
+    });
+
+    return {
+      text:
+        typeof result.content === "string"
+          ? result.content
+          : JSON.stringify(result.content),
+      finishReason:
+        result.stop_reason === "max_tokens"
+          ? ("length" as const)
+          : result.stop_reason === "content_filtered" ||
+              result.stop_reason === "guardrail_intervened"
+            ? ("content-filter" as const)
+            : ("stop" as const),
+      usage: {
+        promptTokens: result.usage.input_tokens,
+        completionTokens: result.usage.output_tokens,
+      },
+      rawCall: { rawPrompt: request, rawSettings: {} },
+    };
+  };
+
+  return {
+    specificationVersion: "v1",
+    provider: "bedrock",
+    modelId,
+    defaultObjectGenerationMode: "json",
+    // The output schema is sent to the Lambda rather than described in the
+    // prompt
+    supportsStructuredOutputs: true,
+
+    async doGenerate(options: LanguageModelV1CallOptions) {
+      return generate(options);
+    },
+
+    async doStream(options: LanguageModelV1CallOptions) {
+      const { text, finishReason, usage, rawCall } = await generate(options);
+
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        start(controller) {
+          controller.enqueue({ type: "text-delta", textDelta: text });
+          controller.enqueue({ type: "finish", finishReason, usage });
+          controller.close();
+        },
+      });
+
+      return { stream, rawCall };
+    },
+  };
+}
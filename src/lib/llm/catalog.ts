@@ -0,0 +1,45 @@
+/**
+ * Language model providers available to templates
+ * Safe to import from client components: ids, labels and suggested models
+ * only. The implementations live in ./index.ts and are server-only.
+ */
+
+export const LLM_PROVIDER_IDS = ["openai", "anthropic", "bedrock", "mock"] as const;
+
+export type LlmProviderId = (typeof LLM_PROVIDER_IDS)[number];
+
+// Provider used by templates that do not choose one
+export const DEFAULT_LLM_PROVIDER: LlmProviderId = "openai";
+
+export const LLM_PROVIDERS: Record<
+  LlmProviderId,
+  { label: string; defaultModel: string; models: string[] }
+> = {
+  openai: {
+    label: "OpenAI",
+    defaultModel: "gpt-4",
+    models: ["gpt-4o", "gpt-4o-mini", "gpt-4"],
+  },
+  anthropic: {
+    label: "Anthropic",
+    defaultModel: "claude-3-5-sonnet-latest",
+    models: ["claude-3-7-sonnet-latest", "claude-3-5-sonnet-latest", "claude-3-5-haiku-latest"],
+  },
+  bedrock: {
+    label: "AWS Bedrock",
+    defaultModel: "anthropic.claude-3-haiku-20240307-v1:0",
+    models: [
+      "anthropic.claude-3-haiku-20240307-v1:0",
+      "anthropic.claude-3-5-sonnet-20240620-v1:0",
+    ],
+  },
+  mock: {
+    label: "Local mock",
+    defaultModel: "mock",
+    models: ["mock"],
+  },
+};
+
+export function isLlmProviderId(value: unknown): value is LlmProviderId {
+  return LLM_PROVIDER_IDS.includes(value as LlmProviderId);
+}
@@ -0,0 +1,136 @@
+/**
+ * Language model providers for template generation
+ * Server-only: providers rely on secrets from the environment
+ *
+ * Each template chooses a provider by id (OpenAI when it has none). Setting
+ * LLM_PROVIDER runs every template on one provider instead, e.g. "mock" for a
+ * local model that needs no network when working offline or in CI. Tests can
+ * swap in their own provider with setLlmProvider().
+ */
+
+import type { LanguageModelV1 } from "ai";
+import { createAnthropicProvider } from "./anthropic";
+import { createBedrockProvider } from "./bedrock";
+import {
+  bedrockClientOptionsFromEnv,
+  createBedrockClient,
+} from "./bedrock-client";
+import {
+  DEFAULT_LLM_PROVIDER,
+  LLM_PROVIDERS,
+  isLlmProviderId,
+  type LlmProviderId,
+} from "./catalog";
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+import type { LlmProvider } from "./types";
+
+export type { LlmMessage, LlmProvider } from "./types";
+export type { LlmProviderId } from "./catalog";
+export {
+  DEFAULT_LLM_PROVIDER,
+  LLM_PROVIDER_IDS,
+  LLM_PROVIDERS,
+  isLlmProviderId,
+} from "./catalog";
+export {
+  createAnthropicProvider,
+  createBedrockProvider,
+  createMockProvider,
+  createOpenAIProvider,
+};
+export type {
+  AnalyzeRequest,
+  AnalyzeResponse,
+  BedrockClient,
+} from "./bedrock-client";
+export { createBedrockClient } from "./bedrock-client";
+export { flattenPrompt } from "./prompt";
+
+const overrideProviders: Partial<Record<LlmProviderId, LlmProvider>> = {};
+
+/**
+ * Replaces a provider, or restores the configured one when passed null
+ */
+export function setLlmProvider(id: LlmProviderId, provider: LlmProvider | null) {
+  if (provider) {
+    overrideProviders[id] = provider;
+  } else {
+    delete overrideProviders[id];
+  }
+}
+
+/**
+ * Gets a provider by id
+ */
+export function getLlmProvider(id: LlmProviderId): LlmProvider {
+  const override = overrideProviders[id];
+  if (override) {
+    return override;
+  }
+
+  switch (id) {
+    case "openai":
+      return createOpenAIProvider();
+    case "anthropic": {
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new Error("ANTHROPIC_API_KEY environment variable is not set");
+      }
+      return createAnthropicProvider(process.env.ANTHROPIC_API_KEY);
+    }
+    case "bedrock":
+      return createBedrockProvider(
+        createBedrockClient(bedrockClientOptionsFromEnv())
+      );
+    case "mock":
+      return createMockProvider();
+  }
+}
+
+/**
+ * Provider forced by LLM_PROVIDER, if any
+ */
+function forcedProviderId(): LlmProviderId | null {
+  const provider = process.env.LLM_PROVIDER;
+  if (!provider) {
+    return null;
+  }
+  if (!isLlmProviderId(provider)) {
+    throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+  return provider;
+}
+
+/**
+ * Provider and model a template generates with
+ * A template's model only applies to its own provider; when LLM_PROVIDER
+ * forces another one, that provider's default model is used.
+ */
+export function resolveTemplateModel(template: {
+  provider: string | null;
+  model: string | null;
+}): { provider: LlmProviderId; model: string } {
+  const chosen = template.provider || DEFAULT_LLM_PROVIDER;
+  if (!isLlmProviderId(chosen)) {
+    throw new Error(`Unknown LLM provider: ${chosen}`);
+  }
+
+  const provider = forcedProviderId() || chosen;
+  const model =
+    provider === chosen && template.model
+      ? template.model
+      : LLM_PROVIDERS[provider].defaultModel;
+
+  return { provider, model };
+}
+
+/**
+ * Gets the model a template generates with
+ */
+export function templateLanguageModel(template: {
+  provider: string | null;
+  model: string | null;
+}): LanguageModelV1 {
+  const { provider, model } = resolveTemplateModel(template);
+  return getLlmProvider(provider).languageModel(model);
+}
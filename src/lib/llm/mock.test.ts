@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { generateObject, generateText, streamText } from "ai";
+import { buildTemplatePrompt } from "@/app/actions/generations/prompt";
+import { SOAP_TEMPLATE_SCHEMA, toZodSchema } from "@/src/lib/templates/schema";
+import { templateLanguageModel } from "@/src/lib/llm";
+
+// A template as saved, for a provider LLM_PROVIDER overrides
+const template = {
+  prompt: "Write up the visit for {{ patientName }}.",
+  provider: "openai",
+  model: "gpt-4o",
+};
+
+const transcript = "Max has been vomiting since yesterday and is not eating.";
+
+describe("mock language model", () => {
+  beforeEach(() => {
+    vi.stubEnv("LLM_PROVIDER", "mock");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("generates free text from a template's prompt", async () => {
+    const model = templateLanguageModel(template);
+    const prompt = buildTemplatePrompt(template, transcript, {
+      patientName: "Max",
+    });
+
+    const { text } = await generateText({ model, prompt });
+
+    expect(model.provider).toBe("mock");
+    expect(text).toContain("Mock response generated without a model.");
+    expect(text).toContain("Write up the visit for Max.");
+    expect(text).toContain(transcript);
+    // The same prompt always gives the same answer
+    expect((await generateText({ model, prompt })).text).toBe(text);
+  });
+
+  it("streams the same text it generates", async () => {
+    const model = templateLanguageModel(template);
+    const prompt = buildTemplatePrompt(template, transcript);
+
+    const result = streamText({ model, prompt });
+    let streamed = "";
+    for await (const delta of result.textStream) {
+      streamed += delta;
+    }
+
+    expect(streamed).toBe((await generateText({ model, prompt })).text);
+  });
+
+  it("fills every field of a structured template", async () => {
+    const { object } = await generateObject({
+      model: templateLanguageModel(template),
+      schema: toZodSchema(SOAP_TEMPLATE_SCHEMA),
+      schemaName: "template_output",
+      prompt: buildTemplatePrompt(template, transcript),
+    });
+
+    expect(object).toEqual({
+      subjective: "Mock subjective",
+      objective: "Mock objective",
+      assessment: "Mock assessment",
+      plan: "Mock plan",
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  simulateReadableStream,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1StreamPart,
+} from "ai";
+import { flattenPrompt } from "./prompt";
+import type { LlmProvider } from "./types";
+
+// Subset of JSON Schema the AI SDK sends for structured output
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  minimum?: number;
+};
+
+// How much of the transcript the mock echoes back
+const ECHO_LENGTH = 280;
+
+/**
+ * Local model that never calls a provider
+ * Used offline and in CI via LLM_PROVIDER=mock. The same prompt always gives
+ * the same answer: free text echoes the start of the prompt and structured
+ * output fills every field of the schema with a placeholder.
+ */
+export function createMockProvider({
+  chunkDelayInMs = 20,
+}: { chunkDelayInMs?: number } = {}): LlmProvider {
+  return {
+    id: "mock",
+    languageModel: (modelId) => createMockModel(modelId, chunkDelayInMs),
+  };
+}
+
+function createMockModel(
+  modelId: string,
+  chunkDelayInMs: number
+): LanguageModelV1 {
+  const generate = (options: LanguageModelV1CallOptions) => {
+    const { mode } = options;
+    const rawCall = { rawPrompt: options.prompt, rawSettings: {} };
+
+    if (mode.type === "object-tool") {
+      const args = JSON.stringify(mockValue(mode.tool.parameters, "value"));
+      return {
+        toolCalls: [
+          {
+            toolCallType: "function" as const,
+            toolCallId: "mock-tool-call",
+            toolName: mode.tool.name as string,
+            args,
+          },
+        ],
+        finishReason: "tool-calls" as const,
+        usage: usage(options, args),
+        rawCall,
+      };
+    }
+
+    const text =
+      mode.type === "object-json"
+        ? JSON.stringify(mockValue(mode.schema ?? {}, "value"))
+        : mockText(options);
+
+    return {
+      text,
+      finishReason: "stop" as const,
+      usage: usage(options, text),
+      rawCall,
+    };
+  };
+
+  return {
+    specificationVersion: "v1",
+    provider: "mock",
+    modelId,
+    defaultObjectGenerationMode: "json",
+
+    async doGenerate(options: LanguageModelV1CallOptions) {
+      return generate(options);
+    },
+
+    async doStream(options: LanguageModelV1CallOptions) {
+      const result = generate(options);
+      const chunks: LanguageModelV1StreamPart[] = result.toolCalls
+        ? result.toolCalls.map((call) => ({ type: "tool-call", ...call }))
+        : (result.text.match(/\S+\s*/g) || []).map((word) => ({
+            type: "text-delta",
+            textDelta: word,
+          }));
+
+      chunks.push({
+        type: "finish",
+        finishReason: result.finishReason,
+        usage: result.usage,
+      });
+
+      return {
+        stream: simulateReadableStream({ chunks, chunkDelayInMs }),
+        rawCall: result.rawCall,
+      };
+    },
+  };
+}
+
+function mockText(options: LanguageModelV1CallOptions): string {
+  const { messages } = flattenPrompt(options.prompt);
+  const prompt = messages
+    .filter((message) => message.role === "user")
+    .map((message) => message.content)
+    .join("\n")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const echo =
+    prompt.length > ECHO_LENGTH ? `${prompt.slice(0, ECHO_LENGTH)}…` : prompt;
+
+  return `Mock response generated without a model.\n\nPrompt: ${echo}`;
+}
+
+/**
+ * Builds a placeholder value that satisfies a JSON schema
+ */
+function mockValue(schema: JsonSchema, name: string): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+
+  // Nullable fields are filled in rather than left empty
+  const variants = schema.anyOf || schema.oneOf;
+  if (variants && variants.length > 0) {
+    const variant =
+      variants.find((option) => option.type !== "null") || variants[0];
+    return mockValue(variant, name);
+  }
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((t) => t !== "null")
+    : schema.type;
+
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [
+          key,
+          mockValue(property, key),
+        ])
+      );
+    case "array":
+      return schema.items ? [mockValue(schema.items, name)] : [];
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    default:
+      return `Mock ${name}`;
+  }
+}
+
+function usage(options: LanguageModelV1CallOptions, output: string) {
+  const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  const { system, messages } = flattenPrompt(options.prompt);
+
+  return {
+    promptTokens:
+      words(system || "") +
+      messages.reduce((total, message) => total + words(message.content), 0),
+    completionTokens: words(output),
+  };
+}
@@ -0,0 +1,12 @@
+import { openai } from "@ai-sdk/openai";
+import type { LlmProvider } from "./types";
+
+/**
+ * OpenAI chat models, authenticated with OPENAI_API_KEY
+ */
+export function createOpenAIProvider(): LlmProvider {
+  return {
+    id: "openai",
+    languageModel: (modelId) => openai(modelId),
+  };
+}
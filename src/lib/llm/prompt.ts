@@ -0,0 +1,43 @@
+import type { LanguageModelV1Prompt } from "ai";
+import type { LlmMessage } from "./types";
+
+/**
+ * Flattens a language model prompt into a system prompt and text messages
+ * for providers that only accept plain chat messages. Images, files and tool
+ * results are not used by templates and are dropped.
+ */
+export function flattenPrompt(prompt: LanguageModelV1Prompt): {
+  system: string | undefined;
+  messages: LlmMessage[];
+} {
+  const system: string[] = [];
+  const messages: LlmMessage[] = [];
+
+  for (const message of prompt) {
+    if (message.role === "system") {
+      system.push(message.content);
+      continue;
+    }
+    if (message.role !== "user" && message.role !== "assistant") {
+      continue;
+    }
+
+    const content = (message.content as Array<{ type: string; text?: string }>)
+      .filter((part) => part.type === "text")
+      .map((part) => part.text || "")
+      .join("");
+
+    // Providers expect alternating roles, so consecutive messages merge
+    const previous = messages[messages.length - 1];
+    if (previous && previous.role === message.role) {
+      previous.content += `\n\n${content}`;
+    } else {
+      messages.push({ role: message.role, content });
+    }
+  }
+
+  return {
+    system: system.length > 0 ? system.join("\n\n") : undefined,
+    messages,
+  };
+}
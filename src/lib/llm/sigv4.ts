@@ -0,0 +1,118 @@
+/**
+ * AWS Signature Version 4 for requests to AWS endpoints
+ * Server-only: signing needs the secret access key
+ */
+
+import { createHash, createHmac } from "node:crypto";
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+interface SignRequestOptions {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  region: string;
+  service: string;
+  credentials: AwsCredentials;
+  date?: Date;
+}
+
+const ALGORITHM = "AWS4-HMAC-SHA256";
+
+function sha256Hex(value: string) {
+  return createHash("sha256").update(value, "utf8").digest("hex");
+}
+
+function hmac(key: string | Buffer, value: string) {
+  return createHmac("sha256", key).update(value, "utf8").digest();
+}
+
+// encodeURIComponent leaves !'()* alone, SigV4 expects them encoded
+function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Returns the headers to send with a signed request: the given headers plus
+ * x-amz-date, x-amz-content-sha256, the session token when there is one and
+ * authorization. Host is signed but left for fetch to set.
+ */
+export function signRequest({
+  method,
+  url,
+  headers,
+  body,
+  region,
+  service,
+  credentials,
+  date = new Date(),
+}: SignRequestOptions): Record<string, string> {
+  const { host, pathname, searchParams } = new URL(url);
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(body);
+
+  const signedHeaders: Record<string, string> = {
+    ...Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name.toLowerCase(),
+        value.trim().replace(/\s+/g, " "),
+      ])
+    ),
+    host,
+    "x-amz-date": amzDate,
+    "x-amz-content-sha256": payloadHash,
+    ...(credentials.sessionToken && {
+      "x-amz-security-token": credentials.sessionToken,
+    }),
+  };
+  const headerNames = Object.keys(signedHeaders).sort();
+
+  // Services other than S3 sign the path with each segment encoded twice
+  const canonicalPath =
+    pathname
+      .split("/")
+      .map((segment) => encodeRfc3986(segment))
+      .join("/") || "/";
+  const canonicalQuery = Array.from(searchParams.entries())
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a, x], [b, y]) => (a === b ? (x < y ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+
+  const canonicalRequest = [
+    method.toUpperCase(),
+    canonicalPath,
+    canonicalQuery,
+    headerNames.map((name) => `${name}:${signedHeaders[name]}\n`).join(""),
+    headerNames.join(";"),
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = [ALGORITHM, amzDate, scope, sha256Hex(canonicalRequest)].join(
+    "\n"
+  );
+
+  const signingKey = [dateStamp, region, service, "aws4_request"].reduce<
+    string | Buffer
+  >((key, part) => hmac(key, part), `AWS4${credentials.secretAccessKey}`);
+  const signature = createHmac("sha256", signingKey)
+    .update(stringToSign, "utf8")
+    .digest("hex");
+
+  const requestHeaders = { ...signedHeaders };
+  delete requestHeaders.host;
+  return {
+    ...requestHeaders,
+    authorization: `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(";")}, Signature=${signature}`,
+  };
+}
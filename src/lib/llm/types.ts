@@ -0,0 +1,19 @@
+/**
+ * Shared types for language model providers
+ */
+
+import type { LanguageModelV1 } from "ai";
+import type { LlmProviderId } from "./catalog";
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  // Gets a model usable with generateText, generateObject and their stream
+  // variants
+  languageModel(modelId: string): LanguageModelV1;
+}
+
+// A chat message with its parts flattened to text
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string;
+}
@@ -0,0 +1,336 @@
+/**
+ * Structured notes
+ * Safe to import from client components: notes are built, rendered and
+ * edited in the browser and validated with the same rules on the server
+ *
+ * A note is an ordered list of typed sections defined by the template it
+ * was generated with. Each section keeps its field definition (see
+ * /src/lib/templates/schema.ts), so notes render and edit the same way after
+ * their template changes or is deleted. SOAP notes are notes with the four
+ * SOAP sections; free-text templates produce a single text section.
+ */
+
+import { z } from "zod";
+import {
+  FIELD_NAME_PATTERN,
+  MAX_SECTION_FIELDS,
+  SOAP_TEMPLATE_SCHEMA,
+  fieldDefinitionSchema,
+  formatStructuredContent,
+  templateOutputSchema,
+  type TemplateFieldSchema,
+  type TemplateSchema,
+} from "@/src/lib/templates/schema";
+import { escapeHtml } from "@/src/lib/templates/variables";
+
+// (type aliases rather than interfaces so they can be stored as JSON)
+export type NoteSection = {
+  // Field name in the template's schema, e.g. "assessment"
+  key: string;
+  title: string;
+  field: TemplateFieldSchema;
+  // Value matching the field; null when the section is empty
+  value: unknown;
+};
+
+export type StructuredNote = {
+  title: string;
+  // Template the note was generated with, if it still exists
+  templateId: string | null;
+  sections: NoteSection[];
+};
+
+// Key of the single section of notes from free-text templates
+export const TEXT_SECTION_KEY = "content";
+
+const TEXT_FIELD: TemplateFieldSchema = { type: "string" };
+
+/**
+ * Zod schema for a section's value: the field's type, where any value may
+ * be left empty while the note is being written
+ */
+function noteValueSchema(field: TemplateFieldSchema): z.ZodTypeAny {
+  switch (field.type) {
+    case "string":
+      return (
+        field.enum ? z.enum(field.enum as [string, ...string[]]) : z.string()
+      ).nullable();
+    case "number":
+    case "integer":
+      return z.number().nullable();
+    case "boolean":
+      return z.boolean().nullable();
+    case "array":
+      return z.array(noteValueSchema(field.items)).nullable();
+    case "object":
+      return z
+        .object(
+          Object.fromEntries(
+            Object.entries(field.properties).map(([name, property]) => [
+              name,
+              noteValueSchema(property).optional(),
+            ])
+          )
+        )
+        .nullable();
+  }
+}
+
+export const noteSectionSchema = z
+  .object({
+    key: z.string().regex(FIELD_NAME_PATTERN, { message: "Invalid section key" }),
+    title: z.string().trim().min(1).max(100),
+    field: fieldDefinitionSchema,
+    value: z.unknown(),
+  })
+  .superRefine((section, ctx) => {
+    const parsed = noteValueSchema(section.field).safeParse(section.value);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        ctx.addIssue({ ...issue, path: ["value", ...issue.path] });
+      }
+    }
+  });
+
+/**
+ * Validates a note sent from the client
+ */
+export const structuredNoteSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200),
+    templateId: z.string().uuid().nullable(),
+    sections: z.array(noteSectionSchema).min(1).max(MAX_SECTION_FIELDS),
+  })
+  .superRefine((note, ctx) => {
+    const keys = new Set<string>();
+    note.sections.forEach((section, index) => {
+      if (keys.has(section.key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["sections", index, "key"],
+          message: `Duplicate section "${section.key}"`,
+        });
+      }
+      keys.add(section.key);
+    });
+  });
+
+/**
+ * Readable title for a field without one, e.g. "follow_up" -> "Follow up"
+ */
+function titleFromKey(key: string) {
+  const words = key.replace(/_/g, " ").replace(/([a-z])([A-Z])/g, "$1 $2");
+  return words.charAt(0).toUpperCase() + words.slice(1).toLowerCase();
+}
+
+/**
+ * Sections of a schema, in the schema's order, filled from content
+ */
+export function sectionsFromSchema(
+  schema: TemplateSchema,
+  content: Record<string, unknown> = {}
+): NoteSection[] {
+  return Object.entries(schema.properties).map(([key, field]) => ({
+    key,
+    title: field.title || titleFromKey(key),
+    field,
+    value: content[key] ?? null,
+  }));
+}
+
+/**
+ * Builds the note for content generated with a template
+ * Structured content becomes the schema's sections; free text becomes a
+ * single text section
+ */
+export function noteFromGeneration(
+  template: {
+    id: string;
+    name: string | null;
+    type: string | null;
+    output_schema: unknown;
+  },
+  content: string | Record<string, unknown>
+): StructuredNote {
+  const schema = templateOutputSchema(template);
+  const title = template.name || "Note";
+
+  return {
+    title,
+    templateId: template.id,
+    sections:
+      schema && typeof content === "object"
+        ? sectionsFromSchema(schema, content)
+        : [
+            {
+              key: TEXT_SECTION_KEY,
+              title,
+              field: TEXT_FIELD,
+              value:
+                typeof content === "string"
+                  ? content
+                  : JSON.stringify(content, null, 2),
+            },
+          ],
+  };
+}
+
+/**
+ * A SOAP note with the four SOAP sections
+ */
+export function soapNote(values: {
+  subjective?: string;
+  objective?: string;
+  assessment?: string;
+  plan?: string;
+}): StructuredNote {
+  return {
+    title: "SOAP Note",
+    templateId: null,
+    sections: sectionsFromSchema(SOAP_TEMPLATE_SCHEMA, values),
+  };
+}
+
+/**
+ * Field definition describing a value, for content saved without its
+ * template's schema
+ */
+function fieldForValue(value: unknown): TemplateFieldSchema {
+  if (typeof value === "number") return { type: "number" };
+  if (typeof value === "boolean") return { type: "boolean" };
+  if (Array.isArray(value)) {
+    return {
+      type: "array",
+      items: value.length > 0 ? fieldForValue(value[0]) : TEXT_FIELD,
+    };
+  }
+  if (value && typeof value === "object") {
+    return {
+      type: "object",
+      properties: Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [key, fieldForValue(child)])
+      ),
+    };
+  }
+  return TEXT_FIELD;
+}
+
+/**
+ * Builds a note from generated content stored as text, e.g. a generation
+ * JSON objects become one section per field; anything else is free text
+ */
+export function noteFromStoredContent(
+  content: string | null,
+  title: string,
+  templateId: string | null = null
+): StructuredNote {
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(content || "");
+  } catch {
+    // Free text
+  }
+
+  const isObject =
+    parsed !== null && typeof parsed === "object" && !Array.isArray(parsed);
+  const entries = isObject
+    ? Object.entries(parsed as Record<string, unknown>).filter(([key]) =>
+        FIELD_NAME_PATTERN.test(key)
+      )
+    : [];
+
+  return {
+    title,
+    templateId,
+    sections:
+      entries.length > 0
+        ? entries.map(([key, value]) => ({
+            key,
+            title: titleFromKey(key),
+            field: fieldForValue(value),
+            value,
+          }))
+        : [
+            {
+              key: TEXT_SECTION_KEY,
+              title,
+              field: TEXT_FIELD,
+              value: content || "",
+            },
+          ],
+  };
+}
+
+/**
+ * A note's sections as stored, or none when the value is not a section list
+ */
+export function noteSectionsOf(sections: unknown): NoteSection[] {
+  return Array.isArray(sections) ? (sections as NoteSection[]) : [];
+}
+
+export function findNoteSection(
+  sections: NoteSection[],
+  key: string
+): NoteSection | undefined {
+  return sections.find((section) => section.key === key);
+}
+
+export function isEmptyNoteValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === "object") {
+    return Object.values(value as Record<string, unknown>).every(
+      isEmptyNoteValue
+    );
+  }
+  return false;
+}
+
+/**
+ * A section's value as plain text, without its heading
+ */
+export function noteSectionText(section: NoteSection): string {
+  if (isEmptyNoteValue(section.value)) {
+    return "";
+  }
+  switch (section.field.type) {
+    case "string":
+    case "number":
+    case "integer":
+      return String(section.value);
+    case "boolean":
+      return section.value ? "Yes" : "No";
+  }
+
+  // Lists and nested sections are written one item per line below the
+  // heading, which is dropped
+  const [, ...lines] = formatStructuredContent(
+    { type: "object", properties: { [section.key]: section.field } },
+    { [section.key]: section.value }
+  ).split("\n");
+  return lines.map((line) => line.replace(/^ {2}/, "")).join("\n");
+}
+
+/**
+ * A note as Markdown-style plain text, one heading per section
+ */
+export function noteToText(sections: NoteSection[]): string {
+  return sections
+    .filter((section) => !isEmptyNoteValue(section.value))
+    .map((section) => `## ${section.title}\n${noteSectionText(section)}`)
+    .join("\n\n");
+}
+
+/**
+ * A note as HTML for emails, with every value escaped
+ */
+export function noteToHtml(sections: NoteSection[]): string {
+  return sections
+    .filter((section) => !isEmptyNoteValue(section.value))
+    .map(
+      (section) =>
+        `<h3>${escapeHtml(section.title)}</h3>\n<div style="white-space: pre-wrap;">${escapeHtml(noteSectionText(section))}</div>`
+    )
+    .join("\n\n");
+}
@@ -0,0 +1,325 @@
+/**
+ * Clinical documents as PDF
+ * Server-only: see /src/lib/pdf/writer.ts
+ *
+ * Lays out notes and generations on clinic letterhead with a patient and
+ * owner header, a signature block and page numbers. Sections are written
+ * from the same structured data the case view renders: text as paragraphs,
+ * lists as bullets and nested sections as labelled values.
+ */
+
+import {
+  isEmptyNoteValue,
+  type NoteSection,
+} from "@/src/lib/notes/structured-note";
+import type { TemplateFieldSchema } from "@/src/lib/templates/schema";
+import {
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  createPage,
+  drawLine,
+  drawText,
+  serializePdf,
+  textWidth,
+  wrapText,
+  type PdfFont,
+  type PdfPage,
+} from "./writer";
+
+export type ClinicLetterhead = {
+  clinicName: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+};
+
+export type ClinicalPdfDocument = {
+  title: string;
+  sections: NoteSection[];
+  // e.g. "Approved by Dr. Smith on May 3, 2025"
+  approval: string | null;
+};
+
+export type ClinicalPdfInput = {
+  letterhead: ClinicLetterhead;
+  // Shown under the letterhead, e.g. "SOAP Note" or "Case Summary"
+  title: string;
+  // Patient and owner details, in order; empty values are left out
+  header: Array<{ label: string; value?: string | null }>;
+  documents: ClinicalPdfDocument[];
+  signature: { name?: string | null; date: string };
+};
+
+const MARGIN = 54;
+const FOOTER_HEIGHT = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BODY_SIZE = 10;
+const LINE_GAP = 1.35;
+// Indent of each level of lists and nested sections
+const INDENT = 14;
+
+/**
+ * Markdown written by the model, as plain lines: headings and emphasis
+ * markers are dropped and list markers become bullets
+ */
+function plainMarkdown(text: string) {
+  return text
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/^\s*#{1,6}\s+/, "")
+        .replace(/^(\s*)[-*+]\s+/, "$1• ")
+        .replace(/(\*\*|__)(.+?)\1/g, "$2")
+        .replace(/`([^`]+)`/g, "$1")
+    )
+    .join("\n");
+}
+
+/**
+ * Renders a clinical document to a PDF file
+ */
+export function renderClinicalPdf(input: ClinicalPdfInput): Buffer {
+  const pages: PdfPage[] = [];
+  let page: PdfPage = createPage();
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const startPage = () => {
+    page = createPage();
+    pages.push(page);
+    y = PAGE_HEIGHT - MARGIN;
+
+    // Later pages repeat the clinic and document in a compact header
+    if (pages.length > 1) {
+      const running = `${input.letterhead.clinicName} · ${input.title}`;
+      drawText(page, running, MARGIN, y - 8, { size: 8, gray: 0.4 });
+      y -= 14;
+      drawLine(
+        page,
+        { x: MARGIN, y },
+        { x: PAGE_WIDTH - MARGIN, y },
+        { gray: 0.8 }
+      );
+      y -= 14;
+    }
+  };
+
+  // Starts a new page unless height fits above the footer
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) {
+      startPage();
+    }
+  };
+
+  const writeText = (
+    text: string,
+    options: {
+      font?: PdfFont;
+      size?: number;
+      gray?: number;
+      indent?: number;
+    } = {}
+  ) => {
+    const {
+      font = "regular",
+      size = BODY_SIZE,
+      gray = 0,
+      indent = 0,
+    } = options;
+    const lineHeight = size * LINE_GAP;
+    for (const line of wrapText(text, font, size, CONTENT_WIDTH - indent)) {
+      ensureSpace(lineHeight);
+      if (line) {
+        drawText(page, line, MARGIN + indent, y - size, { font, size, gray });
+      }
+      y -= lineHeight;
+    }
+  };
+
+  const writeValue = (
+    field: TemplateFieldSchema,
+    value: unknown,
+    indent: number
+  ) => {
+    if (isEmptyNoteValue(value)) {
+      writeText("Not recorded", { gray: 0.5, indent });
+      return;
+    }
+
+    switch (field.type) {
+      case "string":
+        writeText(plainMarkdown(String(value)), { indent });
+        return;
+      case "number":
+      case "integer":
+        writeText(String(value), { indent });
+        return;
+      case "boolean":
+        writeText(value ? "Yes" : "No", { indent });
+        return;
+      case "array":
+        for (const item of value as unknown[]) {
+          // Nested items are indented instead of bulleted
+          if (field.items.type === "object" || field.items.type === "array") {
+            writeValue(field.items, item, indent + INDENT);
+            y -= 4;
+          } else {
+            writeText(
+              `• ${field.items.type === "boolean" ? (item ? "Yes" : "No") : String(item ?? "")}`,
+              { indent }
+            );
+          }
+        }
+        return;
+      case "object":
+        for (const [name, property] of Object.entries(field.properties)) {
+          writeText(property.title || name, {
+            font: "bold",
+            size: 8,
+            gray: 0.35,
+            indent,
+          });
+          writeValue(
+            property,
+            (value as Record<string, unknown>)[name],
+            indent
+          );
+          y -= 2;
+        }
+        return;
+    }
+  };
+
+  startPage();
+
+  // Letterhead: the clinic on the left, the document on the right
+  const { letterhead } = input;
+  drawText(page, letterhead.clinicName, MARGIN, y - 16, {
+    font: "bold",
+    size: 16,
+  });
+  const titleWidth = textWidth(input.title, "bold", 12);
+  drawText(page, input.title, PAGE_WIDTH - MARGIN - titleWidth, y - 14, {
+    font: "bold",
+    size: 12,
+  });
+  y -= 22;
+  const contact = [letterhead.phone, letterhead.email]
+    .filter(Boolean)
+    .join(" · ");
+  for (const line of [
+    ...(letterhead.address ? letterhead.address.split("\n") : []),
+    ...(contact ? [contact] : []),
+  ]) {
+    drawText(page, line, MARGIN, y - 9, { size: 9, gray: 0.35 });
+    y -= 12;
+  }
+  y -= 6;
+  drawLine(page, { x: MARGIN, y }, { x: PAGE_WIDTH - MARGIN, y }, { width: 1 });
+  y -= 16;
+
+  // Patient and owner header, two details per row
+  const details = input.header.filter((detail) => detail.value);
+  const columnWidth = CONTENT_WIDTH / 2;
+  for (let i = 0; i < details.length; i += 2) {
+    ensureSpace(26);
+    details.slice(i, i + 2).forEach((detail, column) => {
+      const x = MARGIN + column * columnWidth;
+      drawText(page, detail.label.toUpperCase(), x, y - 7, {
+        font: "bold",
+        size: 7,
+        gray: 0.45,
+      });
+      const [value] = wrapText(
+        detail.value!,
+        "regular",
+        BODY_SIZE,
+        columnWidth - 12
+      );
+      drawText(page, value, x, y - 19, { size: BODY_SIZE });
+    });
+    y -= 26;
+  }
+  if (details.length > 0) {
+    y -= 4;
+    drawLine(
+      page,
+      { x: MARGIN, y },
+      { x: PAGE_WIDTH - MARGIN, y },
+      { gray: 0.8 }
+    );
+    y -= 16;
+  }
+
+  // Documents, one after another
+  input.documents.forEach((document, index) => {
+    if (index > 0) {
+      y -= 10;
+    }
+    ensureSpace(40);
+    writeText(document.title, { font: "bold", size: 13 });
+    if (document.approval) {
+      writeText(document.approval, { size: 8, gray: 0.45 });
+    }
+    y -= 6;
+
+    const sections = document.sections.filter(
+      (section) => !isEmptyNoteValue(section.value)
+    );
+    for (const section of sections) {
+      // Keep a section's heading with its first lines
+      ensureSpace(40);
+      // A single free-text section repeats the document's title
+      if (sections.length > 1 || section.title !== document.title) {
+        writeText(section.title, { font: "bold", size: 11 });
+        y -= 2;
+      }
+      writeValue(section.field, section.value, 0);
+      y -= 8;
+    }
+    if (sections.length === 0) {
+      writeText("Nothing recorded", { gray: 0.5 });
+    }
+  });
+
+  // Signature block
+  y -= 16;
+  ensureSpace(64);
+  y -= 30;
+  drawLine(page, { x: MARGIN, y }, { x: MARGIN + 220, y });
+  y -= 12;
+  drawText(page, input.signature.name || "Clinician", MARGIN, y - 8, {
+    font: "bold",
+    size: 9,
+  });
+  drawText(page, input.signature.date, MARGIN + 240, y - 8, { size: 9 });
+  y -= 12;
+  drawText(page, "Signature", MARGIN, y - 8, { size: 8, gray: 0.45 });
+  drawText(page, "Date", MARGIN + 240, y - 8, { size: 8, gray: 0.45 });
+
+  // Footer with page numbers, once the number of pages is known
+  pages.forEach((footerPage, index) => {
+    const number = `Page ${index + 1} of ${pages.length}`;
+    drawLine(
+      footerPage,
+      { x: MARGIN, y: MARGIN + 12 },
+      { x: PAGE_WIDTH - MARGIN, y: MARGIN + 12 },
+      { gray: 0.8 }
+    );
+    drawText(footerPage, letterhead.clinicName, MARGIN, MARGIN, {
+      size: 8,
+      gray: 0.45,
+    });
+    drawText(
+      footerPage,
+      number,
+      PAGE_WIDTH - MARGIN - textWidth(number, "regular", 8),
+      MARGIN,
+      { size: 8, gray: 0.45 }
+    );
+  });
+
+  return serializePdf(pages, {
+    title: input.title,
+    author: letterhead.clinicName,
+  });
+}
@@ -0,0 +1,235 @@
+/**
+ * Minimal PDF writer
+ * Server-only: documents are rendered by server actions and sent to the
+ * browser or attached to emails
+ *
+ * Writes PDF 1.4 files with the standard Helvetica fonts, which every viewer
+ * has built in, so nothing needs to be embedded. Text is encoded as
+ * WinAnsi; characters outside it are written as "?". Coordinates are in
+ * points from the bottom-left corner of the page.
+ */
+
+export type PdfFont = "regular" | "bold";
+
+// US Letter
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+// A page's content stream operators, drawn in order
+export type PdfPage = {
+  operations: string[];
+};
+
+const FONT_NAMES: Record<PdfFont, { resource: string; baseFont: string }> = {
+  regular: { resource: "F1", baseFont: "Helvetica" },
+  bold: { resource: "F2", baseFont: "Helvetica-Bold" },
+};
+
+// Advance widths of the printable ASCII characters (32-126) in thousandths
+// of the font size, from the Adobe font metrics
+const ASCII_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+    278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+    584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+    833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+    278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+    500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+    500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+    278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+    584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+    833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+    278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+    556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+    500, 389, 280, 389, 584,
+  ],
+};
+
+// Width used for characters outside printable ASCII
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi codes of the characters outside Latin-1 that notes commonly use
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "•": 0x95, // bullet
+  "–": 0x96, // en dash
+  "—": 0x97, // em dash
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "…": 0x85, // ellipsis
+  "€": 0x80, // euro
+};
+
+/**
+ * The WinAnsi code for a character, or "?" when it has none
+ */
+function winAnsiCode(char: string): number {
+  const code = char.charCodeAt(0);
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+    return code;
+  }
+  return WIN_ANSI_EXTRAS[char] ?? 63;
+}
+
+/**
+ * Width of text in points
+ */
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  let width = 0;
+  for (const char of Array.from(text)) {
+    const code = winAnsiCode(char);
+    width +=
+      code >= 32 && code <= 126 ? ASCII_WIDTHS[font][code - 32] : DEFAULT_WIDTH;
+  }
+  return (width * size) / 1000;
+}
+
+/**
+ * Breaks text into lines no wider than maxWidth
+ * Existing line breaks are kept; words longer than a line are split
+ */
+export function wrapText(
+  text: string,
+  font: PdfFont,
+  size: number,
+  maxWidth: number
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\r\n?/g, "\n").split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        lines.push(line);
+      }
+
+      // Split words that do not fit on a line of their own
+      line = "";
+      for (const char of Array.from(word)) {
+        if (line && textWidth(line + char, font, size) > maxWidth) {
+          lines.push(line);
+          line = "";
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+// Text as a PDF string literal
+function pdfString(text: string) {
+  let encoded = "";
+  for (const char of Array.from(text)) {
+    const code = winAnsiCode(char);
+    const byte = String.fromCharCode(code);
+    encoded +=
+      byte === "(" || byte === ")" || byte === "\\" ? `\\${byte}` : byte;
+  }
+  return `(${encoded})`;
+}
+
+// Numbers without long fractions or exponents
+function num(value: number) {
+  return String(Math.round(value * 100) / 100);
+}
+
+export function createPage(): PdfPage {
+  return { operations: [] };
+}
+
+/**
+ * Draws a line of text with its baseline at y
+ * gray runs from 0 (black) to 1 (white)
+ */
+export function drawText(
+  page: PdfPage,
+  text: string,
+  x: number,
+  y: number,
+  options: { font?: PdfFont; size?: number; gray?: number } = {}
+) {
+  const { font = "regular", size = 10, gray = 0 } = options;
+  page.operations.push(
+    `BT ${num(gray)} g /${FONT_NAMES[font].resource} ${num(size)} Tf ${num(x)} ${num(y)} Td ${pdfString(text)} Tj ET`
+  );
+}
+
+/**
+ * Draws a straight line
+ */
+export function drawLine(
+  page: PdfPage,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  options: { width?: number; gray?: number } = {}
+) {
+  const { width = 0.5, gray = 0 } = options;
+  page.operations.push(
+    `${num(gray)} G ${num(width)} w ${num(from.x)} ${num(from.y)} m ${num(to.x)} ${num(to.y)} l S`
+  );
+}
+
+/**
+ * Serializes pages into a PDF file
+ */
+export function serializePdf(
+  pages: PdfPage[],
+  info: { title?: string; author?: string } = {}
+): Buffer {
+  // Objects 1-4 are the catalog, page tree and fonts; each page then takes
+  // two objects, the page and its content stream, and the info comes last
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+  const infoId = 5 + pages.length * 2;
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES.regular.baseFont} /Encoding /WinAnsiEncoding >>`;
+  objects[4] = `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES.bold.baseFont} /Encoding /WinAnsiEncoding >>`;
+
+  const infoEntries = [
+    info.title && `/Title ${pdfString(info.title)}`,
+    info.author && `/Author ${pdfString(info.author)}`,
+    "/Producer (OdisAI)",
+  ].filter(Boolean);
+  objects[infoId] = `<< ${infoEntries.join(" ")} >>`;
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const content = page.operations.join("\n");
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] =
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "latin1");
+}
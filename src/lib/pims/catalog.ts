@@ -0,0 +1,194 @@
+/**
+ * Practice-management system (PIMS) adapters available to clinics
+ * Safe to import from client components: ids, labels and the mapping each
+ * adapter can be configured with. The adapters live in ./index.ts.
+ */
+
+export const PIMS_ADAPTER_IDS = ["fhir_r4", "hl7v2_mdm", "webhook"] as const;
+
+export type PimsAdapterId = (typeof PIMS_ADAPTER_IDS)[number];
+
+// A connection's mapping: values for the adapter's mapping fields by key
+export type PimsMapping = Record<string, string>;
+
+export interface PimsMappingField {
+  key: string;
+  label: string;
+  description?: string;
+  defaultValue: string;
+  // Allowed values; free text when omitted
+  options?: Array<{ value: string; label: string }>;
+}
+
+// Document fields a webhook can send, in column order
+export const WEBHOOK_FIELDS: Array<{ key: string; label: string }> = [
+  { key: "documentId", label: "Document ID" },
+  { key: "documentType", label: "Document type" },
+  { key: "documentTitle", label: "Document title" },
+  { key: "caseId", label: "Case ID" },
+  { key: "visitType", label: "Visit type" },
+  { key: "visitDate", label: "Visit date" },
+  { key: "patientId", label: "Patient ID" },
+  { key: "patientName", label: "Patient name" },
+  { key: "species", label: "Species" },
+  { key: "ownerName", label: "Owner name" },
+  { key: "ownerEmail", label: "Owner email" },
+  { key: "clinicianName", label: "Clinician" },
+  { key: "approvedBy", label: "Approved by" },
+  { key: "approvedAt", label: "Approved at" },
+  { key: "content", label: "Note text" },
+];
+
+// "patientName" -> "patient_name"
+const snakeCase = (key: string) =>
+  key.replace(/([a-z])([A-Z])/g, "$1_$2").toLowerCase();
+
+export const PIMS_ADAPTERS: Record<
+  PimsAdapterId,
+  { label: string; description: string; mappingFields: PimsMappingField[] }
+> = {
+  fhir_r4: {
+    label: "FHIR R4",
+    description:
+      "A transaction bundle per case with the Patient, Encounter, a Composition per document and Observations",
+    mappingFields: [
+      {
+        key: "patientIdentifierSystem",
+        label: "Patient identifier system",
+        description: "Namespace of the patient IDs sent as identifiers",
+        defaultValue: "urn:odisai:patient",
+      },
+      {
+        key: "encounterIdentifierSystem",
+        label: "Encounter identifier system",
+        description: "Namespace of the case IDs sent as encounter identifiers",
+        defaultValue: "urn:odisai:case",
+      },
+      {
+        key: "compositionTypeCode",
+        label: "Composition type (LOINC)",
+        description: "Document type code of every Composition",
+        defaultValue: "11506-3",
+      },
+      {
+        key: "compositionTypeDisplay",
+        label: "Composition type display",
+        defaultValue: "Progress note",
+      },
+      {
+        key: "observationSections",
+        label: "Sections sent as Observations",
+        description:
+          "Comma-separated section keys, e.g. objective; the patient's weight is always sent",
+        defaultValue: "objective",
+      },
+      {
+        key: "bundleType",
+        label: "Bundle type",
+        defaultValue: "transaction",
+        options: [
+          { value: "transaction", label: "Transaction" },
+          { value: "collection", label: "Collection" },
+        ],
+      },
+    ],
+  },
+  hl7v2_mdm: {
+    label: "HL7 v2 MDM",
+    description:
+      "An MDM^T02 message per document with patient, owner, visit and one OBX segment per section",
+    mappingFields: [
+      {
+        key: "sendingApplication",
+        label: "Sending application (MSH-3)",
+        defaultValue: "ODISAI",
+      },
+      {
+        key: "sendingFacility",
+        label: "Sending facility (MSH-4)",
+        description: "The clinic's name when left empty",
+        defaultValue: "",
+      },
+      {
+        key: "receivingApplication",
+        label: "Receiving application (MSH-5)",
+        defaultValue: "PIMS",
+      },
+      {
+        key: "receivingFacility",
+        label: "Receiving facility (MSH-6)",
+        defaultValue: "",
+      },
+      {
+        key: "assigningAuthority",
+        label: "Patient ID assigning authority (PID-3)",
+        defaultValue: "ODISAI",
+      },
+      {
+        key: "documentType",
+        label: "Document type (TXA-2)",
+        defaultValue: "CN",
+      },
+      {
+        key: "processingId",
+        label: "Processing ID (MSH-11)",
+        defaultValue: "P",
+        options: [
+          { value: "P", label: "Production" },
+          { value: "T", label: "Training" },
+          { value: "D", label: "Debugging" },
+        ],
+      },
+    ],
+  },
+  webhook: {
+    label: "CSV / JSON webhook",
+    description:
+      "A row per document posted as CSV or JSON, with the columns named as the PIMS expects",
+    mappingFields: [
+      {
+        key: "format",
+        label: "Format",
+        defaultValue: "json",
+        options: [
+          { value: "json", label: "JSON" },
+          { value: "csv", label: "CSV" },
+        ],
+      },
+      ...WEBHOOK_FIELDS.map((field) => ({
+        key: field.key,
+        label: field.label,
+        description: "Column name; the field is left out when empty",
+        defaultValue: snakeCase(field.key),
+      })),
+    ],
+  },
+};
+
+export function isPimsAdapterId(value: unknown): value is PimsAdapterId {
+  return PIMS_ADAPTER_IDS.includes(value as PimsAdapterId);
+}
+
+/**
+ * A connection's mapping with defaults for the fields it does not set;
+ * values of other keys are dropped
+ */
+export function resolvePimsMapping(
+  adapter: PimsAdapterId,
+  stored: unknown
+): PimsMapping {
+  const values =
+    stored && typeof stored === "object" && !Array.isArray(stored)
+      ? (stored as Record<string, unknown>)
+      : {};
+
+  return Object.fromEntries(
+    PIMS_ADAPTERS[adapter].mappingFields.map((field) => {
+      const value = values[field.key];
+      const valid =
+        typeof value === "string" &&
+        (!field.options || field.options.some((o) => o.value === value));
+      return [field.key, valid ? value : field.defaultValue];
+    })
+  );
+}
@@ -0,0 +1,265 @@
+/**
+ * FHIR R4 adapter
+ * Sends a case as one bundle: the Patient (with the owner as a contact), an
+ * Encounter for the visit, a Composition per document and Observations for
+ * the patient's weight and the mapped sections. Resources reference each
+ * other by their urn:uuid full URLs, and a transaction bundle creates the
+ * Patient only if no patient has its identifier yet.
+ */
+
+import {
+  findNoteSection,
+  isEmptyNoteValue,
+  noteSectionText,
+} from "@/src/lib/notes/structured-note";
+import { escapeHtml } from "@/src/lib/templates/variables";
+import type { PimsAdapter, PimsExportPayload } from "./types";
+import type { PimsMapping } from "./catalog";
+
+export const FHIR_CONTENT_TYPE = "application/fhir+json";
+
+const LOINC = "http://loinc.org";
+const ACT_CODE = "http://terminology.hl7.org/CodeSystem/v3-ActCode";
+const OBSERVATION_CATEGORY =
+  "http://terminology.hl7.org/CodeSystem/observation-category";
+const PATIENT_ANIMAL = "http://hl7.org/fhir/StructureDefinition/patient-animal";
+
+type FhirResource = { resourceType: string } & Record<string, unknown>;
+
+type BundleEntry = {
+  fullUrl: string;
+  resource: FhirResource;
+  request?: { method: "POST"; url: string; ifNoneExist?: string };
+};
+
+// Text as an XHTML narrative, keeping line breaks
+function narrative(text: string) {
+  return {
+    status: "generated",
+    div: `<div xmlns="http://www.w3.org/1999/xhtml">${text
+      .split("\n")
+      .map(escapeHtml)
+      .join("<br/>")}</div>`,
+  };
+}
+
+// Dates are sent as FHIR dates, without the time
+const fhirDate = (value: string) => value.slice(0, 10);
+
+/**
+ * Builds the bundle for a case
+ */
+export function buildFhirBundle(
+  payload: PimsExportPayload,
+  mapping: PimsMapping
+): FhirResource {
+  const transaction = mapping.bundleType !== "collection";
+  const entries: BundleEntry[] = [];
+  const add = (resource: FhirResource, ifNoneExist?: string) => {
+    const fullUrl = `urn:uuid:${crypto.randomUUID()}`;
+    entries.push({
+      fullUrl,
+      resource,
+      ...(transaction && {
+        request: {
+          method: "POST",
+          url: resource.resourceType,
+          ...(ifNoneExist && { ifNoneExist }),
+        },
+      }),
+    });
+    return { reference: fullUrl };
+  };
+
+  const { patient, owner, clinician } = payload;
+  const subject = patient
+    ? add(
+        {
+          resourceType: "Patient",
+          identifier: [
+            { system: mapping.patientIdentifierSystem, value: patient.id },
+            ...(patient.microchipNumber
+              ? [
+                  {
+                    type: { text: "Microchip" },
+                    value: patient.microchipNumber,
+                  },
+                ]
+              : []),
+          ],
+          name: [{ text: patient.name }],
+          gender: patient.sex,
+          ...(patient.dateOfBirth && {
+            birthDate: fhirDate(patient.dateOfBirth),
+          }),
+          ...(patient.species && {
+            extension: [
+              {
+                url: PATIENT_ANIMAL,
+                extension: [
+                  {
+                    url: "species",
+                    valueCodeableConcept: { text: patient.species },
+                  },
+                  ...(patient.breed
+                    ? [
+                        {
+                          url: "breed",
+                          valueCodeableConcept: { text: patient.breed },
+                        },
+                      ]
+                    : []),
+                ],
+              },
+            ],
+          }),
+          ...(owner && {
+            contact: [
+              {
+                relationship: [{ text: "Owner" }],
+                name: { text: owner.name },
+                telecom: [
+                  ...(owner.phone
+                    ? [{ system: "phone", value: owner.phone }]
+                    : []),
+                  ...(owner.email
+                    ? [{ system: "email", value: owner.email }]
+                    : []),
+                ],
+              },
+            ],
+          }),
+        },
+        `identifier=${mapping.patientIdentifierSystem}|${patient.id}`
+      )
+    : undefined;
+
+  const clinicianRef = clinician?.name ? { display: clinician.name } : null;
+  const encounter = add({
+    resourceType: "Encounter",
+    identifier: [
+      { system: mapping.encounterIdentifierSystem, value: payload.case.id },
+    ],
+    status: "finished",
+    class:
+      payload.case.type === "emergency"
+        ? { system: ACT_CODE, code: "EMER", display: "emergency" }
+        : { system: ACT_CODE, code: "AMB", display: "ambulatory" },
+    ...(payload.case.type && { type: [{ text: payload.case.type }] }),
+    ...(subject && { subject }),
+    ...(clinicianRef && { participant: [{ individual: clinicianRef }] }),
+    period: { start: payload.case.visitDate },
+    serviceProvider: { display: payload.clinic.name },
+  });
+
+  const observation = (
+    code: Record<string, unknown>,
+    value: Record<string, unknown>,
+    category: string
+  ) =>
+    add({
+      resourceType: "Observation",
+      status: "final",
+      category: [
+        { coding: [{ system: OBSERVATION_CATEGORY, code: category }] },
+      ],
+      code,
+      ...(subject && { subject }),
+      encounter,
+      effectiveDateTime: payload.case.visitDate,
+      ...value,
+    });
+
+  if (patient?.weightKg !== null && patient?.weightKg !== undefined) {
+    observation(
+      {
+        coding: [{ system: LOINC, code: "29463-7", display: "Body weight" }],
+      },
+      {
+        valueQuantity: {
+          value: patient.weightKg,
+          unit: "kg",
+          system: "http://unitsofmeasure.org",
+          code: "kg",
+        },
+      },
+      "vital-signs"
+    );
+  }
+
+  const observationKeys = mapping.observationSections
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+
+  for (const document of payload.documents) {
+    for (const key of observationKeys) {
+      const section = findNoteSection(document.sections, key);
+      if (section && !isEmptyNoteValue(section.value)) {
+        observation(
+          { text: section.title },
+          { valueString: noteSectionText(section) },
+          "exam"
+        );
+      }
+    }
+
+    add({
+      resourceType: "Composition",
+      identifier: { system: `urn:odisai:${document.type}`, value: document.id },
+      status: document.approvedAt ? "final" : "preliminary",
+      type: {
+        coding: [
+          {
+            system: LOINC,
+            code: mapping.compositionTypeCode,
+            display: mapping.compositionTypeDisplay,
+          },
+        ],
+        text: mapping.compositionTypeDisplay,
+      },
+      ...(subject && { subject }),
+      encounter,
+      date: document.createdAt,
+      author: [clinicianRef || { display: payload.clinic.name }],
+      title: document.title,
+      ...(document.approvedAt && {
+        attester: [
+          {
+            mode: "legal",
+            time: document.approvedAt,
+            ...(document.approvedBy && {
+              party: { display: document.approvedBy },
+            }),
+          },
+        ],
+      }),
+      custodian: { display: payload.clinic.name },
+      section: document.sections
+        .filter((section) => !isEmptyNoteValue(section.value))
+        .map((section) => ({
+          title: section.title,
+          code: { text: section.key },
+          text: narrative(noteSectionText(section)),
+        })),
+    });
+  }
+
+  return {
+    resourceType: "Bundle",
+    type: transaction ? "transaction" : "collection",
+    timestamp: payload.exportedAt,
+    entry: entries,
+  };
+}
+
+export const fhirAdapter: PimsAdapter = {
+  id: "fhir_r4",
+  buildMessages: (payload, mapping) => [
+    {
+      contentType: FHIR_CONTENT_TYPE,
+      body: JSON.stringify(buildFhirBundle(payload, mapping), null, 2),
+      documents: payload.documents.map(({ type, id }) => ({ type, id })),
+    },
+  ],
+};
@@ -0,0 +1,203 @@
+/**
+ * HL7 v2 MDM adapter
+ * Sends each document as an MDM^T02 message (original document with
+ * content, v2.5): MSH, EVN, PID with the patient's species and breed, NK1
+ * for the owner, PV1 for the visit, TXA for the document and one OBX
+ * segment per section. Segments end with a carriage return.
+ */
+
+import {
+  isEmptyNoteValue,
+  noteSectionText,
+} from "@/src/lib/notes/structured-note";
+import type { PimsAdapter, PimsExportPayload } from "./types";
+import type { PimsMapping } from "./catalog";
+
+export const HL7_CONTENT_TYPE = "x-application/hl7-v2+er7";
+
+const SEGMENT_SEPARATOR = "\r";
+
+/**
+ * Escapes the delimiters of the default encoding characters (|^~\&)
+ */
+export function escapeHl7(value: string) {
+  return value
+    .replace(/\\/g, "\\E\\")
+    .replace(/\|/g, "\\F\\")
+    .replace(/\^/g, "\\S\\")
+    .replace(/&/g, "\\T\\")
+    .replace(/~/g, "\\R\\")
+    .replace(/\r\n?|\n/g, "\\.br\\");
+}
+
+// A date as an HL7 timestamp, e.g. 20250605143000
+function hl7Timestamp(value: string | Date) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  return date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+}
+
+// A segment from its fields, each a single value or a list of components
+function segment(name: string, fields: Array<string | string[] | null>) {
+  const encoded = fields.map((field) =>
+    Array.isArray(field)
+      ? field.map(escapeHl7).join("^")
+      : escapeHl7(field ?? "")
+  );
+  // Trailing empty fields are left out
+  while (encoded.length > 0 && encoded[encoded.length - 1] === "") {
+    encoded.pop();
+  }
+  return [name, ...encoded].join("|");
+}
+
+// Sets a field by its HL7 position, filling the fields before it
+function fieldsAt(values: Record<number, string | string[] | null>) {
+  const last = Math.max(...Object.keys(values).map(Number));
+  return Array.from({ length: last }, (_, index) => values[index + 1] ?? null);
+}
+
+const HL7_SEX = { male: "M", female: "F", unknown: "U" } as const;
+
+/**
+ * Builds the MDM^T02 message for one document of a case
+ */
+export function buildMdmMessage(
+  payload: PimsExportPayload,
+  document: PimsExportPayload["documents"][number],
+  mapping: PimsMapping,
+  controlId: string
+) {
+  const { patient, owner, clinician } = payload;
+  const now = hl7Timestamp(payload.exportedAt);
+  const clinicianField = clinician
+    ? [clinician.id, clinician.name || ""]
+    : null;
+
+  // MSH-2 holds the encoding characters themselves, so MSH is not escaped
+  const msh = [
+    "MSH",
+    "^~\\&",
+    escapeHl7(mapping.sendingApplication),
+    escapeHl7(mapping.sendingFacility || payload.clinic.name),
+    escapeHl7(mapping.receivingApplication),
+    escapeHl7(mapping.receivingFacility),
+    now,
+    "",
+    "MDM^T02^MDM_T02",
+    escapeHl7(controlId),
+    escapeHl7(mapping.processingId),
+    "2.5",
+  ].join("|");
+
+  const segments = [
+    msh,
+    segment("EVN", ["T02", now]),
+    segment(
+      "PID",
+      fieldsAt({
+        1: "1",
+        3: patient
+          ? [patient.id, "", "", mapping.assigningAuthority, "PI"]
+          : null,
+        5: patient ? [patient.name] : null,
+        7: patient?.dateOfBirth
+          ? hl7Timestamp(patient.dateOfBirth).slice(0, 8)
+          : null,
+        8: patient ? HL7_SEX[patient.sex] : null,
+        35: patient?.species ? ["", patient.species] : null,
+        36: patient?.breed ? ["", patient.breed] : null,
+      })
+    ),
+    ...(owner
+      ? [
+          segment(
+            "NK1",
+            fieldsAt({
+              1: "1",
+              2: [owner.name],
+              3: ["OWN", "Owner"],
+              5: owner.phone,
+            })
+          ),
+        ]
+      : []),
+    segment(
+      "PV1",
+      fieldsAt({
+        1: "1",
+        2: payload.case.type === "emergency" ? "E" : "O",
+        7: clinicianField,
+        19: payload.case.id,
+        44: hl7Timestamp(payload.case.visitDate),
+      })
+    ),
+    segment(
+      "TXA",
+      fieldsAt({
+        1: "1",
+        2: mapping.documentType,
+        3: "TX",
+        4: hl7Timestamp(document.createdAt),
+        5: clinicianField,
+        12: document.id,
+        17: document.approvedAt ? "AU" : "DO",
+        22: document.approvedAt
+          ? [document.approvedBy || "", hl7Timestamp(document.approvedAt)]
+          : null,
+      })
+    ),
+    ...document.sections
+      .filter((section) => !isEmptyNoteValue(section.value))
+      .map((section, index) =>
+        segment(
+          "OBX",
+          fieldsAt({
+            1: String(index + 1),
+            2: "TX",
+            3: [section.key, section.title, "L"],
+            5: noteSectionText(section),
+            11: "F",
+          })
+        )
+      ),
+  ];
+
+  return segments.join(SEGMENT_SEPARATOR) + SEGMENT_SEPARATOR;
+}
+
+/**
+ * Fields of a segment, split on the field separator
+ */
+export function hl7Fields(segmentText: string) {
+  return segmentText.split("|");
+}
+
+export const hl7Adapter: PimsAdapter = {
+  id: "hl7v2_mdm",
+  buildMessages: (payload, mapping) =>
+    payload.documents.map((document) => ({
+      contentType: HL7_CONTENT_TYPE,
+      body: buildMdmMessage(
+        payload,
+        document,
+        mapping,
+        // MSH-10 is at most 20 characters
+        crypto.randomUUID().replace(/-/g, "").slice(0, 20)
+      ),
+      documents: [{ type: document.type, id: document.id }],
+    })),
+  // Application rejects come back as an ACK with MSA-1 AE or AR
+  responseError: (body) => {
+    const msa = body.split(/\r\n?|\n/).find((line) => line.startsWith("MSA|"));
+    if (!msa) {
+      return "The response is not an HL7 acknowledgement";
+    }
+    const [, code, , text] = hl7Fields(msa);
+    return code === "AA" || code === "CA"
+      ? null
+      : `Message rejected (${code})${text ? `: ${text}` : ""}`;
+  },
+};
@@ -0,0 +1,162 @@
+/**
+ * Practice-management system (PIMS) adapters
+ * Server-only: messages are delivered from server actions with the
+ * connection's credentials
+ *
+ * An adapter turns the approved documents of a case into the requests a
+ * PIMS accepts; delivery is the same for every adapter, an HTTP POST to the
+ * connection's endpoint. Adapters can be tried against the local mock PIMS
+ * at /api/pims/mock (see ./mock.ts).
+ */
+
+import { fhirAdapter } from "./fhir";
+import { hl7Adapter } from "./hl7";
+import { webhookAdapter } from "./webhook";
+import type { PimsAdapterId } from "./catalog";
+import type { PimsAdapter, PimsExportPayload, PimsMessage } from "./types";
+import { soapNote } from "@/src/lib/notes/structured-note";
+import { assertPublicUrl } from "@/src/lib/public-url";
+
+export type { PimsAdapter, PimsExportPayload, PimsMessage } from "./types";
+export {
+  PIMS_ADAPTERS,
+  PIMS_ADAPTER_IDS,
+  isPimsAdapterId,
+  resolvePimsMapping,
+} from "./catalog";
+export type { PimsAdapterId, PimsMapping } from "./catalog";
+
+const ADAPTERS: Record<PimsAdapterId, PimsAdapter> = {
+  fhir_r4: fhirAdapter,
+  hl7v2_mdm: hl7Adapter,
+  webhook: webhookAdapter,
+};
+
+// How long a PIMS has to answer
+const DELIVERY_TIMEOUT_MS = 15000;
+
+// Longest response kept for the audit log: enough to tell why a PIMS
+// refused a message, not to read what an endpoint serves
+const MAX_RESPONSE_LENGTH = 500;
+
+export function getPimsAdapter(id: PimsAdapterId): PimsAdapter {
+  return ADAPTERS[id];
+}
+
+export type PimsDelivery = {
+  delivered: boolean;
+  status: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+};
+
+/**
+ * Posts a message to a PIMS endpoint
+ * The endpoint must resolve to a public address, and redirects are not
+ * followed. Never throws: failures are returned so they can be logged with
+ * the export
+ */
+export async function deliverPimsMessage(
+  adapter: PimsAdapter,
+  connection: { endpointUrl: string; authHeader: string | null },
+  message: PimsMessage
+): Promise<PimsDelivery> {
+  const startedAt = Date.now();
+  try {
+    await assertPublicUrl(connection.endpointUrl);
+    const response = await fetch(connection.endpointUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": message.contentType,
+        ...(connection.authHeader && {
+          Authorization: connection.authHeader,
+        }),
+      },
+      body: message.body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      cache: "no-store",
+      redirect: "manual",
+    });
+    const body = await response.text();
+
+    const error = !response.ok
+      ? `The PIMS answered with HTTP ${response.status}`
+      : adapter.responseError?.(body) || null;
+
+    return {
+      delivered: !error,
+      status: response.status,
+      responseBody: body.slice(0, MAX_RESPONSE_LENGTH),
+      error,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      delivered: false,
+      status: null,
+      responseBody: null,
+      error:
+        error instanceof Error && error.name === "TimeoutError"
+          ? `The PIMS did not answer within ${DELIVERY_TIMEOUT_MS / 1000} seconds`
+          : error instanceof Error
+            ? error.message
+            : "Failed to reach the PIMS",
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+/**
+ * A made-up case used to test connections, so trying a connection never
+ * sends patient data
+ */
+export function samplePimsPayload(clinic: {
+  id: string;
+  name: string;
+}): PimsExportPayload {
+  const now = new Date().toISOString();
+  return {
+    exportedAt: now,
+    clinic,
+    case: {
+      id: "00000000-0000-4000-8000-000000000001",
+      type: "checkup",
+      status: "completed",
+      visitDate: now,
+    },
+    clinician: { id: "00000000-0000-4000-8000-000000000002", name: "Dr. Test" },
+    patient: {
+      id: "00000000-0000-4000-8000-000000000003",
+      name: "Max",
+      species: "Canine",
+      breed: "Labrador Retriever",
+      sex: "male",
+      dateOfBirth: "2019-04-12",
+      microchipNumber: null,
+      weightKg: 31.5,
+    },
+    owner: {
+      id: "00000000-0000-4000-8000-000000000004",
+      name: "Sam Test",
+      email: "sam@example.com",
+      phone: "555-0100",
+    },
+    documents: [
+      {
+        type: "soap_note",
+        id: "00000000-0000-4000-8000-000000000005",
+        title: "SOAP Note",
+        createdAt: now,
+        approvedBy: "Dr. Test",
+        approvedAt: now,
+        sections: soapNote({
+          subjective: "Vomiting since yesterday, not eating.",
+          objective: "T 39.1 C, HR 96, mild cranial abdominal discomfort.",
+          assessment: "Acute gastroenteritis.",
+          plan: "Bland diet for 3 days, maropitant, recheck if not improving.",
+        }).sections,
+      },
+    ],
+  };
+}
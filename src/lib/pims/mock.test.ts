@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  PIMS_ADAPTER_IDS,
+  deliverPimsMessage,
+  getPimsAdapter,
+  resolvePimsMapping,
+  samplePimsPayload,
+} from "@/src/lib/pims";
+import { receiveMockPimsMessage } from "./mock";
+
+const MOCK_URL = "http://localhost:3000/api/pims/mock";
+
+const clinic = {
+  id: "00000000-0000-4000-8000-000000000010",
+  name: "Test Clinic",
+};
+
+describe("mock PIMS", () => {
+  // Requests are answered by the mock PIMS, as /api/pims/mock does
+  beforeEach(() => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: RequestInit) => {
+        const headers = init.headers as Record<string, string>;
+        const answer = receiveMockPimsMessage(
+          headers["Content-Type"],
+          String(init.body)
+        );
+        return new Response(answer.body, {
+          status: answer.status,
+          headers: { "Content-Type": answer.contentType },
+        });
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each(PIMS_ADAPTER_IDS)("accepts a case exported with %s", async (id) => {
+    const adapter = getPimsAdapter(id);
+    const messages = adapter.buildMessages(
+      samplePimsPayload(clinic),
+      resolvePimsMapping(id, {})
+    );
+
+    expect(messages.length).toBeGreaterThan(0);
+    for (const message of messages) {
+      const delivery = await deliverPimsMessage(
+        adapter,
+        { endpointUrl: MOCK_URL, authHeader: "Bearer test" },
+        message
+      );
+
+      expect(delivery).toMatchObject({
+        delivered: true,
+        status: 200,
+        error: null,
+      });
+    }
+  });
+
+  it("rejects an HL7 message without its observations", async () => {
+    const adapter = getPimsAdapter("hl7v2_mdm");
+    const [message] = adapter.buildMessages(
+      samplePimsPayload(clinic),
+      resolvePimsMapping("hl7v2_mdm", {})
+    );
+    const body = message.body
+      .split("\r")
+      .filter((segment) => !segment.startsWith("OBX|"))
+      .join("\r");
+
+    const delivery = await deliverPimsMessage(
+      adapter,
+      { endpointUrl: MOCK_URL, authHeader: null },
+      { ...message, body }
+    );
+
+    expect(delivery.delivered).toBe(false);
+    expect(delivery.error).toBe("Message rejected (AE): Missing OBX segment");
+  });
+});
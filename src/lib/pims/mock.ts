@@ -0,0 +1,244 @@
+/**
+ * Local PIMS that accepts what the adapters send
+ * Served at /api/pims/mock so connections can be tried without a real
+ * practice-management system. Each format is checked the way a PIMS would
+ * read it and answered in kind: a transaction-response bundle for FHIR, an
+ * ACK for HL7 and a count of records for webhooks. Invalid messages are
+ * rejected with the reason.
+ */
+
+import { FHIR_CONTENT_TYPE } from "./fhir";
+import { HL7_CONTENT_TYPE, hl7Fields } from "./hl7";
+
+export type MockPimsResponse = {
+  status: number;
+  contentType: string;
+  body: string;
+};
+
+const json = (status: number, body: unknown): MockPimsResponse => ({
+  status,
+  contentType: "application/json",
+  body: JSON.stringify(body, null, 2),
+});
+
+const operationOutcome = (message: string) =>
+  json(400, {
+    resourceType: "OperationOutcome",
+    issue: [{ severity: "error", code: "invalid", diagnostics: message }],
+  });
+
+type FhirEntry = {
+  fullUrl?: string;
+  resource?: { resourceType?: string };
+  request?: { method?: string; url?: string };
+};
+
+// References anywhere in a resource, e.g. { reference: "urn:uuid:..." }
+function collectReferences(value: unknown, references: string[] = []) {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectReferences(item, references));
+  } else if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      if (key === "reference" && typeof item === "string") {
+        references.push(item);
+      } else {
+        collectReferences(item, references);
+      }
+    }
+  }
+  return references;
+}
+
+function receiveFhir(body: string): MockPimsResponse {
+  let bundle: { resourceType?: string; type?: string; entry?: FhirEntry[] };
+  try {
+    bundle = JSON.parse(body);
+  } catch {
+    return operationOutcome("The body is not valid JSON");
+  }
+
+  if (bundle.resourceType !== "Bundle") {
+    return operationOutcome("Expected a Bundle");
+  }
+  if (bundle.type !== "transaction" && bundle.type !== "collection") {
+    return operationOutcome("Expected a transaction or collection bundle");
+  }
+  const entries = bundle.entry || [];
+  if (
+    !entries.some((entry) => entry.resource?.resourceType === "Composition")
+  ) {
+    return operationOutcome("The bundle has no Composition");
+  }
+
+  const fullUrls = new Set(entries.map((entry) => entry.fullUrl));
+  const missing = collectReferences(entries).filter(
+    (reference) => reference.startsWith("urn:uuid:") && !fullUrls.has(reference)
+  );
+  if (missing.length > 0) {
+    return operationOutcome(`Unresolved references: ${missing.join(", ")}`);
+  }
+  if (
+    bundle.type === "transaction" &&
+    entries.some((entry) => !entry.request?.method || !entry.request.url)
+  ) {
+    return operationOutcome("Every transaction entry needs a request");
+  }
+
+  if (bundle.type === "collection") {
+    return json(200, {
+      resourceType: "OperationOutcome",
+      issue: [
+        {
+          severity: "information",
+          code: "informational",
+          diagnostics: `Stored ${entries.length} resources`,
+        },
+      ],
+    });
+  }
+  return json(200, {
+    resourceType: "Bundle",
+    type: "transaction-response",
+    entry: entries.map((entry, index) => ({
+      response: {
+        status: "201 Created",
+        location: `${entry.resource?.resourceType}/${index + 1}/_history/1`,
+      },
+    })),
+  });
+}
+
+function receiveHl7(body: string): MockPimsResponse {
+  const segments = body.split(/\r\n?|\n/).filter(Boolean);
+  const msh =
+    segments[0] && segments[0].startsWith("MSH|") ? segments[0] : null;
+
+  // The ACK swaps the sending and receiving application and facility
+  const ack = (code: "AA" | "AE", text?: string) => {
+    const fields = msh ? hl7Fields(msh) : [];
+    const controlId = fields[9] || "";
+    return {
+      status: 200,
+      contentType: HL7_CONTENT_TYPE,
+      body:
+        [
+          [
+            "MSH",
+            "^~\\&",
+            fields[4] || "",
+            fields[5] || "",
+            fields[2] || "",
+            fields[3] || "",
+            new Date().toISOString().replace(/[-:T]/g, "").slice(0, 14),
+            "",
+            "ACK^T02^ACK",
+            `ACK${controlId}`.slice(0, 20),
+            fields[10] || "P",
+            "2.5",
+          ].join("|"),
+          ["MSA", code, controlId, ...(text ? [text] : [])].join("|"),
+        ].join("\r") + "\r",
+    };
+  };
+
+  if (!msh) {
+    return ack("AE", "Message does not start with MSH");
+  }
+  if (!hl7Fields(msh)[8]?.startsWith("MDM^")) {
+    return ack("AE", "Expected an MDM message");
+  }
+  for (const required of ["PID", "TXA", "OBX"]) {
+    if (!segments.some((line) => line.startsWith(`${required}|`))) {
+      return ack("AE", `Missing ${required} segment`);
+    }
+  }
+  return ack("AA");
+}
+
+// Parses CSV into rows, honouring quoted values
+function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      rows.push([...row, value]);
+      row = [];
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+  if (value || row.length > 0) {
+    rows.push([...row, value]);
+  }
+  return rows;
+}
+
+function receiveWebhook(contentType: string, body: string): MockPimsResponse {
+  if (contentType.startsWith("text/csv")) {
+    const [header, ...rows] = parseCsv(body);
+    if (!header || header.every((column) => !column)) {
+      return json(400, { error: "The CSV has no header row" });
+    }
+    const invalid = rows.findIndex((row) => row.length !== header.length);
+    if (invalid !== -1) {
+      return json(400, {
+        error: `Row ${invalid + 1} has ${rows[invalid].length} values for ${header.length} columns`,
+      });
+    }
+    return json(200, { received: rows.length, columns: header });
+  }
+
+  let payload: { records?: unknown };
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return json(400, { error: "The body is not valid JSON" });
+  }
+  if (!Array.isArray(payload.records)) {
+    return json(400, { error: "Expected a records array" });
+  }
+  return json(200, { received: payload.records.length });
+}
+
+/**
+ * Answers a message as a PIMS would, by its content type
+ */
+export function receiveMockPimsMessage(
+  contentType: string,
+  body: string
+): MockPimsResponse {
+  const type = contentType.toLowerCase();
+  if (type.startsWith(FHIR_CONTENT_TYPE)) {
+    return receiveFhir(body);
+  }
+  if (type.startsWith(HL7_CONTENT_TYPE)) {
+    return receiveHl7(body);
+  }
+  if (type.startsWith("application/json") || type.startsWith("text/csv")) {
+    return receiveWebhook(type, body);
+  }
+  return json(415, { error: `Unsupported content type: ${contentType}` });
+}
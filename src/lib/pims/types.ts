@@ -0,0 +1,65 @@
+/**
+ * Shared types for PIMS adapters
+ */
+
+import type { NoteSection } from "@/src/lib/notes/structured-note";
+import type { DocumentRef } from "@/src/lib/exports/documents";
+import type { PimsAdapterId, PimsMapping } from "./catalog";
+
+// Everything an adapter may send about one case
+export type PimsExportPayload = {
+  exportedAt: string;
+  clinic: { id: string; name: string };
+  case: {
+    id: string;
+    type: string | null;
+    status: string | null;
+    visitDate: string;
+  };
+  clinician: { id: string; name: string | null } | null;
+  patient: {
+    id: string;
+    name: string;
+    species: string | null;
+    breed: string | null;
+    sex: "male" | "female" | "unknown";
+    dateOfBirth: string | null;
+    microchipNumber: string | null;
+    weightKg: number | null;
+  } | null;
+  owner: {
+    id: string | null;
+    name: string;
+    email: string | null;
+    phone: string | null;
+  } | null;
+  // Approved documents of the case, oldest first
+  documents: Array<
+    DocumentRef & {
+      title: string;
+      createdAt: string;
+      approvedBy: string | null;
+      approvedAt: string | null;
+      sections: NoteSection[];
+    }
+  >;
+};
+
+// One request to the PIMS and the documents it carries
+export type PimsMessage = {
+  contentType: string;
+  body: string;
+  documents: DocumentRef[];
+};
+
+export interface PimsAdapter {
+  id: PimsAdapterId;
+  // Builds the requests for a case; most adapters send one per case
+  buildMessages(
+    payload: PimsExportPayload,
+    mapping: PimsMapping
+  ): PimsMessage[];
+  // Reads an error out of a successful HTTP response, e.g. a rejected HL7
+  // acknowledgement
+  responseError?(body: string): string | null;
+}
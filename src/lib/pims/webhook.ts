@@ -0,0 +1,98 @@
+/**
+ * CSV / JSON webhook adapter
+ * Posts one row per document, for PIMS that import spreadsheets or accept
+ * a plain JSON payload. Each field is sent under the column name of the
+ * connection's mapping and left out when the name is empty.
+ */
+
+import { noteToText } from "@/src/lib/notes/structured-note";
+import { WEBHOOK_FIELDS, type PimsMapping } from "./catalog";
+import type { PimsAdapter, PimsExportPayload } from "./types";
+
+// A document's row, by field key
+function documentRow(
+  payload: PimsExportPayload,
+  document: PimsExportPayload["documents"][number]
+): Record<string, string | null> {
+  return {
+    documentId: document.id,
+    documentType: document.type,
+    documentTitle: document.title,
+    caseId: payload.case.id,
+    visitType: payload.case.type,
+    visitDate: payload.case.visitDate,
+    patientId: payload.patient?.id ?? null,
+    patientName: payload.patient?.name ?? null,
+    species: payload.patient?.species ?? null,
+    ownerName: payload.owner?.name ?? null,
+    ownerEmail: payload.owner?.email ?? null,
+    clinicianName: payload.clinician?.name ?? null,
+    approvedBy: document.approvedBy,
+    approvedAt: document.approvedAt,
+    content: noteToText(document.sections),
+  };
+}
+
+// Quotes a CSV value when it holds a separator, quote or line break
+function csvValue(value: string | null) {
+  if (value === null) {
+    return "";
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Builds the rows of a case with the mapped column names
+ */
+export function buildWebhookRows(
+  payload: PimsExportPayload,
+  mapping: PimsMapping
+) {
+  const columns = WEBHOOK_FIELDS.filter((field) => mapping[field.key]?.trim());
+  const rows = payload.documents.map((document) => {
+    const row = documentRow(payload, document);
+    return Object.fromEntries(
+      columns.map((field) => [mapping[field.key].trim(), row[field.key]])
+    );
+  });
+
+  return {
+    columns: columns.map((field) => mapping[field.key].trim()),
+    rows,
+  };
+}
+
+export const webhookAdapter: PimsAdapter = {
+  id: "webhook",
+  buildMessages: (payload, mapping) => {
+    const { columns, rows } = buildWebhookRows(payload, mapping);
+    const documents = payload.documents.map(({ type, id }) => ({ type, id }));
+
+    if (mapping.format === "csv") {
+      return [
+        {
+          contentType: "text/csv; charset=utf-8",
+          body: [
+            columns.map(csvValue).join(","),
+            ...rows.map((row) =>
+              columns.map((column) => csvValue(row[column])).join(",")
+            ),
+          ].join("\r\n"),
+          documents,
+        },
+      ];
+    }
+
+    return [
+      {
+        contentType: "application/json",
+        body: JSON.stringify(
+          { exportedAt: payload.exportedAt, records: rows },
+          null,
+          2
+        ),
+        documents,
+      },
+    ];
+  },
+};
@@ -0,0 +1,88 @@
+/**
+ * Checks URLs the server sends requests to on a clinic's behalf
+ * Server-only: resolves host names with the server's DNS
+ *
+ * PIMS endpoints and webhook URLs are entered by clinic owners, and the
+ * answers are shown in the export and delivery logs. Without this check an
+ * owner could point them at the server's own network (localhost, cloud
+ * metadata addresses, private services) and read what comes back.
+ */
+
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+// Addresses that are not on the public internet
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, including cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved and broadcast
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], // unspecified
+  ["::1", 128], // loopback
+  ["64:ff9b::", 96], // NAT64, which embeds IPv4 addresses
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not
+ * reachable on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4 addresses written as IPv6, e.g. ::ffff:127.0.0.1
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return PRIVATE_NETWORKS.check(mapped[1], "ipv4");
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return PRIVATE_NETWORKS.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Throws unless the URL is http(s) and every address its host resolves to
+ * is public
+ * Outside production, private hosts are allowed so connections can be tried
+ * against the local mock PIMS (/api/pims/mock) and local receivers.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("The endpoint must be an http or https URL");
+  }
+  if (process.env.NODE_ENV !== "production") {
+    return;
+  }
+
+  // IPv6 hosts are bracketed in URLs
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = await lookup(host, { all: true, verbatim: true }).catch(
+    () => {
+      throw new Error(`The endpoint host ${host} could not be resolved`);
+    }
+  );
+
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(
+      `The endpoint host ${host} is not a public address; private, loopback and link-local hosts are not allowed`
+    );
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Compact HMAC-signed tokens for links sent by email
+ * Server-only: relies on a secret from the environment
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export interface SignedTokenPayload {
+  // Expiry as a Unix timestamp in seconds
+  exp: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Gets the signing secret
+ */
+function getSigningSecret(): string {
+  const secret = process.env.SIGNED_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("SIGNED_TOKEN_SECRET environment variable is not set");
+  }
+  return secret;
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac("sha256", getSigningSecret())
+    .update(encodedPayload)
+    .digest("base64url");
+}
+
+/**
+ * Creates a token carrying the payload that expires after the given number of seconds
+ */
+export function createSignedToken(
+  payload: Record<string, unknown>,
+  expiresInSeconds: number
+): string {
+  const body: SignedTokenPayload = {
+    ...payload,
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds,
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(body)).toString(
+    "base64url"
+  );
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * Verifies a token's signature and expiry and returns its payload,
+ * or null when the token is malformed, tampered with or expired
+ */
+export function verifySignedToken<T extends SignedTokenPayload>(
+  token: string
+): T | null {
+  const [encodedPayload, signature] = token.split(".");
+  if (!encodedPayload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload, "base64url").toString("utf8")
+    ) as T;
+
+    if (typeof payload.exp !== "number" || payload.exp * 1000 < Date.now()) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
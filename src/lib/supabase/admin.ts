@@ -0,0 +1,16 @@
+import { createClient } from "@supabase/supabase-js";
+import { Database } from "@/database.types";
+
+/**
+ * Supabase client with the service role key: row level security does not
+ * apply. Only for server code that reads secrets members must not see (PIMS
+ * credentials, webhook signing secrets) after checking the member may use
+ * them, and for scheduled jobs that run without a user. Never import it from
+ * client components.
+ */
+export const createAdminClient = () =>
+  createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  );
@@ -1,8 +1,29 @@
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
 import { Database } from "@/database.types";
+import { getApiSession } from "@/src/lib/api/session";
 
 export const createClient = async () => {
+  // Requests to the REST API act as the user of their access token
+  const apiSession = getApiSession();
+  if (apiSession) {
+    return createServerClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() {
+            return [];
+          },
+          setAll() {},
+        },
+        global: {
+          headers: { Authorization: `Bearer ${apiSession.accessToken}` },
+        },
+      }
+    );
+  }
+
   const cookieStore = await cookies();
 
   return createServerClient<Database>(
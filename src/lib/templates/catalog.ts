@@ -0,0 +1,24 @@
+/**
+ * Kinds of templates offered in the template editor
+ * Safe to import from client components. `type` is free text in the
+ * database, so templates may also use types not listed here.
+ */
+
+export const TEMPLATE_TYPES: Record<string, string> = {
+  soap: "SOAP note",
+  summary: "Visit summary",
+  discharge: "Discharge instructions",
+  referral: "Referral letter",
+  email: "Client email",
+  other: "Other",
+};
+
+/**
+ * Label of a template type, falling back to the type itself
+ */
+export function templateTypeLabel(type: string | null | undefined) {
+  if (!type) {
+    return "Untyped";
+  }
+  return TEMPLATE_TYPES[type] || type;
+}
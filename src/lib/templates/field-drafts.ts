@@ -0,0 +1,209 @@
+/**
+ * Editable form of a template's output schema, used by the field builder
+ * Safe to import from client components
+ *
+ * Each field is edited as a flat draft; lists and sections keep their item
+ * type and child fields on the same draft so switching a field's type does
+ * not lose what was typed.
+ */
+
+import type {
+  TemplateFieldSchema,
+  TemplateSchema,
+  TemplateSectionSchema,
+} from "./schema";
+
+export type FieldDraftType =
+  | "string"
+  | "choice"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "list"
+  | "section";
+
+// What a list holds; lists of lists are not offered in the builder
+export type ListItemType = Exclude<FieldDraftType, "list">;
+
+export interface FieldDraft {
+  // Stable id for rendering, not saved
+  id: string;
+  name: string;
+  title: string;
+  description: string;
+  type: FieldDraftType;
+  required: boolean;
+  // Allowed values of a choice, or of a list of choices
+  options: string[];
+  minimum?: number;
+  maximum?: number;
+  itemType: ListItemType;
+  // Fields of a section, or of each entry in a list of sections
+  fields: FieldDraft[];
+}
+
+export const FIELD_TYPE_LABELS: Record<FieldDraftType, string> = {
+  string: "Text",
+  choice: "Choice",
+  number: "Number",
+  integer: "Whole number",
+  boolean: "Yes / no",
+  list: "List",
+  section: "Section",
+};
+
+let nextDraftId = 0;
+
+function draftId() {
+  nextDraftId += 1;
+  return `field-${nextDraftId}`;
+}
+
+/**
+ * A new, empty text field
+ */
+export function newFieldDraft(overrides: Partial<FieldDraft> = {}): FieldDraft {
+  return {
+    id: draftId(),
+    name: "",
+    title: "",
+    description: "",
+    type: "string",
+    required: false,
+    options: [],
+    itemType: "string",
+    fields: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Type, options and child fields of a schema field as they are drafted
+ */
+function draftShape(
+  field: TemplateFieldSchema
+): Pick<FieldDraft, "type" | "options" | "minimum" | "maximum" | "fields"> {
+  switch (field.type) {
+    case "string":
+      return field.enum
+        ? { type: "choice", options: field.enum, fields: [] }
+        : { type: "string", options: [], fields: [] };
+    case "number":
+    case "integer":
+      return {
+        type: field.type,
+        options: [],
+        minimum: field.minimum,
+        maximum: field.maximum,
+        fields: [],
+      };
+    case "boolean":
+      return { type: "boolean", options: [], fields: [] };
+    case "object":
+      return { type: "section", options: [], fields: toFieldDrafts(field) };
+    case "array": {
+      // Nested lists are drafted as lists of text
+      const items = draftShape(field.items);
+      return items.type === "list"
+        ? { type: "string", options: [], fields: [] }
+        : items;
+    }
+  }
+}
+
+/**
+ * Drafts for the fields of a schema section, in order
+ */
+export function toFieldDrafts(
+  section: TemplateSectionSchema | null
+): FieldDraft[] {
+  if (!section) {
+    return [];
+  }
+
+  const required = new Set(section.required || []);
+  return Object.entries(section.properties).map(([name, field]) => {
+    const base = {
+      name,
+      title: field.title || "",
+      description: field.description || "",
+      required: required.has(name),
+    };
+
+    if (field.type === "array") {
+      const items = draftShape(field);
+      return newFieldDraft({
+        ...base,
+        ...items,
+        type: "list",
+        itemType: items.type as ListItemType,
+      });
+    }
+
+    return newFieldDraft({ ...base, ...draftShape(field) });
+  });
+}
+
+/**
+ * Schema of a field of the given type, from a draft's options and fields
+ */
+function fieldSchema(
+  draft: FieldDraft,
+  type: ListItemType
+): TemplateFieldSchema {
+  switch (type) {
+    case "string":
+      return { type: "string" };
+    case "choice":
+      return {
+        type: "string",
+        enum: draft.options.map((o) => o.trim()).filter(Boolean),
+      };
+    case "number":
+    case "integer":
+      return {
+        type,
+        ...(draft.minimum !== undefined && { minimum: draft.minimum }),
+        ...(draft.maximum !== undefined && { maximum: draft.maximum }),
+      };
+    case "boolean":
+      return { type: "boolean" };
+    case "section":
+      return toSectionSchema(draft.fields);
+  }
+}
+
+function toSectionSchema(drafts: FieldDraft[]): TemplateSectionSchema {
+  const properties: Record<string, TemplateFieldSchema> = {};
+
+  for (const draft of drafts) {
+    const shape =
+      draft.type === "list"
+        ? { type: "array" as const, items: fieldSchema(draft, draft.itemType) }
+        : fieldSchema(draft, draft.type);
+
+    properties[draft.name.trim()] = {
+      ...shape,
+      ...(draft.title.trim() && { title: draft.title.trim() }),
+      ...(draft.description.trim() && {
+        description: draft.description.trim(),
+      }),
+    } as TemplateFieldSchema;
+  }
+
+  const required = drafts.filter((d) => d.required).map((d) => d.name.trim());
+
+  return {
+    type: "object",
+    properties,
+    ...(required.length > 0 && { required }),
+  };
+}
+
+/**
+ * Output schema for the drafted fields, or null when there are none
+ * The result is checked with templateSchemaDefinition before saving
+ */
+export function toTemplateSchema(drafts: FieldDraft[]): TemplateSchema | null {
+  return drafts.length > 0 ? toSectionSchema(drafts) : null;
+}
@@ -0,0 +1,316 @@
+/**
+ * Library of veterinary templates clinics can install
+ * Safe to import from client components. The library is a template file
+ * like any other, so installing it goes through the same import as files
+ * shared between clinics; ensureDefaultTemplates installs it for clinics
+ * that have no templates yet.
+ */
+
+import { createTemplateFile, type TemplateFile } from "./portable";
+
+// Filled in from the case when the template is used
+const PATIENT_CONTEXT =
+  "Patient: {{ patientName }}, {{ species }}, {{ patientAge }}, {{ patientWeight }}. Previous assessment: {{ priorAssessment }}.";
+
+const TRANSCRIPT_INSTRUCTIONS =
+  "Use only information stated in the transcript. Leave a field empty rather than guessing, and write in concise clinical language suitable for the medical record.";
+
+export const TEMPLATE_LIBRARY: TemplateFile = createTemplateFile([
+  {
+    key: "library_soap",
+    name: "SOAP Note",
+    type: "soap",
+    description: "General SOAP note for routine and sick visits",
+    prompt: `You are a veterinary scribe. Write a SOAP note for this visit from the consultation transcript. ${PATIENT_CONTEXT} ${TRANSCRIPT_INSTRUCTIONS}`,
+    model: "gpt-4",
+    output_schema: {
+      type: "object",
+      properties: {
+        subjective: {
+          type: "string",
+          title: "Subjective",
+          description: "Patient history and symptoms as reported by the owner",
+        },
+        objective: {
+          type: "string",
+          title: "Objective",
+          description: "Vital signs, physical exam findings and test results",
+        },
+        assessment: {
+          type: "string",
+          title: "Assessment",
+          description: "Diagnosis or differentials and clinical reasoning",
+        },
+        plan: {
+          type: "string",
+          title: "Plan",
+          description: "Treatments, medications, diagnostics and follow-up",
+        },
+      },
+      required: ["subjective", "objective", "assessment", "plan"],
+    },
+  },
+  {
+    key: "library_discharge",
+    name: "Discharge Instructions",
+    type: "discharge",
+    description: "Home-care instructions for the owner, written in plain language",
+    prompt: `You are writing discharge instructions for a pet owner after a veterinary visit. Use plain, friendly language without medical jargon. ${TRANSCRIPT_INSTRUCTIONS}`,
+    model: "gpt-4",
+    output_schema: {
+      type: "object",
+      properties: {
+        summary: {
+          type: "string",
+          title: "Visit summary",
+          description: "What was found and done today, in one or two sentences",
+        },
+        medications: {
+          type: "array",
+          title: "Medications",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string", title: "Medication" },
+              instructions: {
+                type: "string",
+                title: "How to give it",
+                description: "Dose, frequency and duration",
+              },
+            },
+            required: ["name", "instructions"],
+          },
+        },
+        home_care: {
+          type: "string",
+          title: "Home care",
+          description: "Feeding, activity, wound care and other instructions",
+        },
+        warning_signs: {
+          type: "string",
+          title: "When to call us",
+          description: "Signs that need a call or an urgent visit",
+        },
+        follow_up: {
+          type: "string",
+          title: "Follow-up",
+          description: "Rechecks or appointments to book",
+        },
+      },
+      required: ["summary", "home_care", "warning_signs"],
+    },
+  },
+  {
+    key: "library_dental",
+    name: "Dental Procedure",
+    type: "soap",
+    description: "Dental cleaning and extraction record with a tooth chart summary",
+    prompt: `You are a veterinary scribe recording a dental procedure. Refer to teeth by modified Triadan number where the transcript gives them. ${TRANSCRIPT_INSTRUCTIONS}`,
+    model: "gpt-4",
+    output_schema: {
+      type: "object",
+      properties: {
+        anesthesia: {
+          type: "string",
+          title: "Anesthesia",
+          description: "Premedication, induction, maintenance and monitoring notes",
+        },
+        oral_exam: {
+          type: "string",
+          title: "Oral exam",
+          description: "Calculus, gingivitis, periodontal pockets, fractures and masses",
+        },
+        periodontal_grade: {
+          type: "integer",
+          title: "Periodontal disease stage",
+          minimum: 0,
+          maximum: 4,
+        },
+        radiographs: {
+          type: "string",
+          title: "Dental radiographs",
+          description: "Findings from intraoral radiographs",
+        },
+        extractions: {
+          type: "array",
+          title: "Extractions",
+          items: {
+            type: "object",
+            properties: {
+              tooth: { type: "string", title: "Tooth" },
+              reason: { type: "string", title: "Reason" },
+              technique: {
+                type: "string",
+                title: "Technique",
+                description: "Simple or surgical, sectioning, flap and closure",
+              },
+            },
+            required: ["tooth"],
+          },
+        },
+        procedures: {
+          type: "string",
+          title: "Other procedures",
+          description: "Scaling, polishing, sealants, nerve blocks and similar",
+        },
+        plan: {
+          type: "string",
+          title: "Aftercare",
+          description: "Pain relief, antibiotics, diet and recheck",
+        },
+      },
+      required: ["oral_exam", "procedures", "plan"],
+    },
+  },
+  {
+    key: "library_surgical_report",
+    name: "Surgical Report",
+    type: "surgical_report",
+    description: "Operative report for soft tissue and orthopedic procedures",
+    prompt: `You are a veterinary scribe writing the operative report for a surgery. ${TRANSCRIPT_INSTRUCTIONS}`,
+    model: "gpt-4",
+    output_schema: {
+      type: "object",
+      properties: {
+        procedure: { type: "string", title: "Procedure" },
+        indication: {
+          type: "string",
+          title: "Indication",
+          description: "Why the surgery was performed",
+        },
+        asa_status: {
+          type: "string",
+          title: "ASA status",
+          enum: ["I", "II", "III", "IV", "V"],
+        },
+        anesthesia: {
+          type: "string",
+          title: "Anesthesia",
+          description: "Protocol, monitoring and any complications",
+        },
+        approach: {
+          type: "string",
+          title: "Approach and technique",
+          description: "Positioning, preparation, approach and surgical technique",
+        },
+        findings: { type: "string", title: "Findings" },
+        closure: {
+          type: "string",
+          title: "Closure",
+          description: "Layers, suture material and pattern",
+        },
+        complications: { type: "string", title: "Complications" },
+        samples: {
+          type: "string",
+          title: "Samples submitted",
+          description: "Histopathology, culture or other samples",
+        },
+        postoperative_plan: {
+          type: "string",
+          title: "Postoperative plan",
+          description: "Analgesia, monitoring, restrictions and suture removal",
+        },
+      },
+      required: ["procedure", "approach", "findings", "postoperative_plan"],
+    },
+  },
+  {
+    key: "library_euthanasia",
+    name: "Euthanasia Record",
+    type: "euthanasia",
+    description: "Record of consent, procedure and aftercare wishes",
+    prompt: `You are a veterinary scribe recording a euthanasia. Write respectfully and factually. ${TRANSCRIPT_INSTRUCTIONS}`,
+    model: "gpt-4",
+    output_schema: {
+      type: "object",
+      properties: {
+        reason: {
+          type: "string",
+          title: "Reason for euthanasia",
+          description: "Condition and quality of life discussed with the owner",
+        },
+        consent: {
+          type: "string",
+          title: "Consent",
+          description: "Who gave consent and how it was recorded",
+        },
+        owner_present: { type: "boolean", title: "Owner present" },
+        sedation: {
+          type: "string",
+          title: "Sedation",
+          description: "Drug, dose and route",
+        },
+        euthanasia_agent: {
+          type: "string",
+          title: "Euthanasia agent",
+          description: "Drug, dose and route",
+        },
+        time_of_death: { type: "string", title: "Time of death" },
+        confirmation: {
+          type: "string",
+          title: "Confirmation of death",
+          description: "How death was confirmed",
+        },
+        aftercare: {
+          type: "string",
+          title: "Aftercare",
+          enum: ["home burial", "communal cremation", "individual cremation", "other"],
+        },
+        notes: {
+          type: "string",
+          title: "Notes",
+          description: "Keepsakes, paw prints and other wishes",
+        },
+      },
+      required: ["reason", "consent", "euthanasia_agent"],
+    },
+  },
+  {
+    key: "library_vaccine_visit",
+    name: "Vaccine Visit",
+    type: "soap",
+    description: "Wellness exam with vaccines given and next due dates",
+    prompt: `You are a veterinary scribe recording a wellness and vaccination visit. ${PATIENT_CONTEXT} ${TRANSCRIPT_INSTRUCTIONS}`,
+    model: "gpt-4",
+    output_schema: {
+      type: "object",
+      properties: {
+        history: {
+          type: "string",
+          title: "History",
+          description: "Owner concerns, diet, lifestyle and previous reactions",
+        },
+        exam: {
+          type: "string",
+          title: "Physical exam",
+          description: "Weight, vital signs and exam findings",
+        },
+        vaccines: {
+          type: "array",
+          title: "Vaccines given",
+          items: {
+            type: "object",
+            properties: {
+              vaccine: { type: "string", title: "Vaccine" },
+              site: { type: "string", title: "Site and route" },
+              lot_number: { type: "string", title: "Lot number" },
+              next_due: { type: "string", title: "Next due" },
+            },
+            required: ["vaccine"],
+          },
+        },
+        parasite_control: {
+          type: "string",
+          title: "Parasite control",
+          description: "Flea, tick and heartworm prevention discussed or given",
+        },
+        plan: {
+          type: "string",
+          title: "Plan",
+          description: "Recommendations and the next visit",
+        },
+      },
+      required: ["exam", "vaccines", "plan"],
+    },
+  },
+]);
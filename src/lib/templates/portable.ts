@@ -0,0 +1,124 @@
+/**
+ * Portable template files
+ * Safe to import from client components: the import dialog validates files
+ * with the same schema the server applies before anything is saved
+ *
+ * A file holds one or more templates with everything needed to recreate
+ * them in another clinic: prompt, fields, model and the version they were
+ * exported at. Templates are matched across clinics by `key`.
+ */
+
+import { z } from "zod";
+import { LLM_PROVIDER_IDS } from "@/src/lib/llm/catalog";
+import { templateSchemaDefinition, type TemplateSchema } from "./schema";
+
+export const TEMPLATE_FILE_FORMAT = "odis-templates";
+export const TEMPLATE_FILE_VERSION = 1;
+
+// Largest number of templates accepted in one file
+const MAX_FILE_TEMPLATES = 100;
+
+export const portableTemplateSchema = z.object({
+  key: z.string().trim().min(1).max(100).nullable().optional(),
+  name: z.string().trim().min(1, "Templates need a name").max(200),
+  type: z.string().trim().min(1).max(50),
+  description: z.string().max(2000).nullable().optional(),
+  prompt: z.string().min(1, "Templates need a prompt").max(20000),
+  content: z.string().max(50000).nullable().optional(),
+  provider: z.enum(LLM_PROVIDER_IDS).nullable().optional(),
+  model: z.string().max(200).nullable().optional(),
+  output_schema: templateSchemaDefinition.nullable().optional(),
+  // Version of the template when it was exported
+  version: z.number().int().positive().optional(),
+});
+
+export type PortableTemplate = z.infer<typeof portableTemplateSchema>;
+
+export const templateFileSchema = z
+  .object({
+    format: z.literal(TEMPLATE_FILE_FORMAT, {
+      errorMap: () => ({ message: "This is not a template file" }),
+    }),
+    version: z.literal(TEMPLATE_FILE_VERSION, {
+      errorMap: () => ({
+        message: "This template file was made by a newer version of the app",
+      }),
+    }),
+    exported_at: z.string().optional(),
+    templates: z
+      .array(portableTemplateSchema)
+      .min(1, "The file has no templates")
+      .max(MAX_FILE_TEMPLATES, `A file can hold at most ${MAX_FILE_TEMPLATES} templates`),
+  })
+  .superRefine((file, ctx) => {
+    const seen = new Set<string>();
+    file.templates.forEach((template, index) => {
+      if (!template.key) return;
+      if (seen.has(template.key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["templates", index, "key"],
+          message: `The key "${template.key}" is used by more than one template`,
+        });
+      }
+      seen.add(template.key);
+    });
+  });
+
+export type TemplateFile = z.infer<typeof templateFileSchema>;
+
+// What to do with an imported template whose key the clinic already uses
+export type TemplateImportResolution = "rename" | "overwrite" | "skip";
+
+/**
+ * The portable form of a saved template
+ */
+export function toPortableTemplate(template: {
+  key: string | null;
+  name: string | null;
+  type: string | null;
+  description: string | null;
+  prompt: string | null;
+  content: string | null;
+  provider: string | null;
+  model: string | null;
+  output_schema: unknown;
+  version: number;
+}): PortableTemplate {
+  return {
+    key: template.key,
+    name: template.name || "Untitled template",
+    type: template.type || "other",
+    description: template.description,
+    prompt: template.prompt || "",
+    content: template.content,
+    provider: template.provider as PortableTemplate["provider"],
+    model: template.model,
+    output_schema: (template.output_schema as TemplateSchema | null) ?? null,
+    version: template.version,
+  };
+}
+
+/**
+ * A template file holding the given templates
+ */
+export function createTemplateFile(templates: PortableTemplate[]): TemplateFile {
+  return {
+    format: TEMPLATE_FILE_FORMAT,
+    version: TEMPLATE_FILE_VERSION,
+    exported_at: new Date().toISOString(),
+    templates,
+  };
+}
+
+/**
+ * A key not in use, made by numbering the original, e.g. dental_2
+ */
+export function availableKey(key: string, taken: Set<string>) {
+  for (let n = 2; ; n++) {
+    const candidate = `${key}_${n}`;
+    if (!taken.has(candidate)) {
+      return candidate;
+    }
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Output schemas for templates
+ * Safe to import from client components: the template editor validates
+ * definitions with the same rules the server applies
+ *
+ * A template's `output_schema` is a small subset of JSON Schema describing the
+ * fields the model must fill in: strings (optionally limited to an enum),
+ * numbers, booleans, lists and nested sections. It is converted to Zod so
+ * generation can use validated structured output.
+ */
+
+import { z } from "zod";
+
+// (type aliases rather than interfaces so they can be stored as JSON)
+type FieldBase = {
+  title?: string;
+  description?: string;
+};
+
+export type TemplateFieldSchema =
+  | (FieldBase & { type: "string"; enum?: string[] })
+  | (FieldBase & { type: "number" | "integer"; minimum?: number; maximum?: number })
+  | (FieldBase & { type: "boolean" })
+  | (FieldBase & { type: "array"; items: TemplateFieldSchema })
+  | TemplateSectionSchema;
+
+export type TemplateSectionSchema = FieldBase & {
+  type: "object";
+  properties: Record<string, TemplateFieldSchema>;
+  required?: string[];
+};
+
+// The top level of a template schema is always a section
+export type TemplateSchema = TemplateSectionSchema;
+
+// A validation problem with one field, e.g. { path: "plan.medications.0", ... }
+export type TemplateFieldError = {
+  path: string;
+  message: string;
+};
+
+// Sections may nest this deep below the top level
+const MAX_SCHEMA_DEPTH = 4;
+export const MAX_SECTION_FIELDS = 50;
+export const FIELD_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+const fieldBaseSchema = {
+  title: z.string().trim().max(100).optional(),
+  description: z.string().trim().max(500).optional(),
+};
+
+/**
+ * Validates the definition of a single field
+ */
+export const fieldDefinitionSchema: z.ZodType<TemplateFieldSchema> = z.lazy(() =>
+  z.union([
+    z.object({
+      ...fieldBaseSchema,
+      type: z.literal("string"),
+      enum: z.array(z.string().trim().min(1)).min(1).max(50).optional(),
+    }),
+    z.object({
+      ...fieldBaseSchema,
+      type: z.enum(["number", "integer"]),
+      minimum: z.number().optional(),
+      maximum: z.number().optional(),
+    }),
+    z.object({ ...fieldBaseSchema, type: z.literal("boolean") }),
+    z.object({
+      ...fieldBaseSchema,
+      type: z.literal("array"),
+      items: fieldDefinitionSchema,
+    }),
+    sectionDefinitionSchema,
+  ])
+);
+
+const sectionDefinitionSchema = z
+  .object({
+    ...fieldBaseSchema,
+    type: z.literal("object"),
+    properties: z
+      .record(
+        z.string().regex(FIELD_NAME_PATTERN, {
+          message:
+            "Field names must start with a letter and use only letters, numbers and underscores",
+        }),
+        fieldDefinitionSchema
+      )
+      .refine((properties) => Object.keys(properties).length > 0, {
+        message: "A section needs at least one field",
+      })
+      .refine(
+        (properties) => Object.keys(properties).length <= MAX_SECTION_FIELDS,
+        { message: `A section can have at most ${MAX_SECTION_FIELDS} fields` }
+      ),
+    required: z.array(z.string()).optional(),
+  })
+  .superRefine((section, ctx) => {
+    (section.required || []).forEach((name, index) => {
+      if (!(name in section.properties)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["required", index],
+          message: `Required field "${name}" is not defined`,
+        });
+      }
+    });
+  });
+
+/**
+ * Validates a schema definition, e.g. when a template is saved
+ */
+export const templateSchemaDefinition = sectionDefinitionSchema.superRefine(
+  (schema, ctx) => {
+    if (schemaDepth(schema) > MAX_SCHEMA_DEPTH) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Sections can be nested at most ${MAX_SCHEMA_DEPTH} levels deep`,
+      });
+    }
+  }
+) as z.ZodType<TemplateSchema>;
+
+function schemaDepth(field: TemplateFieldSchema): number {
+  if (field.type === "object") {
+    return (
+      1 + Math.max(0, ...Object.values(field.properties).map(schemaDepth))
+    );
+  }
+  if (field.type === "array") {
+    return schemaDepth(field.items);
+  }
+  return 0;
+}
+
+/**
+ * Output schema used by SOAP templates that do not define their own
+ */
+export const SOAP_TEMPLATE_SCHEMA: TemplateSchema = {
+  type: "object",
+  properties: {
+    subjective: {
+      type: "string",
+      title: "Subjective",
+      description: "Patient history and symptoms as reported",
+    },
+    objective: {
+      type: "string",
+      title: "Objective",
+      description: "Clinical findings and observations",
+    },
+    assessment: {
+      type: "string",
+      title: "Assessment",
+      description: "Diagnosis and clinical reasoning",
+    },
+    plan: {
+      type: "string",
+      title: "Plan",
+      description: "Treatment plan and follow-up instructions",
+    },
+  },
+  required: ["subjective", "objective", "assessment", "plan"],
+};
+
+export function isSoapTemplateType(type: string | null | undefined) {
+  return type === "soap" || type === "soap_notes";
+}
+
+/**
+ * Output schema of a template, or null for free-text templates
+ * SOAP templates saved before output schemas existed use the SOAP sections
+ */
+export function templateOutputSchema(template: {
+  type: string | null;
+  output_schema: unknown;
+}): TemplateSchema | null {
+  if (template.output_schema) {
+    return template.output_schema as TemplateSchema;
+  }
+
+  return isSoapTemplateType(template.type) ? SOAP_TEMPLATE_SCHEMA : null;
+}
+
+/**
+ * Converts a template schema to the Zod schema used for generation
+ * Optional fields are nullable so the model can leave them empty
+ */
+export function toZodSchema(field: TemplateFieldSchema): z.ZodTypeAny {
+  let schema: z.ZodTypeAny;
+
+  switch (field.type) {
+    case "string":
+      schema = field.enum
+        ? z.enum(field.enum as [string, ...string[]])
+        : z.string();
+      break;
+    case "number":
+    case "integer": {
+      let number = field.type === "integer" ? z.number().int() : z.number();
+      if (field.minimum !== undefined) number = number.min(field.minimum);
+      if (field.maximum !== undefined) number = number.max(field.maximum);
+      schema = number;
+      break;
+    }
+    case "boolean":
+      schema = z.boolean();
+      break;
+    case "array":
+      schema = z.array(toZodSchema(field.items));
+      break;
+    case "object": {
+      const required = new Set(field.required || []);
+      schema = z.object(
+        Object.fromEntries(
+          Object.entries(field.properties).map(([name, property]) => {
+            const propertySchema = toZodSchema(property);
+            return [
+              name,
+              required.has(name) ? propertySchema : propertySchema.nullable(),
+            ];
+          })
+        )
+      );
+      break;
+    }
+  }
+
+  const description = [field.title, field.description]
+    .filter(Boolean)
+    .join(": ");
+  return description ? schema.describe(description) : schema;
+}
+
+/**
+ * Flattens a Zod error into one message per field
+ */
+export function formatFieldErrors(error: z.ZodError): TemplateFieldError[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Renders generated content as plain text, one heading per field
+ */
+export function formatStructuredContent(
+  schema: TemplateSchema,
+  content: Record<string, unknown>
+): string {
+  const lines: string[] = [];
+
+  const write = (
+    field: TemplateFieldSchema,
+    name: string,
+    value: unknown,
+    depth: number
+  ) => {
+    if (value === null || value === undefined || value === "") return;
+
+    const heading = field.title || name;
+    const indent = "  ".repeat(depth);
+
+    if (field.type === "object" && typeof value === "object") {
+      lines.push(`${indent}${heading}:`);
+      for (const [childName, child] of Object.entries(field.properties)) {
+        write(
+          child,
+          childName,
+          (value as Record<string, unknown>)[childName],
+          depth + 1
+        );
+      }
+    } else if (Array.isArray(value)) {
+      lines.push(`${indent}${heading}:`);
+      for (const item of value) {
+        lines.push(
+          `${indent}- ${typeof item === "object" ? JSON.stringify(item) : String(item)}`
+        );
+      }
+    } else {
+      lines.push(`${indent}${heading}: ${String(value)}`);
+    }
+  };
+
+  for (const [name, field] of Object.entries(schema.properties)) {
+    write(field, name, content[name], 0);
+  }
+
+  return lines.join("\n");
+}
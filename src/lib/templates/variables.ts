@@ -0,0 +1,230 @@
+/**
+ * Template variables
+ * Safe to import from client components: the template editor lists the
+ * catalogue and checks placeholders with the same rules the server applies
+ *
+ * Prompts and email bodies refer to variables as `{{ name }}`. Case
+ * variables are resolved from the case being worked on; email variables are
+ * given by whoever sends the email. Rendering is a single pass, so values
+ * that contain placeholders are never expanded themselves, and values are
+ * HTML-escaped when the output is HTML.
+ */
+
+// Where a template's text is used, which decides the variables it may use
+export type TemplateVariableScope = "generation" | "email";
+
+export interface TemplateVariable {
+  label: string;
+  description: string;
+  // Shown in the editor and used when trying a template without a case
+  example: string;
+  scopes: TemplateVariableScope[];
+}
+
+const ALL_SCOPES: TemplateVariableScope[] = ["generation", "email"];
+
+export const TEMPLATE_VARIABLES = {
+  patientName: {
+    label: "Patient name",
+    description: "Name of the patient seen in the case",
+    example: "Bella",
+    scopes: ALL_SCOPES,
+  },
+  species: {
+    label: "Species",
+    description: "Species of the patient, with the breed when recorded",
+    example: "dog (Labrador Retriever)",
+    scopes: ALL_SCOPES,
+  },
+  patientAge: {
+    label: "Age",
+    description: "Age of the patient on the visit date",
+    example: "4 years",
+    scopes: ALL_SCOPES,
+  },
+  patientWeight: {
+    label: "Weight",
+    description: "Most recent weight recorded for the patient",
+    example: "28.4 kg",
+    scopes: ALL_SCOPES,
+  },
+  ownerName: {
+    label: "Owner name",
+    description: "Name of the patient's owner",
+    example: "Jordan Smith",
+    scopes: ALL_SCOPES,
+  },
+  clinicianName: {
+    label: "Clinician",
+    description: "Clinician responsible for the case",
+    example: "Dr. Alex Morgan",
+    scopes: ALL_SCOPES,
+  },
+  visitType: {
+    label: "Visit type",
+    description: "Type of visit, e.g. checkup or surgery",
+    example: "checkup",
+    scopes: ALL_SCOPES,
+  },
+  visitDate: {
+    label: "Visit date",
+    description: "Date of the visit",
+    example: "March 4, 2025",
+    scopes: ALL_SCOPES,
+  },
+  priorAssessment: {
+    label: "Prior assessment",
+    description: "Assessment from the patient's previous SOAP note",
+    example: "Mild otitis externa, left ear",
+    scopes: ALL_SCOPES,
+  },
+  recipientName: {
+    label: "Recipient name",
+    description: "Name of the person the email is sent to",
+    example: "Jordan Smith",
+    scopes: ["email"],
+  },
+  userName: {
+    label: "User name",
+    description: "Name of the user the email is about",
+    example: "Alex Morgan",
+    scopes: ["email"],
+  },
+  providerName: {
+    label: "Provider name",
+    description: "Clinician named in the email",
+    example: "Dr. Alex Morgan",
+    scopes: ["email"],
+  },
+  appointmentDate: {
+    label: "Appointment date",
+    description: "Date of an upcoming appointment",
+    example: "March 11, 2025",
+    scopes: ["email"],
+  },
+  appointmentTime: {
+    label: "Appointment time",
+    description: "Time of an upcoming appointment",
+    example: "10:30 AM",
+    scopes: ["email"],
+  },
+  resetLink: {
+    label: "Reset link",
+    description: "Password reset link",
+    example: "https://example.com/reset",
+    scopes: ["email"],
+  },
+} satisfies Record<string, TemplateVariable>;
+
+export type TemplateVariableName = keyof typeof TEMPLATE_VARIABLES;
+
+// Values for a template's variables; missing ones render as the fallback
+export type TemplateVariableValues = Partial<
+  Record<TemplateVariableName, string | null>
+> &
+  Record<string, unknown>;
+
+// A placeholder, e.g. {{ patientName }}
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+// Anything between braces, to report placeholders that are not well formed
+const BRACES_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+export function isTemplateVariable(name: string): name is TemplateVariableName {
+  return Object.prototype.hasOwnProperty.call(TEMPLATE_VARIABLES, name);
+}
+
+/**
+ * Variables a template's text can use where it is used
+ */
+export function variablesForScope(
+  scope: TemplateVariableScope
+): TemplateVariableName[] {
+  return (Object.keys(TEMPLATE_VARIABLES) as TemplateVariableName[]).filter(
+    (name) =>
+      (TEMPLATE_VARIABLES[name].scopes as TemplateVariableScope[]).includes(scope)
+  );
+}
+
+/**
+ * Scope of a template's prompt and body
+ */
+export function templateVariableScope(
+  type: string | null | undefined
+): TemplateVariableScope {
+  return type === "email" ? "email" : "generation";
+}
+
+/**
+ * Problems with the placeholders in a template's text: malformed ones,
+ * unknown variables and variables not available in the scope
+ */
+export function findVariableErrors(
+  text: string | null | undefined,
+  scope: TemplateVariableScope
+): string[] {
+  if (!text) {
+    return [];
+  }
+
+  const errors = new Set<string>();
+  for (const [placeholder, inner] of Array.from(text.matchAll(BRACES_PATTERN))) {
+    const name = inner.trim();
+    if (!/^[a-zA-Z][a-zA-Z0-9_]*$/.test(name)) {
+      errors.add(`${placeholder} is not a valid placeholder`);
+    } else if (!isTemplateVariable(name)) {
+      errors.add(`{{ ${name} }} is not a known variable`);
+    } else if (
+      !(TEMPLATE_VARIABLES[name].scopes as TemplateVariableScope[]).includes(scope)
+    ) {
+      errors.add(`{{ ${name} }} can only be used in email templates`);
+    }
+  }
+
+  return Array.from(errors);
+}
+
+/**
+ * Fills in a template's placeholders
+ * Values are HTML-escaped when `html` is set; variables without a value
+ * render as `fallback`
+ */
+export function renderTemplate(
+  text: string,
+  values: TemplateVariableValues,
+  { html = false, fallback = "" }: { html?: boolean; fallback?: string } = {}
+) {
+  return text.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const value = Object.prototype.hasOwnProperty.call(values, name)
+      ? values[name]
+      : undefined;
+    const text =
+      value === null || value === undefined || value === ""
+        ? fallback
+        : String(value);
+    return html ? escapeHtml(text) : text;
+  });
+}
+
+/**
+ * Example values for every variable, used when there is no case
+ */
+export function exampleVariableValues(): TemplateVariableValues {
+  return Object.fromEntries(
+    Object.entries(TEMPLATE_VARIABLES).map(([name, variable]) => [
+      name,
+      variable.example,
+    ])
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Line diff for comparing two versions of a text side by side
+ * Safe to import from client components
+ */
+
+export type DiffRow =
+  | { type: "equal"; left: string; right: string }
+  | { type: "changed"; left: string; right: string }
+  | { type: "removed"; left: string; right: null }
+  | { type: "added"; left: null; right: string };
+
+// Beyond this many line pairs the texts are compared as one changed block
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Diffs two texts line by line (longest common subsequence). Runs of removed
+ * lines followed by added lines are paired up as changed rows so they line up
+ * side by side.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const left = before.split("\n");
+  const right = after.split("\n");
+
+  if (left.length * right.length > MAX_DIFF_CELLS) {
+    return pairChanges(left, right);
+  }
+
+  // lengths[i][j]: longest common subsequence of left[i..] and right[j..]
+  const lengths = Array.from({ length: left.length + 1 }, () =>
+    new Array<number>(right.length + 1).fill(0)
+  );
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        left[i] === right[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    rows.push(...pairChanges(removed, added));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && left[i] === right[j]) {
+      flush();
+      rows.push({ type: "equal", left: left[i], right: right[j] });
+      i++;
+      j++;
+    } else if (
+      j >= right.length ||
+      (i < left.length && lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      removed.push(left[i++]);
+    } else {
+      added.push(right[j++]);
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+function pairChanges(removed: string[], added: string[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+    if (k < removed.length && k < added.length) {
+      rows.push({ type: "changed", left: removed[k], right: added[k] });
+    } else if (k < removed.length) {
+      rows.push({ type: "removed", left: removed[k], right: null });
+    } else {
+      rows.push({ type: "added", left: null, right: added[k] });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,63 @@
+import { createClient } from "@deepgram/sdk";
+import { formatSegments } from "./segments";
+import { toDeepgramOptions } from "./settings";
+import type { Transcriber, TranscriptSegment } from "./types";
+
+// Prerecorded options: diarize and split into utterances so each speaker's
+// turns can be labelled in the saved transcript. The clinic or user
+// transcription settings are applied over these.
+const PRERECORDED_OPTIONS = {
+  model: "nova-3",
+  smart_format: true,
+  punctuate: true,
+  diarize: true,
+  utterances: true,
+  filler_words: true,
+};
+
+/**
+ * Transcribes recordings with Deepgram's prerecorded API
+ */
+export function createDeepgramTranscriber(apiKey: string): Transcriber {
+  const deepgram = createClient(apiKey);
+
+  return {
+    name: "deepgram",
+    async transcribe(source, settings) {
+      const { result, error } = await deepgram.listen.prerecorded.transcribeUrl(
+        { url: source.url },
+        {
+          ...PRERECORDED_OPTIONS,
+          ...(settings && toDeepgramOptions(settings)),
+          utterances: true,
+        }
+      );
+
+      if (error || !result) {
+        throw new Error(error?.message || "Deepgram returned no result");
+      }
+
+      const segments: TranscriptSegment[] = (
+        result.results.utterances || []
+      ).map((utterance) => ({
+        speaker: utterance.speaker ?? null,
+        start: utterance.start,
+        end: utterance.end,
+        text: utterance.transcript,
+        confidence: utterance.confidence,
+      }));
+
+      // Without utterances fall back to the plain channel transcript
+      const transcript =
+        segments.length > 0
+          ? formatSegments(segments)
+          : result.results.channels[0]?.alternatives[0]?.transcript || "";
+
+      return {
+        transcript,
+        segments,
+        duration: result.metadata?.duration ?? null,
+      };
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { formatSegments } from "./segments";
+import type { Transcriber, TranscriptSegment } from "./types";
+
+// A short two-speaker consult returned for every recording
+const FAKE_SEGMENTS: TranscriptSegment[] = [
+  {
+    speaker: 0,
+    start: 0,
+    end: 3.2,
+    text: "What brings Max in today?",
+    confidence: 0.98,
+  },
+  {
+    speaker: 1,
+    start: 3.6,
+    end: 8.9,
+    text: "He's been vomiting since yesterday and won't eat his dinner.",
+    confidence: 0.95,
+  },
+  {
+    speaker: 0,
+    start: 9.4,
+    end: 13.1,
+    text: "Okay, let's check his temperature and feel his abdomen.",
+    confidence: 0.97,
+  },
+];
+
+/**
+ * Local transcriber that never calls a provider
+ * Used in development and tests via TRANSCRIPTION_PROVIDER=fake
+ */
+export function createFakeTranscriber(
+  segments: TranscriptSegment[] = FAKE_SEGMENTS
+): Transcriber {
+  return {
+    name: "fake",
+    async transcribe() {
+      return {
+        transcript: formatSegments(segments),
+        segments,
+        duration: segments.length > 0 ? segments[segments.length - 1].end : 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Server-side transcription of uploaded recordings
+ * Server-only: the Deepgram provider relies on a secret from the environment
+ *
+ * The provider is chosen with TRANSCRIPTION_PROVIDER ("deepgram" by default,
+ * or "fake" for a local transcriber that needs no network). Tests can swap
+ * in their own with setTranscriber().
+ */
+
+import { createDeepgramTranscriber } from "./deepgram";
+import { createFakeTranscriber } from "./fake";
+import type { Transcriber } from "./types";
+
+export type {
+  SpeakerLabels,
+  Transcriber,
+  TranscriptionResult,
+  TranscriptionSource,
+  TranscriptSegment,
+  TranscriptWord,
+} from "./types";
+export type {
+  TranscriptionSettings,
+  TranscriptionSettingsProfile,
+} from "./settings";
+export { createDeepgramTranscriber, createFakeTranscriber };
+export {
+  appendSegments,
+  formatSegments,
+  segmentsFromWords,
+  speakerName,
+} from "./segments";
+export {
+  DEFAULT_TRANSCRIPTION_SETTINGS,
+  resolveTranscriptionSettings,
+  toDeepgramOptions,
+  toLiveOptions,
+} from "./settings";
+
+let overrideTranscriber: Transcriber | null = null;
+
+/**
+ * Replaces the configured provider, or restores it when passed null
+ */
+export function setTranscriber(transcriber: Transcriber | null) {
+  overrideTranscriber = transcriber;
+}
+
+/**
+ * Gets the transcriber for the configured provider
+ */
+export function getTranscriber(): Transcriber {
+  if (overrideTranscriber) {
+    return overrideTranscriber;
+  }
+
+  const provider = process.env.TRANSCRIPTION_PROVIDER || "deepgram";
+
+  switch (provider) {
+    case "fake":
+      return createFakeTranscriber();
+    case "deepgram": {
+      if (!process.env.DEEPGRAM_API_KEY) {
+        throw new Error("DEEPGRAM_API_KEY environment variable is not set");
+      }
+      return createDeepgramTranscriber(process.env.DEEPGRAM_API_KEY);
+    }
+    default:
+      throw new Error(`Unknown transcription provider: ${provider}`);
+  }
+}
@@ -0,0 +1,113 @@
+import type {
+  SpeakerLabels,
+  TranscriptSegment,
+  TranscriptWord,
+} from "./types";
+
+/**
+ * Display name for a speaker, falling back to "Speaker N"
+ */
+export function speakerName(
+  speaker: number | null,
+  labels: SpeakerLabels = {}
+): string {
+  if (speaker === null) return "Unknown speaker";
+  return labels[String(speaker)]?.trim() || `Speaker ${speaker}`;
+}
+
+/**
+ * Groups consecutive words from the same speaker into segments
+ */
+export function segmentsFromWords(words: TranscriptWord[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let confidences: number[] = [];
+
+  const closeSegment = () => {
+    const last = segments[segments.length - 1];
+    if (last && confidences.length > 0) {
+      last.confidence =
+        confidences.reduce((sum, value) => sum + value, 0) / confidences.length;
+    }
+    confidences = [];
+  };
+
+  for (const word of words) {
+    const speaker = word.speaker ?? null;
+    const text = word.punctuated_word || word.word;
+    const last = segments[segments.length - 1];
+
+    if (last && last.speaker === speaker) {
+      last.text += ` ${text}`;
+      last.end = word.end;
+    } else {
+      closeSegment();
+      segments.push({
+        speaker,
+        start: word.start,
+        end: word.end,
+        text,
+        confidence: null,
+      });
+    }
+
+    if (word.confidence !== undefined) {
+      confidences.push(word.confidence);
+    }
+  }
+  closeSegment();
+
+  return segments;
+}
+
+/**
+ * Appends segments to a conversation, joining the first onto the last
+ * existing segment when the same speaker carries on talking
+ */
+export function appendSegments(
+  existing: TranscriptSegment[],
+  next: TranscriptSegment[]
+): TranscriptSegment[] {
+  if (next.length === 0) return existing;
+
+  const merged = [...existing];
+  const [first, ...rest] = next;
+  const last = merged[merged.length - 1];
+
+  if (last && last.speaker === first.speaker) {
+    merged[merged.length - 1] = {
+      ...last,
+      text: `${last.text} ${first.text}`,
+      end: first.end,
+      confidence:
+        last.confidence !== null && first.confidence !== null
+          ? (last.confidence + first.confidence) / 2
+          : (last.confidence ?? first.confidence),
+    };
+  } else {
+    merged.push(first);
+  }
+
+  return [...merged, ...rest];
+}
+
+/**
+ * Joins segments into a readable transcript, one paragraph per turn,
+ * using the speaker labels when given
+ */
+export function formatSegments(
+  segments: TranscriptSegment[],
+  labels: SpeakerLabels = {}
+): string {
+  return segments
+    .reduce<TranscriptSegment[]>(
+      (turns, segment) => appendSegments(turns, [segment]),
+      []
+    )
+    .filter((segment) => segment.text.trim())
+    .map((segment) =>
+      segment.speaker === null
+        ? segment.text.trim()
+        : `${speakerName(segment.speaker, labels)}: ${segment.text.trim()}`
+    )
+    .join("\n\n");
+}
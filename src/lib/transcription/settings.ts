@@ -0,0 +1,173 @@
+/**
+ * Transcription settings profiles
+ * Safe to import from client components: used by the live recorder as well
+ * as the server-side transcriber
+ *
+ * A clinic keeps one profile of defaults and each member can keep their own
+ * overrides. Any field left unset falls through user -> clinic -> built-in
+ * default; keyterms from both profiles are combined.
+ */
+
+import type { LiveSchema } from "@deepgram/sdk";
+
+// A stored profile as edited on the settings page, every field optional
+// (a type alias rather than an interface so it can be passed to updates)
+export type TranscriptionSettingsProfile = {
+  model?: string | null;
+  language?: string | null;
+  diarize?: boolean | null;
+  numerals?: boolean | null;
+  smart_format?: boolean | null;
+  filler_words?: boolean | null;
+  keyterms?: string[];
+  utterance_end_ms?: number | null;
+  endpointing_ms?: number | null;
+};
+
+// The settings in effect once profiles and defaults are merged
+export type TranscriptionSettings = {
+  model: string;
+  language: string;
+  diarize: boolean;
+  numerals: boolean;
+  smart_format: boolean;
+  filler_words: boolean;
+  keyterms: string[];
+  utterance_end_ms: number;
+  // null keeps Deepgram's own endpointing
+  endpointing_ms: number | null;
+};
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  model: "nova-3",
+  language: "en",
+  // Speaker numbers on each word are saved as transcript segments
+  diarize: true,
+  numerals: false,
+  smart_format: true,
+  filler_words: true,
+  keyterms: [],
+  utterance_end_ms: 3000,
+  endpointing_ms: null,
+};
+
+export const TRANSCRIPTION_MODELS = [
+  { value: "nova-3", label: "Nova-3" },
+  { value: "nova-3-medical", label: "Nova-3 Medical" },
+  { value: "nova-2", label: "Nova-2" },
+  { value: "nova-2-medical", label: "Nova-2 Medical" },
+] as const;
+
+export const TRANSCRIPTION_LANGUAGES = [
+  { value: "en", label: "English" },
+  { value: "en-US", label: "English (US)" },
+  { value: "en-GB", label: "English (UK)" },
+  { value: "en-AU", label: "English (Australia)" },
+  { value: "es", label: "Spanish" },
+  { value: "fr", label: "French" },
+  { value: "de", label: "German" },
+  { value: "multi", label: "Multilingual" },
+] as const;
+
+// Deepgram only sends UtteranceEnd events between these bounds
+export const UTTERANCE_END_MS_RANGE = { min: 1000, max: 5000 } as const;
+export const ENDPOINTING_MS_RANGE = { min: 10, max: 5000 } as const;
+export const MAX_KEYTERMS = 100;
+
+/**
+ * Merges the user and clinic profiles over the built-in defaults
+ */
+export function resolveTranscriptionSettings(
+  clinicProfile?: TranscriptionSettingsProfile | null,
+  userProfile?: TranscriptionSettingsProfile | null
+): TranscriptionSettings {
+  const pick = <K extends Exclude<keyof TranscriptionSettings, "keyterms">>(
+    key: K
+  ): TranscriptionSettings[K] =>
+    (userProfile?.[key] ??
+      clinicProfile?.[key] ??
+      DEFAULT_TRANSCRIPTION_SETTINGS[key]) as TranscriptionSettings[K];
+
+  return {
+    model: pick("model"),
+    language: pick("language"),
+    diarize: pick("diarize"),
+    numerals: pick("numerals"),
+    smart_format: pick("smart_format"),
+    filler_words: pick("filler_words"),
+    keyterms: mergeKeyterms(
+      clinicProfile?.keyterms || [],
+      userProfile?.keyterms || []
+    ),
+    utterance_end_ms: pick("utterance_end_ms"),
+    endpointing_ms: pick("endpointing_ms"),
+  };
+}
+
+/**
+ * Combines keyterm lists, dropping blanks and case-insensitive duplicates
+ */
+export function mergeKeyterms(...lists: string[][]): string[] {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+
+  for (const term of lists.flat()) {
+    const trimmed = term.trim();
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) continue;
+    seen.add(key);
+    merged.push(trimmed);
+  }
+
+  return merged.slice(0, MAX_KEYTERMS);
+}
+
+/**
+ * Splits a comma or newline separated list typed into the settings form
+ */
+export function parseKeyterms(input: string): string[] {
+  return mergeKeyterms(input.split(/[\n,]/));
+}
+
+/**
+ * Keyterm prompting is a Nova-3 feature; older models take keywords instead
+ */
+function supportsKeyterms(model: string) {
+  return model.startsWith("nova-3");
+}
+
+/**
+ * Builds options shared by live and prerecorded requests
+ */
+export function toDeepgramOptions(settings: TranscriptionSettings) {
+  const vocabulary =
+    settings.keyterms.length === 0
+      ? {}
+      : supportsKeyterms(settings.model)
+        ? { keyterm: settings.keyterms }
+        : { keywords: settings.keyterms };
+
+  return {
+    model: settings.model,
+    language: settings.language,
+    diarize: settings.diarize,
+    numerals: settings.numerals,
+    smart_format: settings.smart_format,
+    filler_words: settings.filler_words,
+    ...vocabulary,
+  };
+}
+
+/**
+ * Options for a live streaming connection
+ */
+export function toLiveOptions(settings: TranscriptionSettings): LiveSchema {
+  return {
+    ...toDeepgramOptions(settings),
+    interim_results: true,
+    utterance_end_ms: settings.utterance_end_ms,
+    ...(settings.endpointing_ms !== null && {
+      endpointing: settings.endpointing_ms,
+    }),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Shared types for server-side transcription providers
+ */
+
+import type { TranscriptionSettings } from "./settings";
+
+// Audio to transcribe, reachable by the provider at a (usually signed) URL
+export interface TranscriptionSource {
+  url: string;
+  mimeType?: string;
+}
+
+// A continuous stretch of speech from one speaker, times in seconds from the
+// start of the recording
+// (a type alias rather than an interface so it can be stored as JSON)
+export type TranscriptSegment = {
+  speaker: number | null;
+  start: number;
+  end: number;
+  text: string;
+  confidence: number | null;
+};
+
+// Display names for diarized speakers keyed by speaker number, e.g. { "0": "Vet" }
+export type SpeakerLabels = Record<string, string>;
+
+// A word as reported by Deepgram, live or prerecorded
+export interface TranscriptWord {
+  word: string;
+  punctuated_word?: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  speaker?: number;
+}
+
+export interface TranscriptionResult {
+  // Full transcript, one "Speaker N:" paragraph per change of speaker
+  transcript: string;
+  segments: TranscriptSegment[];
+  duration: number | null;
+}
+
+/**
+ * A speech-to-text provider used for uploaded recordings
+ */
+export interface Transcriber {
+  name: string;
+  // Settings default to the provider's own when not given
+  transcribe(
+    source: TranscriptionSource,
+    settings?: TranscriptionSettings
+  ): Promise<TranscriptionResult>;
+}
@@ -0,0 +1,108 @@
+/**
+ * Case lifecycle events clinics can subscribe webhooks to
+ * Safe to import from client components: the event catalogue and the shape
+ * of every payload. Signing and delivery live in ./index.ts.
+ */
+
+import { Constants, type Enums } from "@/database.types";
+
+export type WebhookEvent = Enums<"WebhookEvent">;
+
+export const WEBHOOK_EVENTS = Constants.public.Enums.WebhookEvent;
+
+export const WEBHOOK_EVENT_CATALOG: Record<
+  WebhookEvent,
+  { label: string; description: string }
+> = {
+  "case.created": {
+    label: "Case created",
+    description: "A case is created for a new or existing patient",
+  },
+  "case.status_changed": {
+    label: "Case status changed",
+    description: "A case moves between ongoing, completed and reviewed",
+  },
+  "transcription.completed": {
+    label: "Transcription completed",
+    description:
+      "A recording is transcribed, live or after it has been uploaded",
+  },
+  "generation.created": {
+    label: "Generation created",
+    description:
+      "Content is generated from a template, regenerated, edited or restored",
+  },
+  "note.created": {
+    label: "Note created",
+    description: "A note is saved to a case",
+  },
+  "note.approved": {
+    label: "Note approved",
+    description: "A note is approved in the Export Center",
+  },
+};
+
+// A case as sent in case events
+export type WebhookCase = {
+  id: string;
+  type: Enums<"CaseType"> | null;
+  status: Enums<"CaseStatus"> | null;
+  visibility: Enums<"CaseVisibility"> | null;
+  patientId: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+};
+
+// The data of each event; records are identified, clinical text is not sent
+export type WebhookEventData = {
+  "case.created": { case: WebhookCase };
+  "case.status_changed": {
+    case: WebhookCase;
+    previousStatus: Enums<"CaseStatus"> | null;
+  };
+  "transcription.completed": {
+    transcription: {
+      id: string;
+      caseId: string;
+      audioFileId: string | null;
+      createdAt: string;
+    };
+  };
+  "generation.created": {
+    generation: {
+      id: string;
+      caseId: string;
+      templateId: string | null;
+      parentId: string | null;
+      source: Enums<"GenerationSource">;
+      createdAt: string;
+    };
+  };
+  "note.created": {
+    note: {
+      id: string;
+      caseId: string;
+      title: string;
+      templateId: string | null;
+      createdAt: string;
+    };
+  };
+  "note.approved": {
+    note: { id: string; caseId: string; title: string };
+    review: {
+      reviewedBy: string;
+      reviewedAt: string;
+      comment: string | null;
+    };
+  };
+};
+
+// The JSON body of every webhook request
+export type WebhookPayload<E extends WebhookEvent = WebhookEvent> = {
+  // The event id; the same for every retry and redelivery
+  id: string;
+  type: E;
+  createdAt: string;
+  clinicId: string;
+  data: WebhookEventData[E];
+};
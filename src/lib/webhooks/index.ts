@@ -0,0 +1,143 @@
+/**
+ * Outbound webhooks
+ * Server-only: requests are signed with the subscription's secret
+ *
+ * Every request is a JSON POST of the event (see WebhookPayload) with these
+ * headers:
+ * - X-OdisAI-Event: the event, e.g. "case.created"
+ * - X-OdisAI-Event-Id: the event id, the same for retries and redeliveries
+ * - X-OdisAI-Timestamp: when the request was signed, in Unix seconds
+ * - X-OdisAI-Signature: "sha256=" and the hex HMAC-SHA256 of
+ *   "<timestamp>.<body>" keyed with the secret
+ *
+ * Receivers verify the signature over the raw body and reject old
+ * timestamps, so a captured request cannot be replayed later.
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import { assertPublicUrl } from "@/src/lib/public-url";
+import type { WebhookPayload } from "./catalog";
+
+export { WEBHOOK_EVENTS, WEBHOOK_EVENT_CATALOG } from "./catalog";
+export type {
+  WebhookCase,
+  WebhookEvent,
+  WebhookEventData,
+  WebhookPayload,
+} from "./catalog";
+
+// Attempts before a delivery is given up, including the first
+export const WEBHOOK_MAX_ATTEMPTS = 5;
+
+// Wait before the first retry; it doubles with every attempt after that.
+// Retries are sent by the scheduled worker, so delays are in minutes
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+// How long an attempt holds a delivery before the retry worker may pick it
+// up again, e.g. when the request sending it ended before it was recorded
+export const WEBHOOK_ATTEMPT_LEASE_MS = 2 * 60 * 1000;
+
+// How long an endpoint has to answer
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Longest response kept for the delivery log: enough to tell why an
+// endpoint refused an event, not to read what it serves
+const MAX_RESPONSE_LENGTH = 500;
+
+/**
+ * How long to wait after a failed attempt (1-based) before the next one:
+ * 1, 2, 4 and 8 minutes
+ */
+export function webhookRetryDelay(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+}
+
+/**
+ * Creates a signing secret for a subscription
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Signs a request body sent at the given Unix time
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+export type WebhookAttempt = {
+  delivered: boolean;
+  status: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+};
+
+/**
+ * Posts an event to a subscription's URL once
+ * The URL must resolve to a public address. Never throws: failures are
+ * returned so they can be logged and retried
+ */
+export async function sendWebhook(
+  subscription: { url: string; secret: string },
+  payload: WebhookPayload
+): Promise<WebhookAttempt> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  try {
+    await assertPublicUrl(subscription.url);
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "OdisAI-Webhooks/1.0",
+        "X-OdisAI-Event": payload.type,
+        "X-OdisAI-Event-Id": payload.id,
+        "X-OdisAI-Timestamp": String(timestamp),
+        "X-OdisAI-Signature": signWebhookPayload(
+          subscription.secret,
+          timestamp,
+          body
+        ),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      cache: "no-store",
+      redirect: "manual",
+    });
+    const responseBody = await response.text();
+
+    return {
+      delivered: response.ok,
+      status: response.status,
+      responseBody: responseBody.slice(0, MAX_RESPONSE_LENGTH),
+      error: response.ok
+        ? null
+        : `The endpoint answered with HTTP ${response.status}`,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      delivered: false,
+      status: null,
+      responseBody: null,
+      error:
+        error instanceof Error && error.name === "TimeoutError"
+          ? `The endpoint did not answer within ${DELIVERY_TIMEOUT_MS / 1000} seconds`
+          : error instanceof Error
+            ? error.message
+            : "Failed to reach the endpoint",
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
@@ -11,17 +11,30 @@ import {
 
 import {
   createContext,
+  useCallback,
   useContext,
+  useEffect,
   useState,
   useRef,
   type ReactNode,
 } from "react";
 
+// How the live connection is doing, shown to the user while recording
+export type ConnectionHealth =
+  | "connected"
+  | "connecting"
+  | "reconnecting"
+  | "offline"
+  | "disconnected";
+
 interface DeepgramContextType {
   connection: LiveClient | null;
   connectToDeepgram: (options: LiveSchema, endpoint?: string) => Promise<void>;
   disconnectFromDeepgram: () => void;
+  sendAudio: (data: Blob) => void;
   connectionState: SOCKET_STATES;
+  connectionHealth: ConnectionHealth;
+  bufferedChunks: number;
   isConnecting: boolean;
 }
 
@@ -38,9 +51,20 @@ interface DeepgramKeyResponse {
   url?: string;
 }
 
+// Deepgram closes idle sockets after about 10 seconds without audio
+const KEEP_ALIVE_INTERVAL_MS = 8000;
+const CONNECTION_TIMEOUT_MS = 5000;
+// Backoff between reconnection attempts; the last delay repeats
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000, 8000, 15000];
+// Audio kept while disconnected (roughly an hour of opus); the oldest is dropped first
+const MAX_BUFFERED_BYTES = 25 * 1024 * 1024;
+
+// Keys are short-lived, so a fresh one is fetched for every connection attempt
 const getApiKey = async (): Promise<string> => {
   try {
-    const response = await fetch("/api/authenticate", { cache: "no-store" });
+    const response = await fetch("/api/deepgram/authenticate", {
+      cache: "no-store",
+    });
 
     if (!response.ok) {
       throw new Error(
@@ -65,96 +89,306 @@ export function DeepgramContextProvider({
   const [connectionState, setConnectionState] = useState<SOCKET_STATES>(
     SOCKET_STATES.closed
   );
+  const [connectionHealth, setConnectionHealth] =
+    useState<ConnectionHealth>("disconnected");
+  const [bufferedChunks, setBufferedChunks] = useState(0);
   const [isConnecting, setIsConnecting] = useState(false);
+
+  // Refs hold the live socket state so timers and socket events never act on
+  // a stale render
+  const connectionRef = useRef<LiveClient | null>(null);
+  const isConnectingRef = useRef(false);
+  const optionsRef = useRef<{ options: LiveSchema; endpoint?: string } | null>(
+    null
+  );
+  // True between connectToDeepgram and disconnectFromDeepgram
+  const shouldReconnectRef = useRef(false);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<NodeJS.Timeout | null>(null);
   const connectionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const keepAliveIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  const connectToDeepgram = async (options: LiveSchema, endpoint?: string) => {
-    // Don't allow multiple connection attempts
-    if (isConnecting || connectionState === SOCKET_STATES.open) {
+  // Audio waiting to be sent, and the first chunk of the stream, which
+  // carries the container header a new socket needs before anything else
+  const bufferRef = useRef<Blob[]>([]);
+  const bufferedBytesRef = useRef(0);
+  const streamHeaderRef = useRef<Blob | null>(null);
+
+  const clearTimer = (timerRef: { current: NodeJS.Timeout | null }) => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const clearBuffer = () => {
+    bufferRef.current = [];
+    bufferedBytesRef.current = 0;
+    setBufferedChunks(0);
+  };
+
+  // Send the header and everything buffered to a newly opened socket
+  const flushBuffer = (conn: LiveClient) => {
+    const buffered = bufferRef.current;
+    const header = streamHeaderRef.current;
+
+    if (header && buffered[0] !== header) {
+      conn.send(header);
+    }
+    buffered.forEach((chunk) => conn.send(chunk));
+
+    if (buffered.length > 0) {
+      console.log(`Replayed ${buffered.length} buffered audio chunks`);
+    }
+    clearBuffer();
+  };
+
+  const scheduleReconnect = () => {
+    if (reconnectTimerRef.current) return;
+
+    // Wait for the browser to come back online before trying again
+    if (typeof navigator !== "undefined" && !navigator.onLine) {
+      setConnectionHealth("offline");
       return;
     }
 
+    setConnectionHealth("reconnecting");
+    const delay =
+      RECONNECT_DELAYS_MS[
+        Math.min(reconnectAttemptRef.current, RECONNECT_DELAYS_MS.length - 1)
+      ];
+    reconnectAttemptRef.current += 1;
+
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null;
+      openConnection();
+    }, delay);
+  };
+
+  // Called when a socket closes, errors or times out
+  const handleConnectionLost = (conn: LiveClient | null) => {
+    // Ignore events from sockets that have already been replaced
+    if (conn && conn !== connectionRef.current) return;
+
+    clearTimer(connectionTimeoutRef);
+    clearTimer(keepAliveIntervalRef);
+
+    if (conn) {
+      conn.removeAllListeners();
+      connectionRef.current = null;
+      setConnection(null);
+    }
+
+    isConnectingRef.current = false;
+    setIsConnecting(false);
+    setConnectionState(SOCKET_STATES.closed);
+
+    if (shouldReconnectRef.current) {
+      scheduleReconnect();
+    } else {
+      setConnectionHealth("disconnected");
+    }
+  };
+
+  const openConnection = async () => {
+    const target = optionsRef.current;
+    if (!target || isConnectingRef.current) return;
+
+    isConnectingRef.current = true;
+    setIsConnecting(true);
+
+    // Drop any previous socket without treating it as a lost connection
+    const previous = connectionRef.current;
+    if (previous) {
+      previous.removeAllListeners();
+      previous.disconnect();
+      connectionRef.current = null;
+      setConnection(null);
+    }
+
     try {
-      setIsConnecting(true);
+      const key = await getApiKey();
 
-      // Clean up any existing connection
-      if (connection) {
-        connection.finish();
-        setConnection(null);
+      // The recording may have been stopped while the key was fetched
+      if (!shouldReconnectRef.current) {
+        isConnectingRef.current = false;
+        setIsConnecting(false);
+        return;
       }
 
-      const key = await getApiKey();
       const deepgram = createClient(key);
-      const conn = deepgram.listen.live(options, endpoint);
+      const conn = deepgram.listen.live(target.options, target.endpoint);
+      connectionRef.current = conn;
 
-      // Set up connection timeout
       connectionTimeoutRef.current = setTimeout(() => {
         if (conn.getReadyState() !== SOCKET_STATES.open) {
-          conn.finish();
-          setConnectionState(SOCKET_STATES.closed);
-          setIsConnecting(false);
-          console.error("Connection timeout after 5 seconds");
+          console.error(
+            `Connection timeout after ${CONNECTION_TIMEOUT_MS / 1000} seconds`
+          );
+          conn.disconnect();
+          handleConnectionLost(conn);
         }
-      }, 5000);
+      }, CONNECTION_TIMEOUT_MS);
 
-      // Set up event listeners
       conn.addListener(LiveTranscriptionEvents.Open, () => {
-        if (connectionTimeoutRef.current) {
-          clearTimeout(connectionTimeoutRef.current);
-          connectionTimeoutRef.current = null;
-        }
-        setConnectionState(SOCKET_STATES.open);
+        clearTimer(connectionTimeoutRef);
+        isConnectingRef.current = false;
         setIsConnecting(false);
+        reconnectAttemptRef.current = 0;
+        setConnectionState(SOCKET_STATES.open);
+        setConnectionHealth("connected");
+
+        keepAliveIntervalRef.current = setInterval(() => {
+          conn.keepAlive();
+        }, KEEP_ALIVE_INTERVAL_MS);
+
+        flushBuffer(conn);
       });
 
       conn.addListener(LiveTranscriptionEvents.Close, () => {
-        setConnectionState(SOCKET_STATES.closed);
-        setConnection(null);
+        handleConnectionLost(conn);
       });
 
       conn.addListener(LiveTranscriptionEvents.Error, (error) => {
         console.error("Deepgram connection error:", error);
-        setConnectionState(SOCKET_STATES.closed);
-        setIsConnecting(false);
-        if (connectionTimeoutRef.current) {
-          clearTimeout(connectionTimeoutRef.current);
-          connectionTimeoutRef.current = null;
-        }
+        handleConnectionLost(conn);
       });
 
       setConnection(conn);
     } catch (error) {
       console.error("Failed to connect to Deepgram:", error);
-      setConnectionState(SOCKET_STATES.closed);
-      setIsConnecting(false);
-      throw error;
+      handleConnectionLost(null);
     }
   };
 
-  const disconnectFromDeepgram = () => {
-    if (connectionTimeoutRef.current) {
-      clearTimeout(connectionTimeoutRef.current);
-      connectionTimeoutRef.current = null;
+  const connectToDeepgram = async (options: LiveSchema, endpoint?: string) => {
+    optionsRef.current = { options, endpoint };
+    shouldReconnectRef.current = true;
+
+    // Don't allow multiple connection attempts
+    if (
+      isConnectingRef.current ||
+      connectionRef.current?.getReadyState() === SOCKET_STATES.open
+    ) {
+      return;
     }
 
-    if (connection) {
-      // Remove all listeners before finishing the connection
-      connection.removeAllListeners();
-      connection.finish();
-      // Add requestClose() as shown in the Deepgram example
-      connection.requestClose();
-      setConnection(null);
-      setConnectionState(SOCKET_STATES.closed);
+    clearTimer(reconnectTimerRef);
+    reconnectAttemptRef.current = 0;
+    setConnectionHealth("connecting");
+    await openConnection();
+  };
+
+  const disconnectFromDeepgram = () => {
+    shouldReconnectRef.current = false;
+    clearTimer(reconnectTimerRef);
+    clearTimer(connectionTimeoutRef);
+    clearTimer(keepAliveIntervalRef);
+
+    const conn = connectionRef.current;
+    if (conn) {
+      // Remove all listeners before closing the connection
+      conn.removeAllListeners();
+      conn.requestClose();
     }
+
+    connectionRef.current = null;
+    isConnectingRef.current = false;
+    setConnection(null);
+    setIsConnecting(false);
+    setConnectionState(SOCKET_STATES.closed);
+    setConnectionHealth("disconnected");
+
+    // The next recording starts a new stream with its own header
+    streamHeaderRef.current = null;
+    clearBuffer();
   };
 
+  /**
+   * Sends a chunk of microphone audio, or buffers it until the connection
+   * is back. Audio arriving after an intentional disconnect is dropped.
+   */
+  const sendAudio = useCallback((data: Blob) => {
+    if (!shouldReconnectRef.current || data.size === 0) return;
+
+    if (!streamHeaderRef.current) {
+      streamHeaderRef.current = data;
+    }
+
+    const conn = connectionRef.current;
+    if (conn && conn.getReadyState() === SOCKET_STATES.open) {
+      conn.send(data);
+      return;
+    }
+
+    bufferRef.current.push(data);
+    bufferedBytesRef.current += data.size;
+
+    while (
+      bufferedBytesRef.current > MAX_BUFFERED_BYTES &&
+      bufferRef.current.length > 1
+    ) {
+      const dropped = bufferRef.current.shift()!;
+      bufferedBytesRef.current -= dropped.size;
+    }
+
+    setBufferedChunks(bufferRef.current.length);
+  }, []);
+
+  // Reconnect as soon as the network comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      if (
+        shouldReconnectRef.current &&
+        !connectionRef.current &&
+        !isConnectingRef.current
+      ) {
+        clearTimer(reconnectTimerRef);
+        reconnectAttemptRef.current = 0;
+        setConnectionHealth("reconnecting");
+        openConnection();
+      }
+    };
+
+    const handleOffline = () => {
+      if (shouldReconnectRef.current) {
+        setConnectionHealth("offline");
+      }
+    };
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Close the socket when the provider unmounts
+  useEffect(() => {
+    return () => {
+      shouldReconnectRef.current = false;
+      clearTimer(reconnectTimerRef);
+      clearTimer(connectionTimeoutRef);
+      clearTimer(keepAliveIntervalRef);
+      connectionRef.current?.removeAllListeners();
+      connectionRef.current?.requestClose();
+    };
+  }, []);
+
   return (
     <DeepgramContext.Provider
       value={{
         connection,
         connectToDeepgram,
         disconnectFromDeepgram,
+        sendAudio,
         connectionState,
+        connectionHealth,
+        bufferedChunks,
         isConnecting,
       }}
     >
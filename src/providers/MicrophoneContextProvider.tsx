@@ -4,6 +4,7 @@ import {
   createContext,
   useCallback,
   useContext,
+  useRef,
   useState,
   ReactNode,
 } from "react";
@@ -13,9 +14,20 @@ interface MicrophoneContextType {
   startMicrophone: () => void;
   stopMicrophone: () => void;
   setupMicrophone: () => void;
+  finishRecording: () => Promise<RecordedAudio | null>;
   microphoneState: MicrophoneState | null;
 }
 
+// The audio captured between starting the microphone and finishing the recording
+export interface RecordedAudio {
+  blob: Blob;
+  mimeType: string;
+  duration: number;
+  sampleRate: number | null;
+  channels: number | null;
+  bitRate: number | null;
+}
+
 export enum MicrophoneEvents {
   DataAvailable = "dataavailable",
   Error = "error",
@@ -52,6 +64,19 @@ const MicrophoneContextProvider: React.FC<MicrophoneContextProviderProps> = ({
   );
   const [microphone, setMicrophone] = useState<MediaRecorder | null>(null);
 
+  // Chunks of the current recording and how long it has been recording for,
+  // excluding time spent paused
+  const chunksRef = useRef<Blob[]>([]);
+  const recordedMsRef = useRef(0);
+  const resumedAtRef = useRef<number | null>(null);
+
+  const pauseClock = () => {
+    if (resumedAtRef.current !== null) {
+      recordedMsRef.current += Date.now() - resumedAtRef.current;
+      resumedAtRef.current = null;
+    }
+  };
+
   const setupMicrophone = async () => {
     setMicrophoneState(MicrophoneState.SettingUp);
 
@@ -65,6 +90,13 @@ const MicrophoneContextProvider: React.FC<MicrophoneContextProviderProps> = ({
 
       const microphone = new MediaRecorder(userMedia);
 
+      // Keep every chunk so the full recording can be uploaded once finished
+      microphone.addEventListener(MicrophoneEvents.DataAvailable, (e) => {
+        if (e.data.size > 0) {
+          chunksRef.current.push(e.data);
+        }
+      });
+
       setMicrophoneState(MicrophoneState.Ready);
       setMicrophone(microphone);
     } catch (err: any) {
@@ -79,6 +111,7 @@ const MicrophoneContextProvider: React.FC<MicrophoneContextProviderProps> = ({
 
     if (microphone?.state === "recording") {
       microphone.pause();
+      pauseClock();
       setMicrophoneState(MicrophoneState.Paused);
     }
   }, [microphone]);
@@ -104,9 +137,52 @@ const MicrophoneContextProvider: React.FC<MicrophoneContextProviderProps> = ({
       microphone.start(250);
     }
 
+    resumedAtRef.current = Date.now();
     setMicrophoneState(MicrophoneState.Open);
   }, [microphone]);
 
+  /**
+   * Stops the recorder and returns everything captured since it was started
+   * The microphone goes back to Ready so the next start begins a new recording
+   */
+  const finishRecording = useCallback(async () => {
+    if (!microphone || microphone.state === "inactive") {
+      return null;
+    }
+
+    // The final chunk is delivered before the stop event fires
+    await new Promise<void>((resolve) => {
+      microphone.addEventListener(MicrophoneEvents.Stop, () => resolve(), {
+        once: true,
+      });
+      microphone.stop();
+    });
+    pauseClock();
+
+    const chunks = chunksRef.current;
+    const duration = recordedMsRef.current / 1000;
+    chunksRef.current = [];
+    recordedMsRef.current = 0;
+
+    setMicrophoneState(MicrophoneState.Ready);
+
+    if (chunks.length === 0) {
+      return null;
+    }
+
+    const mimeType = microphone.mimeType || chunks[0].type || "audio/webm";
+    const settings = microphone.stream.getAudioTracks()[0]?.getSettings();
+
+    return {
+      blob: new Blob(chunks, { type: mimeType }),
+      mimeType,
+      duration,
+      sampleRate: settings?.sampleRate ?? null,
+      channels: settings?.channelCount ?? null,
+      bitRate: microphone.audioBitsPerSecond || null,
+    };
+  }, [microphone]);
+
   return (
     <MicrophoneContext.Provider
       value={{
@@ -114,6 +190,7 @@ const MicrophoneContextProvider: React.FC<MicrophoneContextProviderProps> = ({
         startMicrophone,
         stopMicrophone,
         setupMicrophone,
+        finishRecording,
         microphoneState,
       }}
     >
@@ -2,25 +2,29 @@ import { create } from "zustand";
 import { SOCKET_STATES } from "@/src/providers/DeepgramContextProvider";
 import { MicrophoneState } from "@/src/providers/MicrophoneContextProvider";
 import { saveActionsToCase as saveActionsToCaseAction } from "@/app/actions";
-
-export interface SoapResponse {
-  subjective: string;
-  objective: string;
-  assessment: string;
-  plan: string;
-}
+import type {
+  SpeakerLabels,
+  TranscriptSegment,
+} from "@/src/lib/transcription/types";
+import {
+  noteFromStoredContent,
+  noteSectionsOf,
+  soapNote,
+  type StructuredNote,
+} from "@/src/lib/notes/structured-note";
 
 export interface CaseAction {
   id: string;
-  type: "soap" | "recording" | "unknown";
+  type: "note" | "recording" | "unknown";
   content: {
     transcript?: string;
-    soap?: {
-      subjective: string;
-      objective: string;
-      assessment: string;
-      plan: string;
-    };
+    // Uploaded recording the transcript was taken from
+    audioFileId?: string;
+    // Speaker-labelled conversation, when the transcript was diarized
+    segments?: TranscriptSegment[];
+    speakerLabels?: SpeakerLabels;
+    // Note generated from a template
+    note?: StructuredNote;
   };
   timestamp: number;
 }
@@ -60,10 +64,9 @@ export interface AppointmentData {
     }>;
     soap_notes?: Array<{
       id: string;
-      subjective: string | null;
-      objective: string | null;
-      assessment: string | null;
-      plan: string | null;
+      title: string;
+      template_id: string | null;
+      sections: unknown;
       created_at: string;
     }>;
     generations?: Array<{
@@ -96,7 +99,10 @@ interface CaseState {
   setTranscriptText: (value: string) => void;
   setMicrophoneState: (state: MicrophoneState) => void;
   setConnectionState: (state: SOCKET_STATES) => void;
-  handleRecordingFinished: () => void;
+  handleRecordingFinished: (recording?: {
+    audioFileId?: string;
+    segments?: TranscriptSegment[];
+  }) => void;
   reset: () => void;
   saveActionsToCase: (caseId: number | string) => Promise<boolean>;
   toggleRecordingSelection: (actionId: string) => void;
@@ -108,10 +114,10 @@ interface CaseState {
 // Initial dummy data
 const dummyAction: CaseAction = {
   id: "dummy-1",
-  type: "soap",
+  type: "note",
   content: {
     transcript: "Patient presented with vomiting and lethargy",
-    soap: {
+    note: soapNote({
       subjective:
         "Owner reports vomiting for 2 days, decreased appetite, and lethargy. No diarrhea noted.",
       objective:
@@ -119,7 +125,7 @@ const dummyAction: CaseAction = {
       assessment:
         "Suspected acute gastroenteritis. Differential diagnoses include dietary indiscretion, inflammatory bowel disease, or potential foreign body.",
       plan: "1. Start on anti-emetics (Cerenia)\n2. Fluid therapy for 24-48 hours\n3. Bland diet when vomiting resolves\n4. Recheck in 24 hours",
-    },
+    }),
   },
   timestamp: Date.now() - 86400000, // 24 hours ago
 };
@@ -172,7 +178,7 @@ export const useCaseStore = create<CaseState>((set, get) => ({
     }),
   clearSelectedRecordings: () => set({ selectedRecordings: [] }),
 
-  handleRecordingFinished: () => {
+  handleRecordingFinished: (recording) => {
     const { transcriptText } = get();
     if (transcriptText.trim()) {
       console.log("ADDING CASE RECORDING ACTION ");
@@ -181,6 +187,8 @@ export const useCaseStore = create<CaseState>((set, get) => ({
         type: "recording",
         content: {
           transcript: transcriptText,
+          audioFileId: recording?.audioFileId,
+          segments: recording?.segments,
         },
         timestamp: Date.now(),
       });
@@ -246,25 +254,27 @@ export const useCaseStore = create<CaseState>((set, get) => ({
             type: "recording",
             content: {
               transcript: transcription.transcript || "",
+              audioFileId: transcription.audio_file_id || undefined,
+              segments: transcription.segments || [],
+              speakerLabels: transcription.speaker_labels || {},
             },
             timestamp: new Date(transcription.created_at).getTime(),
           });
         });
       }
 
-      // Convert soap_notes to soap actions
+      // Convert soap_notes to note actions
       if (appointment.rawData.soap_notes) {
-        appointment.rawData.soap_notes.forEach((soapNote: any) => {
+        appointment.rawData.soap_notes.forEach((soapNote) => {
           caseActions.push({
             id: soapNote.id,
-            type: "soap",
+            type: "note",
             content: {
-              transcript: "", // SOAP notes might not have associated transcript
-              soap: {
-                subjective: soapNote.subjective || "",
-                objective: soapNote.objective || "",
-                assessment: soapNote.assessment || "",
-                plan: soapNote.plan || "",
+              transcript: "", // Notes might not have associated transcript
+              note: {
+                title: soapNote.title,
+                templateId: soapNote.template_id,
+                sections: noteSectionsOf(soapNote.sections),
               },
             },
             timestamp: new Date(soapNote.created_at).getTime(),
@@ -272,50 +282,15 @@ export const useCaseStore = create<CaseState>((set, get) => ({
         });
       }
 
-      // Convert generations to soap actions (generations are typically SOAP-like content)
+      // Convert generations to note actions
       if (appointment.rawData.generations) {
         appointment.rawData.generations.forEach((generation: any) => {
-          // Try to parse the content if it's JSON
-          let soapContent;
-          try {
-            const parsed = JSON.parse(generation.content || "{}");
-            if (
-              parsed.subjective ||
-              parsed.objective ||
-              parsed.assessment ||
-              parsed.plan
-            ) {
-              soapContent = {
-                subjective: parsed.subjective || "",
-                objective: parsed.objective || "",
-                assessment: parsed.assessment || "",
-                plan: parsed.plan || "",
-              };
-            } else {
-              // If not SOAP format, put content in plan field
-              soapContent = {
-                subjective: `Generated content from template`,
-                objective: "",
-                assessment: "",
-                plan: generation.content || "",
-              };
-            }
-          } catch (e) {
-            // If parsing fails, treat as plain text
-            soapContent = {
-              subjective: `Generated content`,
-              objective: "",
-              assessment: "",
-              plan: generation.content || "",
-            };
-          }
-
           caseActions.push({
             id: generation.id,
-            type: "soap",
+            type: "note",
             content: {
               transcript: "", // Generations might not have direct transcript
-              soap: soapContent,
+              note: noteFromStoredContent(generation.content, "Generated note"),
             },
             timestamp: new Date(generation.created_at).getTime(),
           });
@@ -1,23 +1,17 @@
 import { create } from "zustand";
+import type { StructuredNote } from "@/src/lib/notes/structured-note";
 
 export interface Section {
   id: string;
   content: string;
 }
 
-interface SoapResponse {
-  subjective: string;
-  objective: string;
-  assessment: string;
-  plan: string;
-}
-
 interface CaseAction {
   id: string;
-  type: "recording" | "soap";
+  type: "recording" | "note";
   content: {
     transcript?: string;
-    soap?: SoapResponse;
+    note?: StructuredNote;
   };
   timestamp: number;
 }
@@ -0,0 +1,29 @@
+-- Flattened view of cases used by the Find Case search endpoint
+-- Joins each case with its patient and counts of related records so that
+-- search, filtering, sorting and pagination can all happen in a single query
+CREATE OR REPLACE VIEW public.case_search
+WITH (security_invoker = true) AS
+SELECT
+  c.id,
+  c.user_id,
+  c.type,
+  c.status,
+  c.visibility,
+  c.created_at,
+  c.updated_at,
+  p.id AS patient_id,
+  p.name AS patient_name,
+  p.owner_name,
+  (SELECT count(*) FROM public.transcriptions t WHERE t.case_id = c.id) AS transcription_count,
+  (SELECT count(*) FROM public.soap_notes s WHERE s.case_id = c.id) AS soap_note_count,
+  (SELECT count(*) FROM public.generations g WHERE g.case_id = c.id) AS generation_count
+FROM public.cases c
+LEFT JOIN LATERAL (
+  SELECT id, name, owner_name
+  FROM public.patients
+  WHERE patients.case_id = c.id
+  ORDER BY created_at
+  LIMIT 1
+) p ON true;
+
+COMMENT ON VIEW public.case_search IS 'Cases joined with their patient and related record counts, used by /api/cases';
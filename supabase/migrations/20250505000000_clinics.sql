@@ -0,0 +1,296 @@
+-- Multi-tenant clinics
+-- Every case and clinic-specific template now belongs to a clinic, and access
+-- is granted through clinic membership rather than cases.user_id alone.
+
+CREATE TYPE public."ClinicRole" AS ENUM ('owner', 'veterinarian', 'technician', 'front_desk');
+
+CREATE TABLE public.clinics (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NULL DEFAULT now(),
+  CONSTRAINT clinics_pkey PRIMARY KEY (id),
+  CONSTRAINT clinics_created_by_fkey FOREIGN KEY (created_by) REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+CREATE TABLE public.clinic_members (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  role public."ClinicRole" NOT NULL DEFAULT 'veterinarian',
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NULL DEFAULT now(),
+  CONSTRAINT clinic_members_pkey PRIMARY KEY (id),
+  CONSTRAINT clinic_members_clinic_user_key UNIQUE (clinic_id, user_id),
+  CONSTRAINT clinic_members_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT clinic_members_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_clinic_members_user_id ON public.clinic_members (user_id);
+
+ALTER TABLE public.cases
+ADD COLUMN clinic_id uuid NULL REFERENCES public.clinics (id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+CREATE INDEX idx_cases_clinic_id ON public.cases (clinic_id);
+
+-- Templates without a clinic are built-in and readable by everyone
+ALTER TABLE public.templates
+ADD COLUMN clinic_id uuid NULL REFERENCES public.clinics (id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+CREATE INDEX idx_templates_clinic_id ON public.templates (clinic_id);
+
+COMMENT ON TABLE public.clinics IS 'Veterinary practices; the tenant boundary for cases and templates';
+COMMENT ON TABLE public.clinic_members IS 'Users belonging to a clinic and their role within it';
+COMMENT ON COLUMN public.templates.clinic_id IS 'Owning clinic, or NULL for built-in templates shared by every clinic';
+
+-- Membership helpers
+-- SECURITY DEFINER so policies on clinic_members can use them without recursing
+CREATE OR REPLACE FUNCTION public.is_clinic_member(target_clinic uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM clinic_members
+    WHERE clinic_id = target_clinic AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_clinic_role(target_clinic uuid, roles public."ClinicRole"[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM clinic_members
+    WHERE clinic_id = target_clinic AND user_id = auth.uid() AND role = ANY (roles)
+  );
+$$;
+
+-- A case is visible to its creator, and to the rest of the clinic when public
+CREATE OR REPLACE FUNCTION public.can_access_case(target_case uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM cases c
+    WHERE c.id = target_case
+      AND public.is_clinic_member(c.clinic_id)
+      AND (c.user_id = auth.uid() OR c.visibility = 'public')
+  );
+$$;
+
+-- Creates a clinic and makes the caller its owner in one step
+CREATE OR REPLACE FUNCTION public.create_clinic(clinic_name text)
+RETURNS public.clinics
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_clinic public.clinics;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO clinics (name, created_by)
+  VALUES (clinic_name, auth.uid())
+  RETURNING * INTO new_clinic;
+
+  INSERT INTO clinic_members (clinic_id, user_id, role)
+  VALUES (new_clinic.id, auth.uid(), 'owner');
+
+  RETURN new_clinic;
+END;
+$$;
+
+-- Backfill: every existing case owner gets a personal clinic holding their cases
+DO $$
+DECLARE
+  owner_id uuid;
+  new_clinic_id uuid;
+BEGIN
+  FOR owner_id IN
+    SELECT DISTINCT user_id FROM public.cases WHERE user_id IS NOT NULL AND clinic_id IS NULL
+  LOOP
+    INSERT INTO public.clinics (name, created_by)
+    VALUES ('My Clinic', owner_id)
+    RETURNING id INTO new_clinic_id;
+
+    INSERT INTO public.clinic_members (clinic_id, user_id, role)
+    VALUES (new_clinic_id, owner_id, 'owner');
+
+    UPDATE public.cases SET clinic_id = new_clinic_id
+    WHERE user_id = owner_id AND clinic_id IS NULL;
+  END LOOP;
+END;
+$$;
+
+-- Expose clinic_id on the search view
+CREATE OR REPLACE VIEW public.case_search
+WITH (security_invoker = true) AS
+SELECT
+  c.id,
+  c.user_id,
+  c.type,
+  c.status,
+  c.visibility,
+  c.created_at,
+  c.updated_at,
+  p.id AS patient_id,
+  p.name AS patient_name,
+  p.owner_name,
+  (SELECT count(*) FROM public.transcriptions t WHERE t.case_id = c.id) AS transcription_count,
+  (SELECT count(*) FROM public.soap_notes s WHERE s.case_id = c.id) AS soap_note_count,
+  (SELECT count(*) FROM public.generations g WHERE g.case_id = c.id) AS generation_count,
+  c.clinic_id
+FROM public.cases c
+LEFT JOIN LATERAL (
+  SELECT id, name, owner_name
+  FROM public.patients
+  WHERE patients.case_id = c.id
+  ORDER BY created_at
+  LIMIT 1
+) p ON true;
+
+-- Row level security
+ALTER TABLE public.clinics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.clinic_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.patients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transcriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.soap_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.generations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audio_files ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.templates ENABLE ROW LEVEL SECURITY;
+
+-- Clinics: members can read, owners can rename; creation goes through create_clinic()
+CREATE POLICY "Members can view their clinics" ON public.clinics
+  FOR SELECT TO authenticated
+  USING (public.is_clinic_member(id));
+
+CREATE POLICY "Owners can update their clinics" ON public.clinics
+  FOR UPDATE TO authenticated
+  USING (public.has_clinic_role(id, ARRAY['owner']::public."ClinicRole"[]))
+  WITH CHECK (public.has_clinic_role(id, ARRAY['owner']::public."ClinicRole"[]));
+
+CREATE POLICY "Owners can delete their clinics" ON public.clinics
+  FOR DELETE TO authenticated
+  USING (public.has_clinic_role(id, ARRAY['owner']::public."ClinicRole"[]));
+
+-- Clinic members: visible to the clinic, managed by owners
+CREATE POLICY "Members can view clinic membership" ON public.clinic_members
+  FOR SELECT TO authenticated
+  USING (public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Owners can add clinic members" ON public.clinic_members
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]));
+
+CREATE POLICY "Owners can update clinic members" ON public.clinic_members
+  FOR UPDATE TO authenticated
+  USING (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]))
+  WITH CHECK (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]));
+
+CREATE POLICY "Owners can remove members, members can leave" ON public.clinic_members
+  FOR DELETE TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[])
+  );
+
+-- Cases: private cases are visible to their creator, public cases to the whole clinic
+CREATE POLICY "Members can view accessible cases" ON public.cases
+  FOR SELECT TO authenticated
+  USING (
+    public.is_clinic_member(clinic_id)
+    AND (user_id = auth.uid() OR visibility = 'public')
+  );
+
+CREATE POLICY "Members can create cases in their clinic" ON public.cases
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid() AND public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Members can update accessible cases" ON public.cases
+  FOR UPDATE TO authenticated
+  USING (
+    public.is_clinic_member(clinic_id)
+    AND (user_id = auth.uid() OR visibility = 'public')
+  )
+  WITH CHECK (public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Creators and clinic owners can delete cases" ON public.cases
+  FOR DELETE TO authenticated
+  USING (
+    public.is_clinic_member(clinic_id)
+    AND (
+      user_id = auth.uid()
+      OR public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[])
+    )
+  );
+
+-- Case children inherit access from their case
+CREATE POLICY "Case access applies to patients" ON public.patients
+  FOR ALL TO authenticated
+  USING (public.can_access_case(case_id))
+  WITH CHECK (public.can_access_case(case_id));
+
+CREATE POLICY "Case access applies to transcriptions" ON public.transcriptions
+  FOR ALL TO authenticated
+  USING (public.can_access_case(case_id))
+  WITH CHECK (public.can_access_case(case_id));
+
+CREATE POLICY "Case access applies to SOAP notes" ON public.soap_notes
+  FOR ALL TO authenticated
+  USING (public.can_access_case(case_id))
+  WITH CHECK (public.can_access_case(case_id));
+
+CREATE POLICY "Case access applies to generations" ON public.generations
+  FOR ALL TO authenticated
+  USING (public.can_access_case(case_id))
+  WITH CHECK (public.can_access_case(case_id));
+
+CREATE POLICY "Case access applies to audio files" ON public.audio_files
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.transcriptions t
+      WHERE t.id = transcription_id AND public.can_access_case(t.case_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.transcriptions t
+      WHERE t.id = transcription_id AND public.can_access_case(t.case_id)
+    )
+  );
+
+-- Templates: built-in templates are readable by everyone, clinic templates by members
+CREATE POLICY "Members can view built-in and clinic templates" ON public.templates
+  FOR SELECT TO authenticated
+  USING (clinic_id IS NULL OR public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Members can create clinic templates" ON public.templates
+  FOR INSERT TO authenticated
+  WITH CHECK (clinic_id IS NOT NULL AND public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Members can update clinic templates" ON public.templates
+  FOR UPDATE TO authenticated
+  USING (clinic_id IS NOT NULL AND public.is_clinic_member(clinic_id))
+  WITH CHECK (clinic_id IS NOT NULL AND public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Owners and veterinarians can delete clinic templates" ON public.templates
+  FOR DELETE TO authenticated
+  USING (
+    clinic_id IS NOT NULL
+    AND public.has_clinic_role(clinic_id, ARRAY['owner', 'veterinarian']::public."ClinicRole"[])
+  );
@@ -0,0 +1,123 @@
+-- Clinic invitations and team management helpers
+
+CREATE TABLE public.clinic_invitations (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL,
+  email text NOT NULL,
+  name text NULL,
+  role public."ClinicRole" NOT NULL DEFAULT 'veterinarian',
+  invited_by uuid NULL,
+  expires_at timestamp with time zone NOT NULL,
+  accepted_at timestamp with time zone NULL,
+  accepted_by uuid NULL,
+  revoked_at timestamp with time zone NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NULL DEFAULT now(),
+  CONSTRAINT clinic_invitations_pkey PRIMARY KEY (id),
+  CONSTRAINT clinic_invitations_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT clinic_invitations_invited_by_fkey FOREIGN KEY (invited_by) REFERENCES auth.users (id) ON DELETE SET NULL,
+  CONSTRAINT clinic_invitations_accepted_by_fkey FOREIGN KEY (accepted_by) REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+-- Only one open invitation per email address and clinic
+CREATE UNIQUE INDEX idx_clinic_invitations_open_email
+  ON public.clinic_invitations (clinic_id, lower(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+COMMENT ON TABLE public.clinic_invitations IS 'Pending and historical invitations to join a clinic';
+
+ALTER TABLE public.clinic_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view clinic invitations" ON public.clinic_invitations
+  FOR SELECT TO authenticated
+  USING (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]));
+
+CREATE POLICY "Owners can create clinic invitations" ON public.clinic_invitations
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]));
+
+CREATE POLICY "Owners can update clinic invitations" ON public.clinic_invitations
+  FOR UPDATE TO authenticated
+  USING (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]))
+  WITH CHECK (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]));
+
+-- Members with their auth email and display name, which are not otherwise
+-- readable through the API
+CREATE OR REPLACE FUNCTION public.get_clinic_members(target_clinic uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  role public."ClinicRole",
+  email text,
+  name text,
+  created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    m.id,
+    m.user_id,
+    m.role,
+    u.email::text,
+    COALESCE(u.raw_user_meta_data ->> 'full_name', u.raw_user_meta_data ->> 'name') AS name,
+    m.created_at
+  FROM clinic_members m
+  JOIN auth.users u ON u.id = m.user_id
+  WHERE m.clinic_id = target_clinic
+    AND public.is_clinic_member(target_clinic)
+  ORDER BY m.created_at;
+$$;
+
+-- Accepts an invitation on behalf of the signed-in user. The invitation must
+-- be open, unexpired and addressed to the user's email.
+CREATE OR REPLACE FUNCTION public.accept_clinic_invitation(invitation_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation public.clinic_invitations;
+  user_email text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT email INTO user_email FROM auth.users WHERE id = auth.uid();
+
+  SELECT * INTO invitation
+  FROM clinic_invitations
+  WHERE id = invitation_id
+  FOR UPDATE;
+
+  IF invitation.id IS NULL OR invitation.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invitation has already been accepted';
+  END IF;
+
+  IF invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+
+  IF lower(invitation.email) <> lower(user_email) THEN
+    RAISE EXCEPTION 'Invitation was sent to a different email address';
+  END IF;
+
+  INSERT INTO clinic_members (clinic_id, user_id, role)
+  VALUES (invitation.clinic_id, auth.uid(), invitation.role)
+  ON CONFLICT (clinic_id, user_id) DO NOTHING;
+
+  UPDATE clinic_invitations
+  SET accepted_at = now(), accepted_by = auth.uid(), updated_at = now()
+  WHERE id = invitation.id;
+
+  RETURN invitation.clinic_id;
+END;
+$$;
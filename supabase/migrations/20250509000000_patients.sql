@@ -0,0 +1,186 @@
+-- First-class patients
+-- Patients belong to a clinic rather than a single case, and each case
+-- references the patient it was about. Weight readings are kept as history.
+
+CREATE TYPE public."PatientSex" AS ENUM ('male', 'female', 'unknown');
+CREATE TYPE public."NeuterStatus" AS ENUM ('intact', 'neutered', 'unknown');
+
+ALTER TABLE public.patients
+  ADD COLUMN clinic_id uuid NULL,
+  ADD COLUMN species text NULL,
+  ADD COLUMN breed text NULL,
+  ADD COLUMN sex public."PatientSex" NOT NULL DEFAULT 'unknown',
+  ADD COLUMN neuter_status public."NeuterStatus" NOT NULL DEFAULT 'unknown',
+  ADD COLUMN date_of_birth date NULL,
+  ADD COLUMN microchip_number text NULL,
+  ADD COLUMN allergies text[] NOT NULL DEFAULT '{}',
+  ADD CONSTRAINT patients_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.cases
+  ADD COLUMN patient_id uuid NULL,
+  ADD CONSTRAINT cases_patient_id_fkey FOREIGN KEY (patient_id) REFERENCES patients (id) ON UPDATE CASCADE ON DELETE SET NULL;
+
+CREATE TABLE public.patient_weights (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL,
+  case_id uuid NULL,
+  weight_kg numeric(6, 2) NOT NULL,
+  recorded_at timestamp with time zone NOT NULL DEFAULT now(),
+  recorded_by uuid NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT patient_weights_pkey PRIMARY KEY (id),
+  CONSTRAINT patient_weights_weight_kg_check CHECK (weight_kg > 0),
+  CONSTRAINT patient_weights_patient_id_fkey FOREIGN KEY (patient_id) REFERENCES patients (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT patient_weights_case_id_fkey FOREIGN KEY (case_id) REFERENCES cases (id) ON UPDATE CASCADE ON DELETE SET NULL,
+  CONSTRAINT patient_weights_recorded_by_fkey FOREIGN KEY (recorded_by) REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+-- Backfill: each case points at the first patient created for it, and every
+-- patient inherits the clinic of its case
+UPDATE public.patients p
+SET clinic_id = c.clinic_id
+FROM public.cases c
+WHERE p.case_id = c.id;
+
+UPDATE public.cases c
+SET patient_id = (
+  SELECT p.id
+  FROM public.patients p
+  WHERE p.case_id = c.id
+  ORDER BY p.created_at
+  LIMIT 1
+);
+
+-- Patients without a case were never reachable; drop them before enforcing the clinic
+DELETE FROM public.patients WHERE clinic_id IS NULL;
+
+ALTER TABLE public.patients ALTER COLUMN clinic_id SET NOT NULL;
+
+-- The search view joined through patients.case_id, so rebuild it on cases.patient_id
+DROP VIEW public.case_search;
+
+ALTER TABLE public.patients DROP COLUMN case_id;
+
+CREATE VIEW public.case_search
+WITH (security_invoker = true) AS
+SELECT
+  c.id,
+  c.user_id,
+  c.type,
+  c.status,
+  c.visibility,
+  c.created_at,
+  c.updated_at,
+  p.id AS patient_id,
+  p.name AS patient_name,
+  p.owner_name,
+  (SELECT count(*) FROM public.transcriptions t WHERE t.case_id = c.id) AS transcription_count,
+  (SELECT count(*) FROM public.soap_notes s WHERE s.case_id = c.id) AS soap_note_count,
+  (SELECT count(*) FROM public.generations g WHERE g.case_id = c.id) AS generation_count,
+  c.clinic_id
+FROM public.cases c
+LEFT JOIN public.patients p ON p.id = c.patient_id;
+
+CREATE INDEX idx_patients_clinic_id ON public.patients (clinic_id);
+CREATE UNIQUE INDEX idx_patients_clinic_microchip ON public.patients (clinic_id, microchip_number)
+  WHERE microchip_number IS NOT NULL;
+CREATE INDEX idx_cases_patient_id ON public.cases (patient_id);
+CREATE INDEX idx_patient_weights_patient_id ON public.patient_weights (patient_id, recorded_at DESC);
+
+-- Merge duplicate patients into a target: cases and weights move across,
+-- missing details are filled from the duplicates and the duplicates are deleted
+CREATE OR REPLACE FUNCTION public.merge_patients(target_patient uuid, duplicate_patients uuid[])
+RETURNS public.patients
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target public.patients;
+  duplicate public.patients;
+BEGIN
+  SELECT * INTO target FROM public.patients WHERE id = target_patient FOR UPDATE;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Patient not found';
+  END IF;
+
+  IF target_patient = ANY (duplicate_patients) THEN
+    RAISE EXCEPTION 'A patient cannot be merged into itself';
+  END IF;
+
+  FOR duplicate IN
+    SELECT * FROM public.patients WHERE id = ANY (duplicate_patients) ORDER BY created_at FOR UPDATE
+  LOOP
+    IF duplicate.clinic_id <> target.clinic_id THEN
+      RAISE EXCEPTION 'Patients must belong to the same clinic';
+    END IF;
+
+    UPDATE public.cases SET patient_id = target.id WHERE patient_id = duplicate.id;
+    UPDATE public.patient_weights SET patient_id = target.id WHERE patient_id = duplicate.id;
+
+    target.species := coalesce(target.species, duplicate.species);
+    target.breed := coalesce(target.breed, duplicate.breed);
+    target.date_of_birth := coalesce(target.date_of_birth, duplicate.date_of_birth);
+    target.microchip_number := coalesce(target.microchip_number, duplicate.microchip_number);
+    IF target.sex = 'unknown' THEN
+      target.sex := duplicate.sex;
+    END IF;
+    IF target.neuter_status = 'unknown' THEN
+      target.neuter_status := duplicate.neuter_status;
+    END IF;
+    target.allergies := ARRAY(
+      SELECT DISTINCT unnest(target.allergies || duplicate.allergies)
+    );
+
+    DELETE FROM public.patients WHERE id = duplicate.id;
+  END LOOP;
+
+  UPDATE public.patients
+  SET
+    species = target.species,
+    breed = target.breed,
+    date_of_birth = target.date_of_birth,
+    microchip_number = target.microchip_number,
+    sex = target.sex,
+    neuter_status = target.neuter_status,
+    allergies = target.allergies,
+    updated_at = now()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+-- Row level security: patients are shared across their clinic
+ALTER TABLE public.patient_weights ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY "Case access applies to patients" ON public.patients;
+
+CREATE POLICY "Members can view clinic patients" ON public.patients
+  FOR SELECT TO authenticated
+  USING (public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Members can create clinic patients" ON public.patients
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Members can update clinic patients" ON public.patients
+  FOR UPDATE TO authenticated
+  USING (public.is_clinic_member(clinic_id))
+  WITH CHECK (public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Owners and veterinarians can delete clinic patients" ON public.patients
+  FOR DELETE TO authenticated
+  USING (public.has_clinic_role(clinic_id, ARRAY['owner', 'veterinarian']::public."ClinicRole"[]));
+
+CREATE POLICY "Patient access applies to weights" ON public.patient_weights
+  FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.patients p
+    WHERE p.id = patient_id AND public.is_clinic_member(p.clinic_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.patients p
+    WHERE p.id = patient_id AND public.is_clinic_member(p.clinic_id)
+  ));
@@ -0,0 +1,69 @@
+-- Clients (pet owners)
+-- Owners become clinic records with contact details and communication
+-- preferences; a client can have any number of patients.
+
+CREATE TYPE public."ContactMethod" AS ENUM ('email', 'phone', 'sms', 'mail');
+
+CREATE TABLE public.clients (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL,
+  name text NOT NULL,
+  email text NULL,
+  phone text NULL,
+  address_line1 text NULL,
+  address_line2 text NULL,
+  city text NULL,
+  region text NULL,
+  postal_code text NULL,
+  country text NULL,
+  preferred_contact_method public."ContactMethod" NOT NULL DEFAULT 'email',
+  email_opt_in boolean NOT NULL DEFAULT true,
+  sms_opt_in boolean NOT NULL DEFAULT false,
+  notes text NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NULL DEFAULT now(),
+  CONSTRAINT clients_pkey PRIMARY KEY (id),
+  CONSTRAINT clients_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+ALTER TABLE public.patients
+  ADD COLUMN client_id uuid NULL,
+  ADD CONSTRAINT patients_client_id_fkey FOREIGN KEY (client_id) REFERENCES clients (id) ON UPDATE CASCADE ON DELETE SET NULL;
+
+CREATE INDEX idx_clients_clinic_id ON public.clients (clinic_id);
+CREATE UNIQUE INDEX idx_clients_clinic_email ON public.clients (clinic_id, lower(email))
+  WHERE email IS NOT NULL;
+CREATE INDEX idx_patients_client_id ON public.patients (client_id);
+
+-- Backfill: one client per distinct owner name in each clinic
+INSERT INTO public.clients (clinic_id, name)
+SELECT DISTINCT ON (clinic_id, lower(trim(owner_name))) clinic_id, trim(owner_name)
+FROM public.patients
+WHERE owner_name IS NOT NULL AND trim(owner_name) <> ''
+ORDER BY clinic_id, lower(trim(owner_name)), created_at;
+
+UPDATE public.patients p
+SET client_id = c.id
+FROM public.clients c
+WHERE c.clinic_id = p.clinic_id
+  AND lower(c.name) = lower(trim(p.owner_name));
+
+-- Row level security: clients are shared across their clinic
+ALTER TABLE public.clients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view clinic clients" ON public.clients
+  FOR SELECT TO authenticated
+  USING (public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Members can create clinic clients" ON public.clients
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Members can update clinic clients" ON public.clients
+  FOR UPDATE TO authenticated
+  USING (public.is_clinic_member(clinic_id))
+  WITH CHECK (public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Owners and veterinarians can delete clinic clients" ON public.clients
+  FOR DELETE TO authenticated
+  USING (public.has_clinic_role(clinic_id, ARRAY['owner', 'veterinarian']::public."ClinicRole"[]));
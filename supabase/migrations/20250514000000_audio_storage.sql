@@ -0,0 +1,97 @@
+-- Audio recordings
+-- Raw consult audio is kept in a private storage bucket so a transcript can be
+-- checked against the recording. Files are stored under {clinic_id}/ and each
+-- object has an audio_files row that is linked to its transcription once saved.
+
+CREATE TYPE public."AudioUploadStatus" AS ENUM ('pending', 'uploaded', 'failed');
+
+ALTER TABLE public.audio_files
+  ADD COLUMN clinic_id uuid NULL,
+  ADD COLUMN uploaded_by uuid NULL,
+  ADD COLUMN upload_status public."AudioUploadStatus" NOT NULL DEFAULT 'pending',
+  ADD CONSTRAINT audio_files_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  ADD CONSTRAINT audio_files_uploaded_by_fkey FOREIGN KEY (uploaded_by) REFERENCES auth.users (id) ON DELETE SET NULL;
+
+-- Backfill: existing rows inherit the clinic of their transcription's case
+UPDATE public.audio_files a
+SET clinic_id = c.clinic_id,
+    upload_status = 'uploaded'
+FROM public.transcriptions t
+JOIN public.cases c ON c.id = t.case_id
+WHERE t.id = a.transcription_id;
+
+DELETE FROM public.audio_files WHERE clinic_id IS NULL;
+
+ALTER TABLE public.audio_files ALTER COLUMN clinic_id SET NOT NULL;
+
+CREATE INDEX idx_audio_files_clinic_id ON public.audio_files (clinic_id);
+CREATE INDEX idx_audio_files_transcription_id ON public.audio_files (transcription_id);
+
+-- Audio is uploaded before the transcription exists, so access follows the
+-- transcription's case when linked and the clinic until then
+DROP POLICY "Case access applies to audio files" ON public.audio_files;
+
+CREATE POLICY "Case access applies to audio files" ON public.audio_files
+  FOR ALL TO authenticated
+  USING (
+    public.is_clinic_member(clinic_id)
+    AND (
+      transcription_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.transcriptions t
+        WHERE t.id = transcription_id AND public.can_access_case(t.case_id)
+      )
+    )
+  )
+  WITH CHECK (
+    public.is_clinic_member(clinic_id)
+    AND (
+      transcription_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.transcriptions t
+        WHERE t.id = transcription_id AND public.can_access_case(t.case_id)
+      )
+    )
+  );
+
+-- Private bucket for recordings (50 MB per object)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'recordings',
+  'recordings',
+  false,
+  52428800,
+  ARRAY['audio/webm', 'audio/ogg', 'audio/mp4', 'audio/mpeg', 'audio/wav']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage objects are readable and writable through their audio_files row
+CREATE POLICY "Members can upload clinic recordings" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'recordings'
+    AND EXISTS (
+      SELECT 1 FROM public.audio_files a
+      WHERE a.file_path = name AND a.upload_status <> 'uploaded'
+    )
+  );
+
+CREATE POLICY "Members can resume clinic recordings" ON storage.objects
+  FOR UPDATE TO authenticated
+  USING (
+    bucket_id = 'recordings'
+    AND EXISTS (
+      SELECT 1 FROM public.audio_files a
+      WHERE a.file_path = name AND a.upload_status <> 'uploaded'
+    )
+  );
+
+CREATE POLICY "Case access applies to recordings" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'recordings'
+    AND EXISTS (
+      SELECT 1 FROM public.audio_files a
+      WHERE a.file_path = name
+    )
+  );
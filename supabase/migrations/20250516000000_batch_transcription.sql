@@ -0,0 +1,26 @@
+-- Batch transcription
+-- Uploaded recordings are transcribed on the server, so a transcription can
+-- exist before its text does. processing_status tracks where it is.
+
+CREATE TYPE public."TranscriptionStatus" AS ENUM ('queued', 'processing', 'completed', 'failed');
+
+-- Everything saved so far came from live transcription and is complete
+UPDATE public.transcriptions SET processing_status = 'completed';
+
+ALTER TABLE public.transcriptions
+  ALTER COLUMN processing_status TYPE public."TranscriptionStatus"
+    USING processing_status::public."TranscriptionStatus",
+  ALTER COLUMN processing_status SET DEFAULT 'completed',
+  ALTER COLUMN processing_status SET NOT NULL,
+  ADD COLUMN processing_error text NULL;
+
+CREATE INDEX idx_transcriptions_processing_status ON public.transcriptions (processing_status)
+  WHERE processing_status IN ('queued', 'processing');
+
+-- Accept the formats phones and dictation devices produce
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'audio/webm', 'audio/ogg', 'audio/mp4', 'audio/x-m4a', 'audio/aac',
+  'audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/flac'
+]
+WHERE id = 'recordings';
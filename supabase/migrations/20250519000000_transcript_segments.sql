@@ -0,0 +1,11 @@
+-- Transcript segments
+-- Transcriptions keep a speaker-labelled conversation alongside the flat
+-- transcript: each segment is { speaker, start, end, text, confidence } with
+-- times in seconds, and speaker_labels maps speaker numbers to names such as
+-- { "0": "Vet", "1": "Owner" }.
+
+ALTER TABLE public.transcriptions
+  ADD COLUMN segments jsonb NOT NULL DEFAULT '[]',
+  ADD COLUMN speaker_labels jsonb NOT NULL DEFAULT '{}',
+  ADD CONSTRAINT transcriptions_segments_check CHECK (jsonb_typeof(segments) = 'array'),
+  ADD CONSTRAINT transcriptions_speaker_labels_check CHECK (jsonb_typeof(speaker_labels) = 'object');
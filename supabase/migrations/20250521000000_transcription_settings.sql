@@ -0,0 +1,61 @@
+-- Transcription settings
+-- Each clinic keeps one profile of transcription defaults (user_id IS NULL)
+-- and each member can keep their own overrides. Null columns inherit from the
+-- clinic profile and then the built-in defaults; keyterms from both profiles
+-- are combined.
+
+CREATE TABLE public.transcription_settings (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL,
+  user_id uuid NULL,
+  model text NULL,
+  language text NULL,
+  diarize boolean NULL,
+  numerals boolean NULL,
+  smart_format boolean NULL,
+  filler_words boolean NULL,
+  keyterms text[] NOT NULL DEFAULT '{}',
+  utterance_end_ms integer NULL,
+  endpointing_ms integer NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NULL DEFAULT now(),
+  CONSTRAINT transcription_settings_pkey PRIMARY KEY (id),
+  CONSTRAINT transcription_settings_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT transcription_settings_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users (id) ON DELETE CASCADE,
+  CONSTRAINT transcription_settings_utterance_end_ms_check CHECK (utterance_end_ms BETWEEN 1000 AND 5000),
+  CONSTRAINT transcription_settings_endpointing_ms_check CHECK (endpointing_ms BETWEEN 10 AND 5000),
+  CONSTRAINT transcription_settings_keyterms_check CHECK (cardinality(keyterms) <= 100)
+);
+
+-- One clinic profile and at most one profile per member
+CREATE UNIQUE INDEX idx_transcription_settings_clinic ON public.transcription_settings (clinic_id)
+  WHERE user_id IS NULL;
+CREATE UNIQUE INDEX idx_transcription_settings_clinic_user ON public.transcription_settings (clinic_id, user_id)
+  WHERE user_id IS NOT NULL;
+
+-- Row level security: members read their clinic's profile and their own;
+-- owners manage the clinic profile
+ALTER TABLE public.transcription_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view transcription settings" ON public.transcription_settings
+  FOR SELECT TO authenticated
+  USING (
+    public.is_clinic_member(clinic_id)
+    AND (user_id IS NULL OR user_id = auth.uid())
+  );
+
+CREATE POLICY "Members can manage their transcription settings" ON public.transcription_settings
+  FOR ALL TO authenticated
+  USING (public.is_clinic_member(clinic_id) AND user_id = auth.uid())
+  WITH CHECK (public.is_clinic_member(clinic_id) AND user_id = auth.uid());
+
+CREATE POLICY "Owners can manage clinic transcription settings" ON public.transcription_settings
+  FOR ALL TO authenticated
+  USING (
+    user_id IS NULL
+    AND public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[])
+  )
+  WITH CHECK (
+    user_id IS NULL
+    AND public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[])
+  );
@@ -0,0 +1,57 @@
+-- Template output schemas
+-- Templates describe the fields the model must fill in as a subset of JSON
+-- Schema: { "type": "object", "properties": { ... }, "required": [ ... ] }.
+-- Generation validates the model's output against it instead of parsing
+-- free text.
+
+ALTER TABLE public.templates
+  ADD COLUMN output_schema jsonb NULL,
+  ADD CONSTRAINT templates_output_schema_check CHECK (
+    output_schema IS NULL
+    OR (jsonb_typeof(output_schema) = 'object' AND output_schema->>'type' = 'object')
+  );
+
+COMMENT ON COLUMN public.templates.output_schema IS 'JSON Schema (subset) of the structured output generated from this template';
+
+-- SOAP templates get the four SOAP sections
+UPDATE public.templates
+SET output_schema = '{
+  "type": "object",
+  "properties": {
+    "subjective": { "type": "string", "title": "Subjective", "description": "Patient history and symptoms as reported" },
+    "objective": { "type": "string", "title": "Objective", "description": "Clinical findings and observations" },
+    "assessment": { "type": "string", "title": "Assessment", "description": "Diagnosis and clinical reasoning" },
+    "plan": { "type": "string", "title": "Plan", "description": "Treatment plan and follow-up instructions" }
+  },
+  "required": ["subjective", "objective", "assessment", "plan"]
+}'::jsonb
+WHERE type IN ('soap', 'soap_notes');
+
+-- Structured templates listed their fields as comma separated names in
+-- content; each becomes a required text field keyed by the snake_cased name
+UPDATE public.templates t
+SET output_schema = jsonb_build_object(
+  'type', 'object',
+  'properties', f.properties,
+  'required', f.required
+)
+FROM (
+  SELECT
+    id,
+    jsonb_object_agg(key, jsonb_build_object('type', 'string', 'title', title)) AS properties,
+    jsonb_agg(key) AS required
+  FROM (
+    SELECT DISTINCT ON (id, key) id, key, title
+    FROM (
+      SELECT
+        id,
+        trim(name) AS title,
+        trim(BOTH '_' FROM lower(regexp_replace(trim(name), '[^a-zA-Z0-9]+', '_', 'g'))) AS key
+      FROM public.templates, unnest(string_to_array(content, ',')) AS name
+      WHERE type = 'structured' AND content IS NOT NULL
+    ) named
+    WHERE key ~ '^[a-z]'
+  ) fields
+  GROUP BY id
+) f
+WHERE t.id = f.id;
@@ -0,0 +1,10 @@
+-- Template language model providers
+-- Templates choose the provider that generates their content ("openai",
+-- "anthropic", "bedrock" or "mock"); existing templates keep using OpenAI.
+-- Provider ids are validated by the application so new providers need no
+-- migration.
+
+ALTER TABLE public.templates
+  ADD COLUMN provider text NULL;
+
+COMMENT ON COLUMN public.templates.provider IS 'Language model provider id; NULL means the default provider (OpenAI)';
@@ -0,0 +1,34 @@
+-- Generation lineage
+-- Generations become versions: each one records the version it was derived
+-- from, how it was produced (generated, regenerated from another version,
+-- edited by hand or restored from an earlier version) and the inputs used,
+-- so the history of a note can be shown and compared. Rows are never updated;
+-- every change is a new version.
+
+CREATE TYPE public."GenerationSource" AS ENUM ('generated', 'regenerated', 'edited', 'restored');
+
+-- Templates count their revisions so generations can record which one they used
+ALTER TABLE public.templates
+  ADD COLUMN version integer NOT NULL DEFAULT 1;
+
+ALTER TABLE public.generations
+  ADD COLUMN parent_id uuid NULL,
+  ADD COLUMN source public."GenerationSource" NOT NULL DEFAULT 'generated',
+  ADD COLUMN template_version integer NULL,
+  ADD COLUMN transcription_ids uuid[] NOT NULL DEFAULT '{}',
+  ADD COLUMN provider text NULL,
+  ADD COLUMN model text NULL,
+  ADD COLUMN created_by uuid NULL,
+  ADD CONSTRAINT generations_parent_id_fkey FOREIGN KEY (parent_id) REFERENCES generations (id) ON UPDATE CASCADE ON DELETE SET NULL,
+  ADD CONSTRAINT generations_created_by_fkey FOREIGN KEY (created_by) REFERENCES auth.users (id) ON DELETE SET NULL;
+
+CREATE INDEX generations_case_id_created_at_idx ON public.generations (case_id, created_at);
+CREATE INDEX generations_parent_id_idx ON public.generations (parent_id);
+
+COMMENT ON COLUMN public.generations.parent_id IS 'Version this generation was derived from; NULL for the first version';
+COMMENT ON COLUMN public.generations.transcription_ids IS 'Transcriptions the content was generated from';
+
+-- Existing generations were made with the first revision of their template
+UPDATE public.generations
+SET template_version = 1
+WHERE template_id IS NOT NULL;
@@ -0,0 +1,174 @@
+-- Template versions
+-- Every change to a template is saved as a new, immutable version. A version
+-- starts as a draft; publishing it copies its content onto the template,
+-- which always holds the published version used for generation. Generations
+-- record the exact version they were made with, and a version's changelog
+-- note and author form the template's changelog.
+
+CREATE TYPE public."TemplateVersionStatus" AS ENUM ('draft', 'published');
+
+CREATE TABLE public.template_versions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  template_id uuid NOT NULL,
+  version integer NOT NULL,
+  status public."TemplateVersionStatus" NOT NULL DEFAULT 'draft',
+  name text NULL,
+  type text NULL,
+  description text NULL,
+  content text NULL,
+  prompt text NULL,
+  model text NULL,
+  provider text NULL,
+  output_schema jsonb NULL,
+  changelog text NULL,
+  created_by uuid NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  published_by uuid NULL,
+  published_at timestamp with time zone NULL,
+  CONSTRAINT template_versions_pkey PRIMARY KEY (id),
+  CONSTRAINT template_versions_template_id_version_key UNIQUE (template_id, version),
+  CONSTRAINT template_versions_published_check CHECK ((status = 'published') = (published_at IS NOT NULL)),
+  CONSTRAINT template_versions_template_id_fkey FOREIGN KEY (template_id) REFERENCES templates (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT template_versions_created_by_fkey FOREIGN KEY (created_by) REFERENCES auth.users (id) ON DELETE SET NULL,
+  CONSTRAINT template_versions_published_by_fkey FOREIGN KEY (published_by) REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+COMMENT ON TABLE public.template_versions IS 'Immutable revisions of templates; the template row holds the published one';
+COMMENT ON COLUMN public.template_versions.changelog IS 'What changed in this version, written by its author';
+
+ALTER TABLE public.generations
+  ADD COLUMN template_version_id uuid NULL,
+  ADD CONSTRAINT generations_template_version_id_fkey FOREIGN KEY (template_version_id) REFERENCES template_versions (id) ON UPDATE CASCADE ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.templates.version IS 'Published version number, see template_versions';
+
+-- Versions cannot be edited; the only change allowed is publishing a draft
+CREATE OR REPLACE FUNCTION public.protect_template_versions()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status = 'published' THEN
+    RAISE EXCEPTION 'Published template versions cannot be changed';
+  END IF;
+
+  IF (NEW.template_id, NEW.version, NEW.name, NEW.type, NEW.description, NEW.content,
+      NEW.prompt, NEW.model, NEW.provider, NEW.output_schema, NEW.changelog,
+      NEW.created_by, NEW.created_at)
+     IS DISTINCT FROM
+     (OLD.template_id, OLD.version, OLD.name, OLD.type, OLD.description, OLD.content,
+      OLD.prompt, OLD.model, OLD.provider, OLD.output_schema, OLD.changelog,
+      OLD.created_by, OLD.created_at)
+  THEN
+    RAISE EXCEPTION 'Template versions cannot be edited; save a new version instead';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_template_versions
+  BEFORE UPDATE ON public.template_versions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_template_versions();
+
+-- Publishes a draft: copies it onto its template and marks it published
+CREATE OR REPLACE FUNCTION public.publish_template_version(target_version uuid)
+RETURNS public.templates
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  draft public.template_versions;
+  published public.templates;
+BEGIN
+  SELECT * INTO draft FROM template_versions WHERE id = target_version FOR UPDATE;
+
+  IF draft.id IS NULL THEN
+    RAISE EXCEPTION 'Template version not found';
+  END IF;
+  IF draft.status <> 'draft' THEN
+    RAISE EXCEPTION 'Version % is already published', draft.version;
+  END IF;
+
+  UPDATE template_versions
+  SET status = 'published', published_at = now(), published_by = auth.uid()
+  WHERE id = draft.id;
+
+  UPDATE templates
+  SET name = draft.name,
+      type = draft.type,
+      description = draft.description,
+      content = draft.content,
+      prompt = draft.prompt,
+      model = draft.model,
+      provider = draft.provider,
+      output_schema = draft.output_schema,
+      version = draft.version,
+      updated_at = now()
+  WHERE id = draft.template_id
+  RETURNING * INTO published;
+
+  IF published.id IS NULL THEN
+    RAISE EXCEPTION 'Template not found or unauthorized';
+  END IF;
+
+  RETURN published;
+END;
+$$;
+
+CREATE INDEX idx_template_versions_template_id ON public.template_versions (template_id, version DESC);
+
+ALTER TABLE public.template_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions follow their template: built-in ones are readable by everyone,
+-- clinic ones by members, who may add and publish versions
+CREATE POLICY "Members can view versions of visible templates" ON public.template_versions
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.templates t
+      WHERE t.id = template_id
+        AND (t.clinic_id IS NULL OR public.is_clinic_member(t.clinic_id))
+    )
+  );
+
+CREATE POLICY "Members can add versions of clinic templates" ON public.template_versions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.templates t
+      WHERE t.id = template_id
+        AND t.clinic_id IS NOT NULL
+        AND public.is_clinic_member(t.clinic_id)
+    )
+  );
+
+CREATE POLICY "Members can publish versions of clinic templates" ON public.template_versions
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.templates t
+      WHERE t.id = template_id
+        AND t.clinic_id IS NOT NULL
+        AND public.is_clinic_member(t.clinic_id)
+    )
+  );
+
+-- Backfill: each template's current content becomes its published version
+INSERT INTO public.template_versions (
+  template_id, version, status, name, type, description, content, prompt,
+  model, provider, output_schema, changelog, created_at, published_at
+)
+SELECT
+  id, version, 'published', name, type, description, content, prompt,
+  model, provider, output_schema, 'Initial version',
+  COALESCE(updated_at, created_at, now()), COALESCE(updated_at, created_at, now())
+FROM public.templates;
+
+-- Generations made with the current revision point at it; older revisions
+-- were not kept
+UPDATE public.generations g
+SET template_version_id = v.id
+FROM public.template_versions v
+WHERE v.template_id = g.template_id
+  AND v.version = g.template_version;
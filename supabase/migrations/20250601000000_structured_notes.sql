@@ -0,0 +1,68 @@
+-- Structured notes
+-- SOAP notes become structured notes: an ordered list of typed sections
+-- defined by the template the note was generated with, stored as JSON (see
+-- /src/lib/notes/structured-note.ts). The fixed subjective, objective,
+-- assessment and plan columns are migrated into sections and dropped.
+
+ALTER TABLE public.soap_notes
+  ADD COLUMN title text NOT NULL DEFAULT 'SOAP Note',
+  ADD COLUMN template_id uuid NULL,
+  ADD COLUMN sections jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD CONSTRAINT soap_notes_template_id_fkey FOREIGN KEY (template_id) REFERENCES templates (id) ON UPDATE CASCADE ON DELETE SET NULL,
+  ADD CONSTRAINT soap_notes_sections_check CHECK (jsonb_typeof(sections) = 'array');
+
+COMMENT ON COLUMN public.soap_notes.sections IS 'Ordered sections of the note: key, title, field definition and value';
+COMMENT ON COLUMN public.soap_notes.template_id IS 'Template the note was generated with';
+
+-- Notes generated from other templates kept the generated text in plan and
+-- named the template in subjective ("Generated using template: <name>")
+UPDATE public.soap_notes
+SET
+  title = COALESCE(NULLIF(trim(substr(subjective, length('Generated using template:') + 1)), ''), 'Note'),
+  sections = jsonb_build_array(
+    jsonb_build_object(
+      'key', 'content',
+      'title', COALESCE(NULLIF(trim(substr(subjective, length('Generated using template:') + 1)), ''), 'Note'),
+      'field', jsonb_build_object('type', 'string'),
+      'value', COALESCE(plan, '')
+    )
+  )
+WHERE subjective LIKE 'Generated using template:%';
+
+-- Every other note has the four SOAP sections
+UPDATE public.soap_notes
+SET sections = jsonb_build_array(
+  jsonb_build_object(
+    'key', 'subjective',
+    'title', 'Subjective',
+    'field', '{"type": "string", "title": "Subjective", "description": "Patient history and symptoms as reported"}'::jsonb,
+    'value', to_jsonb(subjective)
+  ),
+  jsonb_build_object(
+    'key', 'objective',
+    'title', 'Objective',
+    'field', '{"type": "string", "title": "Objective", "description": "Clinical findings and observations"}'::jsonb,
+    'value', to_jsonb(objective)
+  ),
+  jsonb_build_object(
+    'key', 'assessment',
+    'title', 'Assessment',
+    'field', '{"type": "string", "title": "Assessment", "description": "Diagnosis and clinical reasoning"}'::jsonb,
+    'value', to_jsonb(assessment)
+  ),
+  jsonb_build_object(
+    'key', 'plan',
+    'title', 'Plan',
+    'field', '{"type": "string", "title": "Plan", "description": "Treatment plan and follow-up instructions"}'::jsonb,
+    'value', to_jsonb(plan)
+  )
+)
+WHERE subjective IS NULL OR subjective NOT LIKE 'Generated using template:%';
+
+ALTER TABLE public.soap_notes
+  DROP COLUMN subjective,
+  DROP COLUMN objective,
+  DROP COLUMN assessment,
+  DROP COLUMN plan;
+
+CREATE INDEX soap_notes_template_id_idx ON public.soap_notes (template_id);
@@ -0,0 +1,120 @@
+-- Export Center
+-- Generated documents (generation versions and notes) are signed off before
+-- they leave the clinic. A review records the decision on one document;
+-- documents without one are awaiting review. Every export is logged with
+-- who exported what, in which format and where it was sent.
+
+CREATE TYPE public."ReviewDecision" AS ENUM ('approved', 'rejected');
+CREATE TYPE public."ExportFormat" AS ENUM ('text', 'markdown', 'html', 'json');
+CREATE TYPE public."ExportDestination" AS ENUM ('download', 'email');
+
+CREATE TABLE public.document_reviews (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL,
+  case_id uuid NOT NULL,
+  generation_id uuid NULL,
+  soap_note_id uuid NULL,
+  decision public."ReviewDecision" NOT NULL,
+  comment text NULL,
+  reviewed_by uuid NULL,
+  reviewed_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT document_reviews_pkey PRIMARY KEY (id),
+  CONSTRAINT document_reviews_generation_id_key UNIQUE (generation_id),
+  CONSTRAINT document_reviews_soap_note_id_key UNIQUE (soap_note_id),
+  CONSTRAINT document_reviews_document_check CHECK (num_nonnulls(generation_id, soap_note_id) = 1),
+  CONSTRAINT document_reviews_comment_check CHECK (decision <> 'rejected' OR length(trim(comment)) > 0),
+  CONSTRAINT document_reviews_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT document_reviews_case_id_fkey FOREIGN KEY (case_id) REFERENCES cases (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT document_reviews_generation_id_fkey FOREIGN KEY (generation_id) REFERENCES generations (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT document_reviews_soap_note_id_fkey FOREIGN KEY (soap_note_id) REFERENCES soap_notes (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT document_reviews_reviewed_by_fkey FOREIGN KEY (reviewed_by) REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+COMMENT ON TABLE public.document_reviews IS 'Sign-off decisions on generations and notes; documents without a review are awaiting one';
+COMMENT ON COLUMN public.document_reviews.comment IS 'Why the document was rejected, or an optional note on approval';
+
+CREATE TABLE public.document_exports (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL,
+  batch_id uuid NOT NULL,
+  case_id uuid NULL,
+  generation_id uuid NULL,
+  soap_note_id uuid NULL,
+  document_title text NOT NULL,
+  format public."ExportFormat" NOT NULL,
+  destination public."ExportDestination" NOT NULL,
+  recipient text NULL,
+  exported_by uuid NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT document_exports_pkey PRIMARY KEY (id),
+  CONSTRAINT document_exports_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT document_exports_case_id_fkey FOREIGN KEY (case_id) REFERENCES cases (id) ON UPDATE CASCADE ON DELETE SET NULL,
+  CONSTRAINT document_exports_generation_id_fkey FOREIGN KEY (generation_id) REFERENCES generations (id) ON UPDATE CASCADE ON DELETE SET NULL,
+  CONSTRAINT document_exports_soap_note_id_fkey FOREIGN KEY (soap_note_id) REFERENCES soap_notes (id) ON UPDATE CASCADE ON DELETE SET NULL,
+  CONSTRAINT document_exports_exported_by_fkey FOREIGN KEY (exported_by) REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+COMMENT ON TABLE public.document_exports IS 'Log of every exported document; rows are never changed';
+COMMENT ON COLUMN public.document_exports.batch_id IS 'Documents exported together share a batch';
+COMMENT ON COLUMN public.document_exports.document_title IS 'Title at export time, kept when the document is deleted';
+
+-- Notes are edited in place, so an edit needs a new review
+CREATE OR REPLACE FUNCTION public.reset_soap_note_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.title, NEW.sections) IS DISTINCT FROM (OLD.title, OLD.sections) THEN
+    DELETE FROM document_reviews WHERE soap_note_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_soap_note_review
+  AFTER UPDATE ON public.soap_notes
+  FOR EACH ROW EXECUTE FUNCTION public.reset_soap_note_review();
+
+-- Row level security: reviews follow case access and are made by owners and
+-- veterinarians; the export log is visible to the clinic and append-only
+ALTER TABLE public.document_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Case access applies to document reviews" ON public.document_reviews
+  FOR SELECT TO authenticated
+  USING (public.is_clinic_member(clinic_id) AND public.can_access_case(case_id));
+
+CREATE POLICY "Owners and veterinarians can review documents" ON public.document_reviews
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    reviewed_by = auth.uid()
+    AND public.can_access_case(case_id)
+    AND public.has_clinic_role(clinic_id, ARRAY['owner', 'veterinarian']::public."ClinicRole"[])
+  );
+
+CREATE POLICY "Owners and veterinarians can change reviews" ON public.document_reviews
+  FOR UPDATE TO authenticated
+  USING (
+    public.can_access_case(case_id)
+    AND public.has_clinic_role(clinic_id, ARRAY['owner', 'veterinarian']::public."ClinicRole"[])
+  )
+  WITH CHECK (
+    reviewed_by = auth.uid()
+    AND public.can_access_case(case_id)
+    AND public.has_clinic_role(clinic_id, ARRAY['owner', 'veterinarian']::public."ClinicRole"[])
+  );
+
+CREATE POLICY "Members can view the export log" ON public.document_exports
+  FOR SELECT TO authenticated
+  USING (public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Members can log their exports" ON public.document_exports
+  FOR INSERT TO authenticated
+  WITH CHECK (exported_by = auth.uid() AND public.is_clinic_member(clinic_id));
+
+CREATE INDEX document_reviews_clinic_id_idx ON public.document_reviews (clinic_id);
+CREATE INDEX document_exports_clinic_id_created_at_idx ON public.document_exports (clinic_id, created_at DESC);
+CREATE INDEX document_exports_batch_id_idx ON public.document_exports (batch_id);
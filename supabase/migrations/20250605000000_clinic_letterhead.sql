@@ -0,0 +1,10 @@
+-- Clinic letterhead
+-- Contact details printed under the clinic's name on PDF documents. Owners
+-- edit them on the clinic settings page.
+
+ALTER TABLE public.clinics
+  ADD COLUMN address text NULL,
+  ADD COLUMN phone text NULL,
+  ADD COLUMN email text NULL;
+
+COMMENT ON COLUMN public.clinics.address IS 'Postal address, one line per row of the letterhead';
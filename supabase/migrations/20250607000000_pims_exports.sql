@@ -0,0 +1,84 @@
+-- PIMS exports
+-- Clinics connect practice-management systems through an adapter (FHIR R4,
+-- HL7 v2 MDM or a CSV/JSON webhook) with an endpoint and a field mapping.
+-- Every message sent to a PIMS is audited with what was sent, the answer
+-- and whether it was delivered.
+
+CREATE TYPE public."PimsAdapter" AS ENUM ('fhir_r4', 'hl7v2_mdm', 'webhook');
+CREATE TYPE public."PimsExportStatus" AS ENUM ('delivered', 'failed');
+
+CREATE TABLE public.pims_connections (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL,
+  name text NOT NULL,
+  adapter public."PimsAdapter" NOT NULL,
+  endpoint_url text NOT NULL,
+  auth_header text NULL,
+  mapping jsonb NOT NULL DEFAULT '{}',
+  enabled boolean NOT NULL DEFAULT true,
+  created_by uuid NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NULL DEFAULT now(),
+  CONSTRAINT pims_connections_pkey PRIMARY KEY (id),
+  CONSTRAINT pims_connections_name_check CHECK (length(trim(name)) > 0),
+  CONSTRAINT pims_connections_endpoint_url_check CHECK (endpoint_url ~ '^https?://'),
+  CONSTRAINT pims_connections_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT pims_connections_created_by_fkey FOREIGN KEY (created_by) REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+COMMENT ON TABLE public.pims_connections IS 'Practice-management systems a clinic exports documents to';
+COMMENT ON COLUMN public.pims_connections.auth_header IS 'Authorization header sent with every message; never returned to the browser';
+COMMENT ON COLUMN public.pims_connections.mapping IS 'Values of the adapter''s mapping fields by key; missing fields use the adapter''s defaults';
+
+CREATE TABLE public.pims_exports (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL,
+  connection_id uuid NULL,
+  connection_name text NOT NULL,
+  adapter public."PimsAdapter" NOT NULL,
+  case_id uuid NULL,
+  documents jsonb NOT NULL DEFAULT '[]',
+  is_test boolean NOT NULL DEFAULT false,
+  status public."PimsExportStatus" NOT NULL,
+  request_body text NOT NULL,
+  response_status integer NULL,
+  response_body text NULL,
+  error text NULL,
+  duration_ms integer NOT NULL,
+  exported_by uuid NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT pims_exports_pkey PRIMARY KEY (id),
+  CONSTRAINT pims_exports_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT pims_exports_connection_id_fkey FOREIGN KEY (connection_id) REFERENCES pims_connections (id) ON UPDATE CASCADE ON DELETE SET NULL,
+  CONSTRAINT pims_exports_case_id_fkey FOREIGN KEY (case_id) REFERENCES cases (id) ON UPDATE CASCADE ON DELETE SET NULL,
+  CONSTRAINT pims_exports_exported_by_fkey FOREIGN KEY (exported_by) REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+COMMENT ON TABLE public.pims_exports IS 'Audit of every message sent to a PIMS; rows are never changed';
+COMMENT ON COLUMN public.pims_exports.documents IS 'The documents the message carried: [{ type, id, title }]';
+COMMENT ON COLUMN public.pims_exports.is_test IS 'Sample messages sent to try a connection';
+
+-- Row level security: members see the connections and the audit and log
+-- their own exports; owners manage connections
+ALTER TABLE public.pims_connections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pims_exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view PIMS connections" ON public.pims_connections
+  FOR SELECT TO authenticated
+  USING (public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Owners can manage PIMS connections" ON public.pims_connections
+  FOR ALL TO authenticated
+  USING (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]))
+  WITH CHECK (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]));
+
+CREATE POLICY "Members can view the PIMS export log" ON public.pims_exports
+  FOR SELECT TO authenticated
+  USING (public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Members can log their PIMS exports" ON public.pims_exports
+  FOR INSERT TO authenticated
+  WITH CHECK (exported_by = auth.uid() AND public.is_clinic_member(clinic_id));
+
+CREATE INDEX pims_connections_clinic_id_idx ON public.pims_connections (clinic_id);
+CREATE INDEX pims_exports_clinic_id_created_at_idx ON public.pims_exports (clinic_id, created_at DESC);
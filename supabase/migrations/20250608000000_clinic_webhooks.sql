@@ -0,0 +1,97 @@
+-- Outbound webhooks
+-- Clinics subscribe endpoints to case lifecycle events. Every event sent to
+-- an endpoint is a delivery, signed with the subscription's secret and
+-- retried with exponential backoff; the delivery log keeps each attempt's
+-- outcome so deliveries can be inspected and sent again.
+
+CREATE TYPE public."WebhookEvent" AS ENUM (
+  'case.created',
+  'case.status_changed',
+  'transcription.completed',
+  'generation.created',
+  'note.created',
+  'note.approved'
+);
+CREATE TYPE public."WebhookDeliveryStatus" AS ENUM ('pending', 'delivered', 'failed');
+
+CREATE TABLE public.webhook_subscriptions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL,
+  url text NOT NULL,
+  description text NULL,
+  events public."WebhookEvent"[] NOT NULL,
+  secret text NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  created_by uuid NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NULL DEFAULT now(),
+  CONSTRAINT webhook_subscriptions_pkey PRIMARY KEY (id),
+  CONSTRAINT webhook_subscriptions_url_check CHECK (url ~ '^https?://'),
+  CONSTRAINT webhook_subscriptions_events_check CHECK (cardinality(events) > 0),
+  CONSTRAINT webhook_subscriptions_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT webhook_subscriptions_created_by_fkey FOREIGN KEY (created_by) REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+COMMENT ON TABLE public.webhook_subscriptions IS 'Endpoints a clinic sends case lifecycle events to';
+COMMENT ON COLUMN public.webhook_subscriptions.secret IS 'HMAC-SHA256 signing secret; shown to the owner only when it is created or rotated';
+
+CREATE TABLE public.webhook_deliveries (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL,
+  subscription_id uuid NOT NULL,
+  event public."WebhookEvent" NOT NULL,
+  event_id uuid NOT NULL,
+  payload jsonb NOT NULL,
+  status public."WebhookDeliveryStatus" NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamp with time zone NULL,
+  response_status integer NULL,
+  response_body text NULL,
+  error text NULL,
+  duration_ms integer NULL,
+  redelivery_of uuid NULL,
+  triggered_by uuid NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NULL DEFAULT now(),
+  CONSTRAINT webhook_deliveries_pkey PRIMARY KEY (id),
+  CONSTRAINT webhook_deliveries_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT webhook_deliveries_subscription_id_fkey FOREIGN KEY (subscription_id) REFERENCES webhook_subscriptions (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT webhook_deliveries_redelivery_of_fkey FOREIGN KEY (redelivery_of) REFERENCES webhook_deliveries (id) ON DELETE SET NULL,
+  CONSTRAINT webhook_deliveries_triggered_by_fkey FOREIGN KEY (triggered_by) REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+COMMENT ON TABLE public.webhook_deliveries IS 'Log of every event sent to a webhook subscription';
+COMMENT ON COLUMN public.webhook_deliveries.event_id IS 'Shared by every delivery of the same event, including redeliveries, so receivers can ignore duplicates';
+COMMENT ON COLUMN public.webhook_deliveries.next_attempt_at IS 'When a pending delivery is retried';
+COMMENT ON COLUMN public.webhook_deliveries.triggered_by IS 'The member whose action emitted the event, or who redelivered it';
+
+-- Row level security: members see the subscriptions and the log, and record
+-- the deliveries of events their actions emit; owners manage subscriptions
+ALTER TABLE public.webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view webhook subscriptions" ON public.webhook_subscriptions
+  FOR SELECT TO authenticated
+  USING (public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Owners can manage webhook subscriptions" ON public.webhook_subscriptions
+  FOR ALL TO authenticated
+  USING (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]))
+  WITH CHECK (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]));
+
+CREATE POLICY "Members can view webhook deliveries" ON public.webhook_deliveries
+  FOR SELECT TO authenticated
+  USING (public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Members can record their webhook deliveries" ON public.webhook_deliveries
+  FOR INSERT TO authenticated
+  WITH CHECK (triggered_by = auth.uid() AND public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Members can update their webhook deliveries" ON public.webhook_deliveries
+  FOR UPDATE TO authenticated
+  USING (triggered_by = auth.uid() AND public.is_clinic_member(clinic_id))
+  WITH CHECK (triggered_by = auth.uid() AND public.is_clinic_member(clinic_id));
+
+CREATE INDEX webhook_subscriptions_clinic_id_idx ON public.webhook_subscriptions (clinic_id);
+CREATE INDEX webhook_deliveries_clinic_id_created_at_idx ON public.webhook_deliveries (clinic_id, created_at DESC);
+CREATE INDEX webhook_deliveries_subscription_id_idx ON public.webhook_deliveries (subscription_id);
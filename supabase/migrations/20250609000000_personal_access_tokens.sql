@@ -0,0 +1,94 @@
+-- Personal access tokens for the /api/v1 REST API
+-- Users create tokens for one of their clinics with the scopes a script
+-- needs. Only a SHA-256 hash of each token is stored; the token itself is
+-- shown once when it is created. Requests made with a token act as its user
+-- in its clinic, so row level security applies as it does in the app.
+
+CREATE TYPE public."ApiTokenScope" AS ENUM (
+  'cases:read',
+  'cases:write',
+  'patients:read',
+  'patients:write',
+  'transcriptions:read',
+  'transcriptions:write',
+  'notes:read',
+  'notes:write',
+  'generations:read',
+  'generations:write',
+  'templates:read'
+);
+
+CREATE TABLE public.personal_access_tokens (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  clinic_id uuid NOT NULL,
+  name text NOT NULL,
+  token_prefix text NOT NULL,
+  token_hash text NOT NULL,
+  scopes public."ApiTokenScope"[] NOT NULL,
+  expires_at timestamp with time zone NULL,
+  last_used_at timestamp with time zone NULL,
+  revoked_at timestamp with time zone NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT personal_access_tokens_pkey PRIMARY KEY (id),
+  CONSTRAINT personal_access_tokens_token_hash_key UNIQUE (token_hash),
+  CONSTRAINT personal_access_tokens_name_check CHECK (length(trim(name)) > 0),
+  CONSTRAINT personal_access_tokens_scopes_check CHECK (cardinality(scopes) > 0),
+  CONSTRAINT personal_access_tokens_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users (id) ON DELETE CASCADE,
+  CONSTRAINT personal_access_tokens_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+COMMENT ON TABLE public.personal_access_tokens IS 'Tokens scripts use to call the /api/v1 REST API as a user in one clinic';
+COMMENT ON COLUMN public.personal_access_tokens.token_prefix IS 'Start of the token, shown so users can tell their tokens apart';
+COMMENT ON COLUMN public.personal_access_tokens.token_hash IS 'Hex SHA-256 of the token; the token itself is never stored';
+
+-- Row level security: users see, create and revoke their own tokens, only
+-- for clinics they belong to
+ALTER TABLE public.personal_access_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their access tokens" ON public.personal_access_tokens
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create access tokens" ON public.personal_access_tokens
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid() AND public.is_clinic_member(clinic_id));
+
+CREATE POLICY "Users can revoke their access tokens" ON public.personal_access_tokens
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE INDEX personal_access_tokens_user_id_idx ON public.personal_access_tokens (user_id);
+
+-- Looks up the token an API request presents, before there is a session to
+-- apply row level security with. Tokens that are revoked, expired or whose
+-- user has left the clinic are not found. Records when the token was used.
+CREATE OR REPLACE FUNCTION public.authenticate_access_token(token_hash text)
+RETURNS TABLE (
+  token_id uuid,
+  user_id uuid,
+  clinic_id uuid,
+  scopes public."ApiTokenScope"[]
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE personal_access_tokens AS t
+  SET last_used_at = now()
+  WHERE t.token_hash = authenticate_access_token.token_hash
+    AND t.revoked_at IS NULL
+    AND (t.expires_at IS NULL OR t.expires_at > now())
+    AND EXISTS (
+      SELECT 1 FROM clinic_members m
+      WHERE m.clinic_id = t.clinic_id AND m.user_id = t.user_id
+    )
+  RETURNING t.id, t.user_id, t.clinic_id, t.scopes;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.authenticate_access_token(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.authenticate_access_token(text) TO anon, authenticated;
@@ -0,0 +1,50 @@
+-- Personal clinics are created once per user
+-- getClinicContext gives users without a clinic a personal one. Several
+-- server actions run in parallel on a new user's first page load, and each
+-- used to call create_clinic, creating a "My Clinic" per action. This
+-- function serializes those calls per user and returns the clinic the user
+-- already belongs to when there is one.
+
+CREATE OR REPLACE FUNCTION public.ensure_personal_clinic(clinic_name text)
+RETURNS TABLE (
+  clinic_id uuid,
+  role public."ClinicRole"
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_clinic_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Held until the transaction ends, so a concurrent call for the same user
+  -- waits here and then finds the clinic this call created
+  PERFORM pg_advisory_xact_lock(hashtextextended('personal_clinic:' || auth.uid()::text, 0));
+
+  RETURN QUERY
+  SELECT m.clinic_id, m.role
+  FROM clinic_members m
+  WHERE m.user_id = auth.uid()
+  ORDER BY m.created_at ASC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO clinics (name, created_by)
+  VALUES (clinic_name, auth.uid())
+  RETURNING id INTO new_clinic_id;
+
+  INSERT INTO clinic_members (clinic_id, user_id, role)
+  VALUES (new_clinic_id, auth.uid(), 'owner');
+
+  RETURN QUERY SELECT new_clinic_id, 'owner'::public."ClinicRole";
+END;
+$$;
+
+COMMENT ON FUNCTION public.ensure_personal_clinic(text) IS 'Returns the signed-in user''s oldest clinic membership, creating a personal clinic first when they have none; safe to call concurrently';
@@ -0,0 +1,76 @@
+-- merge_patients moves every case of the duplicates
+-- It ran with the caller's permissions, so the UPDATE of cases only moved
+-- the cases the caller could see. Deleting a duplicate then set patient_id
+-- to null on the other members' private cases through
+-- cases_patient_id_fkey, unlinking them from any patient. The function now
+-- runs as its owner, after checking the caller may merge patients in the
+-- clinic, so every case of a duplicate moves to the target.
+
+CREATE OR REPLACE FUNCTION public.merge_patients(target_patient uuid, duplicate_patients uuid[])
+RETURNS public.patients
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.patients;
+  duplicate public.patients;
+BEGIN
+  SELECT * INTO target FROM public.patients WHERE id = target_patient FOR UPDATE;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Patient not found';
+  END IF;
+
+  -- Row level security is bypassed, so the caller's role is checked here
+  IF NOT public.has_clinic_role(target.clinic_id, ARRAY['owner', 'veterinarian']::public."ClinicRole"[]) THEN
+    RAISE EXCEPTION 'You do not have permission to perform this action';
+  END IF;
+
+  IF target_patient = ANY (duplicate_patients) THEN
+    RAISE EXCEPTION 'A patient cannot be merged into itself';
+  END IF;
+
+  FOR duplicate IN
+    SELECT * FROM public.patients WHERE id = ANY (duplicate_patients) ORDER BY created_at FOR UPDATE
+  LOOP
+    IF duplicate.clinic_id <> target.clinic_id THEN
+      RAISE EXCEPTION 'Patients must belong to the same clinic';
+    END IF;
+
+    UPDATE public.cases SET patient_id = target.id WHERE patient_id = duplicate.id;
+    UPDATE public.patient_weights SET patient_id = target.id WHERE patient_id = duplicate.id;
+
+    target.species := coalesce(target.species, duplicate.species);
+    target.breed := coalesce(target.breed, duplicate.breed);
+    target.date_of_birth := coalesce(target.date_of_birth, duplicate.date_of_birth);
+    target.microchip_number := coalesce(target.microchip_number, duplicate.microchip_number);
+    IF target.sex = 'unknown' THEN
+      target.sex := duplicate.sex;
+    END IF;
+    IF target.neuter_status = 'unknown' THEN
+      target.neuter_status := duplicate.neuter_status;
+    END IF;
+    target.allergies := ARRAY(
+      SELECT DISTINCT unnest(target.allergies || duplicate.allergies)
+    );
+
+    DELETE FROM public.patients WHERE id = duplicate.id;
+  END LOOP;
+
+  UPDATE public.patients
+  SET
+    species = target.species,
+    breed = target.breed,
+    date_of_birth = target.date_of_birth,
+    microchip_number = target.microchip_number,
+    sex = target.sex,
+    neuter_status = target.neuter_status,
+    allergies = target.allergies,
+    updated_at = now()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
@@ -0,0 +1,98 @@
+-- Export Center queues
+-- The queues used to be built by loading every generation and note of the
+-- clinic with its content and splitting them by review decision in the app.
+-- Generations now record the lineage they belong to, so the latest version
+-- of each can be found in SQL, and the export_queue view lists the documents
+-- of both queues for paging by created_at.
+
+ALTER TABLE public.generations
+  ADD COLUMN lineage_id uuid NULL;
+
+-- A parent that was deleted or belongs to another case starts a new lineage
+WITH RECURSIVE lineage AS (
+  SELECT g.id, g.case_id, g.id AS lineage_id
+  FROM public.generations g
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.generations parent
+    WHERE parent.id = g.parent_id
+      AND parent.case_id IS NOT DISTINCT FROM g.case_id
+  )
+  UNION ALL
+  SELECT child.id, child.case_id, lineage.lineage_id
+  FROM public.generations child
+  JOIN lineage ON child.parent_id = lineage.id
+    AND child.case_id IS NOT DISTINCT FROM lineage.case_id
+)
+UPDATE public.generations g
+SET lineage_id = lineage.lineage_id
+FROM lineage
+WHERE lineage.id = g.id;
+
+-- Rows in a parent_id cycle have no root; each becomes its own lineage
+UPDATE public.generations
+SET lineage_id = id
+WHERE lineage_id IS NULL;
+
+ALTER TABLE public.generations
+  ALTER COLUMN lineage_id SET NOT NULL;
+
+CREATE INDEX generations_lineage_id_created_at_idx ON public.generations (lineage_id, created_at);
+
+COMMENT ON COLUMN public.generations.lineage_id IS 'First version of the lineage this generation belongs to; set on insert from parent_id';
+
+CREATE OR REPLACE FUNCTION public.set_generation_lineage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.lineage_id := COALESCE(
+    (
+      SELECT parent.lineage_id FROM generations parent
+      WHERE parent.id = NEW.parent_id
+        AND parent.case_id IS NOT DISTINCT FROM NEW.case_id
+    ),
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_generation_lineage
+  BEFORE INSERT ON public.generations
+  FOR EACH ROW EXECUTE FUNCTION public.set_generation_lineage();
+
+-- Runs with the caller's permissions, so only documents of cases the member
+-- can access are listed
+CREATE OR REPLACE VIEW public.export_queue
+WITH (security_invoker = true) AS
+SELECT
+  'generation'::text AS document_type,
+  g.id AS document_id,
+  c.clinic_id,
+  g.case_id,
+  g.created_at,
+  CASE WHEN r.decision = 'approved' THEN 'ready' ELSE 'review' END AS queue
+FROM public.generations g
+JOIN public.cases c ON c.id = g.case_id
+LEFT JOIN public.document_reviews r ON r.generation_id = g.id
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.generations newer
+  WHERE newer.lineage_id = g.lineage_id
+    AND newer.created_at > g.created_at
+)
+UNION ALL
+SELECT
+  'soap_note'::text,
+  n.id,
+  c.clinic_id,
+  n.case_id,
+  n.created_at,
+  CASE WHEN r.decision = 'approved' THEN 'ready' ELSE 'review' END
+FROM public.soap_notes n
+JOIN public.cases c ON c.id = n.case_id
+LEFT JOIN public.document_reviews r ON r.soap_note_id = n.id;
+
+COMMENT ON VIEW public.export_queue IS 'Latest generation versions and notes with the Export Center queue they are in: review (no review or rejected) or ready (approved)';
@@ -0,0 +1,6 @@
+-- PDF exports are logged
+-- PDFs of notes, generations and case summaries are downloaded and emailed
+-- from the case page; they are now logged in document_exports like every
+-- other export, with their own format.
+
+ALTER TYPE public."ExportFormat" ADD VALUE IF NOT EXISTS 'pdf';
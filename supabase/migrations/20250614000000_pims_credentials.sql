@@ -0,0 +1,45 @@
+-- PIMS credentials are kept from members
+-- Every member could read pims_connections.auth_header, and the export log
+-- showed every member the messages sent for cases they cannot access. The
+-- header moves to pims_connection_credentials, which only owners can see;
+-- the app reads it with the service role to deliver messages. Log entries
+-- of a case follow access to the case.
+
+CREATE TABLE public.pims_connection_credentials (
+  connection_id uuid NOT NULL,
+  clinic_id uuid NOT NULL,
+  auth_header text NOT NULL,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT pims_connection_credentials_pkey PRIMARY KEY (connection_id),
+  CONSTRAINT pims_connection_credentials_connection_id_fkey FOREIGN KEY (connection_id) REFERENCES pims_connections (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT pims_connection_credentials_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+COMMENT ON TABLE public.pims_connection_credentials IS 'Authorization headers of PIMS connections; visible to clinic owners only';
+COMMENT ON COLUMN public.pims_connection_credentials.auth_header IS 'Authorization header sent with every message; never returned to the browser';
+
+INSERT INTO public.pims_connection_credentials (connection_id, clinic_id, auth_header)
+SELECT id, clinic_id, auth_header
+FROM public.pims_connections
+WHERE auth_header IS NOT NULL;
+
+ALTER TABLE public.pims_connections
+  DROP COLUMN auth_header;
+
+CREATE INDEX pims_connection_credentials_clinic_id_idx ON public.pims_connection_credentials (clinic_id);
+
+ALTER TABLE public.pims_connection_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage PIMS credentials" ON public.pims_connection_credentials
+  FOR ALL TO authenticated
+  USING (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]))
+  WITH CHECK (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]));
+
+DROP POLICY "Members can view the PIMS export log" ON public.pims_exports;
+
+CREATE POLICY "Members can view the PIMS export log" ON public.pims_exports
+  FOR SELECT TO authenticated
+  USING (
+    public.is_clinic_member(clinic_id)
+    AND (case_id IS NULL OR public.can_access_case(case_id))
+  );
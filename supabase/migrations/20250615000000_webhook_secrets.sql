@@ -0,0 +1,46 @@
+-- Webhook signing secrets are kept from members
+-- Every member could read webhook_subscriptions.secret and so sign events of
+-- their own. Secrets move to webhook_subscription_secrets, which only owners
+-- can see; the app reads them with the service role to sign deliveries.
+-- Retries are no longer made by the request that emitted the event: a
+-- scheduled worker (/api/webhooks/retry) sends pending deliveries once
+-- next_attempt_at has passed.
+
+CREATE TABLE public.webhook_subscription_secrets (
+  subscription_id uuid NOT NULL,
+  clinic_id uuid NOT NULL,
+  secret text NOT NULL,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT webhook_subscription_secrets_pkey PRIMARY KEY (subscription_id),
+  CONSTRAINT webhook_subscription_secrets_subscription_id_fkey FOREIGN KEY (subscription_id) REFERENCES webhook_subscriptions (id) ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT webhook_subscription_secrets_clinic_id_fkey FOREIGN KEY (clinic_id) REFERENCES clinics (id) ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+COMMENT ON TABLE public.webhook_subscription_secrets IS 'Signing secrets of webhook subscriptions; visible to clinic owners only';
+COMMENT ON COLUMN public.webhook_subscription_secrets.secret IS 'HMAC-SHA256 signing secret; shown to the owner only when it is created or rotated';
+
+INSERT INTO public.webhook_subscription_secrets (subscription_id, clinic_id, secret)
+SELECT id, clinic_id, secret
+FROM public.webhook_subscriptions;
+
+ALTER TABLE public.webhook_subscriptions
+  DROP COLUMN secret;
+
+CREATE INDEX webhook_subscription_secrets_clinic_id_idx ON public.webhook_subscription_secrets (clinic_id);
+
+ALTER TABLE public.webhook_subscription_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage webhook secrets" ON public.webhook_subscription_secrets
+  FOR ALL TO authenticated
+  USING (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]))
+  WITH CHECK (public.has_clinic_role(clinic_id, ARRAY['owner']::public."ClinicRole"[]));
+
+-- Attempts are recorded with the service role, so members no longer change
+-- deliveries
+DROP POLICY "Members can update their webhook deliveries" ON public.webhook_deliveries;
+
+-- The retry worker looks up due pending deliveries
+CREATE INDEX webhook_deliveries_pending_next_attempt_at_idx ON public.webhook_deliveries (next_attempt_at)
+  WHERE status = 'pending';
+
+COMMENT ON COLUMN public.webhook_deliveries.next_attempt_at IS 'When the retry worker may next send a pending delivery';
@@ -0,0 +1,24 @@
+-- Webhook deliveries are created by server code only
+-- Members could insert webhook_deliveries rows of their own, with any
+-- payload and subscription, and the retry worker would then sign and send
+-- them. Deliveries are now created with the service role, after the app has
+-- built the payload, and a delivery must belong to its subscription's clinic.
+
+DROP POLICY "Members can record their webhook deliveries" ON public.webhook_deliveries;
+
+-- Deliveries whose subscription is in another clinic can never be sent
+DELETE FROM public.webhook_deliveries d
+USING public.webhook_subscriptions s
+WHERE s.id = d.subscription_id
+  AND s.clinic_id <> d.clinic_id;
+
+ALTER TABLE public.webhook_subscriptions
+  ADD CONSTRAINT webhook_subscriptions_id_clinic_id_key UNIQUE (id, clinic_id);
+
+-- Replaces the single-column key, so deliveries keep one relationship to
+-- their subscription
+ALTER TABLE public.webhook_deliveries
+  DROP CONSTRAINT webhook_deliveries_subscription_id_fkey,
+  ADD CONSTRAINT webhook_deliveries_subscription_id_fkey FOREIGN KEY (subscription_id, clinic_id) REFERENCES public.webhook_subscriptions (id, clinic_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+COMMENT ON TABLE public.webhook_deliveries IS 'Log of every event sent to a webhook subscription; rows are written by server code with the service role';
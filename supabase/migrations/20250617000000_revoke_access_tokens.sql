@@ -0,0 +1,30 @@
+-- Access tokens are revoked through a function
+-- "Users can revoke their access tokens" let users update any column of
+-- their own tokens: a revoked token could be restored, or a token given more
+-- scopes, a later expiry or another clinic. Revoking is now the only change
+-- users can make, through revoke_personal_access_token().
+
+DROP POLICY "Users can revoke their access tokens" ON public.personal_access_tokens;
+
+CREATE OR REPLACE FUNCTION public.revoke_personal_access_token(token_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE personal_access_tokens
+  SET revoked_at = now()
+  WHERE id = token_id
+    AND user_id = auth.uid()
+    AND revoked_at IS NULL;
+
+  RETURN FOUND;
+END;
+$$;
+
+COMMENT ON FUNCTION public.revoke_personal_access_token(uuid) IS 'Revokes one of the signed-in user''s access tokens; returns false when it is not theirs or already revoked';
@@ -0,0 +1,10 @@
+-- PIMS answers are logged shortened
+-- Endpoints now have to be public and only the first 500 characters of an
+-- answer are kept. Answers logged before, possibly from private hosts, are
+-- shortened the same way.
+
+UPDATE public.pims_exports
+SET response_body = left(response_body, 500)
+WHERE length(response_body) > 500;
+
+COMMENT ON COLUMN public.pims_exports.response_body IS 'First 500 characters of the PIMS answer';
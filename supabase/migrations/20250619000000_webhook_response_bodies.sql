@@ -0,0 +1,10 @@
+-- Webhook responses are logged shortened
+-- Subscription URLs now have to be public and only the first 500 characters
+-- of a response are kept. Responses logged before, possibly from private
+-- hosts, are shortened the same way.
+
+UPDATE public.webhook_deliveries
+SET response_body = left(response_body, 500)
+WHERE length(response_body) > 500;
+
+COMMENT ON COLUMN public.webhook_deliveries.response_body IS 'First 500 characters of the last attempt''s response';